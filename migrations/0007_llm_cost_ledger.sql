@@ -0,0 +1,35 @@
+-- Migration: 0007_llm_cost_ledger
+-- Purpose: Per-company LLM spend ledger (daily aggregates) and monthly budgets with soft/hard limits
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0007_llm_cost_ledger.sql
+-- Safe: CREATE TABLE IF NOT EXISTS
+
+-- Ledger: one row per company/day/agent/workflow/operation/model, incremented on every tracked LLM call
+CREATE TABLE IF NOT EXISTS llm_cost_ledger (
+  company_id TEXT NOT NULL,
+  day TEXT NOT NULL,                  -- YYYY-MM-DD (UTC)
+  agent TEXT NOT NULL,                -- agent name, 'none' for direct generateText calls
+  workflow TEXT NOT NULL,             -- workflow/feature scope, 'none' when unattributed
+  operation TEXT NOT NULL,            -- trackedGenerateText / trackAgentCost label
+  model TEXT NOT NULL,
+  calls INTEGER NOT NULL DEFAULT 0,
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  cached_tokens INTEGER NOT NULL DEFAULT 0,
+  cost_usd REAL NOT NULL DEFAULT 0,
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (company_id, day, agent, workflow, operation, model)
+);
+
+CREATE INDEX IF NOT EXISTS idx_llm_cost_company_day ON llm_cost_ledger(company_id, day);
+
+-- Budgets: monthly USD budget per company (operator-managed)
+-- Example: INSERT INTO llm_budgets (company_id, monthly_budget_usd) VALUES ('acme', 250)
+--          ON CONFLICT(company_id) DO UPDATE SET monthly_budget_usd = excluded.monthly_budget_usd;
+CREATE TABLE IF NOT EXISTS llm_budgets (
+  company_id TEXT PRIMARY KEY,
+  monthly_budget_usd REAL NOT NULL,
+  soft_limit_pct INTEGER NOT NULL DEFAULT 80,   -- warn when month-to-date spend reaches this % of budget
+  hard_limit_pct INTEGER NOT NULL DEFAULT 100,  -- block LLM calls at this % of budget
+  updated_at TEXT DEFAULT (datetime('now'))
+);
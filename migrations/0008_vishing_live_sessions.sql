@@ -0,0 +1,21 @@
+-- Migration: 0008_vishing_live_sessions
+-- Purpose: Per-call state for the live vishing transcript webhook (phase, pending request, disclosure types)
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0008_vishing_live_sessions.sql
+-- Safe: CREATE TABLE IF NOT EXISTS
+
+-- One row per in-progress/finished call. No transcript text or disclosed values are stored.
+-- Purged with SESSION_DATA by the GDPR retention sweep.
+CREATE TABLE IF NOT EXISTS vishing_live_sessions (
+  conversation_id TEXT PRIMARY KEY,
+  phase TEXT NOT NULL,                -- current VISHING_TIMELINE_LABELS phase
+  pending_request TEXT,               -- secret type the agent last asked for (password, mfa_code, ...)
+  timeline TEXT NOT NULL DEFAULT '[]',     -- JSON [{ label, timestamp }] phase transitions
+  disclosures TEXT NOT NULL DEFAULT '[]',  -- JSON [{ type, timestamp }] disclosure types only
+  agent_turns INTEGER NOT NULL DEFAULT 0,
+  revealed INTEGER NOT NULL DEFAULT 0,     -- 1 once the agent said the call was a simulation
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_vishing_live_updated ON vishing_live_sessions(updated_at);
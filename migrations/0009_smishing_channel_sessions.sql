@@ -0,0 +1,24 @@
+-- Migration: 0009_smishing_channel_sessions
+-- Purpose: Per-sender conversation state for smishing simulations run over Slack, Teams, WhatsApp and Telegram
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0009_smishing_channel_sessions.sql
+-- Safe: CREATE TABLE IF NOT EXISTS
+
+-- One active conversation per platform user; starting a new scenario replaces it.
+-- Purged with SESSION_DATA by the GDPR retention sweep.
+CREATE TABLE IF NOT EXISTS smishing_channel_sessions (
+  channel TEXT NOT NULL,              -- slack | teams | whatsapp | telegram
+  sender_id TEXT NOT NULL,            -- platform user ID (Slack user, Entra object ID, wa_id, Telegram user ID)
+  company_id TEXT NOT NULL,
+  microlearning_id TEXT NOT NULL,
+  language TEXT NOT NULL,
+  messages TEXT NOT NULL DEFAULT '[]',      -- JSON chat history fed back into the smishing chat loop (last 30)
+  reply_target TEXT NOT NULL DEFAULT '{}',  -- JSON platform reply address
+  is_finished INTEGER NOT NULL DEFAULT 0,   -- 1 once the debrief message was sent
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (channel, sender_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_smishing_channel_sessions_company ON smishing_channel_sessions(company_id);
+CREATE INDEX IF NOT EXISTS idx_smishing_channel_sessions_updated ON smishing_channel_sessions(updated_at);
@@ -0,0 +1,30 @@
+-- Migration: 0010_smishing_chat_outcomes
+-- Purpose: Per-learner smishing conversation annotations and scored outcomes (/smishing/chat and channel transports)
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0010_smishing_chat_outcomes.sql
+-- Safe: CREATE TABLE IF NOT EXISTS; ALTER TABLE adds a nullable column (run once)
+
+-- One row per smishing chat session, re-scored on every turn. No chat history and no
+-- disclosed values: only learner action annotations and the outcome timeline (disclosing
+-- turns redacted). Purged with USER_ACTIVITY by the GDPR retention sweep.
+CREATE TABLE IF NOT EXISTS smishing_chat_outcomes (
+  session_id TEXT PRIMARY KEY,            -- client-supplied (/smishing/chat) or generated per channel session
+  company_id TEXT,                        -- X-COMPANY-ID of the session (NULL for anonymous web sessions)
+  microlearning_id TEXT NOT NULL,
+  user_id TEXT,                           -- learner ID (/smishing/chat) or "<channel>:<senderId>"
+  channel TEXT NOT NULL,                  -- web | slack | teams | whatsapp | telegram
+  language TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'in_progress',  -- in_progress | finished
+  learner_turns INTEGER NOT NULL DEFAULT 0,
+  annotations TEXT NOT NULL DEFAULT '[]',      -- JSON [{ turn, actions, disclosed }]
+  outcome TEXT,                                -- JSON SmishingConversationOutcome, set once the debrief is sent
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  finished_at TEXT
+);
+
+CREATE INDEX IF NOT EXISTS idx_smishing_chat_outcomes_lookup ON smishing_chat_outcomes(company_id, microlearning_id, user_id);
+CREATE INDEX IF NOT EXISTS idx_smishing_chat_outcomes_updated ON smishing_chat_outcomes(updated_at);
+
+-- Channel sessions carry the outcome session ID (NULL for sessions started before this migration)
+ALTER TABLE smishing_channel_sessions ADD COLUMN session_id TEXT;
@@ -0,0 +1,27 @@
+-- Migration: 0011_deepfake_likeness_registry
+-- Purpose: Registry of real-person avatars used for deepfake simulations and their consent records
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0011_deepfake_likeness_registry.sql
+-- Safe: CREATE TABLE IF NOT EXISTS — idempotent
+
+-- One row per (company, avatar). generate-deepfake-video refuses registered avatars whose
+-- consent is not granted, has expired, or does not cover the requested use case. Revoking
+-- keeps the row so the consent history stays traceable; every change is also written to
+-- the data_access_audit hash chain.
+CREATE TABLE IF NOT EXISTS deepfake_likeness_registry (
+  company_id TEXT NOT NULL,
+  avatar_id TEXT NOT NULL,                -- provider avatar ID (listHeyGenAvatars)
+  provider TEXT NOT NULL,                 -- heygen | mock
+  person_name TEXT NOT NULL,              -- the real person the avatar depicts
+  consent_status TEXT NOT NULL,           -- granted | pending | revoked
+  consent_reference TEXT,                 -- signed consent form / ticket reference (no document content)
+  consent_granted_at TEXT,
+  consent_expires_at TEXT,                -- ISO 8601; NULL = no expiry
+  allowed_use_cases TEXT NOT NULL DEFAULT '[]',  -- JSON array of DEEPFAKE_LIKENESS.USE_CASES
+  revoked_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (company_id, avatar_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_deepfake_likeness_expiry ON deepfake_likeness_registry(consent_expires_at);
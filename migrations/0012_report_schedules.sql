@@ -0,0 +1,43 @@
+-- Migration: 0012_report_schedules
+-- Purpose: Recurring per-company reports (monthly CISO report, quarterly board summary) and their run history
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0012_report_schedules.sql
+-- Safe: CREATE TABLE IF NOT EXISTS — idempotent
+
+-- One row per schedule. POST /reports/schedules/run picks rows whose next_run_at has passed,
+-- advances next_run_at (claim), regenerates the report for the last full period and delivers it.
+CREATE TABLE IF NOT EXISTS report_schedules (
+  id TEXT PRIMARY KEY,                    -- rsch_<uuid>
+  company_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+  cadence TEXT NOT NULL,                  -- weekly | monthly | quarterly
+  template TEXT NOT NULL,                 -- JSON { topic, pageTarget, language, sources }
+  outline TEXT,                           -- JSON ReportOutline reused every run; NULL = new outline per run
+  delivery TEXT NOT NULL,                 -- JSON { channel: webhook | email, url | recipients, format }
+  enabled INTEGER NOT NULL DEFAULT 1,
+  next_run_at TEXT NOT NULL,              -- ISO 8601 (UTC)
+  last_run_at TEXT,
+  created_at TEXT DEFAULT (datetime('now')),
+  updated_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedules_due ON report_schedules(enabled, next_run_at);
+CREATE INDEX IF NOT EXISTS idx_report_schedules_company ON report_schedules(company_id);
+
+-- One row per run. The report itself stays in KV (report:{report_id}:v1) for
+-- REPORT_SCHEDULES.HISTORY_TTL_SECONDS, beyond the 7 days of chat reports.
+CREATE TABLE IF NOT EXISTS report_schedule_runs (
+  id TEXT PRIMARY KEY,                    -- rrun_<uuid>
+  schedule_id TEXT NOT NULL,
+  company_id TEXT NOT NULL,
+  period_from TEXT NOT NULL,              -- YYYY-MM-DD, inclusive
+  period_to TEXT NOT NULL,                -- YYYY-MM-DD, inclusive
+  status TEXT NOT NULL,                   -- delivered | generated (delivery failed) | failed
+  report_id TEXT,
+  report_version INTEGER,
+  delivery_channel TEXT,
+  error TEXT,
+  created_at TEXT DEFAULT (datetime('now'))
+);
+
+CREATE INDEX IF NOT EXISTS idx_report_schedule_runs_schedule ON report_schedule_runs(schedule_id, created_at);
@@ -0,0 +1,36 @@
+-- Migration: 0013_policy_index
+-- Purpose: Chunked, embedded company policies for citation-grounded policy Q&A (summarize-policy)
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0013_policy_index.sql
+-- Safe: CREATE TABLE IF NOT EXISTS — idempotent
+
+-- One row per indexed policy file. content_hash (SHA-256 of the policy text) decides whether
+-- a sync re-chunks the policy; embedding_model is NULL when embeddings were unavailable and
+-- the chunks are searched by keyword only (re-embedded on the next sync).
+CREATE TABLE IF NOT EXISTS policy_documents (
+  company_id TEXT NOT NULL,
+  policy_key TEXT NOT NULL,               -- policy file blobUrl
+  policy_name TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  embedding_model TEXT,
+  indexed_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (company_id, policy_key)
+);
+
+-- Chunks keep their embedding keyed by content_hash (as embedding_cache does for examples),
+-- so an edited policy only re-embeds the chunks whose text changed.
+CREATE TABLE IF NOT EXISTS policy_chunks (
+  company_id TEXT NOT NULL,
+  policy_key TEXT NOT NULL,
+  chunk_index INTEGER NOT NULL,
+  policy_name TEXT NOT NULL,
+  section TEXT NOT NULL,                  -- nearest heading, used in citations
+  content TEXT NOT NULL,
+  content_hash TEXT NOT NULL,
+  embedding_json TEXT,                    -- JSON number[]; NULL = keyword retrieval only
+  created_at TEXT DEFAULT (datetime('now')),
+  PRIMARY KEY (company_id, policy_key, chunk_index)
+);
+
+CREATE INDEX IF NOT EXISTS idx_policy_chunks_company ON policy_chunks(company_id);
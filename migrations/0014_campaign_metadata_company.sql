@@ -0,0 +1,11 @@
+-- Migration: 0014_campaign_metadata_company
+-- Purpose: Record the uploading company on campaign_metadata so GDPR export/erasure can check
+--          that a resourceId belongs to the caller's company before touching its data.
+--          Rows written before this migration have company_id NULL and are treated as not owned.
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0014_campaign_metadata_company.sql
+-- Safe: ALTER TABLE ADD COLUMN is additive — no data loss
+
+ALTER TABLE campaign_metadata ADD COLUMN company_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_metadata_company ON campaign_metadata(company_id);
@@ -0,0 +1,12 @@
+-- Migration: 0015_campaign_metadata_content_id
+-- Purpose: Record our own content ID (microlearningId / phishingId / smishingId) next to the platform
+--          resource_id. KV keys (ml:/phishing:/smishing:{id}:) use the content ID, so GDPR export/erasure
+--          check ownership by content_id + company_id rather than by the platform resource_id.
+--          Rows written before this migration have content_id NULL and are treated as not owned.
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0015_campaign_metadata_content_id.sql
+-- Safe: ALTER TABLE ADD COLUMN is additive — no data loss
+
+ALTER TABLE campaign_metadata ADD COLUMN content_id TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_campaign_metadata_content ON campaign_metadata(content_id);
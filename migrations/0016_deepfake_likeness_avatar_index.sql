@@ -0,0 +1,9 @@
+-- Migration: 0016_deepfake_likeness_avatar_index
+-- Purpose: The video provider's avatar pool is shared by every company, so the pre-render consent
+--          check looks an avatar up across all companies (WHERE avatar_id = ?). The primary key
+--          (company_id, avatar_id) cannot serve that lookup.
+-- Database: agentic_ally_memory (database_id: 5a66922d-fbff-419c-9e5a-24f23334e5b9)
+-- Run: npx wrangler d1 execute agentic-ally-memory --remote --file=./migrations/0016_deepfake_likeness_avatar_index.sql
+-- Safe: CREATE INDEX IF NOT EXISTS — idempotent
+
+CREATE INDEX IF NOT EXISTS idx_deepfake_likeness_avatar ON deepfake_likeness_registry(avatar_id);
@@ -8,6 +8,7 @@
  * 3. Reorders AutonomousWorkflow class to appear after executeAutonomousGeneration function
  * 4. Injects BatchOrchestratorWorkflow class into compiled output
  * 5. Exports both workflow classes from index.mjs
+ * 6. Injects the RateLimiterObject Durable Object class and its wrangler binding
  */
 
 import { readFileSync, writeFileSync, existsSync, readdirSync } from 'fs';
@@ -120,6 +121,7 @@ function findFunctionEnd(content, startIndex) {
 // Source file paths for workflow classes
 const AUTONOMOUS_WORKFLOW_SOURCE = join(PROJECT_ROOT, 'src/mastra/workflows/autonomous-workflow.ts');
 const BATCH_ORCHESTRATOR_WORKFLOW_SOURCE = join(PROJECT_ROOT, 'src/mastra/workflows/batch-orchestrator-workflow.ts');
+const RATE_LIMITER_OBJECT_SOURCE = join(PROJECT_ROOT, 'src/mastra/durable-objects/rate-limiter-object.ts');
 
 /**
  * Extract a class from a TS source file using brace matching.
@@ -197,6 +199,21 @@ function stripBatchOrchestratorTypes(code) {
     .trim();
 }
 
+/**
+ * Strip TS annotations from RateLimiterObject (self-contained class, no imports).
+ */
+function stripRateLimiterObjectTypes(code) {
+  return code
+    // storage: RateLimiterStorage;  →  storage;
+    .replace(/^(\s+\w+):\s*[^;=()]+;$/gm, '$1;')
+    // constructor(state: { storage: RateLimiterStorage })  →  constructor(state)
+    .replace(/\((\w+):\s*\{[^}]*\}\)/g, '($1)')
+    // fetch(request: Request)  →  fetch(request)
+    .replace(/\((\w+):\s*\w+\)/g, '($1)')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
 function getAutonomousWorkflowFromSource() {
   const raw = extractClassFromSource(AUTONOMOUS_WORKFLOW_SOURCE, 'AutonomousWorkflow');
   return raw ? stripAutonomousWorkflowTypes(raw) : null;
@@ -207,6 +224,11 @@ function getBatchOrchestratorWorkflowFromSource() {
   return raw ? stripBatchOrchestratorTypes(raw) : null;
 }
 
+function getRateLimiterObjectFromSource() {
+  const raw = extractClassFromSource(RATE_LIMITER_OBJECT_SOURCE, 'RateLimiterObject');
+  return raw ? stripRateLimiterObjectTypes(raw) : null;
+}
+
 function ensureWorkflowEntrypointImport(content) {
   // NOTE: Only import WorkflowEntrypoint — WorkflowStep is a TypeScript-only type,
   // it does NOT exist as a runtime export in cloudflare:workers module.
@@ -458,6 +480,20 @@ function addBatchOrchestratorWorkflowToCompiled(content) {
   return { content, fixed };
 }
 
+function addRateLimiterObjectToCompiled(content) {
+  if (content.includes('class RateLimiterObject')) {
+    console.log(`  ✅ RateLimiterObject class already exists`);
+    return { content, fixed: false };
+  }
+
+  const objectClass = getRateLimiterObjectFromSource();
+  if (!objectClass) {
+    return { content, fixed: false };
+  }
+
+  return { content: content.trimEnd() + '\n\n' + objectClass + '\n', fixed: true };
+}
+
 function fixIndexMjsExport(filePath, content) {
   // Only process index.mjs
   if (!filePath.includes('index.mjs')) {
@@ -480,10 +516,11 @@ function fixIndexMjsExport(filePath, content) {
   let fixed = false;
   const insertIndex = match.index + match[0].length;
 
-  // Workflow classes to export from index.mjs
+  // Workflow + Durable Object classes to export from index.mjs
   const workflowExports = [
     { className: 'AutonomousWorkflow' },
     { className: 'BatchOrchestratorWorkflow' },
+    { className: 'RateLimiterObject' },
   ];
 
   let exportLines = '';
@@ -569,6 +606,14 @@ function fixFile(filePath) {
         console.log(`  ✅ Added BatchOrchestratorWorkflow class to mastra.mjs`);
         fixed = true;
       }
+
+      // RateLimiterObject (Durable Object) — append at end of file
+      const rateLimiterResult = addRateLimiterObjectToCompiled(content);
+      if (rateLimiterResult.fixed) {
+        content = rateLimiterResult.content;
+        console.log(`  ✅ Added RateLimiterObject class to mastra.mjs`);
+        fixed = true;
+      }
     }
     
     // Add export statement to index.mjs
@@ -664,6 +709,16 @@ function patchWranglerConfig() {
       preview_id: "a235dbdc79a34c25ba3fd8fc38673d1f"
     };
 
+    const rateLimiterObjectBinding = {
+      name: "RATE_LIMITER",
+      class_name: "RateLimiterObject"
+    };
+
+    const rateLimiterMigration = {
+      tag: "v1-rate-limiter",
+      new_sqlite_classes: ["RateLimiterObject"]
+    };
+
     // Add kv_namespaces if not already present
     if (!config.kv_namespaces) {
       config.kv_namespaces = [];
@@ -731,6 +786,35 @@ function patchWranglerConfig() {
       console.log(`  ✅ BATCH_WORKFLOW_KV KV namespace binding already exists`);
     }
 
+    // Check if RATE_LIMITER Durable Object binding already exists
+    if (!config.durable_objects) {
+      config.durable_objects = { bindings: [] };
+    }
+    if (!config.durable_objects.bindings) {
+      config.durable_objects.bindings = [];
+    }
+    const existingRateLimiter = config.durable_objects.bindings.find(b => b.name === "RATE_LIMITER");
+    if (!existingRateLimiter) {
+      config.durable_objects.bindings.push(rateLimiterObjectBinding);
+      console.log(`  ✅ Added RATE_LIMITER Durable Object binding`);
+      added = true;
+    } else {
+      console.log(`  ✅ RATE_LIMITER Durable Object binding already exists`);
+    }
+
+    // Durable Object classes must be declared in a migration before first deploy
+    if (!config.migrations) {
+      config.migrations = [];
+    }
+    const existingRateLimiterMigration = config.migrations.find(m => m.tag === rateLimiterMigration.tag);
+    if (!existingRateLimiterMigration) {
+      config.migrations.push(rateLimiterMigration);
+      console.log(`  ✅ Added ${rateLimiterMigration.tag} Durable Object migration`);
+      added = true;
+    } else {
+      console.log(`  ✅ ${rateLimiterMigration.tag} Durable Object migration already exists`);
+    }
+
     // Inject .env vars into wrangler.json vars (Mastra 1.14+ no longer does this automatically)
     const envPath = join(PROJECT_ROOT, '.env');
     if (existsSync(envPath)) {
@@ -751,7 +835,8 @@ function patchWranglerConfig() {
         const reservedBindings = (config.kv_namespaces || []).map(k => k.binding)
           .concat((config.d1_databases || []).map(d => d.binding))
           .concat((config.services || []).map(s => s.binding))
-          .concat((config.workflows || []).map(w => w.binding));
+          .concat((config.workflows || []).map(w => w.binding))
+          .concat(((config.durable_objects && config.durable_objects.bindings) || []).map(b => b.name));
         if (reservedBindings.includes(key)) continue;
         if (!config.vars[key]) {
           config.vars[key] = value;
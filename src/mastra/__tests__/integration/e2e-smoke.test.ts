@@ -657,7 +657,7 @@ describe('E2E Smoke Tests', () => {
 
       const json = vi.fn();
       const ctx = {
-        req: { json: vi.fn().mockResolvedValue({ accessToken: 'token' }) },
+        req: { json: vi.fn().mockResolvedValue({ accessToken: 'token' }), query: vi.fn().mockReturnValue(undefined) },
         json,
       } as any;
 
@@ -676,7 +676,7 @@ describe('E2E Smoke Tests', () => {
 
       const json = vi.fn();
       const ctx = {
-        req: { json: vi.fn().mockResolvedValue({ id: 'email-123' }) },
+        req: { json: vi.fn().mockResolvedValue({ id: 'email-123' }), query: vi.fn().mockReturnValue(undefined) },
         json,
       } as any;
 
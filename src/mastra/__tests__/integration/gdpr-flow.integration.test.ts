@@ -0,0 +1,223 @@
+/**
+ * Integration test: GDPR flow (uploadSmishingTool → POST /gdpr/export, POST /gdpr/erasure)
+ *
+ * Verifies that content uploaded by a company can be exported and erased by that company
+ * under the ID its KV keys use (smishingId), and that the platform resource ID the upload
+ * returns is neither needed nor enough to reach it.
+ * Mocks: KV (in-memory), D1 (in-memory campaign_metadata + data_deletion_requests), platform upload API.
+ * Runs: Real upload tool, campaign metadata + GDPR services, export and erasure routes.
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { uploadSmishingTool } from '../../tools/user-management/upload-smishing-tool';
+import { gdprExportHandler } from '../../routes/gdpr-export-route';
+import { gdprErasureHandler } from '../../routes/gdpr-erasure-route';
+import { requestStorage } from '../../utils/core/request-storage';
+
+const mocks = vi.hoisted(() => ({
+  kv: new Map<string, unknown>(),
+  callWorkerAPI: vi.fn(),
+}));
+
+vi.mock('../../services/kv-service', () => ({
+  KVService: vi.fn().mockImplementation(function () {
+    return {
+      get: async (key: string) => mocks.kv.get(key) ?? null,
+      list: async (prefix = '', limit = 1000) => [...mocks.kv.keys()].filter(k => k.startsWith(prefix)).slice(0, limit),
+      delete: async (key: string) => mocks.kv.delete(key),
+      getSmishing: async (id: string) => {
+        const base = mocks.kv.get(`smishing:${id}:base`);
+        return base
+          ? {
+              base,
+              sms: mocks.kv.get(`smishing:${id}:sms:en-gb`),
+              landing: mocks.kv.get(`smishing:${id}:landing:en-gb`),
+            }
+          : null;
+      },
+    };
+  }),
+}));
+
+vi.mock('../../utils/kv-consistency', () => ({
+  waitForKVConsistency: vi.fn(),
+}));
+
+vi.mock('../../utils/core/worker-api-client', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../utils/core/worker-api-client')>()),
+  callWorkerAPI: mocks.callWorkerAPI,
+}));
+
+interface MetadataRow {
+  resource_id: string;
+  company_id: string | null;
+  content_id: string | null;
+  [column: string]: unknown;
+}
+
+interface DeletionRequestRow {
+  id: string;
+  company_id: string;
+  user_id: string;
+  status: string;
+  resources_deleted: string | null;
+}
+
+/** In-memory D1 for the campaign_metadata and data_deletion_requests statements; other tables read as empty */
+function createD1() {
+  const rows: MetadataRow[] = [];
+  const deletionRequests: DeletionRequestRow[] = [];
+
+  const statement = (sql: string, params: unknown[] = []) => ({
+    bind: (...values: unknown[]) => statement(sql, values),
+    run: async () => {
+      if (sql.includes('INSERT OR REPLACE INTO campaign_metadata')) {
+        const columns = /\(([^)]+)\)\s*VALUES/
+          .exec(sql)![1]
+          .split(',')
+          .map(col => col.trim());
+        const row = Object.fromEntries(columns.map((col, i) => [col, params[i]])) as MetadataRow;
+        rows.splice(0, rows.length, ...rows.filter(r => r.resource_id !== row.resource_id), row);
+      } else if (sql.includes('DELETE FROM campaign_metadata WHERE content_id = ?')) {
+        const kept = rows.filter(r => r.content_id !== params[0]);
+        const changes = rows.length - kept.length;
+        rows.splice(0, rows.length, ...kept);
+        return { success: true, meta: { changes } };
+      } else if (sql.includes('INSERT INTO data_deletion_requests')) {
+        const [id, company_id, user_id] = params as string[];
+        deletionRequests.push({ id, company_id, user_id, status: 'pending', resources_deleted: null });
+      } else if (sql.includes('UPDATE data_deletion_requests')) {
+        const request = deletionRequests.find(r => r.id === params[params.length - 1])!;
+        const [status, resources] = sql.includes("status = 'completed'") ? ['completed', params[0]] : params;
+        Object.assign(request, { status, resources_deleted: resources });
+      }
+      return { success: true, meta: { changes: 1 } };
+    },
+    all: async () => {
+      if (sql.includes('FROM campaign_metadata WHERE content_id = ?')) {
+        return { success: true, results: rows.filter(r => r.content_id === params[0]) };
+      }
+      if (sql.includes('FROM data_deletion_requests WHERE company_id = ? AND user_id = ?')) {
+        const mine = deletionRequests.filter(r => r.company_id === params[0] && r.user_id === params[1]);
+        return { success: true, results: mine.slice(-1) };
+      }
+      return { success: true, results: [] };
+    },
+  });
+
+  return { rows, db: { prepare: (sql: string) => statement(sql) } };
+}
+
+const SMISHING_ID = 'sms-abc123';
+
+function gdprRequest(env: Record<string, unknown>, companyId: string, resourceId: string) {
+  const json = vi.fn((body: unknown, status: number) => ({ body, status }));
+  return {
+    req: {
+      header: (name: string) => (name === 'X-COMPANY-ID' ? companyId : undefined),
+      json: async () => ({ resourceId }),
+    },
+    env,
+    json,
+  } as any;
+}
+
+describe('GDPR Flow Integration', () => {
+  let d1: ReturnType<typeof createD1>;
+  let env: Record<string, unknown>;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.kv.clear();
+    mocks.kv.set(`smishing:${SMISHING_ID}:base`, {
+      name: 'Parcel redelivery',
+      topic: 'Delivery',
+      difficulty: 'medium',
+      language_availability: ['en-gb'],
+    });
+    mocks.kv.set(`smishing:${SMISHING_ID}:sms:en-gb`, { messages: ['Your parcel is waiting'] });
+    mocks.kv.set(`smishing:${SMISHING_ID}:landing:en-gb`, { pages: [] });
+    mocks.callWorkerAPI.mockResolvedValue({
+      templateResourceId: 'platform-tpl-1',
+      scenarioResourceId: 'platform-scn-1',
+    });
+
+    d1 = createD1();
+    env = { agentic_ally_memory: d1.db, SMISHING_CRUD_WORKER: { fetch: vi.fn() } };
+    vi.spyOn(requestStorage, 'getStore').mockReturnValue({ token: 'test-token', companyId: 'acme', env });
+  });
+
+  it('exports the uploaded content under its smishingId for the uploading company', async () => {
+    const upload = await uploadSmishingTool.execute!({ smishingId: SMISHING_ID }, {});
+    expect(upload).toMatchObject({ success: true });
+    expect(d1.rows).toEqual([
+      expect.objectContaining({ resource_id: 'platform-scn-1', company_id: 'acme', content_id: SMISHING_ID }),
+    ]);
+
+    const c = gdprRequest(env, 'acme', SMISHING_ID);
+    await gdprExportHandler(c);
+
+    const [body, status] = c.json.mock.calls[0];
+    expect(status).toBe(200);
+    expect(body.export.kvRecords).toEqual([
+      {
+        namespace: 'smishing',
+        key: `smishing:${SMISHING_ID}:base`,
+        value: expect.objectContaining({ topic: 'Delivery' }),
+      },
+      {
+        namespace: 'smishing',
+        key: `smishing:${SMISHING_ID}:sms:en-gb`,
+        value: { messages: ['Your parcel is waiting'] },
+      },
+      { namespace: 'smishing', key: `smishing:${SMISHING_ID}:landing:en-gb`, value: { pages: [] } },
+    ]);
+    expect(body.export.campaignMetadata).toEqual([expect.objectContaining({ resource_id: 'platform-scn-1' })]);
+  });
+
+  it('returns 404 to another company and for the platform resource ID', async () => {
+    await uploadSmishingTool.execute!({ smishingId: SMISHING_ID }, {});
+
+    const intruder = gdprRequest(env, 'intruder', SMISHING_ID);
+    await gdprExportHandler(intruder);
+    expect(intruder.json).toHaveBeenCalledWith({ success: false, error: 'Resource not found' }, 404);
+
+    const byPlatformId = gdprRequest(env, 'acme', 'platform-scn-1');
+    await gdprExportHandler(byPlatformId);
+    expect(byPlatformId.json).toHaveBeenCalledWith({ success: false, error: 'Resource not found' }, 404);
+  });
+
+  it('erases the uploaded content under its smishingId and resumes from the deletion request', async () => {
+    await uploadSmishingTool.execute!({ smishingId: SMISHING_ID }, {});
+
+    const c = gdprRequest(env, 'acme', SMISHING_ID);
+    await gdprErasureHandler(c);
+
+    const [body, status] = c.json.mock.calls[0];
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ success: true, status: 'completed', alreadyCompleted: false });
+    expect(body.resourcesDeleted).toEqual([
+      `kv:smishing:${SMISHING_ID}:base`,
+      `kv:smishing:${SMISHING_ID}:sms:en-gb`,
+      `kv:smishing:${SMISHING_ID}:landing:en-gb`,
+      `d1:campaign_metadata:${SMISHING_ID}`,
+    ]);
+    expect([...mocks.kv.keys()]).toEqual([]);
+    expect(d1.rows).toEqual([]);
+
+    // The ownership rows are gone, but the company's own deletion request still answers the repeat
+    const repeat = gdprRequest(env, 'acme', SMISHING_ID);
+    await gdprErasureHandler(repeat);
+    expect(repeat.json.mock.calls[0][0]).toMatchObject({ success: true, alreadyCompleted: true });
+  });
+
+  it("refuses to erase another company's content", async () => {
+    await uploadSmishingTool.execute!({ smishingId: SMISHING_ID }, {});
+
+    const intruder = gdprRequest(env, 'intruder', SMISHING_ID);
+    await gdprErasureHandler(intruder);
+
+    expect(intruder.json).toHaveBeenCalledWith({ success: false, error: 'Resource not found' }, 404);
+    expect(mocks.kv.has(`smishing:${SMISHING_ID}:base`)).toBe(true);
+    expect(d1.rows).toHaveLength(1);
+  });
+});
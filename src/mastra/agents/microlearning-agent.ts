@@ -20,6 +20,7 @@
  * - reasoningTool: Document reasoning for non-obvious decisions
  * - uploadTrainingTool: Direct upload to platform
  * - assignTrainingTool: Assign training to users/groups
+ * - microlearningVersionTool: List versions, diff two versions, roll back (after confirmation)
  *
  * Configuration:
  * - See CLAUDE.md for state machine enforcement rules
@@ -28,7 +29,7 @@
  */
 
 import { Agent } from '@mastra/core/agent';
-import { workflowExecutorTool } from '../tools/orchestration';
+import { workflowExecutorTool, microlearningVersionTool } from '../tools/orchestration';
 import { reasoningTool } from '../tools/analysis';
 // Removed getUserInfoTool - relying on history/defaults
 import { uploadTrainingTool, assignTrainingTool } from '../tools/user-management';
@@ -240,9 +241,26 @@ When user requests to update theme (e.g., "Change background color", "Change fon
       logo: {src, darkSrc, minimizedSrc, minimizedDarkSrc, alt} // ONLY if user provides a specific URL. NO HALLUCINATIONS.
     },
     useWhitelabelLogo: [OPTIONAL: true if user asks to use their organization/company/internal logo. otherwise omit.],
-    brandName: [OPTIONAL: REQUIRED if user asks for a public brand logo (e.g. 'Apple', 'Microsoft', 'Google'). Put the brand name here and LEAVE theme.logo EMPTY.]
+    brandName: [OPTIONAL: REQUIRED if user asks for a public brand logo (e.g. 'Apple', 'Microsoft', 'Google'). Put the brand name here and LEAVE theme.logo EMPTY.],
+    sceneEdits: [OPTIONAL: targeted content edits, see below]
   }
 
+**Update Existing Microlearning (Scene Content):**
+When user asks to change the content of a specific scene (e.g., "Make question 3 harder", "Replace scene 8 resources with our intranet links"), use the same 'update-microlearning' call with updates.sceneEdits (max 5):
+- sceneEdits: [{ sceneNumber, instruction }]
+  - sceneNumber: 1 intro, 2 goals, 3 video, 4 actionable / simulation, 5 quiz, 6 survey, 7 nudge, 8 summary (resources)
+  - instruction: the user's request in plain words, including every concrete value they gave (URLs, names, numbers). NEVER invent URLs.
+- The edit is applied in the training's source language and localized into every available language automatically; do NOT call add-language afterwards.
+- Combine with theme updates in one call if the user asked for both.
+
+**Version History (List, Compare, Roll Back):**
+When user asks about earlier versions of a training (e.g., "What changed?", "Show the history", "Undo the last change", "Go back to version 2"), use microlearningVersions tool:
+- existingMicrolearningId → microlearningId: [from recent conversation context - if unclear, ask user]
+- action 'list': version history (version, action, timestamp, restorable). Call immediately.
+- action 'diff': fromVersion (+ optional toVersion; omit to compare with the current content). Call immediately. Summarize the changes in plain language (theme, scene texts, added/removed languages, inbox emails) - do NOT dump raw paths.
+- action 'rollback': targetVersion. **CRITICAL:** NEVER call rollback in the same turn the user first mentions it. First state which version will be restored (list/diff if needed), then ask for explicit confirmation. Call only after the user confirms that exact version.
+- Rollback creates a NEW version (current + 1) with the old content; nothing is deleted. Only versions marked restorable can be rolled back to.
+
 **Platform Integration (Upload & Assign):**
 When user requests to **Upload** or **Assign** training:
 1. Look for the most recent 'microlearningId' in conversation history (or in the [ARTIFACT_IDS] block if present).
@@ -309,6 +327,7 @@ export const microlearningAgent = new Agent({
     workflowExecutor: workflowExecutorTool,
     uploadTraining: uploadTrainingTool,
     assignTraining: assignTrainingTool,
+    microlearningVersions: microlearningVersionTool,
   },
   scorers: {
     completeness: {
@@ -22,6 +22,7 @@ import {
   expandReportSectionsTool,
   validateAndStoreReportTool,
   editReportSectionTool,
+  fetchReportDataTool,
 } from '../tools/reporting';
 import { webResearchTool } from '../tools/research';
 import { createCompletenessScorer, createToneScorer } from '@mastra/evals/scorers/prebuilt';
@@ -56,6 +57,13 @@ If unclear, default to GENERATE.
 4. **Call expandReportSections tool** with the outline AND **researchContext** (same string from step 3). This ensures each section expansion LLM has access to real facts.
 5. **Call validateAndStoreReport tool** with **expandRef** from the expand result. The expand tool stores the full report in temporary storage and returns a reference key. Just pass expandRef as a string parameter: validateAndStoreReport({ expandRef: "..." }). Do NOT pass the full report JSON — only the expandRef key.
 
+## Company Data (real platform results)
+When the report is about the user's OWN organization's phishing, smishing or training results (e.g. "Q3 phishing report for our company", "training completion report for last 6 months"):
+1. Resolve the period to exact dates (from/to, YYYY-MM-DD). If the user gives no period, use the last 90 days.
+2. Call **fetchReportData** with from, to and the relevant sources BEFORE the outline.
+3. Pass the returned **dataRef** to BOTH generateReportOutline and expandReportSections. KPI, chart and table sections are then built from those datasets and their numbers are verified against the platform data.
+4. If some sources appear in failedSources, continue with the rest and mention it in your final message. If fetchReportData fails entirely, tell the user the data could not be loaded instead of inventing numbers.
+
 NOTE: webResearch is OPTIONAL and may fail (API limits, network issues). If it fails or returns empty results, CONTINUE generating the report using your own knowledge. NEVER stop or error out because research failed.
 
 ## CRITICAL: Data Accuracy (Anti-Hallucination)
@@ -144,6 +152,7 @@ export const reportAgent = new Agent({
     expandReportSections: expandReportSectionsTool,
     validateAndStoreReport: validateAndStoreReportTool,
     editReportSection: editReportSectionTool,
+    fetchReportData: fetchReportDataTool,
     webResearch: webResearchTool,
   },
   scorers: {
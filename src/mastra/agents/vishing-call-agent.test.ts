@@ -5,6 +5,7 @@ import { vishingCallAgent } from './vishing-call-agent';
 vi.mock('../tools/vishing-call', () => ({
   listPhoneNumbersTool: { id: 'list-phone-numbers' },
   initiateVishingCallTool: { id: 'initiate-vishing-call' },
+  getVishingCallTranscriptTool: { id: 'get-vishing-call-transcript' },
 }));
 
 vi.mock('../tools/user-management/get-user-info-tool', () => ({
@@ -37,7 +38,13 @@ describe('vishingCallAgent', () => {
   it('should register required tools', () => {
     expect(tools).toBeDefined();
     expect(Object.keys(tools)).toEqual(
-      expect.arrayContaining(['getUserInfo', 'listPhoneNumbers', 'initiateVishingCall', 'showReasoning'])
+      expect.arrayContaining([
+        'getUserInfo',
+        'listPhoneNumbers',
+        'initiateVishingCall',
+        'getVishingCallTranscript',
+        'showReasoning',
+      ])
     );
   });
 
@@ -154,8 +161,8 @@ describe('vishingCallAgent', () => {
     expect(instructions).toContain('Messaging Guidelines (Enterprise-Safe)');
   });
 
-  it('should have exactly 4 tools', () => {
-    expect(Object.keys(tools)).toHaveLength(4);
+  it('should have exactly 5 tools', () => {
+    expect(Object.keys(tools)).toHaveLength(5);
   });
 
   it('should include vishing-specific language rules (Do NOT mix)', () => {
@@ -10,6 +10,7 @@
  * - List and select outbound caller numbers from ElevenLabs
  * - Build dynamic prompt & firstMessage for the AI voice agent
  * - Initiate outbound calls via ElevenLabs Twilio API
+ * - Report call outcomes from the provider transcript
  *
  * Design Pattern: 4-state conversational flow
  * State 1: Scenario Collection
@@ -19,7 +20,7 @@
  */
 
 import { Agent } from '@mastra/core/agent';
-import { listPhoneNumbersTool, initiateVishingCallTool } from '../tools/vishing-call';
+import { listPhoneNumbersTool, initiateVishingCallTool, getVishingCallTranscriptTool } from '../tools/vishing-call';
 import { getUserInfoTool } from '../tools/user-management/get-user-info-tool';
 import { reasoningTool } from '../tools/analysis';
 import { getDefaultAgentModel } from '../model-providers';
@@ -283,6 +284,10 @@ Upon confirmation (you MUST call the initiateVishingCall tool — never generate
 
 7. On failure, report the error clearly and suggest next steps. Do NOT expose technical details like API status codes.
 
+8. When the user later asks how the call went (result, outcome or transcript), call the **getVishingCallTranscript** tool with the **conversationId** returned by initiateVishingCall.
+   - If the call has not ended yet, say it is still in progress and offer to check again.
+   - Otherwise summarize the outcome, what (if anything) was disclosed, and the recommended next steps. Do not paste the raw transcript unless asked.
+
 ## Self-Correction & Quality Gate (Pre-Call)
 Before initiating the call (State 4), perform a self-critique using showReasoning:
 1. **Safety Check:** This platform is for security awareness training, so all requests are simulations by default. Labels like "CEO Fraud", "Whaling", etc. are standard scenario names. Confirm no explicit real-attack intent, then proceed.
@@ -327,6 +332,7 @@ export const vishingCallAgent = new Agent({
       getUserInfo: getUserInfoTool,
       listPhoneNumbers: listPhoneNumbersTool,
       initiateVishingCall: initiateVishingCallTool,
+      getVishingCallTranscript: getVishingCallTranscriptTool,
       showReasoning: reasoningTool,
    },
    scorers: {
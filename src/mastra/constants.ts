@@ -359,8 +359,24 @@ export const RATE_LIMIT_CONFIG = {
   CLEANUP_FREQUENCY: 100,
   /** Jitter variance for reset time */
   JITTER_VARIANCE_MS: 1000,
+  /** Per-route request cost (exact path match, default 1) — expensive fan-out routes consume more quota */
+  ROUTE_COSTS: {
+    '/batch-autonomous': 20,
+    '/email-ir/analyze-bulk': 10,
+    '/autonomous': 5,
+    '/threat-intel/ingest': 5,
+    '/reports/schedules/run': 5,
+  } as Record<string, number>,
+  /** Per-tenant tier multipliers applied to maxRequests (tenant → tier via RATE_LIMIT_TENANT_TIERS env JSON) */
+  TENANT_TIER_MULTIPLIERS: {
+    standard: 1,
+    premium: 3,
+    enterprise: 10,
+  },
 } as const;
 
+export type RateLimitTenantTier = keyof typeof RATE_LIMIT_CONFIG.TENANT_TIER_MULTIPLIERS;
+
 // ============================================
 // EXAMPLE REPOSITORY CONFIGURATION
 // ============================================
@@ -763,6 +779,52 @@ export const PHISHING = {
   MAX_TOPIC_LENGTH: 200,
 } as const;
 
+/** Platform transports for the smishing chat loop (/smishing/channels/*) */
+export const SMISHING_CHANNELS = {
+  /** SmishingChannel values with a webhook adapter */
+  TRANSPORTS: ['slack', 'teams', 'whatsapp', 'telegram'] as const,
+
+  /** D1 table holding one conversation per (channel, sender) */
+  TABLE: 'smishing_channel_sessions',
+
+  /** Same cap as smishingChatRequestSchema.messages — oldest turns are dropped */
+  MAX_HISTORY_MESSAGES: 30,
+
+  /** Max inbound message length passed to the chat loop (smishingChatMessageSchema limit) */
+  MAX_MESSAGE_CHARS: 2000,
+
+  /** Slack request timestamp tolerance (replay protection) */
+  SIGNATURE_TOLERANCE_SECS: 300,
+
+  /** Outbound platform API timeout */
+  TIMEOUT_MS: 10000,
+
+  API: {
+    SLACK_POST_MESSAGE: 'https://slack.com/api/chat.postMessage',
+    WHATSAPP_GRAPH_BASE: 'https://graph.facebook.com/v21.0',
+    TELEGRAM_BOT_BASE: 'https://api.telegram.org',
+    BOT_FRAMEWORK_OPENID: 'https://login.botframework.com/v1/.well-known/openidconfiguration',
+    BOT_FRAMEWORK_ISSUER: 'https://api.botframework.com',
+    BOT_FRAMEWORK_TOKEN: 'https://login.microsoftonline.com/botframework.com/oauth2/v2.0/token',
+    BOT_FRAMEWORK_SCOPE: 'https://api.botframework.com/.default',
+  },
+} as const;
+
+/** Per-learner smishing conversation outcomes (/smishing/chat and channel sessions) */
+export const SMISHING_OUTCOMES = {
+  /** D1 table holding one scored conversation per session */
+  TABLE: 'smishing_chat_outcomes',
+
+  /** Timeline snippet length (disclosing turns are redacted entirely) */
+  SNIPPET_MAX_CHARS: 120,
+
+  /** Max sessions returned by GET /smishing/outcomes */
+  LIST_LIMIT: 50,
+
+  /** Lifetime of the session tokens minted by POST /smishing/chat/sessions (24 hours) */
+  SESSION_TOKEN_TTL_SECS: 24 * 60 * 60,
+} as const;
+
 // ============================================
 // PHISHING TEMPLATE FIXER CONFIGURATION
 // ============================================
@@ -1059,6 +1121,60 @@ export const HEYGEN = {
   DEFAULT_BACKGROUND_COLOR: '#1a1a2e',
 } as const;
 
+// ============================================
+// SYNTHETIC VIDEO (DEEPFAKE) PROVIDERS
+// ============================================
+
+export const SYNTHETIC_VIDEO = {
+  /** Supported values for VIDEO_PROVIDER */
+  PROVIDERS: ['heygen', 'mock'] as const,
+
+  /** Provider used when VIDEO_PROVIDER is not set */
+  DEFAULT_PROVIDER: 'heygen' as const,
+
+  /** Mock renderer: job stays "pending" this long, then "processing" until MOCK_RENDER_MS */
+  MOCK_PENDING_MS: 2000,
+  MOCK_RENDER_MS: 10000,
+} as const;
+
+/** Security-awareness platform the user/group/simulation/training tools talk to */
+export const SECURITY_PLATFORM = {
+  /** Supported values for SECURITY_PLATFORM and SECURITY_PLATFORM_BY_COMPANY */
+  PROVIDERS: ['keepnet', 'memory'] as const,
+
+  /** Platform used when neither the company map nor SECURITY_PLATFORM names one */
+  DEFAULT_PROVIDER: 'keepnet' as const,
+} as const;
+
+/** Likeness registry, consent enforcement and disclosure overlay for generated videos (EU AI Act Art. 50) */
+export const DEEPFAKE_LIKENESS = {
+  /** D1 table of real-person avatars and their consent records */
+  TABLE: 'deepfake_likeness_registry',
+
+  CONSENT_STATUSES: ['granted', 'pending', 'revoked'] as const,
+
+  /** What a consenting person allowed their likeness to be used for */
+  USE_CASES: [
+    'awareness_training',
+    'executive_impersonation',
+    'it_support_impersonation',
+    'vendor_impersonation',
+    'financial_fraud',
+  ] as const,
+
+  /** Use case assumed when the tool call does not name one */
+  DEFAULT_USE_CASE: 'awareness_training' as const,
+
+  /** Overlay burned into every generated video; callers may reword it but not remove it */
+  DEFAULT_DISCLOSURE_TEXT: 'AI-generated simulation for security awareness training',
+  DISCLOSURE_MAX_CHARS: 120,
+
+  LIST_LIMIT: 200,
+} as const;
+
+export type DeepfakeConsentStatus = (typeof DEEPFAKE_LIKENESS.CONSENT_STATUSES)[number];
+export type DeepfakeUseCase = (typeof DEEPFAKE_LIKENESS.USE_CASES)[number];
+
 // ============================================
 // ELEVENLABS CONFIGURATION
 // ============================================
@@ -1067,19 +1183,93 @@ export const ELEVENLABS = {
   /** Base URL for all ElevenLabs Conversational AI API calls */
   API_BASE_URL: 'https://api.elevenlabs.io/v1/convai',
 
-  /** Default ElevenLabs agent ID (from environment or fallback) */
-  DEFAULT_AGENT_ID: process.env.ELEVENLABS_AGENT_ID || 'agent_0901kfr9djtqfg988bypdyah40mm',
+  /** WebSocket URL for browser sessions (agent_id appended as query param) */
+  WS_URL: 'wss://api.elevenlabs.io/v1/convai/conversation',
+
+  /** Agent ID used when ELEVENLABS_AGENT_ID is not set (read per provider instance) */
+  FALLBACK_AGENT_ID: 'agent_0901kfr9djtqfg988bypdyah40mm',
 
   /** Endpoint paths (appended to API_BASE_URL) */
   ENDPOINTS: {
     LIST_PHONE_NUMBERS: '/phone-numbers',
     OUTBOUND_CALL: '/twilio/outbound-call',
+    SIGNED_URL: '/conversation/get-signed-url',
+    CONVERSATIONS: '/conversations',
   },
 
   /** Timeout for ElevenLabs API calls (ms) */
   API_TIMEOUT_MS: 15000,
 } as const;
 
+export const VAPI = {
+  /** Base URL for all Vapi API calls */
+  API_BASE_URL: 'https://api.vapi.ai',
+
+  /** Endpoint paths (appended to API_BASE_URL) */
+  ENDPOINTS: {
+    CALL: '/call',
+    PHONE_NUMBERS: '/phone-number',
+  },
+
+  /**
+   * Assistant variable carrying the scenario prompt. The Vapi assistant (VAPI_ASSISTANT_ID)
+   * uses `{{scenarioPrompt}}` as its system prompt; the first message is overridden directly.
+   */
+  PROMPT_VARIABLE: 'scenarioPrompt',
+
+  /** Timeout for Vapi API calls (ms) */
+  API_TIMEOUT_MS: 15000,
+} as const;
+
+// ============================================
+// VOICE SIMULATION (VISHING) PROVIDERS
+// ============================================
+
+export const VOICE_SIMULATION = {
+  /** Supported values for VOICE_PROVIDER */
+  PROVIDERS: ['elevenlabs', 'vapi', 'mock'] as const,
+
+  /** Provider used when VOICE_PROVIDER is not set */
+  DEFAULT_PROVIDER: 'elevenlabs' as const,
+} as const;
+
+/** Live transcript webhook (POST /vishing/conversations/live) */
+export const VISHING_LIVE = {
+  /** D1 table holding per-call phase/disclosure state (no transcript text, no secret values) */
+  TABLE: 'vishing_live_sessions',
+
+  /** Max clock skew / replay window for signed webhook requests (seconds) */
+  SIGNATURE_TOLERANCE_SECS: 300,
+
+  /** Turns longer than this are rejected (a single spoken turn is far shorter) */
+  MAX_TURN_CHARS: 4000,
+
+  /** Returned to the voice agent as soon as a real secret is spoken */
+  REVEAL_INSTRUCTION:
+    'The person just said a real credential. Do not ask for anything else and do not repeat it. ' +
+    'Immediately say this call was a security awareness simulation, tell them never to share this over the phone, ' +
+    'advise them to change or invalidate what they shared, then say goodbye and end the call.',
+
+  /**
+   * Tool registered on each outbound call (when VISHING_LIVE_WEBHOOK_URL and VISHING_WEBHOOK_SECRET
+   * are set) that sends the learner's reply to POST /vishing/conversations/live
+   */
+  AGENT_TOOL_NAME: 'report_learner_turn',
+
+  /**
+   * Voice platforms send tool calls with static headers only, so instead of a per-request signature
+   * they carry this header: hex HMAC-SHA256(VISHING_WEBHOOK_SECRET, TOOL_TOKEN_CONTEXT)
+   */
+  TOOL_TOKEN_HEADER: 'X-VISHING-TOOL-TOKEN',
+  TOOL_TOKEN_CONTEXT: 'vishing-live-tool',
+
+  /** Appended to the scenario prompt whenever the tool is registered */
+  AGENT_TOOL_INSTRUCTION:
+    'LIVE MONITOR: After every reply from the person, call the report_learner_turn tool with their reply word for word ' +
+    'before you answer. If it returns action "reveal", stop the scenario and follow its instruction immediately. ' +
+    'Never mention the tool to the person.',
+} as const;
+
 // ============================================
 // TOKEN CACHE
 // ============================================
@@ -1208,6 +1398,293 @@ export const MESSAGING_GUIDELINES = SAFE_COMMUNICATION.MESSAGING;
 /** Prompt fragment for agent instructions - avoids repeating in 6 agents */
 export const MESSAGING_GUIDELINES_PROMPT_FRAGMENT = `- NEVER use: ${MESSAGING_GUIDELINES.BLACKLIST_WORDS.join(', ')}`;
 
+// ============================================
+// EMAIL IR
+// ============================================
+
+export const EMAIL_IR = {
+  /**
+   * Brands commonly impersonated in credential phishing.
+   * Checked for lookalikes alongside the recipient company's own domains
+   * and any per-request `protectedDomains`.
+   */
+  PROTECTED_BRAND_DOMAINS: [
+    'microsoft.com',
+    'office.com',
+    'outlook.com',
+    'live.com',
+    'google.com',
+    'gmail.com',
+    'apple.com',
+    'icloud.com',
+    'amazon.com',
+    'paypal.com',
+    'docusign.com',
+    'dropbox.com',
+    'linkedin.com',
+    'facebook.com',
+    'instagram.com',
+    'netflix.com',
+    'adobe.com',
+    'dhl.com',
+    'fedex.com',
+    'ups.com',
+    'wetransfer.com',
+    'zoom.us',
+    'salesforce.com',
+    'keepnetlabs.com',
+  ] as const,
+
+  LOOKALIKE: {
+    MAX_PROTECTED_DOMAINS: 100, // Cap on merged company + brand + request domains
+    MAX_HITS: 20, // Hits returned per email (highest score first)
+    MIN_LABEL_LENGTH: 4, // Shorter brand labels produce too many edit-distance/combo false positives
+    LONG_LABEL_LENGTH: 10, // Labels this long tolerate edit distance 2
+  },
+
+  BULK: {
+    MAX_IDS: 50, // Email IDs accepted per /email-ir/analyze-bulk request
+    FETCH_CONCURRENCY: 10, // Parallel Keepnet API fetches
+    ANALYSIS_CONCURRENCY: 3, // Parallel workflow runs (each makes ~6 LLM calls)
+  },
+
+  CLUSTERING: {
+    SIMILARITY_THRESHOLD: 0.7, // Weighted fingerprint similarity to join a campaign
+    NEAR_DUPLICATE_BODY_DISTANCE: 3, // SimHash bit distance treated as identical body
+    SIMILAR_BODY_DISTANCE: 10, // SimHash bit distance treated as lightly edited body
+    WEIGHTS: {
+      SUBJECT: 0.2,
+      SENDER: 0.2,
+      URLS: 0.25,
+      BODY: 0.35,
+    },
+  },
+} as const;
+
+// ============================================
+// THREAT INTELLIGENCE INGESTION
+// ============================================
+
+/**
+ * Live threat-intel ingestion (feeds → LLM summary → KV).
+ * Feeds are configured via the THREAT_INTEL_FEEDS env var (JSON array).
+ */
+export const THREAT_INTEL = {
+  KV_PREFIX: 'threat-intel:',
+  MAX_AGE_DAYS: 30, // KV entries older than this fall back to the static JSON
+  HISTORY_TTL_SECONDS: 90 * 24 * 60 * 60, // Previous versions kept for 90 days
+  FETCH_TIMEOUT_MS: 15_000,
+  MAX_ITEMS_PER_FEED: 50,
+  MAX_ITEMS_PER_KEY: 20, // Items sent to the summarizer per intel key
+  MIN_ITEMS_PER_KEY: 2, // Fewer items → keep the existing entry
+  MAX_TECHNIQUES: 8,
+  MAX_SCENARIOS: 6,
+} as const;
+
+// ============================================
+// LLM COST LEDGER & BUDGETS
+// ============================================
+
+/**
+ * Per-company LLM spend ledger (D1) and monthly budget enforcement.
+ * Budgets live in the llm_budgets table (migration 0007); companies without a row are unlimited.
+ */
+export const LLM_COST = {
+  UNATTRIBUTED: 'none', // agent/workflow value when the call has no attribution
+  DEFAULT_SOFT_LIMIT_PCT: 80,
+  DEFAULT_HARD_LIMIT_PCT: 100,
+  BUDGET_CACHE_TTL_MS: 60_000, // Month-to-date spend is re-read from D1 at most once a minute per company
+  MAX_QUERY_DAYS: 366,
+  GROUP_BY: ['operation', 'agent', 'workflow', 'model', 'day'] as const,
+} as const;
+
+export type LlmCostGroupBy = (typeof LLM_COST.GROUP_BY)[number];
+
+// ============================================
+// REPORT EXPORT (PDF / DOCX / PPTX)
+// ============================================
+
+/**
+ * Server-side rendering of stored Report Agent output (services/report-export).
+ * Reports are read from KV (report:{reportId}:v{n}) — the same slots validate-and-store-report writes.
+ */
+export const REPORT_EXPORT = {
+  FORMATS: ['pdf', 'docx', 'pptx'] as const,
+  CONTENT_TYPES: {
+    pdf: 'application/pdf',
+    docx: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    pptx: 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  },
+  MAX_VERSION: 20, // Version slots scanned by loadLatestReport
+  /** Chart.js default palette — used when a dataset has no backgroundColor */
+  CHART_PALETTE: ['#36A2EB', '#FF6384', '#FF9F40', '#FFCD56', '#4BC0C0', '#9966FF', '#C9CBCF'],
+  DEFAULT_PRIMARY_COLOR: '#0B326F',
+  FILENAME_MAX_CHARS: 80,
+} as const;
+
+export type ReportExportFormat = (typeof REPORT_EXPORT.FORMATS)[number];
+
+// ============================================
+// REPORT DATA CONNECTORS (platform campaign results)
+// ============================================
+
+/**
+ * Real company results the Report Agent grounds kpi_dashboard / chart / table sections in
+ * (services/report-data-service → fetch-report-data-tool). Datasets live in temp KV between
+ * the fetch, outline and expand steps, the same way expandRef hands data to validate-and-store.
+ */
+export const REPORT_DATA = {
+  SOURCES: ['phishing', 'smishing', 'training'] as const,
+  /** Campaign result search endpoints (POST, appended to baseApiUrl) */
+  ENDPOINTS: {
+    phishing: '/api/phishing-simulator/campaign-reports/search',
+    smishing: '/api/smishing-simulator/campaign-reports/search',
+    training: '/api/awareness-educator/enrollment-reports/search',
+  },
+  PAGE_SIZE: 100,
+  MAX_PAGES: 10, // 1000 campaigns per source is far beyond a single report
+  MAX_RANGE_DAYS: 366,
+  MAX_CAMPAIGN_ROWS: 12, // by-campaign datasets keep the most recent campaigns (matches the table row limit)
+  TEMP_KV_PREFIX: 'temp:report-data:',
+  TEMP_KV_TTL_SECONDS: 1800, // Outline + expand + edits of one conversation turn
+} as const;
+
+export type ReportDataSource = (typeof REPORT_DATA.SOURCES)[number];
+
+// ============================================
+// REPORT SCHEDULES (recurring reports + delivery)
+// ============================================
+
+/**
+ * Per-company recurring reports (services/report-schedule). A cron call to
+ * POST /reports/schedules/run regenerates each due report for the last full period
+ * and delivers it by webhook or email. Env (read at use time, optional):
+ * REPORT_SCHEDULE_CREDENTIALS_BY_COMPANY, REPORT_DELIVERY_SENDER (http | mock),
+ * REPORT_WEBHOOK_SECRET, REPORT_EMAIL_RELAY_URL, REPORT_EMAIL_RELAY_TOKEN, REPORT_EMAIL_FROM.
+ */
+export const REPORT_SCHEDULES = {
+  TABLE: 'report_schedules',
+  RUNS_TABLE: 'report_schedule_runs',
+  CADENCES: ['weekly', 'monthly', 'quarterly'] as const,
+  CHANNELS: ['webhook', 'email'] as const,
+  SENDERS: ['http', 'mock'] as const,
+  DEFAULT_SENDER: 'http',
+  /** Scheduled reports outlive chat reports (7 days) — kept as long as other generated KV content */
+  HISTORY_TTL_SECONDS: 365 * 24 * 60 * 60, // GDPR.RETENTION_DAYS.KV_CONTENT
+  RUN_BATCH_SIZE: 5, // Due schedules per cron call — each run is a full outline + expand pipeline
+  LIST_LIMIT: 100,
+  RUNS_LIST_LIMIT: 50,
+  MAX_PER_COMPANY: 20,
+  MAX_EMAIL_RECIPIENTS: 10,
+  DELIVERY_TIMEOUT_MS: 30_000,
+  WEBHOOK_SIGNATURE_HEADER: 'X-Report-Signature',
+} as const;
+
+export type ReportScheduleCadence = (typeof REPORT_SCHEDULES.CADENCES)[number];
+export type ReportDeliveryChannel = (typeof REPORT_SCHEDULES.CHANNELS)[number];
+
+// ============================================
+// POLICY RAG (chunked company policy retrieval)
+// ============================================
+
+/**
+ * Company policies chunked, embedded and stored per company in D1 (services/policy-rag,
+ * migrations/0013_policy_index.sql). summarize-policy answers from the top-k retrieved
+ * chunks with citations; the index is re-synced from the policy files at most every
+ * REFRESH_INTERVAL_MS, or at once via POST /policies/index/refresh.
+ */
+export const POLICY_RAG = {
+  DOCUMENTS_TABLE: 'policy_documents',
+  CHUNKS_TABLE: 'policy_chunks',
+  EMBEDDING_MODEL: 'text-embedding-3-small',
+  EMBED_BATCH_SIZE: 50,
+  CHUNK_TARGET_CHARS: 1200,
+  CHUNK_OVERLAP_CHARS: 150, // Tail of the previous chunk in the same section, cut at a word boundary
+  SECTION_MAX_CHARS: 120,
+  MAX_CHUNKS_PER_POLICY: 200,
+  MAX_CHUNKS_PER_COMPANY: 2000, // Scored in memory per question — same in-process cosine as ExampleRepo
+  TOP_K: 6,
+  MIN_SCORE: 0.15,
+  CITATION_EXCERPT_CHARS: 300,
+  SEMANTIC_WEIGHT: 0.7, // Hybrid score: semantic × 0.7 + keyword × 0.3 (EXAMPLE_REPO.SEMANTIC_SEARCH.CONTEXT_WEIGHT)
+  REFRESH_INTERVAL_MS: 10 * 60_000,
+} as const;
+
+// ============================================
+// CODE REVIEW (scene 4 fix validation)
+// ============================================
+
+/**
+ * codeReviewCheckTool scoring. The rule-based pre-check (tools/analysis/utils/static-code-precheck)
+ * runs before the LLM: its findings are given to the model as evidence and cap the verdict
+ * when the vulnerable pattern is still present in the learner's fix.
+ */
+export const CODE_REVIEW = {
+  POINTS: { correct: 25, partial: 10, incorrect: 0 },
+  PRECHECK_LANGUAGES: ['javascript', 'typescript', 'python', 'java', 'php', 'csharp', 'go', 'sql'] as const,
+  PRECHECK_CATEGORIES: [
+    'sql_injection',
+    'xss',
+    'command_injection',
+    'path_traversal',
+    'hardcoded_secret',
+    'missing_validation',
+  ] as const,
+  MAX_FINDINGS: 10, // Per code sample — evidence for the prompt and the response, not a full report
+  EVIDENCE_MAX_CHARS: 160,
+} as const;
+
+export type CodeReviewLanguage = (typeof CODE_REVIEW.PRECHECK_LANGUAGES)[number];
+export type CodeReviewIssueCategory = (typeof CODE_REVIEW.PRECHECK_CATEGORIES)[number];
+
+// ============================================
+// MICROLEARNING VERSIONS (snapshots, diff, rollback)
+// ============================================
+
+/**
+ * Full per-version snapshots of a microlearning (base + every language + every inbox) in KV
+ * under ml:{id}:snapshot:{version}, next to the ml:{id}:history:{version} entries.
+ * See services/microlearning-version-service.ts and /microlearning/:microlearningId/versions.
+ */
+export const MICROLEARNING_VERSIONS = {
+  SNAPSHOT_RETENTION: 20, // Snapshots older than the last 20 versions are deleted; history entries are kept
+  KEY_LIST_LIMIT: 1000, // KV list page size for lang / inbox / history keys
+  DIFF_MAX_CHANGES: 200,
+  DIFF_VALUE_MAX_CHARS: 200,
+  IGNORED_DIFF_PATHS: ['version', 'updated_at', 'restored_from'] as const, // Bookkeeping fields on every version
+} as const;
+
+/**
+ * Targeted scene edits in the update-microlearning workflow (updates.sceneEdits): the scene
+ * is edited in the source language, then localized into every other available language.
+ */
+export const MICROLEARNING_SCENE_EDITS = {
+  MAX_EDITS_PER_UPDATE: 5,
+  MAX_INSTRUCTION_CHARS: 1000,
+  // Kept from the original scene so base scene metadata (points, durations) stays consistent
+  PROTECTED_FIELDS: ['scene_type', 'points', 'duration_seconds', 'hasAchievementNotification', 'icon'] as const,
+} as const;
+
+// ============================================
+// MICROLEARNING LMS EXPORT (SCORM 1.2 / SCORM 2004 / xAPI cmi5)
+// ============================================
+
+/**
+ * Downloadable LMS packages of a stored microlearning (services/microlearning-export →
+ * GET /microlearning/:microlearningId/export). One language per package, with a
+ * self-contained HTML player: quiz score → cmi score / xAPI result, completion on scene 8.
+ */
+export const MICROLEARNING_EXPORT = {
+  FORMATS: ['scorm12', 'scorm2004', 'xapi'] as const,
+  CONTENT_TYPE: 'application/zip',
+  MASTERY_SCORE: 0.7, // Scaled quiz score (0..1) reported as passed
+  /** cmi5 course / AU ids must be IRIs; {id} is the microlearning id */
+  ACTIVITY_IRI_TEMPLATE: `${API_ENDPOINTS.FRONTEND_MICROLEARNING_URL}/microlearning/{id}`,
+  FILENAME_MAX_CHARS: 80,
+} as const;
+
+export type MicrolearningExportFormat = (typeof MICROLEARNING_EXPORT.FORMATS)[number];
+
 // ============================================
 // GDPR DATA GOVERNANCE
 // ============================================
@@ -1250,6 +1727,30 @@ export const GDPR = {
     '/api/assign',
     '/api/upload',
   ] as const,
+
+  /**
+   * Art. 15 export limits. Each KV record is one subrequest (list + get per key),
+   * so the per-prefix cap keeps a single export within Worker subrequest limits.
+   */
+  EXPORT_MAX_KEYS_PER_PREFIX: 200,
+  EXPORT_MAX_AUDIT_ROWS: 1000,
+  EXPORT_KV_FETCH_CONCURRENCY: 10,
+
+  /** Art. 17 erasure: keys deleted per KV list() page, and max pages per prefix in one run */
+  ERASURE_KV_PAGE_SIZE: 50,
+  ERASURE_MAX_PAGES_PER_PREFIX: 5,
+
+  /** Retention sweeper: expired campaign resources whose KV content is purged per run */
+  RETENTION_SWEEP_BATCH_SIZE: 25,
+
+  /** Mastra memory tables (D1Store tablePrefix 'dev_') swept under SESSION_DATA */
+  SESSION_TABLES: {
+    THREADS: 'dev_mastra_threads',
+    MESSAGES: 'dev_mastra_messages',
+  },
+
+  /** Audit-chain owner for purges not tied to a single company (retention sweeper) */
+  SYSTEM_COMPANY_ID: 'system',
 } as const;
 
 export type GdprAuditAction = (typeof GDPR.AUDIT_ACTIONS)[number];
@@ -1304,6 +1805,7 @@ export const ERROR_CODES = {
 
   // Rate limiting (RL)
   RATE_LIMITED: 'ERR_RL_001',
+  LLM_BUDGET_EXCEEDED: 'ERR_RL_002',
 
   // Timeout errors (TO)
   TIMEOUT_GENERAL: 'ERR_TO_001',
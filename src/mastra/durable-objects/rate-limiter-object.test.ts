@@ -0,0 +1,51 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RateLimiterObject } from './rate-limiter-object';
+
+function createState() {
+  const data = new Map<string, unknown>();
+  const storage = {
+    get: vi.fn(async (key: string) => data.get(key)),
+    put: vi.fn(async (key: string, value: unknown) => {
+      data.set(key, value);
+    }),
+    deleteAll: vi.fn(async () => data.clear()),
+    setAlarm: vi.fn(async () => {}),
+  };
+  return { state: { storage: storage as never }, storage, data };
+}
+
+const hit = (object: RateLimiterObject, cost: number, windowMs = 60000) =>
+  object
+    .fetch(new Request('https://rate-limiter/hit', { method: 'POST', body: JSON.stringify({ cost, windowMs }) }))
+    .then(res => res.json());
+
+describe('RateLimiterObject', () => {
+  it('accumulates cost in a shared window and schedules cleanup', async () => {
+    const { state, storage } = createState();
+    const object = new RateLimiterObject(state);
+
+    const first = await hit(object, 1);
+    const second = await hit(object, 20);
+
+    expect(first.count).toBe(1);
+    expect(second).toEqual({ count: 21, resetTime: first.resetTime });
+    expect(storage.setAlarm).toHaveBeenCalledTimes(1);
+    expect(storage.setAlarm).toHaveBeenCalledWith(first.resetTime);
+  });
+
+  it('restores the window from storage after eviction and resets once expired', async () => {
+    vi.useFakeTimers();
+    const { state, data } = createState();
+    await hit(new RateLimiterObject(state), 5, 1000);
+
+    const revived = new RateLimiterObject(state);
+    expect((await hit(revived, 1, 1000)).count).toBe(6);
+
+    vi.advanceTimersByTime(1500);
+    expect((await hit(revived, 1, 1000)).count).toBe(1);
+
+    await revived.alarm();
+    expect(data.size).toBe(0);
+    vi.useRealTimers();
+  });
+});
@@ -0,0 +1,55 @@
+// NOTE: This class is injected into the compiled worker by the post-build script
+// (fix-cloudflare-shims.js), which strips the type annotations below.
+// Keep it self-contained: no imports, no references to module-level code.
+
+interface RateLimiterStorage {
+  get<T>(key: string): Promise<T | undefined>;
+  put(key: string, value: unknown): Promise<void>;
+  deleteAll(): Promise<void>;
+  setAlarm(scheduledTime: number): Promise<void>;
+}
+
+interface RateLimiterWindow {
+  count: number;
+  resetTime: number;
+}
+
+/**
+ * Durable Object holding a single fixed-window rate-limit counter.
+ * The middleware addresses one instance per limiter key (idFromName), so every
+ * worker isolate increments the same counter — spreading requests across isolates
+ * no longer multiplies the limit.
+ *
+ * POST { cost, windowMs } → { count, resetTime }
+ * An alarm at resetTime clears storage so idle keys don't accumulate.
+ */
+export class RateLimiterObject {
+  storage: RateLimiterStorage;
+  window: RateLimiterWindow | undefined;
+
+  constructor(state: { storage: RateLimiterStorage }) {
+    this.storage = state.storage;
+  }
+
+  async fetch(request: Request) {
+    const { cost, windowMs } = await request.json();
+    const now = Date.now();
+
+    let current = this.window || (await this.storage.get('window'));
+    if (!current || current.resetTime <= now) {
+      current = { count: 0, resetTime: now + windowMs };
+      await this.storage.setAlarm(current.resetTime);
+    }
+
+    current.count += cost;
+    this.window = current;
+    await this.storage.put('window', current);
+
+    return new Response(JSON.stringify(current), { headers: { 'Content-Type': 'application/json' } });
+  }
+
+  async alarm() {
+    this.window = undefined;
+    await this.storage.deleteAll();
+  }
+}
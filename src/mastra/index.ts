@@ -53,10 +53,44 @@ import { phishingEditorSaveHandler } from './routes/phishing-editor-save-route';
 import { smishingEditorSaveHandler } from './routes/smishing-editor-save-route';
 import { vishingPromptHandler } from './routes/vishing-prompt-route';
 import { vishingConversationsSummaryHandler } from './routes/vishing-conversations-summary-route';
-import { smishingChatHandler } from './routes/smishing-chat-route';
+import { vishingLiveTranscriptHandler } from './routes/vishing-live-transcript-route';
+import { smishingChatHandler, smishingChatSessionHandler } from './routes/smishing-chat-route';
+import {
+  smishingChannelSessionHandler,
+  smishingChannelVerifyHandler,
+  smishingChannelWebhookHandler,
+} from './routes/smishing-channel-route';
+import { smishingOutcomesHandler } from './routes/smishing-outcomes-route';
 import { emailIRAnalyzeHandler } from './routes/email-ir-route';
+import { emailIRBulkAnalyzeHandler } from './routes/email-ir-bulk-route';
+import { threatIntelIngestHandler } from './routes/threat-intel-ingest-route';
 import { deepfakeStatusHandler } from './routes/deepfake-status-route';
+import {
+  deepfakeLikenessListHandler,
+  deepfakeLikenessRevokeHandler,
+  deepfakeLikenessUpsertHandler,
+} from './routes/deepfake-likeness-route';
 import { auditVerifyHandler } from './routes/audit-verify-route';
+import { gdprExportHandler } from './routes/gdpr-export-route';
+import { gdprErasureHandler } from './routes/gdpr-erasure-route';
+import { gdprRetentionSweepHandler } from './routes/gdpr-retention-route';
+import { llmCostHandler } from './routes/llm-cost-route';
+import { reportExportHandler } from './routes/report-export-route';
+import {
+  reportScheduleDeleteHandler,
+  reportScheduleListHandler,
+  reportScheduleRunNowHandler,
+  reportScheduleRunsHandler,
+  reportScheduleSweepHandler,
+  reportScheduleUpsertHandler,
+} from './routes/report-schedule-route';
+import { policyIndexRefreshHandler } from './routes/policy-index-route';
+import {
+  microlearningVersionDiffHandler,
+  microlearningVersionListHandler,
+  microlearningVersionRollbackHandler,
+} from './routes/microlearning-version-route';
+import { microlearningExportHandler } from './routes/microlearning-export-route';
 import { phishingTemplateFixerHandler } from './routes/phishing-template-fixer-route';
 import { batchAutonomousHandler, batchAutonomousStatusHandler } from './routes/batch-autonomous-route';
 import { autonomousHandler } from './routes/autonomous-route';
@@ -291,16 +325,51 @@ export const mastra = new Mastra({
         handler: vishingConversationsSummaryHandler,
       }),
 
+      registerApiRoute('/vishing/conversations/live', {
+        method: 'POST',
+        handler: vishingLiveTranscriptHandler,
+      }),
+
       registerApiRoute('/smishing/chat', {
         method: 'POST',
         handler: smishingChatHandler,
       }),
 
+      registerApiRoute('/smishing/chat/sessions', {
+        method: 'POST',
+        handler: smishingChatSessionHandler,
+      }),
+
+      registerApiRoute('/smishing/channels/:channel/sessions', {
+        method: 'POST',
+        handler: smishingChannelSessionHandler,
+      }),
+
+      registerApiRoute('/smishing/channels/:channel/webhook', {
+        method: 'POST',
+        handler: smishingChannelWebhookHandler,
+      }),
+
+      registerApiRoute('/smishing/channels/:channel/webhook', {
+        method: 'GET',
+        handler: smishingChannelVerifyHandler,
+      }),
+
+      registerApiRoute('/smishing/outcomes', {
+        method: 'GET',
+        handler: smishingOutcomesHandler,
+      }),
+
       registerApiRoute('/email-ir/analyze', {
         method: 'POST',
         handler: emailIRAnalyzeHandler,
       }),
 
+      registerApiRoute('/email-ir/analyze-bulk', {
+        method: 'POST',
+        handler: emailIRBulkAnalyzeHandler,
+      }),
+
       registerApiRoute('/phishing/template-fixer', {
         method: 'POST',
         handler: phishingTemplateFixerHandler,
@@ -311,6 +380,21 @@ export const mastra = new Mastra({
         handler: deepfakeStatusHandler,
       }),
 
+      registerApiRoute('/deepfake/likeness', {
+        method: 'GET',
+        handler: deepfakeLikenessListHandler,
+      }),
+
+      registerApiRoute('/deepfake/likeness', {
+        method: 'POST',
+        handler: deepfakeLikenessUpsertHandler,
+      }),
+
+      registerApiRoute('/deepfake/likeness/:avatarId', {
+        method: 'DELETE',
+        handler: deepfakeLikenessRevokeHandler,
+      }),
+
       registerApiRoute('/autonomous', {
         method: 'POST',
         handler: autonomousHandler,
@@ -340,6 +424,94 @@ export const mastra = new Mastra({
         handler: auditVerifyHandler,
       }),
 
+      // ─── GDPR Art. 15 Subject Access Export (KV + audit + campaign metadata) ───
+      registerApiRoute('/gdpr/export', {
+        method: 'POST',
+        handler: gdprExportHandler,
+      }),
+
+      // ─── GDPR Art. 17 Erasure (cascade delete, resumable) ───
+      registerApiRoute('/gdpr/erasure', {
+        method: 'POST',
+        handler: gdprErasureHandler,
+      }),
+
+      // ─── GDPR Retention Sweep (cron-triggered purge per RETENTION_DAYS, X-INTERNAL-SECRET) ───
+      registerApiRoute('/gdpr/retention/sweep', {
+        method: 'POST',
+        handler: gdprRetentionSweepHandler,
+      }),
+
+      // ─── LLM Cost Ledger (spend by period/feature + budget state) ───
+      registerApiRoute('/llm-costs', {
+        method: 'GET',
+        handler: llmCostHandler,
+      }),
+
+      // ─── Report Export (stored report → PDF / DOCX / PPTX download) ───
+      registerApiRoute('/reports/:reportId/export', {
+        method: 'GET',
+        handler: reportExportHandler,
+      }),
+
+      // ─── Report Schedules (recurring reports; /run is the cron sweep, X-INTERNAL-SECRET) ───
+      registerApiRoute('/reports/schedules', {
+        method: 'GET',
+        handler: reportScheduleListHandler,
+      }),
+      registerApiRoute('/reports/schedules', {
+        method: 'POST',
+        handler: reportScheduleUpsertHandler,
+      }),
+      registerApiRoute('/reports/schedules/run', {
+        method: 'POST',
+        handler: reportScheduleSweepHandler,
+      }),
+      registerApiRoute('/reports/schedules/:scheduleId', {
+        method: 'DELETE',
+        handler: reportScheduleDeleteHandler,
+      }),
+      registerApiRoute('/reports/schedules/:scheduleId/runs', {
+        method: 'GET',
+        handler: reportScheduleRunsHandler,
+      }),
+      registerApiRoute('/reports/schedules/:scheduleId/run', {
+        method: 'POST',
+        handler: reportScheduleRunNowHandler,
+      }),
+
+      // ─── Policy Index (re-sync chunked policy RAG after policy changes) ───
+      registerApiRoute('/policies/index/refresh', {
+        method: 'POST',
+        handler: policyIndexRefreshHandler,
+      }),
+
+      // ─── Microlearning Versions (snapshot history, diff, rollback) ───
+      registerApiRoute('/microlearning/:microlearningId/versions', {
+        method: 'GET',
+        handler: microlearningVersionListHandler,
+      }),
+      registerApiRoute('/microlearning/:microlearningId/versions/diff', {
+        method: 'GET',
+        handler: microlearningVersionDiffHandler,
+      }),
+      registerApiRoute('/microlearning/:microlearningId/versions/:version/rollback', {
+        method: 'POST',
+        handler: microlearningVersionRollbackHandler,
+      }),
+
+      // ─── Microlearning Export (SCORM 1.2 / SCORM 2004 / xAPI cmi5 zip download) ───
+      registerApiRoute('/microlearning/:microlearningId/export', {
+        method: 'GET',
+        handler: microlearningExportHandler,
+      }),
+
+      // ─── Threat Intel Ingestion (cron-triggered feed pull → KV, X-INTERNAL-SECRET) ───
+      registerApiRoute('/threat-intel/ingest', {
+        method: 'POST',
+        handler: threatIntelIngestHandler,
+      }),
+
       // ─── Customer Service Chat (Separate Agent Swarm) ───
       registerApiRoute('/customer-service/chat', {
         method: 'POST',
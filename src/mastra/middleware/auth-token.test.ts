@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { authTokenMiddleware } from './auth-token';
+import { authTokenMiddleware, AUTH_TOKEN_VALIDATED } from './auth-token';
 
 const { mockTokenCache } = vi.hoisted(() => ({
   mockTokenCache: {
@@ -56,6 +56,7 @@ function createMockContext(path: string, headers: Record<string, string> = {}) {
       header: (name: string) => headers[name],
     },
     json: jsonFn,
+    set: vi.fn(),
     env: {},
   } as any;
 }
@@ -96,6 +97,7 @@ describe('authTokenMiddleware', () => {
       await authTokenMiddleware(c, next);
       expect(next).toHaveBeenCalled();
       expect(c.json).not.toHaveBeenCalled();
+      expect(c.set).not.toHaveBeenCalledWith(AUTH_TOKEN_VALIDATED, true);
     });
 
     it('should log when public unauthenticated endpoint is accessed', async () => {
@@ -198,6 +200,7 @@ describe('authTokenMiddleware', () => {
       expect(next).toHaveBeenCalled();
       expect(c.json).not.toHaveBeenCalled();
       expect(global.fetch).not.toHaveBeenCalled();
+      expect(c.set).toHaveBeenCalledWith(AUTH_TOKEN_VALIDATED, true);
     });
 
     it('should return 401 when token is cached as invalid', async () => {
@@ -231,6 +234,7 @@ describe('authTokenMiddleware', () => {
       expect(next).toHaveBeenCalled();
       expect(mockTokenCache.set).toHaveBeenCalledWith('a'.repeat(32), true);
       expect(c.json).not.toHaveBeenCalled();
+      expect(c.set).toHaveBeenCalledWith(AUTH_TOKEN_VALIDATED, true);
     });
 
     it('should return 401 when backend returns 401', async () => {
@@ -250,6 +254,7 @@ describe('authTokenMiddleware', () => {
         401
       );
       expect(next).not.toHaveBeenCalled();
+      expect(c.set).not.toHaveBeenCalled();
     });
 
     it('should return 401 when fetch throws', async () => {
@@ -38,6 +38,12 @@ const isValidJwtToken = (token: string): boolean => {
   return segments.every(segment => JWT_SEGMENT_PATTERN.test(segment));
 };
 
+/**
+ * Context flag set once the token passed backend (or cached) validation for this request.
+ * Later middleware (rate limiting) trusts token claims only when it is set.
+ */
+export const AUTH_TOKEN_VALIDATED = 'authTokenValidated';
+
 /**
  * Token Authentication Middleware
  *
@@ -124,6 +130,7 @@ export const authTokenMiddleware = async (c: Context, next: Next): Promise<Respo
         path: c.req.path,
         ip: clientIp,
       });
+      c.set(AUTH_TOKEN_VALIDATED, true);
       await next();
       return;
     } else {
@@ -204,5 +211,6 @@ export const authTokenMiddleware = async (c: Context, next: Next): Promise<Respo
     );
   }
 
+  c.set(AUTH_TOKEN_VALIDATED, true);
   await next();
 };
@@ -3,6 +3,16 @@ import { requestStorage } from '../utils/core/request-storage';
 import { validateBaseApiUrl, resolveBaseApiUrl } from '../utils/core/url-validator';
 import { randomUUID } from 'crypto';
 
+/** ExecutionContext.waitUntil when running in Workers (Hono throws on access elsewhere) */
+function resolveWaitUntil(c: Context): ((promise: Promise<unknown>) => void) | undefined {
+  try {
+    const executionCtx = c.executionCtx;
+    return typeof executionCtx?.waitUntil === 'function' ? executionCtx.waitUntil.bind(executionCtx) : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 /**
  * Middleware to initialize AsyncLocalStorage for request-scoped data.
  * Captures custom auth token, Cloudflare env bindings, and wraps the request execution in the storage context.
@@ -28,8 +38,9 @@ export const contextStorage = async (c: Context, next: Next) => {
   // URL is provided via X-BASE-API-URL header by client
   // Validates against allowed list and falls back to default if invalid
   const baseApiUrl = resolveBaseApiUrl(validateBaseApiUrl(c.req.header('X-BASE-API-URL')));
+  const waitUntil = resolveWaitUntil(c);
   // Wrap the next handlers in the AsyncLocalStorage run context
-  return requestStorage.run({ correlationId, token, env, companyId, baseApiUrl }, async () => {
+  return requestStorage.run({ correlationId, token, env, companyId, baseApiUrl, waitUntil }, async () => {
     try {
       await next();
     } finally {
@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 import {
   INTERNAL_AUTH_SKIP_ENDPOINTS,
+  INTERNAL_SECRET_ENDPOINTS,
   PUBLIC_UNAUTHENTICATED_ENDPOINTS,
   SKIP_AUTH_PATHS,
   isPublicUnauthenticatedPath,
@@ -12,7 +13,9 @@ describe('public-endpoint-policy', () => {
     expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/code-review-validate');
     expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/vishing/prompt');
     expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/vishing/conversations/summary');
+    expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/vishing/conversations/live');
     expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/smishing/chat');
+    expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/smishing/channels/slack/webhook');
     expect(PUBLIC_UNAUTHENTICATED_ENDPOINTS).toContain('/email-ir/analyze');
   });
 
@@ -30,6 +33,18 @@ describe('public-endpoint-policy', () => {
     for (const path of INTERNAL_AUTH_SKIP_ENDPOINTS) {
       expect(SKIP_AUTH_PATHS).toContain(path);
     }
+    for (const path of INTERNAL_SECRET_ENDPOINTS) {
+      expect(SKIP_AUTH_PATHS).toContain(path);
+    }
+  });
+
+  it('keeps internal-secret endpoints out of the public tier', () => {
+    expect(INTERNAL_SECRET_ENDPOINTS).toEqual(
+      expect.arrayContaining(['/threat-intel/ingest', '/gdpr/retention/sweep', '/reports/schedules/run'])
+    );
+    for (const path of INTERNAL_SECRET_ENDPOINTS) {
+      expect(isPublicUnauthenticatedPath(path)).toBe(false);
+    }
   });
 
   it('has no duplicate entries in SKIP_AUTH_PATHS', () => {
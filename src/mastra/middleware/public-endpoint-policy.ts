@@ -8,7 +8,12 @@ export const PUBLIC_UNAUTHENTICATED_ENDPOINTS = [
   '/code-review-validate',
   '/vishing/prompt',
   '/vishing/conversations/summary',
+  '/vishing/conversations/live',
   '/smishing/chat',
+  '/smishing/channels/slack/webhook',
+  '/smishing/channels/teams/webhook',
+  '/smishing/channels/whatsapp/webhook',
+  '/smishing/channels/telegram/webhook',
   '/email-ir/analyze',
   '/phishing/template-fixer',
 ] as const;
@@ -23,7 +28,22 @@ export const INTERNAL_AUTH_SKIP_ENDPOINTS = [
   '/api/telemetry',
 ] as const;
 
-export const SKIP_AUTH_PATHS = [...INTERNAL_AUTH_SKIP_ENDPOINTS, ...PUBLIC_UNAUTHENTICATED_ENDPOINTS] as const;
+/**
+ * Cron/system endpoints that act across all companies. A tenant token must not be
+ * enough to call them: the handler requires X-INTERNAL-SECRET (INTERNAL_CRON_SECRET)
+ * instead — see routes/internal-route-guard.ts.
+ */
+export const INTERNAL_SECRET_ENDPOINTS = [
+  '/threat-intel/ingest',
+  '/gdpr/retention/sweep',
+  '/reports/schedules/run',
+] as const;
+
+export const SKIP_AUTH_PATHS = [
+  ...INTERNAL_AUTH_SKIP_ENDPOINTS,
+  ...INTERNAL_SECRET_ENDPOINTS,
+  ...PUBLIC_UNAUTHENTICATED_ENDPOINTS,
+] as const;
 
 export function isPublicUnauthenticatedPath(path: string): boolean {
   return PUBLIC_UNAUTHENTICATED_ENDPOINTS.includes(path as (typeof PUBLIC_UNAUTHENTICATED_ENDPOINTS)[number]);
@@ -0,0 +1,87 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  DurableObjectRateLimitStore,
+  InMemoryRateLimitStore,
+  resolveRateLimitStore,
+  defaultInMemoryStore,
+  type RateLimiterNamespace,
+} from './rate-limit-store';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createNamespace(fetchImpl: (body: { cost: number; windowMs: number }) => Response) {
+  const fetch = vi.fn(async (_input: string, init?: RequestInit) => fetchImpl(JSON.parse(String(init?.body))));
+  const namespace = {
+    idFromName: vi.fn((name: string) => `id:${name}`),
+    get: vi.fn(() => ({ fetch })),
+  } satisfies RateLimiterNamespace;
+  return { namespace, fetch };
+}
+
+describe('InMemoryRateLimitStore', () => {
+  it('accumulates cost within a window and resets after it', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryRateLimitStore();
+
+    expect((await store.hit('k', 1, 1000)).count).toBe(1);
+    expect((await store.hit('k', 5, 1000)).count).toBe(6);
+
+    vi.advanceTimersByTime(2500);
+    expect((await store.hit('k', 1, 1000)).count).toBe(1);
+    vi.useRealTimers();
+  });
+
+  it('cleanup removes expired windows', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryRateLimitStore();
+    await store.hit('a', 1, 1000);
+    vi.advanceTimersByTime(2500);
+    store.cleanup();
+    expect(store.size).toBe(0);
+    vi.useRealTimers();
+  });
+});
+
+describe('DurableObjectRateLimitStore', () => {
+  it('addresses one object per key and returns its window', async () => {
+    const { namespace, fetch } = createNamespace(
+      ({ cost }) => new Response(JSON.stringify({ count: cost, resetTime: 123 }))
+    );
+    const store = new DurableObjectRateLimitStore(namespace);
+
+    const window = await store.hit('ratelimit:company:acme', 20, 60000);
+
+    expect(namespace.idFromName).toHaveBeenCalledWith('ratelimit:company:acme');
+    expect(fetch).toHaveBeenCalledWith('https://rate-limiter/hit', expect.objectContaining({ method: 'POST' }));
+    expect(window).toEqual({ count: 20, resetTime: 123 });
+  });
+
+  it('falls back to the in-memory store when the object fails', async () => {
+    const { namespace } = createNamespace(() => new Response('boom', { status: 500 }));
+    const fallback = new InMemoryRateLimitStore();
+    const store = new DurableObjectRateLimitStore(namespace, fallback);
+
+    expect((await store.hit('k', 3, 60000)).count).toBe(3);
+    expect(fallback.size).toBe(1);
+  });
+});
+
+describe('resolveRateLimitStore', () => {
+  it('uses the RATE_LIMITER binding when present, memory otherwise', () => {
+    const { namespace } = createNamespace(() => new Response('{}'));
+
+    expect(resolveRateLimitStore(undefined)).toBe(defaultInMemoryStore);
+    expect(resolveRateLimitStore({})).toBe(defaultInMemoryStore);
+
+    const store = resolveRateLimitStore({ RATE_LIMITER: namespace });
+    expect(store).toBeInstanceOf(DurableObjectRateLimitStore);
+    expect(resolveRateLimitStore({ RATE_LIMITER: namespace })).toBe(store);
+  });
+});
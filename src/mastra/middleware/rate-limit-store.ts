@@ -0,0 +1,137 @@
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { RATE_LIMIT_CONFIG } from '../constants';
+
+const logger = getLogger('RateLimitStore');
+
+/**
+ * Rate Limit Stores
+ *
+ * The middleware only needs "add cost to this key's window and tell me the total".
+ * - InMemoryRateLimitStore: per-isolate Map (tests, local dev, fallback)
+ * - DurableObjectRateLimitStore: one RateLimiterObject per key → shared across isolates
+ */
+
+export interface RateLimitWindow {
+  /** Total cost consumed in the current window (including this hit) */
+  count: number;
+  /** Epoch ms when the window resets */
+  resetTime: number;
+}
+
+export interface RateLimitStore {
+  /** Add `cost` to the counter for `key`, opening a new window of `windowMs` if expired */
+  hit(key: string, cost: number, windowMs: number): Promise<RateLimitWindow>;
+}
+
+// ============================================
+// IN-MEMORY STORE
+// ============================================
+
+/**
+ * Per-isolate counter store.
+ * Note: Each Cloudflare Worker instance has its own memory — limits are not shared.
+ */
+export class InMemoryRateLimitStore implements RateLimitStore {
+  private readonly entries = new Map<string, RateLimitWindow>();
+
+  async hit(key: string, cost: number, windowMs: number): Promise<RateLimitWindow> {
+    // Periodic cleanup (Cloudflare Workers can't use setInterval in global scope)
+    if (this.entries.size > 0 && this.entries.size % RATE_LIMIT_CONFIG.CLEANUP_FREQUENCY === 0) {
+      this.cleanup();
+    }
+
+    const now = Date.now();
+    let entry = this.entries.get(key);
+
+    // If entry doesn't exist or window expired, create new
+    if (!entry || entry.resetTime < now) {
+      const jitter = Math.random() * RATE_LIMIT_CONFIG.JITTER_VARIANCE_MS;
+      entry = { count: 0, resetTime: now + windowMs + jitter };
+      this.entries.set(key, entry);
+    }
+
+    entry.count += cost;
+    return { ...entry };
+  }
+
+  /** Delete expired windows */
+  cleanup(): void {
+    const now = Date.now();
+    for (const [key, entry] of this.entries.entries()) {
+      if (entry.resetTime < now) {
+        this.entries.delete(key);
+      }
+    }
+  }
+
+  get size(): number {
+    return this.entries.size;
+  }
+}
+
+// ============================================
+// DURABLE OBJECT STORE
+// ============================================
+
+/** Minimal Durable Object namespace binding surface (RATE_LIMITER) */
+export interface RateLimiterNamespace {
+  idFromName(name: string): unknown;
+  get(id: unknown): { fetch(input: string, init?: RequestInit): Promise<Response> };
+}
+
+/**
+ * Distributed store backed by the RateLimiterObject Durable Object.
+ * Falls back to a local in-memory store if the DO call fails, so a DO outage
+ * degrades to per-isolate limits instead of blocking or un-limiting traffic.
+ */
+export class DurableObjectRateLimitStore implements RateLimitStore {
+  constructor(
+    private readonly namespace: RateLimiterNamespace,
+    private readonly fallback: RateLimitStore = defaultInMemoryStore
+  ) {}
+
+  async hit(key: string, cost: number, windowMs: number): Promise<RateLimitWindow> {
+    try {
+      const stub = this.namespace.get(this.namespace.idFromName(key));
+      const response = await stub.fetch('https://rate-limiter/hit', {
+        method: 'POST',
+        body: JSON.stringify({ cost, windowMs }),
+      });
+      if (!response.ok) {
+        throw new Error(`Rate limiter object responded with status ${response.status}`);
+      }
+      return (await response.json()) as RateLimitWindow;
+    } catch (error) {
+      logger.warn('rate_limiter_object_unavailable_using_memory', { key, error: normalizeError(error).message });
+      return this.fallback.hit(key, cost, windowMs);
+    }
+  }
+}
+
+// ============================================
+// RESOLUTION
+// ============================================
+
+/** Shared per-isolate store (default when no RATE_LIMITER binding is configured) */
+export const defaultInMemoryStore = new InMemoryRateLimitStore();
+
+const durableStores = new WeakMap<object, DurableObjectRateLimitStore>();
+
+/**
+ * Pick the store for this request: the RATE_LIMITER Durable Object binding when
+ * present in the worker env, otherwise the shared in-memory store.
+ */
+export function resolveRateLimitStore(env: Record<string, unknown> | undefined): RateLimitStore {
+  const namespace = env?.RATE_LIMITER as RateLimiterNamespace | undefined;
+  if (!namespace || typeof namespace.idFromName !== 'function') {
+    return defaultInMemoryStore;
+  }
+
+  let store = durableStores.get(namespace);
+  if (!store) {
+    store = new DurableObjectRateLimitStore(namespace);
+    durableStores.set(namespace, store);
+  }
+  return store;
+}
@@ -4,9 +4,14 @@ import {
   createEndpointRateLimiter,
   RATE_LIMIT_TIERS,
   getClientIdentifier,
+  getTenantIdentifier,
+  getRouteCost,
+  resolveTenantTier,
   cleanupExpiredEntries,
   skipHealthCheck,
 } from './rate-limit';
+import { InMemoryRateLimitStore } from './rate-limit-store';
+import { AUTH_TOKEN_VALIDATED } from './auth-token';
 
 vi.mock('../utils/core/logger', () => ({
   getLogger: () => ({
@@ -17,9 +22,10 @@ vi.mock('../utils/core/logger', () => ({
   }),
 }));
 
-function createMockContext(path: string, headers: Record<string, string> = {}) {
+function createMockContext(path: string, headers: Record<string, string> = {}, vars: Record<string, unknown> = {}) {
   const resHeaders = new Headers();
   return {
+    get: (key: string) => vars[key],
     req: {
       path,
       method: 'GET',
@@ -179,6 +185,85 @@ describe('rateLimitMiddleware', () => {
   });
 });
 
+/** Build a minimal JWT carrying the company claim */
+function fakeJwt(companyId: string): string {
+  const payload = Buffer.from(JSON.stringify({ user_company_resourceid: companyId })).toString('base64url');
+  return `header.${payload}.signature`;
+}
+
+describe('tenant-based limiting', () => {
+  const validated = { [AUTH_TOKEN_VALIDATED]: true };
+
+  it('keys authenticated requests by companyId from the token, others by IP', () => {
+    const authed = createMockContext('/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('acme'), 'cf-connecting-ip': '1.1.1.1' }, validated);
+    const anonymous = createMockContext('/chat', { 'cf-connecting-ip': '1.1.1.1' });
+
+    expect(getTenantIdentifier(authed)).toEqual({ identifier: 'company:acme', companyId: 'acme' });
+    expect(getTenantIdentifier(anonymous)).toEqual({ identifier: 'ip:1.1.1.1' });
+  });
+
+  it('keys by IP when the token was not validated by authTokenMiddleware', async () => {
+    // Public endpoints skip auth, so the unverified company claim must not pick the bucket
+    const forged = createMockContext('/smishing/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('acme'), 'cf-connecting-ip': '1.1.1.1' });
+    expect(getTenantIdentifier(forged)).toEqual({ identifier: 'ip:1.1.1.1' });
+
+    const middleware = rateLimitMiddleware({ maxRequests: 1, windowMs: 60000, store: new InMemoryRateLimitStore() });
+    const next = vi.fn(async () => {});
+    const first = createMockContext('/smishing/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('a'), 'cf-connecting-ip': '1.1.1.1' });
+    const second = createMockContext('/smishing/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('b'), 'cf-connecting-ip': '1.1.1.1' });
+
+    await middleware(first, next);
+    await middleware(second, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(second.json).toHaveBeenCalledWith(expect.anything(), 429);
+  });
+
+  it('shares one quota across IPs of the same tenant', async () => {
+    const middleware = rateLimitMiddleware({ maxRequests: 1, windowMs: 60000, store: new InMemoryRateLimitStore() });
+    const next = vi.fn(async () => {});
+    const c1 = createMockContext('/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('acme'), 'cf-connecting-ip': '1.1.1.1' }, validated);
+    const c2 = createMockContext('/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('acme'), 'cf-connecting-ip': '2.2.2.2' }, validated);
+
+    await middleware(c1, next);
+    await middleware(c2, next);
+
+    expect(next).toHaveBeenCalledTimes(1);
+    expect(c2.json).toHaveBeenCalledWith(expect.anything(), 429);
+  });
+
+  it('applies tier multipliers from RATE_LIMIT_TENANT_TIERS', async () => {
+    const env = { RATE_LIMIT_TENANT_TIERS: JSON.stringify({ bigco: 'enterprise', odd: 'platinum' }) };
+    expect(resolveTenantTier('bigco', env)).toBe('enterprise');
+    expect(resolveTenantTier('odd', env)).toBe('standard');
+    expect(resolveTenantTier('other', env)).toBe('standard');
+    expect(resolveTenantTier('bigco', { RATE_LIMIT_TENANT_TIERS: '{not json' })).toBe('standard');
+
+    const middleware = rateLimitMiddleware({ maxRequests: 2, windowMs: 60000, store: new InMemoryRateLimitStore() });
+    const c = createMockContext('/chat', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('bigco') }, validated);
+    c.env = env;
+    await middleware(c, vi.fn(async () => {}));
+
+    expect(c.res.headers.get('X-RateLimit-Limit')).toBe('20');
+  });
+
+  it('charges expensive routes more than cheap ones', async () => {
+    expect(getRouteCost('/batch-autonomous')).toBeGreaterThan(getRouteCost('/health'));
+    expect(getRouteCost('/batch-autonomous/abc/status')).toBe(1);
+
+    const middleware = rateLimitMiddleware({ maxRequests: 20, windowMs: 60000, store: new InMemoryRateLimitStore() });
+    const next = vi.fn(async () => {});
+    const batch = createMockContext('/batch-autonomous', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('acme') }, validated);
+    const health = createMockContext('/health', { 'X-AGENTIC-ALLY-TOKEN': fakeJwt('acme') }, validated);
+
+    await middleware(batch, next);
+    await middleware(health, next);
+
+    expect(batch.res.headers.get('X-RateLimit-Remaining')).toBe('0');
+    expect(health.json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Rate limit exceeded' }), 429);
+  });
+});
+
 describe('createEndpointRateLimiter', () => {
   it('should return middleware for CHAT tier', () => {
     const limiter = createEndpointRateLimiter('CHAT');
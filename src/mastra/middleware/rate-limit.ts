@@ -1,11 +1,9 @@
 import { Context } from 'hono';
 import { getLogger } from '../utils/core/logger';
-import { TIME_UNITS, RATE_LIMIT_CONFIG } from '../constants';
-
-interface RateLimitEntry {
-  count: number;
-  resetTime: number;
-}
+import { extractCompanyIdFromTokenExport } from '../utils/core/policy-fetcher';
+import { TIME_UNITS, RATE_LIMIT_CONFIG, type RateLimitTenantTier } from '../constants';
+import { AUTH_TOKEN_VALIDATED } from './auth-token';
+import { defaultInMemoryStore, resolveRateLimitStore, type RateLimitStore } from './rate-limit-store';
 
 const logger = getLogger('RateLimit');
 
@@ -13,8 +11,9 @@ const logger = getLogger('RateLimit');
  * Rate Limiting Middleware for Cloudflare Workers
  *
  * Features:
- * - Sliding window counter algorithm
- * - IP-based identification
+ * - Fixed window counter in a pluggable store (Durable Object when RATE_LIMITER is bound, in-memory otherwise)
+ * - Tenant-based identification (companyId from a validated token), IP fallback otherwise
+ * - Per-tenant tier overrides (RATE_LIMIT_TENANT_TIERS) and per-route costs
  * - Configurable limits per endpoint
  * - Standard rate limit headers (X-RateLimit-*)
  * - Production-ready error handling
@@ -31,8 +30,12 @@ export interface RateLimitConfig {
   windowMs: number;
   /** Key prefix for storage */
   keyPrefix?: string;
-  /** Custom identifier function (default: IP address) */
+  /** Custom identifier function (default: companyId from a validated token, else IP address) */
   identifier?: (c: Context) => string;
+  /** Request cost function (default: RATE_LIMIT_CONFIG.ROUTE_COSTS, else 1) */
+  cost?: (c: Context) => number;
+  /** Counter store (default: resolved from worker env per request) */
+  store?: RateLimitStore;
   /** Skip rate limiting for certain conditions */
   skip?: (c: Context) => boolean;
   /** Custom error message */
@@ -89,101 +92,55 @@ function getClientIdentifier(c: Context): string {
 }
 
 /**
- * Sliding window counter using in-memory cache
- * (Workers have no persistent state, so we use context storage)
- *
- * For production: Should use KV or Durable Objects for distributed rate limiting
+ * Get tenant identifier: companyId from the token once authTokenMiddleware validated it,
+ * IP address otherwise. The company claim is decoded without signature verification and
+ * public endpoints never validate the token, so an unvalidated token must not pick the bucket.
  */
-// In-memory store (per-worker instance)
-// Note: Each Cloudflare Worker instance has its own memory
-const rateLimitStore = new Map<string, RateLimitEntry>();
+function getTenantIdentifier(c: Context): { identifier: string; companyId?: string } {
+  const token = c.get(AUTH_TOKEN_VALIDATED) === true ? c.req.header('X-AGENTIC-ALLY-TOKEN') : undefined;
+  const companyId = token ? extractCompanyIdFromTokenExport(token) : undefined;
+  return companyId ? { identifier: `company:${companyId}`, companyId } : { identifier: `ip:${getClientIdentifier(c)}` };
+}
 
 /**
- * Clean up expired entries periodically
- * Note: In Cloudflare Workers, we can't use setInterval in global scope
- * Cleanup happens on-demand during rate limit checks
+ * Request cost for a path (exact match in RATE_LIMIT_CONFIG.ROUTE_COSTS, default 1)
  */
-function cleanupExpiredEntries() {
-  const now = Date.now();
-  for (const [key, entry] of rateLimitStore.entries()) {
-    if (entry.resetTime < now) {
-      rateLimitStore.delete(key);
-    }
-  }
+function getRouteCost(path: string): number {
+  return RATE_LIMIT_CONFIG.ROUTE_COSTS[path] ?? 1;
 }
 
-// Don't use setInterval in global scope (Cloudflare Workers restriction)
-// Cleanup will happen on-demand during rate limit checks
+let cachedTenantTiers: { raw: string; tiers: Record<string, RateLimitTenantTier> } | null = null;
 
 /**
- * Check rate limit and increment counter
+ * Resolve a tenant's tier from RATE_LIMIT_TENANT_TIERS (JSON: { "<companyId>": "premium" }).
+ * Unknown companies, unknown tiers and invalid JSON resolve to "standard".
  */
-function checkRateLimit(
-  identifier: string,
-  config: RateLimitConfig
-): {
-  allowed: boolean;
-  current: number;
-  limit: number;
-  remaining: number;
-  resetTime: number;
-  retryAfter?: number;
-} {
-  // Periodic cleanup to avoid performance impact
-  // Cloudflare Workers can't use setInterval in global scope
-  if (rateLimitStore.size > 0 && rateLimitStore.size % RATE_LIMIT_CONFIG.CLEANUP_FREQUENCY === 0) {
-    cleanupExpiredEntries();
-  }
-
-  const key = `${config.keyPrefix}${identifier}`;
-  const now = Date.now();
-  const jitter = Math.random() * RATE_LIMIT_CONFIG.JITTER_VARIANCE_MS;
-  const resetTime = now + config.windowMs + jitter;
-
-  // Get or create entry
-  let entry = rateLimitStore.get(key);
-
-  // If entry doesn't exist or window expired, create new
-  if (!entry || entry.resetTime < now) {
-    entry = {
-      count: 1,
-      resetTime,
-    };
-    rateLimitStore.set(key, entry);
-
-    return {
-      allowed: true,
-      current: 1,
-      limit: config.maxRequests,
-      remaining: config.maxRequests - 1,
-      resetTime,
-    };
+function resolveTenantTier(companyId: string, env?: Record<string, unknown>): RateLimitTenantTier {
+  const raw = (env?.RATE_LIMIT_TENANT_TIERS as string | undefined) ?? process.env.RATE_LIMIT_TENANT_TIERS;
+  if (!raw) return 'standard';
+
+  if (cachedTenantTiers?.raw !== raw) {
+    let tiers: Record<string, RateLimitTenantTier> = {};
+    try {
+      const parsed = JSON.parse(raw);
+      if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) tiers = parsed;
+    } catch {
+      logger.warn('Invalid RATE_LIMIT_TENANT_TIERS JSON, using standard tier for all tenants');
+    }
+    cachedTenantTiers = { raw, tiers };
   }
 
-  // Increment counter
-  entry.count++;
-
-  // Check if limit exceeded
-  if (entry.count > config.maxRequests) {
-    const retryAfter = Math.ceil((entry.resetTime - now) / 1000); // seconds
-
-    return {
-      allowed: false,
-      current: entry.count,
-      limit: config.maxRequests,
-      remaining: 0,
-      resetTime: entry.resetTime,
-      retryAfter,
-    };
-  }
+  const tier = cachedTenantTiers.tiers[companyId];
+  return tier && tier in RATE_LIMIT_CONFIG.TENANT_TIER_MULTIPLIERS ? tier : 'standard';
+}
 
-  return {
-    allowed: true,
-    current: entry.count,
-    limit: config.maxRequests,
-    remaining: config.maxRequests - entry.count,
-    resetTime: entry.resetTime,
-  };
+/**
+ * Delete expired entries from the shared in-memory store
+ * Note: In Cloudflare Workers, we can't use setInterval in global scope
+ * Cleanup happens on-demand during rate limit checks
+ */
+function cleanupExpiredEntries() {
+  defaultInMemoryStore.cleanup();
 }
 
 // ============================================
@@ -215,11 +172,25 @@ export function rateLimitMiddleware(customConfig?: Partial<RateLimitConfig>) {
       return next();
     }
 
-    // Get identifier
-    const identifier = config.identifier?.(c) ?? getClientIdentifier(c);
+    // Get identifier (custom identifiers opt out of tenant tiers)
+    const tenant = config.identifier ? { identifier: config.identifier(c) } : getTenantIdentifier(c);
+    const identifier = tenant.identifier;
+    const env = c.env as Record<string, unknown> | undefined;
+    const tier = tenant.companyId ? resolveTenantTier(tenant.companyId, env) : 'standard';
+    const limit = Math.round(config.maxRequests * RATE_LIMIT_CONFIG.TENANT_TIER_MULTIPLIERS[tier]);
+    const cost = config.cost?.(c) ?? getRouteCost(c.req.path);
 
     // Check rate limit
-    const result = checkRateLimit(identifier, config);
+    const store = config.store ?? resolveRateLimitStore(env);
+    const window = await store.hit(`${config.keyPrefix}${identifier}`, cost, config.windowMs);
+    const result = {
+      allowed: window.count <= limit,
+      current: window.count,
+      limit,
+      remaining: Math.max(0, limit - window.count),
+      resetTime: window.resetTime,
+      retryAfter: Math.max(1, Math.ceil((window.resetTime - Date.now()) / 1000)), // seconds
+    };
 
     // Add rate limit headers (standard headers used by GitHub, Stripe, etc.)
     c.res.headers.set('X-RateLimit-Limit', result.limit.toString());
@@ -228,11 +199,13 @@ export function rateLimitMiddleware(customConfig?: Partial<RateLimitConfig>) {
 
     // If rate limit exceeded
     if (!result.allowed) {
-      c.res.headers.set('Retry-After', (result.retryAfter as number).toString());
+      c.res.headers.set('Retry-After', result.retryAfter.toString());
 
       // Log rate limit violation
       logger.warn('Rate limit exceeded', {
         identifier,
+        tier,
+        cost,
         current: result.current,
         limit: result.limit,
         path: c.req.path,
@@ -283,4 +256,4 @@ export const skipHealthCheck = (c: Context) => {
 // EXPORTS
 // ============================================
 
-export { getClientIdentifier, cleanupExpiredEntries };
+export { getClientIdentifier, getTenantIdentifier, getRouteCost, resolveTenantTier, cleanupExpiredEntries };
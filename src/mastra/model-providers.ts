@@ -1,7 +1,7 @@
-import { createOpenAI } from '@ai-sdk/openai';
+import { createOpenAI, type OpenAIProvider } from '@ai-sdk/openai';
 import { createGoogleGenerativeAI } from '@ai-sdk/google';
 import { createAnthropic } from '@ai-sdk/anthropic';
-import type { LanguageModel } from 'ai';
+import type { EmbeddingModel, LanguageModel } from 'ai';
 import { getLogger } from './utils/core/logger';
 import { normalizeError, logErrorInfo } from './utils/core/error-utils';
 import { errorService } from './services/error-service';
@@ -198,6 +198,14 @@ export function getRefinementModel() {
   return getModel(ModelProvider.OPENAI, Model.OPENAI_GPT_5_4_MINI);
 }
 
+// Text embeddings for retrieval (policy RAG) — OpenAI provider, through AI Gateway when configured
+export function getEmbeddingModel(modelId: string): EmbeddingModel<string> {
+  if (!modelProviderCache.has(ModelProvider.OPENAI)) {
+    modelProviderCache.set(ModelProvider.OPENAI, getModelProvider(ModelProvider.OPENAI));
+  }
+  return (modelProviderCache.get(ModelProvider.OPENAI) as OpenAIProvider).textEmbeddingModel(modelId);
+}
+
 export function getDefaultGenerationModel() {
   logger.info('Using default generation model', { model: Model.WORKERS_AI_GPT_OSS_120B });
   return getModel(ModelProvider.WORKERS_AI, Model.WORKERS_AI_GPT_OSS_120B);
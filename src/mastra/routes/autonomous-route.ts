@@ -12,6 +12,7 @@ import { Context } from 'hono';
 import { getLogger } from '../utils/core/logger';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
+import { checkLlmBudget } from '../services/llm-cost-service';
 import { executeAutonomousGeneration } from '../services';
 import {
   AUTONOMOUS_ACTIONS,
@@ -87,6 +88,17 @@ export async function autonomousHandler(c: Context) {
       );
     }
 
+    // Spending guardrail: don't start runs for companies over their hard LLM budget
+    if (effectiveCompanyId) {
+      const budget = await checkLlmBudget(env, effectiveCompanyId);
+      if (budget.state === 'exceeded') {
+        return c.json(
+          { success: false, error: 'LLM budget exceeded', message: `Monthly LLM budget for ${budget.month} has been reached` },
+          402
+        );
+      }
+    }
+
     logger.info('autonomous_request_received', {
       firstName,
       lastName,
@@ -15,6 +15,7 @@ import { Context } from 'hono';
 import { getLogger } from '../utils/core/logger';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
+import { checkLlmBudget } from '../services/llm-cost-service';
 import { KVService } from '../services';
 import { BATCH_KV_KEYS, BATCH_META_TTL_SECONDS, KV_NAMESPACES } from '../constants';
 import { resolveBaseApiUrl } from '../utils/core/url-validator';
@@ -72,6 +73,17 @@ export async function batchAutonomousHandler(c: Context) {
       );
     }
 
+    // Spending guardrail: don't start runs for companies over their hard LLM budget
+    if (effectiveCompanyId) {
+      const budget = await checkLlmBudget(env, effectiveCompanyId);
+      if (budget.state === 'exceeded') {
+        return c.json(
+          { success: false, error: 'LLM budget exceeded', message: `Monthly LLM budget for ${budget.month} has been reached` },
+          402,
+        );
+      }
+    }
+
     const effectiveBaseApiUrl = resolveBaseApiUrl(baseApiUrl);
     const batchResourceId = generateBatchId();
     const actionBatchResourceIds = Object.fromEntries(
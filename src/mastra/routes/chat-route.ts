@@ -25,6 +25,7 @@ import { normalizeSafeId } from '../utils/core/id-utils';
 import { requestStorage } from '../utils/core/request-storage';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
+import { checkLlmBudget } from '../services/llm-cost-service';
 import { getLogger } from '../utils/core/logger';
 import type { ChatRequestBody } from '../types';
 
@@ -72,10 +73,26 @@ export async function chatHandler(c: Context) {
   const store = requestStorage.getStore();
   if (store) store.threadId = threadId;
 
+  // Hard budget stop before any LLM call (orchestrator routing + agent stream)
+  if (store?.companyId) {
+    const budget = await checkLlmBudget(store.env, store.companyId);
+    if (budget.state === 'exceeded') {
+      return c.json(
+        {
+          success: false,
+          error: 'LLM budget exceeded',
+          message: `Monthly LLM budget for ${budget.month} has been reached`,
+        },
+        402
+      );
+    }
+  }
+
   // Step 4: Route to agent
   let routeResult;
   try {
     routeResult = await routeToAgent(mastra, orchestratorInput);
+    if (store) store.agentName = routeResult.agentName;
     logger.info('🎬 FINAL_ROUTING Agent selected', {
       agentName: routeResult.agentName,
       taskContext: routeResult.taskContext,
@@ -28,6 +28,11 @@ vi.mock('../utils/core/request-storage', () => ({
   requestStorage: { getStore: vi.fn().mockReturnValue({}) },
 }));
 
+const checkLlmBudgetMock = vi.hoisted(() => vi.fn());
+vi.mock('../services/llm-cost-service', () => ({
+  checkLlmBudget: (...args: unknown[]) => checkLlmBudgetMock(...args),
+}));
+
 vi.mock('../utils/core/logger', () => ({
   getLogger: () => ({ info: vi.fn(), error: vi.fn(), warn: vi.fn(), debug: vi.fn() }),
 }));
@@ -58,6 +63,7 @@ vi.mock('@mastra/ai-sdk', () => ({
 }));
 
 import { csChatHandler } from './cs-chat-route';
+import { requestStorage } from '../utils/core/request-storage';
 
 function createContext() {
   const json = vi.fn();
@@ -94,6 +100,24 @@ describe('csChatHandler', () => {
     );
   });
 
+  it('returns 402 without routing when the company is over its LLM budget', async () => {
+    parseMock.mockReturnValue({ prompt: 'hello', routingContext: undefined });
+    vi.mocked(requestStorage.getStore).mockReturnValueOnce({ companyId: 'acme' });
+    checkLlmBudgetMock.mockResolvedValue({ state: 'exceeded', month: '2026-10' });
+    const c = createContext();
+    await csChatHandler(c);
+
+    expect(routeToCSAgentMock).not.toHaveBeenCalled();
+    expect(c.json).toHaveBeenCalledWith(
+      {
+        success: false,
+        error: 'LLM budget exceeded',
+        message: 'Monthly LLM budget for 2026-10 has been reached',
+      },
+      402
+    );
+  });
+
   it('returns 500 when routeToCSAgent throws', async () => {
     parseMock.mockReturnValue({ prompt: 'hello', routingContext: undefined });
     routeToCSAgentMock.mockRejectedValue(new Error('cs router failed'));
@@ -17,6 +17,7 @@ import {
 import { requestStorage } from '../utils/core/request-storage';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
+import { checkLlmBudget } from '../services/llm-cost-service';
 import { routeToCSAgent } from '../utils/cs-orchestration-helpers';
 import { getLogger } from '../utils/core/logger';
 import type { ChatRequestBody } from '../types';
@@ -59,6 +60,21 @@ export async function csChatHandler(c: Context) {
     ? `Here is the recent conversation history:\n---\n${routingContext}\n---\n\nCurrent user message: "${prompt}"\n\nBased on this history and the current message, decide which CS agent should handle the request.`
     : prompt;
 
+  // Hard budget stop before any LLM call (CS orchestrator routing + agent stream)
+  if (store?.companyId) {
+    const budget = await checkLlmBudget(store.env, store.companyId);
+    if (budget.state === 'exceeded') {
+      return c.json(
+        {
+          success: false,
+          error: 'LLM budget exceeded',
+          message: `Monthly LLM budget for ${budget.month} has been reached`,
+        },
+        402
+      );
+    }
+  }
+
   // Step 4: Route via CS Orchestrator
   let routeResult;
   try {
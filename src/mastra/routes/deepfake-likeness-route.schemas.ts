@@ -0,0 +1,32 @@
+import { z } from 'zod';
+import { DEEPFAKE_LIKENESS, SYNTHETIC_VIDEO } from '../constants';
+
+const isoDate = z
+  .string()
+  .trim()
+  .refine(value => !Number.isNaN(Date.parse(value)), 'Must be an ISO 8601 date');
+
+/** POST /deepfake/likeness — register a real-person avatar and its consent record */
+export const likenessEntryRequestSchema = z
+  .object({
+    avatarId: z
+      .string()
+      .trim()
+      .min(1)
+      .max(128)
+      .regex(/^[A-Za-z0-9_.:-]+$/, 'avatarId contains unsupported characters'),
+    provider: z.enum(SYNTHETIC_VIDEO.PROVIDERS).default(SYNTHETIC_VIDEO.DEFAULT_PROVIDER),
+    personName: z.string().trim().min(1).max(200),
+    consentStatus: z.enum(DEEPFAKE_LIKENESS.CONSENT_STATUSES),
+    /** Reference to the signed consent form or ticket — not the document itself */
+    consentReference: z.string().trim().max(500).optional(),
+    consentGrantedAt: isoDate.optional(),
+    consentExpiresAt: isoDate.optional(),
+    allowedUseCases: z.array(z.enum(DEEPFAKE_LIKENESS.USE_CASES)).max(DEEPFAKE_LIKENESS.USE_CASES.length).default([]),
+  })
+  .refine(entry => entry.consentStatus !== 'granted' || entry.allowedUseCases.length > 0, {
+    message: 'Granted consent must list at least one allowed use case',
+    path: ['allowedUseCases'],
+  });
+
+export type LikenessEntryRequest = z.infer<typeof likenessEntryRequestSchema>;
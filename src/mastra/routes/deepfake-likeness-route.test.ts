@@ -0,0 +1,209 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  deepfakeLikenessListHandler,
+  deepfakeLikenessRevokeHandler,
+  deepfakeLikenessUpsertHandler,
+} from './deepfake-likeness-route';
+
+const mockListLikenessEntries = vi.fn();
+const mockUpsertLikenessEntry = vi.fn();
+const mockRevokeLikenessConsent = vi.fn();
+
+vi.mock('../services/deepfake-likeness-service', () => ({
+  listLikenessEntries: (...args: unknown[]) => mockListLikenessEntries(...args),
+  upsertLikenessEntry: (...args: unknown[]) => mockUpsertLikenessEntry(...args),
+  revokeLikenessConsent: (...args: unknown[]) => mockRevokeLikenessConsent(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { companyId?: string; body?: unknown; avatarId?: string } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      header: vi.fn((name: string) => (name === 'X-COMPANY-ID' ? options.companyId : undefined)),
+      param: vi.fn((name: string) => (name === 'avatarId' ? options.avatarId : undefined)),
+      json: vi.fn(async () => {
+        if (options.body === undefined) throw new SyntaxError('Unexpected end of JSON input');
+        return options.body;
+      }),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const entry = {
+  companyId: 'acme',
+  avatarId: 'ceo-avatar',
+  provider: 'heygen',
+  personName: 'Jane Doe',
+  consentStatus: 'granted',
+  consentReference: 'DOC-42',
+  consentGrantedAt: '2026-01-01T00:00:00Z',
+  consentExpiresAt: '2027-01-01T00:00:00Z',
+  allowedUseCases: ['executive_impersonation'],
+  revokedAt: null,
+  createdAt: '2026-01-01 00:00:00',
+  updatedAt: '2026-01-01 00:00:00',
+};
+
+describe('deepfakeLikenessListHandler', () => {
+  beforeEach(() => {
+    mockListLikenessEntries.mockReset();
+  });
+
+  it('returns the company registry', async () => {
+    mockListLikenessEntries.mockResolvedValue([entry]);
+    const c = createMockContext({ companyId: 'acme' });
+
+    await deepfakeLikenessListHandler(c);
+
+    expect(mockListLikenessEntries).toHaveBeenCalledWith(c.env, 'acme');
+    expect(c._json).toHaveBeenCalledWith({ success: true, entries: [entry] }, 200);
+  });
+
+  it('returns 401 without company ID and 503 when the registry is unavailable', async () => {
+    const noCompany = createMockContext();
+    await deepfakeLikenessListHandler(noCompany);
+    expect(noCompany._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+
+    mockListLikenessEntries.mockResolvedValue(null);
+    const c = createMockContext({ companyId: 'acme' });
+    await deepfakeLikenessListHandler(c);
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Likeness registry unavailable' }, 503);
+  });
+});
+
+describe('deepfakeLikenessUpsertHandler', () => {
+  beforeEach(() => {
+    mockUpsertLikenessEntry.mockReset();
+  });
+
+  const body = {
+    avatarId: 'ceo-avatar',
+    personName: 'Jane Doe',
+    consentStatus: 'granted',
+    consentReference: 'DOC-42',
+    consentExpiresAt: '2027-01-01T00:00:00Z',
+    allowedUseCases: ['executive_impersonation'],
+  };
+
+  it('records consent scoped to the header company', async () => {
+    mockUpsertLikenessEntry.mockResolvedValue(entry);
+    const c = createMockContext({ companyId: 'acme', body: { ...body, companyId: 'other' } });
+
+    await deepfakeLikenessUpsertHandler(c);
+
+    expect(mockUpsertLikenessEntry).toHaveBeenCalledWith(
+      c.env,
+      expect.objectContaining({ companyId: 'acme', avatarId: 'ceo-avatar', provider: 'heygen' })
+    );
+    expect(c._json).toHaveBeenCalledWith({ success: true, entry }, 200);
+  });
+
+  it('rejects invalid JSON and invalid entries', async () => {
+    const invalidJson = createMockContext({ companyId: 'acme' });
+    await deepfakeLikenessUpsertHandler(invalidJson);
+    expect(invalidJson._json).toHaveBeenCalledWith({ success: false, error: 'Invalid JSON body' }, 400);
+
+    const noUseCases = createMockContext({ companyId: 'acme', body: { ...body, allowedUseCases: [] } });
+    await deepfakeLikenessUpsertHandler(noUseCases);
+    expect(noUseCases._json.mock.calls[0][0].error).toBe('Invalid request format');
+    expect(noUseCases._json.mock.calls[0][1]).toBe(400);
+
+    const badDate = createMockContext({ companyId: 'acme', body: { ...body, consentExpiresAt: 'next year' } });
+    await deepfakeLikenessUpsertHandler(badDate);
+    expect(badDate._json.mock.calls[0][1]).toBe(400);
+
+    expect(mockUpsertLikenessEntry).not.toHaveBeenCalled();
+  });
+
+  it('accepts pending consent without use cases', async () => {
+    mockUpsertLikenessEntry.mockResolvedValue({ ...entry, consentStatus: 'pending', allowedUseCases: [] });
+    const c = createMockContext({
+      companyId: 'acme',
+      body: { avatarId: 'ceo-avatar', personName: 'Jane Doe', consentStatus: 'pending' },
+    });
+
+    await deepfakeLikenessUpsertHandler(c);
+
+    expect(mockUpsertLikenessEntry.mock.calls[0][1].allowedUseCases).toEqual([]);
+    expect(c._json.mock.calls[0][1]).toBe(200);
+  });
+
+  it('returns 503 when the registry is unavailable and 500 when the write throws', async () => {
+    mockUpsertLikenessEntry.mockResolvedValue(null);
+    const unavailable = createMockContext({ companyId: 'acme', body });
+    await deepfakeLikenessUpsertHandler(unavailable);
+    expect(unavailable._json).toHaveBeenCalledWith({ success: false, error: 'Likeness registry unavailable' }, 503);
+
+    mockUpsertLikenessEntry.mockRejectedValue(new Error('boom'));
+    const failing = createMockContext({ companyId: 'acme', body });
+    await deepfakeLikenessUpsertHandler(failing);
+    expect(failing._json).toHaveBeenCalledWith({ success: false, error: 'Failed to update likeness registry' }, 500);
+  });
+});
+
+describe('deepfakeLikenessRevokeHandler', () => {
+  beforeEach(() => {
+    mockRevokeLikenessConsent.mockReset();
+  });
+
+  it('revokes consent for the avatar', async () => {
+    mockRevokeLikenessConsent.mockResolvedValue(true);
+    const c = createMockContext({ companyId: 'acme', avatarId: 'ceo-avatar' });
+
+    await deepfakeLikenessRevokeHandler(c);
+
+    expect(mockRevokeLikenessConsent).toHaveBeenCalledWith(c.env, 'acme', 'ceo-avatar');
+    expect(c._json).toHaveBeenCalledWith({ success: true, avatarId: 'ceo-avatar', consentStatus: 'revoked' }, 200);
+  });
+
+  it('returns 404 for unregistered avatars and 503 when the registry is unavailable', async () => {
+    mockRevokeLikenessConsent.mockResolvedValue(false);
+    const notFound = createMockContext({ companyId: 'acme', avatarId: 'unknown' });
+    await deepfakeLikenessRevokeHandler(notFound);
+    expect(notFound._json).toHaveBeenCalledWith({ success: false, error: 'Avatar is not registered' }, 404);
+
+    mockRevokeLikenessConsent.mockResolvedValue(null);
+    const unavailable = createMockContext({ companyId: 'acme', avatarId: 'ceo-avatar' });
+    await deepfakeLikenessRevokeHandler(unavailable);
+    expect(unavailable._json).toHaveBeenCalledWith({ success: false, error: 'Likeness registry unavailable' }, 503);
+  });
+
+  it('requires a company ID and an avatar ID', async () => {
+    const noCompany = createMockContext({ avatarId: 'ceo-avatar' });
+    await deepfakeLikenessRevokeHandler(noCompany);
+    expect(noCompany._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+
+    const noAvatar = createMockContext({ companyId: 'acme', avatarId: '  ' });
+    await deepfakeLikenessRevokeHandler(noAvatar);
+    expect(noAvatar._json).toHaveBeenCalledWith({ success: false, error: 'Missing avatarId' }, 400);
+
+    expect(mockRevokeLikenessConsent).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Deepfake Likeness Registry Routes
+ *
+ * Manages the real-person avatars a company may use for deepfake simulations and the
+ * consent behind each one. generate-deepfake-video refuses registered avatars without
+ * granted, unexpired consent covering the requested use case — see
+ * deepfake-likeness-service.ts. Every change is written to the GDPR audit hash chain.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - CompanyId from X-COMPANY-ID header scopes the registry
+ *
+ * GET    /deepfake/likeness             → { success, entries }
+ * POST   /deepfake/likeness             { avatarId, provider?, personName, consentStatus, consentReference?,
+ *                                         consentGrantedAt?, consentExpiresAt?, allowedUseCases }
+ *                                       → { success, entry }
+ * DELETE /deepfake/likeness/:avatarId   → { success, avatarId, consentStatus: 'revoked' } (row kept for traceability)
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { listLikenessEntries, revokeLikenessConsent, upsertLikenessEntry } from '../services/deepfake-likeness-service';
+import { likenessEntryRequestSchema } from './deepfake-likeness-route.schemas';
+
+const logger = getLogger('DeepfakeLikenessRoute');
+
+export async function deepfakeLikenessListHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  try {
+    const entries = await listLikenessEntries(c.env as Record<string, unknown> | undefined, companyId);
+    if (!entries) {
+      return c.json({ success: false, error: 'Likeness registry unavailable' }, 503);
+    }
+    return c.json({ success: true, entries }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'deepfake-likeness-list', stack: err.stack });
+    logErrorInfo(logger, 'error', 'deepfake_likeness_list_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to list likeness registry' }, 500);
+  }
+}
+
+export async function deepfakeLikenessUpsertHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json<unknown>();
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+  }
+
+  const parsed = likenessEntryRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ success: false, error: 'Invalid request format', details: parsed.error.format() }, 400);
+  }
+
+  try {
+    const entry = await upsertLikenessEntry(c.env as Record<string, unknown> | undefined, {
+      companyId,
+      ...parsed.data,
+    });
+    if (!entry) {
+      return c.json({ success: false, error: 'Likeness registry unavailable' }, 503);
+    }
+
+    logger.info('deepfake_likeness_upserted', {
+      companyId,
+      avatarId: entry.avatarId,
+      consentStatus: entry.consentStatus,
+      allowedUseCases: entry.allowedUseCases,
+    });
+    return c.json({ success: true, entry }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'deepfake-likeness-upsert', stack: err.stack });
+    logErrorInfo(logger, 'error', 'deepfake_likeness_upsert_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to update likeness registry' }, 500);
+  }
+}
+
+export async function deepfakeLikenessRevokeHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const avatarId = c.req.param('avatarId')?.trim();
+  if (!avatarId || avatarId.length > 128) {
+    return c.json({ success: false, error: 'Missing avatarId' }, 400);
+  }
+
+  try {
+    const revoked = await revokeLikenessConsent(c.env as Record<string, unknown> | undefined, companyId, avatarId);
+    if (revoked === null) {
+      return c.json({ success: false, error: 'Likeness registry unavailable' }, 503);
+    }
+    if (!revoked) {
+      return c.json({ success: false, error: 'Avatar is not registered' }, 404);
+    }
+
+    logger.info('deepfake_likeness_revoked', { companyId, avatarId });
+    return c.json({ success: true, avatarId, consentStatus: 'revoked' }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'deepfake-likeness-revoke', stack: err.stack });
+    logErrorInfo(logger, 'error', 'deepfake_likeness_revoke_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to revoke consent' }, 500);
+  }
+}
@@ -1,13 +1,13 @@
 /**
  * Deepfake Video Status Route
  *
- * Backend proxy for HeyGen video status polling.
- * Keeps HEYGEN_API_KEY server-side — frontend never sees it.
+ * Backend proxy for video status polling, via the configured SyntheticVideoProvider
+ * (VIDEO_PROVIDER; HeyGen by default). Keeps HEYGEN_API_KEY server-side — frontend never sees it.
  *
  * Flow:
  *   Frontend receives video_id from ::ui:deepfake_video_generating:: signal
  *   → polls GET /deepfake/status/:videoId every ~10s
- *   → this handler calls HeyGen GET /v1/video_status.get?video_id=...
+ *   → this handler calls provider.getVideoStatus (HeyGen: GET /v1/video_status.get?video_id=...)
  *   → returns { status, videoUrl, videoUrlCaption, ... } to frontend
  *
  * Caption strategy: videoUrlCaption = altyazılı MP4 (HeyGen caption: true ile üretildiyse).
@@ -19,14 +19,16 @@
  */
 
 import { Context } from 'hono';
-import { HEYGEN } from '../constants';
 import { getLogger } from '../utils/core/logger';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
+import { getSyntheticVideoProvider, SyntheticVideoProviderError, type VideoJob } from '../services/synthetic-video';
 
 const logger = getLogger('DeepfakeStatusRoute');
 
 export async function deepfakeStatusHandler(c: Context) {
+  let timeoutMs = 0;
+
   try {
     const videoId = c.req.param('videoId');
 
@@ -34,77 +36,34 @@ export async function deepfakeStatusHandler(c: Context) {
       return c.json({ success: false, error: 'Missing videoId' }, 400);
     }
 
-    const apiKey = process.env.HEYGEN_API_KEY;
-    if (!apiKey) {
+    const provider = getSyntheticVideoProvider();
+    timeoutMs = provider.timeoutMs;
+
+    const configError = provider.getConfigurationError();
+    if (configError) {
       logger.error('deepfake_status_api_key_missing');
-      return c.json({ success: false, error: 'HeyGen is not configured on this server' }, 503);
+      return c.json({ success: false, error: `${provider.displayName} is not configured on this server` }, 503);
     }
 
-    const url = `${HEYGEN.API_BASE_URL}${HEYGEN.ENDPOINTS.VIDEO_STATUS}?video_id=${encodeURIComponent(videoId.trim())}`;
-
     logger.info('deepfake_status_request', { videoId });
 
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), HEYGEN.API_TIMEOUT_MS);
-
-    let response: Response;
+    let job: VideoJob;
     try {
-      response = await fetch(url, {
-        method: 'GET',
-        headers: { 'x-api-key': apiKey },
-        signal: controller.signal,
-      });
-    } finally {
-      clearTimeout(timeoutId);
-    }
-
-    if (!response.ok) {
-      const errorBody = await response.text().catch(() => '');
-      logger.error('deepfake_status_api_error', {
-        videoId,
-        status: response.status,
-        body: errorBody.substring(0, 200),
-      });
-      return c.json(
-        { success: false, error: `HeyGen API returned ${response.status}` },
-        502
-      );
-    }
-
-    const data = await response.json();
-
-    // HeyGen response shape:
-    // Success: { error: null, data: { video_id, status, video_url, thumbnail_url, duration, caption_url, video_url_caption } }
-    // Failed:  { error: null, data: { video_id, status: "failed", error: { code, message } } }
-    const videoData = data?.data ?? {};
-    const status: string = videoData.status ?? 'processing';
-    const videoUrl: string | null = videoData.video_url ?? null;
-    const thumbnailUrl: string | null = videoData.thumbnail_url ?? null;
-    const durationSec: number | null = videoData.duration ?? null;
-    // Altyazılı MP4 — caption: true ile üretildiyse. Frontend bunu videoUrl yerine kullanır.
-    const videoUrlCaption: string | null = videoData.video_url_caption ?? null;
-
-    // Extract failure reason from HeyGen when video rendering fails
-    let failureReason: string | null = null;
-    let failureCode: string | null = null;
-    if (status === 'failed') {
-      const heygenError = videoData.error ?? data?.error;
-      if (heygenError && typeof heygenError === 'object') {
-        const errObj = heygenError as Record<string, unknown>;
-        failureCode = errObj.code ? String(errObj.code) : null;
-        failureReason = errObj.detail
-          ? String(errObj.detail)
-          : errObj.message
-            ? String(errObj.message)
-            : JSON.stringify(heygenError);
-      } else if (typeof heygenError === 'string') {
-        failureReason = heygenError;
-      } else if (videoData.message) {
-        failureReason = String(videoData.message);
+      job = await provider.getVideoStatus(videoId.trim());
+    } catch (error) {
+      if (error instanceof SyntheticVideoProviderError && error.code === 'api_error') {
+        logger.error('deepfake_status_api_error', {
+          videoId,
+          status: error.status,
+          body: error.body?.substring(0, 200),
+        });
+        return c.json({ success: false, error: `${provider.displayName} API returned ${error.status}` }, 502);
       }
+      throw error;
     }
 
-    logger.info('deepfake_status_raw', { videoId, rawData: JSON.stringify(data).substring(0, 500) });
+    const { status, videoUrl, thumbnailUrl, durationSec, videoUrlCaption, failureReason, failureCode } = job;
+
     logger.info('deepfake_status_result', { videoId, status, failureCode, failureReason });
 
     return c.json(
@@ -125,7 +84,7 @@ export async function deepfakeStatusHandler(c: Context) {
     const err = normalizeError(error);
 
     if (err.name === 'AbortError') {
-      logger.error('deepfake_status_timeout', { timeoutMs: HEYGEN.API_TIMEOUT_MS });
+      logger.error('deepfake_status_timeout', { timeoutMs });
       return c.json({ success: false, error: 'Request timed out' }, 504);
     }
 
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { emailIRBulkAnalyzeHandler } from './email-ir-bulk-route';
+import { Context } from 'hono';
+
+const { validReport, emails, mockFetchExecute, mockStart } = vi.hoisted(() => {
+  const campaignBody =
+    'Your mailbox storage is almost full. Verify your account within 24 hours to avoid losing incoming messages. ' +
+    'Click the link below to keep your mailbox active and restore full access to your email.';
+  return {
+    validReport: {
+      executive_summary: {
+        email_category: 'Phishing' as const,
+        verdict: 'High-Risk Phishing - Immediate Action Required',
+        risk_level: 'High' as const,
+        confidence: 0.9,
+        evidence_strength: null,
+        confidence_basis: null,
+        status: 'Analysis Complete',
+        why_this_matters: null,
+      },
+      agent_determination: 'Credential harvesting attempt.',
+      risk_indicators: {
+        observed: ['Credential request'],
+        not_observed: [],
+      },
+      evidence_flow: [
+        {
+          step: 1,
+          title: 'Final Verdict',
+          description: 'Classified as phishing.',
+          finding_label: 'Phishing' as const,
+        },
+      ],
+      actions_recommended: {
+        p1_immediate: [],
+        p2_follow_up: [],
+        p3_hardening: [],
+      },
+      confidence_limitations: 'High confidence in determination.',
+    },
+    emails: {
+      'email-1': {
+        from: 'it-support@mailbox-help.net',
+        subject: 'Mailbox quota exceeded',
+        textBody: `Dear Alice, ${campaignBody}`,
+        urls: [{ url: 'https://mailbox-help.net/verify?u=alice' }],
+      },
+      'email-2': {
+        from: 'helpdesk@mailbox-help.net',
+        subject: 'RE: Mailbox quota exceeded',
+        textBody: `Dear Bob, ${campaignBody}`,
+        urls: [{ url: 'https://mailbox-help.net/verify?u=bob' }],
+      },
+      'email-3': {
+        from: 'newsletter@vendor.com',
+        subject: 'October product update',
+        textBody: 'We shipped dark mode, faster exports and a new billing dashboard this month. Read the changelog.',
+        urls: [{ url: 'https://vendor.com/changelog' }],
+      },
+    } as Record<string, any>,
+    mockFetchExecute: vi.fn(),
+    mockStart: vi.fn(),
+  };
+});
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: vi.fn().mockReturnValue({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: any) => ({
+    message: err?.message || 'Unknown error',
+    code: 'UNKNOWN',
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../tools/email-ir/fetch-email', () => ({
+  fetchEmailTool: { execute: mockFetchExecute },
+}));
+
+vi.mock('../workflows/email-ir-workflow', () => ({
+  emailIRDataWorkflow: {
+    createRun: vi.fn().mockImplementation(async () => ({ runId: 'run-bulk', start: mockStart })),
+  },
+}));
+
+describe('emailIRBulkAnalyzeHandler', () => {
+  let mockContext: any;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockContext = {
+      req: {
+        json: vi.fn(),
+      },
+      json: vi.fn().mockReturnValue('response'),
+    };
+    mockFetchExecute.mockImplementation(async ({ id }: { id: string }) => {
+      if (!emails[id]) throw new Error(`Email ${id} not found`);
+      return emails[id];
+    });
+    mockStart.mockResolvedValue({
+      status: 'success',
+      steps: {
+        'email-ir-reporting-step': { status: 'success', output: validReport },
+      },
+    });
+  });
+
+  it('clusters reports into campaigns and analyzes each campaign once', async () => {
+    mockContext.req.json.mockResolvedValue({
+      ids: ['email-1', 'email-2', 'email-3'],
+      accessToken: 'token',
+    });
+
+    await emailIRBulkAnalyzeHandler(mockContext as unknown as Context);
+
+    const [payload] = mockContext.json.mock.calls[0];
+    expect(payload.success).toBe(true);
+    expect(payload.totalReports).toBe(3);
+    expect(payload.campaignCount).toBe(2);
+    expect(mockStart).toHaveBeenCalledTimes(2);
+    expect(mockStart).toHaveBeenCalledWith({ inputData: emails['email-1'] });
+
+    const [campaign, single] = payload.campaigns;
+    expect(campaign).toMatchObject({
+      campaignId: 'campaign-1',
+      status: 'analyzed',
+      representativeId: 'email-1',
+      memberCount: 2,
+      fingerprint: { senderDomains: ['mailbox-help.net'], urls: ['mailbox-help.net/verify'] },
+    });
+    expect(campaign.report.risk_indicators.observed[0]).toBe(
+      'Campaign: 2 near-identical reports clustered (2 distinct sender addresses)'
+    );
+    expect(single.memberCount).toBe(1);
+    expect(single.report.risk_indicators.observed).toEqual(['Credential request']);
+  });
+
+  it('reports fetch failures without failing the batch', async () => {
+    mockContext.req.json.mockResolvedValue({
+      ids: ['email-1', 'missing'],
+      accessToken: 'token',
+    });
+
+    await emailIRBulkAnalyzeHandler(mockContext as unknown as Context);
+
+    const [payload] = mockContext.json.mock.calls[0];
+    expect(payload.campaignCount).toBe(1);
+    expect(payload.fetchFailures).toEqual([{ id: 'missing', error: 'Email missing not found' }]);
+  });
+
+  it('marks a campaign as failed when its workflow run fails', async () => {
+    mockStart.mockResolvedValue({ status: 'failed', error: 'LLM timeout' });
+    mockContext.req.json.mockResolvedValue({
+      ids: ['email-3'],
+      accessToken: 'token',
+    });
+
+    await emailIRBulkAnalyzeHandler(mockContext as unknown as Context);
+
+    const [payload] = mockContext.json.mock.calls[0];
+    expect(payload.success).toBe(true);
+    expect(payload.campaigns[0]).toMatchObject({ status: 'failed', error: 'LLM timeout' });
+    expect(payload.campaigns[0].report).toBeUndefined();
+  });
+
+  it('returns 400 for an empty id list', async () => {
+    mockContext.req.json.mockResolvedValue({ ids: [], accessToken: 'token' });
+
+    await emailIRBulkAnalyzeHandler(mockContext as unknown as Context);
+
+    expect(mockContext.json.mock.calls[0][1]).toBe(400);
+    expect(mockFetchExecute).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when no email could be fetched', async () => {
+    mockContext.req.json.mockResolvedValue({ ids: ['missing'], accessToken: 'token' });
+
+    await emailIRBulkAnalyzeHandler(mockContext as unknown as Context);
+
+    const [payload, status] = mockContext.json.mock.calls[0];
+    expect(status).toBe(500);
+    expect(payload.error).toBe('No reported emails could be fetched');
+  });
+});
@@ -0,0 +1,230 @@
+import { Context } from 'hono';
+import { z } from 'zod';
+import { errorService } from '../services/error-service';
+import { getLogger } from '../utils/core/logger';
+import { logErrorInfo, normalizeError } from '../utils/core/error-utils';
+import { resolveBaseApiUrl } from '../utils/core/url-validator';
+import { EMAIL_IR } from '../constants';
+import { emailIRDataWorkflow } from '../workflows/email-ir-workflow';
+import { fetchEmailTool } from '../tools/email-ir/fetch-email';
+import { clusterEmails, type EmailCluster } from '../tools/email-ir/email-clustering';
+import type { EmailIREmailData } from '../types/email-ir';
+import { EmailIRCanvasSchema } from '../schemas/email-ir';
+import {
+  emailIrBulkAnalyzeRequestSchema,
+  emailIrBulkAnalyzeSuccessResponseSchema,
+  emailIrCampaignSchema,
+} from './email-ir-route.schemas';
+
+type EmailIrCampaign = z.infer<typeof emailIrCampaignSchema>;
+type EmailIRCanvas = z.infer<typeof EmailIRCanvasSchema>;
+
+const MAX_FINGERPRINT_URLS = 20;
+
+/**
+ * POST /email-ir/analyze-bulk
+ *
+ * Employees often report the same campaign many times. This endpoint fetches every
+ * reported email, clusters near-identical messages (subject, sender, URL set, body
+ * SimHash) and runs the full analysis pipeline once per campaign.
+ *
+ * Payload:
+ * {
+ *   "ids": ["email_resource_id", ...],   // max EMAIL_IR.BULK.MAX_IDS
+ *   "accessToken": "bearer_token",
+ *   "apiBaseUrl": "https://optional-custom-url.com",
+ *   "protectedDomains": ["acme.com"]     // optional
+ * }
+ */
+export const emailIRBulkAnalyzeHandler = async (c: Context) => {
+  const logger = getLogger('EmailIRBulkHandler');
+
+  try {
+    const body = await c.req.json();
+
+    const validation = emailIrBulkAnalyzeRequestSchema.safeParse(body);
+    if (!validation.success) {
+      const errorInfo = errorService.validation('Invalid input', {
+        route: '/email-ir/analyze-bulk',
+        details: validation.error.format(),
+      });
+      logErrorInfo(logger, 'warn', 'email_ir_bulk_invalid_input', errorInfo);
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid input',
+          details: validation.error.format(),
+        },
+        400
+      );
+    }
+
+    const { accessToken, protectedDomains } = validation.data;
+    const ids = Array.from(new Set(validation.data.ids));
+    const apiBaseUrl = resolveBaseApiUrl(validation.data.apiBaseUrl);
+
+    logger.info('Starting Email IR bulk analysis', { reportCount: ids.length, apiBaseUrl });
+
+    const { emails, fetchFailures } = await fetchAll(ids, { accessToken, apiBaseUrl, protectedDomains });
+    if (emails.length === 0) {
+      throw new Error('No reported emails could be fetched');
+    }
+
+    const clusters = clusterEmails(emails.map(({ id, email }) => ({ id, email })));
+    const emailById = new Map(emails.map(({ id, email }) => [id, email]));
+
+    logger.info('Email IR bulk clustering complete', {
+      reportCount: emails.length,
+      campaignCount: clusters.length,
+      fetchFailures: fetchFailures.length,
+    });
+
+    const campaigns: EmailIrCampaign[] = [];
+    for (let i = 0; i < clusters.length; i += EMAIL_IR.BULK.ANALYSIS_CONCURRENCY) {
+      const chunk = clusters.slice(i, i + EMAIL_IR.BULK.ANALYSIS_CONCURRENCY);
+      const results = await Promise.allSettled(chunk.map(cluster => analyzeCluster(cluster, emailById)));
+
+      results.forEach((result, j) => {
+        const base = describeCluster(chunk[j], emailById);
+        if (result.status === 'fulfilled') {
+          campaigns.push({ ...base, status: 'analyzed', ...result.value });
+          return;
+        }
+        const err = normalizeError(result.reason);
+        const errorInfo = errorService.aiModel(err.message, {
+          route: '/email-ir/analyze-bulk',
+          campaignId: chunk[j].clusterId,
+        });
+        logErrorInfo(logger, 'warn', 'email_ir_bulk_campaign_failed', errorInfo);
+        campaigns.push({ ...base, status: 'failed', error: err.message });
+      });
+    }
+
+    const responsePayload = {
+      success: true as const,
+      totalReports: ids.length,
+      campaignCount: clusters.length,
+      campaigns,
+      fetchFailures,
+    };
+
+    const responseValidation = emailIrBulkAnalyzeSuccessResponseSchema.safeParse(responsePayload);
+    if (!responseValidation.success) {
+      throw new Error('Workflow produced invalid report schema');
+    }
+
+    return c.json(responsePayload);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      route: '/email-ir/analyze-bulk',
+      event: 'error',
+    });
+    logErrorInfo(logger, 'error', 'email_ir_bulk_analysis_failed', errorInfo);
+    return c.json(
+      {
+        success: false,
+        error: err.message,
+      },
+      500
+    );
+  }
+};
+
+/** Fetch in chunks with Promise.allSettled so one bad ID never blocks the batch. */
+async function fetchAll(
+  ids: string[],
+  params: { accessToken: string; apiBaseUrl: string; protectedDomains?: string[] }
+): Promise<{
+  emails: Array<{ id: string; email: EmailIREmailData }>;
+  fetchFailures: Array<{ id: string; error: string }>;
+}> {
+  if (!fetchEmailTool.execute) throw new Error('Fetch email tool is not executable');
+  const execute = fetchEmailTool.execute;
+
+  const emails: Array<{ id: string; email: EmailIREmailData }> = [];
+  const fetchFailures: Array<{ id: string; error: string }> = [];
+
+  for (let i = 0; i < ids.length; i += EMAIL_IR.BULK.FETCH_CONCURRENCY) {
+    const chunk = ids.slice(i, i + EMAIL_IR.BULK.FETCH_CONCURRENCY);
+    const results = await Promise.allSettled(chunk.map(id => execute({ id, ...params }, {})));
+    results.forEach((result, j) => {
+      if (result.status === 'fulfilled') {
+        emails.push({ id: chunk[j], email: result.value as EmailIREmailData });
+      } else {
+        fetchFailures.push({ id: chunk[j], error: normalizeError(result.reason).message });
+      }
+    });
+  }
+
+  return { emails, fetchFailures };
+}
+
+async function analyzeCluster(
+  cluster: EmailCluster,
+  emailById: Map<string, EmailIREmailData>
+): Promise<{ report: EmailIRCanvas; runId: string }> {
+  const representative = emailById.get(cluster.representativeId);
+  if (!representative) throw new Error(`Representative ${cluster.representativeId} missing`);
+
+  const run = await emailIRDataWorkflow.createRun();
+  const result = await run.start({ inputData: representative });
+
+  if (result.status === 'failed') {
+    throw new Error(result.error ? String(result.error) : 'Workflow execution failed');
+  }
+
+  const stepResult = result.steps['email-ir-reporting-step'];
+  const report = stepResult && stepResult.status === 'success' ? (stepResult.output as EmailIRCanvas) : null;
+  if (!report) {
+    throw new Error('Workflow completed without reporting output');
+  }
+
+  return { report: toCampaignReport(report, cluster, emailById), runId: run.runId };
+}
+
+function senderDomainsOf(cluster: EmailCluster, emailById: Map<string, EmailIREmailData>): string[] {
+  const domains = new Set<string>();
+  for (const id of cluster.memberIds) {
+    const domain = emailById.get(id)?.from?.split('@')[1]?.toLowerCase();
+    if (domain) domains.add(domain);
+  }
+  return Array.from(domains);
+}
+
+function describeCluster(cluster: EmailCluster, emailById: Map<string, EmailIREmailData>) {
+  return {
+    campaignId: cluster.clusterId,
+    representativeId: cluster.representativeId,
+    memberCount: cluster.memberIds.length,
+    members: cluster.memberIds.map(id => {
+      const email = emailById.get(id);
+      return { id, from: email?.from ?? '', subject: email?.subject ?? '' };
+    }),
+    fingerprint: {
+      subject: cluster.fingerprint.subject,
+      senderDomains: senderDomainsOf(cluster, emailById),
+      urls: cluster.fingerprint.urls.slice(0, MAX_FINGERPRINT_URLS),
+    },
+  };
+}
+
+/** Lift the representative's report to campaign level (report volume is evidence in itself). */
+function toCampaignReport(
+  report: EmailIRCanvas,
+  cluster: EmailCluster,
+  emailById: Map<string, EmailIREmailData>
+): EmailIRCanvas {
+  if (cluster.memberIds.length < 2) return report;
+  const senderCount = new Set(cluster.memberIds.map(id => emailById.get(id)?.from?.toLowerCase())).size;
+  const campaignIndicator =
+    `Campaign: ${cluster.memberIds.length} near-identical reports clustered` +
+    ` (${senderCount} distinct sender address${senderCount === 1 ? '' : 'es'})`;
+  return {
+    ...report,
+    risk_indicators: {
+      ...report.risk_indicators,
+      observed: [campaignIndicator, ...report.risk_indicators.observed],
+    },
+  };
+}
@@ -1,8 +1,47 @@
 import { z } from 'zod';
 import { EmailIRCanvasSchema } from '../schemas/email-ir';
+import { protectedDomainsSchema } from '../types/email-ir';
+import { EMAIL_IR } from '../constants';
 
 export const emailIrAnalyzeSuccessResponseSchema = z.object({
   success: z.literal(true),
   report: EmailIRCanvasSchema,
   runId: z.string().min(1),
+  exports: z
+    .object({
+      stix: z.object({ type: z.literal('bundle'), id: z.string(), objects: z.array(z.any()) }).optional(),
+      misp: z.object({ Event: z.record(z.any()) }).optional(),
+    })
+    .optional(),
+});
+
+export const emailIrBulkAnalyzeRequestSchema = z.object({
+  ids: z.array(z.string().trim().min(1).max(128)).min(1).max(EMAIL_IR.BULK.MAX_IDS),
+  accessToken: z.string().trim().min(1).max(4096),
+  apiBaseUrl: z.string().trim().url().max(2048).optional(),
+  protectedDomains: protectedDomainsSchema.optional(),
+});
+
+export const emailIrCampaignSchema = z.object({
+  campaignId: z.string(),
+  status: z.enum(['analyzed', 'failed']),
+  representativeId: z.string(),
+  memberCount: z.number().int().min(1),
+  members: z.array(z.object({ id: z.string(), from: z.string(), subject: z.string() })),
+  fingerprint: z.object({
+    subject: z.string(),
+    senderDomains: z.array(z.string()),
+    urls: z.array(z.string()),
+  }),
+  report: EmailIRCanvasSchema.optional(),
+  runId: z.string().optional(),
+  error: z.string().optional(),
+});
+
+export const emailIrBulkAnalyzeSuccessResponseSchema = z.object({
+  success: z.literal(true),
+  totalReports: z.number().int(),
+  campaignCount: z.number().int(),
+  campaigns: z.array(emailIrCampaignSchema),
+  fetchFailures: z.array(z.object({ id: z.string(), error: z.string() })),
 });
@@ -54,6 +54,21 @@ vi.mock('../utils/core/error-utils', () => ({
 }));
 
 vi.mock('../workflows/email-ir-workflow', () => ({
+  emailIRRawWorkflow: {
+    createRun: vi.fn().mockResolvedValue({
+      runId: 'run-raw-123',
+      start: vi.fn().mockResolvedValue({
+        status: 'success',
+        steps: {
+          'email-ir-parse-raw-step': { status: 'success', output: {} },
+          'email-ir-reporting-step': {
+            status: 'success',
+            output: validReport,
+          },
+        },
+      }),
+    }),
+  },
   emailIRWorkflow: {
     createRun: vi.fn().mockResolvedValue({
       runId: 'run-123',
@@ -78,6 +93,7 @@ describe('emailIRAnalyzeHandler', () => {
     mockContext = {
       req: {
         json: vi.fn(),
+        query: vi.fn().mockReturnValue(undefined),
       },
       json: vi.fn().mockReturnValue('response'),
     };
@@ -234,4 +250,129 @@ describe('emailIRAnalyzeHandler', () => {
     expect(lastCall[1]).toBe(500);
     expect(lastCall[0].success).toBe(false);
   });
+
+  describe('raw upload mode', () => {
+    it('routes rawEmail payloads to the raw workflow', async () => {
+      const { emailIRRawWorkflow, emailIRWorkflow } = await import('../workflows/email-ir-workflow');
+      mockContext.req.json.mockResolvedValue({ rawEmail: 'RnJvbTogYUBiLmNvbQ==', fileName: 'sample.eml' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      expect(emailIRRawWorkflow.createRun).toHaveBeenCalled();
+      expect(emailIRWorkflow.createRun).not.toHaveBeenCalled();
+      const lastCall = (mockContext.json as any).mock.calls[0];
+      expect(lastCall[0]).toMatchObject({ success: true, runId: 'run-raw-123' });
+    });
+
+    it('returns 400 for invalid raw payloads', async () => {
+      mockContext.req.json.mockResolvedValue({ rawEmail: '', format: 'pst' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      const lastCall = (mockContext.json as any).mock.calls[0];
+      expect(lastCall[1]).toBe(400);
+      expect(lastCall[0].success).toBe(false);
+    });
+
+    it('returns 400 when the file cannot be parsed', async () => {
+      const { emailIRRawWorkflow } = await import('../workflows/email-ir-workflow');
+      (emailIRRawWorkflow.createRun as any).mockResolvedValueOnce({
+        runId: 'run-raw-bad',
+        start: vi.fn().mockResolvedValue({
+          status: 'failed',
+          error: 'Not an OLE compound file (bad signature)',
+          steps: {
+            'email-ir-parse-raw-step': { status: 'failed', error: 'Not an OLE compound file (bad signature)' },
+          },
+        }),
+      });
+      mockContext.req.json.mockResolvedValue({ rawEmail: 'bm90IGEgbXNn', format: 'msg' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      const lastCall = (mockContext.json as any).mock.calls[0];
+      expect(lastCall[1]).toBe(400);
+      expect(lastCall[0].error).toBe('Unable to parse raw email');
+      expect(lastCall[0].details).toContain('bad signature');
+    });
+
+    it('returns 500 when a later pipeline step fails', async () => {
+      const { emailIRRawWorkflow } = await import('../workflows/email-ir-workflow');
+      (emailIRRawWorkflow.createRun as any).mockResolvedValueOnce({
+        runId: 'run-raw-fail',
+        start: vi.fn().mockResolvedValue({
+          status: 'failed',
+          error: 'triage failed',
+          steps: { 'email-ir-parse-raw-step': { status: 'success', output: {} } },
+        }),
+      });
+      mockContext.req.json.mockResolvedValue({ rawEmail: 'RnJvbTogYUBiLmNvbQ==' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      const lastCall = (mockContext.json as any).mock.calls[0];
+      expect(lastCall[1]).toBe(500);
+    });
+  });
+
+  describe('threat-intel export', () => {
+    const triageOutput = {
+      original_email: {
+        from: 'PayPal <service@paypa1.com>',
+        subject: 'Account suspended',
+        urls: [{ url: 'https://paypa1.com/login' }],
+        attachments: [{ name: 'invoice.html', md5: 'd41d8cd98f00b204e9800998ecf8427e' }],
+        ips: [{ ip: '203.0.113.45' }],
+      },
+      triage_result: { category: 'Phishing', reason: 'Credential harvesting', confidence: 0.9 },
+    };
+
+    const mockRunWithTriage = async () => {
+      const { emailIRWorkflow } = await import('../workflows/email-ir-workflow');
+      (emailIRWorkflow.createRun as any).mockResolvedValueOnce({
+        runId: 'run-export',
+        start: vi.fn().mockResolvedValue({
+          status: 'success',
+          steps: {
+            'email-ir-triage-step': { status: 'success', output: triageOutput },
+            'email-ir-reporting-step': { status: 'success', output: validReport },
+          },
+        }),
+      });
+    };
+
+    it('adds STIX and MISP exports when requested via ?export', async () => {
+      await mockRunWithTriage();
+      mockContext.req.query.mockReturnValue('stix,misp');
+      mockContext.req.json.mockResolvedValue({ id: 'email-123', accessToken: 'token' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      const [payload] = (mockContext.json as any).mock.calls[0];
+      expect(payload.success).toBe(true);
+      expect(payload.exports.stix.type).toBe('bundle');
+      expect(payload.exports.stix.objects.map((o: any) => o.type)).toContain('report');
+      expect(payload.exports.misp.Event.Attribute.map((a: any) => a.value)).toContain('https://paypa1.com/login');
+    });
+
+    it('omits exports when not requested', async () => {
+      mockContext.req.json.mockResolvedValue({ id: 'email-123', accessToken: 'token' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      const [payload] = (mockContext.json as any).mock.calls[0];
+      expect(payload.exports).toBeUndefined();
+    });
+
+    it('returns 400 for unsupported export formats', async () => {
+      mockContext.req.query.mockReturnValue('openioc');
+      mockContext.req.json.mockResolvedValue({ id: 'email-123', accessToken: 'token' });
+
+      await emailIRAnalyzeHandler(mockContext as unknown as Context);
+
+      const lastCall = (mockContext.json as any).mock.calls[0];
+      expect(lastCall[1]).toBe(400);
+      expect(lastCall[0].error).toBe('Invalid export format');
+    });
+  });
 });
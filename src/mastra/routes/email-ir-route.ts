@@ -1,21 +1,41 @@
 import { Context } from 'hono';
+import { z } from 'zod';
 import { errorService } from '../services/error-service';
 import { getLogger } from '../utils/core/logger';
 import { logErrorInfo, normalizeError } from '../utils/core/error-utils';
-import { emailIRWorkflow } from '../workflows/email-ir-workflow';
+import { analysisWithTriageSchema, emailIRWorkflow, emailIRRawWorkflow } from '../workflows/email-ir-workflow';
 import { fetchEmailInputSchema } from '../tools/email-ir/fetch-email';
+import { parseRawEmailInputSchema } from '../tools/email-ir/parse-raw-email';
 import { emailIrAnalyzeSuccessResponseSchema } from './email-ir-route.schemas';
+import { EmailIRCanvasSchema } from '../schemas/email-ir';
 import { resolveBaseApiUrl } from '../utils/core/url-validator';
+import {
+  buildMispEvent,
+  buildStixBundle,
+  THREAT_EXPORT_FORMATS,
+  type ThreatExportFormat,
+} from '../tools/email-ir/threat-intel-export';
+
+type EmailIRCanvas = z.infer<typeof EmailIRCanvasSchema>;
 
 /**
  * POST /email-ir/analyze
  *
- * Payload:
+ * Payload (platform mode):
  * {
  *   "id": "email_resource_id",
  *   "accessToken": "bearer_token",
  *   "apiBaseUrl": "https://optional-custom-url.com"
  * }
+ *
+ * Payload (raw upload mode — .eml or Outlook .msg):
+ * {
+ *   "rawEmail": "<base64 file content>",
+ *   "format": "eml" | "msg",        // optional, detected when omitted
+ *   "fileName": "suspicious.msg"    // optional
+ * }
+ *
+ * Query: ?export=stix,misp adds STIX 2.1 bundle / MISP event exports to the response.
  */
 export const emailIRAnalyzeHandler = async (c: Context) => {
   const logger = getLogger('EmailIRHandler');
@@ -23,6 +43,27 @@ export const emailIRAnalyzeHandler = async (c: Context) => {
   try {
     const body = await c.req.json();
 
+    const exportFormats = parseExportFormats(c.req.query('export'));
+    if (!exportFormats) {
+      const errorInfo = errorService.validation('Invalid export format', {
+        route: '/email-ir/analyze',
+        export: c.req.query('export'),
+      });
+      logErrorInfo(logger, 'warn', 'email_ir_invalid_export_format', errorInfo);
+      return c.json(
+        {
+          success: false,
+          error: 'Invalid export format',
+          details: `Supported formats: ${THREAT_EXPORT_FORMATS.join(', ')}`,
+        },
+        400
+      );
+    }
+
+    if (body && typeof body === 'object' && 'rawEmail' in body) {
+      return await analyzeRawEmail(c, body, logger, exportFormats);
+    }
+
     // Validate Input
     const validation = fetchEmailInputSchema.safeParse(body);
     if (!validation.success) {
@@ -66,6 +107,7 @@ export const emailIRAnalyzeHandler = async (c: Context) => {
       success: true,
       report,
       runId: run.runId,
+      ...(await buildExports(exportFormats, result.steps, report as EmailIRCanvas, run.runId)),
     };
 
     const responseValidation = emailIrAnalyzeSuccessResponseSchema.safeParse(responsePayload);
@@ -90,3 +132,110 @@ export const emailIRAnalyzeHandler = async (c: Context) => {
     );
   }
 };
+
+/**
+ * Raw upload mode: parse the .eml/.msg file, then run the same analysis pipeline.
+ * Unparseable uploads return 400 (client error) instead of 500.
+ */
+async function analyzeRawEmail(
+  c: Context,
+  body: unknown,
+  logger: ReturnType<typeof getLogger>,
+  exportFormats: ThreatExportFormat[]
+) {
+  const validation = parseRawEmailInputSchema.safeParse(body);
+  if (!validation.success) {
+    const errorInfo = errorService.validation('Invalid input', {
+      route: '/email-ir/analyze',
+      mode: 'raw',
+      details: validation.error.format(),
+    });
+    logErrorInfo(logger, 'warn', 'email_ir_invalid_raw_input', errorInfo);
+    return c.json(
+      {
+        success: false,
+        error: 'Invalid input',
+        details: validation.error.format(),
+      },
+      400
+    );
+  }
+
+  const inputData = validation.data;
+  logger.info('Starting Email IR Analysis (raw upload)', {
+    format: inputData.format,
+    fileName: inputData.fileName,
+    encodedSize: inputData.rawEmail.length,
+  });
+
+  const run = await emailIRRawWorkflow.createRun();
+  const result = await run.start({ inputData });
+
+  const parseStep = result.steps['email-ir-parse-raw-step'];
+  if (parseStep && parseStep.status === 'failed') {
+    const message = parseStep.error ? String(parseStep.error) : 'Unable to parse raw email';
+    const errorInfo = errorService.validation(message, { route: '/email-ir/analyze', mode: 'raw' });
+    logErrorInfo(logger, 'warn', 'email_ir_raw_parse_failed', errorInfo);
+    return c.json({ success: false, error: 'Unable to parse raw email', details: message }, 400);
+  }
+
+  if (result.status === 'failed') {
+    throw new Error(result.error ? String(result.error) : 'Workflow execution failed');
+  }
+
+  const stepResult = result.steps['email-ir-reporting-step'];
+  const report = stepResult && stepResult.status === 'success' ? stepResult.output : null;
+  if (!report) {
+    throw new Error('Workflow completed without reporting output');
+  }
+
+  const responsePayload = {
+    success: true,
+    report,
+    runId: run.runId,
+    ...(await buildExports(exportFormats, result.steps, report as EmailIRCanvas, run.runId)),
+  };
+
+  const responseValidation = emailIrAnalyzeSuccessResponseSchema.safeParse(responsePayload);
+  if (!responseValidation.success) {
+    throw new Error('Workflow produced invalid report schema');
+  }
+
+  return c.json(responsePayload);
+}
+
+/** `?export=stix,misp` → formats; null when any value is unsupported */
+function parseExportFormats(value: string | undefined): ThreatExportFormat[] | null {
+  if (!value) return [];
+  const formats = Array.from(new Set(value.split(',').map(format => format.trim().toLowerCase())));
+  return formats.every(format => (THREAT_EXPORT_FORMATS as readonly string[]).includes(format))
+    ? (formats as ThreatExportFormat[])
+    : null;
+}
+
+/** Build threat-intel exports from the triage step output (original email + category). */
+async function buildExports(
+  formats: ThreatExportFormat[],
+  steps: Record<string, { status: string; output?: unknown }>,
+  report: EmailIRCanvas,
+  runId: string
+) {
+  if (formats.length === 0) return {};
+
+  const triageStep = steps['email-ir-triage-step'];
+  const triageOutput =
+    triageStep && triageStep.status === 'success'
+      ? (triageStep.output as z.infer<typeof analysisWithTriageSchema>)
+      : null;
+  if (!triageOutput) {
+    throw new Error('Workflow completed without triage output for export');
+  }
+
+  const input = { email: triageOutput.original_email, report, triage: triageOutput.triage_result, runId };
+  return {
+    exports: {
+      ...(formats.includes('stix') ? { stix: await buildStixBundle(input) } : {}),
+      ...(formats.includes('misp') ? { misp: buildMispEvent(input) } : {}),
+    },
+  };
+}
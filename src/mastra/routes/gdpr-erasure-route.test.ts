@@ -0,0 +1,125 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { gdprErasureHandler } from './gdpr-erasure-route';
+
+const mockExecuteErasure = vi.fn();
+const mockIsCampaignContentOwnedBy = vi.fn();
+const mockGetLatestDeletionRequest = vi.fn();
+
+vi.mock('../services/gdpr-erasure-service', () => ({
+  executeErasure: (...args: unknown[]) => mockExecuteErasure(...args),
+}));
+
+vi.mock('../services/campaign-metadata-service', () => ({
+  isCampaignContentOwnedBy: (...args: unknown[]) => mockIsCampaignContentOwnedBy(...args),
+}));
+
+vi.mock('../services/gdpr-service', () => ({
+  getLatestDeletionRequest: (...args: unknown[]) => mockGetLatestDeletionRequest(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { companyId?: string; body?: unknown } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      header: vi.fn((name: string) => (name === 'X-COMPANY-ID' ? options.companyId : undefined)),
+      json: vi.fn().mockResolvedValue(options.body),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const COMPLETED = {
+  requestId: 'req-1',
+  status: 'completed',
+  resourcesDeleted: ['kv:ml:res-1:base'],
+  pendingSteps: [],
+  resumed: false,
+  alreadyCompleted: false,
+};
+
+describe('gdprErasureHandler', () => {
+  beforeEach(() => {
+    mockExecuteErasure.mockReset().mockResolvedValue(COMPLETED);
+    mockIsCampaignContentOwnedBy.mockReset().mockResolvedValue(true);
+    mockGetLatestDeletionRequest.mockReset().mockResolvedValue(null);
+  });
+
+  it('executes the erasure for the company and returns the request state', async () => {
+    const c = createMockContext({ companyId: 'acme', body: { resourceId: 'res-1' } });
+
+    await gdprErasureHandler(c);
+
+    expect(mockExecuteErasure).toHaveBeenCalledWith(c.env, 'acme', 'res-1');
+    expect(c._json).toHaveBeenCalledWith({ success: true, ...COMPLETED }, 200);
+  });
+
+  it('returns 503 with pending steps when the erasure is incomplete', async () => {
+    mockExecuteErasure.mockResolvedValue({ ...COMPLETED, status: 'failed', pendingSteps: ['kv:ml:res-1:'] });
+    const c = createMockContext({ companyId: 'acme', body: { resourceId: 'res-1' } });
+
+    await gdprErasureHandler(c);
+
+    const [body, status] = c._json.mock.calls[0];
+    expect(status).toBe(503);
+    expect(body).toMatchObject({ success: false, requestId: 'req-1', pendingSteps: ['kv:ml:res-1:'] });
+  });
+
+  it("returns 404 for another company's resource without erasing it", async () => {
+    mockIsCampaignContentOwnedBy.mockResolvedValue(false);
+    const c = createMockContext({ companyId: 'intruder', body: { resourceId: 'res-1' } });
+
+    await gdprErasureHandler(c);
+
+    expect(mockGetLatestDeletionRequest).toHaveBeenCalledWith(c.env, 'intruder', 'res-1');
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Resource not found' }, 404);
+    expect(mockExecuteErasure).not.toHaveBeenCalled();
+  });
+
+  it("resumes the company's own request once the campaign_metadata rows are gone", async () => {
+    mockIsCampaignContentOwnedBy.mockResolvedValue(false);
+    mockGetLatestDeletionRequest.mockResolvedValue({ id: 'req-1', status: 'failed' });
+    const c = createMockContext({ companyId: 'acme', body: { resourceId: 'res-1' } });
+
+    await gdprErasureHandler(c);
+
+    expect(mockExecuteErasure).toHaveBeenCalledWith(c.env, 'acme', 'res-1');
+  });
+
+  it('returns 401 without company ID and 400 for an invalid resourceId', async () => {
+    const noCompany = createMockContext({ body: { resourceId: 'res-1' } });
+    await gdprErasureHandler(noCompany);
+    expect(noCompany._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+
+    const badId = createMockContext({ companyId: 'acme', body: { resourceId: '../x' } });
+    await gdprErasureHandler(badId);
+    expect(badId._json.mock.calls[0][1]).toBe(400);
+
+    expect(mockExecuteErasure).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * GDPR Erasure Route
+ *
+ * GDPR Art. 17 — erases a data subject's resource across KV and D1 and tracks it
+ * in data_deletion_requests. Idempotent: repeating the call resumes a failed
+ * request or returns the already-completed one.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - CompanyId from X-COMPANY-ID header scopes the deletion request and audit rows
+ *   - KV keys are not company-scoped, so the resourceId — our content ID, the ID the KV keys use —
+ *     must have been uploaded by that company (campaign_metadata.content_id + company_id) or
+ *     already have a deletion request from it — otherwise 404
+ *
+ * POST /gdpr/erasure  { resourceId }
+ *   → 200 { success, requestId, status: 'completed', resourcesDeleted, resumed, alreadyCompleted }
+ *   → 503 { success: false, error, requestId, pendingSteps } (partial — retry to resume)
+ *   → 404 { success: false, error: 'Resource not found' }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { isSafeId } from '../utils/core/id-utils';
+import { executeErasure } from '../services/gdpr-erasure-service';
+import { isCampaignContentOwnedBy } from '../services/campaign-metadata-service';
+import { getLatestDeletionRequest } from '../services/gdpr-service';
+
+const logger = getLogger('GdprErasureRoute');
+
+export async function gdprErasureHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  let resourceId: unknown;
+  try {
+    const body = await c.req.json<{ resourceId?: unknown }>();
+    resourceId = typeof body?.resourceId === 'string' ? body.resourceId.trim() : body?.resourceId;
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof resourceId !== 'string' || !isSafeId(resourceId)) {
+    return c.json(
+      { success: false, error: 'Invalid resourceId', details: 'Alphanumeric, dash or underscore (min 3)' },
+      400
+    );
+  }
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    // The campaign_metadata rows are themselves erased, so a resumed or repeated request
+    // is recognised by this company's own deletion request instead
+    const owned =
+      (await isCampaignContentOwnedBy(env, companyId, resourceId)) ||
+      (await getLatestDeletionRequest(env, companyId, resourceId)) !== null;
+    if (!owned) {
+      logger.warn('gdpr_erasure_resource_not_owned', { companyId });
+      return c.json({ success: false, error: 'Resource not found' }, 404);
+    }
+
+    const result = await executeErasure(env, companyId, resourceId);
+
+    logger.info('gdpr_erasure', {
+      companyId,
+      requestId: result.requestId,
+      status: result.status,
+      resourceCount: result.resourcesDeleted.length,
+      resumed: result.resumed,
+    });
+
+    if (result.status === 'failed') {
+      return c.json(
+        {
+          success: false,
+          error: 'Erasure incomplete',
+          message: 'Some resources could not be deleted. Retry to resume.',
+          requestId: result.requestId,
+          pendingSteps: result.pendingSteps,
+          resourcesDeleted: result.resourcesDeleted,
+        },
+        503
+      );
+    }
+
+    return c.json({ success: true, ...result }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'gdpr-erasure',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'gdpr_erasure_error', errorInfo);
+    return c.json({ success: false, error: 'Erasure failed' }, 500);
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { gdprExportHandler } from './gdpr-export-route';
+
+const mockBuildSubjectAccessExport = vi.fn();
+const mockIsCampaignContentOwnedBy = vi.fn();
+
+vi.mock('../services/gdpr-export-service', () => ({
+  buildSubjectAccessExport: (...args: unknown[]) => mockBuildSubjectAccessExport(...args),
+  summarizeSubjectAccessExport: () => 'summary text',
+}));
+
+vi.mock('../services/campaign-metadata-service', () => ({
+  isCampaignContentOwnedBy: (...args: unknown[]) => mockIsCampaignContentOwnedBy(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { companyId?: string; body?: unknown; invalidJson?: boolean } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      header: vi.fn((name: string) => (name === 'X-COMPANY-ID' ? options.companyId : undefined)),
+      json: options.invalidJson
+        ? vi.fn().mockRejectedValue(new SyntaxError('Unexpected token'))
+        : vi.fn().mockResolvedValue(options.body),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const BUNDLE = { subject: { companyId: 'acme', resourceId: 'res-1' }, counts: { kvRecords: 1 }, audited: true };
+
+describe('gdprExportHandler', () => {
+  beforeEach(() => {
+    mockBuildSubjectAccessExport.mockReset().mockResolvedValue(BUNDLE);
+    mockIsCampaignContentOwnedBy.mockReset().mockResolvedValue(true);
+  });
+
+  it('returns the export bundle with a summary', async () => {
+    const c = createMockContext({ companyId: 'acme', body: { resourceId: 'res-1' } });
+
+    await gdprExportHandler(c);
+
+    expect(mockIsCampaignContentOwnedBy).toHaveBeenCalledWith(c.env, 'acme', 'res-1');
+    expect(mockBuildSubjectAccessExport).toHaveBeenCalledWith(c.env, 'acme', 'res-1');
+    expect(c._json).toHaveBeenCalledWith({ success: true, export: BUNDLE, summary: 'summary text' }, 200);
+  });
+
+  it("returns 404 for another company's resource without exporting it", async () => {
+    mockIsCampaignContentOwnedBy.mockResolvedValue(false);
+    const c = createMockContext({ companyId: 'intruder', body: { resourceId: 'res-1' } });
+
+    await gdprExportHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Resource not found' }, 404);
+    expect(mockBuildSubjectAccessExport).not.toHaveBeenCalled();
+  });
+
+  it('returns 401 without company ID', async () => {
+    const c = createMockContext({ body: { resourceId: 'res-1' } });
+    await gdprExportHandler(c);
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+  });
+
+  it('returns 400 for invalid JSON or resourceId', async () => {
+    const badJson = createMockContext({ companyId: 'acme', invalidJson: true });
+    await gdprExportHandler(badJson);
+    expect(badJson._json.mock.calls[0][1]).toBe(400);
+
+    const badId = createMockContext({ companyId: 'acme', body: { resourceId: 'ml:*' } });
+    await gdprExportHandler(badId);
+    expect(badId._json.mock.calls[0][0].error).toBe('Invalid resourceId');
+
+    expect(mockBuildSubjectAccessExport).not.toHaveBeenCalled();
+  });
+
+  it('returns 500 when the export throws', async () => {
+    mockBuildSubjectAccessExport.mockRejectedValue(new Error('boom'));
+    const c = createMockContext({ companyId: 'acme', body: { resourceId: 'res-1' } });
+
+    await gdprExportHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Export failed' }, 500);
+  });
+});
@@ -0,0 +1,73 @@
+/**
+ * GDPR Subject Access Export Route
+ *
+ * GDPR Art. 15 — returns everything held about a data subject's resource:
+ * KV content, audit history and campaign metadata, plus a plain-text summary.
+ * The export is itself recorded as an EXPORT action in the audit hash-chain.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - CompanyId from X-COMPANY-ID header scopes the audit rows and the EXPORT record
+ *   - KV keys are not company-scoped, so the resourceId — our content ID (microlearningId /
+ *     phishingId / smishingId), the ID the KV keys use — must have been uploaded by that company
+ *     (campaign_metadata.content_id + company_id) — otherwise 404, without revealing whether it exists
+ *   - resourceId is sent in the body (not the URL) so it stays out of access logs
+ *
+ * POST /gdpr/export  { resourceId }
+ *   → { success, export: { subject, generatedAt, kvRecords, auditLog, campaignMetadata, counts, ... }, summary }
+ *   → 404 { success: false, error: 'Resource not found' }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { isSafeId } from '../utils/core/id-utils';
+import { buildSubjectAccessExport, summarizeSubjectAccessExport } from '../services/gdpr-export-service';
+import { isCampaignContentOwnedBy } from '../services/campaign-metadata-service';
+
+const logger = getLogger('GdprExportRoute');
+
+export async function gdprExportHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  let resourceId: unknown;
+  try {
+    const body = await c.req.json<{ resourceId?: unknown }>();
+    resourceId = typeof body?.resourceId === 'string' ? body.resourceId.trim() : body?.resourceId;
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+  }
+
+  if (typeof resourceId !== 'string' || !isSafeId(resourceId)) {
+    return c.json(
+      { success: false, error: 'Invalid resourceId', details: 'Alphanumeric, dash or underscore (min 3)' },
+      400
+    );
+  }
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    if (!(await isCampaignContentOwnedBy(env, companyId, resourceId))) {
+      logger.warn('gdpr_export_resource_not_owned', { companyId });
+      return c.json({ success: false, error: 'Resource not found' }, 404);
+    }
+
+    const bundle = await buildSubjectAccessExport(env, companyId, resourceId);
+
+    logger.info('gdpr_subject_export', { companyId, ...bundle.counts, audited: bundle.audited });
+
+    return c.json({ success: true, export: bundle, summary: summarizeSubjectAccessExport(bundle) }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'gdpr-export',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'gdpr_export_error', errorInfo);
+    return c.json({ success: false, error: 'Export failed' }, 500);
+  }
+}
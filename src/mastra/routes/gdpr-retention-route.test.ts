@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gdprRetentionSweepHandler } from './gdpr-retention-route';
+
+const mockRunRetentionSweep = vi.fn();
+
+vi.mock('../services/gdpr-retention-service', () => ({
+  runRetentionSweep: (...args: unknown[]) => mockRunRetentionSweep(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+const INTERNAL_SECRET = 'cron-secret-value';
+
+function createMockContext(secret: string | undefined = INTERNAL_SECRET) {
+  const jsonFn = vi.fn((body: unknown, status: number) => ({ body, status }));
+  return {
+    req: {
+      path: '/gdpr/retention/sweep',
+      header: vi.fn((name: string) => (name === 'X-INTERNAL-SECRET' ? secret : undefined)),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+describe('gdprRetentionSweepHandler', () => {
+  beforeEach(() => {
+    mockRunRetentionSweep.mockReset();
+    process.env.INTERNAL_CRON_SECRET = INTERNAL_SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.INTERNAL_CRON_SECRET;
+  });
+
+  it('rejects callers without the internal secret, whatever token they hold', async () => {
+    const c = createMockContext('tenant-token');
+
+    await gdprRetentionSweepHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Unauthorized' }, 401);
+    expect(mockRunRetentionSweep).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 when INTERNAL_CRON_SECRET is not configured', async () => {
+    delete process.env.INTERNAL_CRON_SECRET;
+    const c = createMockContext();
+
+    await gdprRetentionSweepHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Internal endpoint is not configured' }, 503);
+    expect(mockRunRetentionSweep).not.toHaveBeenCalled();
+  });
+
+  it('runs the sweep against the worker env', async () => {
+    const result = {
+      startedAt: 'now',
+      categories: [{ category: 'AUDIT_LOGS', cutoff: '2024-06-30', status: 'purged', purged: 3 }],
+    };
+    mockRunRetentionSweep.mockResolvedValue(result);
+    const c = createMockContext();
+
+    await gdprRetentionSweepHandler(c);
+
+    expect(mockRunRetentionSweep).toHaveBeenCalledWith(c.env);
+    expect(c._json).toHaveBeenCalledWith({ success: true, ...result }, 200);
+  });
+
+  it('returns 500 when the sweep throws', async () => {
+    mockRunRetentionSweep.mockRejectedValue(new Error('boom'));
+    const c = createMockContext();
+
+    await gdprRetentionSweepHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Retention sweep failed' }, 500);
+  });
+});
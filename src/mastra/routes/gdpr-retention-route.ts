@@ -0,0 +1,47 @@
+/**
+ * GDPR Retention Sweep Route
+ *
+ * Purges data past GDPR.RETENTION_DAYS per category and records each purge in the
+ * audit chain (see gdpr-retention-service).
+ *
+ * Security:
+ *   - Purges across all companies, so a tenant token is not accepted: the scheduler
+ *     sends X-INTERNAL-SECRET (INTERNAL_CRON_SECRET), see internal-route-guard
+ *
+ * POST /gdpr/retention/sweep
+ *   → { success, startedAt, categories: [{ category, cutoff, status, purged, reason? }] }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { runRetentionSweep } from '../services/gdpr-retention-service';
+import { rejectUnlessInternalCaller } from './internal-route-guard';
+
+const logger = getLogger('GdprRetentionRoute');
+
+export async function gdprRetentionSweepHandler(c: Context) {
+  const rejected = rejectUnlessInternalCaller(c);
+  if (rejected) return rejected;
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    const result = await runRetentionSweep(env);
+
+    logger.info('gdpr_retention_swept', {
+      purged: result.categories.reduce((sum, category) => sum + category.purged, 0),
+      failed: result.categories.filter(category => category.status === 'failed').map(category => category.category),
+    });
+
+    return c.json({ success: true, ...result }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'gdpr-retention-sweep',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'gdpr_retention_sweep_error', errorInfo);
+    return c.json({ success: false, error: 'Retention sweep failed' }, 500);
+  }
+}
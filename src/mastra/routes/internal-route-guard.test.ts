@@ -0,0 +1,54 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { rejectUnlessInternalCaller } from './internal-route-guard';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createMockContext(headers: Record<string, string> = {}) {
+  return {
+    req: { path: '/internal', header: vi.fn((name: string) => headers[name]) },
+    json: vi.fn((body: unknown, status: number) => ({ body, status })),
+  } as any;
+}
+
+describe('rejectUnlessInternalCaller', () => {
+  beforeEach(() => {
+    process.env.INTERNAL_CRON_SECRET = 'cron-secret-value';
+  });
+
+  afterEach(() => {
+    delete process.env.INTERNAL_CRON_SECRET;
+  });
+
+  it('lets the scheduler through with the matching secret', () => {
+    expect(rejectUnlessInternalCaller(createMockContext({ 'X-INTERNAL-SECRET': 'cron-secret-value' }))).toBeNull();
+  });
+
+  it('rejects a missing or different secret with 401', () => {
+    expect(rejectUnlessInternalCaller(createMockContext())).toEqual({
+      body: { success: false, error: 'Unauthorized' },
+      status: 401,
+    });
+    expect(rejectUnlessInternalCaller(createMockContext({ 'X-INTERNAL-SECRET': 'cron-secret-valuf' }))).toMatchObject({
+      status: 401,
+    });
+  });
+
+  it('does not treat a tenant token as the secret', () => {
+    expect(
+      rejectUnlessInternalCaller(createMockContext({ 'X-AGENTIC-ALLY-TOKEN': 'cron-secret-value' }))
+    ).toMatchObject({ status: 401 });
+  });
+
+  it('returns 503 when no secret is configured', () => {
+    delete process.env.INTERNAL_CRON_SECRET;
+
+    expect(rejectUnlessInternalCaller(createMockContext({ 'X-INTERNAL-SECRET': '' }))).toMatchObject({ status: 503 });
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * Internal Route Guard
+ *
+ * Cron / system endpoints (INTERNAL_SECRET_ENDPOINTS) skip the tenant token check and
+ * require the shared scheduler secret instead: X-INTERNAL-SECRET must equal
+ * INTERNAL_CRON_SECRET. Without the secret configured the endpoints are disabled.
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { timingSafeEqual } from '../utils/core/hash-utils';
+
+const logger = getLogger('InternalRouteGuard');
+
+export const INTERNAL_SECRET_HEADER = 'X-INTERNAL-SECRET';
+
+/** Returns the error response to send, or null when the caller holds the internal secret. */
+export function rejectUnlessInternalCaller(c: Context): Response | null {
+  const secret = process.env.INTERNAL_CRON_SECRET;
+  if (!secret) {
+    logger.warn('internal_secret_not_configured', { path: c.req.path });
+    return c.json({ success: false, error: 'Internal endpoint is not configured' }, 503);
+  }
+
+  const provided = c.req.header(INTERNAL_SECRET_HEADER);
+  if (!provided || !timingSafeEqual(provided, secret)) {
+    logger.warn('internal_secret_rejected', { path: c.req.path, hasHeader: Boolean(provided) });
+    return c.json({ success: false, error: 'Unauthorized' }, 401);
+  }
+
+  return null;
+}
@@ -0,0 +1,119 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { llmCostHandler } from './llm-cost-route';
+
+const mockGetLlmSpend = vi.fn();
+const mockCheckLlmBudget = vi.fn();
+
+vi.mock('../services/llm-cost-service', () => ({
+  getLlmSpend: (...args: unknown[]) => mockGetLlmSpend(...args),
+  checkLlmBudget: (...args: unknown[]) => mockCheckLlmBudget(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { companyId?: string; query?: Record<string, string> } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      header: vi.fn((name: string) => (name === 'X-COMPANY-ID' ? options.companyId : undefined)),
+      query: vi.fn((name: string) => options.query?.[name]),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const BUDGET = { companyId: 'acme', month: '2025-03', state: 'ok', spentUsd: 1.75, budgetUsd: 100 };
+
+describe('llmCostHandler', () => {
+  beforeEach(() => {
+    mockGetLlmSpend.mockReset();
+    mockCheckLlmBudget.mockReset().mockResolvedValue(BUDGET);
+  });
+
+  it('returns spend for the period with budget state', async () => {
+    const spend = { from: '2025-03-01', to: '2025-03-31', groupBy: 'workflow', totalUsd: 1.75, rows: [] };
+    mockGetLlmSpend.mockResolvedValue(spend);
+    const c = createMockContext({
+      companyId: 'acme',
+      query: { from: '2025-03-01', to: '2025-03-31', groupBy: 'workflow' },
+    });
+
+    await llmCostHandler(c);
+
+    expect(mockGetLlmSpend).toHaveBeenCalledWith(c.env, 'acme', {
+      from: '2025-03-01',
+      to: '2025-03-31',
+      groupBy: 'workflow',
+    });
+    expect(c._json).toHaveBeenCalledWith({ success: true, ...spend, budget: BUDGET }, 200);
+  });
+
+  it('defaults to month-to-date grouped by operation', async () => {
+    mockGetLlmSpend.mockResolvedValue({ rows: [] });
+    const c = createMockContext({ companyId: 'acme' });
+
+    await llmCostHandler(c);
+
+    const today = new Date().toISOString().slice(0, 10);
+    expect(mockGetLlmSpend).toHaveBeenCalledWith(c.env, 'acme', {
+      from: `${today.slice(0, 7)}-01`,
+      to: today,
+      groupBy: 'operation',
+    });
+  });
+
+  it('returns 401 without company ID', async () => {
+    const c = createMockContext();
+    await llmCostHandler(c);
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+  });
+
+  it('returns 400 for invalid period or groupBy', async () => {
+    const badPeriod = createMockContext({ companyId: 'acme', query: { from: '2025-04-01', to: '2025-03-01' } });
+    await llmCostHandler(badPeriod);
+    expect(badPeriod._json.mock.calls[0][1]).toBe(400);
+
+    const tooLong = createMockContext({ companyId: 'acme', query: { from: '2023-01-01', to: '2025-03-01' } });
+    await llmCostHandler(tooLong);
+    expect(tooLong._json.mock.calls[0][1]).toBe(400);
+
+    const badGroup = createMockContext({ companyId: 'acme', query: { groupBy: 'user' } });
+    await llmCostHandler(badGroup);
+    expect(badGroup._json.mock.calls[0][0].error).toBe('Invalid groupBy');
+
+    expect(mockGetLlmSpend).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 when the ledger is unavailable', async () => {
+    mockGetLlmSpend.mockResolvedValue(null);
+    const c = createMockContext({ companyId: 'acme' });
+
+    await llmCostHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Cost ledger unavailable' }, 503);
+  });
+});
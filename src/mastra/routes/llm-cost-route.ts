@@ -0,0 +1,80 @@
+/**
+ * LLM Cost Route
+ *
+ * Per-company LLM spend from the D1 ledger, plus the current monthly budget state.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - CompanyId from X-COMPANY-ID header scopes the query
+ *
+ * GET /llm-costs?from=YYYY-MM-DD&to=YYYY-MM-DD&groupBy=operation|agent|workflow|model|day
+ *   → { success, from, to, groupBy, totalUsd, rows, budget }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { checkLlmBudget, getLlmSpend } from '../services/llm-cost-service';
+import { LLM_COST, type LlmCostGroupBy } from '../constants';
+
+const logger = getLogger('LlmCostRoute');
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+function isValidDay(value: string): boolean {
+  return DAY_PATTERN.test(value) && !Number.isNaN(Date.parse(`${value}T00:00:00Z`));
+}
+
+export async function llmCostHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const today = new Date().toISOString().slice(0, 10);
+  const from = c.req.query('from') || `${today.slice(0, 7)}-01`;
+  const to = c.req.query('to') || today;
+  const groupBy = (c.req.query('groupBy') || 'operation') as LlmCostGroupBy;
+
+  if (!isValidDay(from) || !isValidDay(to) || from > to) {
+    return c.json(
+      { success: false, error: 'Invalid period', details: 'Use from/to as YYYY-MM-DD with from <= to' },
+      400
+    );
+  }
+  if ((Date.parse(to) - Date.parse(from)) / MS_PER_DAY >= LLM_COST.MAX_QUERY_DAYS) {
+    return c.json({ success: false, error: 'Invalid period', details: `Maximum ${LLM_COST.MAX_QUERY_DAYS} days` }, 400);
+  }
+  if (!LLM_COST.GROUP_BY.includes(groupBy)) {
+    return c.json(
+      { success: false, error: 'Invalid groupBy', details: `Supported: ${LLM_COST.GROUP_BY.join(', ')}` },
+      400
+    );
+  }
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    const [spend, budget] = await Promise.all([
+      getLlmSpend(env, companyId, { from, to, groupBy }),
+      checkLlmBudget(env, companyId),
+    ]);
+
+    if (!spend) {
+      return c.json({ success: false, error: 'Cost ledger unavailable' }, 503);
+    }
+
+    logger.info('llm_costs_queried', { companyId, from, to, groupBy, rows: spend.rows.length });
+
+    return c.json({ success: true, ...spend, budget }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'llm-costs',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'llm_costs_error', errorInfo);
+    return c.json({ success: false, error: 'Cost query failed' }, 500);
+  }
+}
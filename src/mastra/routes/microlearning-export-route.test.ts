@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { microlearningExportHandler } from './microlearning-export-route';
+
+const mockKvGet = vi.fn();
+const mockBuildPackage = vi.fn();
+
+vi.mock('../services', () => ({
+  KVService: class {
+    get = mockKvGet;
+  },
+}));
+
+vi.mock('../services/microlearning-export', async importOriginal => ({
+  ...(await importOriginal<typeof import('../services/microlearning-export')>()),
+  buildMicrolearningPackage: (...args: unknown[]) => mockBuildPackage(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { microlearningId?: string; query?: Record<string, string> } = {}) {
+  const jsonFn = vi.fn((body: unknown, status?: number) => ({ body, status }));
+  return {
+    req: {
+      param: vi.fn((name: string) => (name === 'microlearningId' ? options.microlearningId : undefined)),
+      query: vi.fn((name: string) => options.query?.[name]),
+    },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const base = {
+  microlearning_id: 'ml-1',
+  microlearning_metadata: { title: 'Phishing', language: 'en-GB' },
+  scenes: [{ scene_id: '1', metadata: { scene_type: 'intro' } }],
+};
+const languageContent = { '1': { title: 'Welcome' } };
+
+const builtPackage = {
+  format: 'scorm12',
+  contentType: 'application/zip',
+  filename: 'phishing-en-gb-scorm12.zip',
+  bytes: new Uint8Array([0x50, 0x4b, 0x03, 0x04]),
+};
+
+describe('microlearningExportHandler', () => {
+  beforeEach(() => {
+    mockKvGet.mockReset();
+    mockBuildPackage.mockReset();
+    mockKvGet.mockImplementation(async (key: string) =>
+      key === 'ml:ml-1:base' ? base : key === 'ml:ml-1:lang:en-gb' ? languageContent : null
+    );
+    mockBuildPackage.mockReturnValue(builtPackage);
+  });
+
+  it('downloads a SCORM 1.2 package in the source language by default', async () => {
+    const c = createMockContext({ microlearningId: 'ml-1' });
+
+    const res = (await microlearningExportHandler(c)) as Response;
+
+    expect(mockBuildPackage).toHaveBeenCalledWith({ base, language: 'en-gb', languageContent }, 'scorm12');
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/zip');
+    expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="phishing-en-gb-scorm12.zip"');
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(builtPackage.bytes);
+  });
+
+  it('exports the requested format and language', async () => {
+    mockKvGet.mockImplementation(async (key: string) => (key.endsWith(':base') ? base : languageContent));
+    const c = createMockContext({ microlearningId: 'ml-1', query: { format: 'XAPI', language: 'tr-TR' } });
+
+    await microlearningExportHandler(c);
+
+    expect(mockKvGet).toHaveBeenCalledWith('ml:ml-1:lang:tr-tr');
+    expect(mockBuildPackage).toHaveBeenCalledWith(expect.objectContaining({ language: 'tr-tr' }), 'xapi');
+  });
+
+  it('rejects unsafe IDs, unknown formats and malformed languages', async () => {
+    const badId = createMockContext({ microlearningId: '../secrets' });
+    await microlearningExportHandler(badId);
+    expect(badId.json).toHaveBeenCalledWith({ success: false, error: 'Invalid microlearningId' }, 400);
+
+    const badFormat = createMockContext({ microlearningId: 'ml-1', query: { format: 'aicc' } });
+    await microlearningExportHandler(badFormat);
+    expect(badFormat.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), 400);
+
+    const badLanguage = createMockContext({ microlearningId: 'ml-1', query: { language: 'en:base' } });
+    await microlearningExportHandler(badLanguage);
+    expect(badLanguage.json).toHaveBeenCalledWith({ success: false, error: 'Invalid language' }, 400);
+    expect(mockKvGet).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the microlearning or language is missing', async () => {
+    const missing = createMockContext({ microlearningId: 'ml-2' });
+    await microlearningExportHandler(missing);
+    expect(missing.json).toHaveBeenCalledWith(
+      { success: false, error: 'Microlearning not found', microlearningId: 'ml-2' },
+      404
+    );
+
+    const missingLanguage = createMockContext({ microlearningId: 'ml-1', query: { language: 'de' } });
+    await microlearningExportHandler(missingLanguage);
+    expect(missingLanguage.json).toHaveBeenCalledWith(
+      { success: false, error: 'Language de not found', microlearningId: 'ml-1' },
+      404
+    );
+  });
+
+  it('returns 500 when the package cannot be built', async () => {
+    mockBuildPackage.mockImplementation(() => {
+      throw new Error('Scene 8 has no content in en-gb');
+    });
+    const c = createMockContext({ microlearningId: 'ml-1' });
+
+    await microlearningExportHandler(c);
+
+    expect(c.json).toHaveBeenCalledWith({ success: false, error: 'Failed to export microlearning' }, 500);
+  });
+});
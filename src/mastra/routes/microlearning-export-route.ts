@@ -0,0 +1,86 @@
+/**
+ * Microlearning Export Route
+ *
+ * Downloads a stored microlearning (ml:{id}:base + ml:{id}:lang:{lang}) as an LMS package —
+ * SCORM 1.2, SCORM 2004 or xAPI (cmi5) zip — so customers running their own LMS (Moodle,
+ * Cornerstone, SuccessFactors, ...) can host the training. Built in-process by
+ * services/microlearning-export.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - microlearningId must be a safe ID (no KV key separators)
+ *
+ * GET /microlearning/:microlearningId/export?format=scorm12|scorm2004|xapi&language=en-gb
+ *   → 200 zip bytes (Content-Disposition: attachment)
+ *   language defaults to the microlearning's source language.
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { isSafeId } from '../utils/core/id-utils';
+import { errorService } from '../services/error-service';
+import { KVService } from '../services';
+import { MICROLEARNING_EXPORT } from '../constants';
+import {
+  buildMicrolearningPackage,
+  isMicrolearningExportFormat,
+  type MicrolearningExportInput,
+} from '../services/microlearning-export';
+
+const logger = getLogger('MicrolearningExportRoute');
+
+const LANGUAGE_CODE = /^[a-z]{2,3}(-[a-z0-9]{2,8})*$/;
+
+export async function microlearningExportHandler(c: Context) {
+  const microlearningId = c.req.param('microlearningId')?.trim();
+  if (!microlearningId || !isSafeId(microlearningId)) {
+    return c.json({ success: false, error: 'Invalid microlearningId' }, 400);
+  }
+
+  const format = (c.req.query('format') ?? 'scorm12').trim().toLowerCase();
+  if (!isMicrolearningExportFormat(format)) {
+    return c.json(
+      { success: false, error: `Invalid format. Supported: ${MICROLEARNING_EXPORT.FORMATS.join(', ')}` },
+      400
+    );
+  }
+
+  const languageParam = c.req.query('language')?.trim().toLowerCase();
+  if (languageParam !== undefined && !LANGUAGE_CODE.test(languageParam)) {
+    return c.json({ success: false, error: 'Invalid language' }, 400);
+  }
+
+  try {
+    const kvService = new KVService();
+    const base = await kvService.get<MicrolearningExportInput['base']>(`ml:${microlearningId}:base`);
+    if (!base || !Array.isArray(base.scenes)) {
+      return c.json({ success: false, error: 'Microlearning not found', microlearningId }, 404);
+    }
+
+    const sourceLanguage = (base.microlearning_metadata as { language?: string } | undefined)?.language;
+    const language = languageParam ?? (sourceLanguage || 'en').toLowerCase();
+    const languageContent = await kvService.get<Record<string, unknown>>(`ml:${microlearningId}:lang:${language}`);
+    if (!languageContent) {
+      return c.json({ success: false, error: `Language ${language} not found`, microlearningId }, 404);
+    }
+
+    const file = buildMicrolearningPackage({ base, language, languageContent }, format);
+    logger.info('microlearning_exported', { microlearningId, language, format, bytes: file.bytes.length });
+
+    return new Response(file.bytes as Uint8Array<ArrayBuffer>, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Content-Length': String(file.bytes.length),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'microlearning-export', stack: err.stack });
+    logErrorInfo(logger, 'error', 'microlearning_export_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to export microlearning' }, 500);
+  }
+}
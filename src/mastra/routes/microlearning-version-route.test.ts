@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  microlearningVersionDiffHandler,
+  microlearningVersionListHandler,
+  microlearningVersionRollbackHandler,
+} from './microlearning-version-route';
+
+const mocks = vi.hoisted(() => ({
+  listVersions: vi.fn(),
+  diffVersions: vi.fn(),
+  rollback: vi.fn(),
+}));
+
+vi.mock('../services/microlearning-version-service', () => ({
+  MicrolearningVersionService: vi.fn().mockImplementation(function () {
+    return {
+      listVersions: mocks.listVersions,
+      diffVersions: mocks.diffVersions,
+      rollback: mocks.rollback,
+    };
+  }),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { params?: Record<string, string>; query?: Record<string, string> } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      param: vi.fn((name: string) => options.params?.[name]),
+      query: vi.fn((name: string) => options.query?.[name]),
+      header: vi.fn(() => undefined),
+    },
+    env: {},
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+describe('microlearning version routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('microlearningVersionListHandler', () => {
+    it('returns the version list', async () => {
+      mocks.listVersions.mockResolvedValue({ microlearningId: 'ml-1', currentVersion: 2, versions: [] });
+      const c = createMockContext({ params: { microlearningId: 'ml-1' } });
+
+      await microlearningVersionListHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith(
+        { success: true, microlearningId: 'ml-1', currentVersion: 2, versions: [] },
+        200
+      );
+    });
+
+    it('rejects unsafe ids and returns 404 for unknown microlearnings', async () => {
+      const bad = createMockContext({ params: { microlearningId: 'ml:1:base' } });
+      await microlearningVersionListHandler(bad);
+      expect(bad._json).toHaveBeenCalledWith({ success: false, error: 'Invalid microlearningId' }, 400);
+
+      mocks.listVersions.mockResolvedValue(null);
+      const missing = createMockContext({ params: { microlearningId: 'ml-2' } });
+      await microlearningVersionListHandler(missing);
+      expect(missing._json).toHaveBeenCalledWith({ success: false, error: 'Microlearning not found' }, 404);
+    });
+
+    it('returns 500 when the service throws', async () => {
+      mocks.listVersions.mockRejectedValue(new Error('KV down'));
+      const c = createMockContext({ params: { microlearningId: 'ml-1' } });
+
+      await microlearningVersionListHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Failed to list microlearning versions' }, 500);
+    });
+  });
+
+  describe('microlearningVersionDiffHandler', () => {
+    it('diffs from a version to the current content when `to` is omitted', async () => {
+      mocks.diffVersions.mockResolvedValue({ from: 1, to: 3, totalChanges: 2 });
+      const c = createMockContext({ params: { microlearningId: 'ml-1' }, query: { from: '1' } });
+
+      await microlearningVersionDiffHandler(c);
+
+      expect(mocks.diffVersions).toHaveBeenCalledWith('ml-1', 1, undefined);
+      expect(c._json).toHaveBeenCalledWith({ success: true, diff: { from: 1, to: 3, totalChanges: 2 } }, 200);
+    });
+
+    it('validates version query params', async () => {
+      const c = createMockContext({ params: { microlearningId: 'ml-1' }, query: { from: '1', to: 'latest' } });
+
+      await microlearningVersionDiffHandler(c);
+
+      expect(mocks.diffVersions).not.toHaveBeenCalled();
+      expect(c._json.mock.calls[0][1]).toBe(400);
+    });
+
+    it('returns 404 when a snapshot is missing', async () => {
+      mocks.diffVersions.mockResolvedValue(null);
+      const c = createMockContext({ params: { microlearningId: 'ml-1' }, query: { from: '1', to: '2' } });
+
+      await microlearningVersionDiffHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Version snapshot not found' }, 404);
+    });
+  });
+
+  describe('microlearningVersionRollbackHandler', () => {
+    it('rolls back to the requested version', async () => {
+      mocks.rollback.mockResolvedValue({ status: 'rolled_back', version: 4, restoredFrom: 2 });
+      const c = createMockContext({ params: { microlearningId: 'ml-1', version: '2' } });
+
+      await microlearningVersionRollbackHandler(c);
+
+      expect(mocks.rollback).toHaveBeenCalledWith('ml-1', 2);
+      expect(c._json).toHaveBeenCalledWith({ success: true, version: 4, restoredFrom: 2 }, 200);
+    });
+
+    it('maps not_found to 404 and failed to 409', async () => {
+      mocks.rollback.mockResolvedValueOnce({ status: 'not_found' });
+      const missing = createMockContext({ params: { microlearningId: 'ml-1', version: '9' } });
+      await microlearningVersionRollbackHandler(missing);
+      expect(missing._json.mock.calls[0][1]).toBe(404);
+
+      mocks.rollback.mockResolvedValueOnce({
+        status: 'failed',
+        error: 'Failed to write base content; rollback reverted',
+      });
+      const failed = createMockContext({ params: { microlearningId: 'ml-1', version: '1' } });
+      await microlearningVersionRollbackHandler(failed);
+      expect(failed._json).toHaveBeenCalledWith(
+        { success: false, error: 'Failed to write base content; rollback reverted' },
+        409
+      );
+    });
+
+    it('rejects an invalid version', async () => {
+      const c = createMockContext({ params: { microlearningId: 'ml-1', version: '0' } });
+
+      await microlearningVersionRollbackHandler(c);
+
+      expect(mocks.rollback).not.toHaveBeenCalled();
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Invalid version' }, 400);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+/**
+ * Microlearning Version Routes
+ *
+ * Version history, structured diff and rollback for a microlearning, backed by the full
+ * per-version snapshots in KV (ml:{id}:snapshot:{version}) — see
+ * services/microlearning-version-service.ts.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - microlearningId must be a safe ID (no KV key separators)
+ *
+ * GET  /microlearning/:microlearningId/versions                       → { success, microlearningId, currentVersion, versions }
+ * GET  /microlearning/:microlearningId/versions/diff?from=1&to=3      → { success, diff } (omit `to` to compare with the current content)
+ * POST /microlearning/:microlearningId/versions/:version/rollback     → { success, version, restoredFrom }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { isSafeId } from '../utils/core/id-utils';
+import { errorService } from '../services/error-service';
+import { MicrolearningVersionService } from '../services/microlearning-version-service';
+
+const logger = getLogger('MicrolearningVersionRoute');
+
+function getMicrolearningId(c: Context): string | null {
+  const microlearningId = c.req.param('microlearningId')?.trim();
+  return microlearningId && isSafeId(microlearningId) ? microlearningId : null;
+}
+
+function parseVersion(value: string | undefined): number | null {
+  if (!value || !/^\d+$/.test(value)) return null;
+  const version = Number(value);
+  return version > 0 ? version : null;
+}
+
+export async function microlearningVersionListHandler(c: Context) {
+  const microlearningId = getMicrolearningId(c);
+  if (!microlearningId) {
+    return c.json({ success: false, error: 'Invalid microlearningId' }, 400);
+  }
+
+  try {
+    const list = await new MicrolearningVersionService().listVersions(microlearningId);
+    if (!list) {
+      return c.json({ success: false, error: 'Microlearning not found' }, 404);
+    }
+    return c.json({ success: true, ...list }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'microlearning-version-list', stack: err.stack });
+    logErrorInfo(logger, 'error', 'microlearning_version_list_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to list microlearning versions' }, 500);
+  }
+}
+
+export async function microlearningVersionDiffHandler(c: Context) {
+  const microlearningId = getMicrolearningId(c);
+  if (!microlearningId) {
+    return c.json({ success: false, error: 'Invalid microlearningId' }, 400);
+  }
+
+  const from = parseVersion(c.req.query('from'));
+  const toParam = c.req.query('to');
+  const to = toParam === undefined ? undefined : parseVersion(toParam);
+  if (!from || to === null) {
+    return c.json({ success: false, error: 'from (and optional to) must be positive version numbers' }, 400);
+  }
+
+  try {
+    const diff = await new MicrolearningVersionService().diffVersions(microlearningId, from, to);
+    if (!diff) {
+      return c.json({ success: false, error: 'Version snapshot not found' }, 404);
+    }
+    return c.json({ success: true, diff }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'microlearning-version-diff', stack: err.stack });
+    logErrorInfo(logger, 'error', 'microlearning_version_diff_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to diff microlearning versions' }, 500);
+  }
+}
+
+export async function microlearningVersionRollbackHandler(c: Context) {
+  const microlearningId = getMicrolearningId(c);
+  if (!microlearningId) {
+    return c.json({ success: false, error: 'Invalid microlearningId' }, 400);
+  }
+
+  const version = parseVersion(c.req.param('version'));
+  if (!version) {
+    return c.json({ success: false, error: 'Invalid version' }, 400);
+  }
+
+  try {
+    const result = await new MicrolearningVersionService().rollback(microlearningId, version);
+    if (result.status === 'not_found') {
+      return c.json({ success: false, error: 'Version snapshot not found' }, 404);
+    }
+    if (result.status === 'failed') {
+      return c.json({ success: false, error: result.error }, 409);
+    }
+    return c.json({ success: true, version: result.version, restoredFrom: result.restoredFrom }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'microlearning-version-rollback', stack: err.stack });
+    logErrorInfo(logger, 'error', 'microlearning_version_rollback_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to roll back microlearning' }, 500);
+  }
+}
@@ -3,6 +3,7 @@ import { errorService } from '../services/error-service';
 import { getLogger } from '../utils/core/logger';
 import { logErrorInfo, normalizeError } from '../utils/core/error-utils';
 import { trackAgentCost, resolveOpenAIEndUserId } from '../utils/core/tracked-generate';
+import { assertLlmBudget } from '../services/llm-cost-service';
 import type { Agent } from '@mastra/core/agent';
 import { withRetry, withTimeout } from '../utils/core/resilience-utils';
 import {
@@ -263,6 +264,8 @@ async function handleEmailTemplate(
   const rewriterMessage = `type="email_template"\n\n${cleanedHtml}`;
   const classifierMessage = `type="email_template"\n\nAvailable domains:\n${domainListStr}\n\n${cleanedHtml}`;
 
+  await assertLlmBudget('phishing-fixer-email');
+
   // Run Rewriter and Classifier in parallel — each with its own retry/timeout
   const endUserOpts = (() => { const id = resolveOpenAIEndUserId(); return id ? { providerOptions: { openai: { user: id } } } : {}; })();
   const [rewriterData, classifierData] = await withTimeout(
@@ -456,6 +459,7 @@ async function handleLandingPage(
     : '';
   const userMessage = `type="landing_page"\n\nAvailable domains:\n${domainList.join(', ')}\n\n${truncatedHtml}${truncationNote}`;
 
+  await assertLlmBudget('phishing-fixer-landing-classifier');
   const data = await withTimeout(
     withRetry<LandingPageClassifierOutput>(async () => {
       const lpEndUserOpts = (() => { const id = resolveOpenAIEndUserId(); return id ? { providerOptions: { openai: { user: id } } } : {}; })();
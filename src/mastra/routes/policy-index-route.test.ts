@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { policyIndexRefreshHandler } from './policy-index-route';
+
+const mockSyncPolicyIndex = vi.fn();
+const mockClearPolicyCache = vi.fn();
+
+vi.mock('../services/policy-rag', () => ({
+  syncPolicyIndex: (...args: unknown[]) => mockSyncPolicyIndex(...args),
+}));
+
+vi.mock('../utils/core/policy-cache', () => ({
+  clearPolicyCache: (...args: unknown[]) => mockClearPolicyCache(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { companyId?: string } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      header: vi.fn((name: string) => (name === 'X-COMPANY-ID' ? options.companyId : undefined)),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const SUMMARY = { added: 1, updated: 0, removed: 0, unchanged: 2, unreadable: 0, chunks: 14, embedded: true };
+
+describe('policyIndexRefreshHandler', () => {
+  beforeEach(() => {
+    mockSyncPolicyIndex.mockReset();
+    mockClearPolicyCache.mockReset();
+  });
+
+  it('syncs the company index and clears its policy digest', async () => {
+    mockSyncPolicyIndex.mockResolvedValue(SUMMARY);
+    const c = createMockContext({ companyId: 'acme' });
+
+    await policyIndexRefreshHandler(c);
+
+    expect(mockClearPolicyCache).toHaveBeenCalledWith('acme');
+    expect(mockSyncPolicyIndex).toHaveBeenCalledWith(c.env, 'acme');
+    expect(c._json).toHaveBeenCalledWith({ success: true, ...SUMMARY }, 200);
+  });
+
+  it('requires a company', async () => {
+    const c = createMockContext();
+
+    await policyIndexRefreshHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+    expect(mockSyncPolicyIndex).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 when the index is unavailable', async () => {
+    mockSyncPolicyIndex.mockResolvedValue(null);
+    const c = createMockContext({ companyId: 'acme' });
+
+    await policyIndexRefreshHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Policy index unavailable' }, 503);
+  });
+
+  it('returns 500 when the sync throws', async () => {
+    mockSyncPolicyIndex.mockRejectedValue(new Error('boom'));
+    const c = createMockContext({ companyId: 'acme' });
+
+    await policyIndexRefreshHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Policy index refresh failed' }, 500);
+  });
+});
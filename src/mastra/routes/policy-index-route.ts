@@ -0,0 +1,50 @@
+/**
+ * Policy Index Route
+ *
+ * Re-syncs the company's policy index (chunks + embeddings in D1) with its current policy
+ * files. Call it after uploading, editing or deleting a policy; otherwise the index is
+ * refreshed on the first policy question after POLICY_RAG.REFRESH_INTERVAL_MS. Also drops
+ * the company's cached policy digest so the fallback summary reflects the change.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - CompanyId from X-COMPANY-ID header scopes the sync
+ *
+ * POST /policies/index/refresh
+ *   → { success, added, updated, removed, unchanged, unreadable, chunks, embedded }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { clearPolicyCache } from '../utils/core/policy-cache';
+import { errorService } from '../services/error-service';
+import { syncPolicyIndex } from '../services/policy-rag';
+
+const logger = getLogger('PolicyIndexRoute');
+
+export async function policyIndexRefreshHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  try {
+    clearPolicyCache(companyId);
+    const summary = await syncPolicyIndex(c.env as Record<string, unknown> | undefined, companyId);
+    if (!summary) {
+      return c.json({ success: false, error: 'Policy index unavailable' }, 503);
+    }
+
+    logger.info('policy_index_refreshed', { companyId, ...summary });
+    return c.json({ success: true, ...summary }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'policy-index-refresh',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'policy_index_refresh_error', errorInfo);
+    return c.json({ success: false, error: 'Policy index refresh failed' }, 500);
+  }
+}
@@ -50,6 +50,7 @@ function createMockContext(requestBody: unknown) {
     req: {
       json: vi.fn().mockResolvedValue(requestBody),
       header: vi.fn().mockReturnValue(undefined),
+      query: vi.fn().mockReturnValue(undefined),
     },
     json: jsonMock,
     _getJsonCall: () => jsonMock.mock.calls[0] as [unknown, number | undefined],
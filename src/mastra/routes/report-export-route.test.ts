@@ -0,0 +1,153 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { reportExportHandler } from './report-export-route';
+
+const mockKvGet = vi.fn();
+const mockLoadLatestReport = vi.fn();
+const mockRenderReportFile = vi.fn();
+
+vi.mock('../services', () => ({
+  KVService: class {
+    get = mockKvGet;
+  },
+}));
+
+vi.mock('../tools/reporting/report-section-utils', () => ({
+  loadLatestReport: (...args: unknown[]) => mockLoadLatestReport(...args),
+}));
+
+vi.mock('../services/report-export', async importOriginal => ({
+  ...(await importOriginal<typeof import('../services/report-export')>()),
+  renderReportFile: (...args: unknown[]) => mockRenderReportFile(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { reportId?: string; query?: Record<string, string> } = {}) {
+  const jsonFn = vi.fn((body: unknown, status?: number) => ({ body, status }));
+  return {
+    req: {
+      param: vi.fn((name: string) => (name === 'reportId' ? options.reportId : undefined)),
+      query: vi.fn((name: string) => options.query?.[name]),
+    },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const reportState = (version: number) => ({
+  reportId: 'rpt_abc123',
+  version,
+  pageTarget: 3,
+  editHistory: [],
+  report: {
+    meta: {
+      title: 'Q3 Results',
+      author: 'Agent',
+      generatedAt: '2026-01-01T00:00:00.000Z',
+      language: 'en',
+      pageTarget: 3,
+    },
+    sections: [{ type: 'cover', id: 'cover', title: 'Q3 Results', weight: 1, date: '2026-01-01' }],
+  },
+});
+
+const renderedFile = {
+  format: 'pdf',
+  contentType: 'application/pdf',
+  filename: 'q3-results-v3.pdf',
+  bytes: new Uint8Array([0x25, 0x50, 0x44, 0x46]),
+};
+
+describe('reportExportHandler', () => {
+  beforeEach(() => {
+    mockKvGet.mockReset();
+    mockLoadLatestReport.mockReset();
+    mockRenderReportFile.mockReset();
+    mockRenderReportFile.mockReturnValue(renderedFile);
+  });
+
+  it('streams the latest version as a PDF attachment by default', async () => {
+    mockLoadLatestReport.mockResolvedValue(reportState(3));
+    const c = createMockContext({ reportId: 'rpt_abc123' });
+
+    const res = (await reportExportHandler(c)) as Response;
+
+    expect(mockLoadLatestReport).toHaveBeenCalledWith(expect.anything(), 'rpt_abc123');
+    expect(mockRenderReportFile).toHaveBeenCalledWith(reportState(3).report, 'pdf', 3);
+    expect(res.status).toBe(200);
+    expect(res.headers.get('Content-Type')).toBe('application/pdf');
+    expect(res.headers.get('Content-Disposition')).toBe('attachment; filename="q3-results-v3.pdf"');
+    expect(new Uint8Array(await res.arrayBuffer())).toEqual(renderedFile.bytes);
+  });
+
+  it('loads a specific version when requested', async () => {
+    mockKvGet.mockResolvedValue(reportState(2));
+    const c = createMockContext({ reportId: 'rpt_abc123', query: { format: 'DOCX', version: '2' } });
+
+    await reportExportHandler(c);
+
+    expect(mockKvGet).toHaveBeenCalledWith('report:rpt_abc123:v2');
+    expect(mockLoadLatestReport).not.toHaveBeenCalled();
+    expect(mockRenderReportFile).toHaveBeenCalledWith(reportState(2).report, 'docx', 2);
+  });
+
+  it('rejects unsafe report IDs', async () => {
+    const c = createMockContext({ reportId: '../secrets' });
+    await reportExportHandler(c);
+    expect(c.json).toHaveBeenCalledWith({ success: false, error: 'Invalid reportId' }, 400);
+  });
+
+  it('rejects unsupported formats and out-of-range versions', async () => {
+    const badFormat = createMockContext({ reportId: 'rpt_abc123', query: { format: 'xlsx' } });
+    await reportExportHandler(badFormat);
+    expect(badFormat.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), 400);
+
+    const badVersion = createMockContext({ reportId: 'rpt_abc123', query: { version: '21' } });
+    await reportExportHandler(badVersion);
+    expect(badVersion.json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), 400);
+    expect(mockKvGet).not.toHaveBeenCalled();
+  });
+
+  it('returns 404 when the report or version is missing', async () => {
+    mockKvGet.mockResolvedValue({ not: 'a report' });
+    const c = createMockContext({ reportId: 'rpt_abc123', query: { version: '4' } });
+
+    await reportExportHandler(c);
+
+    expect(c.json).toHaveBeenCalledWith({ success: false, error: 'Report not found', reportId: 'rpt_abc123' }, 404);
+  });
+
+  it('returns a generic 500 when rendering fails', async () => {
+    mockLoadLatestReport.mockResolvedValue(reportState(1));
+    mockRenderReportFile.mockImplementation(() => {
+      throw new Error('boom');
+    });
+    const c = createMockContext({ reportId: 'rpt_abc123', query: { format: 'pptx' } });
+
+    await reportExportHandler(c);
+
+    expect(c.json).toHaveBeenCalledWith({ success: false, error: 'Failed to export report' }, 500);
+  });
+});
@@ -0,0 +1,83 @@
+/**
+ * Report Export Route
+ *
+ * Downloads a stored report (validate-and-store-report-tool → KV report:{reportId}:v{n})
+ * as PDF, DOCX or PPTX so it can be emailed to executives without the frontend.
+ * Rendering is done in-process by services/report-export — no browser involved.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - reportId must be a safe ID (no key traversal into other KV entries)
+ *
+ * GET /reports/:reportId/export?format=pdf|docx|pptx&version=N
+ *   → 200 file bytes (Content-Type per format, Content-Disposition: attachment)
+ *   version defaults to the latest stored version.
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { KVService } from '../services';
+import { KV_NAMESPACES, REPORT_EXPORT } from '../constants';
+import { isSafeId } from '../utils/core/id-utils';
+import { ReportStateSchema, type ReportState } from '../schemas/report-schema';
+import { loadLatestReport } from '../tools/reporting/report-section-utils';
+import { isReportExportFormat, renderReportFile } from '../services/report-export';
+
+const logger = getLogger('ReportExportRoute');
+
+async function loadReport(reportId: string, version: number | undefined): Promise<ReportState | null> {
+  const kvService = new KVService(KV_NAMESPACES.MICROLEARNING);
+  if (version === undefined) return loadLatestReport(kvService, reportId);
+
+  const stored = await kvService.get(`report:${reportId}:v${version}`);
+  const parsed = ReportStateSchema.safeParse(stored);
+  return parsed.success ? parsed.data : null;
+}
+
+export async function reportExportHandler(c: Context) {
+  const reportId = c.req.param('reportId')?.trim();
+  if (!reportId || !isSafeId(reportId)) {
+    return c.json({ success: false, error: 'Invalid reportId' }, 400);
+  }
+
+  const format = (c.req.query('format') ?? 'pdf').trim().toLowerCase();
+  if (!isReportExportFormat(format)) {
+    return c.json({ success: false, error: `Invalid format. Supported: ${REPORT_EXPORT.FORMATS.join(', ')}` }, 400);
+  }
+
+  const versionParam = c.req.query('version');
+  const version = versionParam === undefined ? undefined : Number(versionParam);
+  if (version !== undefined && (!Number.isInteger(version) || version < 1 || version > REPORT_EXPORT.MAX_VERSION)) {
+    return c.json(
+      { success: false, error: `version must be an integer between 1 and ${REPORT_EXPORT.MAX_VERSION}` },
+      400
+    );
+  }
+
+  try {
+    const state = await loadReport(reportId, version);
+    if (!state) {
+      return c.json({ success: false, error: 'Report not found', reportId }, 404);
+    }
+
+    const file = renderReportFile(state.report, format, state.version);
+    logger.info('report_exported', { reportId, version: state.version, format, bytes: file.bytes.length });
+
+    return new Response(file.bytes as Uint8Array<ArrayBuffer>, {
+      status: 200,
+      headers: {
+        'Content-Type': file.contentType,
+        'Content-Disposition': `attachment; filename="${file.filename}"`,
+        'Content-Length': String(file.bytes.length),
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-export', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_export_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to export report' }, 500);
+  }
+}
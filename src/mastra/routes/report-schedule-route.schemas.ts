@@ -0,0 +1,43 @@
+import { z } from 'zod';
+import { REPORT_DATA, REPORT_EXPORT, REPORT_SCHEDULES } from '../constants';
+import { ReportOutlineSchema } from '../schemas/report-schema';
+import { isAllowedWebhookUrl } from '../services/report-schedule';
+
+const deliverySchema = z.discriminatedUnion('channel', [
+  z.object({
+    channel: z.literal('webhook'),
+    url: z.string().trim().max(2048).refine(isAllowedWebhookUrl, 'Webhook URL must be a public https URL'),
+    format: z.enum(REPORT_EXPORT.FORMATS).default('pdf'),
+  }),
+  z.object({
+    channel: z.literal('email'),
+    recipients: z.array(z.string().trim().email()).min(1).max(REPORT_SCHEDULES.MAX_EMAIL_RECIPIENTS),
+    format: z.enum(REPORT_EXPORT.FORMATS).default('pdf'),
+  }),
+]);
+
+/** POST /reports/schedules — create a recurring report, or replace one when id is given */
+export const reportScheduleRequestSchema = z.object({
+  id: z
+    .string()
+    .trim()
+    .regex(/^rsch_[A-Za-z0-9-]+$/, 'id must be a report schedule ID')
+    .optional(),
+  name: z.string().trim().min(1).max(200),
+  cadence: z.enum(REPORT_SCHEDULES.CADENCES),
+  template: z.object({
+    topic: z.string().trim().min(1).max(500),
+    pageTarget: z.number().int().min(1).max(30).default(5),
+    language: z.string().trim().min(2).max(35).default('en'),
+    sources: z
+      .array(z.enum(REPORT_DATA.SOURCES))
+      .min(1)
+      .default([...REPORT_DATA.SOURCES]),
+  }),
+  /** Optional saved outline (generateReportOutline output) reused every run */
+  outline: ReportOutlineSchema.nullable().optional(),
+  delivery: deliverySchema,
+  enabled: z.boolean().default(true),
+});
+
+export type ReportScheduleRequest = z.infer<typeof reportScheduleRequestSchema>;
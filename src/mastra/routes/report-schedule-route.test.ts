@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+const mockListReportSchedules = vi.fn();
+const mockSaveReportSchedule = vi.fn();
+const mockDeleteReportSchedule = vi.fn();
+const mockGetReportSchedule = vi.fn();
+const mockListReportScheduleRuns = vi.fn();
+const mockRunReportSchedule = vi.fn();
+const mockRunDueReportSchedules = vi.fn();
+
+vi.mock(import('../services/report-schedule'), async importOriginal => ({
+  ...(await importOriginal()),
+  listReportSchedules: (...args: unknown[]) => mockListReportSchedules(...args),
+  saveReportSchedule: (...args: unknown[]) => mockSaveReportSchedule(...args),
+  deleteReportSchedule: (...args: unknown[]) => mockDeleteReportSchedule(...args),
+  getReportSchedule: (...args: unknown[]) => mockGetReportSchedule(...args),
+  listReportScheduleRuns: (...args: unknown[]) => mockListReportScheduleRuns(...args),
+  runReportSchedule: (...args: unknown[]) => mockRunReportSchedule(...args),
+  runDueReportSchedules: (...args: unknown[]) => mockRunDueReportSchedules(...args),
+}));
+
+const getRequestContextMock = vi.fn();
+vi.mock(import('../utils/core/request-storage'), async importOriginal => ({
+  ...(await importOriginal()),
+  getRequestContext: () => getRequestContextMock(),
+}));
+
+const {
+  reportScheduleDeleteHandler,
+  reportScheduleListHandler,
+  reportScheduleRunNowHandler,
+  reportScheduleRunsHandler,
+  reportScheduleSweepHandler,
+  reportScheduleUpsertHandler,
+} = await import('./report-schedule-route');
+
+function createMockContext(
+  options: { companyId?: string; body?: unknown; scheduleId?: string; internalSecret?: string } = {}
+) {
+  const jsonFn = vi.fn((body: unknown, status: number) => ({ body, status }));
+  const headers: Record<string, string | undefined> = {
+    'X-COMPANY-ID': options.companyId,
+    'X-INTERNAL-SECRET': options.internalSecret,
+  };
+  return {
+    req: {
+      path: '/reports/schedules/run',
+      header: vi.fn((name: string) => headers[name]),
+      param: vi.fn((name: string) => (name === 'scheduleId' ? options.scheduleId : undefined)),
+      json: vi.fn(async () => {
+        if (options.body === undefined) throw new SyntaxError('Unexpected end of JSON input');
+        return options.body;
+      }),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const schedule = {
+  id: 'rsch_1',
+  companyId: 'acme',
+  name: 'Monthly CISO report',
+  cadence: 'monthly',
+  template: { topic: 'Awareness results', pageTarget: 5, language: 'en', sources: ['phishing'] },
+  outline: null,
+  delivery: { channel: 'email', recipients: ['ciso@acme.test'], format: 'pdf' },
+  enabled: true,
+  nextRunAt: '2026-11-01T00:00:00.000Z',
+  lastRunAt: null,
+  createdAt: '2026-10-19 08:00:00',
+  updatedAt: '2026-10-19 08:00:00',
+};
+
+const body = {
+  name: 'Monthly CISO report',
+  cadence: 'monthly',
+  template: { topic: 'Awareness results' },
+  delivery: { channel: 'email', recipients: ['ciso@acme.test'] },
+};
+
+describe('report schedule routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getRequestContextMock.mockReturnValue({ token: 'token', baseApiUrl: 'https://api.test' });
+  });
+
+  describe('reportScheduleListHandler', () => {
+    it('lists the company schedules, 401 without company and 503 without D1', async () => {
+      mockListReportSchedules.mockResolvedValueOnce([schedule]);
+      const c = createMockContext({ companyId: 'acme' });
+      await reportScheduleListHandler(c);
+      expect(mockListReportSchedules).toHaveBeenCalledWith(c.env, 'acme');
+      expect(c._json).toHaveBeenCalledWith({ success: true, schedules: [schedule] }, 200);
+
+      const noCompany = createMockContext();
+      await reportScheduleListHandler(noCompany);
+      expect(noCompany._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+
+      mockListReportSchedules.mockResolvedValueOnce(null);
+      const unavailable = createMockContext({ companyId: 'acme' });
+      await reportScheduleListHandler(unavailable);
+      expect(unavailable._json).toHaveBeenCalledWith({ success: false, error: 'Report schedules unavailable' }, 503);
+    });
+  });
+
+  describe('reportScheduleUpsertHandler', () => {
+    it('saves the schedule for the header company with defaults applied', async () => {
+      mockSaveReportSchedule.mockResolvedValueOnce({ status: 'saved', schedule });
+      const c = createMockContext({ companyId: 'acme', body: { ...body, companyId: 'other' } });
+
+      await reportScheduleUpsertHandler(c);
+
+      expect(mockSaveReportSchedule).toHaveBeenCalledWith(
+        c.env,
+        expect.objectContaining({
+          companyId: 'acme',
+          enabled: true,
+          template: {
+            topic: 'Awareness results',
+            pageTarget: 5,
+            language: 'en',
+            sources: ['phishing', 'smishing', 'training'],
+          },
+          delivery: { channel: 'email', recipients: ['ciso@acme.test'], format: 'pdf' },
+        })
+      );
+      expect(c._json).toHaveBeenCalledWith({ success: true, schedule }, 200);
+    });
+
+    it('rejects private webhook targets, bad cadences and invalid JSON', async () => {
+      const privateHook = createMockContext({
+        companyId: 'acme',
+        body: { ...body, delivery: { channel: 'webhook', url: 'https://127.0.0.1/hook' } },
+      });
+      await reportScheduleUpsertHandler(privateHook);
+      expect(privateHook._json.mock.calls[0][0].error).toBe('Invalid request format');
+      expect(privateHook._json.mock.calls[0][1]).toBe(400);
+
+      const badCadence = createMockContext({ companyId: 'acme', body: { ...body, cadence: 'daily' } });
+      await reportScheduleUpsertHandler(badCadence);
+      expect(badCadence._json.mock.calls[0][1]).toBe(400);
+
+      const invalidJson = createMockContext({ companyId: 'acme' });
+      await reportScheduleUpsertHandler(invalidJson);
+      expect(invalidJson._json).toHaveBeenCalledWith({ success: false, error: 'Invalid JSON body' }, 400);
+
+      expect(mockSaveReportSchedule).not.toHaveBeenCalled();
+    });
+
+    it('maps not_found, limit_reached and D1 errors', async () => {
+      mockSaveReportSchedule.mockResolvedValueOnce({ status: 'not_found' });
+      const notFound = createMockContext({ companyId: 'acme', body: { ...body, id: 'rsch_x' } });
+      await reportScheduleUpsertHandler(notFound);
+      expect(notFound._json).toHaveBeenCalledWith({ success: false, error: 'Report schedule not found' }, 404);
+
+      mockSaveReportSchedule.mockResolvedValueOnce({ status: 'limit_reached' });
+      const limit = createMockContext({ companyId: 'acme', body });
+      await reportScheduleUpsertHandler(limit);
+      expect(limit._json.mock.calls[0][1]).toBe(409);
+
+      mockSaveReportSchedule.mockRejectedValueOnce(new Error('boom'));
+      const failing = createMockContext({ companyId: 'acme', body });
+      await reportScheduleUpsertHandler(failing);
+      expect(failing._json).toHaveBeenCalledWith({ success: false, error: 'Failed to save report schedule' }, 500);
+    });
+  });
+
+  describe('reportScheduleDeleteHandler / reportScheduleRunsHandler', () => {
+    it('validates the schedule ID', async () => {
+      const c = createMockContext({ companyId: 'acme', scheduleId: '../report:rpt_1' });
+      await reportScheduleDeleteHandler(c);
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Invalid scheduleId' }, 400);
+      expect(mockDeleteReportSchedule).not.toHaveBeenCalled();
+    });
+
+    it('deletes and lists runs scoped to the company', async () => {
+      mockDeleteReportSchedule.mockResolvedValueOnce(false);
+      const missing = createMockContext({ companyId: 'acme', scheduleId: 'rsch_1' });
+      await reportScheduleDeleteHandler(missing);
+      expect(mockDeleteReportSchedule).toHaveBeenCalledWith(missing.env, 'acme', 'rsch_1');
+      expect(missing._json).toHaveBeenCalledWith({ success: false, error: 'Report schedule not found' }, 404);
+
+      mockListReportScheduleRuns.mockResolvedValueOnce([]);
+      const runs = createMockContext({ companyId: 'acme', scheduleId: 'rsch_1' });
+      await reportScheduleRunsHandler(runs);
+      expect(runs._json).toHaveBeenCalledWith({ success: true, runs: [] }, 200);
+    });
+  });
+
+  describe('reportScheduleRunNowHandler', () => {
+    it('runs the schedule with the caller token', async () => {
+      mockGetReportSchedule.mockResolvedValueOnce(schedule);
+      mockRunReportSchedule.mockResolvedValueOnce({ runId: 'rrun_1', status: 'delivered' });
+      const c = createMockContext({ companyId: 'acme', scheduleId: 'rsch_1' });
+
+      await reportScheduleRunNowHandler(c);
+
+      expect(mockRunReportSchedule).toHaveBeenCalledWith(schedule, {
+        env: c.env,
+        token: 'token',
+        baseApiUrl: 'https://api.test',
+        initiatedBy: 'user',
+      });
+      expect(c._json).toHaveBeenCalledWith({ success: true, run: { runId: 'rrun_1', status: 'delivered' } }, 200);
+    });
+
+    it('returns 404 for unknown schedules', async () => {
+      mockGetReportSchedule.mockResolvedValueOnce(false);
+      const c = createMockContext({ companyId: 'acme', scheduleId: 'rsch_1' });
+      await reportScheduleRunNowHandler(c);
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Report schedule not found' }, 404);
+      expect(mockRunReportSchedule).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('reportScheduleSweepHandler', () => {
+    beforeEach(() => {
+      process.env.INTERNAL_CRON_SECRET = 'cron-secret-value';
+    });
+
+    afterEach(() => {
+      delete process.env.INTERNAL_CRON_SECRET;
+    });
+
+    it('runs due schedules without passing on the caller token', async () => {
+      const result = { startedAt: '2026-10-01T00:00:00.000Z', runs: [] };
+      mockRunDueReportSchedules.mockResolvedValueOnce(result);
+      const c = createMockContext({ internalSecret: 'cron-secret-value' });
+
+      await reportScheduleSweepHandler(c);
+
+      expect(mockRunDueReportSchedules).toHaveBeenCalledWith({ env: c.env });
+      expect(c._json).toHaveBeenCalledWith({ success: true, ...result }, 200);
+    });
+
+    it('rejects tenant callers without the internal secret', async () => {
+      const c = createMockContext({ companyId: 'acme' });
+
+      await reportScheduleSweepHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Unauthorized' }, 401);
+      expect(mockRunDueReportSchedules).not.toHaveBeenCalled();
+    });
+
+    it('returns 503 without D1', async () => {
+      mockRunDueReportSchedules.mockResolvedValueOnce(null);
+      const unavailable = createMockContext({ internalSecret: 'cron-secret-value' });
+      await reportScheduleSweepHandler(unavailable);
+      expect(unavailable._json).toHaveBeenCalledWith({ success: false, error: 'Report schedules unavailable' }, 503);
+    });
+  });
+});
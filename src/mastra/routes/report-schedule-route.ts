@@ -0,0 +1,246 @@
+/**
+ * Report Schedule Routes
+ *
+ * Recurring reports per company (monthly CISO awareness report, quarterly board summary).
+ * Each run regenerates the report from the saved template / outline against the last full
+ * period's platform data, keeps it for REPORT_SCHEDULES.HISTORY_TTL_SECONDS and delivers it
+ * by webhook or email — see services/report-schedule.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN (run-now fetches platform data with it)
+ *   - CompanyId from X-COMPANY-ID header scopes the schedule endpoints
+ *   - POST /reports/schedules/run is the cron sweep across all companies: no tenant token,
+ *     requires X-INTERNAL-SECRET (internal-route-guard.ts); each schedule runs with its own
+ *     company's service credential (REPORT_SCHEDULE_CREDENTIALS_BY_COMPANY)
+ *
+ * GET    /reports/schedules                     → { success, schedules }
+ * POST   /reports/schedules                     { id?, name, cadence, template, outline?, delivery, enabled? }
+ *                                               → { success, schedule }
+ * DELETE /reports/schedules/:scheduleId         → { success, scheduleId } (run history is kept)
+ * GET    /reports/schedules/:scheduleId/runs    → { success, runs } (most recent first)
+ * POST   /reports/schedules/:scheduleId/run     → { success, run } (run now; next_run_at unchanged)
+ * POST   /reports/schedules/run                 → { success, startedAt, runs } (all due schedules)
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { getRequestContext } from '../utils/core/request-storage';
+import { errorService } from '../services/error-service';
+import {
+  deleteReportSchedule,
+  getReportSchedule,
+  listReportSchedules,
+  listReportScheduleRuns,
+  runDueReportSchedules,
+  runReportSchedule,
+  saveReportSchedule,
+  type ReportRunContext,
+} from '../services/report-schedule';
+import { API_ENDPOINTS } from '../constants';
+import { reportScheduleRequestSchema } from './report-schedule-route.schemas';
+import { rejectUnlessInternalCaller } from './internal-route-guard';
+
+const logger = getLogger('ReportScheduleRoute');
+
+const SCHEDULE_ID_PATTERN = /^rsch_[A-Za-z0-9-]+$/;
+
+function getScheduleId(c: Context): string | null {
+  const scheduleId = c.req.param('scheduleId')?.trim();
+  return scheduleId && scheduleId.length <= 64 && SCHEDULE_ID_PATTERN.test(scheduleId) ? scheduleId : null;
+}
+
+/** Run now acts with the requesting user's token */
+function getRunContext(c: Context): ReportRunContext | null {
+  const { token, baseApiUrl } = getRequestContext();
+  if (!token) return null;
+  return {
+    env: c.env as Record<string, unknown> | undefined,
+    token,
+    baseApiUrl: baseApiUrl || API_ENDPOINTS.DEFAULT_BASE_API_URL,
+    initiatedBy: 'user',
+  };
+}
+
+export async function reportScheduleListHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  try {
+    const schedules = await listReportSchedules(c.env as Record<string, unknown> | undefined, companyId);
+    if (!schedules) {
+      return c.json({ success: false, error: 'Report schedules unavailable' }, 503);
+    }
+    return c.json({ success: true, schedules }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-schedule-list', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_schedule_list_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to list report schedules' }, 500);
+  }
+}
+
+export async function reportScheduleUpsertHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json<unknown>();
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+  }
+
+  const parsed = reportScheduleRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ success: false, error: 'Invalid request format', details: parsed.error.format() }, 400);
+  }
+
+  try {
+    const result = await saveReportSchedule(c.env as Record<string, unknown> | undefined, {
+      ...parsed.data,
+      companyId,
+    });
+    if (!result) {
+      return c.json({ success: false, error: 'Report schedules unavailable' }, 503);
+    }
+    if (result.status === 'not_found') {
+      return c.json({ success: false, error: 'Report schedule not found' }, 404);
+    }
+    if (result.status === 'limit_reached') {
+      return c.json({ success: false, error: 'Report schedule limit reached for this company' }, 409);
+    }
+
+    logger.info('report_schedule_saved', {
+      companyId,
+      scheduleId: result.schedule.id,
+      cadence: result.schedule.cadence,
+      channel: result.schedule.delivery.channel,
+      enabled: result.schedule.enabled,
+    });
+    return c.json({ success: true, schedule: result.schedule }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-schedule-upsert', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_schedule_upsert_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to save report schedule' }, 500);
+  }
+}
+
+export async function reportScheduleDeleteHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const scheduleId = getScheduleId(c);
+  if (!scheduleId) {
+    return c.json({ success: false, error: 'Invalid scheduleId' }, 400);
+  }
+
+  try {
+    const deleted = await deleteReportSchedule(c.env as Record<string, unknown> | undefined, companyId, scheduleId);
+    if (deleted === null) {
+      return c.json({ success: false, error: 'Report schedules unavailable' }, 503);
+    }
+    if (!deleted) {
+      return c.json({ success: false, error: 'Report schedule not found' }, 404);
+    }
+
+    logger.info('report_schedule_deleted', { companyId, scheduleId });
+    return c.json({ success: true, scheduleId }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-schedule-delete', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_schedule_delete_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to delete report schedule' }, 500);
+  }
+}
+
+export async function reportScheduleRunsHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const scheduleId = getScheduleId(c);
+  if (!scheduleId) {
+    return c.json({ success: false, error: 'Invalid scheduleId' }, 400);
+  }
+
+  try {
+    const runs = await listReportScheduleRuns(c.env as Record<string, unknown> | undefined, companyId, scheduleId);
+    if (!runs) {
+      return c.json({ success: false, error: 'Report schedules unavailable' }, 503);
+    }
+    return c.json({ success: true, runs }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-schedule-runs', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_schedule_runs_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to list report schedule runs' }, 500);
+  }
+}
+
+export async function reportScheduleRunNowHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const scheduleId = getScheduleId(c);
+  if (!scheduleId) {
+    return c.json({ success: false, error: 'Invalid scheduleId' }, 400);
+  }
+
+  const context = getRunContext(c);
+  if (!context) {
+    return c.json({ success: false, error: 'Token required' }, 401);
+  }
+
+  try {
+    const schedule = await getReportSchedule(context.env, companyId, scheduleId);
+    if (schedule === null) {
+      return c.json({ success: false, error: 'Report schedules unavailable' }, 503);
+    }
+    if (!schedule) {
+      return c.json({ success: false, error: 'Report schedule not found' }, 404);
+    }
+
+    const run = await runReportSchedule(schedule, context);
+    return c.json({ success: run.status !== 'failed', run }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-schedule-run-now', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_schedule_run_now_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to run report schedule' }, 500);
+  }
+}
+
+export async function reportScheduleSweepHandler(c: Context) {
+  const rejected = rejectUnlessInternalCaller(c);
+  if (rejected) return rejected;
+
+  try {
+    const result = await runDueReportSchedules({ env: c.env as Record<string, unknown> | undefined });
+    if (!result) {
+      return c.json({ success: false, error: 'Report schedules unavailable' }, 503);
+    }
+
+    logger.info('report_schedules_swept', {
+      runs: result.runs.length,
+      failed: result.runs.filter(run => run.status === 'failed').map(run => run.scheduleId),
+      undelivered: result.runs.filter(run => run.status === 'generated').map(run => run.scheduleId),
+    });
+    return c.json({ success: true, ...result }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, { step: 'report-schedule-sweep', stack: err.stack });
+    logErrorInfo(logger, 'error', 'report_schedule_sweep_error', errorInfo);
+    return c.json({ success: false, error: 'Report schedule run failed' }, 500);
+  }
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod';
+
+/** POST /smishing/channels/:channel/sessions — start a scenario for one platform user */
+export const smishingChannelSessionRequestSchema = z.object({
+  /** Platform user ID: Slack user ID, Teams Entra object ID, WhatsApp phone (wa_id), Telegram user ID */
+  senderId: z
+    .string()
+    .trim()
+    .min(1)
+    .max(128)
+    .regex(/^[A-Za-z0-9:+_.-]+$/, 'senderId contains unsupported characters'),
+  microlearningId: z.string().trim().min(1).max(2048),
+  language: z.string().trim().min(2).max(35),
+});
+
+export type SmishingChannelSessionRequest = z.infer<typeof smishingChannelSessionRequestSchema>;
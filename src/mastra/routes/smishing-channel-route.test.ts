@@ -0,0 +1,334 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  processChannelMessage,
+  smishingChannelSessionHandler,
+  smishingChannelVerifyHandler,
+  smishingChannelWebhookHandler,
+} from './smishing-channel-route';
+import { TelegramChannelAdapter } from '../services/smishing-channels';
+
+const mockRunSmishingChatTurn = vi.fn();
+
+vi.mock('./smishing-chat-route', () => ({
+  runSmishingChatTurn: (...args: unknown[]) => mockRunSmishingChatTurn(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/** D1 mock keeping smishing_channel_sessions rows keyed by channel + sender */
+function createMockDb() {
+  const rows = new Map<string, Record<string, unknown>>();
+  const prepare = vi.fn().mockImplementation((sql: string) => {
+    let values: unknown[] = [];
+    const statement = {
+      bind: vi.fn((...args: unknown[]) => {
+        values = args;
+        return statement;
+      }),
+      first: vi.fn(async () => rows.get(`${values[0]}:${values[1]}`) ?? null),
+      run: vi.fn(async () => {
+        const [
+          channel,
+          sender,
+          company_id,
+          microlearning_id,
+          language,
+          messages,
+          reply_target,
+          is_finished,
+          session_id,
+        ] = values;
+        if (sql.includes('INSERT')) {
+          rows.set(`${channel}:${sender}`, {
+            company_id,
+            microlearning_id,
+            language,
+            messages,
+            reply_target,
+            is_finished,
+            session_id,
+          });
+        }
+        return { success: true };
+      }),
+    };
+    return statement;
+  });
+  return { prepare, rows };
+}
+
+function createMockContext(options: {
+  channel: string;
+  body?: unknown;
+  rawBody?: string;
+  headers?: Record<string, string>;
+  query?: Record<string, string>;
+  env?: Record<string, unknown>;
+}) {
+  const jsonFn = vi.fn();
+  const textFn = vi.fn();
+  return {
+    env: options.env ?? {},
+    req: {
+      param: vi.fn(() => options.channel),
+      header: vi.fn((name: string) => options.headers?.[name]),
+      query: vi.fn((name: string) => options.query?.[name]),
+      json: vi.fn(async () => {
+        if (options.body === undefined) throw new SyntaxError('Unexpected end of JSON input');
+        return options.body;
+      }),
+      text: vi.fn(async () => options.rawBody ?? ''),
+    },
+    json: jsonFn,
+    text: textFn,
+    _json: jsonFn,
+    _text: textFn,
+  } as any;
+}
+
+const telegramUpdate = (text: string) =>
+  JSON.stringify({ message: { from: { id: 777 }, chat: { id: 777, type: 'private' }, text } });
+
+describe('smishing channel routes', () => {
+  let db: ReturnType<typeof createMockDb>;
+
+  beforeEach(() => {
+    db = createMockDb();
+    mockRunSmishingChatTurn.mockReset();
+    process.env.TELEGRAM_WEBHOOK_SECRET = 'tg-secret';
+    delete process.env.TELEGRAM_BOT_TOKEN;
+  });
+
+  afterEach(() => {
+    delete process.env.TELEGRAM_WEBHOOK_SECRET;
+    delete process.env.WHATSAPP_VERIFY_TOKEN;
+  });
+
+  describe('smishingChannelSessionHandler', () => {
+    it('requires a company and a supported channel', async () => {
+      const noCompany = createMockContext({ channel: 'telegram', body: {} });
+      await smishingChannelSessionHandler(noCompany);
+      expect(noCompany._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+
+      const sms = createMockContext({ channel: 'sms', body: {}, headers: { 'X-COMPANY-ID': 'acme' } });
+      await smishingChannelSessionHandler(sms);
+      expect(sms._json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Unsupported channel' }), 404);
+    });
+
+    it('stores the session and returns the first message in the platform format', async () => {
+      mockRunSmishingChatTurn.mockResolvedValue({
+        status: 200,
+        response: {
+          success: true,
+          microlearningId: 'ml-1',
+          language: 'en-gb',
+          prompt: 'p',
+          firstMessage: 'Your parcel is on hold',
+          isFinished: false,
+        },
+      });
+      const c = createMockContext({
+        channel: 'telegram',
+        body: { senderId: '777', microlearningId: 'ml-1', language: 'en-GB' },
+        headers: { 'X-COMPANY-ID': 'acme' },
+        env: { agentic_ally_memory: db },
+      });
+
+      await smishingChannelSessionHandler(c);
+
+      const [request, , tracking] = mockRunSmishingChatTurn.mock.calls[0];
+      expect(request).toMatchObject({ microlearningId: 'ml-1', language: 'en-GB', userId: 'telegram:777' });
+      expect(tracking).toMatchObject({ companyId: 'acme', channel: 'telegram' });
+      expect(c._json).toHaveBeenCalledWith(
+        expect.objectContaining({
+          success: true,
+          channel: 'telegram',
+          firstMessage: 'Your parcel is on hold',
+          delivered: false,
+          outbound: { method: 'sendMessage', chat_id: '777', text: 'Your parcel is on hold' },
+        }),
+        200
+      );
+      expect(db.rows.get('telegram:777')).toMatchObject({
+        company_id: 'acme',
+        language: 'en-gb',
+        is_finished: 0,
+        session_id: request.sessionId,
+      });
+    });
+
+    it('passes chat loop errors through', async () => {
+      mockRunSmishingChatTurn.mockResolvedValue({
+        status: 404,
+        response: { success: false, error: 'Language content not found' },
+      });
+      const c = createMockContext({
+        channel: 'slack',
+        body: { senderId: 'U1', microlearningId: 'ml-1', language: 'de' },
+        headers: { 'X-COMPANY-ID': 'acme' },
+        env: { agentic_ally_memory: db },
+      });
+
+      await smishingChannelSessionHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Language content not found' }, 404);
+      expect(db.rows.size).toBe(0);
+    });
+  });
+
+  describe('processChannelMessage', () => {
+    const adapter = new TelegramChannelAdapter({ webhookSecret: 's', botToken: '' });
+    const inbound = { senderId: '777', text: 'what parcel?', replyTarget: { chatId: 777 } };
+
+    function seedSession(messages: unknown[], isFinished = false) {
+      db.rows.set('telegram:777', {
+        company_id: 'acme',
+        microlearning_id: 'ml-1',
+        language: 'en-gb',
+        messages: JSON.stringify(messages),
+        reply_target: '{}',
+        is_finished: isFinished ? 1 : 0,
+        session_id: 'session-777',
+      });
+    }
+
+    it('feeds the history to the chat loop and stores the reply', async () => {
+      seedSession([{ role: 'assistant', content: 'Your parcel is on hold' }]);
+      mockRunSmishingChatTurn.mockResolvedValue({
+        status: 200,
+        response: {
+          success: true,
+          microlearningId: 'ml-1',
+          language: 'en-gb',
+          reply: 'Pay 1.99 here',
+          isFinished: false,
+        },
+      });
+
+      const delivery = await processChannelMessage({ agentic_ally_memory: db }, adapter, inbound);
+
+      expect(mockRunSmishingChatTurn).toHaveBeenCalledWith(
+        {
+          microlearningId: 'ml-1',
+          language: 'en-gb',
+          messages: [
+            { role: 'assistant', content: 'Your parcel is on hold' },
+            { role: 'user', content: 'what parcel?' },
+          ],
+          sessionId: 'session-777',
+          userId: 'telegram:777',
+        },
+        expect.any(Number),
+        expect.objectContaining({ companyId: 'acme', channel: 'telegram' })
+      );
+      expect(delivery?.webhookResponse).toEqual({ method: 'sendMessage', chat_id: 777, text: 'Pay 1.99 here' });
+      expect(JSON.parse(String(db.rows.get('telegram:777')?.messages))).toHaveLength(3);
+    });
+
+    it('caps the history at the chat loop limit', async () => {
+      seedSession(Array.from({ length: 30 }, (_, i) => ({ role: i % 2 ? 'user' : 'assistant', content: `m${i}` })));
+      mockRunSmishingChatTurn.mockResolvedValue({
+        status: 200,
+        response: { success: true, microlearningId: 'ml-1', language: 'en-gb', reply: 'r', isFinished: true },
+      });
+
+      await processChannelMessage({ agentic_ally_memory: db }, adapter, inbound);
+
+      expect(mockRunSmishingChatTurn.mock.calls[0][0].messages).toHaveLength(30);
+      expect(db.rows.get('telegram:777')?.is_finished).toBe(1);
+    });
+
+    it('ignores senders without an active session', async () => {
+      seedSession([], true);
+
+      expect(await processChannelMessage({ agentic_ally_memory: db }, adapter, inbound)).toBeNull();
+      expect(
+        await processChannelMessage({ agentic_ally_memory: db }, adapter, { ...inbound, senderId: '888' })
+      ).toBeNull();
+      expect(mockRunSmishingChatTurn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('smishingChannelWebhookHandler', () => {
+    it('returns 503 when the channel is not configured', async () => {
+      delete process.env.TELEGRAM_WEBHOOK_SECRET;
+      const c = createMockContext({ channel: 'telegram', rawBody: telegramUpdate('hi') });
+
+      await smishingChannelWebhookHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), 503);
+    });
+
+    it('rejects unverified requests', async () => {
+      const c = createMockContext({
+        channel: 'telegram',
+        rawBody: telegramUpdate('hi'),
+        headers: { 'X-Telegram-Bot-Api-Secret-Token': 'wrong' },
+      });
+
+      await smishingChannelWebhookHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Invalid signature' }, 401);
+    });
+
+    it('replies inline in the platform format', async () => {
+      db.rows.set('telegram:777', {
+        company_id: 'acme',
+        microlearning_id: 'ml-1',
+        language: 'en',
+        messages: JSON.stringify([{ role: 'assistant', content: 'Parcel on hold' }]),
+        reply_target: '{}',
+        is_finished: 0,
+      });
+      mockRunSmishingChatTurn.mockResolvedValue({
+        status: 200,
+        response: { success: true, microlearningId: 'ml-1', language: 'en', reply: 'Tap the link', isFinished: false },
+      });
+      const c = createMockContext({
+        channel: 'telegram',
+        rawBody: telegramUpdate('which parcel?'),
+        headers: { 'X-Telegram-Bot-Api-Secret-Token': 'tg-secret' },
+        env: { agentic_ally_memory: db },
+      });
+
+      await smishingChannelWebhookHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ method: 'sendMessage', chat_id: 777, text: 'Tap the link' }, 200);
+    });
+
+    it('acknowledges events that are not conversation turns', async () => {
+      const c = createMockContext({
+        channel: 'telegram',
+        rawBody: JSON.stringify({ edited_message: {} }),
+        headers: { 'X-Telegram-Bot-Api-Secret-Token': 'tg-secret' },
+      });
+
+      await smishingChannelWebhookHandler(c);
+
+      expect(c._json).toHaveBeenCalledWith({ ok: true }, 200);
+      expect(mockRunSmishingChatTurn).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('smishingChannelVerifyHandler', () => {
+    it('echoes the WhatsApp challenge for the configured verify token', async () => {
+      process.env.WHATSAPP_VERIFY_TOKEN = 'verify-me';
+      const query = { 'hub.mode': 'subscribe', 'hub.verify_token': 'verify-me', 'hub.challenge': '1158201444' };
+
+      const ok = createMockContext({ channel: 'whatsapp', query });
+      await smishingChannelVerifyHandler(ok);
+      expect(ok._text).toHaveBeenCalledWith('1158201444', 200);
+
+      const bad = createMockContext({ channel: 'whatsapp', query: { ...query, 'hub.verify_token': 'nope' } });
+      await smishingChannelVerifyHandler(bad);
+      expect(bad._json).toHaveBeenCalledWith({ success: false, error: 'Verification failed' }, 403);
+    });
+  });
+});
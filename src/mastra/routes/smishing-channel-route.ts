@@ -0,0 +1,282 @@
+/**
+ * Smishing Channel Routes
+ *
+ * Runs the /smishing/chat conversation loop (runSmishingChatTurn) over real
+ * messaging platforms. Each channel adapter (services/smishing-channels) maps the
+ * platform's native webhook payload onto a conversation turn and formats the reply
+ * in the platform's outbound format. Conversation state is kept per (channel, sender) in D1.
+ *
+ * Security:
+ *   - /sessions: auth middleware requires valid X-AGENTIC-ALLY-TOKEN; X-COMPANY-ID scopes the session
+ *   - /webhook: public (platforms cannot send the platform token), verified per platform:
+ *     Slack signing secret, Teams Bot Framework JWT, WhatsApp app secret, Telegram secret token
+ *
+ * POST /smishing/channels/:channel/sessions  { senderId, microlearningId, language }
+ *   → { success, channel, senderId, sessionId, firstMessage, delivered, outbound, deliveryError? }
+ * POST /smishing/channels/:channel/webhook   (native platform payload)
+ *   → platform handshake, inline reply (Telegram/Teams without outbound credentials) or { ok: true }
+ * GET  /smishing/channels/whatsapp/webhook   (WhatsApp subscription handshake)
+ */
+
+import { Context } from 'hono';
+import { SMISHING_CHANNELS } from '../constants';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import {
+  WhatsAppChannelAdapter,
+  getSmishingChannelAdapter,
+  isSessionStoreAvailable,
+  loadChannelSession,
+  saveChannelSession,
+  type ChannelDelivery,
+  type InboundChannelMessage,
+  type SmishingChannelAdapter,
+} from '../services/smishing-channels';
+import type { SmishingChatMessage } from '../types';
+import { runSmishingChatTurn } from './smishing-chat-route';
+import { smishingChannelSessionRequestSchema } from './smishing-channel-route.schemas';
+
+const logger = getLogger('SmishingChannelRoute');
+
+/**
+ * One inbound platform message → next attacker reply, delivered on the same channel.
+ * Returns null when the sender has no active session or no reply could be generated. Never throws.
+ */
+export async function processChannelMessage(
+  env: Record<string, unknown> | undefined,
+  adapter: SmishingChannelAdapter,
+  inbound: InboundChannelMessage
+): Promise<ChannelDelivery | null> {
+  try {
+    const session = await loadChannelSession(env, adapter.channel, inbound.senderId);
+    if (!session || session.isFinished) {
+      logger.info('smishing_channel_message_ignored', {
+        channel: adapter.channel,
+        reason: session ? 'session_finished' : 'no_session',
+      });
+      return null;
+    }
+
+    const messages: SmishingChatMessage[] = [
+      ...session.messages,
+      { role: 'user' as const, content: inbound.text.slice(0, SMISHING_CHANNELS.MAX_MESSAGE_CHARS) },
+    ].slice(-SMISHING_CHANNELS.MAX_HISTORY_MESSAGES);
+
+    const { response } = await runSmishingChatTurn(
+      {
+        microlearningId: session.microlearningId,
+        language: session.language,
+        messages,
+        sessionId: session.sessionId,
+        userId: `${adapter.channel}:${inbound.senderId}`,
+      },
+      Date.now(),
+      { env, companyId: session.companyId, channel: adapter.channel }
+    );
+    if (!response.success || !('reply' in response)) {
+      logger.warn('smishing_channel_turn_failed', {
+        channel: adapter.channel,
+        microlearningId: session.microlearningId,
+        error: response.success ? 'No reply generated' : response.error,
+      });
+      return null;
+    }
+
+    await saveChannelSession(env, {
+      ...session,
+      messages: [...messages, { role: 'assistant', content: response.reply }],
+      replyTarget: inbound.replyTarget,
+      isFinished: response.isFinished,
+    });
+
+    const delivery = await adapter.deliver(inbound.replyTarget, response.reply);
+    logger.info('smishing_channel_reply', {
+      channel: adapter.channel,
+      microlearningId: session.microlearningId,
+      delivered: delivery.delivered,
+      isFinished: response.isFinished,
+      ...(delivery.error && { deliveryError: delivery.error }),
+    });
+    return delivery;
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'smishing-channel-message',
+      channel: adapter.channel,
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'smishing_channel_message_error', errorInfo);
+    return null;
+  }
+}
+
+export async function smishingChannelSessionHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const adapter = getSmishingChannelAdapter(c.req.param('channel') ?? '');
+  if (!adapter) {
+    return c.json({ success: false, error: 'Unsupported channel', supported: SMISHING_CHANNELS.TRANSPORTS }, 404);
+  }
+
+  let body: unknown;
+  try {
+    body = await c.req.json<unknown>();
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+  }
+
+  const parsed = smishingChannelSessionRequestSchema.safeParse(body);
+  if (!parsed.success) {
+    return c.json({ success: false, error: 'Invalid request format', details: parsed.error.format() }, 400);
+  }
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    if (!isSessionStoreAvailable(env)) {
+      return c.json({ success: false, error: 'Session store not available' }, 503);
+    }
+
+    const { senderId, microlearningId, language } = parsed.data;
+    const sessionId = crypto.randomUUID();
+    const { status, response } = await runSmishingChatTurn(
+      { microlearningId, language, sessionId, userId: `${adapter.channel}:${senderId}` },
+      Date.now(),
+      { env, companyId, channel: adapter.channel }
+    );
+    if (!response.success || !('firstMessage' in response)) {
+      return c.json(response, status);
+    }
+
+    const replyTarget = adapter.targetForSender(senderId);
+    const saved = await saveChannelSession(env, {
+      channel: adapter.channel,
+      senderId,
+      companyId,
+      microlearningId,
+      language: response.language,
+      messages: [{ role: 'assistant', content: response.firstMessage }],
+      replyTarget,
+      isFinished: false,
+      sessionId,
+    });
+    if (!saved) {
+      return c.json({ success: false, error: 'Session store not available' }, 503);
+    }
+
+    const delivery = await adapter.deliver(replyTarget, response.firstMessage);
+    logger.info('smishing_channel_session_started', {
+      companyId,
+      channel: adapter.channel,
+      microlearningId,
+      delivered: delivery.delivered,
+    });
+
+    return c.json(
+      {
+        success: true,
+        channel: adapter.channel,
+        senderId,
+        sessionId,
+        microlearningId,
+        language: response.language,
+        firstMessage: response.firstMessage,
+        delivered: delivery.delivered,
+        outbound: delivery.outbound,
+        ...(delivery.error && { deliveryError: delivery.error }),
+      },
+      200
+    );
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'smishing-channel-session',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'smishing_channel_session_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to start channel session' }, 500);
+  }
+}
+
+export async function smishingChannelWebhookHandler(c: Context) {
+  const adapter = getSmishingChannelAdapter(c.req.param('channel') ?? '');
+  if (!adapter) {
+    return c.json({ success: false, error: 'Unsupported channel' }, 404);
+  }
+
+  const configurationError = adapter.getConfigurationError();
+  if (configurationError) {
+    logger.warn('smishing_channel_not_configured', { channel: adapter.channel, reason: configurationError });
+    return c.json({ success: false, error: `${adapter.displayName} channel is not configured` }, 503);
+  }
+
+  try {
+    const rawBody = await c.req.text();
+    const request = { rawBody, header: (name: string) => c.req.header(name) };
+    if (!(await adapter.verifyRequest(request))) {
+      logger.warn('smishing_channel_signature_rejected', { channel: adapter.channel });
+      return c.json({ success: false, error: 'Invalid signature' }, 401);
+    }
+
+    let payload: unknown;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+    }
+
+    const inbound = adapter.parseInbound(payload, request);
+    if (inbound.kind === 'handshake') {
+      return c.json(inbound.response, 200);
+    }
+    if (inbound.kind === 'ignored') {
+      logger.debug('smishing_channel_event_ignored', { channel: adapter.channel, reason: inbound.reason });
+      return c.json({ ok: true }, 200);
+    }
+
+    const env = c.env as Record<string, unknown> | undefined;
+
+    // Platforms expect a fast ack (Slack: 3s) — reply through the API in the background when possible
+    if (adapter.canDeliver()) {
+      try {
+        c.executionCtx.waitUntil(processChannelMessage(env, adapter, inbound.message));
+        return c.json({ ok: true }, 200);
+      } catch {
+        // No ExecutionContext outside Workers — fall through to inline processing
+      }
+    }
+
+    const delivery = await processChannelMessage(env, adapter, inbound.message);
+    return c.json((delivery?.webhookResponse as object | undefined) ?? { ok: true }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'smishing-channel-webhook',
+      channel: adapter.channel,
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'smishing_channel_webhook_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to process channel message' }, 500);
+  }
+}
+
+/** GET webhook subscription handshake (WhatsApp Cloud API: hub.mode / hub.verify_token / hub.challenge) */
+export async function smishingChannelVerifyHandler(c: Context) {
+  if (c.req.param('channel') !== 'whatsapp') {
+    return c.json({ success: false, error: 'Unsupported channel' }, 404);
+  }
+
+  const challenge = new WhatsAppChannelAdapter().verifySubscription({
+    mode: c.req.query('hub.mode'),
+    token: c.req.query('hub.verify_token'),
+    challenge: c.req.query('hub.challenge'),
+  });
+  if (!challenge) {
+    logger.warn('smishing_channel_subscription_rejected', { channel: 'whatsapp' });
+    return c.json({ success: false, error: 'Verification failed' }, 403);
+  }
+  return c.text(challenge, 200);
+}
@@ -14,6 +14,21 @@ export const smishingChatRequestSchema = z.object({
   ),
   modelProvider: z.string().trim().min(1).max(64).optional(),
   model: z.string().trim().min(1).max(128).optional(),
+  /**
+   * Outcome tracking: turns sharing a sessionId are scored as one conversation. Set by the
+   * channel transports; /smishing/chat replaces both fields with the session token's claims.
+   */
+  sessionId: z
+    .string()
+    .trim()
+    .regex(/^[A-Za-z0-9._:-]{8,128}$/)
+    .optional(),
+  userId: z.string().trim().min(1).max(256).optional(),
+});
+
+export const smishingChatSessionRequestSchema = z.object({
+  microlearningId: z.string().trim().min(1).max(2048),
+  userId: z.string().trim().min(1).max(256).optional(),
 });
 
 export const parsedSmishingChatResponseSchema = z.object({
@@ -4,11 +4,12 @@ import { getModelWithOverride } from '../model-providers';
 import { validateBCP47LanguageCode } from '../utils/language/language-utils';
 
 // Create mock context factory
-function createMockContext(requestBody: any) {
+function createMockContext(requestBody: any, headers: Record<string, string> = {}) {
   const mockJson = vi.fn();
   return {
     req: {
       json: vi.fn().mockResolvedValue(requestBody),
+      header: vi.fn((name: string) => headers[name]),
     },
     json: mockJson,
     _getJsonCalls: () => mockJson.mock.calls,
@@ -49,6 +50,11 @@ vi.mock('../utils/core/logger', () => ({
   }),
 }));
 
+const mockRecordSmishingTurn = vi.fn();
+vi.mock('../services/smishing-outcome-service', () => ({
+  recordSmishingTurn: (...args: unknown[]) => mockRecordSmishingTurn(...args),
+}));
+
 vi.mock('../utils/core/resilience-utils', () => ({
   withRetry: vi.fn((fn: any) => fn()),
 }));
@@ -644,4 +650,85 @@ describe('Smishing Chat Route Handler', () => {
       expect(calls[0][1]).toBe(500);
     });
   });
+
+  describe('Outcome Tracking', () => {
+    beforeEach(() => {
+      process.env.SMISHING_SESSION_SECRET = 'session-secret-value';
+      mockKVService.getMicrolearning.mockResolvedValue(validMicrolearning);
+    });
+
+    afterEach(() => {
+      delete process.env.SMISHING_SESSION_SECRET;
+    });
+
+    async function startSession(body: Record<string, unknown>, headers: Record<string, string> = {}) {
+      const { smishingChatSessionHandler } = await import('./smishing-chat-route');
+      const ctx = createMockContext(body, headers);
+      await smishingChatSessionHandler(ctx);
+      return ctx._getJsonCalls()[0];
+    }
+
+    it('records turns under the company and learner of the session token', async () => {
+      const [session, status] = await startSession(
+        { microlearningId: 'ml-123', userId: 'user-42' },
+        { 'X-COMPANY-ID': 'acme' }
+      );
+      expect(status).toBe(200);
+      expect(session).toMatchObject({ success: true, microlearningId: 'ml-123', userId: 'user-42' });
+
+      const ctx = createMockContext(
+        { microlearningId: 'ml-123', language: 'en', sessionToken: session.sessionToken, userId: 'someone-else' },
+        { 'X-COMPANY-ID': 'other-company' }
+      );
+      await smishingChatHandler(ctx);
+
+      expect(ctx._getJsonCalls()[0][1]).toBe(200);
+      expect(mockRecordSmishingTurn).toHaveBeenCalledWith(
+        undefined,
+        expect.objectContaining({
+          sessionId: session.sessionId,
+          companyId: 'acme',
+          userId: 'user-42',
+          channel: 'web',
+          microlearningId: 'ml-123',
+        })
+      );
+    });
+
+    it('does not record turns identified only by the caller', async () => {
+      const ctx = createMockContext(
+        { microlearningId: 'ml-123', language: 'en', sessionId: 'forged-session-1', userId: 'user-42' },
+        { 'X-COMPANY-ID': 'acme' }
+      );
+      await smishingChatHandler(ctx);
+
+      expect(ctx._getJsonCalls()[0][1]).toBe(200);
+      expect(mockRecordSmishingTurn).not.toHaveBeenCalled();
+    });
+
+    it('does not record turns with a tampered token or one issued for another microlearning', async () => {
+      const [session] = await startSession({ microlearningId: 'ml-123' }, { 'X-COMPANY-ID': 'acme' });
+      const [payload, signature] = String(session.sessionToken).split('.');
+
+      for (const body of [
+        { microlearningId: 'ml-123', sessionToken: `${payload}x.${signature}` },
+        { microlearningId: 'ml-456', sessionToken: session.sessionToken },
+      ]) {
+        const ctx = createMockContext({ ...body, language: 'en' });
+        await smishingChatHandler(ctx);
+        expect(ctx._getJsonCalls()[0][1]).toBe(200);
+      }
+      expect(mockRecordSmishingTurn).not.toHaveBeenCalled();
+    });
+
+    it('requires a company and a configured secret to start a session', async () => {
+      expect(await startSession({ microlearningId: 'ml-123' })).toEqual([
+        { success: false, error: 'Company ID required' },
+        401,
+      ]);
+
+      delete process.env.SMISHING_SESSION_SECRET;
+      expect((await startSession({ microlearningId: 'ml-123' }, { 'X-COMPANY-ID': 'acme' }))[1]).toBe(503);
+    });
+  });
 });
@@ -9,8 +9,18 @@ import { INBOX_TEXT_PARAMS } from '../utils/config/llm-generation-params';
 import { cleanResponse } from '../utils/content-processors/json-cleaner';
 import { loadScene4RouteData } from './scene4-route-helpers';
 import { resolveEffectiveProvider, shouldMapAssistantHistoryAsUser } from './chat-provider-compat';
-import { parsedSmishingChatResponseSchema, smishingChatRequestSchema } from './smishing-chat-route.schemas';
-import type { SmishingChatRequestBody, SmishingChatResponse } from '../types';
+import {
+  parsedSmishingChatResponseSchema,
+  smishingChatRequestSchema,
+  smishingChatSessionRequestSchema,
+} from './smishing-chat-route.schemas';
+import { recordSmishingTurn, type SmishingOutcomeChannel } from '../services/smishing-outcome-service';
+import {
+  isSmishingSessionTokenConfigured,
+  issueSmishingSessionToken,
+  verifySmishingSessionToken,
+} from '../services/smishing-session-token';
+import type { SmishingChatMessage, SmishingChatRequestBody, SmishingChatResponse } from '../types';
 
 const logger = getLogger('SmishingChatRoute');
 const SMISHING_CHAT_JSON_OUTPUT_INSTRUCTION =
@@ -51,20 +61,150 @@ function parseSmishingChatResponse(rawText: string): ParsedSmishingChatResponse
   };
 }
 
+export interface SmishingChatResult {
+  status: 200 | 400 | 404 | 500;
+  response: SmishingChatResponse;
+}
+
+/** Where outcomes of requests carrying a sessionId are recorded (smishing-outcome-service) */
+export interface SmishingChatTracking {
+  env: Record<string, unknown> | undefined;
+  companyId: string | null;
+  channel: SmishingOutcomeChannel;
+}
+
+function smishingChatErrorResult(error: unknown, requestStart: number): SmishingChatResult {
+  const err = normalizeError(error);
+  const errorInfo = errorService.internal(err.message, {
+    route: '/smishing/chat',
+    event: 'error',
+    durationMs: Date.now() - requestStart,
+  });
+  logErrorInfo(logger, 'error', 'smishing_chat_error', errorInfo);
+  return {
+    status: 500,
+    response: { success: false, error: error instanceof Error ? error.message : 'Unknown error' },
+  };
+}
+
+/**
+ * /smishing/chat is public: company, learner and sessionId for outcome tracking come only
+ * from a valid session token for this microlearning, never from the caller's headers or
+ * body. Turns without one are answered but not recorded.
+ */
+async function resolveWebChatTracking(
+  c: Context,
+  rawBody: SmishingChatRequestBody | null
+): Promise<{ body: SmishingChatRequestBody; tracking?: SmishingChatTracking }> {
+  const body = {
+    ...rawBody,
+    sessionToken: undefined,
+    sessionId: undefined,
+    userId: undefined,
+  } as SmishingChatRequestBody;
+  const sessionToken = typeof rawBody?.sessionToken === 'string' ? rawBody.sessionToken.trim() : '';
+  if (!sessionToken) return { body };
+
+  const claims = await verifySmishingSessionToken(sessionToken);
+  const microlearningId = typeof rawBody?.microlearningId === 'string' ? rawBody.microlearningId.trim() : '';
+  if (!claims || claims.microlearningId !== microlearningId) {
+    logger.warn('smishing_chat_session_token_rejected', {
+      microlearningId,
+      reason: claims ? 'microlearning_mismatch' : 'invalid_or_expired',
+    });
+    return { body };
+  }
+
+  return {
+    body: { ...body, sessionId: claims.sessionId, userId: claims.userId },
+    tracking: { env: c.env as Record<string, unknown> | undefined, companyId: claims.companyId, channel: 'web' },
+  };
+}
+
 export async function smishingChatHandler(c: Context) {
   const requestStart = Date.now();
+  let rawBody: SmishingChatRequestBody | null;
+  try {
+    rawBody = await c.req.json<SmishingChatRequestBody>();
+  } catch (error) {
+    const { status, response } = smishingChatErrorResult(error, requestStart);
+    return c.json(response, status);
+  }
+
+  const { body, tracking } = await resolveWebChatTracking(c, rawBody);
+  const { status, response } = await runSmishingChatTurn(body, requestStart, tracking);
+  return c.json(response, status);
+}
+
+/**
+ * POST /smishing/chat/sessions (authenticated) — mints the session token the learner's
+ * browser sends with every /smishing/chat turn so the conversation is scored for this
+ * company and learner.
+ */
+export async function smishingChatSessionHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  if (!isSmishingSessionTokenConfigured()) {
+    return c.json({ success: false, error: 'Outcome tracking is not configured' }, 503);
+  }
+
+  let rawBody: unknown;
+  try {
+    rawBody = await c.req.json<unknown>();
+  } catch {
+    return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+  }
+
+  const parsed = smishingChatSessionRequestSchema.safeParse(rawBody);
+  if (!parsed.success) {
+    return c.json({ success: false, error: 'Invalid request format', details: parsed.error.format() }, 400);
+  }
+
+  const { microlearningId, userId } = parsed.data;
+  const issued = await issueSmishingSessionToken({ companyId, microlearningId, userId });
+  if (!issued) {
+    return c.json({ success: false, error: 'Outcome tracking is not configured' }, 503);
+  }
+
+  logger.info('smishing_chat_session_issued', { companyId, microlearningId, hasUserId: Boolean(userId) });
+
+  return c.json(
+    {
+      success: true,
+      sessionId: issued.claims.sessionId,
+      sessionToken: issued.token,
+      microlearningId,
+      ...(userId && { userId }),
+      expiresAt: new Date(issued.claims.expiresAt * 1000).toISOString(),
+    },
+    200
+  );
+}
+
+/**
+ * One turn of the smishing conversation loop (no messages → init with firstMessage,
+ * otherwise the next attacker reply). Shared by /smishing/chat and the channel
+ * webhooks (services/smishing-channels). With `tracking` and a sessionId in the body,
+ * the conversation is re-scored and recorded after the turn. Never throws.
+ */
+export async function runSmishingChatTurn(
+  body: SmishingChatRequestBody,
+  requestStart = Date.now(),
+  tracking?: SmishingChatTracking
+): Promise<SmishingChatResult> {
   try {
-    const rawBody = await c.req.json<SmishingChatRequestBody>();
-    const body = rawBody || {};
     const { microlearningId, language } = body;
 
     if (!microlearningId || typeof microlearningId !== 'string') {
       const response: SmishingChatResponse = { success: false, error: 'Missing microlearningId' };
-      return c.json(response, 400);
+      return { status: 400, response };
     }
     if (!language || typeof language !== 'string') {
       const response: SmishingChatResponse = { success: false, error: 'Missing language' };
-      return c.json(response, 400);
+      return { status: 400, response };
     }
 
     const parsedRequest = smishingChatRequestSchema.safeParse(body);
@@ -74,12 +214,26 @@ export async function smishingChatHandler(c: Context) {
         success: false,
         error: hasInvalidMessages ? 'Invalid message format' : 'Invalid request format',
       };
-      return c.json(response, 400);
+      return { status: 400, response };
     }
 
-    const { messages, modelProvider, model: modelOverride } = parsedRequest.data;
+    const { messages, modelProvider, model: modelOverride, sessionId, userId } = parsedRequest.data;
     const hasMessages = Array.isArray(messages) && messages.length > 0;
 
+    const recordTurn = async (conversation: SmishingChatMessage[], isFinished: boolean, normalized: string) => {
+      if (!tracking || !sessionId) return;
+      await recordSmishingTurn(tracking.env, {
+        sessionId,
+        companyId: tracking.companyId,
+        userId: userId ?? null,
+        channel: tracking.channel,
+        microlearningId,
+        language: normalized,
+        messages: conversation,
+        isFinished,
+      });
+    };
+
     const { hasLanguageContent, normalizedLanguage, prompt, firstMessage } = await loadScene4RouteData({
       microlearningId,
       language,
@@ -87,18 +241,18 @@ export async function smishingChatHandler(c: Context) {
 
     if (!hasLanguageContent) {
       const response: SmishingChatResponse = { success: false, error: 'Language content not found' };
-      return c.json(response, 404);
+      return { status: 404, response };
     }
 
     if (!prompt) {
       const response: SmishingChatResponse = { success: false, error: 'Smishing prompt not available' };
-      return c.json(response, 404);
+      return { status: 404, response };
     }
 
     if (!hasMessages) {
       if (!firstMessage) {
         const response: SmishingChatResponse = { success: false, error: 'Smishing prompt not available' };
-        return c.json(response, 404);
+        return { status: 404, response };
       }
 
       const response: SmishingChatResponse = {
@@ -109,7 +263,8 @@ export async function smishingChatHandler(c: Context) {
         firstMessage,
         isFinished: false,
       };
-      return c.json(response, 200);
+      await recordTurn([{ role: 'assistant', content: firstMessage }], false, normalizedLanguage);
+      return { status: 200, response };
     }
 
     const effectiveProvider = resolveEffectiveProvider(modelProvider, modelOverride);
@@ -135,7 +290,7 @@ export async function smishingChatHandler(c: Context) {
 
     if (!hasExplicitUserMessage) {
       const response: SmishingChatResponse = { success: false, error: 'Missing user messages' };
-      return c.json(response, 400);
+      return { status: 400, response };
     }
 
     logger.info('smishing_chat_request', {
@@ -186,19 +341,13 @@ export async function smishingChatHandler(c: Context) {
       reply: parsedResponse.reply,
       isFinished: parsedResponse.isFinished,
     };
-    return c.json(response, 200);
+    await recordTurn(
+      [...messages, { role: 'assistant', content: parsedResponse.reply }],
+      parsedResponse.isFinished,
+      normalizedLanguage
+    );
+    return { status: 200, response };
   } catch (error) {
-    const err = normalizeError(error);
-    const errorInfo = errorService.internal(err.message, {
-      route: '/smishing/chat',
-      event: 'error',
-      durationMs: Date.now() - requestStart,
-    });
-    logErrorInfo(logger, 'error', 'smishing_chat_error', errorInfo);
-    const response: SmishingChatResponse = {
-      success: false,
-      error: error instanceof Error ? error.message : 'Unknown error',
-    };
-    return c.json(response, 500);
+    return smishingChatErrorResult(error, requestStart);
   }
 }
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { smishingOutcomesHandler } from './smishing-outcomes-route';
+
+const mockListSmishingOutcomes = vi.fn();
+
+vi.mock('../services/smishing-outcome-service', () => ({
+  listSmishingOutcomes: (...args: unknown[]) => mockListSmishingOutcomes(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+function createMockContext(options: { companyId?: string; query?: Record<string, string> } = {}) {
+  const jsonFn = vi.fn();
+  return {
+    req: {
+      header: vi.fn((name: string) => (name === 'X-COMPANY-ID' ? options.companyId : undefined)),
+      query: vi.fn((name: string) => options.query?.[name]),
+    },
+    env: { agentic_ally_memory: {} },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const session = (sessionId: string, outcome: { outcome: string; score: number } | null) => ({
+  sessionId,
+  microlearningId: 'ml-1',
+  userId: 'u-1',
+  status: outcome ? 'finished' : 'in_progress',
+  outcome,
+});
+
+describe('smishingOutcomesHandler', () => {
+  beforeEach(() => {
+    mockListSmishingOutcomes.mockReset();
+  });
+
+  it('returns the sessions with an outcome summary', async () => {
+    const sessions = [
+      session('s-1', { outcome: 'reported', score: 100 }),
+      session('s-2', { outcome: 'clicked', score: 20 }),
+      session('s-3', null),
+    ];
+    mockListSmishingOutcomes.mockResolvedValue(sessions);
+    const c = createMockContext({ companyId: 'acme', query: { microlearningId: 'ml-1', userId: 'u-1' } });
+
+    await smishingOutcomesHandler(c);
+
+    expect(mockListSmishingOutcomes).toHaveBeenCalledWith(c.env, {
+      companyId: 'acme',
+      microlearningId: 'ml-1',
+      userId: 'u-1',
+    });
+    expect(c._json).toHaveBeenCalledWith(
+      {
+        success: true,
+        microlearningId: 'ml-1',
+        userId: 'u-1',
+        sessions,
+        summary: { sessions: 3, finished: 2, outcomes: { reported: 1, clicked: 1 }, averageScore: 60 },
+      },
+      200
+    );
+  });
+
+  it('returns 401 without company ID and 400 without microlearningId', async () => {
+    const noCompany = createMockContext({ query: { microlearningId: 'ml-1' } });
+    await smishingOutcomesHandler(noCompany);
+    expect(noCompany._json).toHaveBeenCalledWith({ success: false, error: 'Company ID required' }, 401);
+
+    const noMicrolearning = createMockContext({ companyId: 'acme', query: { userId: 'u-1' } });
+    await smishingOutcomesHandler(noMicrolearning);
+    expect(noMicrolearning._json.mock.calls[0][1]).toBe(400);
+    expect(mockListSmishingOutcomes).not.toHaveBeenCalled();
+  });
+
+  it('returns 503 when the outcome store is unavailable', async () => {
+    mockListSmishingOutcomes.mockResolvedValue(null);
+    const c = createMockContext({ companyId: 'acme', query: { microlearningId: 'ml-1' } });
+
+    await smishingOutcomesHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Outcome store unavailable' }, 503);
+  });
+
+  it('returns 500 when the query throws', async () => {
+    mockListSmishingOutcomes.mockRejectedValue(new Error('boom'));
+    const c = createMockContext({ companyId: 'acme', query: { microlearningId: 'ml-1' } });
+
+    await smishingOutcomesHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Outcome query failed' }, 500);
+  });
+});
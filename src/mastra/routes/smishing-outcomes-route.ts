@@ -0,0 +1,81 @@
+/**
+ * Smishing Outcomes Route
+ *
+ * Per-learner results of smishing chat simulations: turn annotations and, once the
+ * debrief was sent, the scored outcome (timeline, disclosed items, outcome, score).
+ * Sessions are recorded by /smishing/chat (turns with a session token) and the
+ * channel transports — see smishing-outcome-service.ts.
+ *
+ * Security:
+ *   - Auth middleware requires valid X-AGENTIC-ALLY-TOKEN
+ *   - CompanyId from X-COMPANY-ID header scopes the query
+ *
+ * GET /smishing/outcomes?microlearningId=...&userId=...
+ *   → { success, microlearningId, userId?, sessions, summary: { sessions, finished, outcomes, averageScore } }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { listSmishingOutcomes, type SmishingOutcomeRecord } from '../services/smishing-outcome-service';
+
+const logger = getLogger('SmishingOutcomesRoute');
+
+function summarizeOutcomes(sessions: SmishingOutcomeRecord[]) {
+  const scored = sessions.flatMap(session => (session.outcome ? [session.outcome] : []));
+  const outcomes: Record<string, number> = {};
+  for (const { outcome } of scored) outcomes[outcome] = (outcomes[outcome] ?? 0) + 1;
+  return {
+    sessions: sessions.length,
+    finished: scored.length,
+    outcomes,
+    averageScore:
+      scored.length > 0 ? Math.round(scored.reduce((sum, outcome) => sum + outcome.score, 0) / scored.length) : null,
+  };
+}
+
+export async function smishingOutcomesHandler(c: Context) {
+  const companyId = c.req.header('X-COMPANY-ID');
+  if (!companyId) {
+    return c.json({ success: false, error: 'Company ID required' }, 401);
+  }
+
+  const microlearningId = c.req.query('microlearningId')?.trim();
+  const userId = c.req.query('userId')?.trim() || undefined;
+  if (!microlearningId || microlearningId.length > 2048 || (userId && userId.length > 256)) {
+    return c.json(
+      { success: false, error: 'Invalid query', details: 'microlearningId is required; userId is optional' },
+      400
+    );
+  }
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    const sessions = await listSmishingOutcomes(env, { companyId, microlearningId, userId });
+    if (!sessions) {
+      return c.json({ success: false, error: 'Outcome store unavailable' }, 503);
+    }
+
+    logger.info('smishing_outcomes_queried', { companyId, microlearningId, sessions: sessions.length });
+
+    return c.json(
+      {
+        success: true,
+        microlearningId,
+        ...(userId && { userId }),
+        sessions,
+        summary: summarizeOutcomes(sessions),
+      },
+      200
+    );
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'smishing-outcomes',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'smishing_outcomes_error', errorInfo);
+    return c.json({ success: false, error: 'Outcome query failed' }, 500);
+  }
+}
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { threatIntelIngestHandler } from './threat-intel-ingest-route';
+
+const mockRun = vi.fn();
+
+vi.mock('../services/threat-intel-ingestion-service', async () => {
+  const actual = await vi.importActual<typeof import('../services/threat-intel-ingestion-service')>(
+    '../services/threat-intel-ingestion-service'
+  );
+  return {
+    loadThreatIntelFeeds: actual.loadThreatIntelFeeds,
+    runThreatIntelIngestion: (...args: unknown[]) => mockRun(...args),
+  };
+});
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+vi.mock('../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((err: unknown) => ({
+    name: (err as Error)?.name ?? 'Error',
+    message: (err as Error)?.message ?? 'Unknown error',
+    stack: (err as Error)?.stack,
+  })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../services/error-service', () => ({
+  errorService: {
+    internal: vi.fn((msg: string, ctx?: object) => ({ message: msg, ...ctx })),
+  },
+}));
+
+const FEEDS = JSON.stringify([{ id: 'cisa', type: 'rss', url: 'https://intel.example/rss.xml' }]);
+
+const INTERNAL_SECRET = 'cron-secret-value';
+
+function createMockContext(env: Record<string, unknown> = {}, secret: string | undefined = INTERNAL_SECRET) {
+  const jsonFn = vi.fn((body: unknown, status: number) => ({ body, status }));
+  return {
+    env,
+    req: {
+      path: '/threat-intel/ingest',
+      header: vi.fn((name: string) => (name === 'X-INTERNAL-SECRET' ? secret : undefined)),
+    },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+describe('threatIntelIngestHandler', () => {
+  beforeEach(() => {
+    mockRun.mockReset();
+    delete process.env.THREAT_INTEL_FEEDS;
+    process.env.INTERNAL_CRON_SECRET = INTERNAL_SECRET;
+  });
+
+  afterEach(() => {
+    delete process.env.INTERNAL_CRON_SECRET;
+  });
+
+  it('rejects callers without the internal secret', async () => {
+    const c = createMockContext({ THREAT_INTEL_FEEDS: FEEDS }, 'tenant-token');
+
+    await threatIntelIngestHandler(c);
+
+    expect(mockRun).not.toHaveBeenCalled();
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Unauthorized' }, 401);
+  });
+
+  it('is disabled when INTERNAL_CRON_SECRET is not set', async () => {
+    delete process.env.INTERNAL_CRON_SECRET;
+    const c = createMockContext({ THREAT_INTEL_FEEDS: FEEDS });
+
+    await threatIntelIngestHandler(c);
+
+    expect(mockRun).not.toHaveBeenCalled();
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Internal endpoint is not configured' }, 503);
+  });
+
+  it('runs ingestion with feeds from the worker env', async () => {
+    const result = { startedAt: 'now', feeds: [{ id: 'cisa', items: 3 }], updated: [], skipped: [] };
+    mockRun.mockResolvedValue(result);
+    const c = createMockContext({ THREAT_INTEL_FEEDS: FEEDS });
+
+    await threatIntelIngestHandler(c);
+
+    expect(mockRun).toHaveBeenCalledWith({ feeds: [expect.objectContaining({ id: 'cisa', type: 'rss' })] });
+    expect(c._json).toHaveBeenCalledWith({ success: true, ...result }, 200);
+  });
+
+  it('returns 400 when no feeds are configured', async () => {
+    const c = createMockContext();
+
+    await threatIntelIngestHandler(c);
+
+    expect(mockRun).not.toHaveBeenCalled();
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'No threat intel feeds configured' }, 400);
+  });
+
+  it('returns 500 when ingestion throws', async () => {
+    mockRun.mockRejectedValue(new Error('boom'));
+    process.env.THREAT_INTEL_FEEDS = FEEDS;
+    const c = createMockContext();
+
+    await threatIntelIngestHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Threat intel ingestion failed' }, 500);
+  });
+});
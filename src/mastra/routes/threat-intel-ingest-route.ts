@@ -0,0 +1,55 @@
+/**
+ * Threat Intelligence Ingestion Route
+ *
+ * Pulls configured threat-intel feeds, summarizes them per intel key and writes
+ * new versions to KV (see threat-intel-ingestion-service).
+ *
+ * Security:
+ *   - Feeds are global (shared KV), so a tenant token is not accepted: the scheduler
+ *     sends X-INTERNAL-SECRET (INTERNAL_CRON_SECRET), see internal-route-guard
+ *
+ * POST /threat-intel/ingest
+ *   → { success, startedAt, feeds[], updated[], skipped[] }
+ */
+
+import { Context } from 'hono';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { errorService } from '../services/error-service';
+import { loadThreatIntelFeeds, runThreatIntelIngestion } from '../services/threat-intel-ingestion-service';
+import { rejectUnlessInternalCaller } from './internal-route-guard';
+
+const logger = getLogger('ThreatIntelIngestRoute');
+
+export async function threatIntelIngestHandler(c: Context) {
+  const rejected = rejectUnlessInternalCaller(c);
+  if (rejected) return rejected;
+
+  try {
+    const env = c.env as Record<string, unknown> | undefined;
+    const rawFeeds = typeof env?.THREAT_INTEL_FEEDS === 'string' ? env.THREAT_INTEL_FEEDS : undefined;
+    const feeds = loadThreatIntelFeeds(rawFeeds ?? process.env.THREAT_INTEL_FEEDS);
+
+    if (feeds.length === 0) {
+      return c.json({ success: false, error: 'No threat intel feeds configured' }, 400);
+    }
+
+    const result = await runThreatIntelIngestion({ feeds });
+
+    logger.info('threat_intel_ingested', {
+      feeds: result.feeds.length,
+      updated: result.updated.length,
+      skipped: result.skipped.length,
+    });
+
+    return c.json({ success: true, ...result }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'threat-intel-ingest',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'threat_intel_ingest_error', errorInfo);
+    return c.json({ success: false, error: 'Threat intel ingestion failed' }, 500);
+  }
+}
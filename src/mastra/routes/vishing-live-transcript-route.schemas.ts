@@ -0,0 +1,47 @@
+import { z } from 'zod';
+import { VISHING_LIVE } from '../constants';
+import { isSafeId } from '../utils/core/id-utils';
+
+/** One streamed transcript turn (accepts `text` or ElevenLabs-style `message`, like the summary schema) */
+export const vishingLiveTranscriptRequestSchema = z
+  .object({
+    conversationId: z.string().trim().max(128).refine(isSafeId, 'Invalid conversationId'),
+    role: z.enum(['agent', 'user']),
+    text: z.string().trim().min(1).max(VISHING_LIVE.MAX_TURN_CHARS).optional(),
+    message: z.string().trim().min(1).max(VISHING_LIVE.MAX_TURN_CHARS).optional(),
+    timestamp: z.number().min(0).optional(),
+  })
+  .transform(v => ({
+    conversationId: v.conversationId,
+    role: v.role,
+    text: (v.text ?? v.message ?? '').trim(),
+    timestamp: v.timestamp,
+  }))
+  .refine(v => v.text.length > 0, { message: 'Turn must have text or message' });
+
+export type VishingLiveTranscriptRequest = z.infer<typeof vishingLiveTranscriptRequestSchema>;
+
+/**
+ * Vapi tool-call envelope: Vapi posts the agent's report_learner_turn call (see
+ * voice-simulation/live-monitor.ts) wrapped in a server message. `arguments` may
+ * arrive as an object or a JSON string.
+ */
+export const vapiToolCallsEnvelopeSchema = z.object({
+  message: z.object({
+    type: z.literal('tool-calls'),
+    call: z.object({ id: z.string() }),
+    toolCallList: z
+      .array(
+        z.object({
+          id: z.string(),
+          function: z.object({
+            name: z.string(),
+            arguments: z.union([z.string(), z.record(z.string(), z.unknown())]).optional(),
+          }),
+        })
+      )
+      .min(1),
+  }),
+});
+
+export type VapiToolCallsEnvelope = z.infer<typeof vapiToolCallsEnvelopeSchema>;
@@ -0,0 +1,175 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { vishingLiveTranscriptHandler } from './vishing-live-transcript-route';
+import { hmacSha256Hex } from '../utils/core/hash-utils';
+import { deriveLiveToolToken } from '../services/voice-simulation';
+
+const mockProcessLiveTranscriptTurn = vi.fn();
+
+vi.mock('../services/vishing-live-monitor-service', () => ({
+  processLiveTranscriptTurn: (...args: unknown[]) => mockProcessLiveTranscriptTurn(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const SECRET = 'whsec_test';
+
+async function sign(rawBody: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return `t=${timestamp},v0=${await hmacSha256Hex(SECRET, `${timestamp}.${rawBody}`)}`;
+}
+
+function createMockContext(rawBody: string, headers: Record<string, string> = {}) {
+  const jsonFn = vi.fn();
+  return {
+    env: { agentic_ally_memory: {} },
+    req: {
+      text: vi.fn().mockResolvedValue(rawBody),
+      header: vi.fn((name: string) => headers[name]),
+    },
+    json: jsonFn,
+    _json: jsonFn,
+  } as any;
+}
+
+const TURN = JSON.stringify({
+  conversationId: 'conv_1',
+  role: 'user',
+  message: 'the code is 4 8 1 5 2 2',
+  timestamp: 12,
+});
+
+describe('vishingLiveTranscriptHandler', () => {
+  beforeEach(() => {
+    process.env.VISHING_WEBHOOK_SECRET = SECRET;
+    mockProcessLiveTranscriptTurn.mockReset();
+  });
+
+  afterEach(() => {
+    delete process.env.VISHING_WEBHOOK_SECRET;
+  });
+
+  it('returns 503 when the webhook secret is not configured', async () => {
+    delete process.env.VISHING_WEBHOOK_SECRET;
+    const c = createMockContext(TURN);
+
+    await vishingLiveTranscriptHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith(expect.objectContaining({ success: false }), 503);
+    expect(mockProcessLiveTranscriptTurn).not.toHaveBeenCalled();
+  });
+
+  it('rejects missing, invalid and stale signatures', async () => {
+    const stale = await sign(TURN, Math.floor(Date.now() / 1000) - 600);
+    const headerSets: Record<string, string>[] = [
+      {},
+      { 'X-VISHING-SIGNATURE': 't=1,v0=deadbeef' },
+      { 'X-VISHING-SIGNATURE': stale },
+      { 'X-VISHING-SIGNATURE': await sign(`${TURN} `) },
+    ];
+    for (const headers of headerSets) {
+      const c = createMockContext(TURN, headers);
+      await vishingLiveTranscriptHandler(c);
+      expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Invalid signature' }, 401);
+    }
+    expect(mockProcessLiveTranscriptTurn).not.toHaveBeenCalled();
+  });
+
+  it('processes a signed turn and passes the normalized text', async () => {
+    const result = {
+      conversationId: 'conv_1',
+      phase: 'Data Disclosed',
+      action: 'reveal',
+      instruction: 'reveal now',
+      disclosures: [{ type: 'mfa_code', timestamp: '0:12' }],
+      timeline: [],
+      persisted: true,
+    };
+    mockProcessLiveTranscriptTurn.mockResolvedValue(result);
+    const c = createMockContext(TURN, { 'ElevenLabs-Signature': await sign(TURN) });
+
+    await vishingLiveTranscriptHandler(c);
+
+    expect(mockProcessLiveTranscriptTurn).toHaveBeenCalledWith(c.env, {
+      conversationId: 'conv_1',
+      role: 'user',
+      text: 'the code is 4 8 1 5 2 2',
+      timestamp: 12,
+    });
+    expect(c._json).toHaveBeenCalledWith({ success: true, ...result }, 200);
+  });
+
+  it('accepts agent tool calls carrying the derived tool token instead of a signature', async () => {
+    mockProcessLiveTranscriptTurn.mockResolvedValue({ conversationId: 'conv_1', action: 'continue' });
+    const wrong = createMockContext(TURN, { 'X-VISHING-TOOL-TOKEN': await deriveLiveToolToken('other-secret') });
+    await vishingLiveTranscriptHandler(wrong);
+    expect(wrong._json).toHaveBeenCalledWith({ success: false, error: 'Invalid signature' }, 401);
+
+    const c = createMockContext(TURN, { 'X-VISHING-TOOL-TOKEN': await deriveLiveToolToken(SECRET) });
+    await vishingLiveTranscriptHandler(c);
+
+    expect(mockProcessLiveTranscriptTurn).toHaveBeenCalledTimes(1);
+    expect(c._json).toHaveBeenCalledWith({ success: true, conversationId: 'conv_1', action: 'continue' }, 200);
+  });
+
+  it('unwraps Vapi tool calls and answers in the Vapi results format', async () => {
+    mockProcessLiveTranscriptTurn.mockResolvedValue({
+      conversationId: 'call-1',
+      action: 'reveal',
+      instruction: 'reveal now',
+      persisted: true,
+    });
+    const envelope = JSON.stringify({
+      message: {
+        type: 'tool-calls',
+        call: { id: 'call-1' },
+        toolCallList: [
+          {
+            id: 'tc-1',
+            function: { name: 'report_learner_turn', arguments: JSON.stringify({ text: 'my password is hunter2' }) },
+          },
+        ],
+      },
+    });
+    const c = createMockContext(envelope, { 'X-VISHING-TOOL-TOKEN': await deriveLiveToolToken(SECRET) });
+
+    await vishingLiveTranscriptHandler(c);
+
+    expect(mockProcessLiveTranscriptTurn).toHaveBeenCalledWith(c.env, {
+      conversationId: 'call-1',
+      role: 'user',
+      text: 'my password is hunter2',
+      timestamp: undefined,
+    });
+    expect(c._json).toHaveBeenCalledWith(
+      { results: [{ toolCallId: 'tc-1', result: JSON.stringify({ action: 'reveal', instruction: 'reveal now' }) }] },
+      200
+    );
+  });
+
+  it('returns 400 for malformed JSON and invalid turns', async () => {
+    const notJson = '{oops';
+    const c1 = createMockContext(notJson, { 'X-VISHING-SIGNATURE': await sign(notJson) });
+    await vishingLiveTranscriptHandler(c1);
+    expect(c1._json).toHaveBeenCalledWith({ success: false, error: 'Invalid JSON body' }, 400);
+
+    const badTurn = JSON.stringify({ conversationId: '../etc', role: 'user', text: 'hi' });
+    const c2 = createMockContext(badTurn, { 'X-VISHING-SIGNATURE': await sign(badTurn) });
+    await vishingLiveTranscriptHandler(c2);
+    expect(c2._json).toHaveBeenCalledWith(expect.objectContaining({ error: 'Invalid request format' }), 400);
+  });
+
+  it('returns 500 when processing throws', async () => {
+    mockProcessLiveTranscriptTurn.mockRejectedValue(new Error('boom'));
+    const c = createMockContext(TURN, { 'X-VISHING-SIGNATURE': await sign(TURN) });
+
+    await vishingLiveTranscriptHandler(c);
+
+    expect(c._json).toHaveBeenCalledWith({ success: false, error: 'Failed to process transcript turn' }, 500);
+  });
+});
@@ -0,0 +1,149 @@
+/**
+ * Vishing Live Transcript Webhook
+ *
+ * Receives transcript turns while a vishing simulation call is in progress and
+ * tells the voice agent whether to keep going or reveal the simulation now
+ * (see vishing-live-monitor-service).
+ *
+ * Security:
+ *   - Public endpoint (the voice platform cannot send X-AGENTIC-ALLY-TOKEN)
+ *   - HMAC-SHA256 signature over `${t}.${rawBody}` with VISHING_WEBHOOK_SECRET,
+ *     sent as X-VISHING-SIGNATURE (or ElevenLabs-Signature): `t=<unix>,v0=<hex>`
+ *   - Rejects signatures older than VISHING_LIVE.SIGNATURE_TOLERANCE_SECS (replay)
+ *   - Agent tool calls (report_learner_turn, registered per call) cannot be signed per
+ *     request; they carry the derived tool token in X-VISHING-TOOL-TOKEN instead
+ *
+ * POST /vishing/conversations/live
+ *   body: { conversationId, role: 'agent' | 'user', text | message, timestamp? }
+ *   → { success, conversationId, phase, action: 'continue' | 'reveal', instruction?, disclosures, timeline, persisted }
+ *   body (Vapi tool call): { message: { type: 'tool-calls', call: { id }, toolCallList: [...] } }
+ *   → { results: [{ toolCallId, result: '{"action":...,"instruction":...}' }] }
+ */
+
+import { Context } from 'hono';
+import { VISHING_LIVE } from '../constants';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
+import { hmacSha256Hex, timingSafeEqual } from '../utils/core/hash-utils';
+import { errorService } from '../services/error-service';
+import { processLiveTranscriptTurn } from '../services/vishing-live-monitor-service';
+import { deriveLiveToolToken } from '../services/voice-simulation';
+import {
+  vapiToolCallsEnvelopeSchema,
+  vishingLiveTranscriptRequestSchema,
+  type VapiToolCallsEnvelope,
+} from './vishing-live-transcript-route.schemas';
+
+const logger = getLogger('VishingLiveTranscriptRoute');
+
+function parseSignatureHeader(header: string): { timestamp: number; signature: string } | null {
+  const parts = Object.fromEntries(
+    header.split(',').map(part => {
+      const [key, ...rest] = part.trim().split('=');
+      return [key, rest.join('=')];
+    })
+  );
+  const timestamp = Number(parts.t);
+  if (!Number.isFinite(timestamp) || !parts.v0) return null;
+  return { timestamp, signature: parts.v0.toLowerCase() };
+}
+
+async function verifySignature(header: string | undefined, rawBody: string, secret: string): Promise<boolean> {
+  const parsed = header ? parseSignatureHeader(header) : null;
+  if (!parsed) return false;
+  if (Math.abs(Math.floor(Date.now() / 1000) - parsed.timestamp) > VISHING_LIVE.SIGNATURE_TOLERANCE_SECS) {
+    return false;
+  }
+  const expected = await hmacSha256Hex(secret, `${parsed.timestamp}.${rawBody}`);
+  return timingSafeEqual(expected, parsed.signature);
+}
+
+async function isAuthorized(c: Context, rawBody: string, secret: string): Promise<boolean> {
+  const toolToken = c.req.header(VISHING_LIVE.TOOL_TOKEN_HEADER);
+  if (toolToken) {
+    return timingSafeEqual(toolToken.toLowerCase(), await deriveLiveToolToken(secret));
+  }
+  const signatureHeader = c.req.header('X-VISHING-SIGNATURE') || c.req.header('ElevenLabs-Signature');
+  return verifySignature(signatureHeader, rawBody, secret);
+}
+
+/** The learner turn inside a Vapi report_learner_turn call, or null when the envelope holds no such call */
+function unwrapVapiToolCall(envelope: VapiToolCallsEnvelope): { toolCallId: string; turn: unknown } | null {
+  const toolCall = envelope.message.toolCallList.find(call => call.function.name === VISHING_LIVE.AGENT_TOOL_NAME);
+  if (!toolCall) return null;
+
+  let args: unknown = toolCall.function.arguments;
+  if (typeof args === 'string') {
+    try {
+      args = JSON.parse(args);
+    } catch {
+      args = undefined;
+    }
+  }
+  const text = (args as { text?: unknown } | undefined)?.text;
+  return { toolCallId: toolCall.id, turn: { conversationId: envelope.message.call.id, role: 'user', text } };
+}
+
+export async function vishingLiveTranscriptHandler(c: Context) {
+  try {
+    const secret = process.env.VISHING_WEBHOOK_SECRET;
+    if (!secret) {
+      logger.warn('vishing_live_webhook_not_configured');
+      return c.json({ success: false, error: 'Live transcript webhook is not configured' }, 503);
+    }
+
+    const rawBody = await c.req.text();
+    if (!(await isAuthorized(c, rawBody, secret))) {
+      logger.warn('vishing_live_signature_rejected', {
+        hasSignature: Boolean(c.req.header('X-VISHING-SIGNATURE') || c.req.header('ElevenLabs-Signature')),
+        hasToolToken: Boolean(c.req.header(VISHING_LIVE.TOOL_TOKEN_HEADER)),
+      });
+      return c.json({ success: false, error: 'Invalid signature' }, 401);
+    }
+
+    let body: unknown;
+    try {
+      body = JSON.parse(rawBody);
+    } catch {
+      return c.json({ success: false, error: 'Invalid JSON body' }, 400);
+    }
+
+    const envelope = vapiToolCallsEnvelopeSchema.safeParse(body);
+    const vapiToolCall = envelope.success ? unwrapVapiToolCall(envelope.data) : null;
+
+    const parsed = vishingLiveTranscriptRequestSchema.safeParse(vapiToolCall ? vapiToolCall.turn : body);
+    if (!parsed.success) {
+      const errorInfo = errorService.validation('Invalid request format', {
+        route: '/vishing/conversations/live',
+        details: parsed.error.format(),
+      });
+      logErrorInfo(logger, 'warn', 'vishing_live_invalid_input', errorInfo);
+      return c.json({ success: false, error: 'Invalid request format', details: parsed.error.format() }, 400);
+    }
+
+    const env = c.env as Record<string, unknown> | undefined;
+    const result = await processLiveTranscriptTurn(env, parsed.data);
+
+    logger.info('vishing_live_turn_processed', {
+      conversationId: result.conversationId,
+      role: parsed.data.role,
+      phase: result.phase,
+      action: result.action,
+    });
+
+    if (vapiToolCall) {
+      // Vapi hands `result` to the model as the tool output
+      const toolResult = JSON.stringify({ action: result.action, instruction: result.instruction });
+      return c.json({ results: [{ toolCallId: vapiToolCall.toolCallId, result: toolResult }] }, 200);
+    }
+    return c.json({ success: true, ...result }, 200);
+  } catch (error) {
+    const err = normalizeError(error);
+    const errorInfo = errorService.internal(err.message, {
+      step: 'vishing-live-transcript',
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', 'vishing_live_transcript_error', errorInfo);
+    return c.json({ success: false, error: 'Failed to process transcript turn' }, 500);
+  }
+}
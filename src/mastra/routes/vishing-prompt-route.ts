@@ -4,10 +4,10 @@ import { getLogger } from '../utils/core/logger';
 import { logErrorInfo, normalizeError } from '../utils/core/error-utils';
 import { loadScene4RouteData } from './scene4-route-helpers';
 import { vishingPromptRequestSchema } from './vishing-prompt-route.schemas';
+import { getVoiceSimulationProvider } from '../services/voice-simulation';
 import type { VishingPromptRequestBody, VishingPromptResponse } from '../types';
 
 const logger = getLogger('VishingPromptRoute');
-const DEFAULT_AGENT_ID = 'agent_0901kfr9djtqfg988bypdyah40mm';
 
 export async function vishingPromptHandler(c: Context) {
   try {
@@ -45,40 +45,8 @@ export async function vishingPromptHandler(c: Context) {
       return c.json(response, 404);
     }
 
-    const agentId = process.env.ELEVENLABS_AGENT_ID || DEFAULT_AGENT_ID;
-    const elevenLabsApiKey = process.env.ELEVENLABS_API_KEY;
-    const wsUrl = `wss://api.elevenlabs.io/v1/convai/conversation?agent_id=${agentId}`;
-    let signedUrl: string | undefined;
-
-    if (elevenLabsApiKey) {
-      try {
-        const signedUrlResp = await fetch(
-          `https://api.elevenlabs.io/v1/convai/conversation/get-signed-url?agent_id=${agentId}`,
-          {
-            method: 'GET',
-            headers: {
-              'Content-Type': 'application/json',
-              'xi-api-key': elevenLabsApiKey,
-            },
-          }
-        );
-
-        if (signedUrlResp.ok) {
-          const signedPayload = await signedUrlResp.json();
-          signedUrl = signedPayload?.signedUrl || signedPayload?.signed_url;
-        } else {
-          const errorText = await signedUrlResp.text();
-          logger.warn('vishing_prompt_signed_url_failed', {
-            status: signedUrlResp.status,
-            error: errorText.substring(0, 200),
-          });
-        }
-      } catch (signedError) {
-        logger.warn('vishing_prompt_signed_url_error', {
-          error: signedError instanceof Error ? signedError.message : String(signedError),
-        });
-      }
-    }
+    // Browser session for the configured voice provider (signed URL when credentials allow)
+    const { agentId, wsUrl, signedUrl } = await getVoiceSimulationProvider().createBrowserSession();
 
     const response: VishingPromptResponse = {
       success: true,
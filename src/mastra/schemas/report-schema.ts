@@ -9,6 +9,49 @@
  */
 
 import { z } from 'zod';
+import { REPORT_DATA } from '../constants';
+
+// ============================================
+// Datasets (real platform data — fetch-report-data-tool)
+// ============================================
+
+export const ReportDatasetColumnSchema = z.object({
+  key: z.string().min(1),
+  label: z.string().min(1),
+  /** percent values are stored as 0-100 numbers (12.3 → "12.3%") */
+  type: z.enum(['text', 'number', 'percent']),
+});
+
+/** Tabular result set a data-bound section references by id — the source of truth for its numbers */
+export const ReportDatasetSchema = z.object({
+  id: z.string().min(1),
+  source: z.enum(REPORT_DATA.SOURCES),
+  title: z.string().min(1),
+  period: z.object({ from: z.string().min(1), to: z.string().min(1) }),
+  columns: z.array(ReportDatasetColumnSchema).min(1),
+  rows: z.array(z.record(z.union([z.string(), z.number()]))),
+});
+
+/** KPI card → single dataset cell. compareRow (optional) derives delta + trend from a second row */
+export const KpiDataSourceSchema = z.object({
+  datasetId: z.string().min(1),
+  column: z.string().min(1),
+  row: z.number().int().min(0).default(0),
+  compareRow: z.number().int().min(0).optional(),
+});
+
+/** Chart → one label column + one or more numeric value columns (one Chart.js dataset each) */
+export const ChartDataSourceSchema = z.object({
+  datasetId: z.string().min(1),
+  labelColumn: z.string().min(1),
+  valueColumns: z.array(z.string().min(1)).min(1),
+});
+
+/** Table → ordered subset of dataset columns */
+export const TableDataSourceSchema = z.object({
+  datasetId: z.string().min(1),
+  columns: z.array(z.string().min(1)).min(1),
+});
 
 // ============================================
 // Section Schemas (discriminated union)
@@ -46,6 +89,7 @@ export const KpiDashboardSectionSchema = z.object({
         value: z.string().min(1),
         trend: z.enum(['up', 'down', 'stable', 'flat', 'neutral']),
         delta: z.string().optional(),
+        source: KpiDataSourceSchema.optional(),
       })
     )
     .min(1),
@@ -74,6 +118,7 @@ export const ChartSectionSchema = z.object({
     }),
     options: z.record(z.unknown()).optional(),
   }),
+  dataSource: ChartDataSourceSchema.optional(),
   weight: z.number().min(0.25).default(0.75),
 });
 
@@ -85,6 +130,7 @@ export const TableSectionSchema = z.object({
   columns: z.array(z.string()).min(1),
   rows: z.array(z.array(z.string())).min(1),
   highlightColumn: z.number().optional(),
+  dataSource: TableDataSourceSchema.optional(),
   weight: z.number().min(0.25).default(0.5),
 });
 
@@ -224,6 +270,8 @@ export const OutlineSectionSchema = z.object({
   brief: z.string().min(1),
   /** For chart sections — suggested chart type. Invalid values are silently dropped to 'bar' */
   chartType: z.string().optional(),
+  /** For kpi_dashboard / chart / table when datasets were fetched — the dataset the section is built from */
+  datasetId: z.string().optional(),
 });
 
 export const ReportOutlineSchema = z
@@ -362,3 +410,8 @@ export type ReportResponse = z.infer<typeof ReportResponseSchema>;
 export type ReportOutline = z.infer<typeof ReportOutlineSchema>;
 export type OutlineSection = z.infer<typeof OutlineSectionSchema>;
 export type ReportState = z.infer<typeof ReportStateSchema>;
+export type ReportDataset = z.infer<typeof ReportDatasetSchema>;
+export type ReportDatasetColumn = z.infer<typeof ReportDatasetColumnSchema>;
+export type KpiDataSource = z.infer<typeof KpiDataSourceSchema>;
+export type ChartDataSource = z.infer<typeof ChartDataSourceSchema>;
+export type TableDataSource = z.infer<typeof TableDataSourceSchema>;
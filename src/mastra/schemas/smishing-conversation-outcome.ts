@@ -0,0 +1,72 @@
+import { z } from 'zod';
+import { VishingStatusCardSchema } from './vishing-conversations-summary';
+
+/** Timeline labels for a smishing chat simulation */
+export const SMISHING_TIMELINE_LABELS = [
+  'Lure',
+  'Pressure',
+  'Data Request',
+  'Learner Reply',
+  'Link Clicked',
+  'Verification Question',
+  'Data Disclosed',
+  'Reported',
+  'Debrief',
+  'Other', // fallback for attacker turns that do not fit the above
+] as const;
+
+/** What the learner did in a single reply */
+export const SMISHING_LEARNER_ACTIONS = [
+  'clicked',
+  'shared_data',
+  'asked_verification',
+  'reported',
+  'refused',
+] as const;
+
+/** Overall outcome, worst behaviour first: data_disclosed wins over clicked, clicked over reported, etc. */
+export const SMISHING_OUTCOMES_BY_SEVERITY = [
+  'data_disclosed',
+  'clicked',
+  'reported',
+  'verified',
+  'refused',
+  'no_response',
+  'other',
+] as const;
+
+export const SmishingTurnAnnotationSchema = z.object({
+  turn: z.number().int().min(1).describe('1-based message index in the conversation'),
+  actions: z.array(z.enum(SMISHING_LEARNER_ACTIONS)).describe('Learner behaviour detected in this reply'),
+  disclosed: z.array(z.string()).describe('Types of sensitive data shared (never the values)'),
+});
+
+export const SmishingTimelineItemSchema = z.object({
+  turn: z.number().int().min(1).describe('1-based message index in the conversation'),
+  label: z.enum(SMISHING_TIMELINE_LABELS).describe('Phase of the smishing simulation'),
+  snippet: z.string().describe('Brief excerpt of the message ("[redacted]" when it disclosed data)'),
+});
+
+export const SmishingDisclosedItemSchema = z.object({
+  item: z.string().describe('Description of the disclosed sensitive information'),
+  turn: z.number().int().min(1).describe('Message index where it was disclosed'),
+});
+
+export const SmishingConversationOutcomeSchema = z.object({
+  timeline: z.array(SmishingTimelineItemSchema).describe('Chronological simulation timeline'),
+  disclosedInfo: z.array(SmishingDisclosedItemSchema).describe('Sensitive items disclosed (card numbers, codes, etc.)'),
+  outcome: z
+    .enum(SMISHING_OUTCOMES_BY_SEVERITY)
+    .describe(
+      'Overall outcome: data_disclosed=learner shared data, clicked=learner followed the link, reported=learner flagged or reported the message, verified=learner asked to verify the sender, refused=learner declined, no_response=learner never replied'
+    ),
+  score: z.number().int().min(0).max(100).describe('Resilience score (100 = reported, 0 = data disclosed)'),
+  statusCard: VishingStatusCardSchema,
+});
+
+export type SmishingTimelineLabel = (typeof SMISHING_TIMELINE_LABELS)[number];
+export type SmishingLearnerAction = (typeof SMISHING_LEARNER_ACTIONS)[number];
+export type SmishingOutcome = (typeof SMISHING_OUTCOMES_BY_SEVERITY)[number];
+export type SmishingTurnAnnotation = z.infer<typeof SmishingTurnAnnotationSchema>;
+export type SmishingTimelineItem = z.infer<typeof SmishingTimelineItemSchema>;
+export type SmishingConversationOutcome = z.infer<typeof SmishingConversationOutcomeSchema>;
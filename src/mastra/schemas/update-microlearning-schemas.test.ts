@@ -29,6 +29,21 @@ describe('update-microlearning-schemas', () => {
       const result = updatesSchema.safeParse({});
       expect(result.success).toBe(true);
     });
+
+    it('accepts targeted scene edits', () => {
+      const result = updatesSchema.safeParse({
+        sceneEdits: [
+          { sceneNumber: 5, instruction: 'Make question 3 harder' },
+          { sceneNumber: 8, instruction: 'Replace resources with our intranet links' },
+        ],
+      });
+      expect(result.success).toBe(true);
+    });
+
+    it('rejects scene edits outside scenes 1-8 or without an instruction', () => {
+      expect(updatesSchema.safeParse({ sceneEdits: [{ sceneNumber: 9, instruction: 'x' }] }).success).toBe(false);
+      expect(updatesSchema.safeParse({ sceneEdits: [{ sceneNumber: 2, instruction: '' }] }).success).toBe(false);
+    });
   });
 
   describe('updateInputSchema', () => {
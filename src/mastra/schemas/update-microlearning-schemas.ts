@@ -1,4 +1,21 @@
 import { z } from 'zod';
+import { MICROLEARNING_SCENE_EDITS } from '../constants';
+
+export const sceneEditSchema = z.object({
+  sceneNumber: z
+    .number()
+    .int()
+    .min(1)
+    .max(8)
+    .describe('Scene to edit: 1 intro, 2 goals, 3 video, 4 actionable/simulation, 5 quiz, 6 survey, 7 nudge, 8 summary'),
+  instruction: z
+    .string()
+    .min(1)
+    .max(MICROLEARNING_SCENE_EDITS.MAX_INSTRUCTION_CHARS)
+    .describe('What to change in this scene, e.g. "Make question 3 harder" or "Replace resources with these links: ..."'),
+});
+
+export type SceneEdit = z.infer<typeof sceneEditSchema>;
 
 export const updatesSchema = z.object({
   theme: z
@@ -32,6 +49,11 @@ export const updatesSchema = z.object({
     .optional(),
   useWhitelabelLogo: z.boolean().optional(),
   brandName: z.string().optional(),
+  sceneEdits: z
+    .array(sceneEditSchema)
+    .max(MICROLEARNING_SCENE_EDITS.MAX_EDITS_PER_UPDATE)
+    .optional()
+    .describe('Targeted scene content edits, applied to every language in language_availability'),
 });
 
 export const updateInputSchema = z.object({
@@ -65,6 +87,7 @@ export const loadMicrolearningOutputSchema = z.object({
   department: z.string(),
   currentContent: z.any(),
   currentVersion: z.number(),
+  languageContents: z.record(z.any()).optional().describe('ml:{id}:lang:{lang} content, loaded only for scene edits'),
   updates: updatesSchema,
   model: z.string().optional(),
   modelProvider: z.string().optional(),
@@ -79,6 +102,7 @@ export const mergeUpdatesOutputSchema = z.object({
   updatedContent: z.any(),
   newVersion: z.number(),
   changes: z.record(z.any()),
+  updatedLanguages: z.record(z.any()).optional().describe('Language content rewritten by scene edits, keyed by language'),
 });
 
 // Same shape as mergeUpdatesOutputSchema — shared reference so Mastra .then() generics match
@@ -4,6 +4,7 @@ import { Mastra } from '@mastra/core/mastra';
 import { AGENT_NAMES } from '../constants';
 import { cleanResponse } from '../utils/content-processors/json-cleaner';
 import { withRetry } from '../utils/core/resilience-utils';
+import { assertLlmBudget } from './llm-cost-service';
 import '../../../../src/__tests__/setup';
 
 // Mock dependencies
@@ -15,6 +16,10 @@ vi.mock('../utils/core/resilience-utils', () => ({
   withRetry: vi.fn(),
 }));
 
+vi.mock('./llm-cost-service', () => ({
+  assertLlmBudget: vi.fn(),
+}));
+
 /**
  * Test Suite: AgentRouter
  * Tests for routing user prompts to appropriate agents
@@ -173,6 +178,14 @@ describe('AgentRouter', () => {
   });
 
   describe('Route - Error Handling', () => {
+    it('should reject instead of defaulting when the company is over its LLM budget', async () => {
+      vi.mocked(assertLlmBudget).mockRejectedValueOnce(new Error('LLM budget exceeded for company acme (2026-10)'));
+
+      await expect(agentRouter.route('Some prompt')).rejects.toThrow('LLM budget exceeded');
+      expect(withRetry).not.toHaveBeenCalled();
+      expect(mockOrchestrator.generate).not.toHaveBeenCalled();
+    });
+
     it('should default to microlearning agent when orchestrator throws error', async () => {
       mockOrchestrator.generate.mockRejectedValue(new Error('Orchestrator failed'));
       (withRetry as any).mockRejectedValue(new Error('All retries exhausted'));
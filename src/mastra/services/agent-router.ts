@@ -5,6 +5,7 @@ import { AGENT_NAMES } from '../constants';
 import { withRetry } from '../utils/core/resilience-utils';
 import { getLogger } from '../utils/core/logger';
 import { trackAgentCost } from '../utils/core/tracked-generate';
+import { assertLlmBudget } from './llm-cost-service';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
 
@@ -101,6 +102,9 @@ export class AgentRouter {
     const validAgents = PUBLIC_ROUTABLE_AGENT_NAMES;
     const normalizedAgentMap = buildNormalizedAgentMap(validAgents);
 
+    // Outside the try: an exhausted budget must not fall back to a default agent
+    await assertLlmBudget('orchestrator-routing');
+
     try {
       logger.info('Orchestrator analyzing intent');
 
@@ -8,6 +8,7 @@
  */
 
 import { withTimeout } from '../../utils/core/resilience-utils';
+import { assertLlmBudget } from '../llm-cost-service';
 import type { Logger } from '../../utils/core/logger';
 
 // ============================================
@@ -103,6 +104,7 @@ export async function sendAgentStopMessage(
   const tag = label ? ` (${label})` : '';
   try {
     logger.info(`Sending STOP message${tag}`, { variant, threadId });
+    await assertLlmBudget('autonomous-stop-message');
     await withTimeout(
       agent.generate(STOP_MESSAGES[variant], {
         memory: {
@@ -8,6 +8,7 @@ import { AGENT_CALL_TIMEOUT_MS, AUTONOMOUS_DEFAULTS, PHISHING } from '../../cons
 import { phishingWorkflowExecutorTool } from '../../tools/orchestration';
 import { assignPhishingTool, uploadPhishingTool } from '../../tools/user-management';
 import { withTimeout, withRetry } from '../../utils/core/resilience-utils';
+import { assertLlmBudget } from '../llm-cost-service';
 import { sendAgentStopMessage, type AutonomousToolResult, type AutonomousHandlerResult } from './autonomous-handler-utils';
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
@@ -420,6 +421,7 @@ export async function generatePhishingSimulation(
   if (enhancedExecutiveReport) {
     try {
       logger.debug('Adding executive report to phishingEmailAgent memory');
+      await assertLlmBudget('autonomous-phishing-context');
       await withTimeout(
         phishingEmailAgent.generate(`[CONTEXT FROM ORCHESTRATOR: ${enhancedExecutiveReport}]`, {
           memory: {
@@ -460,6 +462,7 @@ export async function generatePhishingSimulation(
   // LEVEL 1: Primary path - Full context with timeout + retry
   try {
     logger.debug('Calling phishingEmailAgent (Level 1: Primary with full context)');
+    await assertLlmBudget('autonomous-phishing-generate');
     const agentResult = await withRetry(
       () => withTimeout(phishingEmailAgent.generate(fullPrompt, memoryConfig), AGENT_CALL_TIMEOUT_MS),
       'Phishing agent generation (Level 1)'
@@ -505,6 +508,7 @@ export async function generatePhishingSimulation(
     // LEVEL 2: Fallback - Simplified prompt without full context
     try {
       logger.debug('Attempting fallback 1: Simplified prompt');
+      await assertLlmBudget('autonomous-phishing-fallback1');
       const agentResult = await withTimeout(
         phishingEmailAgent.generate(simplifiedPrompt, memoryConfig),
         AGENT_CALL_TIMEOUT_MS
@@ -569,6 +573,7 @@ async function uploadPhishingOnly(threadId: string): Promise<AutonomousHandlerRe
     // Use goal-based prompt (more agentic)
     const uploadPrompt = buildUploadPrompt('phishing');
 
+    await assertLlmBudget('autonomous-phishing-upload');
     const uploadResponse = await withTimeout(
       phishingEmailAgent.generate(uploadPrompt, {
         memory: {
@@ -627,6 +632,7 @@ export async function uploadAndAssignPhishing(
     // Use goal-based prompt (more agentic) with explicit phishing ID
     const uploadAssignPrompt = buildUploadAndAssignPrompt('phishing', targetUserResourceId, generatedPhishingId);
 
+    await assertLlmBudget('autonomous-phishing-upload-assign');
     const uploadAssignResponse = await withTimeout(
       phishingEmailAgent.generate(uploadAssignPrompt, {
         memory: {
@@ -691,6 +697,7 @@ export async function uploadAndAssignPhishingForGroup(
       generatedPhishingId
     );
 
+    await assertLlmBudget('autonomous-phishing-group-upload-assign');
     const uploadAssignResponse = await withTimeout(
       phishingEmailAgent.generate(uploadAssignPrompt, {
         memory: {
@@ -778,6 +785,7 @@ export async function generatePhishingSimulationForGroup(
   // LEVEL 1: Primary path - Use custom prompt directly
   try {
     logger.debug('Calling phishingEmailAgent (Level 1: Custom topic-based prompt)');
+    await assertLlmBudget('autonomous-phishing-custom-generate');
     const agentResult = await withRetry(
       () => withTimeout(phishingEmailAgent.generate(customPrompt, memoryConfig), AGENT_CALL_TIMEOUT_MS),
       'Phishing agent generation (Level 1)'
@@ -814,6 +822,7 @@ export async function generatePhishingSimulationForGroup(
     // LEVEL 2/3: Fallback - use simplified approach
     try {
       logger.debug('Attempting fallback: Simplified prompt');
+      await assertLlmBudget('autonomous-phishing-custom-fallback');
       const agentResult = await withTimeout(
         phishingEmailAgent.generate(customPrompt, memoryConfig),
         AGENT_CALL_TIMEOUT_MS
@@ -931,6 +940,7 @@ export async function assignPhishingWithTraining(
       try {
         const trainingContext = `[TRAINING CONTEXT: Training Resource ID: ${trainingId}, Language ID: ${sendTrainingLanguageId || 'default'}]`;
         logger.debug('Adding training context to agent memory', { trainingId, sendTrainingLanguageId });
+        await assertLlmBudget('autonomous-phishing-training-context');
         await withTimeout(
           phishingEmailAgent.generate(trainingContext, {
             memory: {
@@ -955,6 +965,7 @@ export async function assignPhishingWithTraining(
       sendTrainingLanguageId
     );
 
+    await assertLlmBudget('autonomous-phishing-assign-training');
     const assignResponse = await withTimeout(
       phishingEmailAgent.generate(assignPrompt, {
         memory: {
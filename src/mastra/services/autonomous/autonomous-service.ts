@@ -4,6 +4,7 @@ import { requestStorage, getRequestContext } from '../../utils/core/request-stor
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../error-service';
+import { checkLlmBudget } from '../llm-cost-service';
 import { resolveBaseApiUrl } from '../../utils/core/url-validator';
 import { extractCompanyIdFromTokenExport } from '../../utils/core/policy-fetcher';
 // generateBatchId removed — each assign tool generates its own batchResourceId when threadId is undefined
@@ -60,8 +61,17 @@ export async function executeAutonomousGeneration(request: AutonomousRequest): P
     // Merge env: prefer request.env (from Workflow binding), fallback to existing context env
     const resolvedEnv = (request.env as Record<string, unknown>) || existingCtx?.env;
     return await requestStorage.run(
-      { token, baseApiUrl: effectiveBaseApiUrl, threadId, companyId, env: resolvedEnv },
+      { token, baseApiUrl: effectiveBaseApiUrl, threadId, companyId, env: resolvedEnv, workflowName: 'autonomous' },
       async (): Promise<AutonomousResponse> => {
+        // Spending guardrail (Workflow-triggered and batch runs don't pass through the route check)
+        if (companyId) {
+          const budget = await checkLlmBudget(resolvedEnv, companyId);
+          if (budget.state === 'exceeded') {
+            logger.warn('autonomous_run_blocked_by_llm_budget', { companyId, month: budget.month });
+            return { success: false, error: 'LLM budget exceeded', actions };
+          }
+        }
+
         // USER ASSIGNMENT: Get user info and generate personalized content
         if (isUserAssignment) {
           logger.info('USER ASSIGNMENT: Analyzing user behavior');
@@ -18,6 +18,7 @@ import { withTimeout, withRetry } from '../../utils/core/resilience-utils';
 import { sendAgentStopMessage, type AutonomousToolResult, type AutonomousHandlerResult } from './autonomous-handler-utils';
 import { getLogger } from '../../utils/core/logger';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../llm-cost-service';
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../error-service';
 import { summarizeForLog } from '../../utils/core/log-redaction-utils';
@@ -283,6 +284,7 @@ export async function uploadTrainingOnly(threadId: string, microlearning: Microl
     // Use goal-based prompt (more agentic)
     const uploadPrompt = buildUploadPrompt('training');
 
+    await assertLlmBudget('autonomous-training-upload');
     const uploadResponse = await withTimeout(
       microlearningAgent.generate(uploadPrompt, {
         memory: {
@@ -367,6 +369,7 @@ export async function uploadAndAssignTraining(
     // Use goal-based prompt (more agentic)
     const uploadAssignPrompt = buildUploadAndAssignPrompt('training', targetUserResourceId);
 
+    await assertLlmBudget('autonomous-training-upload-assign');
     const uploadAssignResponse = await withTimeout(
       microlearningAgent.generate(uploadAssignPrompt, {
         memory: {
@@ -458,6 +461,7 @@ export async function generateTrainingModule(
     // User assignment: executiveReport
     try {
       logger.debug('Adding executive report to microlearningAgent memory');
+      await assertLlmBudget('autonomous-training-context');
       await withTimeout(
         microlearningAgent.generate(`[CONTEXT FROM ORCHESTRATOR: ${contextOrPrompt}]`, {
           memory: {
@@ -520,6 +524,7 @@ export async function generateTrainingModule(
   // LEVEL 1: Primary path - Full context with timeout + retry
   try {
     logger.debug('Calling microlearningAgent (Level 1: Primary with full context)');
+    await assertLlmBudget('autonomous-training-generate');
     const agentResult = await withRetry(
       () => withTimeout(microlearningAgent.generate(fullPrompt, memoryConfig), LONG_RUNNING_AGENT_TIMEOUT_MS),
       'Training agent generation (Level 1)'
@@ -564,6 +569,7 @@ export async function generateTrainingModule(
     // LEVEL 2: Fallback - Simplified prompt without full context
     try {
       logger.debug('Attempting fallback 1: Simplified prompt');
+      await assertLlmBudget('autonomous-training-fallback1');
       const agentResult = await withTimeout(
         microlearningAgent.generate(simplifiedPrompt, memoryConfig),
         LONG_RUNNING_AGENT_TIMEOUT_MS
@@ -639,6 +645,7 @@ export async function uploadAndAssignTrainingForGroup(
     // Use goal-based prompt (more agentic) - adapted for group
     const uploadAssignPrompt = buildUploadAndAssignPrompt('training', targetGroupResourceId as string);
 
+    await assertLlmBudget('autonomous-training-group-upload-assign');
     const uploadAssignResponse = await withTimeout(
       microlearningAgent.generate(uploadAssignPrompt, {
         memory: {
@@ -729,6 +736,7 @@ export async function generateTrainingModuleForGroup(
   // LEVEL 1: Primary path - Use custom prompt directly
   try {
     logger.debug('Calling microlearningAgent (Level 1: Custom topic-based prompt)');
+    await assertLlmBudget('autonomous-training-group-generate');
     const agentResult = await withRetry(
       () => withTimeout(microlearningAgent.generate(customPrompt, memoryConfig), LONG_RUNNING_AGENT_TIMEOUT_MS),
       'Training agent generation (Level 1)'
@@ -760,6 +768,7 @@ export async function generateTrainingModuleForGroup(
       logger.debug('Calling microlearningAgent (Level 2: Simplified fallback)');
       const simplifiedPrompt = `Generate a brief training module on the topic covered in the original prompt. Keep it concise and practical.`;
 
+      await assertLlmBudget('autonomous-training-group-fallback');
       const agentResult = await withRetry(
         () => withTimeout(microlearningAgent.generate(simplifiedPrompt, memoryConfig), LONG_RUNNING_AGENT_TIMEOUT_MS),
         'Training agent generation (Level 2)'
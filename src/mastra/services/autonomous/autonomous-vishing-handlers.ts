@@ -1,7 +1,8 @@
 /**
  * Autonomous Vishing Call Handlers
  *
- * Initiates outbound voice phishing (vishing) simulation calls via ElevenLabs.
+ * Initiates outbound voice phishing (vishing) simulation calls via the configured
+ * voice provider (VOICE_PROVIDER, default ElevenLabs).
  * Used when actions includes 'vishing-call' and user has a phone number.
  *
  * Note: "vishing-call" = real-time voice call. Future "vishing" type may cover
@@ -12,10 +13,11 @@ import { trackedGenerateText } from '../../utils/core/tracked-generate';
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../error-service';
-import { ELEVENLABS, AGENT_CALL_TIMEOUT_MS } from '../../constants';
+import { AGENT_CALL_TIMEOUT_MS } from '../../constants';
 import { withRetry, withTimeout } from '../../utils/core/resilience-utils';
 import { validateBCP47LanguageCode, DEFAULT_LANGUAGE } from '../../utils/language/language-utils';
 import { listPhoneNumbersTool } from '../../tools/vishing-call';
+import { getVoiceSimulationProvider, VoiceProviderError } from '../voice-simulation';
 import { getDefaultAgentModel } from '../../model-providers';
 import { cleanResponse } from '../../utils/content-processors/json-cleaner';
 import type { AutonomousActionResult } from '../../types/autonomous-types';
@@ -143,7 +145,7 @@ async function getAgentPhoneNumberId(): Promise<string | undefined> {
 
 /**
  * Initiate vishing call for autonomous mode.
- * Calls ElevenLabs outbound API directly (no UI writer).
+ * Calls the voice provider directly (no UI writer).
  */
 export async function initiateAutonomousVishingCall(params: {
   toNumber: string;
@@ -153,10 +155,11 @@ export async function initiateAutonomousVishingCall(params: {
   const loggerLocal = getLogger('InitiateAutonomousVishingCall');
 
   try {
-    const apiKey = process.env.ELEVENLABS_API_KEY;
-    if (!apiKey) {
-      loggerLocal.warn('ELEVENLABS_API_KEY not set, skipping vishing call');
-      return { success: false, error: 'ELEVENLABS_API_KEY not configured' };
+    const provider = getVoiceSimulationProvider();
+    const configError = provider.getConfigurationError();
+    if (configError) {
+      loggerLocal.warn('Voice provider not configured, skipping vishing call', { provider: provider.name });
+      return { success: false, error: configError };
     }
 
     const preferredLanguageRaw = params.toolResult.userInfo?.preferredLanguage || '';
@@ -172,7 +175,7 @@ export async function initiateAutonomousVishingCall(params: {
 
     const agentPhoneNumberId = await getAgentPhoneNumberId();
     if (!agentPhoneNumberId) {
-      return { success: false, error: 'No outbound phone number configured in ElevenLabs' };
+      return { success: false, error: `No outbound phone number configured in ${provider.displayName}` };
     }
 
     const e164Regex = /^\+[1-9]\d{1,14}$/;
@@ -181,60 +184,18 @@ export async function initiateAutonomousVishingCall(params: {
       return { success: false, error: `Invalid phone format. Must be E.164 (e.g. +905551234567)` };
     }
 
-    const url = `${ELEVENLABS.API_BASE_URL}${ELEVENLABS.ENDPOINTS.OUTBOUND_CALL}`;
-    const effectiveAgentId = ELEVENLABS.DEFAULT_AGENT_ID;
-
-    const requestBody = {
-      agent_id: effectiveAgentId,
-      agent_phone_number_id: agentPhoneNumberId,
-      to_number: toNumber,
-      conversation_initiation_client_data: {
-        conversation_config_override: {
-          agent: {
-            prompt: { prompt },
-            first_message: firstMessage,
-          },
-        },
-      },
-    };
-
     loggerLocal.info('initiate_autonomous_vishing_call', {
+      provider: provider.name,
       agentPhoneNumberId,
       toNumberPrefix: toNumber.substring(0, 6) + '***',
     });
 
-    const response = await withRetry(
-      async () => {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), ELEVENLABS.API_TIMEOUT_MS);
-        try {
-          return await fetch(url, {
-            method: 'POST',
-            headers: {
-              'Content-Type': 'application/json',
-              'xi-api-key': apiKey,
-            },
-            body: JSON.stringify(requestBody),
-            signal: controller.signal,
-          });
-        } finally {
-          clearTimeout(timeoutId);
-        }
-      },
-      'autonomous_vishing_call'
-    );
-
-    if (!response.ok) {
-      const errorBody = await response.text().catch(() => '');
-      const errMsg = `ElevenLabs API ${response.status}: ${errorBody.substring(0, 200)}`;
-      const errorInfo = errorService.external(errMsg, { step: 'autonomous-vishing-call' });
-      logErrorInfo(loggerLocal, 'error', 'autonomous_vishing_call_failed', errorInfo);
-      return { success: false, error: errMsg };
-    }
-
-    const data = (await response.json()) as { conversation_id?: string; callSid?: string };
-    const conversationId = data.conversation_id ?? '';
-    const callSid = data.callSid ?? '';
+    const { conversationId, callSid } = await provider.startOutboundCall({
+      agentPhoneNumberId,
+      toNumber,
+      prompt,
+      firstMessage,
+    });
 
     loggerLocal.info('autonomous_vishing_call_initiated', { conversationId, callSid });
 
@@ -244,6 +205,13 @@ export async function initiateAutonomousVishingCall(params: {
       data: { conversationId, callSid },
     };
   } catch (error) {
+    if (error instanceof VoiceProviderError && error.status) {
+      const errMsg = error.body ? `${error.message} (${error.body.substring(0, 200)})` : error.message;
+      const errorInfo = errorService.external(errMsg, { step: 'autonomous-vishing-call' });
+      logErrorInfo(loggerLocal, 'error', 'autonomous_vishing_call_failed', errorInfo);
+      return { success: false, error: errMsg };
+    }
+
     const err = normalizeError(error);
     const errorInfo = errorService.external(err.message, {
       step: 'autonomous-vishing-call',
@@ -2,7 +2,9 @@
  * Unit tests for campaign-metadata-service
  *
  * Covers: saveCampaignMetadata, getCampaignMetadata,
- *         trySaveCampaignMetadataAfterUpload, trySaveCampaignMetadataFromInput
+ *         trySaveCampaignMetadataAfterUpload, trySaveCampaignMetadataFromInput,
+ *         deleteCampaignMetadata, deleteCampaignMetadataForContent, listCampaignMetadataBefore,
+ *         isCampaignContentOwnedBy, getCampaignMetadataForContent
  */
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import {
@@ -10,6 +12,11 @@ import {
   getCampaignMetadata,
   trySaveCampaignMetadataAfterUpload,
   trySaveCampaignMetadataFromInput,
+  deleteCampaignMetadata,
+  deleteCampaignMetadataForContent,
+  listCampaignMetadataBefore,
+  isCampaignContentOwnedBy,
+  getCampaignMetadataForContent,
   type CampaignMetadataInput,
 } from './campaign-metadata-service';
 
@@ -116,7 +123,7 @@ describe('campaign-metadata-service', () => {
 
       expect(result).toBe(true);
       expect(prepareMock).toHaveBeenCalledOnce();
-      expect(bindMock).toHaveBeenCalledWith('test-123', 'Authority, Fear', null, null, null, null, null, null);
+      expect(bindMock).toHaveBeenCalledWith('test-123', 'Authority, Fear', null, null, null, null, null, null, null, null);
     });
 
     it('trims whitespace from resourceId before saving', async () => {
@@ -128,7 +135,7 @@ describe('campaign-metadata-service', () => {
       });
 
       expect(result).toBe(true);
-      expect(bindMock).toHaveBeenCalledWith('res-trimmed', 'Urgency', null, null, null, null, null, null);
+      expect(bindMock).toHaveBeenCalledWith('res-trimmed', 'Urgency', null, null, null, null, null, null, null, null);
     });
 
     it('binds all fields when every optional field is provided', async () => {
@@ -147,7 +154,7 @@ describe('campaign-metadata-service', () => {
 
       expect(bindMock).toHaveBeenCalledWith(
         'r1', 'Urgency', 'Fear', 'CEO Fraud', 'Hard', 'phishing',
-        'Finance users are high value targets', 'phishing'
+        'Finance users are high value targets', 'phishing', null, null
       );
     });
 
@@ -156,7 +163,7 @@ describe('campaign-metadata-service', () => {
 
       await saveCampaignMetadata(envWith(db), { resourceId: 'r1' });
 
-      expect(bindMock).toHaveBeenCalledWith('r1', null, null, null, null, null, null, null);
+      expect(bindMock).toHaveBeenCalledWith('r1', null, null, null, null, null, null, null, null, null);
     });
 
     it('binds null for reasoning and contentType when not provided', async () => {
@@ -164,7 +171,7 @@ describe('campaign-metadata-service', () => {
 
       await saveCampaignMetadata(envWith(db), { resourceId: 'r1', tactic: 'Urgency' });
 
-      expect(bindMock).toHaveBeenCalledWith('r1', 'Urgency', null, null, null, null, null, null);
+      expect(bindMock).toHaveBeenCalledWith('r1', 'Urgency', null, null, null, null, null, null, null, null);
     });
 
     it('uses INSERT OR REPLACE SQL statement', async () => {
@@ -439,7 +446,16 @@ describe('campaign-metadata-service', () => {
       );
 
       expect(prepareMock).toHaveBeenCalled();
-      expect(bindMock).toHaveBeenCalledWith('res-456', 'Authority, Fear', null, 'CEO Fraud', null, null, null, null);
+      expect(bindMock).toHaveBeenCalledWith('res-456', 'Authority, Fear', null, 'CEO Fraud', null, null, null, null, null, null);
+    });
+
+    it('records the uploading company when given', async () => {
+      buildMetadataFromPhishingBaseMock.mockReturnValue({ resourceId: 'res-456', tactic: 'Urgency' });
+      const { db, bindMock } = createMockDb();
+
+      await trySaveCampaignMetadataAfterUpload(envWith(db), { topic: 'X' }, 'res-456', 'smishing', 'acme', 'sms-1');
+
+      expect(bindMock).toHaveBeenCalledWith('res-456', 'Urgency', null, null, null, null, null, null, 'acme', 'sms-1');
     });
 
     it('never throws when saveCampaignMetadata fails (D1 error)', async () => {
@@ -493,10 +509,18 @@ describe('campaign-metadata-service', () => {
 
       expect(prepareMock).toHaveBeenCalledOnce();
       expect(bindMock).toHaveBeenCalledWith(
-        'train-001', 'Social Engineering', null, 'Password Reset', 'Easy', null, null, 'training'
+        'train-001', 'Social Engineering', null, 'Password Reset', 'Easy', null, null, 'training', null, null
       );
     });
 
+    it('records the uploading company and our content ID', async () => {
+      const { db, bindMock } = createMockDb();
+
+      await trySaveCampaignMetadataFromInput(envWith(db), { resourceId: 'train-001' }, 'acme', 'ml-1');
+
+      expect(bindMock).toHaveBeenCalledWith('train-001', null, null, null, null, null, null, null, 'acme', 'ml-1');
+    });
+
     it('saves metadata with all fields populated', async () => {
       const { db, bindMock } = createMockDb();
       const metadata: CampaignMetadataInput = {
@@ -514,7 +538,7 @@ describe('campaign-metadata-service', () => {
 
       expect(bindMock).toHaveBeenCalledWith(
         'res-full', 'Authority', 'Fear', 'Invoice Scam', 'Hard', 'smishing',
-        'Targets finance department', 'smishing'
+        'Targets finance department', 'smishing', null, null
       );
     });
 
@@ -543,4 +567,114 @@ describe('campaign-metadata-service', () => {
       expect(prepareMock).not.toHaveBeenCalled();
     });
   });
+
+  /* ---------------------------------------------------------------- */
+  /* deleteCampaignMetadata / listCampaignMetadataBefore              */
+  /* ---------------------------------------------------------------- */
+
+  describe('isCampaignContentOwnedBy', () => {
+    it('looks the content up by content_id and is true only when every row belongs to the company', async () => {
+      const { db, prepareMock, bindMock } = createMockDb({
+        allResult: { success: true, results: [{ company_id: 'acme' }, { company_id: 'acme' }] },
+      });
+
+      expect(await isCampaignContentOwnedBy(envWith(db), 'acme', 'ml-1')).toBe(true);
+      expect(prepareMock.mock.calls[0][0]).toContain('WHERE content_id = ?');
+      expect(bindMock).toHaveBeenCalledWith('ml-1');
+      expect(await isCampaignContentOwnedBy(envWith(db), 'other', 'ml-1')).toBe(false);
+    });
+
+    it('is false when another company also uploaded the content', async () => {
+      const { db } = createMockDb({
+        allResult: { success: true, results: [{ company_id: 'acme' }, { company_id: 'other' }] },
+      });
+
+      expect(await isCampaignContentOwnedBy(envWith(db), 'acme', 'ml-1')).toBe(false);
+    });
+
+    it('is false for missing rows, rows without company_id and unavailable D1', async () => {
+      const missing = createMockDb();
+      const legacy = createMockDb({ allResult: { success: true, results: [{ company_id: null }] } });
+      const failing = createMockDb({ allError: new Error('no such column: content_id') });
+
+      expect(await isCampaignContentOwnedBy(envWith(missing.db), 'acme', 'ml-1')).toBe(false);
+      expect(await isCampaignContentOwnedBy(envWith(legacy.db), 'acme', 'ml-1')).toBe(false);
+      expect(await isCampaignContentOwnedBy(envWith(failing.db), 'acme', 'ml-1')).toBe(false);
+      expect(await isCampaignContentOwnedBy(undefined, 'acme', 'ml-1')).toBe(false);
+    });
+  });
+
+  describe('getCampaignMetadataForContent', () => {
+    it('maps the rows recorded for a content ID by platform resource ID', async () => {
+      const rows = [{ resource_id: 'platform-1', tactic: 'Urgency' }];
+      const { db, prepareMock, bindMock } = createMockDb({ allResult: { success: true, results: rows } });
+
+      const result = await getCampaignMetadataForContent(envWith(db), 'ml-1');
+
+      expect([...result.keys()]).toEqual(['platform-1']);
+      expect(prepareMock.mock.calls[0][0]).toContain('WHERE content_id = ?');
+      expect(bindMock).toHaveBeenCalledWith('ml-1');
+    });
+
+    it('returns an empty Map when D1 is missing or the query fails', async () => {
+      const { db } = createMockDb({ allError: new Error('D1 down') });
+
+      expect((await getCampaignMetadataForContent(undefined, 'ml-1')).size).toBe(0);
+      expect((await getCampaignMetadataForContent(envWith(db), 'ml-1')).size).toBe(0);
+    });
+  });
+
+  describe('deleteCampaignMetadata', () => {
+    it('deletes rows for unique resource IDs and returns the changed row count', async () => {
+      const { db, prepareMock, bindMock } = createMockDb({ runResult: { success: true, meta: { changes: 2 } } });
+
+      const deleted = await deleteCampaignMetadata(envWith(db), ['res-1', 'res-2', 'res-1', '']);
+
+      expect(deleted).toBe(2);
+      expect(prepareMock.mock.calls[0][0]).toContain('DELETE FROM campaign_metadata WHERE resource_id IN (?, ?)');
+      expect(bindMock).toHaveBeenCalledWith('res-1', 'res-2');
+    });
+
+    it('returns null when D1 is missing or the delete fails', async () => {
+      expect(await deleteCampaignMetadata(envWith(undefined), ['res-1'])).toBeNull();
+
+      const { db } = createMockDb({ runError: new Error('no such table') });
+      expect(await deleteCampaignMetadata(envWith(db), ['res-1'])).toBeNull();
+    });
+  });
+
+  describe('deleteCampaignMetadataForContent', () => {
+    it('deletes every row recorded for the content ID and returns the changed row count', async () => {
+      const { db, prepareMock, bindMock } = createMockDb({ runResult: { success: true, meta: { changes: 2 } } });
+
+      expect(await deleteCampaignMetadataForContent(envWith(db), 'ml-1')).toBe(2);
+      expect(prepareMock.mock.calls[0][0]).toBe('DELETE FROM campaign_metadata WHERE content_id = ?');
+      expect(bindMock).toHaveBeenCalledWith('ml-1');
+    });
+
+    it('returns null when D1 is missing or the delete fails', async () => {
+      expect(await deleteCampaignMetadataForContent(envWith(undefined), 'ml-1')).toBeNull();
+
+      const { db } = createMockDb({ runError: new Error('no such column: content_id') });
+      expect(await deleteCampaignMetadataForContent(envWith(db), 'ml-1')).toBeNull();
+    });
+  });
+
+  describe('listCampaignMetadataBefore', () => {
+    it('lists rows created before the cutoff, oldest first', async () => {
+      const rows = [{ resource_id: 'old-1', created_at: '2024-01-01 00:00:00' }];
+      const { db, prepareMock, bindMock } = createMockDb({ allResult: { success: true, results: rows } });
+
+      const result = await listCampaignMetadataBefore(envWith(db), '2025-01-01', 25);
+
+      expect(result).toEqual(rows);
+      expect(prepareMock.mock.calls[0][0]).toContain('WHERE created_at < ? ORDER BY created_at ASC LIMIT ?');
+      expect(bindMock).toHaveBeenCalledWith('2025-01-01', 25);
+    });
+
+    it('returns null when the query fails', async () => {
+      const { db } = createMockDb({ allError: new Error('D1 down') });
+      expect(await listCampaignMetadataBefore(envWith(db), '2025-01-01', 25)).toBeNull();
+    });
+  });
 });
@@ -24,6 +24,10 @@ export interface CampaignMetadataInput {
   scenarioType?: string;
   reasoning?: string;
   contentType?: 'phishing' | 'quishing' | 'smishing' | 'training';
+  /** Uploading company — lets GDPR export/erasure verify ownership of the content */
+  companyId?: string;
+  /** Our own content ID (microlearningId / phishingId / smishingId) — the ID the KV keys use */
+  contentId?: string;
 }
 
 export interface CampaignMetadataRow {
@@ -47,6 +51,7 @@ interface D1PreparedStatement {
 interface D1Result {
   success: boolean;
   results?: unknown[];
+  meta?: { changes?: number };
 }
 
 interface D1Database {
@@ -81,8 +86,8 @@ export async function saveCampaignMetadata(
     });
     const stmt = db.prepare(
       `INSERT OR REPLACE INTO campaign_metadata
-       (resource_id, tactic, persuasion_tactic, scenario, difficulty, scenario_type, reasoning, content_type)
-       VALUES (?, ?, ?, ?, ?, ?, ?, ?)`
+       (resource_id, tactic, persuasion_tactic, scenario, difficulty, scenario_type, reasoning, content_type, company_id, content_id)
+       VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
     );
     await stmt
       .bind(
@@ -93,7 +98,9 @@ export async function saveCampaignMetadata(
         metadata.difficulty ?? null,
         metadata.scenarioType ?? null,
         metadata.reasoning ?? null,
-        metadata.contentType ?? null
+        metadata.contentType ?? null,
+        metadata.companyId ?? null,
+        metadata.contentId ?? null
       )
       .run();
     logger.debug('Campaign metadata saved OK', { resourceId, tactic: metadata.tactic });
@@ -170,10 +177,13 @@ export async function trySaveCampaignMetadataAfterUpload(
   env: Record<string, unknown> | undefined,
   phishingData: { psychologicalTriggers?: unknown; topic?: unknown; difficulty?: unknown; explainability?: Explainability; isQuishing?: boolean } | undefined,
   resourceId: string | undefined,
-  contentType: 'phishing' | 'smishing' = 'phishing'
+  contentType: 'phishing' | 'smishing' = 'phishing',
+  companyId?: string,
+  contentId?: string
 ): Promise<void> {
   try {
-    const metadata = buildMetadataFromPhishingBase(phishingData, resourceId ?? '', contentType);
+    const built = buildMetadataFromPhishingBase(phishingData, resourceId ?? '', contentType);
+    const metadata = built && { ...built, ...(companyId && { companyId }), ...(contentId && { contentId }) };
     if (metadata) {
       logger.debug('Campaign metadata build OK, saving...', {
         resourceId: metadata.resourceId,
@@ -195,9 +205,12 @@ export async function trySaveCampaignMetadataAfterUpload(
  */
 export async function trySaveCampaignMetadataFromInput(
   env: Record<string, unknown> | undefined,
-  metadata: CampaignMetadataInput | null | undefined
+  input: CampaignMetadataInput | null | undefined,
+  companyId?: string,
+  contentId?: string
 ): Promise<void> {
-  if (!metadata) return;
+  if (!input) return;
+  const metadata = { ...input, ...(companyId && { companyId }), ...(contentId && { contentId }) };
   try {
     logger.debug('Campaign metadata save attempt (pre-built)', {
       resourceId: metadata.resourceId,
@@ -208,3 +221,159 @@ export async function trySaveCampaignMetadataFromInput(
     // Swallow — upload succeeded, metadata is optional
   }
 }
+
+/**
+ * Whether our content `contentId` (the ID in the ml:/phishing:/smishing: KV keys) was
+ * uploaded by `companyId`: it has at least one campaign_metadata row and every row for
+ * it carries that company_id. False when no row exists, a row predates migration 0015
+ * (no content_id) or 0014 (no company_id), another company uploaded it too, or D1 is
+ * unavailable — callers answer 404 so a tenant cannot reach another tenant's content.
+ * Never throws.
+ */
+export async function isCampaignContentOwnedBy(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  contentId: string
+): Promise<boolean> {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db || !companyId || !contentId) {
+    return false;
+  }
+
+  try {
+    const rows = await db
+      .prepare('SELECT company_id FROM campaign_metadata WHERE content_id = ?')
+      .bind(contentId)
+      .all();
+    const owners = (rows?.results as Array<{ company_id: string | null }> | undefined) ?? [];
+    return owners.length > 0 && owners.every(row => row.company_id === companyId);
+  } catch (error) {
+    logger.warn('Failed to check campaign content ownership', {
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return false;
+  }
+}
+
+/**
+ * Fetches the metadata rows recorded for our content ID (one per upload). Returns a map
+ * resourceId -> metadata like getCampaignMetadata(). Never throws — empty Map on any error.
+ */
+export async function getCampaignMetadataForContent(
+  env: Record<string, unknown> | undefined,
+  contentId: string
+): Promise<Map<string, CampaignMetadataRow>> {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  const result = new Map<string, CampaignMetadataRow>();
+  if (!db || !contentId) {
+    return result;
+  }
+
+  try {
+    const rows = await db
+      .prepare(
+        `SELECT resource_id, tactic, persuasion_tactic, scenario, difficulty, scenario_type, created_at, reasoning, content_type
+         FROM campaign_metadata WHERE content_id = ?`
+      )
+      .bind(contentId)
+      .all();
+    for (const row of (rows?.results as CampaignMetadataRow[] | undefined) ?? []) {
+      result.set(row.resource_id, row);
+    }
+  } catch (error) {
+    logger.warn('Failed to fetch campaign metadata for content', {
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+  }
+  return result;
+}
+
+/**
+ * Deletes metadata rows for given resource IDs (GDPR erasure / retention).
+ * Returns the number of rows deleted, or null if D1 is unavailable or the delete failed. Never throws.
+ */
+export async function deleteCampaignMetadata(
+  env: Record<string, unknown> | undefined,
+  resourceIds: string[]
+): Promise<number | null> {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('Campaign metadata delete skipped: D1 not available');
+    return null;
+  }
+  const uniqueIds = [...new Set(resourceIds.filter(id => typeof id === 'string' && id.trim().length > 0))];
+  if (uniqueIds.length === 0) return 0;
+
+  try {
+    const placeholders = uniqueIds.map(() => '?').join(', ');
+    const stmt = db.prepare(`DELETE FROM campaign_metadata WHERE resource_id IN (${placeholders})`);
+    const result = await stmt.bind(...uniqueIds).run();
+    return result?.meta?.changes ?? uniqueIds.length;
+  } catch (error) {
+    logger.warn('Failed to delete campaign metadata', {
+      sampleIds: uniqueIds.slice(0, 3),
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Deletes the metadata rows recorded for our content ID (GDPR erasure).
+ * Returns the number of rows deleted, or null if D1 is unavailable or the delete failed. Never throws.
+ */
+export async function deleteCampaignMetadataForContent(
+  env: Record<string, unknown> | undefined,
+  contentId: string
+): Promise<number | null> {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('Campaign metadata delete skipped: D1 not available');
+    return null;
+  }
+  if (!contentId) return 0;
+
+  try {
+    const result = await db.prepare('DELETE FROM campaign_metadata WHERE content_id = ?').bind(contentId).run();
+    return result?.meta?.changes ?? 0;
+  } catch (error) {
+    logger.warn('Failed to delete campaign metadata for content', {
+      contentId,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
+
+/**
+ * Lists metadata rows created before `cutoffDay` (YYYY-MM-DD), oldest first.
+ * Returns null if D1 is unavailable or the query failed. Never throws.
+ */
+export async function listCampaignMetadataBefore(
+  env: Record<string, unknown> | undefined,
+  cutoffDay: string,
+  limit: number
+): Promise<CampaignMetadataRow[] | null> {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('Campaign metadata list skipped: D1 not available');
+    return null;
+  }
+
+  try {
+    const stmt = db.prepare(
+      `SELECT resource_id, tactic, persuasion_tactic, scenario, difficulty, scenario_type, created_at, reasoning, content_type
+       FROM campaign_metadata WHERE created_at < ? ORDER BY created_at ASC LIMIT ?`
+    );
+    const rows = await stmt.bind(cutoffDay, limit).all();
+    return (rows?.results as CampaignMetadataRow[]) ?? [];
+  } catch (error) {
+    logger.warn('Failed to list expired campaign metadata', {
+      cutoffDay,
+      error: error instanceof Error ? error.message : String(error),
+    });
+    return null;
+  }
+}
@@ -13,6 +13,7 @@ import { cleanResponse } from '../utils/content-processors/json-cleaner';
 import { withRetry } from '../utils/core/resilience-utils';
 import { getLogger } from '../utils/core/logger';
 import { trackAgentCost } from '../utils/core/tracked-generate';
+import { assertLlmBudget } from './llm-cost-service';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
 import { errorService } from '../services/error-service';
 import {
@@ -53,6 +54,9 @@ export class CSAgentRouter {
     const orchestrator = this.mastra.getAgent(CS_AGENT_NAMES.CS_ORCHESTRATOR);
     const validAgents: readonly CSAgentName[] = CS_VALID_AGENTS;
 
+    // Outside the try: an exhausted budget must not fall back to a default agent
+    await assertLlmBudget('cs-orchestrator-routing');
+
     try {
       logger.info('CS Orchestrator analyzing intent');
 
@@ -0,0 +1,333 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  checkLikenessConsent,
+  evaluateLikenessConsent,
+  recordDeepfakeGeneration,
+  resolveDisclosureText,
+  revokeLikenessConsent,
+  upsertLikenessEntry,
+  type LikenessEntry,
+} from './deepfake-likeness-service';
+import { DEEPFAKE_LIKENESS } from '../constants';
+
+const mockLogDataAccess = vi.fn();
+
+vi.mock('./gdpr-service', () => ({
+  logDataAccess: (...args: unknown[]) => mockLogDataAccess(...args),
+  computeHash: vi.fn(async (value: string) => `sha256:${value.length}`),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createMockDb(options: { results?: unknown[]; changes?: number; fail?: boolean } = {}) {
+  const statements: { sql: string; values: unknown[] }[] = [];
+  const prepare = vi.fn().mockImplementation((sql: string) => {
+    const entry = { sql, values: [] as unknown[] };
+    statements.push(entry);
+    const statement = {
+      bind: vi.fn((...args: unknown[]) => {
+        entry.values = args;
+        return statement;
+      }),
+      run: vi.fn(async () => {
+        if (options.fail) throw new Error('D1 error');
+        return { success: true, meta: { changes: options.changes ?? 1 } };
+      }),
+      all: vi.fn(async () => {
+        if (options.fail) throw new Error('D1 error');
+        return { success: true, results: options.results ?? [] };
+      }),
+    };
+    return statement;
+  });
+  return { prepare, statements };
+}
+
+const row = (overrides: Record<string, unknown> = {}) => ({
+  company_id: 'acme',
+  avatar_id: 'ceo-avatar',
+  provider: 'heygen',
+  person_name: 'Jane Doe',
+  consent_status: 'granted',
+  consent_reference: 'DOC-42',
+  consent_granted_at: '2026-01-01T00:00:00Z',
+  consent_expires_at: '2027-01-01T00:00:00Z',
+  allowed_use_cases: '["executive_impersonation","awareness_training"]',
+  revoked_at: null,
+  created_at: '2026-01-01 00:00:00',
+  updated_at: '2026-01-01 00:00:00',
+  ...overrides,
+});
+
+const entry = (overrides: Partial<LikenessEntry> = {}): LikenessEntry => ({
+  companyId: 'acme',
+  avatarId: 'ceo-avatar',
+  provider: 'heygen',
+  personName: 'Jane Doe',
+  consentStatus: 'granted',
+  consentReference: null,
+  consentGrantedAt: null,
+  consentExpiresAt: '2027-01-01T00:00:00Z',
+  allowedUseCases: ['executive_impersonation'],
+  revokedAt: null,
+  createdAt: '2026-01-01 00:00:00',
+  updatedAt: '2026-01-01 00:00:00',
+  ...overrides,
+});
+
+const NOW = new Date('2026-06-01T00:00:00Z');
+
+describe('evaluateLikenessConsent', () => {
+  it('allows granted, unexpired consent covering the use case', () => {
+    const decision = evaluateLikenessConsent(entry(), 'executive_impersonation', NOW);
+    expect(decision).toMatchObject({ allowed: true, reason: 'consented' });
+    expect(decision.message).toBeUndefined();
+  });
+
+  it('refuses pending or revoked consent', () => {
+    for (const consentStatus of ['pending', 'revoked'] as const) {
+      const decision = evaluateLikenessConsent(entry({ consentStatus }), 'executive_impersonation', NOW);
+      expect(decision).toMatchObject({ allowed: false, reason: 'consent_not_granted' });
+      expect(decision.message).toContain(consentStatus);
+      expect(decision.message).toContain('likeness registry');
+    }
+  });
+
+  it('refuses expired consent', () => {
+    const decision = evaluateLikenessConsent(
+      entry({ consentExpiresAt: '2026-05-31T23:59:59Z' }),
+      'executive_impersonation',
+      NOW
+    );
+    expect(decision).toMatchObject({ allowed: false, reason: 'consent_expired' });
+  });
+
+  it('refuses use cases the consent does not cover', () => {
+    const decision = evaluateLikenessConsent(entry(), 'financial_fraud', NOW);
+    expect(decision).toMatchObject({ allowed: false, reason: 'use_case_not_allowed' });
+    expect(decision.message).toContain('executive_impersonation');
+  });
+});
+
+describe('resolveDisclosureText', () => {
+  it('falls back to the default disclosure', () => {
+    expect(resolveDisclosureText(undefined)).toBe(DEEPFAKE_LIKENESS.DEFAULT_DISCLOSURE_TEXT);
+    expect(resolveDisclosureText('   ')).toBe(DEEPFAKE_LIKENESS.DEFAULT_DISCLOSURE_TEXT);
+  });
+
+  it('collapses whitespace and caps the length', () => {
+    expect(resolveDisclosureText('  KI-generierte\n Simulation ')).toBe('KI-generierte Simulation');
+    expect(resolveDisclosureText('x'.repeat(500))).toHaveLength(DEEPFAKE_LIKENESS.DISCLOSURE_MAX_CHARS);
+  });
+});
+
+describe('checkLikenessConsent', () => {
+  it('allows unregistered avatars', async () => {
+    const db = createMockDb();
+    const decision = await checkLikenessConsent(
+      { agentic_ally_memory: db },
+      { companyId: 'acme', avatarId: 'stock-avatar', useCase: 'awareness_training' }
+    );
+    expect(decision).toEqual({ allowed: true, reason: 'unregistered' });
+    expect(db.statements[0].sql).toContain('WHERE avatar_id = ?');
+    expect(db.statements[0].values).toEqual(['stock-avatar']);
+  });
+
+  it('evaluates registered avatars against their consent', async () => {
+    const db = createMockDb({ results: [row()] });
+    const env = { agentic_ally_memory: db };
+
+    const allowed = await checkLikenessConsent(env, {
+      companyId: 'acme',
+      avatarId: 'ceo-avatar',
+      useCase: 'awareness_training',
+      now: NOW,
+    });
+    expect(allowed).toMatchObject({ allowed: true, reason: 'consented' });
+    expect(allowed.entry?.allowedUseCases).toEqual(['executive_impersonation', 'awareness_training']);
+
+    const refused = await checkLikenessConsent(env, {
+      companyId: 'acme',
+      avatarId: 'ceo-avatar',
+      useCase: 'vendor_impersonation',
+      now: NOW,
+    });
+    expect(refused).toMatchObject({ allowed: false, reason: 'use_case_not_allowed' });
+  });
+
+  it('refuses an avatar another company registered until the requesting company records consent', async () => {
+    const request = { companyId: 'globex', avatarId: 'ceo-avatar', useCase: 'awareness_training', now: NOW } as const;
+
+    const grantedByAcme = createMockDb({ results: [row()] });
+    const refused = await checkLikenessConsent({ agentic_ally_memory: grantedByAcme }, request);
+    expect(refused).toMatchObject({ allowed: false, reason: 'not_registered_for_company' });
+    expect(refused.message).not.toContain('Jane Doe');
+    expect(refused.entry).toBeUndefined();
+
+    const revokedByAcme = createMockDb({ results: [row({ consent_status: 'revoked' })] });
+    await expect(checkLikenessConsent({ agentic_ally_memory: revokedByAcme }, request)).resolves.toMatchObject({
+      allowed: false,
+      reason: 'not_registered_for_company',
+    });
+
+    const ownConsent = createMockDb({
+      results: [row({ consent_status: 'revoked' }), row({ company_id: 'globex', consent_reference: 'GLX-7' })],
+    });
+    const allowed = await checkLikenessConsent({ agentic_ally_memory: ownConsent }, request);
+    expect(allowed).toMatchObject({ allowed: true, reason: 'consented', entry: { companyId: 'globex' } });
+  });
+
+  it('treats unknown stored statuses as not granted', async () => {
+    const db = createMockDb({ results: [row({ consent_status: 'approved' })] });
+    const decision = await checkLikenessConsent(
+      { agentic_ally_memory: db },
+      { companyId: 'acme', avatarId: 'ceo-avatar', useCase: 'awareness_training', now: NOW }
+    );
+    expect(decision).toMatchObject({ allowed: false, reason: 'consent_not_granted' });
+  });
+
+  it('refuses when the registry query fails', async () => {
+    const db = createMockDb({ fail: true });
+    const decision = await checkLikenessConsent(
+      { agentic_ally_memory: db },
+      { companyId: 'acme', avatarId: 'ceo-avatar', useCase: 'awareness_training' }
+    );
+    expect(decision).toMatchObject({ allowed: false, reason: 'registry_error' });
+  });
+
+  it('refuses without D1 or a company', async () => {
+    await expect(
+      checkLikenessConsent(undefined, { companyId: 'acme', avatarId: 'stock-avatar', useCase: 'awareness_training' })
+    ).resolves.toMatchObject({ allowed: false, reason: 'registry_unavailable' });
+
+    const db = createMockDb();
+    await expect(
+      checkLikenessConsent({ agentic_ally_memory: db }, { avatarId: 'stock-avatar', useCase: 'awareness_training' })
+    ).resolves.toMatchObject({ allowed: false, reason: 'registry_unavailable' });
+    expect(db.prepare).not.toHaveBeenCalled();
+  });
+});
+
+describe('upsertLikenessEntry', () => {
+  beforeEach(() => {
+    mockLogDataAccess.mockReset().mockResolvedValue(true);
+  });
+
+  const input = {
+    companyId: 'acme',
+    avatarId: 'ceo-avatar',
+    provider: 'heygen',
+    personName: 'Jane Doe',
+    consentStatus: 'granted' as const,
+    consentReference: 'DOC-42',
+    consentExpiresAt: '2027-01-01T00:00:00Z',
+    allowedUseCases: ['executive_impersonation' as const],
+  };
+
+  it('writes the entry and audits the consent change', async () => {
+    const db = createMockDb({ results: [row()] });
+    const env = { agentic_ally_memory: db };
+
+    const result = await upsertLikenessEntry(env, input);
+
+    expect(result?.avatarId).toBe('ceo-avatar');
+    const insert = db.statements.find(s => s.sql.includes('INSERT INTO'));
+    expect(insert?.values).toEqual([
+      'acme',
+      'ceo-avatar',
+      'heygen',
+      'Jane Doe',
+      'granted',
+      'DOC-42',
+      null,
+      '2027-01-01T00:00:00Z',
+      '["executive_impersonation"]',
+      'granted',
+    ]);
+    expect(mockLogDataAccess).toHaveBeenCalledWith(
+      env,
+      expect.objectContaining({
+        companyId: 'acme',
+        action: 'UPDATE',
+        resourceType: 'USER_PII',
+        resourceId: 'ceo-avatar',
+        details: expect.objectContaining({ type: 'likeness_consent', consentStatus: 'granted' }),
+      })
+    );
+  });
+
+  it('audits new avatars as CREATE', async () => {
+    const db = createMockDb();
+    await upsertLikenessEntry({ agentic_ally_memory: db }, input);
+    expect(mockLogDataAccess.mock.calls[0][1].action).toBe('CREATE');
+  });
+
+  it('returns null when D1 is unavailable or the write fails', async () => {
+    await expect(upsertLikenessEntry(undefined, input)).resolves.toBeNull();
+    await expect(upsertLikenessEntry({ agentic_ally_memory: createMockDb({ fail: true }) }, input)).resolves.toBeNull();
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('revokeLikenessConsent', () => {
+  beforeEach(() => {
+    mockLogDataAccess.mockReset().mockResolvedValue(true);
+  });
+
+  it('revokes registered avatars and audits the change', async () => {
+    const db = createMockDb({ changes: 1 });
+    await expect(revokeLikenessConsent({ agentic_ally_memory: db }, 'acme', 'ceo-avatar')).resolves.toBe(true);
+    expect(db.statements[0].values).toEqual(['acme', 'ceo-avatar']);
+    expect(mockLogDataAccess.mock.calls[0][1]).toMatchObject({
+      action: 'UPDATE',
+      details: { type: 'likeness_consent', consentStatus: 'revoked' },
+    });
+  });
+
+  it('returns false for unregistered avatars and null on failure', async () => {
+    await expect(
+      revokeLikenessConsent({ agentic_ally_memory: createMockDb({ changes: 0 }) }, 'acme', 'x')
+    ).resolves.toBe(false);
+    await expect(
+      revokeLikenessConsent({ agentic_ally_memory: createMockDb({ fail: true }) }, 'acme', 'x')
+    ).resolves.toBeNull();
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+});
+
+describe('recordDeepfakeGeneration', () => {
+  it('audits the video without storing the script', async () => {
+    mockLogDataAccess.mockReset().mockResolvedValue(true);
+    const env = { agentic_ally_memory: createMockDb() };
+
+    await recordDeepfakeGeneration(env, {
+      companyId: 'acme',
+      videoId: 'vid-1',
+      provider: 'heygen',
+      avatarId: 'ceo-avatar',
+      voiceId: 'voice-1',
+      useCase: 'executive_impersonation',
+      disclosureText: DEEPFAKE_LIKENESS.DEFAULT_DISCLOSURE_TEXT,
+      inputText: 'Please wire the funds today',
+      likeness: 'consented',
+    });
+
+    const [, record] = mockLogDataAccess.mock.calls[0];
+    expect(record).toMatchObject({
+      companyId: 'acme',
+      action: 'CREATE',
+      resourceType: 'AI_GENERATED',
+      resourceId: 'vid-1',
+      details: { type: 'deepfake_video', useCase: 'executive_impersonation', likeness: 'consented' },
+    });
+    expect(JSON.stringify(record)).not.toContain('wire the funds');
+    expect(record.details.scriptSha256).toBe('sha256:27');
+  });
+});
@@ -0,0 +1,421 @@
+/**
+ * Deepfake Likeness Registry Service
+ *
+ * Records which avatars depict real people, who consented, until when, and for
+ * which simulation use cases (DEEPFAKE_LIKENESS.USE_CASES). generate-deepfake-video
+ * checks the registry before calling the video provider:
+ *   - avatar no company registered → allowed (vendor stock avatar)
+ *   - registered avatar → requires the requesting company's own granted, unexpired consent
+ *     covering the use case. The provider's avatar pool is shared by every company, so an
+ *     avatar registered (or revoked) by any company is a real person for all of them.
+ *   - registry query fails, no D1 binding or no company → refused (fail closed)
+ *
+ * Consent changes and every generated video are written to the GDPR audit hash chain
+ * (EU AI Act Art. 50 transparency): the video ID, avatar, use case, disclosure text and
+ * a SHA-256 of the script — never the script itself.
+ *
+ * Pattern: follows gdpr-service.ts — never throws; returns null/false when D1 is
+ * unavailable or a query fails.
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { DEEPFAKE_LIKENESS, type DeepfakeConsentStatus, type DeepfakeUseCase } from '../constants';
+import { computeHash, logDataAccess } from './gdpr-service';
+
+const logger = getLogger('DeepfakeLikenessService');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  all(): Promise<D1Result>;
+}
+
+interface D1Result {
+  success: boolean;
+  results?: unknown[];
+  meta?: { changes?: number };
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Types ───
+
+export interface LikenessEntryInput {
+  companyId: string;
+  avatarId: string;
+  provider: string;
+  personName: string;
+  consentStatus: DeepfakeConsentStatus;
+  consentReference?: string | null;
+  consentGrantedAt?: string | null;
+  consentExpiresAt?: string | null;
+  allowedUseCases: DeepfakeUseCase[];
+}
+
+export interface LikenessEntry {
+  companyId: string;
+  avatarId: string;
+  provider: string;
+  personName: string;
+  consentStatus: DeepfakeConsentStatus;
+  consentReference: string | null;
+  consentGrantedAt: string | null;
+  consentExpiresAt: string | null;
+  allowedUseCases: DeepfakeUseCase[];
+  revokedAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+interface LikenessRow {
+  company_id: string;
+  avatar_id: string;
+  provider: string;
+  person_name: string;
+  consent_status: string;
+  consent_reference: string | null;
+  consent_granted_at: string | null;
+  consent_expires_at: string | null;
+  allowed_use_cases: string;
+  revoked_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type LikenessDecisionReason =
+  | 'unregistered'
+  | 'consented'
+  | 'registry_unavailable'
+  | 'registry_error'
+  | 'consent_not_granted'
+  | 'not_registered_for_company'
+  | 'consent_expired'
+  | 'use_case_not_allowed';
+
+export interface LikenessDecision {
+  allowed: boolean;
+  reason: LikenessDecisionReason;
+  /** User-facing explanation when the video is refused */
+  message?: string;
+  entry?: LikenessEntry;
+}
+
+export interface DeepfakeGenerationAudit {
+  companyId: string;
+  videoId: string;
+  provider: string;
+  avatarId: string;
+  voiceId: string;
+  useCase: DeepfakeUseCase;
+  disclosureText: string;
+  inputText: string;
+  likeness: LikenessDecisionReason;
+}
+
+// ─── Consent Evaluation ───
+
+/** Pure consent decision for a registered avatar */
+export function evaluateLikenessConsent(entry: LikenessEntry, useCase: DeepfakeUseCase, now: Date): LikenessDecision {
+  const subject = `Avatar "${entry.avatarId}" depicts ${entry.personName}`;
+  if (entry.consentStatus !== 'granted') {
+    return {
+      allowed: false,
+      reason: 'consent_not_granted',
+      message: `${subject}; their consent is ${entry.consentStatus}. Choose another avatar or record their consent in the likeness registry.`,
+      entry,
+    };
+  }
+  if (entry.consentExpiresAt && Date.parse(entry.consentExpiresAt) <= now.getTime()) {
+    return {
+      allowed: false,
+      reason: 'consent_expired',
+      message: `${subject}; their consent expired on ${entry.consentExpiresAt}. Renew it in the likeness registry or choose another avatar.`,
+      entry,
+    };
+  }
+  if (!entry.allowedUseCases.includes(useCase)) {
+    return {
+      allowed: false,
+      reason: 'use_case_not_allowed',
+      message: `${subject}; their consent does not cover "${useCase}" (allowed: ${entry.allowedUseCases.join(', ') || 'none'}).`,
+      entry,
+    };
+  }
+  return { allowed: true, reason: 'consented', entry };
+}
+
+/** Overlay text for a generated video: the caller's wording, or the default disclosure */
+export function resolveDisclosureText(requested: string | undefined): string {
+  const text = requested?.replace(/\s+/g, ' ').trim();
+  return (text || DEEPFAKE_LIKENESS.DEFAULT_DISCLOSURE_TEXT).slice(0, DEEPFAKE_LIKENESS.DISCLOSURE_MAX_CHARS);
+}
+
+// ─── D1 ───
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, likeness registry disabled');
+    return null;
+  }
+  return db;
+}
+
+function parseUseCases(value: string | null): DeepfakeUseCase[] {
+  try {
+    const parsed: unknown = value ? JSON.parse(value) : [];
+    return Array.isArray(parsed)
+      ? parsed.filter((item): item is DeepfakeUseCase =>
+          (DEEPFAKE_LIKENESS.USE_CASES as readonly string[]).includes(item as string)
+        )
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+function toEntry(row: LikenessRow): LikenessEntry {
+  return {
+    companyId: row.company_id,
+    avatarId: row.avatar_id,
+    provider: row.provider,
+    personName: row.person_name,
+    // Unknown statuses are treated as not granted
+    consentStatus: (DEEPFAKE_LIKENESS.CONSENT_STATUSES as readonly string[]).includes(row.consent_status)
+      ? (row.consent_status as DeepfakeConsentStatus)
+      : 'pending',
+    consentReference: row.consent_reference,
+    consentGrantedAt: row.consent_granted_at,
+    consentExpiresAt: row.consent_expires_at,
+    allowedUseCases: parseUseCases(row.allowed_use_cases),
+    revokedAt: row.revoked_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+const SELECT_COLUMNS = `company_id, avatar_id, provider, person_name, consent_status, consent_reference,
+  consent_granted_at, consent_expires_at, allowed_use_cases, revoked_at, created_at, updated_at`;
+
+async function findEntry(db: D1Database, companyId: string, avatarId: string): Promise<LikenessEntry | null> {
+  const result = await db
+    .prepare(`SELECT ${SELECT_COLUMNS} FROM ${DEEPFAKE_LIKENESS.TABLE} WHERE company_id = ? AND avatar_id = ?`)
+    .bind(companyId, avatarId)
+    .all();
+  const row = (result?.results as LikenessRow[] | undefined)?.[0];
+  return row ? toEntry(row) : null;
+}
+
+/** Every company's record of an avatar — the provider's avatar pool is shared across companies */
+async function findEntriesForAvatar(db: D1Database, avatarId: string): Promise<LikenessEntry[]> {
+  const result = await db
+    .prepare(`SELECT ${SELECT_COLUMNS} FROM ${DEEPFAKE_LIKENESS.TABLE} WHERE avatar_id = ?`)
+    .bind(avatarId)
+    .all();
+  return ((result?.results as LikenessRow[] | undefined) ?? []).map(toEntry);
+}
+
+/**
+ * Consent check run before every render. Never throws. Only a registry that was actually
+ * consulted can allow a video: a missing D1 binding or company refuses it, like a failed query.
+ */
+export async function checkLikenessConsent(
+  env: Record<string, unknown> | undefined,
+  request: { companyId?: string; avatarId: string; useCase: DeepfakeUseCase; now?: Date }
+): Promise<LikenessDecision> {
+  const db = getDb(env);
+  if (!db || !request.companyId) {
+    logger.warn('likeness_registry_unavailable', { avatarId: request.avatarId, hasCompanyId: !!request.companyId });
+    return {
+      allowed: false,
+      reason: 'registry_unavailable',
+      message: 'The likeness registry is not available, so the video was not generated.',
+    };
+  }
+
+  try {
+    const entries = await findEntriesForAvatar(db, request.avatarId);
+    if (entries.length === 0) return { allowed: true, reason: 'unregistered' };
+
+    const entry = entries.find(candidate => candidate.companyId === request.companyId);
+    if (!entry) {
+      // Another company registered this avatar as a real person; its details are not ours to show
+      return {
+        allowed: false,
+        reason: 'not_registered_for_company',
+        message: `Avatar "${request.avatarId}" depicts a real person but has no consent record for your company. Register their consent in the likeness registry or choose another avatar.`,
+      };
+    }
+    return evaluateLikenessConsent(entry, request.useCase, request.now ?? new Date());
+  } catch (error) {
+    logger.warn('likeness_registry_check_failed', {
+      avatarId: request.avatarId,
+      error: normalizeError(error).message,
+    });
+    return {
+      allowed: false,
+      reason: 'registry_error',
+      message: 'The likeness registry could not be checked, so the video was not generated. Please try again shortly.',
+    };
+  }
+}
+
+export async function listLikenessEntries(
+  env: Record<string, unknown> | undefined,
+  companyId: string
+): Promise<LikenessEntry[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        `SELECT ${SELECT_COLUMNS} FROM ${DEEPFAKE_LIKENESS.TABLE}
+         WHERE company_id = ? ORDER BY person_name, avatar_id LIMIT ${DEEPFAKE_LIKENESS.LIST_LIMIT}`
+      )
+      .bind(companyId)
+      .all();
+    return ((result?.results as LikenessRow[] | undefined) ?? []).map(toEntry);
+  } catch (error) {
+    logger.warn('likeness_registry_list_failed', { error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/**
+ * Create or replace the consent record for an avatar. Re-granting clears revoked_at.
+ * Audited as CREATE/UPDATE USER_PII in the hash chain.
+ */
+export async function upsertLikenessEntry(
+  env: Record<string, unknown> | undefined,
+  input: LikenessEntryInput
+): Promise<LikenessEntry | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const existing = await findEntry(db, input.companyId, input.avatarId);
+    await db
+      .prepare(
+        `INSERT INTO ${DEEPFAKE_LIKENESS.TABLE}
+           (company_id, avatar_id, provider, person_name, consent_status, consent_reference,
+            consent_granted_at, consent_expires_at, allowed_use_cases, revoked_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? = 'revoked' THEN datetime('now') END, datetime('now'))
+         ON CONFLICT(company_id, avatar_id) DO UPDATE SET
+           provider = excluded.provider,
+           person_name = excluded.person_name,
+           consent_status = excluded.consent_status,
+           consent_reference = excluded.consent_reference,
+           consent_granted_at = excluded.consent_granted_at,
+           consent_expires_at = excluded.consent_expires_at,
+           allowed_use_cases = excluded.allowed_use_cases,
+           revoked_at = CASE WHEN excluded.consent_status = 'revoked'
+             THEN COALESCE(${DEEPFAKE_LIKENESS.TABLE}.revoked_at, excluded.revoked_at) END,
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        input.companyId,
+        input.avatarId,
+        input.provider,
+        input.personName,
+        input.consentStatus,
+        input.consentReference ?? null,
+        input.consentGrantedAt ?? null,
+        input.consentExpiresAt ?? null,
+        JSON.stringify(input.allowedUseCases),
+        input.consentStatus
+      )
+      .run();
+
+    await logDataAccess(env, {
+      companyId: input.companyId,
+      action: existing ? 'UPDATE' : 'CREATE',
+      resourceType: 'USER_PII',
+      resourceId: input.avatarId,
+      details: {
+        type: 'likeness_consent',
+        provider: input.provider,
+        consentStatus: input.consentStatus,
+        consentExpiresAt: input.consentExpiresAt ?? null,
+        allowedUseCases: input.allowedUseCases,
+        consentReference: input.consentReference ?? null,
+      },
+      initiatedBy: 'user',
+    });
+
+    return await findEntry(db, input.companyId, input.avatarId);
+  } catch (error) {
+    logger.warn('likeness_registry_upsert_failed', {
+      avatarId: input.avatarId,
+      error: normalizeError(error).message,
+    });
+    return null;
+  }
+}
+
+/**
+ * Revoke consent, keeping the row for traceability.
+ * Returns false when the avatar is not registered, null when D1 is unavailable or the update fails.
+ */
+export async function revokeLikenessConsent(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  avatarId: string
+): Promise<boolean | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        `UPDATE ${DEEPFAKE_LIKENESS.TABLE}
+         SET consent_status = 'revoked', revoked_at = COALESCE(revoked_at, datetime('now')), updated_at = datetime('now')
+         WHERE company_id = ? AND avatar_id = ?`
+      )
+      .bind(companyId, avatarId)
+      .run();
+    if (!result?.meta?.changes) return false;
+
+    await logDataAccess(env, {
+      companyId,
+      action: 'UPDATE',
+      resourceType: 'USER_PII',
+      resourceId: avatarId,
+      details: { type: 'likeness_consent', consentStatus: 'revoked' },
+      initiatedBy: 'user',
+    });
+    return true;
+  } catch (error) {
+    logger.warn('likeness_registry_revoke_failed', { avatarId, error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/** Art. 50 record of one generated video (CREATE AI_GENERATED). Never throws. */
+export async function recordDeepfakeGeneration(
+  env: Record<string, unknown> | undefined,
+  audit: DeepfakeGenerationAudit
+): Promise<boolean> {
+  return logDataAccess(env, {
+    companyId: audit.companyId,
+    action: 'CREATE',
+    resourceType: 'AI_GENERATED',
+    resourceId: audit.videoId,
+    details: {
+      type: 'deepfake_video',
+      provider: audit.provider,
+      avatarId: audit.avatarId,
+      voiceId: audit.voiceId,
+      useCase: audit.useCase,
+      disclosureText: audit.disclosureText,
+      likeness: audit.likeness,
+      scriptSha256: await computeHash(audit.inputText),
+    },
+    initiatedBy: 'user',
+  });
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { executeErasure, purgeKvPrefix, type ErasureKvServices } from './gdpr-erasure-service';
+
+const mockGetLatestDeletionRequest = vi.fn();
+const mockCreateDeletionRequest = vi.fn();
+const mockUpdateDeletionRequest = vi.fn();
+const mockCompleteDeletionRequest = vi.fn();
+const mockLogDataAccess = vi.fn();
+const mockDeleteCampaignMetadataForContent = vi.fn();
+
+vi.mock('./gdpr-service', async importOriginal => {
+  const actual = await importOriginal<typeof import('./gdpr-service')>();
+  return {
+    ...actual,
+    getLatestDeletionRequest: (...args: unknown[]) => mockGetLatestDeletionRequest(...args),
+    createDeletionRequest: (...args: unknown[]) => mockCreateDeletionRequest(...args),
+    updateDeletionRequest: (...args: unknown[]) => mockUpdateDeletionRequest(...args),
+    completeDeletionRequest: (...args: unknown[]) => mockCompleteDeletionRequest(...args),
+    logDataAccess: (...args: unknown[]) => mockLogDataAccess(...args),
+  };
+});
+
+vi.mock('./campaign-metadata-service', () => ({
+  deleteCampaignMetadataForContent: (...args: unknown[]) => mockDeleteCampaignMetadataForContent(...args),
+  getCampaignMetadataForContent: vi.fn(),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/** In-memory KV: list() returns remaining keys under a prefix, delete() removes unless key is in `failing` */
+function createKv(keys: string[], failing: string[] = []) {
+  const store = new Set(keys);
+  return {
+    store,
+    list: vi.fn(async (prefix?: string, limit?: number) =>
+      [...store].filter(key => !prefix || key.startsWith(prefix)).slice(0, limit)
+    ),
+    delete: vi.fn(async (key: string) => {
+      if (failing.includes(key)) return false;
+      store.delete(key);
+      return true;
+    }),
+  };
+}
+
+function createKvServices(data: Partial<Record<keyof ErasureKvServices, string[]>> = {}, failing: string[] = []) {
+  return {
+    microlearning: createKv(data.microlearning ?? [], failing),
+    phishing: createKv(data.phishing ?? [], failing),
+    smishing: createKv(data.smishing ?? [], failing),
+  };
+}
+
+describe('gdpr-erasure-service', () => {
+  beforeEach(() => {
+    mockGetLatestDeletionRequest.mockReset().mockResolvedValue(null);
+    mockCreateDeletionRequest.mockReset().mockResolvedValue('req-1');
+    mockUpdateDeletionRequest.mockReset().mockResolvedValue(true);
+    mockCompleteDeletionRequest.mockReset().mockResolvedValue(true);
+    mockLogDataAccess.mockReset().mockResolvedValue(true);
+    mockDeleteCampaignMetadataForContent.mockReset().mockResolvedValue(1);
+  });
+
+  describe('purgeKvPrefix', () => {
+    it('deletes every key under the prefix across pages', async () => {
+      const kv = createKv(Array.from({ length: 120 }, (_, i) => `ml:res-1:lang:${i}`));
+
+      const result = await purgeKvPrefix(kv, 'ml:res-1:');
+
+      expect(result).toEqual({ deleted: expect.any(Array), complete: true });
+      expect(result.deleted).toHaveLength(120);
+      expect(kv.store.size).toBe(0);
+    });
+
+    it('stops when list() keeps returning already-deleted keys (eventual consistency)', async () => {
+      const kv = createKv(['ml:res-1:base']);
+      kv.list.mockResolvedValue(['ml:res-1:base']);
+
+      const result = await purgeKvPrefix(kv, 'ml:res-1:');
+
+      expect(result).toEqual({ deleted: ['ml:res-1:base'], complete: true });
+      expect(kv.delete).toHaveBeenCalledTimes(1);
+    });
+
+    it('reports incomplete when a delete fails', async () => {
+      const kv = createKv(['ml:res-1:base', 'ml:res-1:lang:en'], ['ml:res-1:lang:en']);
+
+      const result = await purgeKvPrefix(kv, 'ml:res-1:');
+
+      expect(result).toEqual({ deleted: ['ml:res-1:base'], complete: false });
+    });
+  });
+
+  describe('executeErasure', () => {
+    it('cascades across KV namespaces and D1, then completes the request and audits it', async () => {
+      const kvServices = createKvServices({
+        microlearning: ['ml:res-1:base', 'ml:res-1:lang:en', 'ml:other:base'],
+        phishing: ['phishing:res-1:email:en'],
+      });
+
+      const result = await executeErasure({}, 'acme', 'res-1', { kvServices });
+
+      expect(result).toMatchObject({ requestId: 'req-1', status: 'completed', resumed: false, pendingSteps: [] });
+      expect(result.resourcesDeleted).toEqual([
+        'kv:ml:res-1:base',
+        'kv:ml:res-1:lang:en',
+        'kv:phishing:res-1:email:en',
+        'd1:campaign_metadata:res-1',
+      ]);
+      expect(kvServices.microlearning.store.has('ml:other:base')).toBe(true);
+      expect(mockDeleteCampaignMetadataForContent).toHaveBeenCalledWith({}, 'res-1');
+      expect(mockCompleteDeletionRequest).toHaveBeenCalledWith({}, 'req-1', result.resourcesDeleted);
+      expect(mockLogDataAccess).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({
+          action: 'DELETE',
+          resourceId: 'req-1',
+          details: expect.objectContaining({ type: 'erasure_completed', resourceCount: 4 }),
+        })
+      );
+    });
+
+    it('records progress and marks the request failed when a step does not finish', async () => {
+      const kvServices = createKvServices({ smishing: ['smishing:res-1:sms:en'] }, ['smishing:res-1:sms:en']);
+      mockDeleteCampaignMetadataForContent.mockResolvedValue(null);
+
+      const result = await executeErasure({}, 'acme', 'res-1', { kvServices });
+
+      expect(result.status).toBe('failed');
+      expect(result.pendingSteps).toEqual(['kv:smishing:res-1:', 'd1:campaign_metadata']);
+      expect(mockUpdateDeletionRequest).toHaveBeenLastCalledWith({}, 'req-1', 'failed', []);
+      expect(mockCompleteDeletionRequest).not.toHaveBeenCalled();
+    });
+
+    it('resumes a failed request, keeping resources deleted on the previous run', async () => {
+      mockGetLatestDeletionRequest.mockResolvedValue({
+        id: 'req-0',
+        status: 'failed',
+        resources_deleted: JSON.stringify(['kv:ml:res-1:base']),
+      });
+      const kvServices = createKvServices({ smishing: ['smishing:res-1:sms:en'] });
+
+      const result = await executeErasure({}, 'acme', 'res-1', { kvServices });
+
+      expect(mockCreateDeletionRequest).not.toHaveBeenCalled();
+      expect(result).toMatchObject({ requestId: 'req-0', status: 'completed', resumed: true });
+      expect(result.resourcesDeleted).toEqual([
+        'kv:ml:res-1:base',
+        'kv:smishing:res-1:sms:en',
+        'd1:campaign_metadata:res-1',
+      ]);
+    });
+
+    it('returns a completed request without deleting again', async () => {
+      mockGetLatestDeletionRequest.mockResolvedValue({
+        id: 'req-0',
+        status: 'completed',
+        resources_deleted: JSON.stringify(['kv:ml:res-1:base']),
+      });
+      const kvServices = createKvServices();
+
+      const result = await executeErasure({}, 'acme', 'res-1', { kvServices });
+
+      expect(result).toMatchObject({
+        requestId: 'req-0',
+        alreadyCompleted: true,
+        resourcesDeleted: ['kv:ml:res-1:base'],
+      });
+      expect(kvServices.microlearning.list).not.toHaveBeenCalled();
+      expect(mockLogDataAccess).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * GDPR Erasure Executor (Art. 17 — Right to Erasure)
+ *
+ * Performs the cascade delete that createDeletionRequest() only tracks:
+ * - KV content under buildResourceKeyPrefixes() (microlearning, phishing, smishing namespaces)
+ * - D1 campaign_metadata rows recorded for the content at upload (content_id)
+ *
+ * Idempotent + resumable: the latest deletion request for the user is reused.
+ * Progress (resources deleted so far) is written after every step, and a rerun
+ * of a failed/interrupted request continues from there — already-deleted
+ * resources simply no longer show up. A completed request is returned as-is.
+ *
+ * Audit rows (data_access_audit) are retained under Art. 17(3)(b) — they are the
+ * legal record of processing — and expire via the retention sweeper instead.
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { GDPR } from '../constants';
+import type { KVService } from './kv-service';
+import {
+  buildResourceKeyPrefixes,
+  completeDeletionRequest,
+  createDeletionRequest,
+  getLatestDeletionRequest,
+  logDataAccess,
+  updateDeletionRequest,
+} from './gdpr-service';
+import { deleteCampaignMetadataForContent } from './campaign-metadata-service';
+import { createSubjectKvServices, namespaceForPrefix, type SubjectKvNamespace } from './gdpr-export-service';
+
+const logger = getLogger('GdprErasureService');
+
+// ─── Types ───
+
+export type ErasureKvServices = Record<SubjectKvNamespace, Pick<KVService, 'list' | 'delete'>>;
+
+export interface ErasureResult {
+  requestId: string | null;
+  status: 'completed' | 'failed';
+  /** Deleted resources: `kv:<key>` or `d1:<table>:<resourceId>` */
+  resourcesDeleted: string[];
+  /** Steps that did not finish — call again to resume */
+  pendingSteps: string[];
+  resumed: boolean;
+  alreadyCompleted: boolean;
+}
+
+// ─── Helpers ───
+
+function parseResources(raw: string | null): string[] {
+  if (!raw) return [];
+  try {
+    const parsed: unknown = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.filter((r): r is string => typeof r === 'string') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Delete every KV key under a prefix, one list() page at a time.
+ * `complete` is false when a delete failed or the page cap was hit — rerun to continue.
+ * Keys seen again after deletion (KV list is eventually consistent) end the walk.
+ */
+export async function purgeKvPrefix(
+  kv: Pick<KVService, 'list' | 'delete'>,
+  prefix: string
+): Promise<{ deleted: string[]; complete: boolean }> {
+  const deleted: string[] = [];
+  const seen = new Set<string>();
+
+  for (let page = 0; page < GDPR.ERASURE_MAX_PAGES_PER_PREFIX; page++) {
+    const keys = (await kv.list(prefix, GDPR.ERASURE_KV_PAGE_SIZE)).filter(key => !seen.has(key));
+    if (keys.length === 0) {
+      return { deleted, complete: true };
+    }
+
+    const results = await Promise.all(keys.map(key => kv.delete(key)));
+    keys.forEach((key, i) => {
+      seen.add(key);
+      if (results[i]) deleted.push(key);
+    });
+    if (deleted.length < seen.size) {
+      return { deleted, complete: false };
+    }
+  }
+
+  return { deleted, complete: false };
+}
+
+// ─── Executor ───
+
+/**
+ * Erase all stored data for a resource, tracked by a data_deletion_requests row.
+ * Never throws — failures leave the request in 'failed' state with progress recorded.
+ */
+export async function executeErasure(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  resourceId: string,
+  options: { kvServices?: ErasureKvServices } = {}
+): Promise<ErasureResult> {
+  const existing = await getLatestDeletionRequest(env, companyId, resourceId);
+  if (existing?.status === 'completed') {
+    return {
+      requestId: existing.id,
+      status: 'completed',
+      resourcesDeleted: parseResources(existing.resources_deleted),
+      pendingSteps: [],
+      resumed: false,
+      alreadyCompleted: true,
+    };
+  }
+
+  const resumed = existing !== null;
+  const requestId = existing?.id ?? (await createDeletionRequest(env, companyId, resourceId));
+  const deleted = new Set(parseResources(existing?.resources_deleted ?? null));
+  const pendingSteps: string[] = [];
+  const kvServices = options.kvServices ?? createSubjectKvServices();
+
+  const saveProgress = async () => {
+    if (requestId) await updateDeletionRequest(env, requestId, 'in_progress', [...deleted]);
+  };
+
+  await saveProgress();
+
+  // Step 1: KV content (one step per prefix so partial progress is recorded)
+  for (const prefix of buildResourceKeyPrefixes(resourceId)) {
+    const result = await purgeKvPrefix(kvServices[namespaceForPrefix(prefix)], prefix);
+    result.deleted.forEach(key => deleted.add(`kv:${key}`));
+    if (!result.complete) pendingSteps.push(`kv:${prefix}`);
+    await saveProgress();
+  }
+
+  // Step 2: D1 rows recorded for the content (one per upload)
+  const metadataDeleted = await deleteCampaignMetadataForContent(env, resourceId);
+  if (metadataDeleted === null) {
+    pendingSteps.push('d1:campaign_metadata');
+  } else if (metadataDeleted > 0) {
+    deleted.add(`d1:campaign_metadata:${resourceId}`);
+  }
+
+  const resourcesDeleted = [...deleted];
+
+  if (pendingSteps.length > 0) {
+    if (requestId) await updateDeletionRequest(env, requestId, 'failed', resourcesDeleted);
+    logger.warn('Erasure incomplete, rerun to resume', { requestId, companyId, pendingSteps });
+    return { requestId, status: 'failed', resourcesDeleted, pendingSteps, resumed, alreadyCompleted: false };
+  }
+
+  if (requestId) await completeDeletionRequest(env, requestId, resourcesDeleted);
+  await logDataAccess(env, {
+    companyId,
+    userId: resourceId,
+    action: 'DELETE',
+    resourceType: 'USER_PII',
+    resourceId: requestId ?? resourceId,
+    details: { type: 'erasure_completed', resourceCount: resourcesDeleted.length, resumed },
+    initiatedBy: 'user',
+  });
+
+  logger.info('Erasure completed', { requestId, companyId, resourceCount: resourcesDeleted.length, resumed });
+  return { requestId, status: 'completed', resourcesDeleted, pendingSteps, resumed, alreadyCompleted: false };
+}
@@ -0,0 +1,129 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { buildSubjectAccessExport, summarizeSubjectAccessExport, type SubjectKvServices } from './gdpr-export-service';
+
+const mockGetSubjectAuditLogs = vi.fn();
+const mockLogDataAccess = vi.fn();
+const mockGetCampaignMetadataForContent = vi.fn();
+
+vi.mock('./gdpr-service', async importOriginal => {
+  const actual = await importOriginal<typeof import('./gdpr-service')>();
+  return {
+    ...actual,
+    getSubjectAuditLogs: (...args: unknown[]) => mockGetSubjectAuditLogs(...args),
+    logDataAccess: (...args: unknown[]) => mockLogDataAccess(...args),
+  };
+});
+
+vi.mock('./campaign-metadata-service', () => ({
+  getCampaignMetadataForContent: (...args: unknown[]) => mockGetCampaignMetadataForContent(...args),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/** In-memory KV per namespace: list() filters by prefix, get() returns stored value or null */
+function createKv(entries: Record<string, unknown>) {
+  return {
+    list: vi.fn(async (prefix?: string, limit?: number) =>
+      Object.keys(entries)
+        .filter(key => !prefix || key.startsWith(prefix))
+        .slice(0, limit)
+    ),
+    get: vi.fn(async (key: string): Promise<any> => entries[key] ?? null),
+  };
+}
+
+function createKvServices(data: Partial<Record<keyof SubjectKvServices, Record<string, unknown>>> = {}) {
+  return {
+    microlearning: createKv(data.microlearning ?? {}),
+    phishing: createKv(data.phishing ?? {}),
+    smishing: createKv(data.smishing ?? {}),
+  };
+}
+
+const AUDIT_ROWS = [
+  { id: 'a1', action: 'CREATE', created_at: '2025-01-10T00:00:00Z' },
+  { id: 'a2', action: 'READ', created_at: '2025-02-01T00:00:00Z' },
+];
+const NOW = new Date('2025-03-01T00:00:00Z');
+
+describe('gdpr-export-service', () => {
+  beforeEach(() => {
+    mockGetSubjectAuditLogs.mockReset().mockResolvedValue(AUDIT_ROWS);
+    mockLogDataAccess.mockReset().mockResolvedValue(true);
+    mockGetCampaignMetadataForContent
+      .mockReset()
+      .mockResolvedValue(new Map([['res-1', { resource_id: 'res-1', tactic: 'urgency' }]]));
+  });
+
+  describe('buildSubjectAccessExport', () => {
+    it('collects KV records from each namespace, audit rows and campaign metadata', async () => {
+      const kvServices = createKvServices({
+        microlearning: { 'ml:res-1:base': { title: 'Phishing 101' }, 'ml:other:base': { title: 'x' } },
+        phishing: { 'phishing:res-1:email:en': { subject: 'Invoice' } },
+      });
+
+      const bundle = await buildSubjectAccessExport({}, 'acme', 'res-1', { kvServices, now: NOW });
+
+      expect(bundle.kvRecords).toEqual([
+        { namespace: 'microlearning', key: 'ml:res-1:base', value: { title: 'Phishing 101' } },
+        { namespace: 'phishing', key: 'phishing:res-1:email:en', value: { subject: 'Invoice' } },
+      ]);
+      expect(kvServices.smishing.list).toHaveBeenCalledWith('smishing:res-1:', 200);
+      expect(mockGetSubjectAuditLogs).toHaveBeenCalledWith({}, 'acme', 'res-1');
+      expect(mockGetCampaignMetadataForContent).toHaveBeenCalledWith({}, 'res-1');
+      expect(bundle.counts).toEqual({ kvRecords: 2, auditLog: 2, campaignMetadata: 1 });
+      expect(bundle.generatedAt).toBe('2025-03-01T00:00:00.000Z');
+    });
+
+    it('records the export as an EXPORT action in the audit chain', async () => {
+      const bundle = await buildSubjectAccessExport({}, 'acme', 'res-1', { kvServices: createKvServices() });
+
+      expect(mockLogDataAccess).toHaveBeenCalledWith(
+        {},
+        expect.objectContaining({
+          companyId: 'acme',
+          action: 'EXPORT',
+          resourceType: 'USER_PII',
+          resourceId: 'res-1',
+          details: expect.objectContaining({ type: 'subject_access_export', auditLog: 2 }),
+        })
+      );
+      expect(bundle.audited).toBe(true);
+    });
+
+    it('flags truncated prefixes and survives a failing namespace', async () => {
+      const many = Object.fromEntries(Array.from({ length: 200 }, (_, i) => [`smishing:res-1:sms:${i}`, { i }]));
+      const kvServices = createKvServices({ smishing: many });
+      kvServices.phishing.list.mockRejectedValueOnce(new Error('KV down'));
+
+      const bundle = await buildSubjectAccessExport({}, 'acme', 'res-1', { kvServices });
+
+      expect(bundle.truncatedPrefixes).toEqual(['smishing:res-1:']);
+      expect(bundle.counts.kvRecords).toBe(200);
+    });
+  });
+
+  describe('summarizeSubjectAccessExport', () => {
+    it('summarizes counts per namespace and audit action', async () => {
+      const kvServices = createKvServices({ microlearning: { 'ml:res-1:base': {}, 'ml:res-1:en': {} } });
+      const bundle = await buildSubjectAccessExport({}, 'acme', 'res-1', { kvServices, now: NOW });
+
+      const summary = summarizeSubjectAccessExport(bundle);
+
+      expect(summary).toContain('resource res-1');
+      expect(summary).toContain('Stored content: 2 record(s)');
+      expect(summary).toContain('  - microlearning: 2');
+      expect(summary).toContain('Processing history: 2 audit entries');
+      expect(summary).toContain('  - CREATE: 1');
+      expect(summary).toContain('Period covered: 2025-01-10T00:00:00Z to 2025-02-01T00:00:00Z');
+      expect(summary).not.toContain('truncated');
+    });
+  });
+});
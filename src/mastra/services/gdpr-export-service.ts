@@ -0,0 +1,184 @@
+/**
+ * GDPR Subject Access Export Service (Art. 15 — Right of Access)
+ *
+ * Assembles everything held about a data subject into one bundle:
+ * - KV records under buildResourceKeyPrefixes() (microlearning, phishing, smishing namespaces)
+ * - D1 audit rows where the subject is actor or resource
+ * - D1 campaign metadata recorded for the content at upload (content_id)
+ *
+ * The export itself is written to the audit hash-chain as an EXPORT action.
+ * Pattern: follows gdpr-service.ts — never throws, missing stores yield empty sections.
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { GDPR, KV_NAMESPACES } from '../constants';
+import { KVService } from './kv-service';
+import { buildResourceKeyPrefixes, getSubjectAuditLogs, logDataAccess, type AuditLogRow } from './gdpr-service';
+import { getCampaignMetadataForContent, type CampaignMetadataRow } from './campaign-metadata-service';
+
+const logger = getLogger('GdprExportService');
+
+// ─── Types ───
+
+export type SubjectKvNamespace = 'microlearning' | 'phishing' | 'smishing';
+
+export interface SubjectKvRecord {
+  namespace: SubjectKvNamespace;
+  key: string;
+  value: unknown;
+}
+
+export interface SubjectAccessExport {
+  subject: { companyId: string; resourceId: string };
+  generatedAt: string;
+  kvRecords: SubjectKvRecord[];
+  auditLog: AuditLogRow[];
+  campaignMetadata: CampaignMetadataRow[];
+  counts: { kvRecords: number; auditLog: number; campaignMetadata: number };
+  /** Prefixes that hit EXPORT_MAX_KEYS_PER_PREFIX — more records may exist */
+  truncatedPrefixes: string[];
+  /** Whether the EXPORT action was written to the audit chain */
+  audited: boolean;
+}
+
+export type SubjectKvServices = Record<SubjectKvNamespace, Pick<KVService, 'list' | 'get'>>;
+
+// ─── Helpers ───
+
+/** KV namespace holding each key prefix (see buildResourceKeyPrefixes) */
+export function namespaceForPrefix(prefix: string): SubjectKvNamespace {
+  if (prefix.startsWith('phishing:')) return 'phishing';
+  if (prefix.startsWith('smishing:')) return 'smishing';
+  return 'microlearning';
+}
+
+/** One KVService per namespace that holds subject content (shared with gdpr-erasure-service) */
+export function createSubjectKvServices(): Record<SubjectKvNamespace, KVService> {
+  return {
+    microlearning: new KVService(),
+    phishing: new KVService(KV_NAMESPACES.PHISHING),
+    smishing: new KVService(KV_NAMESPACES.SMISHING),
+  };
+}
+
+async function collectKvRecords(
+  kvServices: SubjectKvServices,
+  resourceId: string
+): Promise<{ records: SubjectKvRecord[]; truncatedPrefixes: string[] }> {
+  const records: SubjectKvRecord[] = [];
+  const truncatedPrefixes: string[] = [];
+
+  for (const prefix of buildResourceKeyPrefixes(resourceId)) {
+    const namespace = namespaceForPrefix(prefix);
+    const kv = kvServices[namespace];
+
+    try {
+      const keys = await kv.list(prefix, GDPR.EXPORT_MAX_KEYS_PER_PREFIX);
+      if (keys.length >= GDPR.EXPORT_MAX_KEYS_PER_PREFIX) {
+        truncatedPrefixes.push(prefix);
+      }
+
+      for (let i = 0; i < keys.length; i += GDPR.EXPORT_KV_FETCH_CONCURRENCY) {
+        const batch = keys.slice(i, i + GDPR.EXPORT_KV_FETCH_CONCURRENCY);
+        const values = await Promise.all(batch.map(key => kv.get(key)));
+        batch.forEach((key, j) => {
+          if (values[j] !== null) {
+            records.push({ namespace, key, value: values[j] });
+          }
+        });
+      }
+    } catch (error) {
+      logger.warn('Subject export: KV prefix read failed', { prefix, error: normalizeError(error).message });
+    }
+  }
+
+  return { records, truncatedPrefixes };
+}
+
+// ─── Export ───
+
+/**
+ * Build the Art. 15 export bundle for a resource and record the export in the audit chain.
+ * Never throws — unavailable stores produce empty sections.
+ */
+export async function buildSubjectAccessExport(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  resourceId: string,
+  options: { kvServices?: SubjectKvServices; now?: Date } = {}
+): Promise<SubjectAccessExport> {
+  const kvServices = options.kvServices ?? createSubjectKvServices();
+
+  const [kv, auditLog, campaignMetadata] = await Promise.all([
+    collectKvRecords(kvServices, resourceId),
+    getSubjectAuditLogs(env, companyId, resourceId),
+    getCampaignMetadataForContent(env, resourceId),
+  ]);
+
+  const counts = {
+    kvRecords: kv.records.length,
+    auditLog: auditLog.length,
+    campaignMetadata: campaignMetadata.size,
+  };
+
+  const audited = await logDataAccess(env, {
+    companyId,
+    userId: resourceId,
+    action: 'EXPORT',
+    resourceType: 'USER_PII',
+    resourceId,
+    details: { type: 'subject_access_export', ...counts, truncatedPrefixes: kv.truncatedPrefixes },
+    initiatedBy: 'user',
+  });
+
+  logger.info('Subject access export built', { companyId, resourceId, ...counts, audited });
+
+  return {
+    subject: { companyId, resourceId },
+    generatedAt: (options.now ?? new Date()).toISOString(),
+    kvRecords: kv.records,
+    auditLog,
+    campaignMetadata: [...campaignMetadata.values()],
+    counts,
+    truncatedPrefixes: kv.truncatedPrefixes,
+    audited,
+  };
+}
+
+/**
+ * Plain-text summary of an export for the data subject / DPO.
+ */
+export function summarizeSubjectAccessExport(bundle: SubjectAccessExport): string {
+  const byNamespace = new Map<SubjectKvNamespace, number>();
+  for (const record of bundle.kvRecords) {
+    byNamespace.set(record.namespace, (byNamespace.get(record.namespace) ?? 0) + 1);
+  }
+
+  const actions = new Map<string, number>();
+  for (const row of bundle.auditLog) {
+    actions.set(row.action, (actions.get(row.action) ?? 0) + 1);
+  }
+
+  const lines = [
+    `Subject Access Export (GDPR Art. 15) for resource ${bundle.subject.resourceId}`,
+    `Generated: ${bundle.generatedAt}`,
+    '',
+    `Stored content: ${bundle.counts.kvRecords} record(s)`,
+    ...[...byNamespace].map(([namespace, count]) => `  - ${namespace}: ${count}`),
+    `Processing history: ${bundle.counts.auditLog} audit entr${bundle.counts.auditLog === 1 ? 'y' : 'ies'}`,
+    ...[...actions].map(([action, count]) => `  - ${action}: ${count}`),
+    `Campaign metadata: ${bundle.counts.campaignMetadata} record(s)`,
+  ];
+
+  if (bundle.auditLog.length > 0) {
+    lines.push(
+      `Period covered: ${bundle.auditLog[0].created_at} to ${bundle.auditLog[bundle.auditLog.length - 1].created_at}`
+    );
+  }
+  if (bundle.truncatedPrefixes.length > 0) {
+    lines.push(`Note: export truncated for ${bundle.truncatedPrefixes.join(', ')} — contact support for the full set.`);
+  }
+
+  return lines.join('\n');
+}
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { retentionCutoffDay, runRetentionSweep } from './gdpr-retention-service';
+
+const mockLogDataAccess = vi.fn();
+const mockPurgeAuditLogsBefore = vi.fn();
+const mockListCampaignMetadataBefore = vi.fn();
+const mockDeleteCampaignMetadata = vi.fn();
+
+vi.mock('./gdpr-service', async importOriginal => {
+  const actual = await importOriginal<typeof import('./gdpr-service')>();
+  return {
+    ...actual,
+    logDataAccess: (...args: unknown[]) => mockLogDataAccess(...args),
+    purgeAuditLogsBefore: (...args: unknown[]) => mockPurgeAuditLogsBefore(...args),
+  };
+});
+
+vi.mock('./campaign-metadata-service', () => ({
+  listCampaignMetadataBefore: (...args: unknown[]) => mockListCampaignMetadataBefore(...args),
+  deleteCampaignMetadata: (...args: unknown[]) => mockDeleteCampaignMetadata(...args),
+  getCampaignMetadata: vi.fn(),
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createKv(keys: string[]) {
+  const store = new Set(keys);
+  return {
+    store,
+    list: vi.fn(async (prefix?: string, limit?: number) =>
+      [...store].filter(key => !prefix || key.startsWith(prefix)).slice(0, limit)
+    ),
+    delete: vi.fn(async (key: string) => store.delete(key)),
+  };
+}
+
+/** D1 mock for the session tables: each DELETE reports `changes` rows */
+function createMockDb(changes: number) {
+  const prepare = vi.fn().mockImplementation(() => {
+    const statement = {
+      bind: vi.fn(() => statement),
+      run: vi.fn().mockResolvedValue({ success: true, meta: { changes } }),
+    };
+    return statement;
+  });
+  return { prepare };
+}
+
+const NOW = new Date('2026-06-30T00:00:00Z');
+
+describe('gdpr-retention-service', () => {
+  beforeEach(() => {
+    mockLogDataAccess.mockReset().mockResolvedValue(true);
+    mockPurgeAuditLogsBefore.mockReset().mockResolvedValue([]);
+    mockListCampaignMetadataBefore.mockReset().mockResolvedValue([]);
+    mockDeleteCampaignMetadata.mockReset().mockImplementation(async (_env, ids: string[]) => ids.length);
+  });
+
+  it('computes cutoffs from GDPR.RETENTION_DAYS', () => {
+    expect(retentionCutoffDay('SESSION_DATA', NOW)).toBe('2026-04-01');
+    expect(retentionCutoffDay('AUDIT_LOGS', NOW)).toBe('2024-06-30');
+  });
+
+  it('purges expired campaign content from KV before dropping the metadata rows', async () => {
+    mockListCampaignMetadataBefore.mockResolvedValue([{ resource_id: 'old-1' }, { resource_id: 'old-2' }]);
+    const kvServices = {
+      microlearning: createKv([]),
+      phishing: createKv(['phishing:old-1:base', 'phishing:old-1:email:en', 'phishing:new-1:base']),
+      smishing: createKv(['smishing:old-2:base']),
+    };
+
+    const result = await runRetentionSweep({}, { now: NOW, kvServices });
+
+    expect(mockListCampaignMetadataBefore).toHaveBeenCalledWith({}, '2025-06-30', 25);
+    expect(kvServices.phishing.store).toEqual(new Set(['phishing:new-1:base']));
+    expect(mockDeleteCampaignMetadata).toHaveBeenCalledWith({}, ['old-1', 'old-2']);
+    expect(result.categories.find(c => c.category === 'KV_CONTENT')).toMatchObject({ status: 'purged', purged: 3 });
+    expect(result.categories.find(c => c.category === 'CAMPAIGN_DATA')).toMatchObject({ status: 'purged', purged: 2 });
+  });
+
+  it('keeps metadata rows whose KV content could not be fully deleted', async () => {
+    mockListCampaignMetadataBefore.mockResolvedValue([{ resource_id: 'old-1' }]);
+    const phishing = createKv(['phishing:old-1:base']);
+    phishing.delete.mockResolvedValue(false);
+
+    const result = await runRetentionSweep(
+      {},
+      {
+        now: NOW,
+        kvServices: { microlearning: createKv([]), phishing, smishing: createKv([]) },
+      }
+    );
+
+    expect(mockDeleteCampaignMetadata).toHaveBeenCalledWith({}, []);
+    expect(result.categories.find(c => c.category === 'KV_CONTENT')?.reason).toContain('1 resource(s) incomplete');
+  });
+
+  it('purges session and user-activity tables and writes each non-empty purge to the audit chain', async () => {
+    mockPurgeAuditLogsBefore.mockResolvedValue([
+      { companyId: 'acme', count: 4 },
+      { companyId: 'globex', count: 1 },
+    ]);
+    const db = createMockDb(3);
+    const kvServices = { microlearning: createKv([]), phishing: createKv([]), smishing: createKv([]) };
+
+    const result = await runRetentionSweep({ agentic_ally_memory: db }, { now: NOW, kvServices });
+
+    expect(db.prepare).toHaveBeenCalledWith('DELETE FROM dev_mastra_messages WHERE createdAt < ?');
+    expect(db.prepare).toHaveBeenCalledWith('DELETE FROM dev_mastra_threads WHERE updatedAt < ?');
+    expect(db.prepare).toHaveBeenCalledWith('DELETE FROM vishing_live_sessions WHERE updated_at < ?');
+    expect(db.prepare).toHaveBeenCalledWith('DELETE FROM smishing_channel_sessions WHERE updated_at < ?');
+    expect(result.categories.find(c => c.category === 'SESSION_DATA')).toMatchObject({ purged: 12 });
+    expect(result.categories.find(c => c.category === 'AUDIT_LOGS')).toMatchObject({ purged: 5 });
+    expect(db.prepare).toHaveBeenCalledWith('DELETE FROM smishing_chat_outcomes WHERE updated_at < ?');
+    expect(result.categories.find(c => c.category === 'USER_ACTIVITY')).toMatchObject({
+      cutoff: '2026-01-01',
+      purged: 3,
+    });
+
+    // SESSION_DATA and USER_ACTIVITY under the system owner, AUDIT_LOGS once per company; empty campaign purge not recorded
+    expect(mockLogDataAccess.mock.calls.map(([, entry]) => [entry.companyId, entry.details.category])).toEqual([
+      ['system', 'SESSION_DATA'],
+      ['system', 'USER_ACTIVITY'],
+      ['acme', 'AUDIT_LOGS'],
+      ['globex', 'AUDIT_LOGS'],
+    ]);
+    expect(mockLogDataAccess.mock.calls[0][1]).toMatchObject({ action: 'DELETE', initiatedBy: 'cron' });
+  });
+
+  it('reports failing categories without stopping the sweep', async () => {
+    mockListCampaignMetadataBefore.mockResolvedValue(null);
+    mockPurgeAuditLogsBefore.mockResolvedValue(null);
+
+    const result = await runRetentionSweep(undefined, {
+      now: NOW,
+      kvServices: { microlearning: createKv([]), phishing: createKv([]), smishing: createKv([]) },
+    });
+
+    expect(result.categories.map(c => [c.category, c.status])).toEqual([
+      ['KV_CONTENT', 'failed'],
+      ['CAMPAIGN_DATA', 'failed'],
+      ['SESSION_DATA', 'skipped'],
+      ['USER_ACTIVITY', 'skipped'],
+      ['AUDIT_LOGS', 'failed'],
+    ]);
+    expect(mockLogDataAccess).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * GDPR Retention Sweeper (Art. 5(1)(e) — Storage Limitation)
+ *
+ * Enforces GDPR.RETENTION_DAYS per data category. Meant to be triggered on a
+ * schedule (cron → POST /gdpr/retention/sweep). Every non-empty purge is written
+ * to the tamper-evident audit chain as a DELETE with initiatedBy 'cron'.
+ *
+ * - CAMPAIGN_DATA + KV_CONTENT: expired campaign_metadata rows locate the generated
+ *   content in KV, so both are purged together (KV keys first, then the rows).
+ * - SESSION_DATA: Mastra memory threads/messages, live vishing call state and smishing channel conversations in D1
+ * - AUDIT_LOGS: data_access_audit rows (purge recorded per company)
+ * - USER_ACTIVITY: per-learner smishing conversation outcomes (smishing_chat_outcomes)
+ *
+ * Pattern: follows gdpr-service.ts — never throws, a failing category does not stop the others.
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { GDPR, SMISHING_CHANNELS, VISHING_LIVE, type GdprDataCategory } from '../constants';
+import { buildResourceKeyPrefixes, logDataAccess, purgeAuditLogsBefore } from './gdpr-service';
+import { deleteCampaignMetadata, listCampaignMetadataBefore } from './campaign-metadata-service';
+import { createSubjectKvServices, namespaceForPrefix } from './gdpr-export-service';
+import { purgeKvPrefix, type ErasureKvServices } from './gdpr-erasure-service';
+import { purgeSmishingOutcomesBefore } from './smishing-outcome-service';
+
+const logger = getLogger('GdprRetentionService');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+}
+
+interface D1Result {
+  success: boolean;
+  meta?: { changes?: number };
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Types ───
+
+export type RetentionCategory = keyof typeof GDPR.RETENTION_DAYS;
+
+export interface RetentionCategoryResult {
+  category: RetentionCategory;
+  /** Records created before this day (YYYY-MM-DD, UTC) are expired */
+  cutoff: string;
+  status: 'purged' | 'skipped' | 'failed';
+  purged: number;
+  reason?: string;
+}
+
+export interface RetentionSweepResult {
+  startedAt: string;
+  categories: RetentionCategoryResult[];
+}
+
+/** Audit resource type recorded for each retention category */
+const CATEGORY_RESOURCE_TYPES: Record<RetentionCategory, GdprDataCategory> = {
+  CAMPAIGN_DATA: 'CAMPAIGN_DATA',
+  USER_ACTIVITY: 'ANALYTICS',
+  AUDIT_LOGS: 'USER_PII',
+  KV_CONTENT: 'AI_GENERATED',
+  SESSION_DATA: 'USER_PII',
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ─── Helpers ───
+
+/** First day that is still within retention: records created before it are expired */
+export function retentionCutoffDay(category: RetentionCategory, now: Date): string {
+  return new Date(now.getTime() - GDPR.RETENTION_DAYS[category] * MS_PER_DAY).toISOString().slice(0, 10);
+}
+
+async function recordPurge(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  result: RetentionCategoryResult
+): Promise<void> {
+  if (result.purged === 0) return;
+  await logDataAccess(env, {
+    companyId,
+    action: 'DELETE',
+    resourceType: CATEGORY_RESOURCE_TYPES[result.category],
+    details: {
+      type: 'retention_purge',
+      category: result.category,
+      retentionDays: GDPR.RETENTION_DAYS[result.category],
+      cutoff: result.cutoff,
+      purged: result.purged,
+    },
+    initiatedBy: 'cron',
+  });
+}
+
+// ─── Category Sweeps ───
+
+/**
+ * Campaign content: oldest expired campaign_metadata rows (one batch per run),
+ * their KV content under each resource prefix, then the rows themselves.
+ * Uses the longer of the two retention periods so neither is purged early.
+ */
+async function sweepCampaignContent(
+  env: Record<string, unknown> | undefined,
+  now: Date,
+  kvServices: ErasureKvServices
+): Promise<RetentionCategoryResult[]> {
+  const category: RetentionCategory =
+    GDPR.RETENTION_DAYS.KV_CONTENT > GDPR.RETENTION_DAYS.CAMPAIGN_DATA ? 'KV_CONTENT' : 'CAMPAIGN_DATA';
+  const cutoff = retentionCutoffDay(category, now);
+  const kvResult: RetentionCategoryResult = { category: 'KV_CONTENT', cutoff, status: 'purged', purged: 0 };
+  const rowResult: RetentionCategoryResult = { category: 'CAMPAIGN_DATA', cutoff, status: 'purged', purged: 0 };
+
+  const rows = await listCampaignMetadataBefore(env, cutoff, GDPR.RETENTION_SWEEP_BATCH_SIZE);
+  if (rows === null) {
+    const reason = 'campaign_metadata unavailable';
+    return [
+      { ...kvResult, status: 'failed', reason },
+      { ...rowResult, status: 'failed', reason },
+    ];
+  }
+
+  // Only drop a row once all of its KV content is gone — otherwise the content becomes unreachable
+  const purgedResourceIds: string[] = [];
+  for (const row of rows) {
+    let complete = true;
+    for (const prefix of buildResourceKeyPrefixes(row.resource_id)) {
+      const result = await purgeKvPrefix(kvServices[namespaceForPrefix(prefix)], prefix);
+      kvResult.purged += result.deleted.length;
+      complete = complete && result.complete;
+    }
+    if (complete) purgedResourceIds.push(row.resource_id);
+  }
+  if (purgedResourceIds.length < rows.length) {
+    kvResult.reason = `${rows.length - purgedResourceIds.length} resource(s) incomplete, retried next run`;
+  }
+
+  const deleted = await deleteCampaignMetadata(env, purgedResourceIds);
+  if (deleted === null) {
+    rowResult.status = 'failed';
+    rowResult.reason = 'campaign_metadata delete failed';
+  } else {
+    rowResult.purged = deleted;
+  }
+
+  return [kvResult, rowResult];
+}
+
+/** SESSION_DATA tables and the column each is aged by (Mastra messages by createdAt, the rest by last activity) */
+const SESSION_PURGE_TABLES: [table: string, column: string][] = [
+  [GDPR.SESSION_TABLES.MESSAGES, 'createdAt'],
+  [GDPR.SESSION_TABLES.THREADS, 'updatedAt'],
+  [VISHING_LIVE.TABLE, 'updated_at'],
+  [SMISHING_CHANNELS.TABLE, 'updated_at'],
+];
+
+async function sweepSessionData(env: Record<string, unknown> | undefined, now: Date): Promise<RetentionCategoryResult> {
+  const cutoff = retentionCutoffDay('SESSION_DATA', now);
+  const result: RetentionCategoryResult = { category: 'SESSION_DATA', cutoff, status: 'purged', purged: 0 };
+
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    return { ...result, status: 'skipped', reason: 'D1 not available' };
+  }
+
+  try {
+    for (const [table, column] of SESSION_PURGE_TABLES) {
+      const deleted = await db.prepare(`DELETE FROM ${table} WHERE ${column} < ?`).bind(cutoff).run();
+      result.purged += deleted?.meta?.changes ?? 0;
+    }
+    return result;
+  } catch (error) {
+    return { ...result, status: 'failed', reason: normalizeError(error).message };
+  }
+}
+
+async function sweepUserActivity(
+  env: Record<string, unknown> | undefined,
+  now: Date
+): Promise<RetentionCategoryResult> {
+  const cutoff = retentionCutoffDay('USER_ACTIVITY', now);
+  const result: RetentionCategoryResult = { category: 'USER_ACTIVITY', cutoff, status: 'purged', purged: 0 };
+
+  if (!env?.agentic_ally_memory) {
+    return { ...result, status: 'skipped', reason: 'D1 not available' };
+  }
+
+  const purged = await purgeSmishingOutcomesBefore(env, cutoff);
+  return purged === null ? { ...result, status: 'failed', reason: 'D1 purge failed' } : { ...result, purged };
+}
+
+// ─── Sweep ───
+
+/**
+ * Run one retention sweep across all categories. Never throws.
+ */
+export async function runRetentionSweep(
+  env: Record<string, unknown> | undefined,
+  options: { now?: Date; kvServices?: ErasureKvServices } = {}
+): Promise<RetentionSweepResult> {
+  const now = options.now ?? new Date();
+  const kvServices = options.kvServices ?? createSubjectKvServices();
+  const categories: RetentionCategoryResult[] = [];
+
+  for (const result of await sweepCampaignContent(env, now, kvServices)) {
+    categories.push(result);
+    await recordPurge(env, GDPR.SYSTEM_COMPANY_ID, result);
+  }
+
+  const session = await sweepSessionData(env, now);
+  categories.push(session);
+  await recordPurge(env, GDPR.SYSTEM_COMPANY_ID, session);
+
+  const activity = await sweepUserActivity(env, now);
+  categories.push(activity);
+  await recordPurge(env, GDPR.SYSTEM_COMPANY_ID, activity);
+
+  const auditCutoff = retentionCutoffDay('AUDIT_LOGS', now);
+  const auditPurges = await purgeAuditLogsBefore(env, auditCutoff);
+  if (auditPurges === null) {
+    categories.push({
+      category: 'AUDIT_LOGS',
+      cutoff: auditCutoff,
+      status: 'failed',
+      purged: 0,
+      reason: 'D1 purge failed',
+    });
+  } else {
+    const audit: RetentionCategoryResult = {
+      category: 'AUDIT_LOGS',
+      cutoff: auditCutoff,
+      status: 'purged',
+      purged: auditPurges.reduce((sum, p) => sum + p.count, 0),
+    };
+    categories.push(audit);
+    for (const { companyId, count } of auditPurges) {
+      await recordPurge(env, companyId, { ...audit, purged: count });
+    }
+  }
+
+  logger.info('Retention sweep completed', {
+    results: categories.map(c => ({ category: c.category, status: c.status, purged: c.purged })),
+  });
+
+  return { startedAt: now.toISOString(), categories };
+}
@@ -2,9 +2,13 @@ import { describe, it, expect, vi } from 'vitest';
 import {
   logDataAccess,
   getAuditLogs,
+  getSubjectAuditLogs,
   createDeletionRequest,
   completeDeletionRequest,
   getDeletionRequests,
+  updateDeletionRequest,
+  getLatestDeletionRequest,
+  purgeAuditLogsBefore,
   buildResourceKeyPrefixes,
   isExpired,
   computeHash,
@@ -394,6 +398,23 @@ describe('getAuditLogs', () => {
   });
 });
 
+describe('getSubjectAuditLogs', () => {
+  it('returns empty array without subject or D1', async () => {
+    expect(await getSubjectAuditLogs(undefined, 'c1', 'u1')).toEqual([]);
+    expect(await getSubjectAuditLogs(createEnv(createMockDb()), 'c1', '')).toEqual([]);
+  });
+
+  it('matches the subject as actor or resource, oldest first', async () => {
+    const db = createMockDb();
+
+    await getSubjectAuditLogs(createEnv(db), 'c1', 'u1');
+
+    expect(db.call(0).query).toContain('(user_id = ? OR resource_id = ?)');
+    expect(db.call(0).query).toContain('ORDER BY created_at ASC');
+    expect(db.call(0).bind).toHaveBeenCalledWith('c1', 'u1', 'u1', 1000);
+  });
+});
+
 describe('createDeletionRequest', () => {
   it('returns null when env is undefined', async () => {
     expect(await createDeletionRequest(undefined, 'c1', 'u1')).toBeNull();
@@ -516,6 +537,77 @@ describe('getDeletionRequests', () => {
 
 // ─── Chain Verification Tests ───
 
+describe('updateDeletionRequest', () => {
+  it('stores status and progress for the request', async () => {
+    const db = createMockDb();
+
+    const ok = await updateDeletionRequest(createEnv(db), 'req-1', 'in_progress', ['kv:ml:a:base']);
+
+    expect(ok).toBe(true);
+    expect(db.call(0).bind).toHaveBeenCalledWith('in_progress', '["kv:ml:a:base"]', 'req-1');
+  });
+
+  it('returns false without D1', async () => {
+    expect(await updateDeletionRequest(undefined, 'req-1', 'failed', [])).toBe(false);
+  });
+});
+
+describe('getLatestDeletionRequest', () => {
+  it('returns the most recent request for the user', async () => {
+    const db = createMockDb();
+    const originalPrepare = db.prepare.getMockImplementation() as NonNullable<ReturnType<typeof db.prepare.getMockImplementation>>;
+    db.prepare.mockImplementation((query: string) => {
+      const result = originalPrepare(query);
+      db._calls[db._calls.length - 1].all.mockResolvedValueOnce({
+        success: true,
+        results: [{ id: 'req-2', status: 'failed' }],
+      });
+      return result;
+    });
+
+    const row = await getLatestDeletionRequest(createEnv(db), 'c1', 'u1');
+
+    expect(row?.id).toBe('req-2');
+    expect(db.call(0).query).toContain('ORDER BY requested_at DESC LIMIT 1');
+    expect(db.call(0).bind).toHaveBeenCalledWith('c1', 'u1');
+  });
+
+  it('returns null when there is no request', async () => {
+    expect(await getLatestDeletionRequest(createEnv(createMockDb()), 'c1', 'u1')).toBeNull();
+  });
+});
+
+describe('purgeAuditLogsBefore', () => {
+  it('counts expired rows per company, then deletes them', async () => {
+    const db = createMockDb();
+    const originalPrepare = db.prepare.getMockImplementation() as NonNullable<ReturnType<typeof db.prepare.getMockImplementation>>;
+    db.prepare.mockImplementation((query: string) => {
+      const result = originalPrepare(query);
+      if (query.includes('GROUP BY company_id')) {
+        db._calls[db._calls.length - 1].all.mockResolvedValueOnce({
+          success: true,
+          results: [{ company_id: 'c1', count: 3 }],
+        });
+      }
+      return result;
+    });
+
+    const purged = await purgeAuditLogsBefore(createEnv(db), '2024-01-01');
+
+    expect(purged).toEqual([{ companyId: 'c1', count: 3 }]);
+    expect(db.call(1).query).toBe('DELETE FROM data_access_audit WHERE created_at < ?');
+    expect(db.call(1).bind).toHaveBeenCalledWith('2024-01-01');
+  });
+
+  it('skips the delete when nothing is expired and returns null without D1', async () => {
+    const db = createMockDb();
+    expect(await purgeAuditLogsBefore(createEnv(db), '2024-01-01')).toEqual([]);
+    expect(db.prepare).toHaveBeenCalledTimes(1);
+
+    expect(await purgeAuditLogsBefore(undefined, '2024-01-01')).toBeNull();
+  });
+});
+
 describe('verifyAuditChain', () => {
   it('returns valid=true for empty chain', async () => {
     const db = createMockDb();
@@ -62,11 +62,13 @@ export interface AuditLogRow {
   prev_hash: string | null;
 }
 
+export type DeletionRequestStatus = 'pending' | 'in_progress' | 'completed' | 'failed';
+
 export interface DeletionRequestRow {
   id: string;
   company_id: string;
   user_id: string;
-  status: string;
+  status: DeletionRequestStatus;
   resources_deleted: string | null;
   requested_at: string;
   completed_at: string | null;
@@ -296,6 +298,35 @@ export async function getAuditLogs(
   }
 }
 
+/**
+ * Fetch every audit row about a data subject (as actor or as resource), oldest first.
+ * Used for Art. 15 exports. Returns empty array on any error. Never throws.
+ */
+export async function getSubjectAuditLogs(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  subjectId: string
+): Promise<AuditLogRow[]> {
+  const db = getDb(env);
+  if (!db || !companyId || !subjectId) return [];
+
+  try {
+    const stmt = db.prepare(
+      'SELECT * FROM data_access_audit WHERE company_id = ? AND (user_id = ? OR resource_id = ?) ORDER BY created_at ASC LIMIT ?'
+    );
+    const result = await stmt.bind(companyId, subjectId, subjectId, GDPR.EXPORT_MAX_AUDIT_ROWS).all();
+    return (result?.results as AuditLogRow[]) ?? [];
+  } catch (error) {
+    const errInfo = errorService.dataProcessing(
+      error instanceof Error ? error.message : String(error),
+      { operation: 'fetch-subject-audit-logs', companyId },
+      ERROR_CODES.GDPR_OPERATION_FAILED
+    );
+    logger.warn('Failed to fetch subject audit logs', { code: errInfo.code });
+    return [];
+  }
+}
+
 // ─── Data Deletion (Art. 17 — Right to Erasure) ───
 
 /**
@@ -375,6 +406,63 @@ export async function completeDeletionRequest(
   }
 }
 
+/**
+ * Record progress of an in-flight deletion request (resources deleted so far + status).
+ * Lets an interrupted erasure resume from the same request row. Never throws.
+ */
+export async function updateDeletionRequest(
+  env: Record<string, unknown> | undefined,
+  requestId: string,
+  status: Extract<DeletionRequestStatus, 'in_progress' | 'failed'>,
+  deletedResources: string[]
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db || !requestId) return false;
+
+  try {
+    const stmt = db.prepare('UPDATE data_deletion_requests SET status = ?, resources_deleted = ? WHERE id = ?');
+    await stmt.bind(status, JSON.stringify(deletedResources), requestId).run();
+    return true;
+  } catch (error) {
+    const errInfo = errorService.dataProcessing(
+      error instanceof Error ? error.message : String(error),
+      { operation: 'update-deletion-request', requestId },
+      ERROR_CODES.GDPR_DELETE_FAILED
+    );
+    logger.warn('Failed to update deletion request', { code: errInfo.code });
+    return false;
+  }
+}
+
+/**
+ * Most recent deletion request for a user, or null if none (or D1 unavailable). Never throws.
+ */
+export async function getLatestDeletionRequest(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  userId: string
+): Promise<DeletionRequestRow | null> {
+  const db = getDb(env);
+  if (!db || !companyId || !userId) return null;
+
+  try {
+    const stmt = db.prepare(
+      'SELECT * FROM data_deletion_requests WHERE company_id = ? AND user_id = ? ORDER BY requested_at DESC LIMIT 1'
+    );
+    const result = await stmt.bind(companyId, userId).all();
+    const rows = (result?.results as DeletionRequestRow[]) ?? [];
+    return rows[0] ?? null;
+  } catch (error) {
+    const errInfo = errorService.dataProcessing(
+      error instanceof Error ? error.message : String(error),
+      { operation: 'fetch-latest-deletion-request', companyId },
+      ERROR_CODES.GDPR_OPERATION_FAILED
+    );
+    logger.warn('Failed to fetch latest deletion request', { code: errInfo.code });
+    return null;
+  }
+}
+
 /**
  * Get deletion requests for a company. Never throws.
  */
@@ -422,6 +510,41 @@ export function buildResourceKeyPrefixes(resourceId: string): string[] {
 
 // ─── Retention Policy Helper ───
 
+/**
+ * Delete audit rows created before `cutoffDay` (YYYY-MM-DD), returning per-company counts
+ * so the sweeper can record each purge in that company's chain. Null on failure. Never throws.
+ *
+ * Surviving rows still verify: each row's hash covers its own stored prev_hash,
+ * so dropping the oldest links does not break verifyAuditChain().
+ */
+export async function purgeAuditLogsBefore(
+  env: Record<string, unknown> | undefined,
+  cutoffDay: string
+): Promise<Array<{ companyId: string; count: number }> | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const countStmt = db.prepare(
+      'SELECT company_id, COUNT(*) AS count FROM data_access_audit WHERE created_at < ? GROUP BY company_id'
+    );
+    const counted = await countStmt.bind(cutoffDay).all();
+    const rows = (counted?.results as Array<{ company_id: string; count: number }>) ?? [];
+    if (rows.length === 0) return [];
+
+    await db.prepare('DELETE FROM data_access_audit WHERE created_at < ?').bind(cutoffDay).run();
+    return rows.map(r => ({ companyId: r.company_id, count: Number(r.count) }));
+  } catch (error) {
+    const errInfo = errorService.dataProcessing(
+      error instanceof Error ? error.message : String(error),
+      { operation: 'purge-audit-logs', cutoffDay },
+      ERROR_CODES.GDPR_DELETE_FAILED
+    );
+    logger.warn('Failed to purge expired audit logs', { code: errInfo.code });
+    return null;
+  }
+}
+
 /**
  * Check if a record has exceeded its retention period.
  * Useful for cron-based cleanup jobs.
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  assertLlmBudget,
+  checkLlmBudget,
+  getLlmSpend,
+  LlmBudgetExceededError,
+  recordLlmCost,
+  recordLlmUsage,
+  resetLlmBudgetCache,
+} from './llm-cost-service';
+import { requestStorage } from '../utils/core/request-storage';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+// ─── Mock D1 ───
+
+/**
+ * Mock D1 that answers by query type: budget lookup, month-to-date total, grouped spend.
+ * Every prepare() is recorded with its bound values.
+ */
+function createMockDb(data: { budget?: Record<string, unknown>; total?: number; rows?: unknown[] } = {}) {
+  const calls: Array<{ query: string; values: unknown[] }> = [];
+
+  const prepare = vi.fn().mockImplementation((query: string) => {
+    const call = { query, values: [] as unknown[] };
+    calls.push(call);
+    const results = query.includes('FROM llm_budgets')
+      ? data.budget
+        ? [data.budget]
+        : []
+      : query.includes('AS total')
+        ? [{ total: data.total ?? null }]
+        : (data.rows ?? []);
+    const statement = {
+      bind: (...values: unknown[]) => {
+        call.values = values;
+        return statement;
+      },
+      run: vi.fn().mockResolvedValue({ success: true }),
+      all: vi.fn().mockResolvedValue({ success: true, results }),
+    };
+    return statement;
+  });
+
+  return { prepare, calls };
+}
+
+const envFor = (db: ReturnType<typeof createMockDb>) => ({ agentic_ally_memory: db }) as Record<string, unknown>;
+
+const BUDGET = { company_id: 'acme', monthly_budget_usd: 100, soft_limit_pct: 80, hard_limit_pct: 100 };
+const NOW = new Date('2025-03-15T12:00:00Z');
+
+const breakdown = { model: 'gpt-4o-mini', inputTokens: 1000, outputTokens: 500, cachedTokens: 0, costUsd: 0.5 };
+
+describe('llm-cost-service', () => {
+  beforeEach(() => {
+    resetLlmBudgetCache();
+  });
+
+  describe('recordLlmCost', () => {
+    it('upserts the daily ledger row keyed by company, agent, workflow, operation and model', async () => {
+      const db = createMockDb();
+
+      const ok = await recordLlmCost(
+        envFor(db),
+        {
+          ...breakdown,
+          companyId: 'acme',
+          agent: 'microlearningAgent',
+          workflow: 'autonomous',
+          operation: 'scene-rewriter',
+        },
+        NOW
+      );
+
+      expect(ok).toBe(true);
+      expect(db.calls[0].query).toContain('ON CONFLICT (company_id, day, agent, workflow, operation, model)');
+      expect(db.calls[0].values.slice(0, 6)).toEqual([
+        'acme',
+        '2025-03-15',
+        'microlearningAgent',
+        'autonomous',
+        'scene-rewriter',
+        'gpt-4o-mini',
+      ]);
+    });
+
+    it('returns false without D1 or when the write fails', async () => {
+      expect(
+        await recordLlmCost(undefined, { ...breakdown, companyId: 'a', agent: 'x', workflow: 'y', operation: 'z' })
+      ).toBe(false);
+
+      const db = createMockDb();
+      db.prepare.mockImplementationOnce(() => {
+        throw new Error('no such table: llm_cost_ledger');
+      });
+      expect(
+        await recordLlmCost(envFor(db), { ...breakdown, companyId: 'a', agent: 'x', workflow: 'y', operation: 'z' })
+      ).toBe(false);
+    });
+  });
+
+  describe('recordLlmUsage', () => {
+    it('attributes the call to the agent/workflow in request context', async () => {
+      const db = createMockDb();
+
+      await requestStorage.run({ companyId: 'acme', env: envFor(db), workflowName: 'autonomous' }, async () => {
+        recordLlmUsage('phishing-email-generate', breakdown);
+      });
+
+      expect(db.calls[0].values.slice(0, 5)).toEqual([
+        'acme',
+        expect.any(String),
+        'none',
+        'autonomous',
+        'phishing-email-generate',
+      ]);
+    });
+
+    it('hands the ledger write to waitUntil so Workers keep it alive', async () => {
+      const db = createMockDb();
+      const waitUntil = vi.fn();
+
+      requestStorage.run({ companyId: 'acme', env: envFor(db), waitUntil }, () => recordLlmUsage('op', breakdown));
+
+      expect(waitUntil).toHaveBeenCalledWith(expect.any(Promise));
+      await expect(waitUntil.mock.calls[0][0]).resolves.toBe(true);
+    });
+
+    it('is a no-op without a company in context', () => {
+      const db = createMockDb();
+      requestStorage.run({ env: envFor(db) }, () => recordLlmUsage('op', breakdown));
+      expect(db.prepare).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('checkLlmBudget', () => {
+    it('is unlimited when no budget row exists', async () => {
+      const db = createMockDb({ total: 500 });
+      const status = await checkLlmBudget(envFor(db), 'acme', NOW);
+      expect(status.state).toBe('unlimited');
+      expect(status.budgetUsd).toBeNull();
+    });
+
+    it('resolves ok / warning / exceeded from month-to-date spend', async () => {
+      expect((await checkLlmBudget(envFor(createMockDb({ budget: BUDGET, total: 10 })), 'acme', NOW)).state).toBe('ok');
+
+      resetLlmBudgetCache();
+      const warning = await checkLlmBudget(envFor(createMockDb({ budget: BUDGET, total: 85 })), 'acme', NOW);
+      expect(warning).toMatchObject({ state: 'warning', spentUsd: 85, softLimitUsd: 80, hardLimitUsd: 100 });
+
+      resetLlmBudgetCache();
+      expect((await checkLlmBudget(envFor(createMockDb({ budget: BUDGET, total: 100 })), 'acme', NOW)).state).toBe(
+        'exceeded'
+      );
+    });
+
+    it('queries spend from the start of the month and caches it', async () => {
+      const db = createMockDb({ budget: BUDGET, total: 10 });
+
+      await checkLlmBudget(envFor(db), 'acme', NOW);
+      await checkLlmBudget(envFor(db), 'acme', new Date(NOW.getTime() + 1000));
+
+      expect(db.calls.find(c => c.query.includes('AS total'))?.values).toEqual(['acme', '2025-03-01']);
+      expect(db.prepare).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('assertLlmBudget', () => {
+    it('throws LlmBudgetExceededError once recorded usage crosses the hard limit', async () => {
+      const db = createMockDb({ budget: BUDGET, total: 99.8 });
+
+      await requestStorage.run({ companyId: 'acme', env: envFor(db) }, async () => {
+        await expect(assertLlmBudget('op')).resolves.toBeUndefined();
+        recordLlmUsage('op', breakdown);
+        await expect(assertLlmBudget('op')).rejects.toBeInstanceOf(LlmBudgetExceededError);
+      });
+    });
+
+    it('is a no-op without a company in context', async () => {
+      await expect(assertLlmBudget('op')).resolves.toBeUndefined();
+    });
+  });
+
+  describe('getLlmSpend', () => {
+    it('groups spend by the requested column for the period', async () => {
+      const db = createMockDb({
+        rows: [
+          { key: 'autonomous', cost_usd: 1.25, calls: 10, input_tokens: 5000, output_tokens: 2000 },
+          { key: 'none', cost_usd: 0.5, calls: 4, input_tokens: 800, output_tokens: 300 },
+        ],
+      });
+
+      const report = await getLlmSpend(envFor(db), 'acme', {
+        from: '2025-03-01',
+        to: '2025-03-31',
+        groupBy: 'workflow',
+      });
+
+      expect(db.calls[0].query).toContain('GROUP BY workflow');
+      expect(db.calls[0].values).toEqual(['acme', '2025-03-01', '2025-03-31']);
+      expect(report?.totalUsd).toBe(1.75);
+      expect(report?.rows[0]).toEqual({
+        key: 'autonomous',
+        costUsd: 1.25,
+        calls: 10,
+        inputTokens: 5000,
+        outputTokens: 2000,
+      });
+    });
+
+    it('returns null without D1', async () => {
+      expect(await getLlmSpend(undefined, 'acme', { from: '2025-03-01', to: '2025-03-31', groupBy: 'day' })).toBeNull();
+    });
+  });
+});
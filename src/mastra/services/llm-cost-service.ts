@@ -0,0 +1,383 @@
+/**
+ * LLM Cost Ledger & Budget Service
+ *
+ * Persists what cost-tracker computes into D1 (llm_cost_ledger, daily aggregates keyed by
+ * company, agent, workflow, operation and model) and enforces per-company monthly budgets
+ * (llm_budgets) before LLM calls run:
+ * - soft limit: logged once per company per month, calls continue
+ * - hard limit: assertLlmBudget() throws LlmBudgetExceededError
+ *
+ * Month-to-date spend is cached per isolate (LLM_COST.BUDGET_CACHE_TTL_MS) and bumped locally
+ * on every recorded call, so enforcement does not add a D1 round-trip per LLM call.
+ *
+ * Pattern: follows gdpr-service.ts — ledger writes never throw, and a missing D1 binding or
+ * migration means "no budget" (fail-open) rather than blocking generation.
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { requestStorage } from '../utils/core/request-storage';
+import { logErrorInfo } from '../utils/core/error-utils';
+import type { LlmCostBreakdown } from '../utils/core/cost-tracker';
+import { ERROR_CODES, LLM_COST, type LlmCostGroupBy } from '../constants';
+import { errorService } from './error-service';
+
+const logger = getLogger('LlmCostService');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  all(): Promise<D1Result>;
+}
+
+interface D1Result {
+  success: boolean;
+  results?: unknown[];
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Types ───
+
+export interface LlmCostEntry extends LlmCostBreakdown {
+  companyId: string;
+  agent: string;
+  workflow: string;
+  operation: string;
+}
+
+export interface LlmBudget {
+  companyId: string;
+  monthlyBudgetUsd: number;
+  softLimitPct: number;
+  hardLimitPct: number;
+}
+
+export type LlmBudgetState = 'unlimited' | 'ok' | 'warning' | 'exceeded';
+
+export interface LlmBudgetStatus {
+  companyId: string;
+  month: string; // YYYY-MM (UTC)
+  state: LlmBudgetState;
+  spentUsd: number;
+  budgetUsd: number | null;
+  softLimitUsd: number | null;
+  hardLimitUsd: number | null;
+}
+
+export interface LlmSpendRow {
+  key: string;
+  costUsd: number;
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+}
+
+export interface LlmSpendReport {
+  from: string;
+  to: string;
+  groupBy: LlmCostGroupBy;
+  totalUsd: number;
+  rows: LlmSpendRow[];
+}
+
+/** Thrown by assertLlmBudget when a company's month-to-date spend reached its hard limit */
+export class LlmBudgetExceededError extends Error {
+  readonly code = ERROR_CODES.LLM_BUDGET_EXCEEDED;
+
+  constructor(readonly budget: LlmBudgetStatus) {
+    super(`LLM budget exceeded for company ${budget.companyId} (${budget.month})`);
+    this.name = 'LlmBudgetExceededError';
+  }
+}
+
+// ─── Helpers ───
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  if (!env) return null;
+  const db = env.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, skipping LLM cost operation');
+    return null;
+  }
+  return db;
+}
+
+const toDay = (date: Date): string => date.toISOString().slice(0, 10);
+const toMonth = (date: Date): string => date.toISOString().slice(0, 7);
+const roundUsd = (value: number): number => parseFloat(value.toFixed(6));
+
+interface BudgetCacheEntry {
+  month: string;
+  loadedAt: number;
+  budget: LlmBudget | null;
+  spentUsd: number;
+  notifiedState?: LlmBudgetState;
+}
+
+const budgetCache = new Map<string, BudgetCacheEntry>();
+
+/** Clear cached budgets/spend (tests, or after an operator changes a budget) */
+export function resetLlmBudgetCache(): void {
+  budgetCache.clear();
+}
+
+function resolveState(budget: LlmBudget | null, spentUsd: number): LlmBudgetStatus['state'] {
+  if (!budget) return 'unlimited';
+  if (spentUsd >= (budget.monthlyBudgetUsd * budget.hardLimitPct) / 100) return 'exceeded';
+  if (spentUsd >= (budget.monthlyBudgetUsd * budget.softLimitPct) / 100) return 'warning';
+  return 'ok';
+}
+
+function toStatus(companyId: string, entry: BudgetCacheEntry): LlmBudgetStatus {
+  const { budget } = entry;
+  return {
+    companyId,
+    month: entry.month,
+    state: resolveState(budget, entry.spentUsd),
+    spentUsd: roundUsd(entry.spentUsd),
+    budgetUsd: budget ? budget.monthlyBudgetUsd : null,
+    softLimitUsd: budget ? roundUsd((budget.monthlyBudgetUsd * budget.softLimitPct) / 100) : null,
+    hardLimitUsd: budget ? roundUsd((budget.monthlyBudgetUsd * budget.hardLimitPct) / 100) : null,
+  };
+}
+
+// ─── Ledger ───
+
+/**
+ * Add one LLM call to the company's daily ledger row (upsert).
+ * Returns false if D1 is unavailable or the write fails. Never throws.
+ */
+export async function recordLlmCost(
+  env: Record<string, unknown> | undefined,
+  entry: LlmCostEntry,
+  now: Date = new Date()
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db) return false;
+
+  try {
+    await db
+      .prepare(
+        `INSERT INTO llm_cost_ledger
+         (company_id, day, agent, workflow, operation, model, calls, input_tokens, output_tokens, cached_tokens, cost_usd, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, 1, ?, ?, ?, ?, ?)
+         ON CONFLICT (company_id, day, agent, workflow, operation, model) DO UPDATE SET
+           calls = calls + 1,
+           input_tokens = input_tokens + excluded.input_tokens,
+           output_tokens = output_tokens + excluded.output_tokens,
+           cached_tokens = cached_tokens + excluded.cached_tokens,
+           cost_usd = cost_usd + excluded.cost_usd,
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        entry.companyId,
+        toDay(now),
+        entry.agent,
+        entry.workflow,
+        entry.operation,
+        entry.model,
+        entry.inputTokens,
+        entry.outputTokens,
+        entry.cachedTokens,
+        entry.costUsd,
+        now.toISOString()
+      )
+      .run();
+    return true;
+  } catch (error) {
+    const errorInfo = errorService.external(error instanceof Error ? error.message : String(error), {
+      operation: 'llm-cost-ledger-write',
+      companyId: entry.companyId,
+    });
+    logErrorInfo(logger, 'warn', 'llm_cost_ledger_write_failed', errorInfo);
+    return false;
+  }
+}
+
+/**
+ * Record a tracked LLM call for the company in the current request context.
+ * The D1 write is not awaited; it is handed to the request's waitUntil (Workers) so it
+ * survives the response. The cached month-to-date spend is bumped immediately.
+ */
+export function recordLlmUsage(operation: string, breakdown: LlmCostBreakdown | undefined): void {
+  const store = requestStorage.getStore();
+  const companyId = store?.companyId;
+  if (!companyId || !breakdown) return;
+
+  const cached = budgetCache.get(companyId);
+  if (cached && cached.month === toMonth(new Date())) {
+    cached.spentUsd += breakdown.costUsd;
+  }
+
+  const write = recordLlmCost(store.env, {
+    ...breakdown,
+    companyId,
+    agent: store.agentName || LLM_COST.UNATTRIBUTED,
+    workflow: store.workflowName || LLM_COST.UNATTRIBUTED,
+    operation,
+  });
+  // Without waitUntil (Node, workflow steps) the write still completes in the background
+  store.waitUntil?.(write);
+}
+
+/**
+ * Aggregate spend for a company between two days (inclusive, YYYY-MM-DD), grouped by one ledger column.
+ * Returns null if D1 is unavailable or the query fails. Never throws.
+ */
+export async function getLlmSpend(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  query: { from: string; to: string; groupBy: LlmCostGroupBy }
+): Promise<LlmSpendReport | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  // groupBy is validated against LLM_COST.GROUP_BY — safe to interpolate as a column name
+  const column = LLM_COST.GROUP_BY.includes(query.groupBy) ? query.groupBy : 'operation';
+
+  try {
+    const result = await db
+      .prepare(
+        `SELECT ${column} AS key, SUM(cost_usd) AS cost_usd, SUM(calls) AS calls,
+                SUM(input_tokens) AS input_tokens, SUM(output_tokens) AS output_tokens
+         FROM llm_cost_ledger
+         WHERE company_id = ? AND day >= ? AND day <= ?
+         GROUP BY ${column}
+         ORDER BY cost_usd DESC`
+      )
+      .bind(companyId, query.from, query.to)
+      .all();
+
+    const rows = ((result?.results ?? []) as Array<Record<string, unknown>>).map(row => ({
+      key: String(row.key),
+      costUsd: roundUsd(Number(row.cost_usd) || 0),
+      calls: Number(row.calls) || 0,
+      inputTokens: Number(row.input_tokens) || 0,
+      outputTokens: Number(row.output_tokens) || 0,
+    }));
+
+    return {
+      from: query.from,
+      to: query.to,
+      groupBy: column,
+      totalUsd: roundUsd(rows.reduce((sum, row) => sum + row.costUsd, 0)),
+      rows,
+    };
+  } catch (error) {
+    const errorInfo = errorService.external(error instanceof Error ? error.message : String(error), {
+      operation: 'llm-cost-ledger-query',
+      companyId,
+    });
+    logErrorInfo(logger, 'warn', 'llm_cost_ledger_query_failed', errorInfo);
+    return null;
+  }
+}
+
+// ─── Budgets ───
+
+/** Budget row for a company, or null when none is configured (unlimited). Never throws. */
+export async function getLlmBudget(
+  env: Record<string, unknown> | undefined,
+  companyId: string
+): Promise<LlmBudget | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        'SELECT company_id, monthly_budget_usd, soft_limit_pct, hard_limit_pct FROM llm_budgets WHERE company_id = ? LIMIT 1'
+      )
+      .bind(companyId)
+      .all();
+    const row = (result?.results as Array<Record<string, unknown>> | undefined)?.[0];
+    const monthlyBudgetUsd = Number(row?.monthly_budget_usd);
+    if (!row || !Number.isFinite(monthlyBudgetUsd) || monthlyBudgetUsd < 0) return null;
+
+    return {
+      companyId,
+      monthlyBudgetUsd,
+      softLimitPct: Number(row.soft_limit_pct) || LLM_COST.DEFAULT_SOFT_LIMIT_PCT,
+      hardLimitPct: Number(row.hard_limit_pct) || LLM_COST.DEFAULT_HARD_LIMIT_PCT,
+    };
+  } catch {
+    // Table missing (migration 0007 not applied) → no budget
+    return null;
+  }
+}
+
+async function getMonthToDateSpend(db: D1Database, companyId: string, month: string): Promise<number> {
+  try {
+    const result = await db
+      .prepare('SELECT SUM(cost_usd) AS total FROM llm_cost_ledger WHERE company_id = ? AND day >= ?')
+      .bind(companyId, `${month}-01`)
+      .all();
+    const row = (result?.results as Array<{ total: number | null }> | undefined)?.[0];
+    return Number(row?.total) || 0;
+  } catch {
+    return 0;
+  }
+}
+
+/**
+ * Current budget state for a company. Uses the per-isolate cache when fresh.
+ * Soft/hard threshold crossings are logged once per company per month. Never throws.
+ */
+export async function checkLlmBudget(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  now: Date = new Date()
+): Promise<LlmBudgetStatus> {
+  const month = toMonth(now);
+  let entry = budgetCache.get(companyId);
+
+  if (!entry || entry.month !== month || now.getTime() - entry.loadedAt > LLM_COST.BUDGET_CACHE_TTL_MS) {
+    const db = getDb(env);
+    const budget = db ? await getLlmBudget(env, companyId) : null;
+    const spentUsd = db && budget ? await getMonthToDateSpend(db, companyId, month) : 0;
+    entry = {
+      month,
+      loadedAt: now.getTime(),
+      budget,
+      spentUsd,
+      notifiedState: entry?.month === month ? entry.notifiedState : undefined,
+    };
+    budgetCache.set(companyId, entry);
+  }
+
+  const status = toStatus(companyId, entry);
+  if ((status.state === 'warning' || status.state === 'exceeded') && entry.notifiedState !== status.state) {
+    entry.notifiedState = status.state;
+    logger.warn(status.state === 'warning' ? 'llm_budget_soft_limit_reached' : 'llm_budget_hard_limit_reached', {
+      companyId,
+      month,
+      spentUsd: status.spentUsd,
+      budgetUsd: status.budgetUsd,
+    });
+  }
+  return status;
+}
+
+/**
+ * Hard-stop guard for LLM calls: throws LlmBudgetExceededError when the company in the
+ * current request context is over its hard limit. No company/D1/budget → no-op.
+ */
+export async function assertLlmBudget(operation: string): Promise<void> {
+  const store = requestStorage.getStore();
+  if (!store?.companyId) return;
+
+  const budget = await checkLlmBudget(store.env, store.companyId);
+  if (budget.state !== 'exceeded') return;
+
+  const errorInfo = errorService.rateLimit(
+    'LLM budget exceeded',
+    { operation, companyId: budget.companyId, spentUsd: budget.spentUsd, hardLimitUsd: budget.hardLimitUsd },
+    ERROR_CODES.LLM_BUDGET_EXCEEDED
+  );
+  logErrorInfo(logger, 'warn', 'llm_call_blocked_by_budget', errorInfo);
+  throw new LlmBudgetExceededError(budget);
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildExportCourse,
+  buildMicrolearningPackage,
+  buildPackageFilename,
+  isMicrolearningExportFormat,
+  type MicrolearningExportInput,
+} from './index';
+
+const SCENE_TYPES = ['intro', 'goal', 'scenario', 'actionable_content', 'quiz', 'survey', 'nudge', 'summary'];
+
+const languageContent: Record<string, unknown> = {
+  '1': { title: 'Spot Phishing', subtitle: 'In 5 minutes', highlights: [{ iconName: 'a', text: 'Check links' }] },
+  '2': { title: 'Goals', goals: [{ title: 'Recognize', subtitle: 'Signs', description: 'Red flags' }] },
+  '3': { title: 'Scenario', video: { src: 'https://cdn.example.com/v.mp4', transcript: 'Hello' } },
+  '4': { title: 'Actions', actions: [{ title: 'Report', description: 'Use the button', tip: 'Fast' }] },
+  '5': {
+    title: 'Quiz',
+    questions: {
+      totalCount: 2,
+      maxAttempts: 2,
+      list: [
+        {
+          id: 'q1',
+          type: 'multiple_choice',
+          title: 'What do you do?',
+          explanation: 'Report it.',
+          options: [
+            { id: 'a', text: 'Report', isCorrect: true },
+            { id: 'b', text: 'Click', isCorrect: false },
+          ],
+        },
+        {
+          id: 'q2',
+          type: 'true_false',
+          title: 'Urgency is a red flag',
+          statement: 'Urgent emails are suspicious',
+          correctAnswer: true,
+          explanation: 'Yes.',
+          options: { true: { label: 'True', icon: 'check' }, false: { label: 'False', icon: 'x' } },
+        },
+      ],
+    },
+  },
+  '6': { title: 'Survey', topics: ['Links'], texts: { submitButton: 'Send' } },
+  '7': { subtitle: 'Next time', key_message: ['Pause', 'Verify'] },
+  '8': { texts: { completionTitle: 'Well done' }, immediateActions: [{ title: 'Report', description: 'Now' }] },
+  app: { texts: { nextSection: 'Next' } },
+};
+
+const input: MicrolearningExportInput = {
+  base: {
+    microlearning_id: 'phishing-101',
+    version: 3,
+    microlearning_metadata: { title: 'Phishing Awareness', description: 'Spot & report phishing' },
+    scenes: SCENE_TYPES.map((type, i) => ({ scene_id: String(i + 1), metadata: { scene_type: type } })),
+  },
+  language: 'en-gb',
+  languageContent,
+};
+
+/** Stored zips keep every entry verbatim, so names and XML can be read back as text */
+const zipText = (bytes: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('microlearning-export', () => {
+  describe('buildExportCourse', () => {
+    it('orders scenes by the base and builds the quiz answer key', () => {
+      const course = buildExportCourse(input);
+
+      expect(course.scenes.map(scene => scene.type)).toEqual(SCENE_TYPES);
+      expect(course.quiz).toEqual({
+        sceneIndex: 4,
+        maxAttempts: 2,
+        questions: [
+          { id: 'q1', correct: ['a'] },
+          { id: 'q2', correct: ['true'] },
+        ],
+      });
+      expect(course.activityIri).toMatch(/\/microlearning\/phishing-101$/);
+      expect(course.version).toBe(3);
+    });
+
+    it('throws when a scene has no content in the language', () => {
+      const partial = { ...languageContent };
+      delete partial['8'];
+
+      expect(() => buildExportCourse({ ...input, languageContent: partial })).toThrow(
+        'Scene 8 has no content in en-gb'
+      );
+    });
+  });
+
+  describe('buildMicrolearningPackage', () => {
+    it('builds a SCORM 1.2 zip with manifest, player and mastery score', () => {
+      const file = buildMicrolearningPackage(input, 'scorm12');
+      const text = zipText(file.bytes);
+
+      expect(file.contentType).toBe('application/zip');
+      expect(file.filename).toBe('phishing-awareness-en-gb-scorm12.zip');
+      expect(Array.from(file.bytes.slice(0, 4))).toEqual([0x50, 0x4b, 0x03, 0x04]);
+      for (const path of ['imsmanifest.xml', 'index.html', 'player.js', 'player.css']) {
+        expect(text).toContain(path);
+      }
+      expect(text).toContain('<schemaversion>1.2</schemaversion>');
+      expect(text).toContain('<adlcp:masteryscore>70</adlcp:masteryscore>');
+      expect(text).toContain('adlcp:scormtype="sco"');
+    });
+
+    it('builds a SCORM 2004 manifest with a scaled passing measure', () => {
+      const text = zipText(buildMicrolearningPackage(input, 'scorm2004').bytes);
+
+      expect(text).toContain('<schemaversion>2004 4th Edition</schemaversion>');
+      expect(text).toContain('<imsss:minNormalizedMeasure>0.7</imsss:minNormalizedMeasure>');
+      expect(text).toContain('adlcp:scormType="sco"');
+    });
+
+    it('builds an xAPI package with a cmi5 course structure', () => {
+      const file = buildMicrolearningPackage(input, 'xapi');
+      const text = zipText(file.bytes);
+
+      expect(file.filename).toBe('phishing-awareness-en-gb-xapi.zip');
+      expect(text).toContain('cmi5.xml');
+      expect(text).not.toContain('imsmanifest.xml');
+      expect(text).toContain('moveOn="CompletedAndPassed" masteryScore="0.7"');
+      expect(text).toContain('<langstring lang="en-gb">Spot &amp; report phishing</langstring>');
+    });
+  });
+
+  describe('helpers', () => {
+    it('validates formats and builds ASCII filenames', () => {
+      expect(isMicrolearningExportFormat('scorm2004')).toBe(true);
+      expect(isMicrolearningExportFormat('zip')).toBe(false);
+      expect(buildPackageFilename('Güvenli Parola!', 'tr-TR', 'scorm12')).toBe('guvenli-parola-tr-tr-scorm12.zip');
+      expect(buildPackageFilename('***', 'en', 'xapi')).toBe('microlearning-en-xapi.zip');
+    });
+  });
+});
@@ -0,0 +1,117 @@
+/**
+ * Microlearning Export
+ *
+ * Builds a downloadable LMS package (SCORM 1.2, SCORM 2004 or xAPI / cmi5 zip) from a stored
+ * microlearning (MicrolearningContent base + one LanguageContent). Every package contains the
+ * manifest and the same self-contained player (index.html + player.js + player.css): scenes in
+ * base order, quiz scored against the stored answers, completion on the last scene (scene 8).
+ * Pure TypeScript, written with the stored-zip writer from report-export — runs in Node and Workers.
+ */
+
+import { MICROLEARNING_EXPORT, type MicrolearningExportFormat } from '../../constants';
+import { createZip, type ZipEntry } from '../report-export/ooxml';
+import { cmi5CourseStructure, scorm12Manifest, scorm2004Manifest } from './manifest';
+import { renderPlayerHtml } from './player-html';
+import { PLAYER_CSS, PLAYER_JS } from './player-runtime';
+import type { ExportCourse, ExportQuiz, ExportScene, MicrolearningExportInput, MicrolearningPackage } from './types';
+
+export * from './types';
+export { renderPlayerHtml } from './player-html';
+export { cmi5CourseStructure, scorm12Manifest, scorm2004Manifest } from './manifest';
+
+const MANIFESTS: Record<MicrolearningExportFormat, { path: string; render: (course: ExportCourse) => string }> = {
+  scorm12: { path: 'imsmanifest.xml', render: scorm12Manifest },
+  scorm2004: { path: 'imsmanifest.xml', render: scorm2004Manifest },
+  xapi: { path: 'cmi5.xml', render: cmi5CourseStructure },
+};
+
+export function isMicrolearningExportFormat(value: unknown): value is MicrolearningExportFormat {
+  return typeof value === 'string' && (MICROLEARNING_EXPORT.FORMATS as readonly string[]).includes(value);
+}
+
+/** "Phishing Awareness" en-gb scorm12 → "phishing-awareness-en-gb-scorm12.zip" (ASCII only, safe in Content-Disposition) */
+export function buildPackageFilename(title: string, language: string, format: MicrolearningExportFormat): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, MICROLEARNING_EXPORT.FILENAME_MAX_CHARS)
+    .replace(/^-+|-+$/g, '');
+  const lang = language.toLowerCase().replace(/[^a-z0-9-]/g, '');
+  return `${slug || 'microlearning'}-${lang}-${format}.zip`;
+}
+
+/** Correct answers per question: option ids for multiple choice, 'true' / 'false' for true/false */
+function buildQuiz(scene: ExportScene, sceneIndex: number): ExportQuiz {
+  const questions = (scene.content.questions ?? {}) as { maxAttempts?: number; list?: Array<Record<string, unknown>> };
+  return {
+    sceneIndex,
+    maxAttempts: Math.max(1, Number(questions.maxAttempts) || 1),
+    questions: (questions.list ?? []).map(question => ({
+      id: String(question.id ?? ''),
+      correct:
+        question.type === 'true_false'
+          ? [String(question.correctAnswer === true)]
+          : (Array.isArray(question.options) ? question.options : [])
+              .filter(option => option?.isCorrect)
+              .map(option => String(option.id)),
+    })),
+  };
+}
+
+/** Base scene order + language content → player model; throws when a scene has no content */
+export function buildExportCourse(input: MicrolearningExportInput): ExportCourse {
+  const { base, language, languageContent } = input;
+  const scenes: ExportScene[] = base.scenes.map(scene => {
+    const content = languageContent[scene.scene_id];
+    if (!content || typeof content !== 'object') {
+      throw new Error(`Scene ${scene.scene_id} has no content in ${language}`);
+    }
+    return {
+      sceneId: scene.scene_id,
+      type: scene.metadata?.scene_type ?? String((content as Record<string, unknown>).scene_type ?? ''),
+      content: content as Record<string, unknown>,
+    };
+  });
+
+  const quizIndex = scenes.findIndex(scene => scene.type === 'quiz');
+  const app = (languageContent.app ?? {}) as { texts?: Record<string, string> };
+  const metadata = base.microlearning_metadata ?? {};
+  const logoSrc = base.theme?.logo?.src;
+
+  return {
+    id: base.microlearning_id,
+    activityIri: MICROLEARNING_EXPORT.ACTIVITY_IRI_TEMPLATE.replace('{id}', encodeURIComponent(base.microlearning_id)),
+    title: metadata.title || base.microlearning_id,
+    description: metadata.description || metadata.title || '',
+    language,
+    version: base.version ?? 1,
+    masteryScore: MICROLEARNING_EXPORT.MASTERY_SCORE,
+    ...(logoSrc && /^https?:\/\//i.test(logoSrc) && { logo: { src: logoSrc, alt: base.theme?.logo?.alt ?? '' } }),
+    scenes,
+    quiz: quizIndex === -1 ? null : buildQuiz(scenes[quizIndex], quizIndex),
+    appTexts: app.texts ?? {},
+  };
+}
+
+export function buildMicrolearningPackage(
+  input: MicrolearningExportInput,
+  format: MicrolearningExportFormat
+): MicrolearningPackage {
+  const course = buildExportCourse(input);
+  const manifest = MANIFESTS[format];
+  const entries: ZipEntry[] = [
+    { path: manifest.path, content: manifest.render(course) },
+    { path: 'index.html', content: renderPlayerHtml(course, format) },
+    { path: 'player.js', content: PLAYER_JS },
+    { path: 'player.css', content: PLAYER_CSS },
+  ];
+
+  return {
+    format,
+    contentType: MICROLEARNING_EXPORT.CONTENT_TYPE,
+    filename: buildPackageFilename(course.title, input.language, format),
+    bytes: createZip(entries),
+  };
+}
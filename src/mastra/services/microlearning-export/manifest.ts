@@ -0,0 +1,101 @@
+/**
+ * LMS package manifests: imsmanifest.xml for SCORM 1.2 and SCORM 2004 (4th Edition),
+ * cmi5.xml course structure for the xAPI variant. Each package has a single SCO / AU —
+ * the player — so the manifests only differ in namespaces and how mastery is declared.
+ */
+
+import { escapeXml } from '../report-export/ooxml';
+import type { ExportCourse } from './types';
+
+/** Files every package ships next to its manifest */
+export const PLAYER_FILES = ['index.html', 'player.js', 'player.css'] as const;
+
+const fileList = (indent: string) => PLAYER_FILES.map(file => `${indent}<file href="${file}"/>`).join('\n');
+
+/** Manifest identifiers are xs:ID values — letters, digits, '-', '_', '.' and not starting with a digit */
+function manifestIdentifier(course: ExportCourse): string {
+  return `ML-${course.id.replace(/[^A-Za-z0-9_.-]/g, '_')}-v${course.version}`;
+}
+
+export function scorm12Manifest(course: ExportCourse): string {
+  const title = escapeXml(course.title);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${manifestIdentifier(course)}" version="${course.version}"
+  xmlns="http://www.imsproject.org/xsd/imscp_rootv1p1p2"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_rootv1p2">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>1.2</schemaversion>
+  </metadata>
+  <organizations default="ORG-1">
+    <organization identifier="ORG-1">
+      <title>${title}</title>
+      <item identifier="ITEM-1" identifierref="RES-1" isvisible="true">
+        <title>${title}</title>
+        <adlcp:masteryscore>${Math.round(course.masteryScore * 100)}</adlcp:masteryscore>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="RES-1" type="webcontent" adlcp:scormtype="sco" href="index.html">
+${fileList('      ')}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+export function scorm2004Manifest(course: ExportCourse): string {
+  const title = escapeXml(course.title);
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<manifest identifier="${manifestIdentifier(course)}" version="${course.version}"
+  xmlns="http://www.imsglobal.org/xsd/imscp_v1p1"
+  xmlns:adlcp="http://www.adlnet.org/xsd/adlcp_v1p3"
+  xmlns:imsss="http://www.imsglobal.org/xsd/imsss">
+  <metadata>
+    <schema>ADL SCORM</schema>
+    <schemaversion>2004 4th Edition</schemaversion>
+  </metadata>
+  <organizations default="ORG-1">
+    <organization identifier="ORG-1">
+      <title>${title}</title>
+      <item identifier="ITEM-1" identifierref="RES-1" isvisible="true">
+        <title>${title}</title>
+        <imsss:sequencing>
+          <imsss:objectives>
+            <imsss:primaryObjective objectiveID="PRIMARY-OBJECTIVE">
+              <imsss:minNormalizedMeasure>${course.masteryScore}</imsss:minNormalizedMeasure>
+            </imsss:primaryObjective>
+          </imsss:objectives>
+        </imsss:sequencing>
+      </item>
+    </organization>
+  </organizations>
+  <resources>
+    <resource identifier="RES-1" type="webcontent" adlcp:scormType="sco" href="index.html">
+${fileList('      ')}
+    </resource>
+  </resources>
+</manifest>
+`;
+}
+
+/** cmi5 course structure: the AU is satisfied once scene 8 is completed and the quiz is passed */
+export function cmi5CourseStructure(course: ExportCourse): string {
+  const lang = escapeXml(course.language);
+  const title = `<langstring lang="${lang}">${escapeXml(course.title)}</langstring>`;
+  const description = `<langstring lang="${lang}">${escapeXml(course.description)}</langstring>`;
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<courseStructure xmlns="https://w3id.org/xapi/profiles/cmi5/v1/CourseStructure.xsd">
+  <course id="${escapeXml(course.activityIri)}">
+    <title>${title}</title>
+    <description>${description}</description>
+  </course>
+  <au id="${escapeXml(course.activityIri)}/au" moveOn="CompletedAndPassed" masteryScore="${course.masteryScore}" launchMethod="AnyWindow">
+    <title>${title}</title>
+    <description>${description}</description>
+    <url>index.html</url>
+  </au>
+</courseStructure>
+`;
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { renderPlayerHtml, renderScene } from './player-html';
+import type { ExportCourse } from './types';
+
+const course = (overrides: Partial<ExportCourse> = {}): ExportCourse => ({
+  id: 'ml-1',
+  activityIri: 'https://example.com/microlearning/ml-1',
+  title: 'Phishing <Basics>',
+  description: 'Basics',
+  language: 'en',
+  version: 1,
+  masteryScore: 0.7,
+  scenes: [{ sceneId: '1', type: 'intro', content: { title: 'Welcome' } }],
+  quiz: null,
+  appTexts: { nextSection: 'Next' },
+  ...overrides,
+});
+
+describe('player-html', () => {
+  describe('renderScene', () => {
+    it('escapes scene text', () => {
+      const html = renderScene({ sceneId: '1', type: 'intro', content: { title: '<script>alert(1)</script>' } });
+
+      expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+      expect(html).not.toContain('<script>');
+    });
+
+    it('keeps only http(s) links and media', () => {
+      const summary = renderScene({
+        sceneId: '8',
+        type: 'summary',
+        content: {
+          resources: [
+            { title: 'Intranet', url: 'https://intranet.example.com/security' },
+            { title: 'Bad', url: 'javascript:alert(1)' },
+          ],
+        },
+      });
+      const scenario = renderScene({
+        sceneId: '3',
+        type: 'scenario',
+        content: { video: { src: 'data:video/mp4;base64,AAAA', transcript: 'Text' } },
+      });
+
+      expect(summary).toContain('href="https://intranet.example.com/security"');
+      expect(summary).not.toContain('javascript:');
+      expect(scenario).not.toContain('<video');
+      expect(scenario).toContain('Text');
+    });
+
+    it('renders quiz options with the values the answer key uses', () => {
+      const html = renderScene({
+        sceneId: '5',
+        type: 'quiz',
+        content: {
+          questions: {
+            list: [
+              { type: 'multiple_choice', title: 'Q1', options: [{ id: 'a', text: 'A', isCorrect: true }] },
+              { type: 'true_false', title: 'Q2', options: { true: { label: 'Doğru' }, false: { label: 'Yanlış' } } },
+            ],
+          },
+        },
+      });
+
+      expect(html).toContain('name="question-0" value="a"');
+      expect(html).toContain('name="question-1" value="true"');
+      expect(html).toContain('Yanlış');
+    });
+  });
+
+  describe('renderPlayerHtml', () => {
+    it('embeds course data that cannot close its script element', () => {
+      const html = renderPlayerHtml(course({ title: '</script><b>' }), 'scorm12');
+      const data = html.match(/<script type="application\/json" id="course-data">(.*?)<\/script>/)?.[1];
+
+      expect(data).toBeDefined();
+      expect(JSON.parse(data!)).toMatchObject({ format: 'scorm12', title: '</script><b>', sceneCount: 1 });
+      expect(html).toContain('<script src="player.js"></script>');
+    });
+
+    it('sets language direction', () => {
+      expect(renderPlayerHtml(course({ language: 'ar-sa' }), 'xapi')).toContain('<html lang="ar-sa" dir="rtl">');
+      expect(renderPlayerHtml(course(), 'xapi')).toContain('<html lang="en" dir="ltr">');
+    });
+  });
+});
@@ -0,0 +1,250 @@
+/**
+ * Player HTML: every scene of one language rendered as a static <section>, in base scene
+ * order. player.js (player-runtime.ts) only shows one section at a time, scores the quiz
+ * and reports to the LMS — all text is escaped here, so the runtime never builds markup.
+ */
+
+import type { MicrolearningExportFormat } from '../../constants';
+import { escapeXml as escapeHtml } from '../report-export/ooxml';
+import type { ExportCourse, ExportScene } from './types';
+
+type SceneContent = Record<string, unknown>;
+
+const RTL_LANGUAGES = ['ar', 'he', 'fa', 'ur'];
+
+const str = (value: unknown): string => (typeof value === 'string' ? value : '');
+const list = (value: unknown): SceneContent[] =>
+  Array.isArray(value) ? value.filter((item): item is SceneContent => !!item && typeof item === 'object') : [];
+const strings = (value: unknown): string[] =>
+  Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : [];
+
+/** Only http(s) links and media make it into the package */
+function safeUrl(value: unknown): string | null {
+  const url = str(value).trim();
+  return /^https?:\/\//i.test(url) ? url : null;
+}
+
+function text(tag: string, value: unknown, className?: string): string {
+  const content = str(value);
+  if (!content) return '';
+  return `<${tag}${className ? ` class="${className}"` : ''}>${escapeHtml(content)}</${tag}>`;
+}
+
+function header(content: SceneContent, title: unknown = content.title, subtitle: unknown = content.subtitle): string {
+  return `${text('h2', title)}${text('p', subtitle, 'subtitle')}`;
+}
+
+function cards(items: SceneContent[], fields: { title: string; body: string[] }): string {
+  if (items.length === 0) return '';
+  const rendered = items.map(item => {
+    const body = fields.body.map(field => text('p', item[field])).join('');
+    return `<li class="card">${text('h3', item[fields.title])}${body}</li>`;
+  });
+  return `<ul class="cards">${rendered.join('')}</ul>`;
+}
+
+function bullets(items: string[]): string {
+  if (items.length === 0) return '';
+  return `<ul class="key-messages">${items.map(item => `<li>${escapeHtml(item)}</li>`).join('')}</ul>`;
+}
+
+function renderIntro(content: SceneContent): string {
+  const highlights = list(content.highlights).map(item => `<li>${escapeHtml(str(item.text))}</li>`);
+  const facts = [content.duration, content.level].filter(value => str(value)).map(value => escapeHtml(str(value)));
+  return [
+    text('p', content.sectionTitle, 'eyebrow'),
+    header(content),
+    highlights.length ? `<ul class="highlights">${highlights.join('')}</ul>` : '',
+    facts.length ? `<p class="facts">${facts.join(' · ')}</p>` : '',
+  ].join('');
+}
+
+function renderScenario(content: SceneContent): string {
+  const video = (content.video ?? {}) as SceneContent;
+  const src = safeUrl(video.src);
+  const poster = safeUrl(video.poster);
+  const transcriptUrl = safeUrl(video.transcript);
+  const transcript = transcriptUrl
+    ? `<p><a href="${escapeHtml(transcriptUrl)}" target="_blank" rel="noopener">${escapeHtml(str(video.transcriptTitle) || transcriptUrl)}</a></p>`
+    : str(video.transcript)
+      ? `<details class="transcript"><summary>${escapeHtml(str(video.transcriptTitle))}</summary><p>${escapeHtml(str(video.transcript))}</p></details>`
+      : '';
+  return [
+    header(content),
+    src
+      ? `<video controls preload="metadata" src="${escapeHtml(src)}"${poster ? ` poster="${escapeHtml(poster)}"` : ''}></video>`
+      : '',
+    transcript,
+  ].join('');
+}
+
+function renderCodeReview(content: SceneContent): string {
+  const code = (content.code ?? {}) as SceneContent;
+  const vulnerability = (content.vulnerability ?? {}) as SceneContent;
+  return [
+    header(content),
+    `<pre class="code"><code>${escapeHtml(str(code.content))}</code></pre>`,
+    bullets(strings(content.hints)),
+    str(vulnerability.name)
+      ? `<details class="reveal"><summary>${escapeHtml(str(vulnerability.name))}</summary>${text('p', vulnerability.description)}${text('p', vulnerability.explanation)}</details>`
+      : '',
+  ].join('');
+}
+
+/** Live voice / chat simulations need the platform; the package shows the opening message instead */
+function renderSimulation(content: SceneContent): string {
+  const sender = [content.callerName ?? content.senderName, content.callerNumber ?? content.senderNumber]
+    .map(str)
+    .filter(Boolean)
+    .join(' · ');
+  return [
+    header(content),
+    `<figure class="simulation">${sender ? `<figcaption>${escapeHtml(sender)}</figcaption>` : ''}${text('blockquote', content.firstMessage)}</figure>`,
+    bullets(strings(content.key_message)),
+  ].join('');
+}
+
+function renderQuestion(question: SceneContent, index: number): string {
+  const name = `question-${index}`;
+  const option = (value: string, label: string) =>
+    `<label class="option"><input type="radio" name="${name}" value="${escapeHtml(value)}"> <span>${escapeHtml(label)}</span></label>`;
+
+  let options: string[];
+  if (question.type === 'true_false') {
+    const labels = (question.options ?? {}) as Record<string, SceneContent>;
+    options = [option('true', str(labels.true?.label) || 'True'), option('false', str(labels.false?.label) || 'False')];
+  } else {
+    options = list(question.options).map(item => option(str(item.id), str(item.text)));
+  }
+
+  return `<fieldset class="question" data-question-index="${index}">
+<legend>${escapeHtml(str(question.title))}</legend>${text('p', question.statement ?? question.description)}
+<div class="options">${options.join('')}</div>
+<p class="explanation" hidden>${escapeHtml(str(question.explanation))}</p>
+</fieldset>`;
+}
+
+function renderQuiz(content: SceneContent): string {
+  const questions = (content.questions ?? {}) as SceneContent;
+  return [
+    header(content),
+    `<form class="quiz" novalidate>${list(questions.list).map(renderQuestion).join('')}</form>`,
+    `<p class="quiz-result" hidden></p>`,
+  ].join('');
+}
+
+function renderSurvey(content: SceneContent): string {
+  const texts = (content.texts ?? {}) as SceneContent;
+  const ratings = [1, 2, 3, 4, 5]
+    .map(value => `<label class="rating"><input type="radio" name="rating" value="${value}"> ${value}</label>`)
+    .join('');
+  return [
+    header(content),
+    `<form class="survey" novalidate>`,
+    `<fieldset><legend>${escapeHtml(str(texts.ratingQuestion))}</legend>${ratings}</fieldset>`,
+    `<label class="feedback">${escapeHtml(str(texts.feedbackQuestion))}<textarea name="feedback" rows="3" placeholder="${escapeHtml(str(texts.feedbackPlaceholder))}"></textarea></label>`,
+    `<button type="submit" class="button">${escapeHtml(str(texts.submitButton) || '✓')}</button>`,
+    `<p class="survey-thanks" hidden>${escapeHtml(str(texts.thankYouMessage) || str(texts.submittedText))}</p>`,
+    `</form>`,
+  ].join('');
+}
+
+function renderNudge(content: SceneContent): string {
+  const texts = (content.texts ?? {}) as SceneContent;
+  return [
+    header(content, texts.title, content.subtitle ?? texts.subtitle),
+    text('h3', texts.actionsTitle),
+    bullets(strings(content.key_message)),
+  ].join('');
+}
+
+function renderSummary(content: SceneContent): string {
+  const texts = (content.texts ?? {}) as SceneContent;
+  const resources = list(content.resources).flatMap(resource => {
+    const url = safeUrl(resource.url);
+    if (!url) return [];
+    const title = str(resource.title) || url;
+    return [`<li><a href="${escapeHtml(url)}" target="_blank" rel="noopener">${escapeHtml(title)}</a></li>`];
+  });
+  return [
+    header(content, texts.completionTitle, texts.completionSubtitle),
+    text('h3', texts.actionPlanTitle),
+    cards(list(content.immediateActions), { title: 'title', body: ['description'] }),
+    resources.length ? `${text('h3', texts.resourcesTitle)}<ul class="resources">${resources.join('')}</ul>` : '',
+    text('p', texts.motivationalMessage, 'motivational'),
+  ].join('');
+}
+
+const SCENE_RENDERERS: Record<string, (content: SceneContent) => string> = {
+  intro: renderIntro,
+  goal: content => header(content) + cards(list(content.goals), { title: 'title', body: ['subtitle', 'description'] }),
+  scenario: renderScenario,
+  actionable_content: content =>
+    header(content) + cards(list(content.actions), { title: 'title', body: ['description', 'tip'] }),
+  code_review: renderCodeReview,
+  vishing_simulation: renderSimulation,
+  smishing_simulation: renderSimulation,
+  quiz: renderQuiz,
+  survey: renderSurvey,
+  nudge: renderNudge,
+  summary: renderSummary,
+};
+
+export function renderScene(scene: ExportScene): string {
+  const render =
+    SCENE_RENDERERS[scene.type] ?? ((content: SceneContent) => header(content) + bullets(strings(content.key_message)));
+  return render(scene.content);
+}
+
+/** Embedded as JSON; '<' is escaped so scene text can never close the script element */
+function courseData(course: ExportCourse, format: MicrolearningExportFormat): string {
+  return JSON.stringify({
+    format,
+    activityIri: course.activityIri,
+    title: course.title,
+    language: course.language,
+    masteryScore: course.masteryScore,
+    sceneCount: course.scenes.length,
+    quiz: course.quiz,
+  }).replace(/</g, '\\u003c');
+}
+
+export function renderPlayerHtml(course: ExportCourse, format: MicrolearningExportFormat): string {
+  const lang = course.language;
+  const dir = RTL_LANGUAGES.includes(lang.split('-')[0]) ? 'rtl' : 'ltr';
+  const logo = course.logo
+    ? `<img class="logo" src="${escapeHtml(course.logo.src)}" alt="${escapeHtml(course.logo.alt)}">`
+    : '';
+  const sections = course.scenes.map(
+    (scene, index) =>
+      `<section class="scene scene-${escapeHtml(scene.type)}" data-scene-index="${index}" data-scene-id="${escapeHtml(scene.sceneId)}" hidden>
+${renderScene(scene)}
+</section>`
+  );
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(lang)}" dir="${dir}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(course.title)}</title>
+<link rel="stylesheet" href="player.css">
+</head>
+<body>
+<header class="player-header">${logo}<h1>${escapeHtml(course.title)}</h1>
+<div class="progress" role="progressbar" aria-valuemin="0" aria-valuemax="${course.scenes.length}"><div class="progress-bar"></div></div>
+</header>
+<main id="scenes">
+${sections.join('\n')}
+</main>
+<nav class="player-nav">
+<button type="button" class="button secondary" id="prev-button">&lsaquo;</button>
+<span id="scene-counter"></span>
+<button type="button" class="button" id="next-button">${escapeHtml(course.appTexts.nextSection || '›')}</button>
+</nav>
+<script type="application/json" id="course-data">${courseData(course, format)}</script>
+<script src="player.js"></script>
+</body>
+</html>
+`;
+}
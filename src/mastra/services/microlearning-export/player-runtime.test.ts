@@ -0,0 +1,150 @@
+// @vitest-environment happy-dom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { renderPlayerHtml } from './player-html';
+import { PLAYER_JS } from './player-runtime';
+import type { ExportCourse } from './types';
+
+const course: ExportCourse = {
+  id: 'ml-1',
+  activityIri: 'https://example.com/microlearning/ml-1',
+  title: 'Phishing',
+  description: 'Phishing',
+  language: 'en',
+  version: 1,
+  masteryScore: 0.7,
+  scenes: [
+    { sceneId: '1', type: 'intro', content: { title: 'Welcome' } },
+    {
+      sceneId: '5',
+      type: 'quiz',
+      content: {
+        questions: {
+          list: [
+            {
+              type: 'multiple_choice',
+              title: 'Q1',
+              options: [
+                { id: 'a', text: 'A' },
+                { id: 'b', text: 'B' },
+              ],
+            },
+            { type: 'true_false', title: 'Q2', options: {} },
+          ],
+        },
+      },
+    },
+    { sceneId: '8', type: 'summary', content: { texts: { completionTitle: 'Done' } } },
+  ],
+  quiz: {
+    sceneIndex: 1,
+    maxAttempts: 1,
+    questions: [
+      { id: 'q1', correct: ['a'] },
+      { id: 'q2', correct: ['true'] },
+    ],
+  },
+  appTexts: { nextSection: 'Next' },
+};
+
+/** Mount the rendered player and run player.js against it */
+function startPlayer(format: 'scorm12' | 'scorm2004') {
+  const html = renderPlayerHtml(course, format);
+  document.body.innerHTML = html
+    .slice(html.indexOf('<body>') + 6, html.indexOf('</body>'))
+    .replace('<script src="player.js"></script>', ''); // run below instead of loading the file
+  new Function(PLAYER_JS)();
+}
+
+const visibleScene = () => Array.from(document.querySelectorAll<HTMLElement>('.scene')).findIndex(s => !s.hidden);
+const next = () => document.getElementById('next-button')!.click();
+
+function answer(questionIndex: number, value: string) {
+  const input = document.querySelector<HTMLInputElement>(`input[name="question-${questionIndex}"][value="${value}"]`)!;
+  input.checked = true;
+  input.dispatchEvent(new Event('change', { bubbles: true }));
+}
+
+describe('player runtime', () => {
+  const values: Record<string, string> = {};
+  const windowApi = window as unknown as Record<string, unknown>;
+
+  beforeEach(() => {
+    for (const key of Object.keys(values)) delete values[key];
+    windowApi.API = {
+      LMSInitialize: vi.fn(() => 'true'),
+      LMSGetValue: vi.fn((key: string) => values[key] ?? ''),
+      LMSSetValue: vi.fn((key: string, value: string) => {
+        values[key] = value;
+        return 'true';
+      }),
+      LMSCommit: vi.fn(() => 'true'),
+      LMSFinish: vi.fn(() => 'true'),
+    };
+    windowApi.API_1484_11 = {
+      Initialize: vi.fn(() => 'true'),
+      GetValue: vi.fn((key: string) => values[key] ?? ''),
+      SetValue: vi.fn((key: string, value: string) => {
+        values[key] = value;
+        return 'true';
+      }),
+      Commit: vi.fn(() => 'true'),
+      Terminate: vi.fn(() => 'true'),
+    };
+  });
+
+  afterEach(() => {
+    delete windowApi.API;
+    delete windowApi.API_1484_11;
+  });
+
+  it('blocks the quiz until answered and reports the SCORM 1.2 score', () => {
+    startPlayer('scorm12');
+    expect(values['cmi.core.lesson_status']).toBe('incomplete');
+
+    next();
+    expect(visibleScene()).toBe(1);
+    next();
+    expect(visibleScene()).toBe(1); // quiz not answered yet
+
+    answer(0, 'a');
+    answer(1, 'false');
+    expect(values['cmi.core.score.raw']).toBe('50');
+    expect(values['cmi.core.lesson_status']).toBe('failed');
+
+    next();
+    expect(visibleScene()).toBe(2);
+    expect(values['cmi.core.lesson_location']).toBe('2');
+    expect(values['cmi.core.lesson_status']).toBe('failed'); // 1.2 keeps the quiz verdict on completion
+  });
+
+  it('reports SCORM 2004 success and completion separately', () => {
+    startPlayer('scorm2004');
+
+    next();
+    answer(0, 'a');
+    answer(1, 'true');
+    expect(values['cmi.score.scaled']).toBe('1');
+    expect(values['cmi.success_status']).toBe('passed');
+    expect(values['cmi.completion_status']).toBe('incomplete');
+
+    next();
+    expect(values['cmi.completion_status']).toBe('completed');
+  });
+
+  it('resumes at the bookmark but not past an unanswered quiz', () => {
+    values['cmi.core.lesson_location'] = '2';
+
+    startPlayer('scorm12');
+
+    expect(visibleScene()).toBe(1);
+  });
+
+  it('plays without an LMS', () => {
+    delete windowApi.API;
+
+    startPlayer('scorm12');
+    next();
+
+    expect(visibleScene()).toBe(1);
+  });
+});
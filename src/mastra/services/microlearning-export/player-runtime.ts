@@ -0,0 +1,416 @@
+/**
+ * Static player assets shipped in every package (player.js, player.css).
+ *
+ * player.js reads the course data embedded in index.html and talks to the LMS through one of
+ * three adapters, picked by the package format:
+ *   - scorm12:   window.API (LMSInitialize / LMSSetValue cmi.core.*)
+ *   - scorm2004: window.API_1484_11 (Initialize / SetValue cmi.*)
+ *   - xapi:      cmi5 launch parameters (endpoint, fetch, actor, registration, activityId)
+ * Quiz score → cmi.core.score.raw / cmi.score.scaled / cmi5 passed|failed result.score.
+ * Reaching the last scene (scene 8) marks the attempt completed. Without an LMS (opened
+ * directly) the player still works, it just tracks nothing.
+ *
+ * Plain ES5 so it runs in the older embedded browsers some LMSs still use.
+ */
+
+export const PLAYER_JS = String.raw`(function () {
+  'use strict';
+
+  var course = JSON.parse(document.getElementById('course-data').textContent);
+  var scenes = Array.prototype.slice.call(document.querySelectorAll('.scene'));
+  var prevButton = document.getElementById('prev-button');
+  var nextButton = document.getElementById('next-button');
+  var counter = document.getElementById('scene-counter');
+  var progressBar = document.querySelector('.progress-bar');
+  var lastIndex = scenes.length - 1;
+  var current = 0;
+  var quizScore = null; // scaled 0..1 once every question is resolved
+
+  // ─── LMS adapters ───
+
+  function findApi(name) {
+    var candidates = [window];
+    if (window.opener) candidates.push(window.opener);
+    for (var c = 0; c < candidates.length; c++) {
+      var win = candidates[c];
+      for (var depth = 0; win && depth < 10; depth++) {
+        try {
+          if (win[name]) return win[name];
+        } catch (e) {
+          break; // cross-origin frame
+        }
+        if (win.parent === win) break;
+        win = win.parent;
+      }
+    }
+    return null;
+  }
+
+  function passingScore(value) {
+    var parsed = parseFloat(value);
+    return isNaN(parsed) ? course.masteryScore : parsed;
+  }
+
+  function scorm12Adapter() {
+    var api = findApi('API');
+    if (!api) return null;
+    api.LMSInitialize('');
+    var mastery = api.LMSGetValue('cmi.student_data.mastery_score');
+    var status = api.LMSGetValue('cmi.core.lesson_status');
+    if (!status || status === 'not attempted') api.LMSSetValue('cmi.core.lesson_status', 'incomplete');
+    var finished = false;
+    return {
+      masteryScore: mastery ? passingScore(mastery) / 100 : course.masteryScore,
+      location: function () {
+        return api.LMSGetValue('cmi.core.lesson_location');
+      },
+      setLocation: function (index) {
+        api.LMSSetValue('cmi.core.lesson_location', String(index));
+        api.LMSCommit('');
+      },
+      score: function (scaled, passed) {
+        api.LMSSetValue('cmi.core.score.min', '0');
+        api.LMSSetValue('cmi.core.score.max', '100');
+        api.LMSSetValue('cmi.core.score.raw', String(Math.round(scaled * 100)));
+        api.LMSSetValue('cmi.core.lesson_status', passed ? 'passed' : 'failed');
+        api.LMSCommit('');
+      },
+      complete: function () {
+        // SCORM 1.2 has a single status: keep passed/failed once the quiz set it
+        if (quizScore === null) api.LMSSetValue('cmi.core.lesson_status', 'completed');
+        api.LMSCommit('');
+      },
+      comment: function (text) {
+        api.LMSSetValue('cmi.comments', text.slice(0, 4096));
+        api.LMSCommit('');
+      },
+      finish: function (completed) {
+        if (finished) return;
+        finished = true;
+        api.LMSSetValue('cmi.core.exit', completed ? '' : 'suspend');
+        api.LMSCommit('');
+        api.LMSFinish('');
+      },
+    };
+  }
+
+  function scorm2004Adapter() {
+    var api = findApi('API_1484_11');
+    if (!api) return null;
+    api.Initialize('');
+    var mastery = api.GetValue('cmi.scaled_passing_score');
+    if (api.GetValue('cmi.completion_status') !== 'completed') api.SetValue('cmi.completion_status', 'incomplete');
+    var finished = false;
+    return {
+      masteryScore: mastery ? passingScore(mastery) : course.masteryScore,
+      location: function () {
+        return api.GetValue('cmi.location');
+      },
+      setLocation: function (index) {
+        api.SetValue('cmi.location', String(index));
+        api.SetValue('cmi.progress_measure', String(Math.round(((index + 1) / scenes.length) * 100) / 100));
+        api.Commit('');
+      },
+      score: function (scaled, passed) {
+        api.SetValue('cmi.score.scaled', String(scaled));
+        api.SetValue('cmi.score.raw', String(Math.round(scaled * 100)));
+        api.SetValue('cmi.score.min', '0');
+        api.SetValue('cmi.score.max', '100');
+        api.SetValue('cmi.success_status', passed ? 'passed' : 'failed');
+        api.Commit('');
+      },
+      complete: function () {
+        api.SetValue('cmi.completion_status', 'completed');
+        api.Commit('');
+      },
+      comment: function (text) {
+        var n = api.GetValue('cmi.comments_from_learner._count') || '0';
+        api.SetValue('cmi.comments_from_learner.' + n + '.comment', text.slice(0, 4000));
+        api.Commit('');
+      },
+      finish: function (completed) {
+        if (finished) return;
+        finished = true;
+        api.SetValue('cmi.exit', completed ? 'normal' : 'suspend');
+        api.Commit('');
+        api.Terminate('');
+      },
+    };
+  }
+
+  var VERBS = {
+    initialized: 'http://adlnet.gov/expapi/verbs/initialized',
+    passed: 'http://adlnet.gov/expapi/verbs/passed',
+    failed: 'http://adlnet.gov/expapi/verbs/failed',
+    completed: 'http://adlnet.gov/expapi/verbs/completed',
+    terminated: 'http://adlnet.gov/expapi/verbs/terminated',
+  };
+  var CMI5_CATEGORY = 'https://w3id.org/xapi/cmi5/context/categories/cmi5';
+  var MOVEON_CATEGORY = 'https://w3id.org/xapi/cmi5/context/categories/moveon';
+
+  function uuid() {
+    return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function (ch) {
+      var r = (Math.random() * 16) | 0;
+      return (ch === 'x' ? r : (r & 0x3) | 0x8).toString(16);
+    });
+  }
+
+  function xhr(method, url, headers, body) {
+    var request = new XMLHttpRequest();
+    request.open(method, url, false); // synchronous: statements must land before the window closes
+    for (var key in headers) request.setRequestHeader(key, headers[key]);
+    request.send(body === undefined ? null : body);
+    return request;
+  }
+
+  function cmi5Adapter() {
+    var params = {};
+    window.location.search
+      .replace(/^\?/, '')
+      .split('&')
+      .forEach(function (pair) {
+        var parts = pair.split('=');
+        if (parts[0]) params[decodeURIComponent(parts[0])] = decodeURIComponent((parts[1] || '').replace(/\+/g, ' '));
+      });
+    if (!params.endpoint || !params.fetch || !params.actor || !params.activityId) return null;
+
+    var endpoint = params.endpoint.replace(/\/?$/, '/');
+    var auth;
+    try {
+      auth = JSON.parse(xhr('POST', params.fetch, {}).responseText)['auth-token'];
+    } catch (e) {
+      return null;
+    }
+    var headers = {
+      Authorization: 'Basic ' + auth,
+      'X-Experience-API-Version': '1.0.3',
+      'Content-Type': 'application/json',
+    };
+    var actor = JSON.parse(params.actor);
+    var launchData = {};
+    try {
+      var stateUrl =
+        endpoint +
+        'activities/state?stateId=LMS.LaunchData&activityId=' +
+        encodeURIComponent(params.activityId) +
+        '&agent=' +
+        encodeURIComponent(params.actor) +
+        '&registration=' +
+        encodeURIComponent(params.registration);
+      launchData = JSON.parse(xhr('GET', stateUrl, headers).responseText) || {};
+    } catch (e) {
+      launchData = {};
+    }
+    var startedAt = Date.now();
+    var finished = false;
+    var completed = false;
+
+    function send(verb, extra) {
+      var template = launchData.contextTemplate || {};
+      var context = JSON.parse(JSON.stringify(template));
+      context.registration = params.registration;
+      context.contextActivities = context.contextActivities || {};
+      var categories = [{ id: CMI5_CATEGORY }];
+      if (extra && extra.moveOn) categories.push({ id: MOVEON_CATEGORY });
+      context.contextActivities.category = (context.contextActivities.category || []).concat(categories);
+      var statement = {
+        id: uuid(),
+        actor: actor,
+        verb: { id: VERBS[verb], display: { 'en-US': verb } },
+        object: { id: params.activityId, objectType: 'Activity' },
+        context: context,
+        timestamp: new Date().toISOString(),
+      };
+      if (extra && extra.result) statement.result = extra.result;
+      try {
+        xhr('POST', endpoint + 'statements', headers, JSON.stringify(statement));
+      } catch (e) {
+        // Tracking must never break the training
+      }
+    }
+
+    function duration() {
+      return 'PT' + Math.round((Date.now() - startedAt) / 1000) + 'S';
+    }
+
+    send('initialized');
+    return {
+      masteryScore: launchData.masteryScore !== undefined ? passingScore(launchData.masteryScore) : course.masteryScore,
+      location: function () {
+        return null;
+      },
+      setLocation: function () {},
+      score: function (scaled, passed) {
+        if (launchData.launchMode && launchData.launchMode !== 'Normal') return;
+        send(passed ? 'passed' : 'failed', {
+          moveOn: passed,
+          result: { score: { scaled: scaled }, success: passed, duration: duration() },
+        });
+      },
+      complete: function () {
+        if (completed || (launchData.launchMode && launchData.launchMode !== 'Normal')) return;
+        completed = true;
+        send('completed', { moveOn: true, result: { completion: true, duration: duration() } });
+      },
+      comment: function () {},
+      finish: function () {
+        if (finished) return;
+        finished = true;
+        send('terminated', { result: { duration: duration() } });
+      },
+    };
+  }
+
+  var lms = null;
+  try {
+    lms =
+      course.format === 'scorm12' ? scorm12Adapter() : course.format === 'scorm2004' ? scorm2004Adapter() : cmi5Adapter();
+  } catch (e) {
+    lms = null; // LMS API missing or broken: the training still plays
+  }
+  var masteryScore = lms ? lms.masteryScore : course.masteryScore;
+  var completed = false;
+
+  // ─── Navigation ───
+
+  function quizBlocksNext() {
+    return course.quiz && current === course.quiz.sceneIndex && quizScore === null;
+  }
+
+  function show(index) {
+    current = Math.max(0, Math.min(lastIndex, index));
+    for (var i = 0; i < scenes.length; i++) scenes[i].hidden = i !== current;
+    prevButton.disabled = current === 0;
+    nextButton.hidden = current === lastIndex;
+    nextButton.disabled = quizBlocksNext();
+    counter.textContent = current + 1 + ' / ' + scenes.length;
+    progressBar.style.width = ((current + 1) / scenes.length) * 100 + '%';
+    window.scrollTo(0, 0);
+    if (lms) lms.setLocation(current);
+    if (current === lastIndex && !completed) {
+      completed = true;
+      if (lms) lms.complete();
+    }
+  }
+
+  prevButton.addEventListener('click', function () {
+    show(current - 1);
+  });
+  nextButton.addEventListener('click', function () {
+    if (!quizBlocksNext()) show(current + 1);
+  });
+
+  // ─── Quiz ───
+
+  function setupQuiz(quiz) {
+    var attempts = [];
+    var resolved = [];
+    var correctCount = 0;
+    var fieldsets = scenes[quiz.sceneIndex].querySelectorAll('.question');
+
+    function finishQuizIfDone() {
+      for (var i = 0; i < quiz.questions.length; i++) if (!resolved[i]) return;
+      quizScore = quiz.questions.length ? correctCount / quiz.questions.length : 1;
+      var result = scenes[quiz.sceneIndex].querySelector('.quiz-result');
+      result.textContent = correctCount + ' / ' + quiz.questions.length;
+      result.hidden = false;
+      if (lms) lms.score(Math.round(quizScore * 100) / 100, quizScore >= masteryScore);
+      show(current);
+    }
+
+    Array.prototype.forEach.call(fieldsets, function (fieldset) {
+      var index = Number(fieldset.getAttribute('data-question-index'));
+      attempts[index] = 0;
+      fieldset.addEventListener('change', function (event) {
+        if (resolved[index]) return;
+        var answer = event.target.value;
+        var isCorrect = quiz.questions[index].correct.indexOf(answer) !== -1;
+        attempts[index] += 1;
+        event.target.parentNode.className = 'option ' + (isCorrect ? 'correct' : 'incorrect');
+        if (!isCorrect && attempts[index] < quiz.maxAttempts) {
+          event.target.checked = false;
+          event.target.disabled = true;
+          return;
+        }
+        resolved[index] = true;
+        if (isCorrect) correctCount += 1;
+        Array.prototype.forEach.call(fieldset.querySelectorAll('input'), function (input) {
+          input.disabled = true;
+        });
+        fieldset.querySelector('.explanation').hidden = false;
+        finishQuizIfDone();
+      });
+    });
+  }
+
+  if (course.quiz) setupQuiz(course.quiz);
+
+  // ─── Survey ───
+
+  Array.prototype.forEach.call(document.querySelectorAll('form.survey'), function (form) {
+    form.addEventListener('submit', function (event) {
+      event.preventDefault();
+      var rating = form.querySelector('input[name="rating"]:checked');
+      var feedback = form.querySelector('textarea').value.trim();
+      if (lms && (rating || feedback)) lms.comment((rating ? rating.value + '/5' : '') + (feedback ? ' ' + feedback : ''));
+      form.querySelector('button').disabled = true;
+      form.querySelector('.survey-thanks').hidden = false;
+    });
+  });
+
+  Array.prototype.forEach.call(document.querySelectorAll('form'), function (form) {
+    if (!form.classList.contains('survey')) {
+      form.addEventListener('submit', function (event) {
+        event.preventDefault();
+      });
+    }
+  });
+
+  window.addEventListener('pagehide', function () {
+    if (lms) lms.finish(completed);
+  });
+  window.addEventListener('beforeunload', function () {
+    if (lms) lms.finish(completed);
+  });
+
+  // Resume at the bookmark, but never past an unanswered quiz (answers are not persisted)
+  var saved = lms ? Number(lms.location()) || 0 : 0;
+  show(course.quiz ? Math.min(saved, course.quiz.sceneIndex) : saved);
+})();
+`;
+
+export const PLAYER_CSS = `*, *::before, *::after { box-sizing: border-box; }
+body { margin: 0; font-family: system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif; color: #1f2937; background: #f3f4f6; line-height: 1.5; }
+.player-header { background: #0b326f; color: #fff; padding: 16px 24px; }
+.player-header h1 { margin: 0 0 12px; font-size: 1.25rem; }
+.logo { max-height: 32px; margin-bottom: 8px; display: block; }
+.progress { height: 6px; background: rgba(255, 255, 255, 0.25); border-radius: 3px; overflow: hidden; }
+.progress-bar { height: 100%; width: 0; background: #fff; transition: width 0.3s; }
+main { max-width: 880px; margin: 0 auto; padding: 24px 16px 96px; }
+.scene { background: #fff; border-radius: 12px; padding: 24px; box-shadow: 0 1px 3px rgba(0, 0, 0, 0.1); }
+.scene h2 { margin-top: 0; }
+.subtitle, .eyebrow { color: #4b5563; }
+.eyebrow { text-transform: uppercase; font-size: 0.8rem; letter-spacing: 0.05em; margin: 0; }
+.cards { list-style: none; padding: 0; display: grid; gap: 12px; grid-template-columns: repeat(auto-fit, minmax(220px, 1fr)); }
+.card { border: 1px solid #e5e7eb; border-radius: 8px; padding: 16px; }
+.card h3 { margin: 0 0 8px; font-size: 1rem; }
+video { width: 100%; border-radius: 8px; background: #000; }
+pre.code { background: #111827; color: #f9fafb; padding: 16px; border-radius: 8px; overflow-x: auto; }
+blockquote { margin: 0; padding: 12px 16px; background: #eef2ff; border-radius: 12px; }
+figcaption { font-weight: 600; margin-bottom: 8px; }
+fieldset { border: 1px solid #e5e7eb; border-radius: 8px; margin: 0 0 16px; padding: 16px; }
+legend { font-weight: 600; padding: 0 4px; }
+.option { display: block; padding: 8px 12px; margin: 6px 0; border: 1px solid #d1d5db; border-radius: 6px; cursor: pointer; }
+.option.correct { border-color: #059669; background: #ecfdf5; }
+.option.incorrect { border-color: #dc2626; background: #fef2f2; }
+.explanation { color: #374151; font-style: italic; }
+.quiz-result { font-size: 1.25rem; font-weight: 600; }
+.rating { margin-inline-end: 12px; }
+.feedback { display: block; margin-bottom: 12px; }
+.feedback textarea { display: block; width: 100%; margin-top: 6px; }
+.button { background: #0b326f; color: #fff; border: 0; border-radius: 6px; padding: 10px 20px; font-size: 1rem; cursor: pointer; }
+.button.secondary { background: #e5e7eb; color: #1f2937; }
+.button:disabled { opacity: 0.5; cursor: not-allowed; }
+.player-nav { position: fixed; bottom: 0; left: 0; right: 0; display: flex; justify-content: space-between; align-items: center; padding: 12px 24px; background: #fff; border-top: 1px solid #e5e7eb; }
+[hidden] { display: none !important; }
+`;
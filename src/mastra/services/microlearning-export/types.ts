@@ -0,0 +1,60 @@
+/**
+ * Microlearning Export Types
+ *
+ * Contract between the export route and the package builder. A package is built in memory
+ * from the stored base (ml:{id}:base) and one language (ml:{id}:lang:{lang}) — no browser
+ * or native module — so the same code runs in Node and Workers.
+ */
+
+import type { MicrolearningExportFormat } from '../../constants';
+
+export type { MicrolearningExportFormat };
+
+/** Stored content the package is built from (KV JSON, validated loosely by the builder) */
+export interface MicrolearningExportInput {
+  base: {
+    microlearning_id: string;
+    version?: number;
+    microlearning_metadata?: { title?: string; description?: string };
+    theme?: { logo?: { src?: string; alt?: string } };
+    scenes: Array<{ scene_id: string; metadata?: { scene_type?: string } }>;
+  };
+  language: string;
+  languageContent: Record<string, unknown>;
+}
+
+/** One scene as rendered by the player, in base scene order */
+export interface ExportScene {
+  sceneId: string;
+  type: string;
+  content: Record<string, unknown>;
+}
+
+/** Answer key the player scores against; question order matches the rendered quiz */
+export interface ExportQuiz {
+  sceneIndex: number;
+  maxAttempts: number;
+  questions: Array<{ id: string; correct: string[] }>;
+}
+
+export interface ExportCourse {
+  id: string;
+  activityIri: string;
+  title: string;
+  description: string;
+  language: string;
+  version: number;
+  masteryScore: number;
+  logo?: { src: string; alt: string };
+  scenes: ExportScene[];
+  quiz: ExportQuiz | null;
+  appTexts: Record<string, string>;
+}
+
+export interface MicrolearningPackage {
+  format: MicrolearningExportFormat;
+  contentType: string;
+  /** Suggested download name, e.g. "phishing-awareness-en-gb-scorm12.zip" */
+  filename: string;
+  bytes: Uint8Array;
+}
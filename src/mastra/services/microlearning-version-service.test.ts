@@ -0,0 +1,225 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { MicrolearningVersionService } from './microlearning-version-service';
+import { MICROLEARNING_VERSIONS } from '../constants';
+import type { KVService } from './kv-service';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createMemoryKv(initial: Record<string, unknown> = {}) {
+  const store = new Map<string, unknown>(Object.entries(initial));
+  const kv = {
+    store,
+    get: vi.fn(async (key: string) => (store.has(key) ? structuredClone(store.get(key)) : null)),
+    put: vi.fn(async (key: string, value: unknown) => {
+      store.set(key, structuredClone(value));
+      return true;
+    }),
+    delete: vi.fn(async (key: string) => store.delete(key)),
+    list: vi.fn(async (prefix: string) => [...store.keys()].filter(key => key.startsWith(prefix))),
+  };
+  return kv;
+}
+
+const BASE_V1 = {
+  microlearning_id: 'ml-1',
+  version: 1,
+  theme: { colors: { background: 'bg-white' } },
+  microlearning_metadata: { language: 'en', language_availability: ['en'] },
+};
+
+function seed() {
+  return createMemoryKv({
+    'ml:ml-1:base': BASE_V1,
+    'ml:ml-1:lang:en': { scenes: [{ title: 'Intro' }] },
+    'ml:ml-1:inbox:it:en': { emails: [{ subject: 'Reset your password' }] },
+  });
+}
+
+describe('MicrolearningVersionService', () => {
+  let kv: ReturnType<typeof createMemoryKv>;
+  let service: MicrolearningVersionService;
+
+  beforeEach(() => {
+    kv = seed();
+    service = new MicrolearningVersionService(kv as unknown as KVService);
+  });
+
+  describe('captureSnapshot', () => {
+    it('stores base, languages and inboxes and a baseline history entry', async () => {
+      const snapshot = await service.captureSnapshot('ml-1');
+
+      expect(snapshot).toMatchObject({
+        version: 1,
+        action: 'baseline',
+        languages: { en: { scenes: [{ title: 'Intro' }] } },
+        inboxes: { 'it:en': { emails: [{ subject: 'Reset your password' }] } },
+      });
+      expect(kv.store.get('ml:ml-1:snapshot:1')).toEqual(snapshot);
+      expect(kv.store.get('ml:ml-1:history:1')).toMatchObject({
+        action: 'baseline',
+        languages: ['en'],
+        inboxes: ['it:en'],
+      });
+    });
+
+    it('keeps an existing history entry', async () => {
+      kv.store.set('ml:ml-1:history:1', { action: 'updated', version: 1, timestamp: 't1', changes: { x: 1 } });
+
+      const snapshot = await service.captureSnapshot('ml-1');
+
+      expect(snapshot).toMatchObject({ action: 'updated', createdAt: 't1', changes: { x: 1 } });
+      expect(kv.store.get('ml:ml-1:history:1')).toEqual({
+        action: 'updated',
+        version: 1,
+        timestamp: 't1',
+        changes: { x: 1 },
+      });
+    });
+
+    it('returns null for an unknown microlearning', async () => {
+      expect(await service.captureSnapshot('missing')).toBeNull();
+    });
+  });
+
+  describe('recordVersion', () => {
+    it('writes the snapshot and history entry and prunes the oldest snapshot', async () => {
+      const version = MICROLEARNING_VERSIONS.SNAPSHOT_RETENTION + 1;
+      kv.store.set('ml:ml-1:snapshot:1', { version: 1 });
+
+      await service.recordVersion('ml-1', {
+        version,
+        action: 'updated',
+        base: { ...BASE_V1, version },
+        changes: { 'theme.colors': { background: 'bg-black' } },
+      });
+
+      expect(kv.store.get(`ml:ml-1:snapshot:${version}`)).toMatchObject({
+        action: 'updated',
+        languages: { en: expect.any(Object) },
+      });
+      expect(kv.store.get(`ml:ml-1:history:${version}`)).toMatchObject({
+        action: 'updated',
+        version,
+        changes: { 'theme.colors': { background: 'bg-black' } },
+      });
+      expect(kv.store.has('ml:ml-1:snapshot:1')).toBe(false);
+    });
+  });
+
+  describe('listVersions', () => {
+    it('lists history and snapshot versions newest first', async () => {
+      kv.store.set('ml:ml-1:history:1', { action: 'baseline', version: 1, timestamp: 't1' });
+      kv.store.set('ml:ml-1:history:2', { action: 'updated', version: 2, timestamp: 't2', changes: { a: 1 } });
+      kv.store.set('ml:ml-1:snapshot:2', { version: 2 });
+      kv.store.set('ml:ml-1:base', { ...BASE_V1, version: 2 });
+
+      const list = await service.listVersions('ml-1');
+
+      expect(list).toEqual({
+        microlearningId: 'ml-1',
+        currentVersion: 2,
+        versions: [
+          { version: 2, action: 'updated', timestamp: 't2', restorable: true, changes: { a: 1 } },
+          { version: 1, action: 'baseline', timestamp: 't1', restorable: false },
+        ],
+      });
+    });
+
+    it('returns null for an unknown microlearning', async () => {
+      expect(await service.listVersions('missing')).toBeNull();
+    });
+  });
+
+  describe('diffVersions', () => {
+    beforeEach(async () => {
+      await service.captureSnapshot('ml-1');
+      kv.store.set('ml:ml-1:base', {
+        ...BASE_V1,
+        version: 2,
+        updated_at: 'now',
+        theme: { colors: { background: 'bg-black' } },
+        microlearning_metadata: { language: 'en', language_availability: ['en', 'tr'] },
+      });
+      kv.store.set('ml:ml-1:lang:en', { scenes: [{ title: 'Welcome' }] });
+      kv.store.set('ml:ml-1:lang:tr', { scenes: [{ title: 'Giriş' }] });
+    });
+
+    it('diffs a snapshot against the live content', async () => {
+      const diff = await service.diffVersions('ml-1', 1);
+
+      expect(diff).toMatchObject({ from: 1, to: 2, truncated: false, totalChanges: 4 });
+      expect(diff?.base).toEqual([
+        { path: 'theme.colors.background', type: 'changed', before: 'bg-white', after: 'bg-black' },
+        { path: 'microlearning_metadata.language_availability[1]', type: 'added', after: 'tr' },
+      ]);
+      expect(diff?.languages).toEqual({
+        added: ['tr'],
+        removed: [],
+        changed: { en: [{ path: 'scenes[0].title', type: 'changed', before: 'Intro', after: 'Welcome' }] },
+      });
+      expect(diff?.inboxes).toEqual({ added: [], removed: [], changed: {} });
+    });
+
+    it('returns null when a version has no snapshot', async () => {
+      expect(await service.diffVersions('ml-1', 7)).toBeNull();
+      expect(await service.diffVersions('ml-1', 1, 7)).toBeNull();
+    });
+  });
+
+  describe('rollback', () => {
+    beforeEach(async () => {
+      await service.captureSnapshot('ml-1');
+      kv.store.set('ml:ml-1:base', {
+        ...BASE_V1,
+        version: 2,
+        theme: { colors: { background: 'bg-black' } },
+      });
+      kv.store.set('ml:ml-1:lang:en', { scenes: [{ title: 'Welcome' }] });
+    });
+
+    it('restores base, language and inbox content as a new version', async () => {
+      const result = await service.rollback('ml-1', 1);
+
+      expect(result).toEqual({ status: 'rolled_back', version: 3, restoredFrom: 1 });
+      expect(kv.store.get('ml:ml-1:base')).toMatchObject({
+        version: 3,
+        restored_from: 1,
+        theme: { colors: { background: 'bg-white' } },
+      });
+      expect(kv.store.get('ml:ml-1:lang:en')).toEqual({ scenes: [{ title: 'Intro' }] });
+      expect(kv.store.get('ml:ml-1:history:3')).toMatchObject({ action: 'rolled_back', restoredFrom: 1 });
+      // Pre-rollback state stays restorable
+      expect(kv.store.get('ml:ml-1:snapshot:2')).toMatchObject({
+        languages: { en: { scenes: [{ title: 'Welcome' }] } },
+      });
+    });
+
+    it('reverts written keys and leaves the base untouched when a write fails', async () => {
+      kv.put.mockImplementation(async (key: string, value: unknown) => {
+        if (key === 'ml:ml-1:inbox:it:en') return false;
+        kv.store.set(key, structuredClone(value));
+        return true;
+      });
+
+      const result = await service.rollback('ml-1', 1);
+
+      expect(result).toMatchObject({ status: 'failed' });
+      expect(kv.store.get('ml:ml-1:lang:en')).toEqual({ scenes: [{ title: 'Welcome' }] });
+      expect(kv.store.get('ml:ml-1:base')).toMatchObject({ version: 2 });
+      expect(kv.store.has('ml:ml-1:history:3')).toBe(false);
+    });
+
+    it('returns not_found without a snapshot and refuses the current version', async () => {
+      expect(await service.rollback('ml-1', 9)).toEqual({ status: 'not_found' });
+      await service.captureSnapshot('ml-1');
+      expect(await service.rollback('ml-1', 2)).toMatchObject({ status: 'failed' });
+    });
+  });
+});
@@ -0,0 +1,417 @@
+/**
+ * Microlearning Version Service
+ *
+ * Full per-version snapshots of a microlearning in KV, next to the lightweight history entries:
+ *   ml:{id}:history:{version}  → { action, version, timestamp, changes, restoredFrom?, languages, inboxes }
+ *   ml:{id}:snapshot:{version} → base + every ml:{id}:lang:{lang} + every ml:{id}:inbox:{dept}:{lang}
+ *
+ * Snapshots power the structured diff between two versions and rollback. KV has no
+ * transactions, so rollback writes language and inbox keys first, then the base key as the
+ * commit point; if any write fails, the keys already written are put back to their
+ * pre-rollback values and the base is left untouched.
+ *
+ * Only the last MICROLEARNING_VERSIONS.SNAPSHOT_RETENTION snapshots are kept; history
+ * entries are never deleted, so older versions stay listed but are no longer restorable.
+ */
+
+import { KVService } from './kv-service';
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { MICROLEARNING_VERSIONS } from '../constants';
+import { diffContent, type ContentChange } from '../utils/microlearning/version-diff';
+
+const logger = getLogger('MicrolearningVersionService');
+
+// ─── Types ───
+
+export type MicrolearningVersionAction = 'baseline' | 'updated' | 'rolled_back';
+
+type KvContent = Record<string, unknown>;
+
+interface MicrolearningState {
+  base: KvContent;
+  languages: Record<string, KvContent>;
+  inboxes: Record<string, KvContent>; // keyed by "{dept}:{lang}"
+}
+
+export interface MicrolearningSnapshot extends MicrolearningState {
+  microlearningId: string;
+  version: number;
+  action: MicrolearningVersionAction;
+  createdAt: string;
+  changes?: Record<string, unknown>;
+  restoredFrom?: number;
+}
+
+export interface MicrolearningVersionEntry {
+  version: number;
+  action: MicrolearningVersionAction;
+  timestamp: string | null;
+  restorable: boolean;
+  changes?: Record<string, unknown>;
+  restoredFrom?: number;
+}
+
+export interface MicrolearningVersionList {
+  microlearningId: string;
+  currentVersion: number;
+  versions: MicrolearningVersionEntry[];
+}
+
+export interface KeyedContentDiff {
+  added: string[];
+  removed: string[];
+  changed: Record<string, ContentChange[]>;
+}
+
+export interface MicrolearningVersionDiff {
+  microlearningId: string;
+  from: number;
+  to: number;
+  base: ContentChange[];
+  languages: KeyedContentDiff;
+  inboxes: KeyedContentDiff;
+  totalChanges: number;
+  truncated: boolean;
+}
+
+export type RollbackResult =
+  | { status: 'rolled_back'; version: number; restoredFrom: number }
+  | { status: 'not_found' }
+  | { status: 'failed'; error: string };
+
+interface HistoryEntry {
+  action?: MicrolearningVersionAction;
+  version?: number;
+  timestamp?: string;
+  changes?: Record<string, unknown>;
+  restoredFrom?: number;
+}
+
+// ─── Keys ───
+
+const baseKey = (id: string) => `ml:${id}:base`;
+const langPrefix = (id: string) => `ml:${id}:lang:`;
+const inboxPrefix = (id: string) => `ml:${id}:inbox:`;
+const historyPrefix = (id: string) => `ml:${id}:history:`;
+const snapshotPrefix = (id: string) => `ml:${id}:snapshot:`;
+
+function versionOf(base: KvContent): number {
+  const version = Number(base.version);
+  return Number.isInteger(version) && version > 0 ? version : 1;
+}
+
+function parseVersionKeys(keys: string[], prefix: string): number[] {
+  return keys.map(key => Number(key.slice(prefix.length))).filter(v => Number.isInteger(v) && v > 0);
+}
+
+function diffKeyed(
+  before: Record<string, KvContent>,
+  after: Record<string, KvContent>,
+  budget: { remaining: number; truncated: boolean }
+): KeyedContentDiff {
+  const result: KeyedContentDiff = { added: [], removed: [], changed: {} };
+  for (const key of [...new Set([...Object.keys(before), ...Object.keys(after)])].sort()) {
+    if (!before[key]) result.added.push(key);
+    else if (!after[key]) result.removed.push(key);
+    else {
+      const { changes, truncated } = diffContent(before[key], after[key], { maxChanges: budget.remaining });
+      budget.remaining -= changes.length;
+      budget.truncated ||= truncated;
+      if (changes.length > 0) result.changed[key] = changes;
+    }
+  }
+  return result;
+}
+
+export class MicrolearningVersionService {
+  constructor(private readonly kvService: KVService = new KVService()) {}
+
+  /** Live base, language and inbox content; null when the microlearning does not exist */
+  private async readState(microlearningId: string): Promise<MicrolearningState | null> {
+    const base = await this.kvService.get<KvContent>(baseKey(microlearningId));
+    if (!base) return null;
+
+    const metadata = (base.microlearning_metadata ?? {}) as { language_availability?: string[] };
+    const [langKeys, inboxKeys] = await Promise.all([
+      this.kvService.list(langPrefix(microlearningId), MICROLEARNING_VERSIONS.KEY_LIST_LIMIT),
+      this.kvService.list(inboxPrefix(microlearningId), MICROLEARNING_VERSIONS.KEY_LIST_LIMIT),
+    ]);
+    const languageCodes = [
+      ...new Set([
+        ...(metadata.language_availability ?? []).map(lang => lang.toLowerCase()),
+        ...langKeys.map(key => key.slice(langPrefix(microlearningId).length)),
+      ]),
+    ];
+    const inboxIds = inboxKeys.map(key => key.slice(inboxPrefix(microlearningId).length));
+
+    const [languageValues, inboxValues] = await Promise.all([
+      Promise.all(languageCodes.map(lang => this.kvService.get<KvContent>(`${langPrefix(microlearningId)}${lang}`))),
+      Promise.all(inboxIds.map(inbox => this.kvService.get<KvContent>(`${inboxPrefix(microlearningId)}${inbox}`))),
+    ]);
+
+    const languages: Record<string, KvContent> = {};
+    languageCodes.forEach((lang, i) => {
+      if (languageValues[i]) languages[lang] = languageValues[i] as KvContent;
+    });
+    const inboxes: Record<string, KvContent> = {};
+    inboxIds.forEach((inbox, i) => {
+      if (inboxValues[i]) inboxes[inbox] = inboxValues[i] as KvContent;
+    });
+
+    return { base, languages, inboxes };
+  }
+
+  private async writeSnapshot(snapshot: MicrolearningSnapshot, writeHistory: boolean): Promise<boolean> {
+    const { microlearningId, version } = snapshot;
+    const saved = await this.kvService.put(`${snapshotPrefix(microlearningId)}${version}`, snapshot);
+    if (!saved) return false;
+
+    if (writeHistory) {
+      await this.kvService.put(`${historyPrefix(microlearningId)}${version}`, {
+        action: snapshot.action,
+        version,
+        timestamp: snapshot.createdAt,
+        changes: snapshot.changes ?? {},
+        ...(snapshot.restoredFrom !== undefined && { restoredFrom: snapshot.restoredFrom }),
+        languages: Object.keys(snapshot.languages),
+        inboxes: Object.keys(snapshot.inboxes),
+      });
+    }
+
+    const expired = version - MICROLEARNING_VERSIONS.SNAPSHOT_RETENTION;
+    if (expired > 0) await this.kvService.delete(`${snapshotPrefix(microlearningId)}${expired}`);
+    return true;
+  }
+
+  /**
+   * Snapshot the current state under its current version. Called before every change so
+   * edits made without a version bump (translations, inbox regeneration) are captured too.
+   * Versions without a history entry (created before snapshots existed) are recorded as 'baseline'.
+   */
+  async captureSnapshot(microlearningId: string): Promise<MicrolearningSnapshot | null> {
+    try {
+      const state = await this.readState(microlearningId);
+      if (!state) return null;
+
+      const version = versionOf(state.base);
+      const history = await this.kvService.get<HistoryEntry>(`${historyPrefix(microlearningId)}${version}`);
+      const snapshot: MicrolearningSnapshot = {
+        microlearningId,
+        version,
+        action: history?.action ?? 'baseline',
+        createdAt: history?.timestamp ?? new Date().toISOString(),
+        ...(history?.changes && { changes: history.changes }),
+        ...(history?.restoredFrom !== undefined && { restoredFrom: history.restoredFrom }),
+        ...state,
+      };
+
+      return (await this.writeSnapshot(snapshot, !history)) ? snapshot : null;
+    } catch (error) {
+      logger.warn('microlearning_snapshot_failed', { microlearningId, error: normalizeError(error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Record a new version with its history entry. Pass the base that was just written rather
+   * than re-reading it — KV reads right after a write may still return the previous value.
+   * Languages and inboxes are read live unless given.
+   */
+  async recordVersion(
+    microlearningId: string,
+    entry: {
+      version: number;
+      action: MicrolearningVersionAction;
+      base: KvContent;
+      changes?: Record<string, unknown>;
+      restoredFrom?: number;
+      languages?: Record<string, KvContent>;
+      inboxes?: Record<string, KvContent>;
+    }
+  ): Promise<MicrolearningSnapshot | null> {
+    try {
+      const live = entry.languages && entry.inboxes ? null : await this.readState(microlearningId);
+      const snapshot: MicrolearningSnapshot = {
+        microlearningId,
+        version: entry.version,
+        action: entry.action,
+        createdAt: new Date().toISOString(),
+        ...(entry.changes && { changes: entry.changes }),
+        ...(entry.restoredFrom !== undefined && { restoredFrom: entry.restoredFrom }),
+        base: entry.base,
+        languages: entry.languages ?? live?.languages ?? {},
+        inboxes: entry.inboxes ?? live?.inboxes ?? {},
+      };
+
+      return (await this.writeSnapshot(snapshot, true)) ? snapshot : null;
+    } catch (error) {
+      logger.warn('microlearning_version_record_failed', {
+        microlearningId,
+        version: entry.version,
+        error: normalizeError(error).message,
+      });
+      return null;
+    }
+  }
+
+  async getSnapshot(microlearningId: string, version: number): Promise<MicrolearningSnapshot | null> {
+    return this.kvService.get<MicrolearningSnapshot>(`${snapshotPrefix(microlearningId)}${version}`);
+  }
+
+  /** Every known version, newest first; null when the microlearning does not exist */
+  async listVersions(microlearningId: string): Promise<MicrolearningVersionList | null> {
+    const base = await this.kvService.get<KvContent>(baseKey(microlearningId));
+    if (!base) return null;
+
+    const [historyKeys, snapshotKeys] = await Promise.all([
+      this.kvService.list(historyPrefix(microlearningId), MICROLEARNING_VERSIONS.KEY_LIST_LIMIT),
+      this.kvService.list(snapshotPrefix(microlearningId), MICROLEARNING_VERSIONS.KEY_LIST_LIMIT),
+    ]);
+    const restorable = new Set(parseVersionKeys(snapshotKeys, snapshotPrefix(microlearningId)));
+    const versions = [
+      ...new Set([...parseVersionKeys(historyKeys, historyPrefix(microlearningId)), ...restorable]),
+    ].sort((a, b) => b - a);
+
+    const entries = await Promise.all(
+      versions.map(async (version): Promise<MicrolearningVersionEntry> => {
+        const history = await this.kvService.get<HistoryEntry>(`${historyPrefix(microlearningId)}${version}`);
+        return {
+          version,
+          action: history?.action ?? 'baseline',
+          timestamp: history?.timestamp ?? null,
+          restorable: restorable.has(version),
+          ...(history?.changes && { changes: history.changes }),
+          ...(history?.restoredFrom !== undefined && { restoredFrom: history.restoredFrom }),
+        };
+      })
+    );
+
+    return { microlearningId, currentVersion: versionOf(base), versions: entries };
+  }
+
+  /**
+   * Structured diff from one version to another. Without `to`, compares against the live
+   * content. Returns null when either side has no snapshot (or the microlearning is gone).
+   */
+  async diffVersions(microlearningId: string, from: number, to?: number): Promise<MicrolearningVersionDiff | null> {
+    const before = await this.getSnapshot(microlearningId, from);
+    if (!before) return null;
+
+    let after: MicrolearningState | null;
+    let toVersion: number;
+    if (to === undefined) {
+      after = await this.readState(microlearningId);
+      toVersion = after ? versionOf(after.base) : 0;
+    } else {
+      after = await this.getSnapshot(microlearningId, to);
+      toVersion = to;
+    }
+    if (!after) return null;
+
+    const base = diffContent(before.base, after.base, { ignorePaths: MICROLEARNING_VERSIONS.IGNORED_DIFF_PATHS });
+    const budget = {
+      remaining: MICROLEARNING_VERSIONS.DIFF_MAX_CHANGES - base.changes.length,
+      truncated: base.truncated,
+    };
+    const languages = diffKeyed(before.languages, after.languages, budget);
+    const inboxes = diffKeyed(before.inboxes, after.inboxes, budget);
+
+    const keyedTotal = (diff: KeyedContentDiff) =>
+      diff.added.length +
+      diff.removed.length +
+      Object.values(diff.changed).reduce((sum, changes) => sum + changes.length, 0);
+
+    return {
+      microlearningId,
+      from,
+      to: toVersion,
+      base: base.changes,
+      languages,
+      inboxes,
+      totalChanges: base.changes.length + keyedTotal(languages) + keyedTotal(inboxes),
+      truncated: budget.truncated,
+    };
+  }
+
+  /** Put back the pre-rollback value of every key written so far (delete keys that did not exist) */
+  private async compensate(written: string[], previous: Map<string, KvContent | undefined>): Promise<void> {
+    for (const key of written) {
+      const value = previous.get(key);
+      const restored = value ? await this.kvService.put(key, value) : await this.kvService.delete(key);
+      if (!restored) logger.error('microlearning_rollback_compensation_failed', { key });
+    }
+  }
+
+  /**
+   * Restore a version as a new version (current + 1, action 'rolled_back'). Keys created after
+   * the target version are not deleted; the restored language_availability no longer lists them.
+   */
+  async rollback(microlearningId: string, targetVersion: number): Promise<RollbackResult> {
+    try {
+      const [target, current] = await Promise.all([
+        this.getSnapshot(microlearningId, targetVersion),
+        this.readState(microlearningId),
+      ]);
+      if (!target || !current) return { status: 'not_found' };
+
+      const currentVersion = versionOf(current.base);
+      if (targetVersion === currentVersion) {
+        return { status: 'failed', error: `Version ${targetVersion} is already the current version` };
+      }
+
+      // Keep the pre-rollback state restorable
+      await this.captureSnapshot(microlearningId);
+
+      const previous = new Map<string, KvContent | undefined>();
+      const writes: [string, KvContent][] = [];
+      for (const [lang, content] of Object.entries(target.languages)) {
+        const key = `${langPrefix(microlearningId)}${lang}`;
+        previous.set(key, current.languages[lang]);
+        writes.push([key, content]);
+      }
+      for (const [inbox, content] of Object.entries(target.inboxes)) {
+        const key = `${inboxPrefix(microlearningId)}${inbox}`;
+        previous.set(key, current.inboxes[inbox]);
+        writes.push([key, content]);
+      }
+
+      const written: string[] = [];
+      for (const [key, content] of writes) {
+        if (!(await this.kvService.put(key, content))) {
+          await this.compensate(written, previous);
+          return { status: 'failed', error: `Failed to write ${key}; rollback reverted` };
+        }
+        written.push(key);
+      }
+
+      const newVersion = currentVersion + 1;
+      const restoredBase: KvContent = {
+        ...target.base,
+        version: newVersion,
+        updated_at: new Date().toISOString(),
+        restored_from: targetVersion,
+      };
+      if (!(await this.kvService.put(baseKey(microlearningId), restoredBase))) {
+        await this.compensate(written, previous);
+        return { status: 'failed', error: 'Failed to write base content; rollback reverted' };
+      }
+
+      await this.recordVersion(microlearningId, {
+        version: newVersion,
+        action: 'rolled_back',
+        base: restoredBase,
+        restoredFrom: targetVersion,
+        languages: target.languages,
+        inboxes: target.inboxes,
+      });
+
+      logger.info('Microlearning rolled back', { microlearningId, restoredFrom: targetVersion, version: newVersion });
+      return { status: 'rolled_back', version: newVersion, restoredFrom: targetVersion };
+    } catch (error) {
+      const err = normalizeError(error);
+      logger.error('microlearning_rollback_failed', { microlearningId, targetVersion, error: err.message });
+      return { status: 'failed', error: err.message };
+    }
+  }
+}
@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { chunkPolicyText, detectHeading } from './chunker';
+
+const paragraph = (words: number, word = 'lorem') => Array.from({ length: words }, () => word).join(' ');
+
+describe('policy chunker', () => {
+  describe('detectHeading', () => {
+    it.each([
+      ['## Password Requirements', 'Password Requirements'],
+      ['3.2 Multi-Factor Authentication', '3.2 Multi-Factor Authentication'],
+      ['Section 4: Incident Reporting', 'Section 4: Incident Reporting'],
+      ['ACCEPTABLE USE', 'ACCEPTABLE USE'],
+      ['KVKK VE GİZLİLİK', 'KVKK VE GİZLİLİK'],
+    ])('%s', (line, heading) => {
+      expect(detectHeading(line)).toBe(heading);
+    });
+
+    it('does not treat rule sentences as headings', () => {
+      expect(detectHeading('1. Passwords must be at least 12 characters long.')).toBeNull();
+      expect(detectHeading('Employees must report phishing emails within one hour')).toBeNull();
+      expect(detectHeading('2024')).toBeNull();
+      expect(detectHeading('')).toBeNull();
+    });
+  });
+
+  describe('chunkPolicyText', () => {
+    it('labels each chunk with its nearest heading', () => {
+      const chunks = chunkPolicyText(
+        'This policy applies to all staff.\n\n# Passwords\nUse 12+ characters.\n\n# Reporting\nForward phishing to security@acme.test.'
+      );
+
+      expect(chunks.map(chunk => chunk.section)).toEqual(['Introduction', 'Passwords', 'Reporting']);
+      expect(chunks[1].content).toBe('Use 12+ characters.');
+      expect(chunks.map(chunk => chunk.index)).toEqual([0, 1, 2]);
+    });
+
+    it('packs paragraphs up to the target size and overlaps within a section', () => {
+      const text = ['# Data Handling', paragraph(30, 'alpha'), paragraph(30, 'beta'), paragraph(30, 'gamma')].join(
+        '\n\n'
+      );
+      const chunks = chunkPolicyText(text, { targetChars: 400, overlapChars: 60 });
+
+      expect(chunks).toHaveLength(2);
+      expect(chunks[0].content).toContain('alpha');
+      expect(chunks[0].content).toContain('beta');
+      expect(chunks[1].content.startsWith('beta')).toBe(true);
+      expect(chunks[1].content).toContain('gamma');
+      expect(chunks.every(chunk => chunk.section === 'Data Handling')).toBe(true);
+    });
+
+    it('does not carry overlap across sections', () => {
+      const chunks = chunkPolicyText(`# One\n${paragraph(50, 'one')}\n\n# Two\n${paragraph(5, 'two')}`, {
+        targetChars: 200,
+        overlapChars: 50,
+      });
+
+      const sectionTwo = chunks.filter(chunk => chunk.section === 'Two');
+      expect(sectionTwo).toHaveLength(1);
+      expect(sectionTwo[0].content).not.toContain('one');
+    });
+
+    it('splits over-long paragraphs at word boundaries', () => {
+      const chunks = chunkPolicyText(paragraph(200, 'word'), { targetChars: 300, overlapChars: 0 });
+
+      expect(chunks.length).toBeGreaterThan(1);
+      expect(chunks.every(chunk => chunk.content.length <= 300)).toBe(true);
+      expect(chunks.every(chunk => /^(word ?)+$/.test(chunk.content))).toBe(true);
+    });
+
+    it('cites documents without headings by part number', () => {
+      const chunks = chunkPolicyText(`${paragraph(60)}\n\n${paragraph(60)}`, { targetChars: 400, overlapChars: 0 });
+
+      expect(chunks.map(chunk => chunk.section)).toEqual(['Part 1', 'Part 2']);
+    });
+
+    it('caps the number of chunks per policy', () => {
+      const text = Array.from({ length: 20 }, (_, i) => `# Rule ${i}\nText ${i}`).join('\n\n');
+
+      expect(chunkPolicyText(text, { maxChunks: 5 })).toHaveLength(5);
+    });
+
+    it('returns no chunks for empty text', () => {
+      expect(chunkPolicyText('  \n\n ')).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Policy Chunker
+ *
+ * Splits a policy document into retrieval chunks that stay inside one section, so every
+ * chunk can be cited as "policy name — section". Paragraphs are packed up to
+ * POLICY_RAG.CHUNK_TARGET_CHARS; consecutive chunks of the same section overlap by the
+ * word-aligned tail of the previous one so a rule split across chunks is still found.
+ */
+
+import { POLICY_RAG } from '../../constants';
+import type { PolicyChunkDraft } from './types';
+
+interface Section {
+  title: string;
+  paragraphs: string[];
+}
+
+const MARKDOWN_HEADING = /^#{1,6}\s+(.+?)\s*#*$/;
+const NUMBERED_HEADING = /^(\d+(?:\.\d+)*\.?)\s+(\S.*)$/;
+const NAMED_HEADING = /^(?:section|article|chapter|clause|part)\s+[\dIVXLC]+[.:)]?(?:\s+.*)?$/i;
+const HEADING_MAX_CHARS = 100;
+
+/** Returns the heading text when the line looks like a section heading, otherwise null */
+export function detectHeading(line: string): string | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.length > HEADING_MAX_CHARS) return null;
+
+  const markdown = trimmed.match(MARKDOWN_HEADING);
+  if (markdown) return markdown[1].replace(/[*_]/g, '').trim();
+
+  // "3.2 Password Requirements" — but not a numbered rule sentence ("1. Passwords must be…")
+  const numbered = trimmed.match(NUMBERED_HEADING);
+  if (numbered && !/[.;:,]$/.test(trimmed) && numbered[2].split(/\s+/).length <= 10) return trimmed;
+
+  if (NAMED_HEADING.test(trimmed)) return trimmed;
+
+  // ALL CAPS lines ("ACCEPTABLE USE") — at least two letters, no lowercase
+  const letters = trimmed.replace(/[^\p{L}]/gu, '');
+  if (letters.length >= 2 && letters === letters.toUpperCase() && letters !== letters.toLowerCase()) {
+    return trimmed;
+  }
+  return null;
+}
+
+function splitSections(text: string): Section[] {
+  const sections: Section[] = [];
+  let current: Section = { title: '', paragraphs: [] };
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    const joined = paragraph.join('\n').trim();
+    if (joined) current.paragraphs.push(joined);
+    paragraph = [];
+  };
+
+  for (const line of text.replace(/\r\n?/g, '\n').split('\n')) {
+    const heading = detectHeading(line);
+    if (heading) {
+      flushParagraph();
+      if (current.title || current.paragraphs.length > 0) sections.push(current);
+      current = { title: heading.slice(0, POLICY_RAG.SECTION_MAX_CHARS), paragraphs: [] };
+    } else if (line.trim() === '') {
+      flushParagraph();
+    } else {
+      paragraph.push(line.trimEnd());
+    }
+  }
+  flushParagraph();
+  if (current.title || current.paragraphs.length > 0) sections.push(current);
+
+  return sections.filter(section => section.paragraphs.length > 0);
+}
+
+/** Split an over-long paragraph at sentence, then word boundaries */
+function splitLongParagraph(paragraph: string, maxChars: number): string[] {
+  if (paragraph.length <= maxChars) return [paragraph];
+
+  const pieces: string[] = [];
+  let rest = paragraph;
+  while (rest.length > maxChars) {
+    const window = rest.slice(0, maxChars);
+    const sentenceEnd = Math.max(window.lastIndexOf('. '), window.lastIndexOf('.\n'));
+    const wordEnd = window.lastIndexOf(' ');
+    const cut = sentenceEnd > maxChars / 2 ? sentenceEnd + 1 : wordEnd > 0 ? wordEnd : maxChars;
+    pieces.push(rest.slice(0, cut).trim());
+    rest = rest.slice(cut).trim();
+  }
+  if (rest) pieces.push(rest);
+  return pieces;
+}
+
+/** Word-aligned tail of a chunk, carried into the next chunk of the same section */
+function overlapTail(content: string, maxChars: number): string {
+  if (maxChars <= 0 || content.length <= maxChars) return '';
+  const tail = content.slice(-maxChars);
+  const firstSpace = tail.search(/\s/);
+  return firstSpace === -1 ? '' : tail.slice(firstSpace).trim();
+}
+
+export function chunkPolicyText(
+  text: string,
+  options: { targetChars?: number; overlapChars?: number; maxChunks?: number } = {}
+): PolicyChunkDraft[] {
+  const targetChars = options.targetChars ?? POLICY_RAG.CHUNK_TARGET_CHARS;
+  const overlapChars = Math.min(options.overlapChars ?? POLICY_RAG.CHUNK_OVERLAP_CHARS, Math.floor(targetChars / 2));
+  const maxChunks = options.maxChunks ?? POLICY_RAG.MAX_CHUNKS_PER_POLICY;
+
+  const sections = splitSections(text);
+  const hasHeadings = sections.some(section => section.title);
+  const chunks: PolicyChunkDraft[] = [];
+
+  for (const section of sections) {
+    const title = section.title || (hasHeadings ? 'Introduction' : '');
+    const pieces = section.paragraphs.flatMap(paragraph => splitLongParagraph(paragraph, targetChars));
+
+    let buffer = '';
+    let bufferHasNewText = false;
+    const flush = () => {
+      if (!bufferHasNewText) return;
+      chunks.push({ index: chunks.length, section: title, content: buffer });
+      buffer = overlapTail(buffer, overlapChars);
+      bufferHasNewText = false;
+    };
+
+    for (const piece of pieces) {
+      if (bufferHasNewText && buffer.length + piece.length + 2 > targetChars) flush();
+      buffer = buffer ? `${buffer}\n\n${piece}` : piece;
+      bufferHasNewText = true;
+    }
+    flush();
+  }
+
+  // Documents without headings are cited by position
+  const labelled = hasHeadings ? chunks : chunks.map(chunk => ({ ...chunk, section: `Part ${chunk.index + 1}` }));
+  return labelled.slice(0, maxChunks);
+}
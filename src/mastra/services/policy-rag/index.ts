@@ -0,0 +1,13 @@
+/**
+ * Policy RAG
+ *
+ * Company policies chunked by section, embedded and stored per company in D1, so policy
+ * questions are answered from the retrieved passages with citations (policy name and
+ * section) instead of a single compressed digest.
+ */
+
+export * from './types';
+export { chunkPolicyText, detectHeading } from './chunker';
+export * from './policy-index-store';
+export { embedTexts, syncPolicyIndex, ensurePolicyIndex, resetPolicyIndexState } from './policy-indexer';
+export { cosineSimilarity, rankPolicyChunks, retrievePolicyChunks } from './policy-retriever';
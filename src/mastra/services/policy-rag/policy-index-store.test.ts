@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import { deleteIndexedPolicy, listIndexedPolicies, listPolicyChunks, replacePolicyChunks } from './policy-index-store';
+import type { PolicyChunk } from './types';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createMockDb(options: { results?: unknown[]; fail?: boolean } = {}) {
+  const statements: { sql: string; values: unknown[] }[] = [];
+  const prepare = vi.fn().mockImplementation((sql: string) => {
+    const entry = { sql, values: [] as unknown[] };
+    statements.push(entry);
+    const statement = {
+      bind: vi.fn((...args: unknown[]) => {
+        entry.values = args;
+        return statement;
+      }),
+      run: vi.fn(async () => ({ success: true })),
+      all: vi.fn(async () => {
+        if (options.fail) throw new Error('D1 error');
+        return { success: true, results: options.results ?? [] };
+      }),
+    };
+    return statement;
+  });
+  const batch = vi.fn(async (batched: unknown[]) => {
+    if (options.fail) throw new Error('D1 error');
+    return batched.map(() => ({ success: true }));
+  });
+  return { prepare, batch, statements };
+}
+
+const CHUNK: PolicyChunk = {
+  policyKey: 'blob://security',
+  policyName: 'Security Policy',
+  index: 0,
+  section: 'Passwords',
+  content: 'Use 12+ characters.',
+  contentHash: 'h0',
+  embedding: [0.1, 0.2],
+};
+
+describe('policy-index-store', () => {
+  it('returns null / false when D1 is unavailable', async () => {
+    expect(await listIndexedPolicies(undefined, 'acme')).toBeNull();
+    expect(await listPolicyChunks({}, 'acme')).toBeNull();
+    expect(
+      await replacePolicyChunks(undefined, 'acme', { key: 'k', name: 'n', contentHash: 'h', embeddingModel: null }, [])
+    ).toBe(false);
+    expect(await deleteIndexedPolicy(undefined, 'acme', 'k')).toBe(false);
+  });
+
+  it('maps indexed policy rows', async () => {
+    const db = createMockDb({
+      results: [
+        {
+          policy_key: 'blob://security',
+          policy_name: 'Security Policy',
+          content_hash: 'abc',
+          chunk_count: 3,
+          embedding_model: null,
+          indexed_at: '2026-10-01 00:00:00',
+        },
+      ],
+    });
+
+    const policies = await listIndexedPolicies({ agentic_ally_memory: db }, 'acme');
+
+    expect(policies).toEqual([
+      {
+        key: 'blob://security',
+        name: 'Security Policy',
+        contentHash: 'abc',
+        chunkCount: 3,
+        embeddingModel: null,
+        indexedAt: '2026-10-01 00:00:00',
+      },
+    ]);
+    expect(db.statements[0].values).toEqual(['acme']);
+  });
+
+  it('parses chunk embeddings and ignores corrupt ones', async () => {
+    const row = {
+      policy_key: 'blob://security',
+      chunk_index: 0,
+      policy_name: 'Security Policy',
+      section: 'Passwords',
+      content: 'Use 12+ characters.',
+      content_hash: 'h0',
+    };
+    const db = createMockDb({
+      results: [
+        { ...row, embedding_json: '[0.1,0.2]' },
+        { ...row, chunk_index: 1, embedding_json: '{bad' },
+      ],
+    });
+
+    const chunks = await listPolicyChunks({ agentic_ally_memory: db }, 'acme', 'blob://security');
+
+    expect(chunks?.map(chunk => chunk.embedding)).toEqual([[0.1, 0.2], null]);
+    expect(db.statements[0].sql).toContain('AND policy_key = ?');
+    expect(db.statements[0].values).toEqual(['acme', 'blob://security']);
+  });
+
+  it('replaces a policy in one batch: delete, insert chunks, upsert document', async () => {
+    const db = createMockDb();
+
+    const ok = await replacePolicyChunks(
+      { agentic_ally_memory: db },
+      'acme',
+      { key: 'blob://security', name: 'Security Policy', contentHash: 'abc', embeddingModel: 'text-embedding-3-small' },
+      [CHUNK, { ...CHUNK, index: 1, contentHash: 'h1', embedding: null }]
+    );
+
+    expect(ok).toBe(true);
+    expect(db.batch).toHaveBeenCalledTimes(1);
+    expect(db.batch.mock.calls[0][0]).toHaveLength(4);
+    expect(db.statements[0].sql).toContain('DELETE FROM policy_chunks');
+    expect(db.statements[1].values).toEqual([
+      'acme',
+      'blob://security',
+      0,
+      'Security Policy',
+      'Passwords',
+      'Use 12+ characters.',
+      'h0',
+      '[0.1,0.2]',
+    ]);
+    expect(db.statements[2].values[7]).toBeNull();
+    expect(db.statements[3].sql).toContain('ON CONFLICT (company_id, policy_key)');
+    expect(db.statements[3].values).toEqual([
+      'acme',
+      'blob://security',
+      'Security Policy',
+      'abc',
+      2,
+      'text-embedding-3-small',
+    ]);
+  });
+
+  it('returns false when the batch fails', async () => {
+    const db = createMockDb({ fail: true });
+
+    expect(await deleteIndexedPolicy({ agentic_ally_memory: db }, 'acme', 'blob://security')).toBe(false);
+    expect(
+      await replacePolicyChunks(
+        { agentic_ally_memory: db },
+        'acme',
+        { key: 'k', name: 'n', contentHash: 'h', embeddingModel: null },
+        []
+      )
+    ).toBe(false);
+  });
+});
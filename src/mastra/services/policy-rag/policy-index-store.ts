@@ -0,0 +1,221 @@
+/**
+ * Policy Index Store (D1)
+ *
+ * Per-company policy chunks and their embeddings (migrations/0013_policy_index.sql).
+ * A policy is always replaced as a whole — delete its chunks, insert the new ones and
+ * upsert its document row in one batch — so a reader never sees a half-indexed policy.
+ *
+ * Pattern: follows gdpr-service.ts — never throws; returns null/false when D1 is
+ * unavailable or a query fails.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { POLICY_RAG } from '../../constants';
+import type { IndexedPolicy, PolicyChunk } from './types';
+
+const logger = getLogger('PolicyIndexStore');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  all(): Promise<D1Result>;
+}
+
+interface D1Result {
+  success: boolean;
+  results?: unknown[];
+  meta?: { changes?: number };
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+  batch(statements: D1PreparedStatement[]): Promise<D1Result[]>;
+}
+
+// ─── Rows ───
+
+interface DocumentRow {
+  policy_key: string;
+  policy_name: string;
+  content_hash: string;
+  chunk_count: number;
+  embedding_model: string | null;
+  indexed_at: string;
+}
+
+interface ChunkRow {
+  policy_key: string;
+  chunk_index: number;
+  policy_name: string;
+  section: string;
+  content: string;
+  content_hash: string;
+  embedding_json: string | null;
+}
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, policy index disabled');
+    return null;
+  }
+  return db;
+}
+
+function parseEmbedding(value: string | null): number[] | null {
+  if (!value) return null;
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) && parsed.every(n => typeof n === 'number') ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+function toChunk(row: ChunkRow): PolicyChunk {
+  return {
+    policyKey: row.policy_key,
+    policyName: row.policy_name,
+    index: row.chunk_index,
+    section: row.section,
+    content: row.content,
+    contentHash: row.content_hash,
+    embedding: parseEmbedding(row.embedding_json),
+  };
+}
+
+export async function listIndexedPolicies(
+  env: Record<string, unknown> | undefined,
+  companyId: string
+): Promise<IndexedPolicy[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        `SELECT policy_key, policy_name, content_hash, chunk_count, embedding_model, indexed_at
+         FROM ${POLICY_RAG.DOCUMENTS_TABLE} WHERE company_id = ? ORDER BY policy_name`
+      )
+      .bind(companyId)
+      .all();
+    return ((result?.results as DocumentRow[] | undefined) ?? []).map(row => ({
+      key: row.policy_key,
+      name: row.policy_name,
+      contentHash: row.content_hash,
+      chunkCount: Number(row.chunk_count),
+      embeddingModel: row.embedding_model,
+      indexedAt: row.indexed_at,
+    }));
+  } catch (error) {
+    logger.warn('policy_index_list_failed', { error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/** All chunks of the company (or of one policy), capped at POLICY_RAG.MAX_CHUNKS_PER_COMPANY */
+export async function listPolicyChunks(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  policyKey?: string
+): Promise<PolicyChunk[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  const filter = policyKey ? 'AND policy_key = ?' : '';
+  try {
+    const result = await db
+      .prepare(
+        `SELECT policy_key, chunk_index, policy_name, section, content, content_hash, embedding_json
+         FROM ${POLICY_RAG.CHUNKS_TABLE} WHERE company_id = ? ${filter}
+         ORDER BY policy_key, chunk_index LIMIT ${POLICY_RAG.MAX_CHUNKS_PER_COMPANY}`
+      )
+      .bind(...(policyKey ? [companyId, policyKey] : [companyId]))
+      .all();
+    return ((result?.results as ChunkRow[] | undefined) ?? []).map(toChunk);
+  } catch (error) {
+    logger.warn('policy_chunks_list_failed', { error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/**
+ * Replace a policy's chunks and document row. embeddingModel is null when any chunk was
+ * stored without an embedding, so the next sync re-embeds the policy.
+ */
+export async function replacePolicyChunks(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  document: { key: string; name: string; contentHash: string; embeddingModel: string | null },
+  chunks: PolicyChunk[]
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db) return false;
+
+  try {
+    const insert = `INSERT INTO ${POLICY_RAG.CHUNKS_TABLE}
+      (company_id, policy_key, chunk_index, policy_name, section, content, content_hash, embedding_json)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)`;
+    await db.batch([
+      db
+        .prepare(`DELETE FROM ${POLICY_RAG.CHUNKS_TABLE} WHERE company_id = ? AND policy_key = ?`)
+        .bind(companyId, document.key),
+      ...chunks.map(chunk =>
+        db
+          .prepare(insert)
+          .bind(
+            companyId,
+            document.key,
+            chunk.index,
+            document.name,
+            chunk.section,
+            chunk.content,
+            chunk.contentHash,
+            chunk.embedding ? JSON.stringify(chunk.embedding) : null
+          )
+      ),
+      db
+        .prepare(
+          `INSERT INTO ${POLICY_RAG.DOCUMENTS_TABLE}
+             (company_id, policy_key, policy_name, content_hash, chunk_count, embedding_model, indexed_at)
+           VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+           ON CONFLICT (company_id, policy_key) DO UPDATE SET
+             policy_name = excluded.policy_name, content_hash = excluded.content_hash,
+             chunk_count = excluded.chunk_count, embedding_model = excluded.embedding_model,
+             indexed_at = excluded.indexed_at`
+        )
+        .bind(companyId, document.key, document.name, document.contentHash, chunks.length, document.embeddingModel),
+    ]);
+    return true;
+  } catch (error) {
+    logger.warn('policy_index_replace_failed', { policyKey: document.key, error: normalizeError(error).message });
+    return false;
+  }
+}
+
+export async function deleteIndexedPolicy(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  policyKey: string
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db) return false;
+
+  try {
+    await db.batch([
+      db
+        .prepare(`DELETE FROM ${POLICY_RAG.CHUNKS_TABLE} WHERE company_id = ? AND policy_key = ?`)
+        .bind(companyId, policyKey),
+      db
+        .prepare(`DELETE FROM ${POLICY_RAG.DOCUMENTS_TABLE} WHERE company_id = ? AND policy_key = ?`)
+        .bind(companyId, policyKey),
+    ]);
+    return true;
+  } catch (error) {
+    logger.warn('policy_index_delete_failed', { policyKey, error: normalizeError(error).message });
+    return false;
+  }
+}
@@ -0,0 +1,203 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { embedTexts, ensurePolicyIndex, resetPolicyIndexState, syncPolicyIndex } from './policy-indexer';
+import { computeHash } from '../gdpr-service';
+import { POLICY_RAG } from '../../constants';
+import type { IndexedPolicy, PolicyChunk } from './types';
+
+const mocks = vi.hoisted(() => ({
+  embedMany: vi.fn(),
+  fetchPolicyDocuments: vi.fn(),
+  listIndexedPolicies: vi.fn(),
+  listPolicyChunks: vi.fn(),
+  replacePolicyChunks: vi.fn(),
+  deleteIndexedPolicy: vi.fn(),
+}));
+
+vi.mock('ai', () => ({ embedMany: mocks.embedMany }));
+
+vi.mock('../../model-providers', () => ({
+  getEmbeddingModel: vi.fn(() => 'embedding-model'),
+}));
+
+vi.mock('../../utils/core/policy-fetcher', () => ({
+  fetchPolicyDocuments: mocks.fetchPolicyDocuments,
+}));
+
+vi.mock('../../utils/core/resilience-utils', () => ({
+  withRetry: vi.fn((fn: () => Promise<unknown>) => fn()),
+}));
+
+vi.mock('./policy-index-store', () => ({
+  listIndexedPolicies: mocks.listIndexedPolicies,
+  listPolicyChunks: mocks.listPolicyChunks,
+  replacePolicyChunks: mocks.replacePolicyChunks,
+  deleteIndexedPolicy: mocks.deleteIndexedPolicy,
+}));
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const ENV = { agentic_ally_memory: {} };
+const POLICY_TEXT = '# Passwords\nUse 12+ characters.\n\n# Reporting\nForward phishing to security.';
+
+const indexedPolicy = async (overrides: Partial<IndexedPolicy> = {}): Promise<IndexedPolicy> => ({
+  key: 'blob://security',
+  name: 'Security Policy',
+  contentHash: await computeHash(POLICY_TEXT),
+  chunkCount: 2,
+  embeddingModel: POLICY_RAG.EMBEDDING_MODEL,
+  indexedAt: '2026-10-01 00:00:00',
+  ...overrides,
+});
+
+describe('policy-indexer', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetPolicyIndexState();
+    mocks.embedMany.mockImplementation(async ({ values }: { values: string[] }) => ({
+      embeddings: values.map((_, i) => [i + 1, 0]),
+    }));
+    mocks.fetchPolicyDocuments.mockResolvedValue({
+      documents: [{ key: 'blob://security', name: 'Security Policy', text: POLICY_TEXT }],
+      failedKeys: [],
+    });
+    mocks.listIndexedPolicies.mockResolvedValue([]);
+    mocks.listPolicyChunks.mockResolvedValue([]);
+    mocks.replacePolicyChunks.mockResolvedValue(true);
+    mocks.deleteIndexedPolicy.mockResolvedValue(true);
+  });
+
+  describe('embedTexts', () => {
+    it('embeds in batches of EMBED_BATCH_SIZE', async () => {
+      const texts = Array.from({ length: POLICY_RAG.EMBED_BATCH_SIZE + 1 }, (_, i) => `t${i}`);
+
+      const embeddings = await embedTexts(texts);
+
+      expect(mocks.embedMany).toHaveBeenCalledTimes(2);
+      expect(embeddings).toHaveLength(texts.length);
+    });
+
+    it('returns null when embedding fails', async () => {
+      mocks.embedMany.mockRejectedValue(new Error('401'));
+
+      expect(await embedTexts(['a'])).toBeNull();
+    });
+  });
+
+  describe('syncPolicyIndex', () => {
+    it('chunks and embeds a new policy', async () => {
+      const summary = await syncPolicyIndex(ENV, 'acme');
+
+      expect(summary).toEqual({
+        added: 1,
+        updated: 0,
+        removed: 0,
+        unchanged: 0,
+        unreadable: 0,
+        chunks: 2,
+        embedded: true,
+      });
+      const [, companyId, document, chunks] = mocks.replacePolicyChunks.mock.calls[0];
+      expect(companyId).toBe('acme');
+      expect(document).toEqual({
+        key: 'blob://security',
+        name: 'Security Policy',
+        contentHash: await computeHash(POLICY_TEXT),
+        embeddingModel: POLICY_RAG.EMBEDDING_MODEL,
+      });
+      expect((chunks as PolicyChunk[]).map(chunk => chunk.section)).toEqual(['Passwords', 'Reporting']);
+      expect((chunks as PolicyChunk[]).every(chunk => chunk.embedding)).toBe(true);
+    });
+
+    it('skips policies whose text has not changed', async () => {
+      mocks.listIndexedPolicies.mockResolvedValue([await indexedPolicy()]);
+
+      const summary = await syncPolicyIndex(ENV, 'acme');
+
+      expect(summary).toMatchObject({ unchanged: 1, chunks: 2 });
+      expect(mocks.replacePolicyChunks).not.toHaveBeenCalled();
+      expect(mocks.embedMany).not.toHaveBeenCalled();
+    });
+
+    it('re-embeds only the chunks whose text changed', async () => {
+      mocks.listIndexedPolicies.mockResolvedValue([await indexedPolicy({ contentHash: 'old' })]);
+      mocks.listPolicyChunks.mockResolvedValue([
+        {
+          policyKey: 'blob://security',
+          policyName: 'Security Policy',
+          index: 0,
+          section: 'Passwords',
+          content: 'Use 12+ characters.',
+          contentHash: await computeHash('Passwords\nUse 12+ characters.'),
+          embedding: [9, 9],
+        },
+      ]);
+
+      const summary = await syncPolicyIndex(ENV, 'acme');
+
+      expect(summary).toMatchObject({ updated: 1, added: 0 });
+      expect(mocks.embedMany).toHaveBeenCalledTimes(1);
+      expect(mocks.embedMany.mock.calls[0][0].values).toEqual([
+        'Security Policy — Reporting\nForward phishing to security.',
+      ]);
+      const chunks = mocks.replacePolicyChunks.mock.calls[0][3] as PolicyChunk[];
+      expect(chunks[0].embedding).toEqual([9, 9]);
+    });
+
+    it('stores chunks without embeddings when embedding fails', async () => {
+      mocks.embedMany.mockRejectedValue(new Error('quota'));
+
+      const summary = await syncPolicyIndex(ENV, 'acme');
+
+      expect(summary?.embedded).toBe(false);
+      expect(mocks.replacePolicyChunks.mock.calls[0][2].embeddingModel).toBeNull();
+      expect((mocks.replacePolicyChunks.mock.calls[0][3] as PolicyChunk[]).every(chunk => !chunk.embedding)).toBe(true);
+    });
+
+    it('removes policies no longer listed but keeps unreadable ones', async () => {
+      mocks.fetchPolicyDocuments.mockResolvedValue({ documents: [], failedKeys: ['blob://hr'] });
+      mocks.listIndexedPolicies.mockResolvedValue([
+        await indexedPolicy(),
+        await indexedPolicy({ key: 'blob://hr', name: 'HR Policy' }),
+      ]);
+
+      const summary = await syncPolicyIndex(ENV, 'acme');
+
+      expect(mocks.deleteIndexedPolicy).toHaveBeenCalledTimes(1);
+      expect(mocks.deleteIndexedPolicy).toHaveBeenCalledWith(ENV, 'acme', 'blob://security');
+      expect(summary).toMatchObject({ removed: 1, unreadable: 1 });
+    });
+
+    it('returns null when D1 or the policy list is unavailable', async () => {
+      mocks.listIndexedPolicies.mockResolvedValueOnce(null);
+      expect(await syncPolicyIndex(undefined, 'acme')).toBeNull();
+
+      mocks.fetchPolicyDocuments.mockRejectedValueOnce(new Error('network'));
+      expect(await syncPolicyIndex(ENV, 'acme')).toBeNull();
+      expect(mocks.deleteIndexedPolicy).not.toHaveBeenCalled();
+    });
+
+    it('shares one sync between concurrent calls for a company', async () => {
+      const [first, second] = await Promise.all([syncPolicyIndex(ENV, 'acme'), syncPolicyIndex(ENV, 'acme')]);
+
+      expect(first).toBe(second);
+      expect(mocks.fetchPolicyDocuments).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('ensurePolicyIndex', () => {
+    it('syncs at most once per refresh interval', async () => {
+      await ensurePolicyIndex(ENV, 'acme');
+      await ensurePolicyIndex(ENV, 'acme');
+      await ensurePolicyIndex(ENV, 'globex');
+
+      expect(mocks.fetchPolicyDocuments).toHaveBeenCalledTimes(2);
+    });
+  });
+});
@@ -0,0 +1,187 @@
+/**
+ * Policy Indexer
+ *
+ * Keeps a company's D1 policy index in step with its policy files:
+ *   1. fetchPolicyDocuments → SHA-256 of each policy text
+ *   2. new / changed policies (or ones stored without embeddings) are re-chunked
+ *   3. chunk embeddings are reused by content hash, the rest embedded in batches
+ *   4. policies no longer listed are removed; unreadable ones keep their old chunks
+ *
+ * Question-time syncs are throttled per company (POLICY_RAG.REFRESH_INTERVAL_MS);
+ * POST /policies/index/refresh forces one after a policy upload.
+ */
+
+import { embedMany } from 'ai';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { withRetry } from '../../utils/core/resilience-utils';
+import { fetchPolicyDocuments, type PolicyFetchResult } from '../../utils/core/policy-fetcher';
+import { getEmbeddingModel } from '../../model-providers';
+import { computeHash } from '../gdpr-service';
+import { POLICY_RAG } from '../../constants';
+import { chunkPolicyText } from './chunker';
+import { deleteIndexedPolicy, listIndexedPolicies, listPolicyChunks, replacePolicyChunks } from './policy-index-store';
+import type { PolicyChunk, PolicyIndexSummary } from './types';
+
+const logger = getLogger('PolicyIndexer');
+
+const lastSyncAt = new Map<string, number>();
+const inFlight = new Map<string, Promise<PolicyIndexSummary | null>>();
+
+/**
+ * Embed texts in POLICY_RAG.EMBED_BATCH_SIZE batches. Returns null when embedding fails —
+ * callers store the chunks without embeddings (keyword retrieval) rather than not at all.
+ */
+export async function embedTexts(texts: string[]): Promise<number[][] | null> {
+  if (texts.length === 0) return [];
+  try {
+    const model = getEmbeddingModel(POLICY_RAG.EMBEDDING_MODEL);
+    const embeddings: number[][] = [];
+    for (let start = 0; start < texts.length; start += POLICY_RAG.EMBED_BATCH_SIZE) {
+      const values = texts.slice(start, start + POLICY_RAG.EMBED_BATCH_SIZE);
+      const result = await withRetry(() => embedMany({ model, values, maxRetries: 0 }), 'Policy chunk embedding');
+      embeddings.push(...result.embeddings);
+    }
+    return embeddings;
+  } catch (error) {
+    logger.warn('policy_embedding_failed', { count: texts.length, error: normalizeError(error).message });
+    return null;
+  }
+}
+
+async function indexPolicy(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  policy: { key: string; name: string; text: string; contentHash: string }
+): Promise<{ stored: boolean; chunks: number; embedded: boolean }> {
+  const drafts = chunkPolicyText(policy.text);
+  const hashes = await Promise.all(drafts.map(draft => computeHash(`${draft.section}\n${draft.content}`)));
+
+  // Unchanged chunks of an edited policy keep their embedding
+  const previous = (await listPolicyChunks(env, companyId, policy.key)) ?? [];
+  const cached = new Map(
+    previous.filter(chunk => chunk.embedding).map(chunk => [chunk.contentHash, chunk.embedding as number[]])
+  );
+
+  const missing = drafts.map((_, i) => i).filter(i => !cached.has(hashes[i]));
+  const fresh = await embedTexts(missing.map(i => `${policy.name} — ${drafts[i].section}\n${drafts[i].content}`));
+  missing.forEach((draftIndex, i) => {
+    const embedding = fresh?.[i];
+    if (embedding) cached.set(hashes[draftIndex], embedding);
+  });
+
+  const chunks: PolicyChunk[] = drafts.map((draft, i) => ({
+    ...draft,
+    policyKey: policy.key,
+    policyName: policy.name,
+    contentHash: hashes[i],
+    embedding: cached.get(hashes[i]) ?? null,
+  }));
+  const embedded = chunks.every(chunk => chunk.embedding);
+
+  const stored = await replacePolicyChunks(
+    env,
+    companyId,
+    {
+      key: policy.key,
+      name: policy.name,
+      contentHash: policy.contentHash,
+      embeddingModel: embedded ? POLICY_RAG.EMBEDDING_MODEL : null,
+    },
+    chunks
+  );
+  return { stored, chunks: chunks.length, embedded };
+}
+
+async function runSync(
+  env: Record<string, unknown> | undefined,
+  companyId: string
+): Promise<PolicyIndexSummary | null> {
+  const indexed = await listIndexedPolicies(env, companyId);
+  if (!indexed) return null;
+
+  let fetched: PolicyFetchResult | null;
+  try {
+    fetched = await fetchPolicyDocuments(companyId);
+  } catch (error) {
+    logger.warn('policy_index_fetch_failed', { companyId, error: normalizeError(error).message });
+    return null;
+  }
+  if (!fetched) return null;
+
+  const summary: PolicyIndexSummary = {
+    added: 0,
+    updated: 0,
+    removed: 0,
+    unchanged: 0,
+    unreadable: fetched.failedKeys.length,
+    chunks: 0,
+    embedded: true,
+  };
+  const indexedByKey = new Map(indexed.map(policy => [policy.key, policy]));
+
+  for (const document of fetched.documents) {
+    const contentHash = await computeHash(document.text);
+    const existing = indexedByKey.get(document.key);
+    if (
+      existing &&
+      existing.contentHash === contentHash &&
+      existing.name === document.name &&
+      existing.embeddingModel === POLICY_RAG.EMBEDDING_MODEL
+    ) {
+      summary.unchanged++;
+      summary.chunks += existing.chunkCount;
+      continue;
+    }
+
+    const result = await indexPolicy(env, companyId, { ...document, contentHash });
+    if (!result.stored) return null;
+    if (existing) summary.updated++;
+    else summary.added++;
+    summary.chunks += result.chunks;
+    summary.embedded = summary.embedded && result.embedded;
+  }
+
+  const listedKeys = new Set([...fetched.documents.map(document => document.key), ...fetched.failedKeys]);
+  for (const policy of indexed) {
+    if (listedKeys.has(policy.key)) continue;
+    if (await deleteIndexedPolicy(env, companyId, policy.key)) summary.removed++;
+  }
+
+  logger.info('policy_index_synced', { companyId, ...summary });
+  return summary;
+}
+
+/**
+ * Bring the company's policy index up to date. Concurrent calls for the same company share
+ * one sync. Returns null when D1 is unavailable, the policy list cannot be read or a
+ * write fails.
+ */
+export async function syncPolicyIndex(
+  env: Record<string, unknown> | undefined,
+  companyId: string
+): Promise<PolicyIndexSummary | null> {
+  const running = inFlight.get(companyId);
+  if (running) return running;
+
+  // A failed attempt also counts, so questions are not slowed by a retry on every call
+  const sync = runSync(env, companyId).finally(() => {
+    lastSyncAt.set(companyId, Date.now());
+    inFlight.delete(companyId);
+  });
+  inFlight.set(companyId, sync);
+  return sync;
+}
+
+/** Question-time sync: a no-op when the company was synced in the last REFRESH_INTERVAL_MS */
+export async function ensurePolicyIndex(env: Record<string, unknown> | undefined, companyId: string): Promise<void> {
+  const last = lastSyncAt.get(companyId);
+  if (last !== undefined && Date.now() - last < POLICY_RAG.REFRESH_INTERVAL_MS) return;
+  await syncPolicyIndex(env, companyId);
+}
+
+/** Test helper */
+export function resetPolicyIndexState(): void {
+  lastSyncAt.clear();
+  inFlight.clear();
+}
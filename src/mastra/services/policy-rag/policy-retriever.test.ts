@@ -0,0 +1,109 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { cosineSimilarity, rankPolicyChunks, retrievePolicyChunks, tokenize } from './policy-retriever';
+import type { PolicyChunk } from './types';
+
+const mocks = vi.hoisted(() => ({
+  embedTexts: vi.fn(),
+  listPolicyChunks: vi.fn(),
+}));
+
+vi.mock('./policy-indexer', () => ({ embedTexts: mocks.embedTexts }));
+vi.mock('./policy-index-store', () => ({ listPolicyChunks: mocks.listPolicyChunks }));
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const chunk = (overrides: Partial<PolicyChunk>): PolicyChunk => ({
+  policyKey: 'blob://security',
+  policyName: 'Security Policy',
+  index: 0,
+  section: 'General',
+  content: '',
+  contentHash: 'hash',
+  embedding: null,
+  ...overrides,
+});
+
+const PASSWORDS = chunk({
+  index: 0,
+  section: 'Passwords',
+  content: 'Passwords must be at least 12 characters and rotated yearly.',
+  embedding: [1, 0],
+});
+const REPORTING = chunk({
+  index: 1,
+  section: 'Reporting',
+  content: 'Forward suspected phishing emails to the security team.',
+  embedding: [0, 1],
+});
+
+describe('policy-retriever', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('tokenizes unicode text and drops short tokens', () => {
+    expect(tokenize('Şifre en az 12 karakter, şifre!')).toEqual(['şifre', 'karakter']);
+  });
+
+  it('computes cosine similarity', () => {
+    expect(cosineSimilarity([1, 0], [1, 0])).toBe(1);
+    expect(cosineSimilarity([1, 0], [0, 1])).toBe(0);
+    expect(cosineSimilarity([1, 0], [1, 0, 0])).toBe(0);
+  });
+
+  it('ranks by semantic similarity blended with keyword overlap', () => {
+    const results = rankPolicyChunks([PASSWORDS, REPORTING], 'How do I report phishing?', [0.1, 0.9]);
+
+    expect(results[0].chunk.section).toBe('Reporting');
+    expect(results[0].similarity).toBeCloseTo(0.994, 2);
+    expect(results.map(result => result.chunk.section)).toEqual(['Reporting']);
+  });
+
+  it('falls back to keyword overlap without embeddings', () => {
+    const results = rankPolicyChunks([PASSWORDS, REPORTING], 'password characters', null);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ similarity: null, score: 0.5 });
+    expect(results[0].chunk.section).toBe('Passwords');
+  });
+
+  it('limits results to k', () => {
+    const results = rankPolicyChunks([PASSWORDS, REPORTING], 'security policy', [0.7, 0.7], 1);
+
+    expect(results).toHaveLength(1);
+  });
+
+  it('embeds the question and retrieves from the company index', async () => {
+    mocks.listPolicyChunks.mockResolvedValue([PASSWORDS, REPORTING]);
+    mocks.embedTexts.mockResolvedValue([[1, 0]]);
+
+    const results = await retrievePolicyChunks({}, 'acme', 'password length');
+
+    expect(mocks.listPolicyChunks).toHaveBeenCalledWith({}, 'acme');
+    expect(mocks.embedTexts).toHaveBeenCalledWith(['password length']);
+    expect(results?.[0].chunk.section).toBe('Passwords');
+  });
+
+  it('does not embed the question when no chunk has an embedding', async () => {
+    mocks.listPolicyChunks.mockResolvedValue([{ ...PASSWORDS, embedding: null }]);
+
+    const results = await retrievePolicyChunks({}, 'acme', 'passwords');
+
+    expect(mocks.embedTexts).not.toHaveBeenCalled();
+    expect(results).toHaveLength(1);
+  });
+
+  it('returns null when the company has no index', async () => {
+    mocks.listPolicyChunks.mockResolvedValueOnce(null).mockResolvedValueOnce([]);
+
+    expect(await retrievePolicyChunks(undefined, 'acme', 'q')).toBeNull();
+    expect(await retrievePolicyChunks({}, 'acme', 'q')).toBeNull();
+  });
+});
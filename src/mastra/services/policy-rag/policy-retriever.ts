@@ -0,0 +1,95 @@
+/**
+ * Policy Retriever
+ *
+ * Top-k policy chunks for a question, scored like ExampleRepo's hybrid search:
+ * cosine similarity × POLICY_RAG.SEMANTIC_WEIGHT + keyword overlap × the rest. Chunks
+ * stored without an embedding (or a question that could not be embedded) are scored
+ * by keyword overlap alone, so retrieval degrades instead of failing.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import { POLICY_RAG } from '../../constants';
+import { embedTexts } from './policy-indexer';
+import { listPolicyChunks } from './policy-index-store';
+import type { PolicyChunk, RetrievedPolicyChunk } from './types';
+
+const logger = getLogger('PolicyRetriever');
+
+const MIN_TOKEN_LENGTH = 3;
+
+export function cosineSimilarity(a: number[], b: number[]): number {
+  if (a.length !== b.length) return 0;
+
+  let dotProduct = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dotProduct += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  const magnitude = Math.sqrt(normA) * Math.sqrt(normB);
+  return magnitude === 0 ? 0 : dotProduct / magnitude;
+}
+
+/** Unicode-aware word tokens (policies are not always English) */
+export function tokenize(text: string): string[] {
+  return [...new Set(text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [])].filter(
+    token => token.length >= MIN_TOKEN_LENGTH
+  );
+}
+
+/** Share of the question's tokens found in the chunk (0–1) */
+export function keywordScore(queryTokens: string[], chunk: PolicyChunk): number {
+  if (queryTokens.length === 0) return 0;
+  const chunkTokens = new Set(tokenize(`${chunk.policyName} ${chunk.section} ${chunk.content}`));
+  return queryTokens.filter(token => chunkTokens.has(token)).length / queryTokens.length;
+}
+
+export function rankPolicyChunks(
+  chunks: PolicyChunk[],
+  query: string,
+  queryEmbedding: number[] | null,
+  k: number = POLICY_RAG.TOP_K
+): RetrievedPolicyChunk[] {
+  const queryTokens = tokenize(query);
+
+  return chunks
+    .map(chunk => {
+      const tokenScore = keywordScore(queryTokens, chunk);
+      if (!queryEmbedding || !chunk.embedding) return { chunk, score: tokenScore, similarity: null };
+
+      const similarity = cosineSimilarity(queryEmbedding, chunk.embedding);
+      const score = similarity * POLICY_RAG.SEMANTIC_WEIGHT + tokenScore * (1 - POLICY_RAG.SEMANTIC_WEIGHT);
+      return { chunk, score, similarity };
+    })
+    .filter(result => result.score >= POLICY_RAG.MIN_SCORE)
+    .sort((a, b) => b.score - a.score)
+    .slice(0, k);
+}
+
+/**
+ * Retrieve the chunks that best answer the question. Returns null when the company has no
+ * index (D1 unavailable or nothing indexed) — callers fall back to the policy digest.
+ */
+export async function retrievePolicyChunks(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  query: string,
+  k: number = POLICY_RAG.TOP_K
+): Promise<RetrievedPolicyChunk[] | null> {
+  const chunks = await listPolicyChunks(env, companyId);
+  if (!chunks || chunks.length === 0) return null;
+
+  const queryEmbedding = chunks.some(chunk => chunk.embedding) ? ((await embedTexts([query]))?.[0] ?? null) : null;
+  const results = rankPolicyChunks(chunks, query, queryEmbedding, k);
+
+  logger.info('policy_chunks_retrieved', {
+    companyId,
+    candidates: chunks.length,
+    returned: results.length,
+    semantic: queryEmbedding !== null,
+  });
+  return results;
+}
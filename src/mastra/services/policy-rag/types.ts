@@ -0,0 +1,54 @@
+/**
+ * Policy RAG — shared types
+ */
+
+/** Chunker output, before hashing / embedding */
+export interface PolicyChunkDraft {
+  index: number;
+  /** Nearest heading — what a citation points to */
+  section: string;
+  content: string;
+}
+
+export interface PolicyChunk extends PolicyChunkDraft {
+  policyKey: string;
+  policyName: string;
+  contentHash: string;
+  /** null when embeddings were unavailable at index time (keyword retrieval only) */
+  embedding: number[] | null;
+}
+
+export interface IndexedPolicy {
+  key: string;
+  name: string;
+  contentHash: string;
+  chunkCount: number;
+  /** null when the chunks were stored without embeddings */
+  embeddingModel: string | null;
+  indexedAt: string;
+}
+
+export interface RetrievedPolicyChunk {
+  chunk: PolicyChunk;
+  score: number;
+  /** Cosine similarity, null when the chunk or the question has no embedding */
+  similarity: number | null;
+}
+
+export interface PolicyCitation {
+  policy: string;
+  section: string;
+  excerpt: string;
+}
+
+export interface PolicyIndexSummary {
+  added: number;
+  updated: number;
+  removed: number;
+  unchanged: number;
+  /** Listed policies that could not be read — their existing chunks are kept */
+  unreadable: number;
+  chunks: number;
+  /** Whether every (re)indexed chunk got an embedding */
+  embedded: boolean;
+}
@@ -0,0 +1,133 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import '../../__tests__/setup';
+import { buildSourceDatasets, fetchReportDatasets } from './report-data-service';
+import { REPORT_DATA } from '../constants';
+
+const period = { from: '2026-01-01', to: '2026-03-31' };
+const request = {
+  token: 'test-token',
+  companyId: 'company-1',
+  baseApiUrl: 'https://test-api.devkeepnet.com',
+  ...period,
+};
+
+function okResponse(results: unknown[], extra: Record<string, unknown> = {}) {
+  return { ok: true, status: 200, json: async () => ({ data: { results, ...extra } }) } as Response;
+}
+
+describe('report-data-service', () => {
+  beforeEach(() => {
+    vi.mocked(global.fetch).mockReset();
+  });
+
+  describe('buildSourceDatasets', () => {
+    it('builds summary, by-campaign and by-month phishing datasets', () => {
+      const datasets = buildSourceDatasets(
+        'phishing',
+        [
+          {
+            name: 'Jan invoice',
+            startDate: '2026-01-10T09:00:00Z',
+            targetCount: 100,
+            openedCount: 60,
+            clickedCount: 20,
+            submittedCount: 5,
+            reportedCount: 30,
+          },
+          {
+            name: 'Feb payroll',
+            startDate: '2026-02-03',
+            targetCount: 50,
+            openedCount: 25,
+            clickedCount: 5,
+            submittedCount: '1',
+            reportedCount: 20,
+          },
+        ],
+        period
+      );
+
+      expect(datasets.map(d => d.id)).toEqual(['phishing-summary', 'phishing-by-campaign', 'phishing-by-month']);
+      expect(datasets[0].rows[0]).toMatchObject({
+        campaigns: 2,
+        targets: 150,
+        opened: 85,
+        clicked: 25,
+        clickRate: 16.7,
+        submitted: 6,
+        reportRate: 33.3,
+      });
+      // Most recent campaign first
+      expect(datasets[1].rows[0]).toMatchObject({ campaign: 'Feb payroll', startDate: '2026-02-03', clickRate: 10 });
+      // Oldest month first
+      expect(datasets[2].rows.map(r => r.month)).toEqual(['2026-01', '2026-02']);
+    });
+
+    it('omits open columns for smishing and tolerates malformed rows', () => {
+      const datasets = buildSourceDatasets('smishing', [{ targetCount: 'abc', clickedCount: null }, null], period);
+
+      expect(datasets[0].columns.map(c => c.key)).not.toContain('openRate');
+      expect(datasets[0].rows[0]).toMatchObject({ campaigns: 2, targets: 0, clickRate: 0 });
+      expect(datasets[1].rows[0]).toMatchObject({ campaign: 'Untitled campaign' });
+      // No parseable start dates → no monthly dataset
+      expect(datasets.map(d => d.id)).toEqual(['smishing-summary', 'smishing-by-campaign']);
+    });
+
+    it('keeps only the summary when there are no results', () => {
+      const datasets = buildSourceDatasets('training', [], period);
+      expect(datasets).toHaveLength(1);
+      expect(datasets[0].rows[0]).toEqual({ trainings: 0, enrolled: 0, completed: 0, completionRate: 0 });
+    });
+
+    it('caps by-campaign rows', () => {
+      const rows = Array.from({ length: 30 }, (_, i) => ({
+        name: `Training ${i}`,
+        startDate: `2026-01-${String(i + 1).padStart(2, '0')}`,
+        enrolledCount: 10,
+        completedCount: 5,
+      }));
+      const byCampaign = buildSourceDatasets('training', rows, period).find(d => d.id === 'training-by-campaign')!;
+      expect(byCampaign.rows).toHaveLength(REPORT_DATA.MAX_CAMPAIGN_ROWS);
+      expect(byCampaign.rows[0]).toMatchObject({ campaign: 'Training 29', completionRate: 50 });
+    });
+  });
+
+  describe('fetchReportDatasets', () => {
+    it('posts the period with company headers and pages until a short page', async () => {
+      const fullPage = Array.from({ length: REPORT_DATA.PAGE_SIZE }, () => ({ name: 'c', startDate: '2026-01-01' }));
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(okResponse(fullPage))
+        .mockResolvedValueOnce(okResponse([{ name: 'last', startDate: '2026-01-02' }]));
+
+      const { datasets, failedSources } = await fetchReportDatasets(request, ['phishing']);
+
+      expect(failedSources).toEqual([]);
+      expect(datasets[0].rows[0].campaigns).toBe(REPORT_DATA.PAGE_SIZE + 1);
+      expect(global.fetch).toHaveBeenCalledTimes(2);
+      const [url, init] = vi.mocked(global.fetch).mock.calls[1];
+      expect(url).toBe(`https://test-api.devkeepnet.com${REPORT_DATA.ENDPOINTS.phishing}`);
+      expect((init as RequestInit).headers).toMatchObject({
+        Authorization: 'Bearer test-token',
+        'x-ir-company-id': 'company-1',
+      });
+      expect(JSON.parse((init as RequestInit).body as string)).toMatchObject({
+        startDate: '2026-01-01',
+        endDate: '2026-03-31',
+        pagination: { pageNumber: 2 },
+      });
+    });
+
+    it('reports failing sources and keeps the others', async () => {
+      vi.mocked(global.fetch).mockImplementation(async input =>
+        String(input).includes('smishing')
+          ? ({ ok: false, status: 500, text: async () => 'boom' } as Response)
+          : okResponse([], { totalNumberOfPages: 1 })
+      );
+
+      const { datasets, failedSources } = await fetchReportDatasets(request, ['phishing', 'smishing', 'training']);
+
+      expect(failedSources).toEqual(['smishing']);
+      expect(datasets.map(d => d.id)).toEqual(['phishing-summary', 'training-summary']);
+    });
+  });
+});
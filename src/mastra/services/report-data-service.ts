@@ -0,0 +1,376 @@
+/**
+ * Report Data Service — platform data connectors for the Report Agent
+ *
+ * Pulls a company's phishing, smishing and training campaign results for a date range
+ * from the platform API and shapes them into typed datasets (ReportDatasetSchema).
+ * kpi_dashboard / chart / table sections reference these datasets by id and their values
+ * are re-derived from the rows (tools/reporting/report-data-utils), so report numbers are
+ * the platform's numbers, not the model's.
+ *
+ * Datasets per source:
+ *   {source}-summary      single row: totals + rates over the whole period
+ *   {source}-by-campaign  most recent campaigns (REPORT_DATA.MAX_CAMPAIGN_ROWS)
+ *   {source}-by-month     one row per YYYY-MM, oldest first
+ *
+ * Used by: fetch-report-data-tool
+ */
+
+import { z } from 'zod';
+import { REPORT_DATA, type ReportDataSource } from '../constants';
+import type { ReportDataset, ReportDatasetColumn } from '../schemas/report-schema';
+import { getLogger } from '../utils/core/logger';
+import { withRetry } from '../utils/core/resilience-utils';
+
+const logger = getLogger('ReportDataService');
+
+export interface ReportDataRequest {
+  token: string;
+  companyId: string;
+  baseApiUrl: string;
+  /** YYYY-MM-DD, inclusive */
+  from: string;
+  /** YYYY-MM-DD, inclusive */
+  to: string;
+}
+
+// ============================================
+// Platform rows (tolerant — missing counters read as 0)
+// ============================================
+
+const count = z.coerce.number().int().nonnegative().catch(0);
+
+const SimulationResultRowSchema = z.object({
+  name: z.string().min(1).catch('Untitled campaign'),
+  startDate: z.string().catch(''),
+  targetCount: count,
+  openedCount: count,
+  clickedCount: count,
+  submittedCount: count,
+  reportedCount: count,
+});
+
+const TrainingResultRowSchema = z.object({
+  name: z.string().min(1).catch('Untitled training'),
+  startDate: z.string().catch(''),
+  enrolledCount: count,
+  completedCount: count,
+});
+
+type SimulationResultRow = z.infer<typeof SimulationResultRowSchema>;
+type TrainingResultRow = z.infer<typeof TrainingResultRowSchema>;
+
+// ============================================
+// Fetch
+// ============================================
+
+function buildSearchPayload(request: ReportDataRequest, pageNumber: number) {
+  return {
+    startDate: request.from,
+    endDate: request.to,
+    pagination: { pageNumber, pageSize: REPORT_DATA.PAGE_SIZE, orderBy: 'startDate', ascending: false },
+  };
+}
+
+/** Page through a campaign report search until a short page, the reported last page or MAX_PAGES */
+async function fetchResultRows(request: ReportDataRequest, source: ReportDataSource): Promise<unknown[]> {
+  const url = `${request.baseApiUrl}${REPORT_DATA.ENDPOINTS[source]}`;
+  const rows: unknown[] = [];
+
+  for (let pageNumber = 1; pageNumber <= REPORT_DATA.MAX_PAGES; pageNumber++) {
+    const response = await withRetry(
+      async () =>
+        fetch(url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            Authorization: `Bearer ${request.token}`,
+            'x-ir-company-id': request.companyId,
+          },
+          body: JSON.stringify(buildSearchPayload(request, pageNumber)),
+        }),
+      `report-data-${source}`
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text().catch(() => 'Unknown error');
+      throw new Error(`${source} results API error: ${response.status} - ${errorText}`);
+    }
+
+    const result = await response.json();
+    const data = result.data || result;
+    const page: unknown[] = Array.isArray(data.results) ? data.results : [];
+    rows.push(...page);
+
+    const totalPages = typeof data.totalNumberOfPages === 'number' ? data.totalNumberOfPages : undefined;
+    if (page.length < REPORT_DATA.PAGE_SIZE || (totalPages !== undefined && pageNumber >= totalPages)) break;
+  }
+
+  return rows;
+}
+
+// ============================================
+// Dataset builders
+// ============================================
+
+/** 12.345 → 12.3; 0 denominator → 0 */
+function rate(part: number, total: number): number {
+  return total > 0 ? Math.round((part / total) * 1000) / 10 : 0;
+}
+
+function monthOf(date: string): string | null {
+  return /^\d{4}-\d{2}/.test(date) ? date.slice(0, 7) : null;
+}
+
+function groupByMonth<T extends { startDate: string }>(rows: T[]): Array<[string, T[]]> {
+  const months = new Map<string, T[]>();
+  for (const row of rows) {
+    const month = monthOf(row.startDate);
+    if (!month) continue;
+    months.set(month, [...(months.get(month) ?? []), row]);
+  }
+  return [...months.entries()].sort(([a], [b]) => a.localeCompare(b));
+}
+
+function recentFirst<T extends { startDate: string }>(rows: T[]): T[] {
+  return [...rows].sort((a, b) => b.startDate.localeCompare(a.startDate)).slice(0, REPORT_DATA.MAX_CAMPAIGN_ROWS);
+}
+
+const SOURCE_LABELS: Record<ReportDataSource, string> = {
+  phishing: 'Phishing',
+  smishing: 'Smishing',
+  training: 'Training',
+};
+
+function simulationTotals(rows: SimulationResultRow[], withOpens: boolean) {
+  const targets = rows.reduce((sum, r) => sum + r.targetCount, 0);
+  const opened = rows.reduce((sum, r) => sum + r.openedCount, 0);
+  const clicked = rows.reduce((sum, r) => sum + r.clickedCount, 0);
+  const submitted = rows.reduce((sum, r) => sum + r.submittedCount, 0);
+  const reported = rows.reduce((sum, r) => sum + r.reportedCount, 0);
+  return {
+    campaigns: rows.length,
+    targets,
+    ...(withOpens && { opened, openRate: rate(opened, targets) }),
+    clicked,
+    clickRate: rate(clicked, targets),
+    submitted,
+    submitRate: rate(submitted, targets),
+    reported,
+    reportRate: rate(reported, targets),
+  };
+}
+
+function simulationDatasets(
+  source: 'phishing' | 'smishing',
+  rows: SimulationResultRow[],
+  period: ReportDataset['period']
+): ReportDataset[] {
+  // SMS has no open tracking — leave the columns out instead of reporting 0%
+  const withOpens = source === 'phishing';
+  const label = SOURCE_LABELS[source];
+  const openColumns: ReportDatasetColumn[] = withOpens
+    ? [
+        { key: 'opened', label: 'Opened', type: 'number' },
+        { key: 'openRate', label: 'Open rate', type: 'percent' },
+      ]
+    : [];
+  const rateColumns: ReportDatasetColumn[] = [
+    { key: 'clickRate', label: 'Click rate', type: 'percent' },
+    { key: 'submitRate', label: 'Data submission rate', type: 'percent' },
+    { key: 'reportRate', label: 'Report rate', type: 'percent' },
+  ];
+
+  const datasets: ReportDataset[] = [
+    {
+      id: `${source}-summary`,
+      source,
+      title: `${label} results summary`,
+      period,
+      columns: [
+        { key: 'campaigns', label: 'Campaigns', type: 'number' },
+        { key: 'targets', label: 'Targeted users', type: 'number' },
+        ...openColumns,
+        { key: 'clicked', label: 'Clicked', type: 'number' },
+        { key: 'submitted', label: 'Submitted data', type: 'number' },
+        { key: 'reported', label: 'Reported', type: 'number' },
+        ...rateColumns,
+      ],
+      rows: [simulationTotals(rows, withOpens)],
+    },
+  ];
+
+  if (rows.length > 0) {
+    datasets.push({
+      id: `${source}-by-campaign`,
+      source,
+      title: `${label} results by campaign (most recent ${REPORT_DATA.MAX_CAMPAIGN_ROWS})`,
+      period,
+      columns: [
+        { key: 'campaign', label: 'Campaign', type: 'text' },
+        { key: 'startDate', label: 'Start date', type: 'text' },
+        { key: 'targets', label: 'Targeted users', type: 'number' },
+        ...(withOpens ? [openColumns[1]] : []),
+        ...rateColumns,
+      ],
+      rows: recentFirst(rows).map(r => ({
+        campaign: r.name,
+        startDate: r.startDate.slice(0, 10),
+        targets: r.targetCount,
+        ...(withOpens && { openRate: rate(r.openedCount, r.targetCount) }),
+        clickRate: rate(r.clickedCount, r.targetCount),
+        submitRate: rate(r.submittedCount, r.targetCount),
+        reportRate: rate(r.reportedCount, r.targetCount),
+      })),
+    });
+  }
+
+  const months = groupByMonth(rows);
+  if (months.length > 0) {
+    datasets.push({
+      id: `${source}-by-month`,
+      source,
+      title: `${label} results by month`,
+      period,
+      columns: [
+        { key: 'month', label: 'Month', type: 'text' },
+        { key: 'campaigns', label: 'Campaigns', type: 'number' },
+        { key: 'targets', label: 'Targeted users', type: 'number' },
+        ...rateColumns,
+      ],
+      rows: months.map(([month, monthRows]) => {
+        const totals = simulationTotals(monthRows, false);
+        return {
+          month,
+          campaigns: totals.campaigns,
+          targets: totals.targets,
+          clickRate: totals.clickRate,
+          submitRate: totals.submitRate,
+          reportRate: totals.reportRate,
+        };
+      }),
+    });
+  }
+
+  return datasets;
+}
+
+function trainingTotals(rows: TrainingResultRow[]) {
+  const enrolled = rows.reduce((sum, r) => sum + r.enrolledCount, 0);
+  const completed = rows.reduce((sum, r) => sum + r.completedCount, 0);
+  return { trainings: rows.length, enrolled, completed, completionRate: rate(completed, enrolled) };
+}
+
+function trainingDatasets(rows: TrainingResultRow[], period: ReportDataset['period']): ReportDataset[] {
+  const datasets: ReportDataset[] = [
+    {
+      id: 'training-summary',
+      source: 'training',
+      title: 'Training results summary',
+      period,
+      columns: [
+        { key: 'trainings', label: 'Trainings', type: 'number' },
+        { key: 'enrolled', label: 'Enrolled users', type: 'number' },
+        { key: 'completed', label: 'Completed', type: 'number' },
+        { key: 'completionRate', label: 'Completion rate', type: 'percent' },
+      ],
+      rows: [trainingTotals(rows)],
+    },
+  ];
+
+  if (rows.length > 0) {
+    datasets.push({
+      id: 'training-by-campaign',
+      source: 'training',
+      title: `Training results by campaign (most recent ${REPORT_DATA.MAX_CAMPAIGN_ROWS})`,
+      period,
+      columns: [
+        { key: 'campaign', label: 'Training', type: 'text' },
+        { key: 'startDate', label: 'Start date', type: 'text' },
+        { key: 'enrolled', label: 'Enrolled users', type: 'number' },
+        { key: 'completionRate', label: 'Completion rate', type: 'percent' },
+      ],
+      rows: recentFirst(rows).map(r => ({
+        campaign: r.name,
+        startDate: r.startDate.slice(0, 10),
+        enrolled: r.enrolledCount,
+        completionRate: rate(r.completedCount, r.enrolledCount),
+      })),
+    });
+  }
+
+  const months = groupByMonth(rows);
+  if (months.length > 0) {
+    datasets.push({
+      id: 'training-by-month',
+      source: 'training',
+      title: 'Training results by month',
+      period,
+      columns: [
+        { key: 'month', label: 'Month', type: 'text' },
+        { key: 'enrolled', label: 'Enrolled users', type: 'number' },
+        { key: 'completed', label: 'Completed', type: 'number' },
+        { key: 'completionRate', label: 'Completion rate', type: 'percent' },
+      ],
+      rows: months.map(([month, monthRows]) => {
+        const { enrolled, completed, completionRate } = trainingTotals(monthRows);
+        return { month, enrolled, completed, completionRate };
+      }),
+    });
+  }
+
+  return datasets;
+}
+
+/** Platform rows → datasets. Exported for tests; fetchReportDatasets is the entry point. */
+export function buildSourceDatasets(
+  source: ReportDataSource,
+  rawRows: unknown[],
+  period: ReportDataset['period']
+): ReportDataset[] {
+  if (source === 'training') {
+    return trainingDatasets(
+      rawRows.map(row => TrainingResultRowSchema.parse(row ?? {})),
+      period
+    );
+  }
+  return simulationDatasets(
+    source,
+    rawRows.map(row => SimulationResultRowSchema.parse(row ?? {})),
+    period
+  );
+}
+
+export interface ReportDataResult {
+  datasets: ReportDataset[];
+  failedSources: ReportDataSource[];
+}
+
+/**
+ * Fetch every requested source in parallel. A failing source is reported in failedSources
+ * so the report can still be built from the others.
+ */
+export async function fetchReportDatasets(
+  request: ReportDataRequest,
+  sources: readonly ReportDataSource[]
+): Promise<ReportDataResult> {
+  const period = { from: request.from, to: request.to };
+  const settled = await Promise.allSettled(sources.map(source => fetchResultRows(request, source)));
+
+  const datasets: ReportDataset[] = [];
+  const failedSources: ReportDataSource[] = [];
+  settled.forEach((result, i) => {
+    const source = sources[i];
+    if (result.status === 'fulfilled') {
+      datasets.push(...buildSourceDatasets(source, result.value, period));
+      logger.info('report_data_source_fetched', { source, campaigns: result.value.length });
+    } else {
+      failedSources.push(source);
+      logger.warn('report_data_source_failed', {
+        source,
+        error: result.reason instanceof Error ? result.reason.message : String(result.reason),
+      });
+    }
+  });
+
+  return { datasets, failedSources };
+}
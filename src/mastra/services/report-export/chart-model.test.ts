@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { buildChartModel, formatTick, niceScale, parseColor, valueRange } from './chart-model';
+
+describe('report export chart model', () => {
+  describe('parseColor', () => {
+    it('resolves hex, rgb(a) and named colors to RRGGBB', () => {
+      expect(parseColor('#36a2eb')).toBe('36A2EB');
+      expect(parseColor('#f00')).toBe('FF0000');
+      expect(parseColor('rgb(255, 99, 132)')).toBe('FF6384');
+      expect(parseColor('navy')).toBe('000080');
+    });
+
+    it('blends translucent colors over white', () => {
+      expect(parseColor('rgba(0, 0, 0, 0.5)')).toBe('808080');
+      expect(parseColor('#00000080')).toBe('7F7F7F');
+    });
+
+    it('returns null for unsupported values', () => {
+      expect(parseColor('hsl(0, 100%, 50%)')).toBeNull();
+      expect(parseColor(undefined)).toBeNull();
+    });
+  });
+
+  describe('buildChartModel', () => {
+    it('maps a grouped bar chart with default palette colors', () => {
+      const model = buildChartModel({
+        type: 'bar',
+        data: {
+          labels: ['HR', 'IT'],
+          datasets: [
+            { label: 'Clicks', data: [5, 2] },
+            { label: 'Reports', data: [3], backgroundColor: 'rgba(255,99,132,1)' },
+          ],
+        },
+        options: { indexAxis: 'y', scales: { x: { stacked: true } } },
+      });
+
+      expect(model).toMatchObject({ kind: 'bar', horizontal: true, stacked: true, varyColors: false });
+      expect(model.series[0]).toMatchObject({ name: 'Clicks', values: [5, 2], color: '36A2EB' });
+      // Missing points become 0 so every series spans all categories
+      expect(model.series[1]).toMatchObject({ values: [3, 0], color: 'FF6384' });
+    });
+
+    it('uses the first dataset with per-slice colors for doughnuts', () => {
+      const model = buildChartModel({
+        type: 'doughnut',
+        data: {
+          labels: ['A', 'B', 'C'],
+          datasets: [
+            { label: 'Share', data: [1, 2, 3], backgroundColor: ['#111111', '#222222'] },
+            { label: 'Ignored', data: [4, 5, 6] },
+          ],
+        },
+      });
+
+      expect(model.series).toHaveLength(1);
+      expect(model.varyColors).toBe(true);
+      expect(model.series[0].pointColors).toEqual(['111111', '222222', '111111']);
+    });
+
+    it('draws polarArea as a bar chart and lines with their border color', () => {
+      const polar = buildChartModel({
+        type: 'polarArea',
+        data: { labels: ['A'], datasets: [{ label: 'S', data: [1] }] },
+      });
+      const line = buildChartModel({
+        type: 'line',
+        data: {
+          labels: ['A'],
+          datasets: [{ label: 'S', data: [1], borderColor: '#00ff00', backgroundColor: '#ff0000' }],
+        },
+      });
+
+      expect(polar).toMatchObject({ kind: 'bar', varyColors: true });
+      expect(line.series[0].color).toBe('00FF00');
+    });
+
+    it('numbers categories when labels are missing', () => {
+      const model = buildChartModel({
+        type: 'scatter',
+        data: { labels: [], datasets: [{ label: 'S', data: [4, 5, 6] }] },
+      });
+      expect(model.categories).toEqual(['1', '2', '3']);
+    });
+  });
+
+  describe('axis scaling', () => {
+    it('sums stacked values per category', () => {
+      const model = buildChartModel({
+        type: 'bar',
+        data: {
+          labels: ['A', 'B'],
+          datasets: [
+            { label: 'X', data: [5, 1] },
+            { label: 'Y', data: [7, -2] },
+          ],
+        },
+        options: { scales: { y: { stacked: true } } },
+      });
+      expect(valueRange(model)).toEqual({ min: -2, max: 12 });
+    });
+
+    it('picks 1/2/5 steps that include zero', () => {
+      expect(niceScale(3, 87)).toEqual({ min: 0, max: 100, step: 20, ticks: [0, 20, 40, 60, 80, 100] });
+      expect(niceScale(-4, 9).ticks).toEqual([-5, 0, 5, 10]);
+      expect(niceScale(0, 0)).toEqual({ min: 0, max: 1, step: 1, ticks: [0, 1] });
+    });
+
+    it('abbreviates large tick labels', () => {
+      expect(formatTick(25_000)).toBe('25k');
+      expect(formatTick(1_500_000)).toBe('1.5M');
+      expect(formatTick(0.25)).toBe('0.25');
+    });
+  });
+});
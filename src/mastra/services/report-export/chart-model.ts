@@ -0,0 +1,200 @@
+/**
+ * Chart.js config → renderer-neutral chart model.
+ *
+ * The frontend draws chart sections with Chart.js; export renderers cannot. This module
+ * resolves what they all need from the Chart.js config: chart kind, orientation,
+ * stacking, categories, series values and solid colors (Chart.js defaults applied,
+ * rgba() blended over white). The PDF renderer draws the model as vector graphics;
+ * DOCX/PPTX embed it as native Office charts (office-chart.ts).
+ *
+ * polarArea has no Office equivalent and is drawn as a bar chart with one color per category.
+ */
+
+import { REPORT_EXPORT } from '../../constants';
+import type { ChartSection } from '../../schemas/report-schema';
+
+export type ChartJsConfig = ChartSection['chartConfig'];
+export type ChartKind = 'bar' | 'line' | 'pie' | 'doughnut' | 'radar' | 'scatter';
+
+export interface ChartSeries {
+  name: string;
+  values: number[];
+  /** Series color as RRGGBB (no '#') */
+  color: string;
+  /** One color per category (pie/doughnut slices, per-bar colors) */
+  pointColors: string[];
+}
+
+export interface ChartModel {
+  kind: ChartKind;
+  /** Bars run left→right (Chart.js options.indexAxis === 'y') */
+  horizontal: boolean;
+  stacked: boolean;
+  /** Each category gets its own color (single-series bar with a color array, pie, doughnut, polarArea) */
+  varyColors: boolean;
+  categories: string[];
+  series: ChartSeries[];
+}
+
+export interface AxisScale {
+  min: number;
+  max: number;
+  step: number;
+  ticks: number[];
+}
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '000000',
+  white: 'FFFFFF',
+  red: 'FF0000',
+  green: '008000',
+  blue: '0000FF',
+  orange: 'FFA500',
+  yellow: 'FFFF00',
+  purple: '800080',
+  gray: '808080',
+  grey: '808080',
+  teal: '008080',
+  navy: '000080',
+};
+
+const toHex = (value: number) =>
+  Math.max(0, Math.min(255, Math.round(value)))
+    .toString(16)
+    .padStart(2, '0')
+    .toUpperCase();
+
+/** Blend a channel with white at the given opacity — what a translucent Chart.js fill looks like on a white page */
+const overWhite = (channel: number, alpha: number) => channel * alpha + 255 * (1 - alpha);
+
+/** CSS color → RRGGBB, or null when it cannot be resolved (hsl(), gradients, unknown names) */
+export function parseColor(value: string | undefined): string | null {
+  if (!value) return null;
+  const color = value.trim().toLowerCase();
+
+  const hex = /^#([0-9a-f]{3,8})$/.exec(color);
+  if (hex) {
+    const digits = hex[1];
+    if (digits.length === 3 || digits.length === 4) {
+      const [r, g, b, a] = [...digits].map(d => parseInt(d + d, 16));
+      const alpha = digits.length === 4 ? a / 255 : 1;
+      return toHex(overWhite(r, alpha)) + toHex(overWhite(g, alpha)) + toHex(overWhite(b, alpha));
+    }
+    if (digits.length === 6 || digits.length === 8) {
+      const [r, g, b] = [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16));
+      const alpha = digits.length === 8 ? parseInt(digits.slice(6, 8), 16) / 255 : 1;
+      return toHex(overWhite(r, alpha)) + toHex(overWhite(g, alpha)) + toHex(overWhite(b, alpha));
+    }
+    return null;
+  }
+
+  const rgb = /^rgba?\(\s*([\d.]+)[\s,]+([\d.]+)[\s,]+([\d.]+)(?:[\s,/]+([\d.]+%?))?\s*\)$/.exec(color);
+  if (rgb) {
+    const alphaText = rgb[4];
+    const alpha =
+      alphaText === undefined ? 1 : alphaText.endsWith('%') ? parseFloat(alphaText) / 100 : Number(alphaText);
+    const a = Number.isFinite(alpha) ? Math.max(0, Math.min(1, alpha)) : 1;
+    return [rgb[1], rgb[2], rgb[3]].map(channel => toHex(overWhite(Number(channel), a))).join('');
+  }
+
+  return NAMED_COLORS[color] ?? null;
+}
+
+const paletteColor = (index: number) =>
+  REPORT_EXPORT.CHART_PALETTE[index % REPORT_EXPORT.CHART_PALETTE.length].slice(1).toUpperCase();
+
+function colorList(value: string | string[] | undefined): (string | null)[] {
+  if (value === undefined) return [];
+  return (Array.isArray(value) ? value : [value]).map(parseColor);
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isStacked(options: Record<string, unknown> | undefined): boolean {
+  const scales = isRecord(options?.scales) ? options.scales : {};
+  return Object.values(scales).some(scale => isRecord(scale) && scale.stacked === true);
+}
+
+export function buildChartModel(config: ChartJsConfig): ChartModel {
+  const sourceType = config.type;
+  const kind: ChartKind = sourceType === 'polarArea' ? 'bar' : sourceType;
+  const circular = kind === 'pie' || kind === 'doughnut';
+  const datasets = circular ? config.data.datasets.slice(0, 1) : config.data.datasets;
+
+  const longest = Math.max(0, ...datasets.map(ds => ds.data.length));
+  const categories =
+    config.data.labels.length > 0 ? [...config.data.labels] : Array.from({ length: longest }, (_, i) => String(i + 1));
+
+  const perCategoryColors = datasets.length === 1 && Array.isArray(datasets[0].backgroundColor);
+  const varyColors = circular || sourceType === 'polarArea' || perCategoryColors;
+
+  const series = datasets.map((ds, seriesIndex) => {
+    // Lines are drawn with borderColor; filled shapes with backgroundColor
+    const primary = kind === 'line' || kind === 'radar' ? ds.borderColor : ds.backgroundColor;
+    const fallback = kind === 'line' || kind === 'radar' ? ds.backgroundColor : ds.borderColor;
+    const colors = colorList(primary);
+    const color = colors[0] ?? colorList(fallback)[0] ?? paletteColor(seriesIndex);
+
+    return {
+      name: ds.label,
+      values: categories.map((_, i) => {
+        const value = ds.data[i];
+        return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+      }),
+      color,
+      pointColors: categories.map((_, i) =>
+        varyColors ? ((colors.length > 1 ? colors[i % colors.length] : null) ?? paletteColor(i)) : color
+      ),
+    };
+  });
+
+  return {
+    kind,
+    horizontal: kind === 'bar' && config.options?.indexAxis === 'y',
+    stacked: (kind === 'bar' || kind === 'line') && isStacked(config.options),
+    varyColors,
+    categories,
+    series,
+  };
+}
+
+/** Value range covered by the chart: stacked bars sum per category, everything else spans raw values */
+export function valueRange(model: ChartModel): { min: number; max: number } {
+  if (model.series.length === 0) return { min: 0, max: 0 };
+  if (model.stacked) {
+    const positive = model.categories.map((_, i) => model.series.reduce((sum, s) => sum + Math.max(0, s.values[i]), 0));
+    const negative = model.categories.map((_, i) => model.series.reduce((sum, s) => sum + Math.min(0, s.values[i]), 0));
+    return { min: Math.min(0, ...negative), max: Math.max(0, ...positive) };
+  }
+  const values = model.series.flatMap(s => s.values);
+  return { min: Math.min(...values), max: Math.max(...values) };
+}
+
+/** "Nice" axis bounds and ticks (1/2/5 × 10^n steps), always including zero */
+export function niceScale(min: number, max: number, maxTicks = 5): AxisScale {
+  const low = Math.min(0, min);
+  const high = Math.max(0, max);
+  if (low === high) return { min: 0, max: 1, step: 1, ticks: [0, 1] };
+
+  const rough = (high - low) / maxTicks;
+  const magnitude = 10 ** Math.floor(Math.log10(rough));
+  const step = ([1, 2, 5, 10].find(m => m * magnitude >= rough) ?? 10) * magnitude;
+  const scaleMin = Math.floor(low / step) * step;
+  const scaleMax = Math.ceil(high / step) * step;
+
+  const ticks: number[] = [];
+  for (let tick = scaleMin; tick <= scaleMax + step / 2; tick += step) {
+    ticks.push(Number(tick.toFixed(10)));
+  }
+  return { min: scaleMin, max: scaleMax, step, ticks };
+}
+
+/** Axis label: 1200 → "1.2k", 0.25 → "0.25" */
+export function formatTick(value: number): string {
+  const abs = Math.abs(value);
+  if (abs >= 1_000_000) return `${Number((value / 1_000_000).toFixed(1))}M`;
+  if (abs >= 10_000) return `${Number((value / 1_000).toFixed(1))}k`;
+  return String(Number(value.toFixed(2)));
+}
@@ -0,0 +1,453 @@
+/**
+ * Report → DOCX (WordprocessingML)
+ *
+ * One A4 document: cover page, then every section under a Heading 1 (so Word's
+ * navigation pane and TOC pick them up). Markdown becomes real Word paragraphs and
+ * lists, tables keep their header row on every page, and charts are native Word
+ * charts built from the Chart.js config (office-chart.ts).
+ */
+
+import type {
+  ChartSection,
+  ComparisonSection,
+  CoverSection,
+  ExecutiveSummarySection,
+  KpiDashboardSection,
+  RecommendationsSection,
+  Report,
+  ReportSection,
+  TableSection,
+  TimelineSection,
+} from '../../schemas/report-schema';
+import { buildChartModel, type ChartModel } from './chart-model';
+import { parseMarkdownBlocks } from './markdown';
+import { buildChartXml } from './office-chart';
+import {
+  CHART_CONTENT_TYPE,
+  REL_TYPES,
+  XML_DECLARATION,
+  contentTypesXml,
+  corePropertiesXml,
+  createZip,
+  escapeXml,
+  relationshipsXml,
+} from './ooxml';
+import {
+  MUTED_COLOR,
+  PANEL_COLOR,
+  PRIORITY_COLORS,
+  RULE_COLOR,
+  TIMELINE_STATUS_COLORS,
+  TREND_STYLES,
+  humanizeEnum,
+  resolvePrimaryColor,
+} from './theme';
+import type { TextBlock, TextRun } from './types';
+
+const W_NS = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+
+/** A4 with 2 cm margins, in twentieths of a point */
+const PAGE_WIDTH_TWIPS = 11906;
+const PAGE_HEIGHT_TWIPS = 16838;
+const MARGIN_TWIPS = 1134;
+const CONTENT_WIDTH_TWIPS = PAGE_WIDTH_TWIPS - MARGIN_TWIPS * 2;
+const EMU_PER_TWIP = 635;
+const CHART_HEIGHT_EMU = 3_400_000;
+
+const BULLET_NUM_ID = 1;
+
+interface RunStyle {
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+  /** Half-points */
+  size?: number;
+}
+
+interface ParagraphOptions {
+  style?: string;
+  numId?: number;
+  keepNext?: boolean;
+  spacingAfter?: number;
+  indent?: number;
+  /** Left accent bar + shading (key findings) */
+  accent?: string;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const props =
+    (style.bold ? '<w:b/>' : '') +
+    (style.italic ? '<w:i/>' : '') +
+    (style.color ? `<w:color w:val="${style.color}"/>` : '') +
+    (style.size ? `<w:sz w:val="${style.size}"/><w:szCs w:val="${style.size}"/>` : '');
+  return `<w:r>${props ? `<w:rPr>${props}</w:rPr>` : ''}<w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r>`;
+}
+
+function runsXml(runs: TextRun[], base: RunStyle = {}): string {
+  return runs.map(r => run(r.text, { ...base, bold: base.bold || r.bold, italic: base.italic || r.italic })).join('');
+}
+
+function paragraph(content: string, options: ParagraphOptions = {}): string {
+  const props =
+    (options.style ? `<w:pStyle w:val="${options.style}"/>` : '') +
+    (options.keepNext ? '<w:keepNext/>' : '') +
+    (options.numId ? `<w:numPr><w:ilvl w:val="0"/><w:numId w:val="${options.numId}"/></w:numPr>` : '') +
+    (options.accent
+      ? `<w:pBdr><w:left w:val="single" w:sz="24" w:space="8" w:color="${options.accent}"/></w:pBdr>` +
+        `<w:shd w:val="clear" w:color="auto" w:fill="${PANEL_COLOR}"/>`
+      : '') +
+    (options.spacingAfter !== undefined ? `<w:spacing w:after="${options.spacingAfter}"/>` : '') +
+    (options.indent ? `<w:ind w:left="${options.indent}"/>` : '');
+  return `<w:p>${props ? `<w:pPr>${props}</w:pPr>` : ''}${content}</w:p>`;
+}
+
+function cell(content: string, width: number, fill?: string): string {
+  const shading = fill ? `<w:shd w:val="clear" w:color="auto" w:fill="${fill}"/>` : '';
+  // Every cell needs at least one paragraph
+  return `<w:tc><w:tcPr><w:tcW w:w="${Math.round(width)}" w:type="dxa"/>${shading}</w:tcPr>${content || '<w:p/>'}</w:tc>`;
+}
+
+function table(rows: string[], widths: number[], borders = true): string {
+  const border = (side: string) => `<w:${side} w:val="single" w:sz="4" w:space="0" w:color="${RULE_COLOR}"/>`;
+  const borderXml = borders
+    ? `<w:tblBorders>${['top', 'left', 'bottom', 'right', 'insideH', 'insideV'].map(border).join('')}</w:tblBorders>`
+    : '';
+  return (
+    `<w:tbl><w:tblPr><w:tblW w:w="${CONTENT_WIDTH_TWIPS}" w:type="dxa"/>${borderXml}<w:tblLayout w:type="fixed"/>` +
+    '<w:tblCellMar><w:top w:w="60" w:type="dxa"/><w:left w:w="100" w:type="dxa"/><w:bottom w:w="60" w:type="dxa"/>' +
+    '<w:right w:w="100" w:type="dxa"/></w:tblCellMar></w:tblPr>' +
+    `<w:tblGrid>${widths.map(w => `<w:gridCol w:w="${Math.round(w)}"/>`).join('')}</w:tblGrid>` +
+    rows.join('') +
+    '</w:tbl>' +
+    // Word merges adjacent tables; an empty paragraph keeps them apart
+    paragraph('', { spacingAfter: 120 })
+  );
+}
+
+function row(cells: string[], header = false): string {
+  return `<w:tr>${header ? '<w:trPr><w:tblHeader/></w:trPr>' : '<w:trPr><w:cantSplit/></w:trPr>'}${cells.join('')}</w:tr>`;
+}
+
+class DocxBuilder {
+  readonly body: string[] = [];
+  readonly charts: ChartModel[] = [];
+  /** Numbered lists restart at 1, so each one gets its own w:num */
+  numberedLists = 0;
+
+  constructor(readonly primary: string) {}
+
+  markdown(blocks: TextBlock[]): void {
+    let listNumId: number | null = null;
+    for (const block of blocks) {
+      if (block.kind !== 'numbered') listNumId = null;
+      if (block.kind === 'heading') {
+        this.body.push(paragraph(runsXml(block.runs), { style: block.level <= 2 ? 'Heading2' : 'Heading3' }));
+      } else if (block.kind === 'paragraph') {
+        this.body.push(paragraph(runsXml(block.runs)));
+      } else if (block.kind === 'bullet') {
+        this.body.push(paragraph(runsXml(block.runs), { numId: BULLET_NUM_ID, spacingAfter: 60 }));
+      } else {
+        if (listNumId === null) listNumId = BULLET_NUM_ID + ++this.numberedLists;
+        this.body.push(paragraph(runsXml(block.runs), { numId: listNumId, spacingAfter: 60 }));
+      }
+    }
+  }
+
+  chart(model: ChartModel): void {
+    this.charts.push(model);
+    const index = this.charts.length;
+    this.body.push(
+      '<w:p><w:r><w:drawing><wp:inline distT="0" distB="0" distL="0" distR="0">' +
+        `<wp:extent cx="${CONTENT_WIDTH_TWIPS * EMU_PER_TWIP}" cy="${CHART_HEIGHT_EMU}"/>` +
+        `<wp:effectExtent l="0" t="0" r="0" b="0"/><wp:docPr id="${index}" name="Chart ${index}"/><wp:cNvGraphicFramePr/>` +
+        '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">' +
+        `<c:chart r:id="rIdChart${index}"/></a:graphicData></a:graphic></wp:inline></w:drawing></w:r></w:p>`
+    );
+  }
+}
+
+// ─── Sections ───
+
+function renderCover(builder: DocxBuilder, section: CoverSection, report: Report): void {
+  builder.body.push(paragraph(run(section.title), { style: 'Title' }));
+  const subtitle = section.subtitle ?? report.meta.subtitle;
+  if (subtitle) builder.body.push(paragraph(run(subtitle), { style: 'Subtitle' }));
+  builder.body.push(paragraph(run(section.date, { size: 24 }), { spacingAfter: 60 }));
+  for (const detail of [report.meta.branding?.companyName, report.meta.author]) {
+    if (detail) builder.body.push(paragraph(run(detail, { color: MUTED_COLOR, size: 22 }), { spacingAfter: 60 }));
+  }
+  builder.body.push('<w:p><w:r><w:br w:type="page"/></w:r></w:p>');
+}
+
+function renderExecutiveSummary(builder: DocxBuilder, section: ExecutiveSummarySection): void {
+  builder.markdown(parseMarkdownBlocks(section.content));
+  for (const finding of section.keyFindings ?? []) {
+    builder.body.push(paragraph(run(finding, { bold: true }), { accent: builder.primary, spacingAfter: 0 }));
+  }
+  if (section.keyFindings?.length) builder.body.push(paragraph(''));
+}
+
+function renderKpis(builder: DocxBuilder, section: KpiDashboardSection): void {
+  const columns = Math.min(3, section.kpis.length);
+  const width = CONTENT_WIDTH_TWIPS / columns;
+  const rows: string[] = [];
+  for (let start = 0; start < section.kpis.length; start += columns) {
+    const cells = section.kpis.slice(start, start + columns).map(kpi => {
+      const trend = TREND_STYLES[kpi.trend];
+      return cell(
+        paragraph(run(kpi.value, { bold: true, color: builder.primary, size: 40 }), { spacingAfter: 0 }) +
+          paragraph(run(kpi.label, { color: MUTED_COLOR, size: 18 }), { spacingAfter: 40 }) +
+          paragraph(
+            run(kpi.delta ? `${trend.symbol} ${kpi.delta}` : trend.symbol, {
+              bold: true,
+              color: trend.color,
+              size: 18,
+            }),
+            {
+              spacingAfter: 0,
+            }
+          ),
+        width,
+        PANEL_COLOR
+      );
+    });
+    // Pad the last row so the grid stays rectangular
+    while (cells.length < columns) cells.push(cell('', width));
+    rows.push(row(cells));
+  }
+  builder.body.push(table(rows, Array(columns).fill(width)));
+}
+
+function renderChart(builder: DocxBuilder, section: ChartSection): void {
+  if (section.description) {
+    builder.body.push(paragraph(run(section.description, { color: MUTED_COLOR }), { keepNext: true }));
+  }
+  builder.chart(buildChartModel(section.chartConfig));
+}
+
+function renderTable(builder: DocxBuilder, section: TableSection): void {
+  const lengths = section.columns.map((column, i) =>
+    Math.min(60, Math.max(column.length, ...section.rows.map(r => (r[i] ?? '').length), 4))
+  );
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const widths = lengths.map(length => (length / total) * CONTENT_WIDTH_TWIPS);
+
+  const header = row(
+    section.columns.map((column, i) =>
+      cell(
+        paragraph(run(column, { bold: true, color: 'FFFFFF', size: 18 }), { spacingAfter: 0 }),
+        widths[i],
+        builder.primary
+      )
+    ),
+    true
+  );
+  const body = section.rows.map((cells, r) =>
+    row(
+      cells.map((value, i) =>
+        cell(
+          paragraph(run(value, { bold: i === section.highlightColumn, size: 18 }), { spacingAfter: 0 }),
+          widths[i],
+          r % 2 === 1 ? PANEL_COLOR : undefined
+        )
+      )
+    )
+  );
+  builder.body.push(table([header, ...body], widths));
+}
+
+function renderRecommendations(builder: DocxBuilder, section: RecommendationsSection): void {
+  for (const item of section.items) {
+    builder.body.push(
+      paragraph(
+        run(item.priority.toUpperCase(), { bold: true, color: PRIORITY_COLORS[item.priority], size: 16 }) +
+          run('   ') +
+          run(item.text, { bold: true }),
+        { keepNext: !!item.detail, spacingAfter: item.detail ? 40 : 160 }
+      )
+    );
+    if (item.detail) builder.body.push(paragraph(run(item.detail, { color: MUTED_COLOR }), { indent: 360 }));
+  }
+}
+
+function renderTimeline(builder: DocxBuilder, section: TimelineSection): void {
+  const widths = [CONTENT_WIDTH_TWIPS * 0.25, CONTENT_WIDTH_TWIPS * 0.75];
+  const rows = section.items.map(item => {
+    const color = item.status ? TIMELINE_STATUS_COLORS[item.status] : builder.primary;
+    const when =
+      paragraph(run(item.date, { bold: true, color }), { spacingAfter: 0 }) +
+      (item.status ? paragraph(run(humanizeEnum(item.status), { color, size: 16 }), { spacingAfter: 0 }) : '');
+    const what =
+      paragraph(run(item.event, { bold: true }), { spacingAfter: 0 }) +
+      (item.detail ? paragraph(run(item.detail, { color: MUTED_COLOR, size: 18 }), { spacingAfter: 0 }) : '');
+    return row([cell(when, widths[0]), cell(what, widths[1])]);
+  });
+  builder.body.push(table(rows, widths));
+}
+
+function renderComparison(builder: DocxBuilder, section: ComparisonSection): void {
+  const width = CONTENT_WIDTH_TWIPS / 2;
+  const sides = [section.left, section.right];
+  const header = row(
+    sides.map(side =>
+      cell(paragraph(run(side.label, { bold: true, color: 'FFFFFF' }), { spacingAfter: 0 }), width, builder.primary)
+    ),
+    true
+  );
+  const points = row(
+    sides.map(side =>
+      cell(side.points.map(point => paragraph(run(point), { numId: BULLET_NUM_ID, spacingAfter: 60 })).join(''), width)
+    )
+  );
+  builder.body.push(table([header, points], [width, width]));
+}
+
+function renderSection(builder: DocxBuilder, section: ReportSection, report: Report): void {
+  if (section.type === 'cover') {
+    renderCover(builder, section, report);
+    return;
+  }
+
+  builder.body.push(paragraph(run(section.title), { style: 'Heading1' }));
+  switch (section.type) {
+    case 'executive_summary':
+      return renderExecutiveSummary(builder, section);
+    case 'kpi_dashboard':
+      return renderKpis(builder, section);
+    case 'chart':
+      return renderChart(builder, section);
+    case 'table':
+      return renderTable(builder, section);
+    case 'content':
+      return builder.markdown(parseMarkdownBlocks(section.content));
+    case 'recommendations':
+      return renderRecommendations(builder, section);
+    case 'timeline':
+      return renderTimeline(builder, section);
+    case 'comparison':
+      return renderComparison(builder, section);
+  }
+}
+
+// ─── Package parts ───
+
+function stylesXml(primary: string, language: string): string {
+  const heading = (id: string, name: string, level: number, size: number, spacing: string, border = false) =>
+    `<w:style w:type="paragraph" w:styleId="${id}"><w:name w:val="${name}"/><w:basedOn w:val="Normal"/>` +
+    '<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:keepNext/>' +
+    (border ? `<w:pBdr><w:bottom w:val="single" w:sz="8" w:space="4" w:color="${primary}"/></w:pBdr>` : '') +
+    `${spacing}<w:outlineLvl w:val="${level}"/></w:pPr>` +
+    `<w:rPr><w:b/><w:color w:val="${primary}"/><w:sz w:val="${size}"/><w:szCs w:val="${size}"/></w:rPr></w:style>`;
+
+  return (
+    `${XML_DECLARATION}<w:styles xmlns:w="${W_NS}">` +
+    '<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri" w:eastAsia="Calibri" w:cs="Calibri"/>' +
+    `<w:color w:val="222222"/><w:sz w:val="21"/><w:szCs w:val="21"/><w:lang w:val="${escapeXml(language)}"/></w:rPr></w:rPrDefault>` +
+    '<w:pPrDefault><w:pPr><w:spacing w:after="120" w:line="276" w:lineRule="auto"/></w:pPr></w:pPrDefault></w:docDefaults>' +
+    '<w:style w:type="paragraph" w:default="1" w:styleId="Normal"><w:name w:val="Normal"/><w:qFormat/></w:style>' +
+    '<w:style w:type="paragraph" w:styleId="Title"><w:name w:val="Title"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:before="2400" w:after="240"/></w:pPr>' +
+    `<w:rPr><w:b/><w:color w:val="${primary}"/><w:sz w:val="56"/><w:szCs w:val="56"/></w:rPr></w:style>` +
+    '<w:style w:type="paragraph" w:styleId="Subtitle"><w:name w:val="Subtitle"/><w:basedOn w:val="Normal"/>' +
+    '<w:next w:val="Normal"/><w:qFormat/><w:pPr><w:spacing w:after="720"/></w:pPr>' +
+    `<w:rPr><w:color w:val="${MUTED_COLOR}"/><w:sz w:val="32"/><w:szCs w:val="32"/></w:rPr></w:style>` +
+    heading('Heading1', 'heading 1', 0, 32, '<w:spacing w:before="360" w:after="160"/>', true) +
+    heading('Heading2', 'heading 2', 1, 26, '<w:spacing w:before="240" w:after="80"/>') +
+    heading('Heading3', 'heading 3', 2, 22, '<w:spacing w:before="160" w:after="60"/>') +
+    '</w:styles>'
+  );
+}
+
+function numberingXml(numberedLists: number): string {
+  const level = (format: string, text: string, font = '') =>
+    `<w:lvl w:ilvl="0"><w:start w:val="1"/><w:numFmt w:val="${format}"/><w:lvlText w:val="${text}"/>` +
+    `<w:lvlJc w:val="left"/><w:pPr><w:ind w:left="360" w:hanging="360"/></w:pPr>${font}</w:lvl>`;
+  const numbered = Array.from(
+    { length: numberedLists },
+    (_, i) =>
+      `<w:num w:numId="${BULLET_NUM_ID + i + 1}"><w:abstractNumId w:val="1"/>` +
+      '<w:lvlOverride w:ilvl="0"><w:startOverride w:val="1"/></w:lvlOverride></w:num>'
+  ).join('');
+
+  return (
+    `${XML_DECLARATION}<w:numbering xmlns:w="${W_NS}">` +
+    `<w:abstractNum w:abstractNumId="0"><w:multiLevelType w:val="singleLevel"/>${level(
+      'bullet',
+      '•',
+      '<w:rPr><w:rFonts w:ascii="Calibri" w:hAnsi="Calibri"/></w:rPr>'
+    )}</w:abstractNum>` +
+    `<w:abstractNum w:abstractNumId="1"><w:multiLevelType w:val="singleLevel"/>${level('decimal', '%1.')}</w:abstractNum>` +
+    `<w:num w:numId="${BULLET_NUM_ID}"><w:abstractNumId w:val="0"/></w:num>${numbered}` +
+    '</w:numbering>'
+  );
+}
+
+function documentXml(body: string[]): string {
+  return (
+    `${XML_DECLARATION}<w:document xmlns:w="${W_NS}" xmlns:r="${R_NS}" ` +
+    'xmlns:wp="http://schemas.openxmlformats.org/drawingml/2006/wordprocessingDrawing" ' +
+    'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+    'xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart">' +
+    `<w:body>${body.join('')}` +
+    `<w:sectPr><w:pgSz w:w="${PAGE_WIDTH_TWIPS}" w:h="${PAGE_HEIGHT_TWIPS}"/>` +
+    `<w:pgMar w:top="${MARGIN_TWIPS}" w:right="${MARGIN_TWIPS}" w:bottom="${MARGIN_TWIPS}" w:left="${MARGIN_TWIPS}" ` +
+    'w:header="567" w:footer="567" w:gutter="0"/></w:sectPr></w:body></w:document>'
+  );
+}
+
+export function renderReportDocx(report: Report): Uint8Array {
+  const primary = resolvePrimaryColor(report);
+  const builder = new DocxBuilder(primary);
+  for (const section of report.sections) renderSection(builder, section, report);
+
+  const chartParts = builder.charts.map((model, i) => ({
+    path: `word/charts/chart${i + 1}.xml`,
+    content: buildChartXml(model),
+  }));
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      content: contentTypesXml([
+        {
+          partName: '/word/document.xml',
+          contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml',
+        },
+        {
+          partName: '/word/styles.xml',
+          contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml',
+        },
+        {
+          partName: '/word/numbering.xml',
+          contentType: 'application/vnd.openxmlformats-officedocument.wordprocessingml.numbering+xml',
+        },
+        ...chartParts.map(part => ({ partName: `/${part.path}`, contentType: CHART_CONTENT_TYPE })),
+      ]),
+    },
+    {
+      path: '_rels/.rels',
+      content: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.officeDocument, target: 'word/document.xml' },
+        { id: 'rId2', type: REL_TYPES.coreProperties, target: 'docProps/core.xml' },
+      ]),
+    },
+    { path: 'docProps/core.xml', content: corePropertiesXml(report) },
+    { path: 'word/document.xml', content: documentXml(builder.body) },
+    {
+      path: 'word/_rels/document.xml.rels',
+      content: relationshipsXml([
+        { id: 'rIdStyles', type: REL_TYPES.styles, target: 'styles.xml' },
+        { id: 'rIdNumbering', type: REL_TYPES.numbering, target: 'numbering.xml' },
+        ...chartParts.map((_, i) => ({
+          id: `rIdChart${i + 1}`,
+          type: REL_TYPES.chart,
+          target: `charts/chart${i + 1}.xml`,
+        })),
+      ]),
+    },
+    { path: 'word/styles.xml', content: stylesXml(primary, report.meta.language) },
+    { path: 'word/numbering.xml', content: numberingXml(builder.numberedLists) },
+    ...chartParts,
+  ]);
+}
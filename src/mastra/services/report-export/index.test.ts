@@ -0,0 +1,180 @@
+import { describe, it, expect } from 'vitest';
+import { buildReportFilename, isReportExportFormat, renderReportFile } from './index';
+import type { Report } from '../../schemas/report-schema';
+
+const report: Report = {
+  meta: {
+    title: 'Q3 Phishing Résults',
+    subtitle: 'Quarterly',
+    author: 'Report Agent',
+    generatedAt: '2026-01-01T00:00:00.000Z',
+    language: 'en',
+    pageTarget: 3,
+    branding: { companyName: 'Acme', primaryColor: '#1E88E5', logoUrl: '' },
+  },
+  sections: [
+    { type: 'cover', id: 'cover', title: 'Q3 Phishing Results', weight: 1, date: '2026-01-01' },
+    {
+      type: 'executive_summary',
+      id: 'exec',
+      title: 'Summary',
+      weight: 0.5,
+      content: 'Click rate **fell**.\n\n- one\n- two\n\n1. first\n2. second',
+      keyFindings: ['Reporting doubled'],
+    },
+    {
+      type: 'kpi_dashboard',
+      id: 'kpi',
+      title: 'KPIs',
+      weight: 0.5,
+      kpis: [
+        { label: 'Click rate', value: '8%', trend: 'down', delta: '-12%' },
+        { label: 'Reports', value: '420', trend: 'up' },
+      ],
+    },
+    {
+      type: 'chart',
+      id: 'clicks',
+      title: 'Clicks by department',
+      weight: 0.75,
+      chartConfig: {
+        type: 'bar',
+        data: { labels: ['HR', 'IT'], datasets: [{ label: 'Clicks', data: [5, 2] }] },
+      },
+    },
+    {
+      type: 'table',
+      id: 'departments',
+      title: 'Departments',
+      weight: 1,
+      columns: ['Department', 'Rate'],
+      rows: Array.from({ length: 25 }, (_, i) => [`Dept ${i} & <co>`, `${i}%`]),
+    },
+    {
+      type: 'recommendations',
+      id: 'recs',
+      title: 'Recommendations',
+      weight: 0.5,
+      items: [{ priority: 'critical', text: 'Enable MFA', detail: 'For all admins' }],
+    },
+    {
+      type: 'timeline',
+      id: 'plan',
+      title: 'Plan',
+      weight: 0.5,
+      items: [{ date: 'Q1', event: 'Kickoff', status: 'completed' }],
+    },
+    {
+      type: 'comparison',
+      id: 'cmp',
+      title: 'Before / After',
+      weight: 0.5,
+      left: { label: 'Before', points: ['High clicks'] },
+      right: { label: 'After', points: ['Low clicks'] },
+    },
+  ],
+};
+
+/** Read the stored (uncompressed) entries written by createZip */
+function readZip(bytes: Uint8Array): Map<string, string> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, string>();
+  let offset = 0;
+  while (view.getUint32(offset, true) === 0x04034b50) {
+    const size = view.getUint32(offset + 18, true);
+    const nameLength = view.getUint16(offset + 26, true);
+    const name = decoder.decode(bytes.subarray(offset + 30, offset + 30 + nameLength));
+    const start = offset + 30 + nameLength;
+    entries.set(name, decoder.decode(bytes.subarray(start, start + size)));
+    offset = start + size;
+  }
+  return entries;
+}
+
+describe('report export', () => {
+  describe('isReportExportFormat', () => {
+    it('accepts supported formats only', () => {
+      expect(isReportExportFormat('pdf')).toBe(true);
+      expect(isReportExportFormat('docx')).toBe(true);
+      expect(isReportExportFormat('pptx')).toBe(true);
+      expect(isReportExportFormat('xlsx')).toBe(false);
+      expect(isReportExportFormat(undefined)).toBe(false);
+    });
+  });
+
+  describe('buildReportFilename', () => {
+    it('slugifies the title to ASCII and appends the version', () => {
+      expect(buildReportFilename('Q3 Phishing Résults', 2, 'pdf')).toBe('q3-phishing-results-v2.pdf');
+    });
+
+    it('falls back to "report" when nothing ASCII is left', () => {
+      expect(buildReportFilename('报告', 1, 'docx')).toBe('report-v1.docx');
+    });
+
+    it('caps long titles', () => {
+      const filename = buildReportFilename('a '.repeat(200), 1, 'pptx');
+      expect(filename.length).toBeLessThanOrEqual(80 + '-v1.pptx'.length);
+      expect(filename).not.toContain('--');
+    });
+  });
+
+  describe('renderReportFile', () => {
+    it('renders a PDF with a valid header, trailer and page tree', () => {
+      const file = renderReportFile(report, 'pdf', 2);
+      const text = new TextDecoder('latin1').decode(file.bytes);
+
+      expect(file.contentType).toBe('application/pdf');
+      expect(file.filename).toBe('q3-phishing-results-v2.pdf');
+      expect(text.startsWith('%PDF-1.4')).toBe(true);
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+      expect(text).toContain('/Title (Q3 Phishing Résults)');
+      // Cover + content pages; the 25-row table alone cannot fit next to everything else
+      expect(Number(/\/Count (\d+)/.exec(text)?.[1])).toBeGreaterThan(2);
+    });
+
+    it('renders a DOCX package with a native chart and escaped cell text', () => {
+      const file = renderReportFile(report, 'docx', 2);
+      const entries = readZip(file.bytes);
+
+      expect(file.contentType).toBe('application/vnd.openxmlformats-officedocument.wordprocessingml.document');
+      expect([...entries.keys()]).toEqual(
+        expect.arrayContaining([
+          '[Content_Types].xml',
+          '_rels/.rels',
+          'word/document.xml',
+          'word/styles.xml',
+          'word/numbering.xml',
+          'word/charts/chart1.xml',
+        ])
+      );
+      const document = entries.get('word/document.xml')!;
+      expect(document).toContain('Dept 3 &amp; &lt;co&gt;');
+      expect(document).toContain('r:id="rIdChart1"');
+      expect(document).toContain('<w:pStyle w:val="Heading1"/>');
+      expect(entries.get('word/charts/chart1.xml')).toContain('<c:barChart>');
+      expect(entries.get('word/_rels/document.xml.rels')).toContain('Target="charts/chart1.xml"');
+      expect(entries.get('word/styles.xml')).toContain('w:val="1E88E5"');
+    });
+
+    it('renders a PPTX deck with a cover and continuation slides for long tables', () => {
+      const file = renderReportFile(report, 'pptx', 2);
+      const entries = readZip(file.bytes);
+      const slides = [...entries.keys()].filter(name => /^ppt\/slides\/slide\d+\.xml$/.test(name));
+
+      expect(file.contentType).toBe('application/vnd.openxmlformats-officedocument.presentationml.presentation');
+      expect(entries.has('ppt/presentation.xml')).toBe(true);
+      expect(entries.has('ppt/charts/chart1.xml')).toBe(true);
+      // cover, summary, kpis, chart, table ×3, recommendations, timeline, comparison
+      expect(slides).toHaveLength(10);
+      expect(entries.get('ppt/presentation.xml')!.match(/<p:sldId /g)).toHaveLength(10);
+      const tableSlides = slides.filter(name => entries.get(name)!.includes('Departments ('));
+      expect(tableSlides).toHaveLength(3);
+      expect(entries.get('ppt/slides/slide1.xml')).toContain('Q3 Phishing Results');
+    });
+
+    it('produces identical bytes for the same report', () => {
+      expect(renderReportFile(report, 'docx', 1).bytes).toEqual(renderReportFile(report, 'docx', 1).bytes);
+    });
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * Report Export
+ *
+ * Renders a stored Report (validate-and-store-report-tool output) as PDF, DOCX or PPTX
+ * for download. Charts are drawn from the section's Chart.js config: vector graphics
+ * in the PDF, native Office charts in DOCX/PPTX. Pure TypeScript — no browser,
+ * headless Chrome or native module — so it runs in Node and in Workers.
+ */
+
+import { REPORT_EXPORT } from '../../constants';
+import type { Report } from '../../schemas/report-schema';
+import { renderReportDocx } from './docx-renderer';
+import { renderReportPdf } from './pdf-renderer';
+import { renderReportPptx } from './pptx-renderer';
+import type { RenderedReportFile, ReportExportFormat, ReportRenderer } from './types';
+
+export * from './types';
+export { buildChartModel } from './chart-model';
+export { renderReportDocx } from './docx-renderer';
+export { renderReportPdf } from './pdf-renderer';
+export { renderReportPptx } from './pptx-renderer';
+
+const RENDERERS: Record<ReportExportFormat, ReportRenderer> = {
+  pdf: renderReportPdf,
+  docx: renderReportDocx,
+  pptx: renderReportPptx,
+};
+
+export function isReportExportFormat(value: unknown): value is ReportExportFormat {
+  return typeof value === 'string' && (REPORT_EXPORT.FORMATS as readonly string[]).includes(value);
+}
+
+/** "Q3 Phishing Results" v2 → "q3-phishing-results-v2.pdf" (ASCII only, safe in Content-Disposition) */
+export function buildReportFilename(title: string, version: number, format: ReportExportFormat): string {
+  const slug = title
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, '-')
+    .slice(0, REPORT_EXPORT.FILENAME_MAX_CHARS)
+    .replace(/^-+|-+$/g, '');
+  return `${slug || 'report'}-v${version}.${format}`;
+}
+
+export function renderReportFile(report: Report, format: ReportExportFormat, version: number): RenderedReportFile {
+  return {
+    format,
+    contentType: REPORT_EXPORT.CONTENT_TYPES[format],
+    filename: buildReportFilename(report.meta.title, version, format),
+    bytes: RENDERERS[format](report),
+  };
+}
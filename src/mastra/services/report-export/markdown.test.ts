@@ -0,0 +1,48 @@
+import { describe, it, expect } from 'vitest';
+import { parseInline, parseMarkdownBlocks, runsToText } from './markdown';
+
+describe('report export markdown', () => {
+  describe('parseInline', () => {
+    it('splits bold and italic runs', () => {
+      expect(parseInline('Click **rate** fell *sharply* today')).toEqual([
+        { text: 'Click ' },
+        { text: 'rate', bold: true },
+        { text: ' fell ' },
+        { text: 'sharply', italic: true },
+        { text: ' today' },
+      ]);
+    });
+
+    it('keeps link and inline code text, leaves snake_case alone', () => {
+      expect(runsToText(parseInline('See [the dashboard](https://x.test) and `click_rate` or user_id_field'))).toBe(
+        'See the dashboard and click_rate or user_id_field'
+      );
+    });
+  });
+
+  describe('parseMarkdownBlocks', () => {
+    it('parses headings, paragraphs and lists', () => {
+      const blocks = parseMarkdownBlocks(
+        '## Results\n\nLine one\nline two\n\n- first\n* second\n\n1. step\n2) next\n\n---'
+      );
+
+      expect(blocks.map(block => block.kind)).toEqual([
+        'heading',
+        'paragraph',
+        'bullet',
+        'bullet',
+        'numbered',
+        'numbered',
+      ]);
+      expect(blocks[0]).toMatchObject({ kind: 'heading', level: 2 });
+      expect(runsToText(blocks[1].runs)).toBe('Line one line two');
+      expect(blocks[5]).toMatchObject({ kind: 'numbered', index: 2 });
+    });
+
+    it('strips blockquote markers and normalizes CRLF', () => {
+      const blocks = parseMarkdownBlocks('> quoted\r\n> text');
+      expect(blocks).toHaveLength(1);
+      expect(runsToText(blocks[0].runs)).toBe('quoted text');
+    });
+  });
+});
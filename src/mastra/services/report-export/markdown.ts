@@ -0,0 +1,83 @@
+/**
+ * Minimal Markdown → blocks parser for report export.
+ *
+ * Report sections carry Markdown in `content` fields (executive_summary, content).
+ * Renderers need structure, not HTML: headings, paragraphs, bullet and numbered
+ * items, with bold/italic runs. Links keep their text, inline code keeps its text;
+ * everything else (images, HTML, tables) is treated as plain text.
+ */
+
+import type { TextBlock, TextRun } from './types';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.*)$/;
+const BULLET_PATTERN = /^[-*+]\s+(.*)$/;
+const NUMBERED_PATTERN = /^(\d+)[.)]\s+(.*)$/;
+/** **bold**, __bold__, *italic* (non-greedy, no nesting). _x_ is left alone: snake_case identifiers are common */
+const INLINE_PATTERN = /(\*\*|__)(.+?)\1|\*(?!\s)(.+?)\*/g;
+
+/** Split inline Markdown into styled runs */
+export function parseInline(text: string): TextRun[] {
+  const cleaned = text
+    .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+    .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+    .replace(/`([^`]*)`/g, '$1');
+
+  const runs: TextRun[] = [];
+  let lastIndex = 0;
+  for (const match of cleaned.matchAll(INLINE_PATTERN)) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) runs.push({ text: cleaned.slice(lastIndex, index) });
+    if (match[2] !== undefined) runs.push({ text: match[2], bold: true });
+    else runs.push({ text: match[3], italic: true });
+    lastIndex = index + match[0].length;
+  }
+  if (lastIndex < cleaned.length) runs.push({ text: cleaned.slice(lastIndex) });
+  return runs.filter(run => run.text.length > 0);
+}
+
+/** Parse a Markdown string into blocks; consecutive text lines join into one paragraph */
+export function parseMarkdownBlocks(markdown: string): TextBlock[] {
+  const blocks: TextBlock[] = [];
+  let paragraph: string[] = [];
+
+  const flushParagraph = () => {
+    if (paragraph.length > 0) {
+      blocks.push({ kind: 'paragraph', runs: parseInline(paragraph.join(' ')) });
+      paragraph = [];
+    }
+  };
+
+  for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+    const line = rawLine.trim();
+    if (!line || /^([-*_])\1{2,}$/.test(line)) {
+      flushParagraph();
+      continue;
+    }
+
+    const heading = HEADING_PATTERN.exec(line);
+    if (heading) {
+      flushParagraph();
+      blocks.push({ kind: 'heading', level: heading[1].length, runs: parseInline(heading[2]) });
+      continue;
+    }
+    const bullet = BULLET_PATTERN.exec(line);
+    if (bullet) {
+      flushParagraph();
+      blocks.push({ kind: 'bullet', runs: parseInline(bullet[1]) });
+      continue;
+    }
+    const numbered = NUMBERED_PATTERN.exec(line);
+    if (numbered) {
+      flushParagraph();
+      blocks.push({ kind: 'numbered', index: Number(numbered[1]), runs: parseInline(numbered[2]) });
+      continue;
+    }
+    paragraph.push(line.replace(/^>\s?/, ''));
+  }
+  flushParagraph();
+  return blocks;
+}
+
+export function runsToText(runs: TextRun[]): string {
+  return runs.map(run => run.text).join('');
+}
@@ -0,0 +1,150 @@
+/**
+ * Chart model → DrawingML chart part (word/charts/chartN.xml, ppt/charts/chartN.xml).
+ *
+ * DOCX and PPTX embed charts as native Office charts, so they stay crisp and editable
+ * in Word/PowerPoint. Values are written as literals (c:strLit / c:numLit) instead of
+ * an embedded workbook: Office draws them from the cache, only "Edit Data" is unavailable.
+ * Scatter datasets carry y values only in the report schema, so they become marker-only
+ * line charts over the labels.
+ */
+
+import type { ChartModel, ChartSeries } from './chart-model';
+import { XML_DECLARATION, escapeXml } from './ooxml';
+
+const CATEGORY_AXIS_ID = 111;
+const VALUE_AXIS_ID = 222;
+
+const solidFill = (color: string) => `<a:solidFill><a:srgbClr val="${color}"/></a:solidFill>`;
+
+function categoriesXml(categories: string[]): string {
+  return (
+    `<c:cat><c:strLit><c:ptCount val="${categories.length}"/>` +
+    categories.map((label, i) => `<c:pt idx="${i}"><c:v>${escapeXml(label)}</c:v></c:pt>`).join('') +
+    '</c:strLit></c:cat>'
+  );
+}
+
+function valuesXml(values: number[]): string {
+  return (
+    `<c:val><c:numLit><c:formatCode>General</c:formatCode><c:ptCount val="${values.length}"/>` +
+    values.map((value, i) => `<c:pt idx="${i}"><c:v>${value}</c:v></c:pt>`).join('') +
+    '</c:numLit></c:val>'
+  );
+}
+
+function seriesHead(series: ChartSeries, index: number): string {
+  return `<c:idx val="${index}"/><c:order val="${index}"/><c:tx><c:v>${escapeXml(series.name)}</c:v></c:tx>`;
+}
+
+function markerXml(color: string): string {
+  return `<c:marker><c:symbol val="circle"/><c:size val="5"/><c:spPr>${solidFill(color)}<a:ln>${solidFill(color)}</a:ln></c:spPr></c:marker>`;
+}
+
+function barChartXml(model: ChartModel): string {
+  const series = model.series
+    .map((s, index) => {
+      const points = model.varyColors
+        ? s.pointColors
+            .map(
+              (color, i) =>
+                `<c:dPt><c:idx val="${i}"/><c:invertIfNegative val="0"/><c:bubble3D val="0"/><c:spPr>${solidFill(color)}</c:spPr></c:dPt>`
+            )
+            .join('')
+        : '';
+      return (
+        `<c:ser>${seriesHead(s, index)}<c:spPr>${solidFill(s.color)}</c:spPr><c:invertIfNegative val="0"/>` +
+        `${points}${categoriesXml(model.categories)}${valuesXml(s.values)}</c:ser>`
+      );
+    })
+    .join('');
+  return (
+    `<c:barChart><c:barDir val="${model.horizontal ? 'bar' : 'col'}"/>` +
+    `<c:grouping val="${model.stacked ? 'stacked' : 'clustered'}"/><c:varyColors val="0"/>${series}` +
+    `<c:gapWidth val="80"/>${model.stacked ? '<c:overlap val="100"/>' : ''}` +
+    `<c:axId val="${CATEGORY_AXIS_ID}"/><c:axId val="${VALUE_AXIS_ID}"/></c:barChart>`
+  );
+}
+
+function lineChartXml(model: ChartModel): string {
+  const markersOnly = model.kind === 'scatter';
+  const series = model.series
+    .map((s, index) => {
+      const line = markersOnly ? '<a:ln><a:noFill/></a:ln>' : `<a:ln w="28575" cap="rnd">${solidFill(s.color)}</a:ln>`;
+      return (
+        `<c:ser>${seriesHead(s, index)}<c:spPr>${line}</c:spPr>${markerXml(s.color)}` +
+        `${categoriesXml(model.categories)}${valuesXml(s.values)}<c:smooth val="0"/></c:ser>`
+      );
+    })
+    .join('');
+  return (
+    `<c:lineChart><c:grouping val="${model.stacked ? 'stacked' : 'standard'}"/><c:varyColors val="0"/>${series}` +
+    `<c:marker val="1"/><c:axId val="${CATEGORY_AXIS_ID}"/><c:axId val="${VALUE_AXIS_ID}"/></c:lineChart>`
+  );
+}
+
+function radarChartXml(model: ChartModel): string {
+  const series = model.series
+    .map(
+      (s, index) =>
+        `<c:ser>${seriesHead(s, index)}<c:spPr><a:ln w="28575">${solidFill(s.color)}</a:ln></c:spPr>` +
+        `${markerXml(s.color)}${categoriesXml(model.categories)}${valuesXml(s.values)}</c:ser>`
+    )
+    .join('');
+  return (
+    `<c:radarChart><c:radarStyle val="marker"/><c:varyColors val="0"/>${series}` +
+    `<c:axId val="${CATEGORY_AXIS_ID}"/><c:axId val="${VALUE_AXIS_ID}"/></c:radarChart>`
+  );
+}
+
+function circularChartXml(model: ChartModel): string {
+  const s = model.series[0];
+  const points = s.pointColors
+    .map(
+      (color, i) =>
+        `<c:dPt><c:idx val="${i}"/><c:bubble3D val="0"/><c:spPr>${solidFill(color)}<a:ln w="12700">${solidFill('FFFFFF')}</a:ln></c:spPr></c:dPt>`
+    )
+    .join('');
+  const series = `<c:ser>${seriesHead(s, 0)}${points}${categoriesXml(model.categories)}${valuesXml(s.values)}</c:ser>`;
+  return model.kind === 'doughnut'
+    ? `<c:doughnutChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/><c:holeSize val="55"/></c:doughnutChart>`
+    : `<c:pieChart><c:varyColors val="1"/>${series}<c:firstSliceAng val="0"/></c:pieChart>`;
+}
+
+function axesXml(model: ChartModel): string {
+  const categoryPosition = model.horizontal ? 'l' : 'b';
+  const valuePosition = model.horizontal ? 'b' : 'l';
+  const noTicks = '<c:majorTickMark val="none"/><c:minorTickMark val="none"/><c:tickLblPos val="nextTo"/>';
+  return (
+    `<c:catAx><c:axId val="${CATEGORY_AXIS_ID}"/><c:scaling><c:orientation val="minMax"/></c:scaling>` +
+    `<c:delete val="0"/><c:axPos val="${categoryPosition}"/><c:numFmt formatCode="General" sourceLinked="0"/>${noTicks}` +
+    `<c:crossAx val="${VALUE_AXIS_ID}"/><c:crosses val="autoZero"/><c:auto val="1"/><c:lblAlgn val="ctr"/>` +
+    '<c:lblOffset val="100"/><c:noMultiLvlLbl val="0"/></c:catAx>' +
+    `<c:valAx><c:axId val="${VALUE_AXIS_ID}"/><c:scaling><c:orientation val="minMax"/></c:scaling>` +
+    `<c:delete val="0"/><c:axPos val="${valuePosition}"/>` +
+    `<c:majorGridlines><c:spPr><a:ln w="6350">${solidFill('E3E6EB')}</a:ln></c:spPr></c:majorGridlines>` +
+    `<c:numFmt formatCode="General" sourceLinked="0"/>${noTicks}` +
+    `<c:crossAx val="${CATEGORY_AXIS_ID}"/><c:crosses val="autoZero"/><c:crossBetween val="between"/></c:valAx>`
+  );
+}
+
+export function buildChartXml(model: ChartModel): string {
+  const circular = model.kind === 'pie' || model.kind === 'doughnut';
+  let plot: string;
+  if (circular) plot = circularChartXml(model);
+  else if (model.kind === 'bar') plot = barChartXml(model);
+  else if (model.kind === 'radar') plot = radarChartXml(model);
+  else plot = lineChartXml(model);
+
+  const showLegend = circular || model.series.length > 1;
+  return (
+    `${XML_DECLARATION}<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ` +
+    'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main" ' +
+    'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<c:roundedCorners val="0"/><c:chart><c:autoTitleDeleted val="1"/>' +
+    `<c:plotArea><c:layout/>${plot}${circular ? '' : axesXml(model)}</c:plotArea>` +
+    (showLegend ? `<c:legend><c:legendPos val="${circular ? 'r' : 'b'}"/><c:overlay val="0"/></c:legend>` : '') +
+    '<c:plotVisOnly val="1"/><c:dispBlanksAs val="gap"/></c:chart>' +
+    '<c:txPr><a:bodyPr/><a:lstStyle/><a:p><a:pPr><a:defRPr sz="900"/></a:pPr><a:endParaRPr lang="en-US"/></a:p></c:txPr>' +
+    '</c:chartSpace>'
+  );
+}
@@ -0,0 +1,80 @@
+import { describe, it, expect } from 'vitest';
+import { contentTypesXml, crc32, createZip, escapeXml, relationshipsXml } from './ooxml';
+import { buildChartModel } from './chart-model';
+import { buildChartXml } from './office-chart';
+
+describe('ooxml packaging', () => {
+  it('computes the standard CRC-32', () => {
+    expect(crc32(new TextEncoder().encode('123456789'))).toBe(0xcbf43926);
+  });
+
+  it('writes stored entries with a matching central directory', () => {
+    const zip = createZip([
+      { path: 'a.xml', content: '<a/>' },
+      { path: 'dir/b.bin', content: new Uint8Array([1, 2, 3]) },
+    ]);
+    const view = new DataView(zip.buffer);
+
+    expect(view.getUint32(0, true)).toBe(0x04034b50);
+    expect(view.getUint16(8, true)).toBe(0); // stored
+    expect(view.getUint32(14, true)).toBe(crc32(new TextEncoder().encode('<a/>')));
+
+    const end = zip.length - 22;
+    expect(view.getUint32(end, true)).toBe(0x06054b50);
+    expect(view.getUint16(end + 10, true)).toBe(2);
+    const centralOffset = view.getUint32(end + 16, true);
+    expect(view.getUint32(centralOffset, true)).toBe(0x02014b50);
+    expect(centralOffset + view.getUint32(end + 12, true)).toBe(end);
+  });
+
+  it('escapes markup and drops control characters', () => {
+    expect(escapeXml('a < b & "c"\u0001')).toBe('a &lt; b &amp; &quot;c&quot;');
+  });
+
+  it('builds relationships and content types', () => {
+    expect(relationshipsXml([{ id: 'rId1', type: 'urn:t', target: 'x&y.xml' }])).toContain(
+      '<Relationship Id="rId1" Type="urn:t" Target="x&amp;y.xml"/>'
+    );
+    const types = contentTypesXml([{ partName: '/word/document.xml', contentType: 'text/x' }]);
+    expect(types).toContain('<Override PartName="/word/document.xml" ContentType="text/x"/>');
+    expect(types).toContain('PartName="/docProps/core.xml"');
+  });
+});
+
+describe('office chart xml', () => {
+  it('writes bar charts with literal categories and values', () => {
+    const xml = buildChartXml(
+      buildChartModel({
+        type: 'bar',
+        data: { labels: ['HR', 'R&D'], datasets: [{ label: 'Clicks', data: [5, 2] }] },
+        options: { indexAxis: 'y' },
+      })
+    );
+
+    expect(xml).toContain('<c:barDir val="bar"/>');
+    expect(xml).toContain('<c:pt idx="1"><c:v>R&amp;D</c:v></c:pt>');
+    expect(xml).toContain('<c:pt idx="0"><c:v>5</c:v></c:pt>');
+    expect(xml).toContain('<c:catAx>');
+    // A single series needs no legend
+    expect(xml).not.toContain('<c:legend>');
+  });
+
+  it('writes doughnut charts without axes and with a legend', () => {
+    const xml = buildChartXml(
+      buildChartModel({ type: 'doughnut', data: { labels: ['A', 'B'], datasets: [{ label: 'Share', data: [1, 3] }] } })
+    );
+
+    expect(xml).toContain('<c:doughnutChart>');
+    expect(xml).toContain('<c:holeSize val="55"/>');
+    expect(xml).not.toContain('<c:catAx>');
+    expect(xml).toContain('<c:legendPos val="r"/>');
+  });
+
+  it('writes scatter data as marker-only lines', () => {
+    const xml = buildChartXml(
+      buildChartModel({ type: 'scatter', data: { labels: ['1', '2'], datasets: [{ label: 'S', data: [1, 2] }] } })
+    );
+    expect(xml).toContain('<c:lineChart>');
+    expect(xml).toContain('<a:ln><a:noFill/></a:ln>');
+  });
+});
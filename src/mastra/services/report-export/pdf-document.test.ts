@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import { PdfDocument, encodeWinAnsi, fitText, textWidth, wrapRuns } from './pdf-document';
+
+const latin1 = (bytes: Uint8Array) => new TextDecoder('latin1').decode(bytes);
+
+describe('pdf document', () => {
+  describe('encodeWinAnsi', () => {
+    it('keeps Latin-1, maps typographic punctuation and transliterates the rest', () => {
+      expect(encodeWinAnsi('café')).toBe('caf\xE9');
+      expect(encodeWinAnsi('“ok” – •')).toBe('\x93ok\x94 \x96 \x95');
+      expect(encodeWinAnsi('ışık Łódź')).toBe('isik L\xF3dz');
+      expect(encodeWinAnsi('报告')).toBe('??');
+    });
+
+    it('flattens tabs and newlines to spaces', () => {
+      expect(encodeWinAnsi('a\tb\r\nc')).toBe('a b c');
+    });
+  });
+
+  describe('text metrics', () => {
+    it('measures with Helvetica widths', () => {
+      expect(textWidth('AA', 'regular', 10)).toBeCloseTo(13.34);
+      expect(textWidth('AA', 'bold', 10)).toBeCloseTo(14.44);
+    });
+
+    it('wraps runs at word boundaries and keeps run fonts', () => {
+      const lines = wrapRuns([{ text: 'alpha beta ' }, { text: 'gamma delta', bold: true }], 60, 10);
+
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.every(line => line.width <= 60)).toBe(true);
+      expect(lines.flatMap(line => line.segments).some(segment => segment.font === 'bold')).toBe(true);
+      expect(
+        lines
+          .map(line => line.segments.map(s => s.text).join(''))
+          .join(' ')
+          .replace(/\s+/g, ' ')
+      ).toBe('alpha beta gamma delta');
+    });
+
+    it('splits words longer than a line', () => {
+      const lines = wrapRuns([{ text: 'x'.repeat(100) }], 50, 10);
+      expect(lines.length).toBeGreaterThan(1);
+      expect(lines.every(line => line.width <= 50)).toBe(true);
+    });
+
+    it('shortens text with an ellipsis', () => {
+      expect(fitText('Short', 'regular', 10, 100)).toBe('Short');
+      const fitted = fitText('A rather long department name', 'regular', 10, 60);
+      expect(fitted.endsWith('...')).toBe(true);
+      expect(textWidth(fitted, 'regular', 10)).toBeLessThanOrEqual(60);
+    });
+  });
+
+  describe('PdfDocument', () => {
+    it('writes objects at the offsets listed in the xref table', () => {
+      const doc = new PdfDocument();
+      const page = doc.addPage();
+      doc.text(page, 50, 50, 'Hello (world)', { font: 'bold', size: 12 });
+      doc.rect(page, 50, 60, 100, 20, { fill: 'FF0000' });
+      doc.addPage();
+      const pdf = latin1(doc.toBytes({ title: 'Report', author: 'Agent' }));
+
+      const xrefOffset = Number(/startxref\n(\d+)/.exec(pdf)?.[1]);
+      expect(pdf.slice(xrefOffset, xrefOffset + 4)).toBe('xref');
+      const entries = pdf
+        .slice(xrefOffset)
+        .split('\n')
+        .slice(3)
+        .filter(line => / n $/.test(line));
+      entries.forEach((entry, index) => {
+        const offset = Number(entry.slice(0, 10));
+        expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+      });
+      expect(pdf).toContain('/Count 2');
+      expect(pdf).toContain('(Hello \\(world\\)) Tj');
+      expect(pdf).toContain('/Author (Agent)');
+    });
+
+    it('uses top-left coordinates', () => {
+      const doc = new PdfDocument();
+      const page = doc.addPage();
+      doc.rect(page, 10, 0, 20, 30, { fill: '000000' });
+      expect(latin1(doc.toBytes({ title: 't' }))).toContain('10 811.89 20 30 re');
+    });
+  });
+});
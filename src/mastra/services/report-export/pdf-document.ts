@@ -0,0 +1,355 @@
+/**
+ * Minimal PDF 1.4 writer.
+ *
+ * Just enough of the format for generated reports: A4 pages, the four standard
+ * Helvetica fonts (no embedding — every PDF viewer ships them), text, rectangles,
+ * lines and filled polygons. Coordinates are in points from the TOP-LEFT corner;
+ * the writer flips them to PDF's bottom-left origin.
+ *
+ * Text is WinAnsi-encoded (the standard fonts' built-in encoding). Characters outside
+ * it are reduced to their base letter (ş → s, ğ → g, ı → i) or replaced with "?".
+ */
+
+import type { TextRun } from './types';
+
+export const PDF_PAGE = { width: 595.28, height: 841.89 } as const;
+
+export type PdfFont = 'regular' | 'bold' | 'italic' | 'boldItalic';
+
+const FONT_RESOURCES: Record<PdfFont, { name: string; baseFont: string }> = {
+  regular: { name: 'F1', baseFont: 'Helvetica' },
+  bold: { name: 'F2', baseFont: 'Helvetica-Bold' },
+  italic: { name: 'F3', baseFont: 'Helvetica-Oblique' },
+  boldItalic: { name: 'F4', baseFont: 'Helvetica-BoldOblique' },
+};
+
+// Standard 14 font metrics (1/1000 em) for codes 32–126; oblique variants share upright widths
+// prettier-ignore
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+// prettier-ignore
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+const DEFAULT_GLYPH_WIDTH = 556;
+
+/** Unicode characters WinAnsi places in 0x80–0x9F */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80,
+  '‚': 0x82,
+  ƒ: 0x83,
+  '„': 0x84,
+  '…': 0x85,
+  '†': 0x86,
+  '‡': 0x87,
+  ˆ: 0x88,
+  '‰': 0x89,
+  Š: 0x8a,
+  '‹': 0x8b,
+  Œ: 0x8c,
+  Ž: 0x8e,
+  '‘': 0x91,
+  '’': 0x92,
+  '“': 0x93,
+  '”': 0x94,
+  '•': 0x95,
+  '–': 0x96,
+  '—': 0x97,
+  '˜': 0x98,
+  '™': 0x99,
+  š: 0x9a,
+  '›': 0x9b,
+  œ: 0x9c,
+  ž: 0x9e,
+  Ÿ: 0x9f,
+};
+/** Letters without a Unicode decomposition to a base letter */
+const BASE_LETTERS: Record<string, string> = { ı: 'i', ł: 'l', Ł: 'L', đ: 'd', Đ: 'D', ø: 'o', Ø: 'O' };
+
+function winAnsiCode(char: string): number | null {
+  const code = char.codePointAt(0) ?? 63;
+  if ((code >= 32 && code <= 126) || (code >= 160 && code <= 255)) return code;
+  return WIN_ANSI_EXTRAS[char] ?? null;
+}
+
+/** Unicode text → WinAnsi byte string (one char per byte, all codes < 256) */
+export function encodeWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text.replace(/[\t\r\n]+/g, ' ')) {
+    let code = winAnsiCode(char);
+    if (code === null) {
+      const base = BASE_LETTERS[char] ?? char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      code = base.length === 1 ? winAnsiCode(base) : null;
+    }
+    out += String.fromCharCode(code ?? 63);
+  }
+  return out;
+}
+
+export function textWidth(text: string, font: PdfFont, size: number): number {
+  const widths = font === 'bold' || font === 'boldItalic' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of encodeWinAnsi(text)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : code === 0x95 ? 350 : DEFAULT_GLYPH_WIDTH;
+  }
+  return (total * size) / 1000;
+}
+
+export function runFont(run: TextRun, bold = false): PdfFont {
+  const isBold = bold || !!run.bold;
+  if (isBold && run.italic) return 'boldItalic';
+  if (isBold) return 'bold';
+  return run.italic ? 'italic' : 'regular';
+}
+
+export interface PdfLineSegment {
+  text: string;
+  font: PdfFont;
+}
+
+export interface PdfTextLine {
+  segments: PdfLineSegment[];
+  width: number;
+}
+
+/**
+ * Greedy word wrap across styled runs. Words longer than a line are split by character.
+ * `bold` forces bold for every run (table headers, titles).
+ */
+export function wrapRuns(runs: TextRun[], maxWidth: number, size: number, bold = false): PdfTextLine[] {
+  const lines: PdfTextLine[] = [];
+  let current: PdfTextLine = { segments: [], width: 0 };
+
+  const append = (text: string, font: PdfFont, width: number) => {
+    const last = current.segments[current.segments.length - 1];
+    if (last && last.font === font) last.text += text;
+    else current.segments.push({ text, font });
+    current.width += width;
+  };
+  const newLine = () => {
+    const last = current.segments[current.segments.length - 1];
+    if (last) last.text = last.text.trimEnd();
+    current.width = current.segments.reduce((sum, s) => sum + textWidth(s.text, s.font, size), 0);
+    lines.push(current);
+    current = { segments: [], width: 0 };
+  };
+
+  for (const run of runs) {
+    const font = runFont(run, bold);
+    for (const token of run.text.split(/(\s+)/)) {
+      if (!token) continue;
+      if (/^\s+$/.test(token)) {
+        if (current.segments.length > 0) append(' ', font, textWidth(' ', font, size));
+        continue;
+      }
+      const width = textWidth(token, font, size);
+      if (current.width + width <= maxWidth) {
+        append(token, font, width);
+        continue;
+      }
+      if (current.segments.length > 0) newLine();
+      if (width <= maxWidth) {
+        append(token, font, width);
+        continue;
+      }
+      // Split an over-long word
+      let chunk = '';
+      for (const char of token) {
+        const charWidth = textWidth(char, font, size);
+        if (current.width + textWidth(chunk, font, size) + charWidth > maxWidth && chunk) {
+          append(chunk, font, textWidth(chunk, font, size));
+          newLine();
+          chunk = '';
+        }
+        chunk += char;
+      }
+      if (chunk) append(chunk, font, textWidth(chunk, font, size));
+    }
+  }
+  if (current.segments.length > 0) newLine();
+  return lines;
+}
+
+/** Shorten text with "..." to fit a width (chart labels) */
+export function fitText(text: string, font: PdfFont, size: number, maxWidth: number): string {
+  if (textWidth(text, font, size) <= maxWidth) return text;
+  let fitted = text;
+  while (fitted.length > 1 && textWidth(`${fitted}...`, font, size) > maxWidth) fitted = fitted.slice(0, -1);
+  return `${fitted.trimEnd()}...`;
+}
+
+function pdfNumber(value: number): string {
+  return Number(value.toFixed(2)).toString();
+}
+
+function pdfColor(hex: string): string {
+  const clean = hex.replace('#', '');
+  return [0, 2, 4].map(i => pdfNumber(parseInt(clean.slice(i, i + 2), 16) / 255)).join(' ');
+}
+
+function pdfString(text: string): string {
+  return `(${encodeWinAnsi(text).replace(/[\\()]/g, char => `\\${char}`)})`;
+}
+
+export interface PdfShapeStyle {
+  /** RRGGBB fill color */
+  fill?: string;
+  /** RRGGBB stroke color */
+  stroke?: string;
+  lineWidth?: number;
+}
+
+export interface PdfTextStyle {
+  font?: PdfFont;
+  size?: number;
+  color?: string;
+  align?: 'left' | 'center' | 'right';
+}
+
+export class PdfDocument {
+  private readonly pages: string[][] = [];
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  /** Adds a page and returns its index */
+  addPage(): number {
+    this.pages.push([]);
+    return this.pages.length - 1;
+  }
+
+  /** Text with its baseline at y; x is the left edge, centre or right edge depending on align */
+  text(page: number, x: number, y: number, text: string, style: PdfTextStyle = {}): void {
+    const font = style.font ?? 'regular';
+    const size = style.size ?? 10;
+    const width = style.align && style.align !== 'left' ? textWidth(text, font, size) : 0;
+    const left = style.align === 'center' ? x - width / 2 : style.align === 'right' ? x - width : x;
+    this.pages[page].push(
+      `BT ${pdfColor(style.color ?? '222222')} rg /${FONT_RESOURCES[font].name} ${pdfNumber(size)} Tf ` +
+        `${pdfNumber(left)} ${pdfNumber(PDF_PAGE.height - y)} Td ${pdfString(text)} Tj ET`
+    );
+  }
+
+  /** Wrapped line produced by wrapRuns */
+  textLine(page: number, x: number, y: number, line: PdfTextLine, size: number, color = '222222'): void {
+    let cursor = x;
+    for (const segment of line.segments) {
+      this.text(page, cursor, y, segment.text, { font: segment.font, size, color });
+      cursor += textWidth(segment.text, segment.font, size);
+    }
+  }
+
+  rect(page: number, x: number, y: number, width: number, height: number, style: PdfShapeStyle): void {
+    this.pages[page].push(
+      `${this.styleOps(style)}${pdfNumber(x)} ${pdfNumber(PDF_PAGE.height - y - height)} ` +
+        `${pdfNumber(width)} ${pdfNumber(height)} re ${this.paintOp(style)}`
+    );
+  }
+
+  line(page: number, x1: number, y1: number, x2: number, y2: number, color: string, lineWidth = 0.5): void {
+    this.polyline(
+      page,
+      [
+        [x1, y1],
+        [x2, y2],
+      ],
+      color,
+      lineWidth
+    );
+  }
+
+  polyline(page: number, points: [number, number][], color: string, lineWidth = 1): void {
+    if (points.length < 2) return;
+    this.pages[page].push(`${this.styleOps({ stroke: color, lineWidth })}${this.pathOps(points)} S`);
+  }
+
+  polygon(page: number, points: [number, number][], style: PdfShapeStyle): void {
+    if (points.length < 3) return;
+    this.pages[page].push(`${this.styleOps(style)}${this.pathOps(points)} h ${this.paintOp(style)}`);
+  }
+
+  toBytes(info: { title: string; author?: string; subject?: string }): Uint8Array {
+    const objects: string[] = [];
+    const add = (body: string) => {
+      objects.push(body);
+      return objects.length;
+    };
+
+    const catalogId = add('');
+    const pagesId = add('');
+    const fontIds = Object.fromEntries(
+      Object.entries(FONT_RESOURCES).map(([key, font]) => [
+        key,
+        add(`<< /Type /Font /Subtype /Type1 /BaseFont /${font.baseFont} /Encoding /WinAnsiEncoding >>`),
+      ])
+    ) as Record<PdfFont, number>;
+    const fontDict = Object.entries(FONT_RESOURCES)
+      .map(([key, font]) => `/${font.name} ${fontIds[key as PdfFont]} 0 R`)
+      .join(' ');
+
+    const pageIds = this.pages.map(ops => {
+      const stream = ops.join('\n');
+      const contentId = add(`<< /Length ${stream.length} >>\nstream\n${stream}\nendstream`);
+      return add(
+        `<< /Type /Page /Parent ${pagesId} 0 R /MediaBox [0 0 ${PDF_PAGE.width} ${PDF_PAGE.height}] ` +
+          `/Resources << /Font << ${fontDict} >> >> /Contents ${contentId} 0 R >>`
+      );
+    });
+    objects[catalogId - 1] = `<< /Type /Catalog /Pages ${pagesId} 0 R >>`;
+    objects[pagesId - 1] =
+      `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+
+    const infoEntries = [`/Title ${pdfString(info.title)}`, '/Producer (Agentic Ally)'];
+    if (info.author) infoEntries.push(`/Author ${pdfString(info.author)}`);
+    if (info.subject) infoEntries.push(`/Subject ${pdfString(info.subject)}`);
+    const infoId = add(`<< ${infoEntries.join(' ')} >>`);
+
+    let output = '%PDF-1.4\n%\xE2\xE3\xCF\xD3\n';
+    const offsets: number[] = [];
+    objects.forEach((body, index) => {
+      offsets.push(output.length);
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    });
+    const xrefOffset = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalogId} 0 R /Info ${infoId} 0 R >>\n`;
+    output += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+    // Every char is < 256 (WinAnsi-encoded), so char offsets are byte offsets
+    const bytes = new Uint8Array(output.length);
+    for (let i = 0; i < output.length; i++) bytes[i] = output.charCodeAt(i);
+    return bytes;
+  }
+
+  private styleOps(style: PdfShapeStyle): string {
+    let ops = '';
+    if (style.fill) ops += `${pdfColor(style.fill)} rg `;
+    if (style.stroke) ops += `${pdfColor(style.stroke)} RG ${pdfNumber(style.lineWidth ?? 0.5)} w `;
+    return ops;
+  }
+
+  private paintOp(style: PdfShapeStyle): string {
+    if (style.fill && style.stroke) return 'B';
+    return style.fill ? 'f' : 'S';
+  }
+
+  private pathOps(points: [number, number][]): string {
+    return points
+      .map(([x, y], i) => `${pdfNumber(x)} ${pdfNumber(PDF_PAGE.height - y)} ${i === 0 ? 'm' : 'l'}`)
+      .join(' ');
+  }
+}
@@ -0,0 +1,682 @@
+/**
+ * Report → PDF
+ *
+ * Lays out report sections on A4 pages with pdf-document.ts: cover page, then sections
+ * flowing top to bottom with page breaks (table headers repeat on new pages), and a
+ * footer with the company name and page numbers. Chart sections are drawn as vector
+ * graphics from the Chart.js config via chart-model.ts — no browser or canvas.
+ */
+
+import type {
+  ChartSection,
+  ComparisonSection,
+  CoverSection,
+  ExecutiveSummarySection,
+  KpiDashboardSection,
+  RecommendationsSection,
+  Report,
+  ReportSection,
+  TableSection,
+  TimelineSection,
+} from '../../schemas/report-schema';
+import { buildChartModel, formatTick, niceScale, valueRange, type ChartModel } from './chart-model';
+import { parseMarkdownBlocks } from './markdown';
+import { PDF_PAGE, PdfDocument, fitText, textWidth, wrapRuns, type PdfFont, type PdfTextLine } from './pdf-document';
+import {
+  MUTED_COLOR,
+  PANEL_COLOR,
+  PRIORITY_COLORS,
+  RULE_COLOR,
+  TEXT_COLOR,
+  TIMELINE_STATUS_COLORS,
+  TREND_STYLES,
+  humanizeEnum,
+  resolvePrimaryColor,
+} from './theme';
+import type { TextBlock, TextRun } from './types';
+
+const MARGIN = 50;
+const CONTENT_WIDTH = PDF_PAGE.width - MARGIN * 2;
+const CONTENT_BOTTOM = PDF_PAGE.height - 60;
+const BODY_SIZE = 10;
+const BODY_LEADING = 14;
+
+type Point = [number, number];
+
+function circlePoints(cx: number, cy: number, radius: number, from = 0, to = Math.PI * 2): Point[] {
+  const steps = Math.max(2, Math.ceil(((to - from) / (Math.PI * 2)) * 72));
+  return Array.from({ length: steps + 1 }, (_, i) => {
+    const angle = from + ((to - from) * i) / steps;
+    return [cx + Math.cos(angle) * radius, cy + Math.sin(angle) * radius] as Point;
+  });
+}
+
+class PdfReportWriter {
+  readonly doc = new PdfDocument();
+  page = -1;
+  y = MARGIN;
+
+  constructor(readonly primary: string) {}
+
+  newPage(): void {
+    this.page = this.doc.addPage();
+    this.y = MARGIN;
+  }
+
+  /** Starts a new page unless `height` still fits on the current one */
+  ensureSpace(height: number): void {
+    if (this.page < 0 || this.y + height > CONTENT_BOTTOM) this.newPage();
+  }
+
+  lines(lines: PdfTextLine[], x: number, size: number, leading: number, color = TEXT_COLOR): void {
+    for (const line of lines) {
+      this.ensureSpace(leading);
+      this.doc.textLine(this.page, x, this.y + size, line, size, color);
+      this.y += leading;
+    }
+  }
+
+  paragraph(
+    runs: TextRun[],
+    options: { x?: number; width?: number; size?: number; color?: string; bold?: boolean } = {}
+  ) {
+    const x = options.x ?? MARGIN;
+    const size = options.size ?? BODY_SIZE;
+    const width = options.width ?? CONTENT_WIDTH - (x - MARGIN);
+    this.lines(wrapRuns(runs, width, size, options.bold), x, size, size * 1.4, options.color);
+  }
+
+  markdown(blocks: TextBlock[], x = MARGIN, width = CONTENT_WIDTH): void {
+    for (const block of blocks) {
+      if (block.kind === 'heading') {
+        const size = block.level <= 2 ? 12 : 11;
+        this.ensureSpace(size * 2 + BODY_LEADING);
+        this.y += 4;
+        this.paragraph(block.runs, { x, width, size, bold: true, color: this.primary });
+      } else if (block.kind === 'paragraph') {
+        this.paragraph(block.runs, { x, width });
+      } else {
+        const marker = block.kind === 'bullet' ? '•' : `${block.index}.`;
+        const lines = wrapRuns(block.runs, width - 16, BODY_SIZE);
+        this.ensureSpace(BODY_LEADING);
+        this.doc.text(this.page, x + 4, this.y + BODY_SIZE, marker, { size: BODY_SIZE, color: this.primary });
+        this.lines(lines, x + 16, BODY_SIZE, BODY_LEADING);
+      }
+      this.y += 4;
+    }
+  }
+
+  sectionTitle(title: string): void {
+    this.ensureSpace(120);
+    if (this.y > MARGIN) this.y += 14;
+    this.paragraph([{ text: title }], { size: 16, bold: true, color: this.primary });
+    this.doc.line(this.page, MARGIN, this.y + 2, MARGIN + CONTENT_WIDTH, this.y + 2, this.primary, 1);
+    this.y += 12;
+  }
+}
+
+// ─── Sections ───
+
+function renderCover(writer: PdfReportWriter, section: CoverSection, report: Report): void {
+  writer.newPage();
+  const { doc, page } = writer;
+  doc.rect(page, 0, 0, PDF_PAGE.width, 300, { fill: writer.primary });
+
+  let y = 150;
+  for (const line of wrapRuns([{ text: section.title }], CONTENT_WIDTH, 28, true)) {
+    doc.textLine(page, MARGIN, y, line, 28, 'FFFFFF');
+    y += 34;
+  }
+  const subtitle = section.subtitle ?? report.meta.subtitle;
+  if (subtitle) {
+    for (const line of wrapRuns([{ text: subtitle }], CONTENT_WIDTH, 14)) {
+      doc.textLine(page, MARGIN, y + 4, line, 14, 'FFFFFF');
+      y += 20;
+    }
+  }
+
+  const details = [section.date, report.meta.branding?.companyName, report.meta.author].filter(
+    (value): value is string => !!value
+  );
+  details.forEach((detail, i) => {
+    doc.text(page, MARGIN, 350 + i * 20, detail, { size: 12, color: i === 0 ? TEXT_COLOR : MUTED_COLOR });
+  });
+  // The next section starts on a fresh page
+  writer.y = CONTENT_BOTTOM;
+}
+
+function renderExecutiveSummary(writer: PdfReportWriter, section: ExecutiveSummarySection): void {
+  writer.markdown(parseMarkdownBlocks(section.content));
+  if (!section.keyFindings?.length) return;
+
+  const findings = section.keyFindings.map(finding => wrapRuns([{ text: finding }], CONTENT_WIDTH - 40, BODY_SIZE));
+  const height = 16 + findings.reduce((sum, lines) => sum + lines.length * BODY_LEADING + 4, 0);
+  writer.ensureSpace(Math.min(height, 200));
+  writer.y += 6;
+  const top = writer.y;
+  const page = writer.page;
+  writer.y += 6;
+  for (const lines of findings) {
+    writer.ensureSpace(BODY_LEADING);
+    writer.doc.text(writer.page, MARGIN + 16, writer.y + BODY_SIZE, '•', { size: BODY_SIZE, color: writer.primary });
+    writer.lines(lines, MARGIN + 28, BODY_SIZE, BODY_LEADING);
+    writer.y += 4;
+  }
+  // Accent bar beside the findings (on the page where they started)
+  if (writer.page === page) {
+    writer.doc.rect(page, MARGIN, top, 3, writer.y - top, { fill: writer.primary });
+  }
+  writer.y += 6;
+}
+
+function renderKpis(writer: PdfReportWriter, section: KpiDashboardSection): void {
+  const columns = Math.min(3, section.kpis.length);
+  const gap = 12;
+  const cardWidth = (CONTENT_WIDTH - gap * (columns - 1)) / columns;
+  const cardHeight = 76;
+
+  for (let row = 0; row * columns < section.kpis.length; row++) {
+    writer.ensureSpace(cardHeight + gap);
+    const top = writer.y;
+    section.kpis.slice(row * columns, row * columns + columns).forEach((kpi, i) => {
+      const x = MARGIN + i * (cardWidth + gap);
+      const { doc, page } = writer;
+      doc.rect(page, x, top, cardWidth, cardHeight, { fill: PANEL_COLOR, stroke: RULE_COLOR });
+      doc.text(page, x + 10, top + 28, fitText(kpi.value, 'bold', 20, cardWidth - 20), {
+        font: 'bold',
+        size: 20,
+        color: writer.primary,
+      });
+      doc.text(page, x + 10, top + 46, fitText(kpi.label, 'regular', 9, cardWidth - 20), {
+        size: 9,
+        color: MUTED_COLOR,
+      });
+      const trend = TREND_STYLES[kpi.trend];
+      const markerY = top + 60;
+      if (trend.direction === 'up') {
+        doc.polygon(
+          page,
+          [
+            [x + 10, markerY + 4],
+            [x + 18, markerY + 4],
+            [x + 14, markerY - 3],
+          ],
+          { fill: trend.color }
+        );
+      } else if (trend.direction === 'down') {
+        doc.polygon(
+          page,
+          [
+            [x + 10, markerY - 3],
+            [x + 18, markerY - 3],
+            [x + 14, markerY + 4],
+          ],
+          { fill: trend.color }
+        );
+      } else {
+        doc.rect(page, x + 10, markerY - 0.5, 8, 2, { fill: trend.color });
+      }
+      if (kpi.delta) {
+        doc.text(page, x + 23, top + 64, fitText(kpi.delta, 'bold', 9, cardWidth - 33), {
+          font: 'bold',
+          size: 9,
+          color: trend.color,
+        });
+      }
+    });
+    writer.y = top + cardHeight + gap;
+  }
+}
+
+function renderChart(writer: PdfReportWriter, section: ChartSection): void {
+  if (section.description) {
+    writer.paragraph([{ text: section.description }], { color: MUTED_COLOR });
+    writer.y += 4;
+  }
+  const height = 240;
+  writer.ensureSpace(height);
+  drawChart(writer.doc, writer.page, buildChartModel(section.chartConfig), MARGIN, writer.y, CONTENT_WIDTH, height);
+  writer.y += height + 8;
+}
+
+/** Column widths proportional to content length, each at least 10% of the table */
+function tableColumnWidths(section: TableSection): number[] {
+  const lengths = section.columns.map((column, i) =>
+    Math.min(60, Math.max(column.length, ...section.rows.map(row => (row[i] ?? '').length), 4))
+  );
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const min = CONTENT_WIDTH * 0.1;
+  const raw = lengths.map(length => Math.max(min, (length / total) * CONTENT_WIDTH));
+  const scale = CONTENT_WIDTH / raw.reduce((sum, width) => sum + width, 0);
+  return raw.map(width => width * scale);
+}
+
+function renderTable(writer: PdfReportWriter, section: TableSection): void {
+  const widths = tableColumnWidths(section);
+  const size = 9;
+  const leading = 12;
+  const padding = 5;
+
+  const cellLines = (cells: string[], bold: (i: number) => boolean) =>
+    cells.map((cell, i) => wrapRuns([{ text: cell }], widths[i] - padding * 2, size, bold(i)));
+  const rowHeight = (lines: PdfTextLine[][]) => Math.max(1, ...lines.map(l => l.length)) * leading + padding * 2;
+
+  const header = cellLines(section.columns, () => true);
+  const headerHeight = rowHeight(header);
+
+  const drawRow = (lines: PdfTextLine[][], height: number, fill: string | undefined, color: string) => {
+    const { doc, page } = writer;
+    let x = MARGIN;
+    if (fill) doc.rect(page, MARGIN, writer.y, CONTENT_WIDTH, height, { fill });
+    lines.forEach((cell, i) => {
+      cell.forEach((line, l) =>
+        doc.textLine(page, x + padding, writer.y + padding + size + l * leading, line, size, color)
+      );
+      x += widths[i];
+    });
+    doc.line(page, MARGIN, writer.y + height, MARGIN + CONTENT_WIDTH, writer.y + height, RULE_COLOR);
+    writer.y += height;
+  };
+  const drawHeader = () => drawRow(header, headerHeight, writer.primary, 'FFFFFF');
+
+  writer.ensureSpace(headerHeight * 2);
+  drawHeader();
+  section.rows.forEach((row, r) => {
+    const lines = cellLines(row, i => i === section.highlightColumn);
+    const height = rowHeight(lines);
+    if (writer.y + height > CONTENT_BOTTOM) {
+      writer.newPage();
+      drawHeader();
+    }
+    drawRow(lines, height, r % 2 === 1 ? PANEL_COLOR : undefined, TEXT_COLOR);
+  });
+  writer.y += 8;
+}
+
+function renderRecommendations(writer: PdfReportWriter, section: RecommendationsSection): void {
+  const badgeWidth = 62;
+  const textX = MARGIN + badgeWidth + 10;
+  const textWidthAvailable = CONTENT_WIDTH - badgeWidth - 10;
+
+  for (const item of section.items) {
+    const title = wrapRuns([{ text: item.text }], textWidthAvailable, BODY_SIZE, true);
+    const detail = item.detail ? wrapRuns([{ text: item.detail }], textWidthAvailable, 9) : [];
+    writer.ensureSpace(Math.min(title.length * BODY_LEADING + detail.length * 12 + 8, 120));
+
+    const { doc, page } = writer;
+    doc.rect(page, MARGIN, writer.y + 1, badgeWidth, 14, { fill: PRIORITY_COLORS[item.priority] });
+    doc.text(page, MARGIN + badgeWidth / 2, writer.y + 11, item.priority.toUpperCase(), {
+      font: 'bold',
+      size: 7,
+      color: 'FFFFFF',
+      align: 'center',
+    });
+    writer.lines(title, textX, BODY_SIZE, BODY_LEADING);
+    writer.lines(detail, textX, 9, 12, MUTED_COLOR);
+    writer.y += 8;
+  }
+}
+
+function renderTimeline(writer: PdfReportWriter, section: TimelineSection): void {
+  const railX = MARGIN + 6;
+  const textX = MARGIN + 24;
+  const width = CONTENT_WIDTH - 24;
+
+  for (const item of section.items) {
+    const event = wrapRuns([{ text: item.event }], width, BODY_SIZE, true);
+    const detail = item.detail ? wrapRuns([{ text: item.detail }], width, 9) : [];
+    const height = 14 + event.length * BODY_LEADING + detail.length * 12 + 10;
+    writer.ensureSpace(Math.min(height, 120));
+
+    const { doc, page } = writer;
+    const top = writer.y;
+    const color = item.status ? TIMELINE_STATUS_COLORS[item.status] : writer.primary;
+    doc.line(page, railX, top, railX, Math.min(top + height, CONTENT_BOTTOM), RULE_COLOR, 1.5);
+    doc.polygon(page, circlePoints(railX, top + 6, 5), { fill: color });
+
+    const status = item.status ? `  ·  ${humanizeEnum(item.status)}` : '';
+    doc.text(page, textX, top + 10, `${item.date}${status}`, { font: 'bold', size: 9, color });
+    writer.y = top + 14;
+    writer.lines(event, textX, BODY_SIZE, BODY_LEADING);
+    writer.lines(detail, textX, 9, 12, MUTED_COLOR);
+    writer.y += 10;
+  }
+}
+
+function renderComparison(writer: PdfReportWriter, section: ComparisonSection): void {
+  const gap = 16;
+  const columnWidth = (CONTENT_WIDTH - gap) / 2;
+  const sides = [section.left, section.right];
+
+  writer.ensureSpace(60);
+  const headerTop = writer.y;
+  sides.forEach((side, i) => {
+    const x = MARGIN + i * (columnWidth + gap);
+    writer.doc.rect(writer.page, x, headerTop, columnWidth, 22, { fill: writer.primary });
+    writer.doc.text(writer.page, x + 8, headerTop + 15, fitText(side.label, 'bold', 11, columnWidth - 16), {
+      font: 'bold',
+      size: 11,
+      color: 'FFFFFF',
+    });
+  });
+  writer.y = headerTop + 30;
+
+  const rows = Math.max(section.left.points.length, section.right.points.length);
+  for (let r = 0; r < rows; r++) {
+    const cells = sides.map(side =>
+      side.points[r] ? wrapRuns([{ text: side.points[r] }], columnWidth - 20, BODY_SIZE) : []
+    );
+    const height = Math.max(...cells.map(lines => lines.length)) * BODY_LEADING + 6;
+    writer.ensureSpace(height);
+    const top = writer.y;
+    cells.forEach((lines, i) => {
+      const x = MARGIN + i * (columnWidth + gap);
+      if (lines.length === 0) return;
+      writer.doc.text(writer.page, x + 6, top + BODY_SIZE, '•', { size: BODY_SIZE, color: writer.primary });
+      lines.forEach((line, l) =>
+        writer.doc.textLine(writer.page, x + 18, top + BODY_SIZE + l * BODY_LEADING, line, BODY_SIZE)
+      );
+    });
+    writer.y = top + height;
+  }
+  writer.y += 6;
+}
+
+// ─── Charts ───
+
+function drawLegend(
+  doc: PdfDocument,
+  page: number,
+  entries: { label: string; color: string }[],
+  x: number,
+  y: number,
+  width: number
+): number {
+  let cursorX = x;
+  let cursorY = y;
+  for (const entry of entries) {
+    const label = fitText(entry.label, 'regular', 8, 140);
+    const entryWidth = 14 + textWidth(label, 'regular', 8) + 14;
+    if (cursorX + entryWidth > x + width && cursorX > x) {
+      cursorX = x;
+      cursorY += 12;
+    }
+    doc.rect(page, cursorX, cursorY, 9, 9, { fill: entry.color });
+    doc.text(page, cursorX + 13, cursorY + 8, label, { size: 8, color: TEXT_COLOR });
+    cursorX += entryWidth;
+  }
+  return cursorY + 16 - y;
+}
+
+/** Draws a chart model into the box (x, y, width, height) */
+export function drawChart(
+  doc: PdfDocument,
+  page: number,
+  model: ChartModel,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  if (model.series.length === 0 || model.categories.length === 0) return;
+
+  if (model.kind === 'pie' || model.kind === 'doughnut') {
+    drawCircularChart(doc, page, model, x, y, width, height);
+    return;
+  }
+  if (model.kind === 'radar') {
+    drawRadarChart(doc, page, model, x, y, width, height);
+    return;
+  }
+
+  const legendEntries =
+    model.varyColors && model.series.length === 1 ? [] : model.series.map(s => ({ label: s.name, color: s.color }));
+  const legendHeight = legendEntries.length > 0 ? drawLegend(doc, page, legendEntries, x, y, width) : 0;
+
+  const range = valueRange(model);
+  const scale = niceScale(range.min, range.max);
+  const labelFont: PdfFont = 'regular';
+  const categoryLabelWidth = model.horizontal
+    ? Math.min(110, Math.max(...model.categories.map(c => textWidth(c, labelFont, 7))) + 6)
+    : 0;
+
+  const plot = {
+    left: x + (model.horizontal ? categoryLabelWidth : 36),
+    top: y + legendHeight + 6,
+    right: x + width - 8,
+    bottom: y + height - (model.horizontal ? 16 : 24),
+  };
+  const plotWidth = plot.right - plot.left;
+  const plotHeight = plot.bottom - plot.top;
+  const span = scale.max - scale.min;
+
+  // Value axis: gridlines + tick labels
+  for (const tick of scale.ticks) {
+    const ratio = (tick - scale.min) / span;
+    if (model.horizontal) {
+      const tx = plot.left + ratio * plotWidth;
+      doc.line(page, tx, plot.top, tx, plot.bottom, tick === 0 ? '999999' : 'E3E6EB');
+      doc.text(page, tx, plot.bottom + 11, formatTick(tick), { size: 7, color: MUTED_COLOR, align: 'center' });
+    } else {
+      const ty = plot.bottom - ratio * plotHeight;
+      doc.line(page, plot.left, ty, plot.right, ty, tick === 0 ? '999999' : 'E3E6EB');
+      doc.text(page, plot.left - 4, ty + 2.5, formatTick(tick), { size: 7, color: MUTED_COLOR, align: 'right' });
+    }
+  }
+
+  const bandCount = model.categories.length;
+  const band = (model.horizontal ? plotHeight : plotWidth) / bandCount;
+  const toValue = (value: number) => ((value - scale.min) / span) * (model.horizontal ? plotWidth : plotHeight);
+  const zero = toValue(0);
+
+  // Category labels
+  model.categories.forEach((category, i) => {
+    if (model.horizontal) {
+      const label = fitText(category, labelFont, 7, categoryLabelWidth - 6);
+      doc.text(page, plot.left - 4, plot.top + band * (i + 0.5) + 2.5, label, {
+        size: 7,
+        color: TEXT_COLOR,
+        align: 'right',
+      });
+    } else {
+      const label = fitText(category, labelFont, 7, Math.max(band - 2, 12));
+      doc.text(page, plot.left + band * (i + 0.5), plot.bottom + 11, label, {
+        size: 7,
+        color: TEXT_COLOR,
+        align: 'center',
+      });
+    }
+  });
+
+  if (model.kind === 'bar') {
+    const groupWidth = band * 0.75;
+    const barWidth = model.stacked ? groupWidth : groupWidth / model.series.length;
+    model.categories.forEach((_, i) => {
+      let positiveStack = zero;
+      let negativeStack = zero;
+      model.series.forEach((series, s) => {
+        const length = toValue(series.values[i]) - zero;
+        let start: number;
+        if (model.stacked) {
+          start = length >= 0 ? positiveStack : negativeStack + length;
+          if (length >= 0) positiveStack += length;
+          else negativeStack += length;
+        } else {
+          start = length >= 0 ? zero : zero + length;
+        }
+        const offset = band * i + (band - groupWidth) / 2 + (model.stacked ? 0 : s * barWidth);
+        const size = Math.abs(length);
+        const fill = series.pointColors[i];
+        if (model.horizontal) {
+          doc.rect(page, plot.left + start, plot.top + offset, size, barWidth, { fill });
+        } else {
+          doc.rect(page, plot.left + offset, plot.bottom - start - size, barWidth, size, { fill });
+        }
+      });
+    });
+    return;
+  }
+
+  // line / scatter
+  model.series.forEach(series => {
+    const points = series.values.map(
+      (value, i) => [plot.left + band * (i + 0.5), plot.bottom - toValue(value)] as Point
+    );
+    if (model.kind === 'line') doc.polyline(page, points, series.color, 1.5);
+    points.forEach(([px, py]) => doc.polygon(page, circlePoints(px, py, 2.5), { fill: series.color }));
+  });
+}
+
+function drawCircularChart(
+  doc: PdfDocument,
+  page: number,
+  model: ChartModel,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const series = model.series[0];
+  const total = series.values.reduce((sum, value) => sum + Math.max(0, value), 0);
+  const radius = Math.min(height / 2 - 8, width * 0.3);
+  const cx = x + radius + 20;
+  const cy = y + height / 2;
+
+  if (total > 0) {
+    let angle = -Math.PI / 2;
+    series.values.forEach((value, i) => {
+      if (value <= 0) return;
+      const sweep = (value / total) * Math.PI * 2;
+      doc.polygon(page, [[cx, cy], ...circlePoints(cx, cy, radius, angle, angle + sweep)], {
+        fill: series.pointColors[i],
+        stroke: 'FFFFFF',
+        lineWidth: 1,
+      });
+      angle += sweep;
+    });
+    if (model.kind === 'doughnut') {
+      doc.polygon(page, circlePoints(cx, cy, radius * 0.55), { fill: 'FFFFFF' });
+    }
+  }
+
+  const legendX = cx + radius + 30;
+  const legendWidth = x + width - legendX;
+  model.categories.forEach((category, i) => {
+    const ly = y + 20 + i * 16;
+    if (ly > y + height - 8) return;
+    const share = total > 0 ? ` (${Math.round((Math.max(0, series.values[i]) / total) * 100)}%)` : '';
+    doc.rect(page, legendX, ly - 8, 9, 9, { fill: series.pointColors[i] });
+    doc.text(
+      page,
+      legendX + 14,
+      ly,
+      fitText(`${category}: ${formatTick(series.values[i])}${share}`, 'regular', 8, legendWidth - 14),
+      {
+        size: 8,
+        color: TEXT_COLOR,
+      }
+    );
+  });
+}
+
+function drawRadarChart(
+  doc: PdfDocument,
+  page: number,
+  model: ChartModel,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): void {
+  const legendHeight = drawLegend(
+    doc,
+    page,
+    model.series.map(s => ({ label: s.name, color: s.color })),
+    x,
+    y,
+    width
+  );
+  const radius = (height - legendHeight - 30) / 2;
+  const cx = x + width / 2;
+  const cy = y + legendHeight + 14 + radius;
+  const scale = niceScale(0, valueRange(model).max);
+  const count = model.categories.length;
+  const axisAngle = (i: number) => -Math.PI / 2 + (i / count) * Math.PI * 2;
+  const pointAt = (i: number, ratio: number): Point => [
+    cx + Math.cos(axisAngle(i)) * radius * ratio,
+    cy + Math.sin(axisAngle(i)) * radius * ratio,
+  ];
+
+  for (const tick of scale.ticks.slice(1)) {
+    const ring = model.categories.map((_, i) => pointAt(i, tick / scale.max));
+    doc.polyline(page, [...ring, ring[0]], 'E3E6EB', 0.5);
+  }
+  model.categories.forEach((category, i) => {
+    const [ex, ey] = pointAt(i, 1);
+    doc.line(page, cx, cy, ex, ey, 'E3E6EB');
+    const [lx, ly] = pointAt(i, 1.1);
+    const align = Math.abs(lx - cx) < 4 ? 'center' : lx > cx ? 'left' : 'right';
+    doc.text(page, lx, ly + 3, fitText(category, 'regular', 7, 90), { size: 7, color: TEXT_COLOR, align });
+  });
+  model.series.forEach(series => {
+    const points = series.values.map((value, i) => pointAt(i, Math.max(0, value) / scale.max));
+    doc.polyline(page, [...points, points[0]], series.color, 1.5);
+  });
+}
+
+// ─── Document ───
+
+function renderSection(writer: PdfReportWriter, section: ReportSection, report: Report): void {
+  if (section.type === 'cover') {
+    renderCover(writer, section, report);
+    return;
+  }
+
+  writer.sectionTitle(section.title);
+  switch (section.type) {
+    case 'executive_summary':
+      return renderExecutiveSummary(writer, section);
+    case 'kpi_dashboard':
+      return renderKpis(writer, section);
+    case 'chart':
+      return renderChart(writer, section);
+    case 'table':
+      return renderTable(writer, section);
+    case 'content':
+      return writer.markdown(parseMarkdownBlocks(section.content));
+    case 'recommendations':
+      return renderRecommendations(writer, section);
+    case 'timeline':
+      return renderTimeline(writer, section);
+    case 'comparison':
+      return renderComparison(writer, section);
+  }
+}
+
+export function renderReportPdf(report: Report): Uint8Array {
+  const writer = new PdfReportWriter(resolvePrimaryColor(report));
+  for (const section of report.sections) renderSection(writer, section, report);
+
+  const hasCover = report.sections[0]?.type === 'cover';
+  const footer = report.meta.branding?.companyName ?? report.meta.title;
+  const pageCount = writer.doc.pageCount;
+  for (let page = hasCover ? 1 : 0; page < pageCount; page++) {
+    const y = PDF_PAGE.height - 30;
+    writer.doc.line(page, MARGIN, y - 12, PDF_PAGE.width - MARGIN, y - 12, RULE_COLOR);
+    writer.doc.text(page, MARGIN, y, fitText(footer, 'regular', 8, CONTENT_WIDTH - 80), {
+      size: 8,
+      color: MUTED_COLOR,
+    });
+    writer.doc.text(page, PDF_PAGE.width - MARGIN, y, `${page + 1} / ${pageCount}`, {
+      size: 8,
+      color: MUTED_COLOR,
+      align: 'right',
+    });
+  }
+
+  return writer.doc.toBytes({
+    title: report.meta.title,
+    author: report.meta.author,
+    subject: report.meta.subtitle,
+  });
+}
@@ -0,0 +1,662 @@
+/**
+ * Report → PPTX (PresentationML)
+ *
+ * 16:9 deck: a cover slide, then one slide per section. Long sections continue on
+ * extra slides ("Title (2/3)") instead of overflowing: text is paginated with a
+ * line-count estimate, tables and timelines by row count, KPI cards by grid size.
+ * Charts are native PowerPoint charts built from the Chart.js config (office-chart.ts).
+ */
+
+import type {
+  ChartSection,
+  ComparisonSection,
+  CoverSection,
+  ExecutiveSummarySection,
+  KpiDashboardSection,
+  RecommendationsSection,
+  Report,
+  ReportSection,
+  TableSection,
+  TimelineSection,
+} from '../../schemas/report-schema';
+import { REPORT_EXPORT } from '../../constants';
+import { buildChartModel, type ChartModel } from './chart-model';
+import { parseMarkdownBlocks, runsToText } from './markdown';
+import { buildChartXml } from './office-chart';
+import {
+  CHART_CONTENT_TYPE,
+  REL_TYPES,
+  XML_DECLARATION,
+  contentTypesXml,
+  corePropertiesXml,
+  createZip,
+  escapeXml,
+  relationshipsXml,
+  type Relationship,
+} from './ooxml';
+import {
+  MUTED_COLOR,
+  PANEL_COLOR,
+  PRIORITY_COLORS,
+  RULE_COLOR,
+  TEXT_COLOR,
+  TIMELINE_STATUS_COLORS,
+  TREND_STYLES,
+  humanizeEnum,
+  resolvePrimaryColor,
+} from './theme';
+import type { TextBlock, TextRun } from './types';
+
+const A_NS = 'http://schemas.openxmlformats.org/drawingml/2006/main';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const P_NS = 'http://schemas.openxmlformats.org/presentationml/2006/main';
+const NAMESPACES = `xmlns:a="${A_NS}" xmlns:r="${R_NS}" xmlns:p="${P_NS}"`;
+
+const EMU_PER_PT = 12700;
+const SLIDE_WIDTH = 12_192_000;
+const SLIDE_HEIGHT = 6_858_000;
+const MARGIN = 457_200;
+const CONTENT_WIDTH = SLIDE_WIDTH - MARGIN * 2;
+const BODY_TOP = 1_234_440;
+const BODY_HEIGHT = SLIDE_HEIGHT - BODY_TOP - 640_080;
+
+const BODY_FONT_PT = 16;
+const TABLE_FONT_PT = 12;
+const TABLE_ROW_HEIGHT = 370_840;
+const TABLE_ROWS_PER_SLIDE = 10;
+const TIMELINE_ROWS_PER_SLIDE = 6;
+const KPI_COLUMNS = 4;
+const KPI_ROWS = 2;
+
+interface RunStyle {
+  size?: number;
+  bold?: boolean;
+  italic?: boolean;
+  color?: string;
+}
+
+interface ParagraphOptions {
+  bullet?: 'char' | 'number';
+  align?: 'l' | 'ctr' | 'r';
+  /** Space after, in points */
+  spaceAfter?: number;
+}
+
+function run(text: string, style: RunStyle = {}): string {
+  const size = Math.round((style.size ?? BODY_FONT_PT) * 100);
+  return (
+    `<a:r><a:rPr lang="en-US" sz="${size}"${style.bold ? ' b="1"' : ''}${style.italic ? ' i="1"' : ''} dirty="0">` +
+    `<a:solidFill><a:srgbClr val="${style.color ?? TEXT_COLOR}"/></a:solidFill></a:rPr>` +
+    `<a:t>${escapeXml(text)}</a:t></a:r>`
+  );
+}
+
+function runsXml(runs: TextRun[], base: RunStyle = {}): string {
+  return runs.map(r => run(r.text, { ...base, bold: base.bold || r.bold, italic: base.italic || r.italic })).join('');
+}
+
+function paragraph(content: string, options: ParagraphOptions = {}): string {
+  const bullet =
+    options.bullet === 'char'
+      ? '<a:buFont typeface="Arial"/><a:buChar char="•"/>'
+      : options.bullet === 'number'
+        ? '<a:buFont typeface="+mj-lt"/><a:buAutoNum type="arabicPeriod"/>'
+        : '<a:buNone/>';
+  const indent = options.bullet ? ' marL="285750" indent="-285750"' : '';
+  const spacing = `<a:spcAft><a:spcPts val="${Math.round((options.spaceAfter ?? 6) * 100)}"/></a:spcAft>`;
+  return `<a:p><a:pPr${indent} algn="${options.align ?? 'l'}">${spacing}${bullet}</a:pPr>${content}</a:p>`;
+}
+
+/** Rough rendered height of a paragraph in points (average glyph ≈ half the font size) */
+function estimateHeight(text: string, size: number, widthEmu: number, spaceAfter = 6): number {
+  const charsPerLine = Math.max(1, widthEmu / EMU_PER_PT / (size * 0.5));
+  const lines = Math.max(1, Math.ceil(text.length / charsPerLine));
+  return lines * size * 1.2 + spaceAfter;
+}
+
+interface FlowItem {
+  xml: string;
+  height: number;
+}
+
+/** Split flowing paragraphs into slide-sized pages */
+function paginate(items: FlowItem[], budget: number): FlowItem[][] {
+  const pages: FlowItem[][] = [[]];
+  let used = 0;
+  for (const item of items) {
+    const page = pages[pages.length - 1];
+    if (page.length > 0 && used + item.height > budget) {
+      pages.push([item]);
+      used = item.height;
+    } else {
+      page.push(item);
+      used += item.height;
+    }
+  }
+  return pages;
+}
+
+function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += size) chunks.push(items.slice(i, i + size));
+  return chunks.length > 0 ? chunks : [[]];
+}
+
+interface TableCell {
+  content: string;
+  fill?: string;
+}
+
+class Slide {
+  readonly shapes: string[] = [];
+  readonly charts: number[] = [];
+  private nextId = 2;
+
+  private id(): number {
+    return this.nextId++;
+  }
+
+  textBox(
+    x: number,
+    y: number,
+    w: number,
+    h: number,
+    paragraphs: string,
+    options: { fill?: string; anchor?: 't' | 'ctr' | 'b'; inset?: number } = {}
+  ): void {
+    const id = this.id();
+    const inset = options.inset ?? 91_440;
+    const fill = options.fill ? `<a:solidFill><a:srgbClr val="${options.fill}"/></a:solidFill>` : '<a:noFill/>';
+    this.shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Text ${id}"/><p:cNvSpPr txBox="1"/><p:nvPr/></p:nvSpPr>` +
+        `<p:spPr><a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(w)}" cy="${Math.round(h)}"/></a:xfrm>` +
+        `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom>${fill}<a:ln><a:noFill/></a:ln></p:spPr>` +
+        `<p:txBody><a:bodyPr wrap="square" lIns="${inset}" tIns="${inset}" rIns="${inset}" bIns="${inset}" ` +
+        `anchor="${options.anchor ?? 't'}"><a:noAutofit/></a:bodyPr><a:lstStyle/>${paragraphs || '<a:p/>'}</p:txBody></p:sp>`
+    );
+  }
+
+  rect(x: number, y: number, w: number, h: number, fill: string): void {
+    const id = this.id();
+    this.shapes.push(
+      `<p:sp><p:nvSpPr><p:cNvPr id="${id}" name="Shape ${id}"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr>` +
+        `<p:spPr><a:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(w)}" cy="${Math.round(h)}"/></a:xfrm>` +
+        `<a:prstGeom prst="rect"><a:avLst/></a:prstGeom><a:solidFill><a:srgbClr val="${fill}"/></a:solidFill>` +
+        '<a:ln><a:noFill/></a:ln></p:spPr></p:sp>'
+    );
+  }
+
+  chart(chartIndex: number, x: number, y: number, w: number, h: number): void {
+    const id = this.id();
+    this.charts.push(chartIndex);
+    this.shapes.push(
+      `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Chart ${id}"/><p:cNvGraphicFramePr/><p:nvPr/></p:nvGraphicFramePr>` +
+        `<p:xfrm><a:off x="${Math.round(x)}" y="${Math.round(y)}"/><a:ext cx="${Math.round(w)}" cy="${Math.round(h)}"/></p:xfrm>` +
+        '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart">' +
+        `<c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" r:id="rIdChart${chartIndex}"/>` +
+        '</a:graphicData></a:graphic></p:graphicFrame>'
+    );
+  }
+
+  table(y: number, widths: number[], rows: TableCell[][], rowHeight = TABLE_ROW_HEIGHT): void {
+    const id = this.id();
+    const border = `<a:lnB w="6350"><a:solidFill><a:srgbClr val="${RULE_COLOR}"/></a:solidFill></a:lnB>`;
+    const rowsXml = rows
+      .map(
+        cells =>
+          `<a:tr h="${rowHeight}">` +
+          cells
+            .map(
+              cell =>
+                `<a:tc><a:txBody><a:bodyPr/><a:lstStyle/>${cell.content || '<a:p/>'}</a:txBody>` +
+                '<a:tcPr marL="91440" marR="91440" marT="45720" marB="45720" anchor="ctr">' +
+                `${border}${cell.fill ? `<a:solidFill><a:srgbClr val="${cell.fill}"/></a:solidFill>` : '<a:noFill/>'}</a:tcPr></a:tc>`
+            )
+            .join('') +
+          '</a:tr>'
+      )
+      .join('');
+    this.shapes.push(
+      `<p:graphicFrame><p:nvGraphicFramePr><p:cNvPr id="${id}" name="Table ${id}"/>` +
+        '<p:cNvGraphicFramePr><a:graphicFrameLocks noGrp="1"/></p:cNvGraphicFramePr><p:nvPr/></p:nvGraphicFramePr>' +
+        `<p:xfrm><a:off x="${MARGIN}" y="${Math.round(y)}"/><a:ext cx="${CONTENT_WIDTH}" cy="${rowHeight * rows.length}"/></p:xfrm>` +
+        '<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/table">' +
+        `<a:tbl><a:tblPr firstRow="1" bandRow="1"/><a:tblGrid>${widths.map(w => `<a:gridCol w="${Math.round(w)}"/>`).join('')}</a:tblGrid>` +
+        `${rowsXml}</a:tbl></a:graphicData></a:graphic></p:graphicFrame>`
+    );
+  }
+
+  toXml(): string {
+    return (
+      `${XML_DECLARATION}<p:sld ${NAMESPACES}><p:cSld><p:spTree>` +
+      '<p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr>' +
+      '<p:grpSpPr><a:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/><a:chOff x="0" y="0"/><a:chExt cx="0" cy="0"/></a:xfrm></p:grpSpPr>' +
+      `${this.shapes.join('')}</p:spTree></p:cSld><p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sld>`
+    );
+  }
+}
+
+class PptxBuilder {
+  readonly slides: Slide[] = [];
+  readonly charts: ChartModel[] = [];
+
+  constructor(
+    readonly primary: string,
+    private readonly footer: string
+  ) {}
+
+  /** Titled content slide; pages > 1 adds "(2/3)" to the title */
+  contentSlide(title: string, page = 1, pages = 1): Slide {
+    const slide = new Slide();
+    const heading = pages > 1 ? `${title} (${page}/${pages})` : title;
+    slide.textBox(
+      MARGIN,
+      342_900,
+      CONTENT_WIDTH,
+      685_800,
+      paragraph(run(heading, { size: 28, bold: true, color: this.primary })),
+      {
+        anchor: 'b',
+        inset: 0,
+      }
+    );
+    slide.rect(MARGIN, 1_074_420, CONTENT_WIDTH, 38_100, this.primary);
+    slide.textBox(
+      MARGIN,
+      SLIDE_HEIGHT - 457_200,
+      CONTENT_WIDTH,
+      274_320,
+      paragraph(run(this.footer, { size: 10, color: MUTED_COLOR })),
+      {
+        inset: 0,
+      }
+    );
+    this.slides.push(slide);
+    return slide;
+  }
+
+  /** Paginated text sections (markdown, recommendations) */
+  flow(title: string, items: FlowItem[]): void {
+    const pages = paginate(items, BODY_HEIGHT / EMU_PER_PT);
+    pages.forEach((page, i) => {
+      const slide = this.contentSlide(title, i + 1, pages.length);
+      slide.textBox(MARGIN, BODY_TOP, CONTENT_WIDTH, BODY_HEIGHT, page.map(item => item.xml).join(''), { inset: 0 });
+    });
+  }
+}
+
+function markdownItems(blocks: TextBlock[]): FlowItem[] {
+  return blocks.map(block => {
+    const text = runsToText(block.runs);
+    if (block.kind === 'heading') {
+      const size = block.level <= 2 ? 20 : 18;
+      return {
+        xml: paragraph(runsXml(block.runs, { size, bold: true }), { spaceAfter: 4 }),
+        height: estimateHeight(text, size, CONTENT_WIDTH, 4),
+      };
+    }
+    const bullet = block.kind === 'bullet' ? 'char' : block.kind === 'numbered' ? 'number' : undefined;
+    return {
+      xml: paragraph(runsXml(block.runs), { bullet }),
+      height: estimateHeight(text, BODY_FONT_PT, CONTENT_WIDTH - 285_750),
+    };
+  });
+}
+
+// ─── Sections ───
+
+function renderCover(builder: PptxBuilder, section: CoverSection, report: Report): void {
+  const slide = new Slide();
+  slide.rect(0, 0, SLIDE_WIDTH, SLIDE_HEIGHT, builder.primary);
+  const subtitle = section.subtitle ?? report.meta.subtitle;
+  slide.textBox(
+    MARGIN * 2,
+    1_828_800,
+    SLIDE_WIDTH - MARGIN * 4,
+    2_286_000,
+    paragraph(run(section.title, { size: 40, bold: true, color: 'FFFFFF' }), { spaceAfter: 12 }) +
+      (subtitle ? paragraph(run(subtitle, { size: 20, color: 'FFFFFF' })) : ''),
+    { anchor: 'b', inset: 0 }
+  );
+  const details = [section.date, report.meta.branding?.companyName, report.meta.author].filter(Boolean) as string[];
+  slide.textBox(
+    MARGIN * 2,
+    4_480_560,
+    SLIDE_WIDTH - MARGIN * 4,
+    1_371_600,
+    details.map(detail => paragraph(run(detail, { size: 14, color: 'FFFFFF' }), { spaceAfter: 2 })).join(''),
+    { inset: 0 }
+  );
+  builder.slides.push(slide);
+}
+
+function renderExecutiveSummary(builder: PptxBuilder, section: ExecutiveSummarySection): void {
+  const findings = (section.keyFindings ?? []).map(finding => ({
+    xml: paragraph(run(finding, { bold: true, color: builder.primary }), { bullet: 'char' }),
+    height: estimateHeight(finding, BODY_FONT_PT, CONTENT_WIDTH - 285_750),
+  }));
+  builder.flow(section.title, [...markdownItems(parseMarkdownBlocks(section.content)), ...findings]);
+}
+
+function renderKpis(builder: PptxBuilder, section: KpiDashboardSection): void {
+  const pages = chunk(section.kpis, KPI_COLUMNS * KPI_ROWS);
+  const gap = 182_880;
+  const columns = Math.min(KPI_COLUMNS, section.kpis.length) || 1;
+  const width = (CONTENT_WIDTH - gap * (columns - 1)) / columns;
+  const height = (BODY_HEIGHT - gap * (KPI_ROWS - 1)) / KPI_ROWS;
+
+  pages.forEach((kpis, page) => {
+    const slide = builder.contentSlide(section.title, page + 1, pages.length);
+    kpis.forEach((kpi, i) => {
+      const x = MARGIN + (i % columns) * (width + gap);
+      const y = BODY_TOP + Math.floor(i / columns) * (height + gap);
+      const trend = TREND_STYLES[kpi.trend];
+      slide.rect(x, y, 45_720, height, builder.primary);
+      slide.textBox(
+        x + 45_720,
+        y,
+        width - 45_720,
+        height,
+        paragraph(run(kpi.value, { size: 32, bold: true, color: builder.primary }), { align: 'ctr', spaceAfter: 2 }) +
+          paragraph(run(kpi.label, { size: 14, color: MUTED_COLOR }), { align: 'ctr', spaceAfter: 4 }) +
+          paragraph(
+            run(kpi.delta ? `${trend.symbol} ${kpi.delta}` : trend.symbol, {
+              size: 14,
+              bold: true,
+              color: trend.color,
+            }),
+            {
+              align: 'ctr',
+            }
+          ),
+        { fill: PANEL_COLOR, anchor: 'ctr' }
+      );
+    });
+  });
+}
+
+function renderChart(builder: PptxBuilder, section: ChartSection): void {
+  const slide = builder.contentSlide(section.title);
+  let top = BODY_TOP;
+  if (section.description) {
+    slide.textBox(
+      MARGIN,
+      top,
+      CONTENT_WIDTH,
+      457_200,
+      paragraph(run(section.description, { size: 14, color: MUTED_COLOR })),
+      {
+        inset: 0,
+      }
+    );
+    top += 502_920;
+  }
+  builder.charts.push(buildChartModel(section.chartConfig));
+  slide.chart(builder.charts.length, MARGIN, top, CONTENT_WIDTH, BODY_TOP + BODY_HEIGHT - top);
+}
+
+function renderTable(builder: PptxBuilder, section: TableSection): void {
+  const lengths = section.columns.map((column, i) =>
+    Math.min(60, Math.max(column.length, ...section.rows.map(r => (r[i] ?? '').length), 4))
+  );
+  const total = lengths.reduce((sum, length) => sum + length, 0);
+  const widths = lengths.map(length => (length / total) * CONTENT_WIDTH);
+  const header = section.columns.map(column => ({
+    content: paragraph(run(column, { size: TABLE_FONT_PT, bold: true, color: 'FFFFFF' }), { spaceAfter: 0 }),
+    fill: builder.primary,
+  }));
+
+  const pages = chunk(section.rows, TABLE_ROWS_PER_SLIDE);
+  pages.forEach((rows, page) => {
+    const body = rows.map((cells, r) =>
+      cells.map((value, i) => ({
+        content: paragraph(run(value, { size: TABLE_FONT_PT, bold: i === section.highlightColumn }), { spaceAfter: 0 }),
+        fill: r % 2 === 1 ? PANEL_COLOR : undefined,
+      }))
+    );
+    builder.contentSlide(section.title, page + 1, pages.length).table(BODY_TOP, widths, [header, ...body]);
+  });
+}
+
+function renderRecommendations(builder: PptxBuilder, section: RecommendationsSection): void {
+  const items = section.items.flatMap(item => {
+    const heading = {
+      xml: paragraph(
+        run(item.priority.toUpperCase(), { size: 12, bold: true, color: PRIORITY_COLORS[item.priority] }) +
+          run('   ') +
+          run(item.text, { bold: true }),
+        { spaceAfter: item.detail ? 2 : 10 }
+      ),
+      height: estimateHeight(`${item.priority}   ${item.text}`, BODY_FONT_PT, CONTENT_WIDTH, item.detail ? 2 : 10),
+    };
+    if (!item.detail) return [heading];
+    return [
+      heading,
+      {
+        xml: paragraph(run(item.detail, { size: 14, color: MUTED_COLOR }), { spaceAfter: 10 }),
+        height: estimateHeight(item.detail, 14, CONTENT_WIDTH, 10),
+      },
+    ];
+  });
+  builder.flow(section.title, items);
+}
+
+function renderTimeline(builder: PptxBuilder, section: TimelineSection): void {
+  const widths = [CONTENT_WIDTH * 0.25, CONTENT_WIDTH * 0.75];
+  const pages = chunk(section.items, TIMELINE_ROWS_PER_SLIDE);
+  const rowHeight = Math.floor(BODY_HEIGHT / TIMELINE_ROWS_PER_SLIDE);
+  pages.forEach((items, page) => {
+    const rows = items.map(item => {
+      const color = item.status ? TIMELINE_STATUS_COLORS[item.status] : builder.primary;
+      return [
+        {
+          content:
+            paragraph(run(item.date, { size: 14, bold: true, color }), { spaceAfter: 0 }) +
+            (item.status ? paragraph(run(humanizeEnum(item.status), { size: 11, color }), { spaceAfter: 0 }) : ''),
+        },
+        {
+          content:
+            paragraph(run(item.event, { size: 14, bold: true }), { spaceAfter: 0 }) +
+            (item.detail ? paragraph(run(item.detail, { size: 12, color: MUTED_COLOR }), { spaceAfter: 0 }) : ''),
+        },
+      ];
+    });
+    builder.contentSlide(section.title, page + 1, pages.length).table(BODY_TOP, widths, rows, rowHeight);
+  });
+}
+
+function renderComparison(builder: PptxBuilder, section: ComparisonSection): void {
+  const slide = builder.contentSlide(section.title);
+  const gap = 274_320;
+  const width = (CONTENT_WIDTH - gap) / 2;
+  const headerHeight = 548_640;
+  [section.left, section.right].forEach((side, i) => {
+    const x = MARGIN + i * (width + gap);
+    slide.textBox(
+      x,
+      BODY_TOP,
+      width,
+      headerHeight,
+      paragraph(run(side.label, { size: 18, bold: true, color: 'FFFFFF' })),
+      {
+        fill: builder.primary,
+        anchor: 'ctr',
+      }
+    );
+    slide.textBox(
+      x,
+      BODY_TOP + headerHeight,
+      width,
+      BODY_HEIGHT - headerHeight,
+      side.points.map(point => paragraph(run(point, { size: 14 }), { bullet: 'char' })).join(''),
+      { fill: PANEL_COLOR }
+    );
+  });
+}
+
+function renderSection(builder: PptxBuilder, section: ReportSection, report: Report): void {
+  switch (section.type) {
+    case 'cover':
+      return renderCover(builder, section, report);
+    case 'executive_summary':
+      return renderExecutiveSummary(builder, section);
+    case 'kpi_dashboard':
+      return renderKpis(builder, section);
+    case 'chart':
+      return renderChart(builder, section);
+    case 'table':
+      return renderTable(builder, section);
+    case 'content':
+      return builder.flow(section.title, markdownItems(parseMarkdownBlocks(section.content)));
+    case 'recommendations':
+      return renderRecommendations(builder, section);
+    case 'timeline':
+      return renderTimeline(builder, section);
+    case 'comparison':
+      return renderComparison(builder, section);
+  }
+}
+
+// ─── Package parts ───
+
+function themeXml(primary: string): string {
+  const palette = REPORT_EXPORT.CHART_PALETTE.slice(0, 5).map(color => color.slice(1).toUpperCase());
+  const accents = [primary, ...palette]
+    .map((color, i) => `<a:accent${i + 1}><a:srgbClr val="${color}"/></a:accent${i + 1}>`)
+    .join('');
+  const fonts = '<a:latin typeface="Calibri"/><a:ea typeface=""/><a:cs typeface=""/>';
+  const fill = '<a:solidFill><a:schemeClr val="phClr"/></a:solidFill>';
+  const line = `<a:ln w="6350">${fill}</a:ln>`;
+  return (
+    `${XML_DECLARATION}<a:theme xmlns:a="${A_NS}" name="Report"><a:themeElements>` +
+    `<a:clrScheme name="Report"><a:dk1><a:srgbClr val="${TEXT_COLOR}"/></a:dk1><a:lt1><a:srgbClr val="FFFFFF"/></a:lt1>` +
+    `<a:dk2><a:srgbClr val="${primary}"/></a:dk2><a:lt2><a:srgbClr val="${PANEL_COLOR}"/></a:lt2>${accents}` +
+    '<a:hlink><a:srgbClr val="1565C0"/></a:hlink><a:folHlink><a:srgbClr val="6A1B9A"/></a:folHlink></a:clrScheme>' +
+    `<a:fontScheme name="Report"><a:majorFont>${fonts}</a:majorFont><a:minorFont>${fonts}</a:minorFont></a:fontScheme>` +
+    `<a:fmtScheme name="Report"><a:fillStyleLst>${fill.repeat(3)}</a:fillStyleLst><a:lnStyleLst>${line.repeat(3)}</a:lnStyleLst>` +
+    `<a:effectStyleLst>${'<a:effectStyle><a:effectLst/></a:effectStyle>'.repeat(3)}</a:effectStyleLst>` +
+    `<a:bgFillStyleLst>${fill.repeat(3)}</a:bgFillStyleLst></a:fmtScheme>` +
+    '</a:themeElements></a:theme>'
+  );
+}
+
+const EMPTY_TREE =
+  '<p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/></p:spTree>';
+
+function slideMasterXml(): string {
+  return (
+    `${XML_DECLARATION}<p:sldMaster ${NAMESPACES}><p:cSld>${EMPTY_TREE}</p:cSld>` +
+    '<p:clrMap bg1="lt1" tx1="dk1" bg2="lt2" tx2="dk2" accent1="accent1" accent2="accent2" accent3="accent3" ' +
+    'accent4="accent4" accent5="accent5" accent6="accent6" hlink="hlink" folHlink="folHlink"/>' +
+    '<p:sldLayoutIdLst><p:sldLayoutId id="2147483649" r:id="rId1"/></p:sldLayoutIdLst></p:sldMaster>'
+  );
+}
+
+function slideLayoutXml(): string {
+  return (
+    `${XML_DECLARATION}<p:sldLayout ${NAMESPACES} type="blank" preserve="1"><p:cSld name="Blank">${EMPTY_TREE}</p:cSld>` +
+    '<p:clrMapOvr><a:masterClrMapping/></p:clrMapOvr></p:sldLayout>'
+  );
+}
+
+function presentationXml(slideCount: number): string {
+  const slideIds = Array.from(
+    { length: slideCount },
+    (_, i) => `<p:sldId id="${256 + i}" r:id="rIdSlide${i + 1}"/>`
+  ).join('');
+  return (
+    `${XML_DECLARATION}<p:presentation ${NAMESPACES} saveSubsetFonts="1">` +
+    '<p:sldMasterIdLst><p:sldMasterId id="2147483648" r:id="rIdMaster"/></p:sldMasterIdLst>' +
+    `<p:sldIdLst>${slideIds}</p:sldIdLst>` +
+    `<p:sldSz cx="${SLIDE_WIDTH}" cy="${SLIDE_HEIGHT}"/><p:notesSz cx="${SLIDE_HEIGHT}" cy="${SLIDE_WIDTH}"/>` +
+    '</p:presentation>'
+  );
+}
+
+export function renderReportPptx(report: Report): Uint8Array {
+  const primary = resolvePrimaryColor(report);
+  const builder = new PptxBuilder(primary, report.meta.branding?.companyName ?? report.meta.title);
+  for (const section of report.sections) renderSection(builder, section, report);
+
+  const slideType = 'application/vnd.openxmlformats-officedocument.presentationml.slide+xml';
+  const slideParts = builder.slides.flatMap((slide, i) => {
+    const rels: Relationship[] = [
+      { id: 'rId1', type: REL_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+      ...slide.charts.map(index => ({
+        id: `rIdChart${index}`,
+        type: REL_TYPES.chart,
+        target: `../charts/chart${index}.xml`,
+      })),
+    ];
+    return [
+      { path: `ppt/slides/slide${i + 1}.xml`, content: slide.toXml() },
+      { path: `ppt/slides/_rels/slide${i + 1}.xml.rels`, content: relationshipsXml(rels) },
+    ];
+  });
+  const chartParts = builder.charts.map((model, i) => ({
+    path: `ppt/charts/chart${i + 1}.xml`,
+    content: buildChartXml(model),
+  }));
+
+  return createZip([
+    {
+      path: '[Content_Types].xml',
+      content: contentTypesXml([
+        {
+          partName: '/ppt/presentation.xml',
+          contentType: 'application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml',
+        },
+        {
+          partName: '/ppt/slideMasters/slideMaster1.xml',
+          contentType: 'application/vnd.openxmlformats-officedocument.presentationml.slideMaster+xml',
+        },
+        {
+          partName: '/ppt/slideLayouts/slideLayout1.xml',
+          contentType: 'application/vnd.openxmlformats-officedocument.presentationml.slideLayout+xml',
+        },
+        { partName: '/ppt/theme/theme1.xml', contentType: 'application/vnd.openxmlformats-officedocument.theme+xml' },
+        ...builder.slides.map((_, i) => ({ partName: `/ppt/slides/slide${i + 1}.xml`, contentType: slideType })),
+        ...chartParts.map(part => ({ partName: `/${part.path}`, contentType: CHART_CONTENT_TYPE })),
+      ]),
+    },
+    {
+      path: '_rels/.rels',
+      content: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.officeDocument, target: 'ppt/presentation.xml' },
+        { id: 'rId2', type: REL_TYPES.coreProperties, target: 'docProps/core.xml' },
+      ]),
+    },
+    { path: 'docProps/core.xml', content: corePropertiesXml(report) },
+    { path: 'ppt/presentation.xml', content: presentationXml(builder.slides.length) },
+    {
+      path: 'ppt/_rels/presentation.xml.rels',
+      content: relationshipsXml([
+        { id: 'rIdMaster', type: REL_TYPES.slideMaster, target: 'slideMasters/slideMaster1.xml' },
+        { id: 'rIdTheme', type: REL_TYPES.theme, target: 'theme/theme1.xml' },
+        ...builder.slides.map((_, i) => ({
+          id: `rIdSlide${i + 1}`,
+          type: REL_TYPES.slide,
+          target: `slides/slide${i + 1}.xml`,
+        })),
+      ]),
+    },
+    { path: 'ppt/slideMasters/slideMaster1.xml', content: slideMasterXml() },
+    {
+      path: 'ppt/slideMasters/_rels/slideMaster1.xml.rels',
+      content: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.slideLayout, target: '../slideLayouts/slideLayout1.xml' },
+        { id: 'rId2', type: REL_TYPES.theme, target: '../theme/theme1.xml' },
+      ]),
+    },
+    { path: 'ppt/slideLayouts/slideLayout1.xml', content: slideLayoutXml() },
+    {
+      path: 'ppt/slideLayouts/_rels/slideLayout1.xml.rels',
+      content: relationshipsXml([
+        { id: 'rId1', type: REL_TYPES.slideMaster, target: '../slideMasters/slideMaster1.xml' },
+      ]),
+    },
+    { path: 'ppt/theme/theme1.xml', content: themeXml(primary) },
+    ...slideParts,
+    ...chartParts,
+  ]);
+}
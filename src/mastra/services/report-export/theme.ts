@@ -0,0 +1,49 @@
+/**
+ * Shared look for exported reports, so PDF, DOCX and PPTX agree on colors.
+ * Colors are RRGGBB without '#', the form both PDF operators and OOXML attributes take.
+ */
+
+import { REPORT_EXPORT } from '../../constants';
+import type { KpiDashboardSection, RecommendationsSection, Report, TimelineSection } from '../../schemas/report-schema';
+import { parseColor } from './chart-model';
+
+export const TEXT_COLOR = '222222';
+export const MUTED_COLOR = '666666';
+export const RULE_COLOR = 'D0D5DD';
+export const PANEL_COLOR = 'F4F6FA';
+
+export const PRIORITY_COLORS: Record<RecommendationsSection['items'][number]['priority'], string> = {
+  critical: 'B71C1C',
+  high: 'E65100',
+  medium: 'F9A825',
+  low: '2E7D32',
+};
+
+export const TIMELINE_STATUS_COLORS: Record<NonNullable<TimelineSection['items'][number]['status']>, string> = {
+  completed: '2E7D32',
+  in_progress: '1565C0',
+  planned: '9E9E9E',
+};
+
+/** Language-neutral trend marker (Office formats print the symbol; PDF draws the shape) */
+export const TREND_STYLES: Record<
+  KpiDashboardSection['kpis'][number]['trend'],
+  { direction: 'up' | 'down' | 'flat'; symbol: string; color: string }
+> = {
+  up: { direction: 'up', symbol: '▲', color: '2E7D32' },
+  down: { direction: 'down', symbol: '▼', color: 'C62828' },
+  stable: { direction: 'flat', symbol: '▬', color: MUTED_COLOR },
+  flat: { direction: 'flat', symbol: '▬', color: MUTED_COLOR },
+  neutral: { direction: 'flat', symbol: '▬', color: MUTED_COLOR },
+};
+
+/** Branding color as RRGGBB, falling back to the schema default */
+export function resolvePrimaryColor(report: Report): string {
+  return parseColor(report.meta.branding?.primaryColor) ?? REPORT_EXPORT.DEFAULT_PRIMARY_COLOR.slice(1);
+}
+
+/** "in_progress" → "In progress" */
+export function humanizeEnum(value: string): string {
+  const text = value.replace(/_/g, ' ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
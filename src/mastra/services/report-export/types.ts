@@ -0,0 +1,36 @@
+/**
+ * Report Export Types
+ *
+ * Contract between the export route and the format renderers. Each renderer turns a
+ * validated Report (schemas/report-schema.ts) into a complete file in memory — no
+ * browser, canvas or native module — so the same code runs in Node and Workers.
+ */
+
+import type { ReportExportFormat } from '../../constants';
+import type { Report } from '../../schemas/report-schema';
+
+export type { ReportExportFormat };
+
+export interface RenderedReportFile {
+  format: ReportExportFormat;
+  contentType: string;
+  /** Suggested download name, e.g. "q3-phishing-results-v2.pdf" */
+  filename: string;
+  bytes: Uint8Array;
+}
+
+export type ReportRenderer = (report: Report) => Uint8Array;
+
+/** Inline text run produced by the markdown parser */
+export interface TextRun {
+  text: string;
+  bold?: boolean;
+  italic?: boolean;
+}
+
+/** Block-level markdown element — the subset the Report Agent emits */
+export type TextBlock =
+  | { kind: 'heading'; level: number; runs: TextRun[] }
+  | { kind: 'paragraph'; runs: TextRun[] }
+  | { kind: 'bullet'; runs: TextRun[] }
+  | { kind: 'numbered'; index: number; runs: TextRun[] };
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { getNextRunAt, getReportPeriod } from './cadence';
+
+describe('report schedule cadence', () => {
+  describe('getReportPeriod', () => {
+    it('covers the previous Monday–Sunday week', () => {
+      // Wednesday 2026-10-14
+      expect(getReportPeriod('weekly', new Date('2026-10-14T09:30:00Z'))).toEqual({
+        from: '2026-10-05',
+        to: '2026-10-11',
+      });
+      // On the Monday it falls due, the week that just ended
+      expect(getReportPeriod('weekly', new Date('2026-10-12T00:00:00Z'))).toEqual({
+        from: '2026-10-05',
+        to: '2026-10-11',
+      });
+    });
+
+    it('covers the previous calendar month, across year and leap-day boundaries', () => {
+      expect(getReportPeriod('monthly', new Date('2026-03-03T12:00:00Z'))).toEqual({
+        from: '2026-02-01',
+        to: '2026-02-28',
+      });
+      expect(getReportPeriod('monthly', new Date('2028-03-01T00:00:00Z'))).toEqual({
+        from: '2028-02-01',
+        to: '2028-02-29',
+      });
+      expect(getReportPeriod('monthly', new Date('2027-01-15T00:00:00Z'))).toEqual({
+        from: '2026-12-01',
+        to: '2026-12-31',
+      });
+    });
+
+    it('covers the previous calendar quarter', () => {
+      expect(getReportPeriod('quarterly', new Date('2026-10-19T08:00:00Z'))).toEqual({
+        from: '2026-07-01',
+        to: '2026-09-30',
+      });
+      expect(getReportPeriod('quarterly', new Date('2026-02-10T00:00:00Z'))).toEqual({
+        from: '2025-10-01',
+        to: '2025-12-31',
+      });
+    });
+  });
+
+  describe('getNextRunAt', () => {
+    it('is the start of the next period in UTC', () => {
+      expect(getNextRunAt('weekly', new Date('2026-10-14T09:30:00Z'))).toBe('2026-10-19T00:00:00.000Z');
+      expect(getNextRunAt('weekly', new Date('2026-10-19T00:00:00Z'))).toBe('2026-10-26T00:00:00.000Z');
+      expect(getNextRunAt('monthly', new Date('2026-12-31T23:59:59Z'))).toBe('2027-01-01T00:00:00.000Z');
+      expect(getNextRunAt('quarterly', new Date('2026-10-19T08:00:00Z'))).toBe('2027-01-01T00:00:00.000Z');
+    });
+  });
+});
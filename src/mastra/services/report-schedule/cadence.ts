@@ -0,0 +1,55 @@
+/**
+ * Report schedule cadence math (UTC).
+ *
+ * A run always reports on the last complete period before it starts — a monthly run on
+ * 3 March covers 1–28 February — so a late cron call or a retry reports on the same
+ * numbers. Schedules fall due at the start of each period (Monday / 1st of the month /
+ * 1st of the quarter, 00:00 UTC).
+ */
+
+import type { ReportScheduleCadence } from '../../constants';
+import type { ReportPeriod } from './types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toIsoDate(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+/** Start (00:00 UTC) of the period that contains `date` */
+function startOfPeriod(cadence: ReportScheduleCadence, date: Date): Date {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth();
+  switch (cadence) {
+    case 'weekly': {
+      const daysSinceMonday = (date.getUTCDay() + 6) % 7;
+      return new Date(Date.UTC(year, month, date.getUTCDate() - daysSinceMonday));
+    }
+    case 'monthly':
+      return new Date(Date.UTC(year, month, 1));
+    case 'quarterly':
+      return new Date(Date.UTC(year, Math.floor(month / 3) * 3, 1));
+  }
+}
+
+/** Start of the period `offset` periods after the one starting at `start` (Date.UTC normalizes month overflow) */
+function shiftPeriod(cadence: ReportScheduleCadence, start: Date, offset: number): Date {
+  if (cadence === 'weekly') return new Date(start.getTime() + offset * 7 * DAY_MS);
+  const months = cadence === 'monthly' ? offset : offset * 3;
+  return new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth() + months, 1));
+}
+
+/** Last complete period before `runAt` */
+export function getReportPeriod(cadence: ReportScheduleCadence, runAt: Date): ReportPeriod {
+  const currentStart = startOfPeriod(cadence, runAt);
+  const previousStart = shiftPeriod(cadence, currentStart, -1);
+  return {
+    from: toIsoDate(previousStart),
+    to: toIsoDate(new Date(currentStart.getTime() - DAY_MS)),
+  };
+}
+
+/** When the schedule is next due: the start of the period after the one containing `after` */
+export function getNextRunAt(cadence: ReportScheduleCadence, after: Date): string {
+  return shiftPeriod(cadence, startOfPeriod(cadence, after), 1).toISOString();
+}
@@ -0,0 +1,52 @@
+/**
+ * Report Delivery Sender Registry
+ *
+ * Selects how scheduled reports leave the system from the REPORT_DELIVERY_SENDER env var
+ * (default: http). Adding a transport = implement ReportDeliverySender and add a factory
+ * entry below.
+ */
+
+import { REPORT_SCHEDULES } from '../../constants';
+import { HttpReportSender } from './http-report-sender';
+import { MockReportSender } from './mock-report-sender';
+import { ReportDeliveryError, type ReportDeliverySender, type ReportDeliverySenderName } from './types';
+
+/** Shared so deliveries recorded by the mock stay visible to whoever inspects them in the same isolate */
+let mockSender: MockReportSender | null = null;
+
+function getMockSender(): MockReportSender {
+  if (!mockSender) mockSender = new MockReportSender();
+  return mockSender;
+}
+
+const SENDER_FACTORIES: Record<ReportDeliverySenderName, () => ReportDeliverySender> = {
+  // New instance per call: relay URL, token and webhook secret are read from env at use time
+  http: () => new HttpReportSender(),
+  mock: getMockSender,
+};
+
+function isReportDeliverySenderName(value: string): value is ReportDeliverySenderName {
+  return (REPORT_SCHEDULES.SENDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the configured delivery sender.
+ * Throws ReportDeliveryError for an unknown REPORT_DELIVERY_SENDER rather than silently
+ * falling back to a sender that reaches real inboxes.
+ */
+export function getReportDeliverySender(
+  name: string | undefined = process.env.REPORT_DELIVERY_SENDER
+): ReportDeliverySender {
+  const senderName = name?.trim().toLowerCase() || REPORT_SCHEDULES.DEFAULT_SENDER;
+  if (!isReportDeliverySenderName(senderName)) {
+    throw new ReportDeliveryError(
+      `Unknown REPORT_DELIVERY_SENDER "${name}". Supported: ${REPORT_SCHEDULES.SENDERS.join(', ')}`
+    );
+  }
+  return SENDER_FACTORIES[senderName]();
+}
+
+/** Clears the shared mock sender (tests) */
+export function resetMockReportSender(): void {
+  mockSender = null;
+}
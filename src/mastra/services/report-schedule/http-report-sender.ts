@@ -0,0 +1,135 @@
+/**
+ * HTTP Report Sender
+ *
+ * Production delivery for scheduled reports:
+ *   - webhook: POST JSON with the file as base64 to the schedule's https URL. When
+ *     REPORT_WEBHOOK_SECRET is set the body is signed —
+ *     X-Report-Signature: sha256=<HMAC-SHA256(secret, body) hex>.
+ *   - email: POST the message with the file attached to the mail relay at
+ *     REPORT_EMAIL_RELAY_URL (Bearer REPORT_EMAIL_RELAY_TOKEN). Workers cannot open
+ *     SMTP sockets, so an HTTP relay sits in front of the mail server.
+ *
+ * No retries: a retried POST can deliver the same report twice. Failures are recorded
+ * on the run and the report stays downloadable via /reports/:reportId/export.
+ */
+
+import { REPORT_SCHEDULES } from '../../constants';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { hmacSha256Hex } from '../../utils/core/hash-utils';
+import { isPrivateIp } from '../../tools/email-ir/raw-email-parser';
+import type { ReportDelivery, ReportDeliveryResult, ReportDeliverySender } from './types';
+
+const logger = getLogger('HttpReportSender');
+
+/**
+ * Webhook targets must be public https endpoints — the URL is tenant-supplied and the
+ * request runs from our network.
+ */
+export function isAllowedWebhookUrl(value: string): boolean {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return false;
+  }
+  if (url.protocol !== 'https:' || url.username || url.password) return false;
+  const host = url.hostname.toLowerCase().replace(/^\[|\]$/g, '');
+  if (host === 'localhost' || host.endsWith('.localhost') || host.endsWith('.internal')) return false;
+  const isIpLiteral = /^[\d.]+$/.test(host) || host.includes(':');
+  return !(isIpLiteral && isPrivateIp(host));
+}
+
+/** JSON body shared by the webhook payload and the email attachment */
+function encodeFile(delivery: ReportDelivery) {
+  return {
+    filename: delivery.file.filename,
+    contentType: delivery.file.contentType,
+    contentBase64: Buffer.from(delivery.file.bytes).toString('base64'),
+  };
+}
+
+async function postJson(url: string, body: string, headers: Record<string, string>): Promise<ReportDeliveryResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), REPORT_SCHEDULES.DELIVERY_TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body,
+      signal: controller.signal,
+      redirect: 'manual',
+    });
+    if (response.ok) return { ok: true, status: response.status };
+    const text = await response.text().catch(() => '');
+    return { ok: false, status: response.status, error: `HTTP ${response.status}: ${text.slice(0, 200)}` };
+  } catch (error) {
+    return { ok: false, status: 0, error: normalizeError(error).message };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+export class HttpReportSender implements ReportDeliverySender {
+  readonly name = 'http' as const;
+
+  async deliver(delivery: ReportDelivery): Promise<ReportDeliveryResult> {
+    const result =
+      delivery.destination.channel === 'webhook'
+        ? await this.postWebhook(delivery, delivery.destination.url)
+        : await this.sendEmail(delivery, delivery.destination.recipients);
+
+    logger.info('report_delivery_attempted', {
+      scheduleId: delivery.scheduleId,
+      runId: delivery.runId,
+      channel: delivery.destination.channel,
+      ok: result.ok,
+      status: result.status,
+    });
+    return result;
+  }
+
+  private async postWebhook(delivery: ReportDelivery, url: string): Promise<ReportDeliveryResult> {
+    if (!isAllowedWebhookUrl(url)) {
+      return { ok: false, status: 0, error: 'Webhook URL must be a public https URL' };
+    }
+
+    const body = JSON.stringify({
+      event: 'report.scheduled',
+      scheduleId: delivery.scheduleId,
+      scheduleName: delivery.scheduleName,
+      runId: delivery.runId,
+      companyId: delivery.companyId,
+      reportId: delivery.reportId,
+      version: delivery.version,
+      title: delivery.title,
+      period: delivery.period,
+      file: encodeFile(delivery),
+    });
+
+    const secret = process.env.REPORT_WEBHOOK_SECRET;
+    const headers: Record<string, string> = secret
+      ? { [REPORT_SCHEDULES.WEBHOOK_SIGNATURE_HEADER]: `sha256=${await hmacSha256Hex(secret, body)}` }
+      : {};
+    return postJson(url, body, headers);
+  }
+
+  private async sendEmail(delivery: ReportDelivery, recipients: string[]): Promise<ReportDeliveryResult> {
+    const relayUrl = process.env.REPORT_EMAIL_RELAY_URL;
+    if (!relayUrl) {
+      return { ok: false, status: 0, error: 'Email delivery is not configured (REPORT_EMAIL_RELAY_URL)' };
+    }
+
+    const file = encodeFile(delivery);
+    const body = JSON.stringify({
+      ...(process.env.REPORT_EMAIL_FROM && { from: process.env.REPORT_EMAIL_FROM }),
+      to: recipients,
+      subject: `${delivery.title} (${delivery.period.from} – ${delivery.period.to})`,
+      text: `Your scheduled report "${delivery.scheduleName}" for ${delivery.period.from} – ${delivery.period.to} is attached.`,
+      attachments: [{ filename: file.filename, contentType: file.contentType, content: file.contentBase64 }],
+    });
+
+    const token = process.env.REPORT_EMAIL_RELAY_TOKEN;
+    return postJson(relayUrl, body, token ? { Authorization: `Bearer ${token}` } : {});
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * Report Schedules
+ *
+ * Recurring per-company reports: D1-backed schedules, cadence math, the runner that
+ * regenerates and delivers a report for the last full period, and pluggable delivery
+ * senders (REPORT_DELIVERY_SENDER: http | mock).
+ */
+
+export * from './types';
+export { getNextRunAt, getReportPeriod } from './cadence';
+export * from './schedule-store';
+export { HttpReportSender, isAllowedWebhookUrl } from './http-report-sender';
+export { MockReportSender } from './mock-report-sender';
+export { getReportDeliverySender, resetMockReportSender } from './delivery-senders';
+export { resolveReportServiceCredential, type ReportServiceCredential } from './service-credentials';
+export * from './report-schedule-runner';
@@ -0,0 +1,45 @@
+/**
+ * Mock Report Sender
+ *
+ * Local stand-in for webhook and email delivery (REPORT_DELIVERY_SENDER=mock). Nothing
+ * leaves the process: each delivery is kept in memory so tests and local runs can
+ * inspect what would have been sent — including the rendered file. Destinations whose
+ * webhook URL or recipient contains "failing" are rejected, for exercising the
+ * run history's failure state.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import type { ReportDelivery, ReportDeliveryResult, ReportDeliverySender } from './types';
+
+const logger = getLogger('MockReportSender');
+
+const MAX_RECORDED_DELIVERIES = 50;
+
+export class MockReportSender implements ReportDeliverySender {
+  readonly name = 'mock' as const;
+  private readonly deliveries: ReportDelivery[] = [];
+
+  async deliver(delivery: ReportDelivery): Promise<ReportDeliveryResult> {
+    const destination = delivery.destination;
+    const target = destination.channel === 'webhook' ? destination.url : destination.recipients.join(',');
+    if (target.includes('failing')) {
+      return { ok: false, status: 502, error: 'Mock delivery failure' };
+    }
+
+    this.deliveries.push(delivery);
+    if (this.deliveries.length > MAX_RECORDED_DELIVERIES) this.deliveries.shift();
+
+    logger.info('mock_report_delivered', {
+      scheduleId: delivery.scheduleId,
+      channel: destination.channel,
+      filename: delivery.file.filename,
+      bytes: delivery.file.bytes.length,
+    });
+    return { ok: true, status: 200 };
+  }
+
+  /** Deliveries recorded so far, oldest first */
+  getDeliveries(): readonly ReportDelivery[] {
+    return this.deliveries;
+  }
+}
@@ -0,0 +1,254 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { ReportDataset, ReportOutline } from '../../schemas/report-schema';
+import type { ReportSchedule } from './types';
+import type { MockReportSender } from './mock-report-sender';
+import { getRequestContext } from '../../utils/core/request-storage';
+
+const fetchReportDatasetsMock = vi.fn();
+vi.mock('../report-data-service', () => ({
+  fetchReportDatasets: (...args: unknown[]) => fetchReportDatasetsMock(...args),
+}));
+
+const kvPutMock = vi.fn().mockResolvedValue(true);
+vi.mock('../kv-service', () => ({
+  KVService: class MockKVService {
+    put = kvPutMock;
+  },
+}));
+
+const checkLlmBudgetMock = vi.fn();
+vi.mock('../llm-cost-service', () => ({
+  checkLlmBudget: (...args: unknown[]) => checkLlmBudgetMock(...args),
+}));
+
+const logDataAccessMock = vi.fn().mockResolvedValue(true);
+vi.mock('../gdpr-service', () => ({
+  logDataAccess: (...args: unknown[]) => logDataAccessMock(...args),
+}));
+
+const claimDueMock = vi.fn();
+const recordRunMock = vi.fn().mockResolvedValue(true);
+vi.mock('./schedule-store', () => ({
+  claimDueReportSchedules: (...args: unknown[]) => claimDueMock(...args),
+  recordReportScheduleRun: (...args: unknown[]) => recordRunMock(...args),
+}));
+
+const outlineToolMock = vi.fn();
+const expandToolMock = vi.fn();
+const storeToolMock = vi.fn();
+vi.mock('../../tools/reporting/generate-report-outline-tool', () => ({
+  generateReportOutlineTool: { execute: (...args: unknown[]) => outlineToolMock(...args) },
+}));
+vi.mock('../../tools/reporting/expand-report-sections-tool', () => ({
+  expandReportSectionsTool: { execute: (...args: unknown[]) => expandToolMock(...args) },
+}));
+vi.mock('../../tools/reporting/validate-and-store-report-tool', () => ({
+  validateAndStoreReportTool: { execute: (...args: unknown[]) => storeToolMock(...args) },
+}));
+
+vi.mock('../report-export', () => ({
+  renderReportFile: vi.fn((_report: unknown, format: string, version: number) => ({
+    format,
+    contentType: 'application/pdf',
+    filename: `awareness-results-v${version}.${format}`,
+    bytes: new Uint8Array([1, 2, 3]),
+  })),
+}));
+
+const { runReportSchedule, runDueReportSchedules } = await import('./report-schedule-runner');
+const { getReportDeliverySender, resetMockReportSender } = await import('./delivery-senders');
+
+const dataset: ReportDataset = {
+  id: 'phishing-summary',
+  source: 'phishing',
+  title: 'Phishing results summary',
+  period: { from: '2026-09-01', to: '2026-09-30' },
+  columns: [{ key: 'clickRate', label: 'Click rate', type: 'percent' }],
+  rows: [{ clickRate: 12.5 }],
+};
+
+const outline: ReportOutline = {
+  meta: {
+    title: 'Awareness results',
+    author: 'Agentic Ally',
+    generatedAt: '2026-09-01T00:00:00.000Z',
+    language: 'en',
+    pageTarget: 2,
+  },
+  sections: [
+    { type: 'cover', id: 'cover', title: 'Cover', weight: 1, brief: 'Title page' },
+    {
+      type: 'kpi_dashboard',
+      id: 'kpis',
+      title: 'KPIs',
+      weight: 1,
+      brief: 'Headline rates',
+      datasetId: 'phishing-summary',
+    },
+  ],
+};
+
+const report = { meta: outline.meta, sections: [] };
+
+const schedule = (overrides: Partial<ReportSchedule> = {}): ReportSchedule => ({
+  id: 'rsch_1',
+  companyId: 'acme',
+  name: 'Monthly CISO report',
+  cadence: 'monthly',
+  template: { topic: 'Awareness results', pageTarget: 2, language: 'en', sources: ['phishing'] },
+  outline: null,
+  delivery: { channel: 'email', recipients: ['ciso@acme.test'], format: 'pdf' },
+  enabled: true,
+  nextRunAt: '2026-10-01T00:00:00.000Z',
+  lastRunAt: null,
+  createdAt: '2026-09-01 00:00:00',
+  updatedAt: '2026-09-01 00:00:00',
+  ...overrides,
+});
+
+const context = {
+  env: { agentic_ally_memory: {} },
+  token: 'acme-token',
+  baseApiUrl: 'https://api.test',
+  initiatedBy: 'cron' as const,
+  now: new Date('2026-10-01T00:10:00Z'),
+};
+
+describe('report-schedule-runner', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    resetMockReportSender();
+    vi.stubEnv('REPORT_DELIVERY_SENDER', 'mock');
+    checkLlmBudgetMock.mockResolvedValue({ state: 'ok' });
+    fetchReportDatasetsMock.mockResolvedValue({ datasets: [dataset], failedSources: [] });
+    outlineToolMock.mockResolvedValue({ success: true, data: outline });
+    expandToolMock.mockResolvedValue({ success: true, data: { expandRef: 'temp:expand:1', sectionCount: 2 } });
+    storeToolMock.mockResolvedValue({ success: true, data: { reportId: 'rpt_1', version: 1, report } });
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+  });
+
+  it('generates the last full period, keeps the report and delivers it', async () => {
+    let companyInContext: string | undefined;
+    outlineToolMock.mockImplementationOnce(async () => {
+      companyInContext = getRequestContext().companyId;
+      return { success: true, data: outline };
+    });
+
+    const run = await runReportSchedule(schedule(), context);
+
+    expect(run).toMatchObject({
+      scheduleId: 'rsch_1',
+      period: { from: '2026-09-01', to: '2026-09-30' },
+      status: 'delivered',
+      reportId: 'rpt_1',
+      version: 1,
+    });
+    expect(companyInContext).toBe('acme');
+    expect(fetchReportDatasetsMock).toHaveBeenCalledWith(
+      { token: 'acme-token', companyId: 'acme', baseApiUrl: 'https://api.test', from: '2026-09-01', to: '2026-09-30' },
+      ['phishing']
+    );
+    expect(outlineToolMock.mock.calls[0][0]).toMatchObject({
+      topic: 'Awareness results (2026-09-01 – 2026-09-30)',
+      dataRef: expect.stringMatching(/^temp:report-data:/),
+    });
+    expect(storeToolMock.mock.calls[0][0]).toEqual({ expandRef: 'temp:expand:1' });
+    expect(kvPutMock).toHaveBeenCalledWith(
+      'report:rpt_1:v1',
+      expect.objectContaining({ reportId: 'rpt_1', version: 1 }),
+      { ttlSeconds: 365 * 24 * 60 * 60 }
+    );
+
+    const deliveries = (getReportDeliverySender('mock') as MockReportSender).getDeliveries();
+    expect(deliveries).toHaveLength(1);
+    expect(deliveries[0]).toMatchObject({ runId: run.runId, file: { filename: 'awareness-results-v1.pdf' } });
+
+    expect(recordRunMock).toHaveBeenCalledWith(
+      context.env,
+      expect.objectContaining({ id: run.runId, status: 'delivered', reportId: 'rpt_1', deliveryChannel: 'email' })
+    );
+    expect(logDataAccessMock).toHaveBeenCalledWith(
+      context.env,
+      expect.objectContaining({
+        action: 'CREATE',
+        resourceType: 'AI_GENERATED',
+        resourceId: 'rpt_1',
+        initiatedBy: 'cron',
+      })
+    );
+  });
+
+  it('reuses a saved outline instead of generating one', async () => {
+    await runReportSchedule(schedule({ outline }), context);
+
+    expect(outlineToolMock).not.toHaveBeenCalled();
+    expect(expandToolMock.mock.calls[0][0].outline.sections).toEqual(outline.sections);
+  });
+
+  it('records a failed run when no data could be fetched', async () => {
+    fetchReportDatasetsMock.mockResolvedValueOnce({ datasets: [], failedSources: ['phishing'] });
+
+    const run = await runReportSchedule(schedule(), context);
+
+    expect(run).toMatchObject({ status: 'failed', error: 'Report data could not be fetched for: phishing' });
+    expect(outlineToolMock).not.toHaveBeenCalled();
+    expect(recordRunMock).toHaveBeenCalledWith(context.env, expect.objectContaining({ status: 'failed' }));
+  });
+
+  it('does not spend LLM budget the company no longer has', async () => {
+    checkLlmBudgetMock.mockResolvedValueOnce({ state: 'exceeded', month: '2026-10' });
+
+    const run = await runReportSchedule(schedule(), context);
+
+    expect(run).toMatchObject({ status: 'failed', error: 'LLM budget exceeded' });
+    expect(fetchReportDatasetsMock).not.toHaveBeenCalled();
+  });
+
+  it('keeps the report when delivery fails', async () => {
+    const run = await runReportSchedule(
+      schedule({ delivery: { channel: 'webhook', url: 'https://failing.example.com/hook', format: 'docx' } }),
+      context
+    );
+
+    expect(run).toMatchObject({ status: 'generated', reportId: 'rpt_1', error: 'Mock delivery failure' });
+  });
+
+  it('runs every claimed schedule with its own company credential and returns null without D1', async () => {
+    claimDueMock.mockResolvedValueOnce([schedule(), schedule({ id: 'rsch_2', companyId: 'globex' })]);
+    const credentials: Record<string, { token: string; baseApiUrl: string }> = {
+      acme: { token: 'acme-token', baseApiUrl: 'https://api.test' },
+      globex: { token: 'globex-token', baseApiUrl: 'https://api.test' },
+    };
+
+    const result = await runDueReportSchedules({ env: context.env, now: context.now }, id => credentials[id]);
+
+    expect(result?.runs.map(run => run.scheduleId)).toEqual(['rsch_1', 'rsch_2']);
+    expect(claimDueMock).toHaveBeenCalledWith(context.env, context.now);
+    expect(fetchReportDatasetsMock.mock.calls.map(([request]) => [request.companyId, request.token])).toEqual([
+      ['acme', 'acme-token'],
+      ['globex', 'globex-token'],
+    ]);
+    expect(logDataAccessMock).toHaveBeenCalledWith(context.env, expect.objectContaining({ initiatedBy: 'cron' }));
+
+    claimDueMock.mockResolvedValueOnce(null);
+    expect(await runDueReportSchedules({ env: context.env })).toBeNull();
+  });
+
+  it('records a failed run for a company without a service credential', async () => {
+    claimDueMock.mockResolvedValueOnce([schedule({ companyId: 'initech' })]);
+
+    const result = await runDueReportSchedules({ env: context.env, now: context.now }, () => null);
+
+    expect(result?.runs).toEqual([
+      expect.objectContaining({ status: 'failed', error: 'No service credential configured for company initech' }),
+    ]);
+    expect(fetchReportDatasetsMock).not.toHaveBeenCalled();
+    expect(recordRunMock).toHaveBeenCalledWith(
+      context.env,
+      expect.objectContaining({ companyId: 'initech', status: 'failed' })
+    );
+  });
+});
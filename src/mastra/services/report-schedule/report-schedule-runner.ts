@@ -0,0 +1,288 @@
+/**
+ * Report Schedule Runner
+ *
+ * Regenerates a scheduled report without a chat: the same pipeline the Report Agent
+ * drives (fetch data → outline → expand → validate & store), run directly against the
+ * report tools for the schedule's last full period, then rendered and delivered.
+ *
+ *   1. fetchReportDatasets for the template's sources → temp KV dataRef
+ *   2. saved outline (stable structure) or a fresh outline from the template topic
+ *   3. expand-report-sections (data-bound sections are re-derived from the datasets)
+ *   4. validate-and-store, then re-stored with REPORT_SCHEDULES.HISTORY_TTL_SECONDS
+ *   5. renderReportFile → ReportDeliverySender (webhook / email)
+ *
+ * Each run executes inside its own request context (token, company, workflowName
+ * 'report-schedule') so LLM cost is attributed to the company and its budget applies.
+ * Cron runs use the company's own service credential (service-credentials.ts); "run now"
+ * uses the requesting user's token. Every run is recorded in report_schedule_runs,
+ * including failures.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
+import { requestStorage } from '../../utils/core/request-storage';
+import { uuidv4 } from '../../utils/core/id-utils';
+import { errorService } from '../error-service';
+import { KVService } from '../kv-service';
+import { logDataAccess } from '../gdpr-service';
+import { checkLlmBudget } from '../llm-cost-service';
+import { fetchReportDatasets } from '../report-data-service';
+import { renderReportFile } from '../report-export';
+import { KV_NAMESPACES, REPORT_DATA, REPORT_SCHEDULES } from '../../constants';
+import type { Report, ReportOutline, ReportState } from '../../schemas/report-schema';
+import { buildReportDataRef } from '../../tools/reporting/report-data-utils';
+import { generateReportOutlineTool } from '../../tools/reporting/generate-report-outline-tool';
+import { expandReportSectionsTool } from '../../tools/reporting/expand-report-sections-tool';
+import { validateAndStoreReportTool } from '../../tools/reporting/validate-and-store-report-tool';
+import { getReportPeriod } from './cadence';
+import { claimDueReportSchedules, recordReportScheduleRun } from './schedule-store';
+import { getReportDeliverySender } from './delivery-senders';
+import { resolveReportServiceCredential, type ReportServiceCredential } from './service-credentials';
+import type { ReportPeriod, ReportRunStatus, ReportSchedule } from './types';
+
+const logger = getLogger('ReportScheduleRunner');
+
+/** Platform credentials the run acts with — always a token of the schedule's own company */
+export interface ReportRunContext {
+  env: Record<string, unknown> | undefined;
+  token: string;
+  baseApiUrl: string;
+  initiatedBy: 'cron' | 'user';
+  now?: Date;
+}
+
+/** Cron sweep: no caller token — each schedule's credential is resolved for its company */
+export interface ReportSweepContext {
+  env: Record<string, unknown> | undefined;
+  now?: Date;
+}
+
+export interface ReportScheduleRunSummary {
+  runId: string;
+  scheduleId: string;
+  period: ReportPeriod;
+  status: ReportRunStatus;
+  reportId?: string;
+  version?: number;
+  error?: string;
+}
+
+export interface ReportScheduleSweepResult {
+  startedAt: string;
+  runs: ReportScheduleRunSummary[];
+}
+
+interface ToolResult<T> {
+  success: boolean;
+  data?: T;
+  error?: string;
+}
+
+interface GeneratedReport {
+  reportId: string;
+  version: number;
+  report: Report;
+}
+
+/** Steps 1–4. Throws with a user-readable message when any step fails. */
+export async function generateScheduledReport(
+  schedule: ReportSchedule,
+  period: ReportPeriod,
+  context: Pick<ReportRunContext, 'token' | 'baseApiUrl'>
+): Promise<GeneratedReport> {
+  const { template } = schedule;
+  if (!generateReportOutlineTool.execute || !expandReportSectionsTool.execute || !validateAndStoreReportTool.execute) {
+    throw new Error('Report tools are not executable');
+  }
+  const kvService = new KVService(KV_NAMESPACES.MICROLEARNING);
+
+  const { datasets, failedSources } = await fetchReportDatasets(
+    { token: context.token, companyId: schedule.companyId, baseApiUrl: context.baseApiUrl, ...period },
+    template.sources
+  );
+  if (datasets.length === 0) {
+    throw new Error(`Report data could not be fetched for: ${failedSources.join(', ')}`);
+  }
+  const dataRef = buildReportDataRef();
+  if (!(await kvService.put(dataRef, datasets, { ttlSeconds: REPORT_DATA.TEMP_KV_TTL_SECONDS }))) {
+    throw new Error('Failed to store report data');
+  }
+
+  let outline: ReportOutline;
+  if (schedule.outline) {
+    outline = { ...schedule.outline, meta: { ...schedule.outline.meta, generatedAt: new Date().toISOString() } };
+  } else {
+    const generated = (await generateReportOutlineTool.execute(
+      {
+        topic: `${template.topic} (${period.from} – ${period.to})`,
+        pageTarget: template.pageTarget,
+        language: template.language,
+        mode: 'generate',
+        dataRef,
+      },
+      {}
+    )) as ToolResult<ReportOutline>;
+    if (!generated.success || !generated.data) throw new Error(generated.error || 'Outline generation failed');
+    outline = generated.data;
+  }
+
+  const expanded = (await expandReportSectionsTool.execute({ outline, dataRef }, {})) as ToolResult<{
+    expandRef: string;
+  }>;
+  if (!expanded.success || !expanded.data) throw new Error(expanded.error || 'Section expansion failed');
+
+  const stored = (await validateAndStoreReportTool.execute(
+    { expandRef: expanded.data.expandRef },
+    {}
+  )) as ToolResult<GeneratedReport>;
+  if (!stored.success || !stored.data) throw new Error(stored.error || 'Report validation failed');
+
+  // Chat reports expire after 7 days; scheduled ones are the company's report history
+  const { reportId, version, report } = stored.data;
+  const state: ReportState = { reportId, version, pageTarget: report.meta.pageTarget, report, editHistory: [] };
+  const kept = await kvService.put(`report:${reportId}:v${version}`, state, {
+    ttlSeconds: REPORT_SCHEDULES.HISTORY_TTL_SECONDS,
+  });
+  if (!kept) {
+    logger.warn('scheduled_report_history_store_failed', { scheduleId: schedule.id, reportId });
+  }
+
+  return stored.data;
+}
+
+async function finishRun(
+  env: Record<string, unknown> | undefined,
+  schedule: ReportSchedule,
+  summary: ReportScheduleRunSummary
+): Promise<ReportScheduleRunSummary> {
+  await recordReportScheduleRun(env, {
+    id: summary.runId,
+    scheduleId: schedule.id,
+    companyId: schedule.companyId,
+    period: summary.period,
+    status: summary.status,
+    reportId: summary.reportId,
+    reportVersion: summary.version,
+    deliveryChannel: summary.reportId ? schedule.delivery.channel : undefined,
+    error: summary.error,
+  });
+  logger.info('report_schedule_run_finished', {
+    scheduleId: schedule.id,
+    runId: summary.runId,
+    status: summary.status,
+    reportId: summary.reportId,
+  });
+  return summary;
+}
+
+function newRun(
+  schedule: ReportSchedule,
+  now: Date
+): Pick<ReportScheduleRunSummary, 'runId' | 'scheduleId' | 'period'> {
+  return { runId: `rrun_${uuidv4()}`, scheduleId: schedule.id, period: getReportPeriod(schedule.cadence, now) };
+}
+
+/** Generate, deliver and record one run. Never throws — failures are recorded on the run. */
+export async function runReportSchedule(
+  schedule: ReportSchedule,
+  context: ReportRunContext
+): Promise<ReportScheduleRunSummary> {
+  const base = newRun(schedule, context.now ?? new Date());
+  const { runId, period } = base;
+  const finish = (summary: ReportScheduleRunSummary) => finishRun(context.env, schedule, summary);
+
+  return requestStorage.run(
+    {
+      token: context.token,
+      baseApiUrl: context.baseApiUrl,
+      companyId: schedule.companyId,
+      env: context.env,
+      workflowName: 'report-schedule',
+    },
+    async () => {
+      const budget = await checkLlmBudget(context.env, schedule.companyId);
+      if (budget.state === 'exceeded') {
+        logger.warn('report_schedule_blocked_by_llm_budget', { scheduleId: schedule.id, month: budget.month });
+        return finish({ ...base, status: 'failed', error: 'LLM budget exceeded' });
+      }
+
+      let generated: GeneratedReport;
+      try {
+        generated = await generateScheduledReport(schedule, period, context);
+      } catch (error) {
+        const errorInfo = errorService.external(normalizeError(error).message, { scheduleId: schedule.id, runId });
+        logErrorInfo(logger, 'warn', 'report_schedule_generation_failed', errorInfo);
+        return finish({ ...base, status: 'failed', error: errorInfo.message });
+      }
+
+      const { reportId, version, report } = generated;
+      await logDataAccess(context.env, {
+        companyId: schedule.companyId,
+        action: 'CREATE',
+        resourceType: 'AI_GENERATED',
+        resourceId: reportId,
+        details: { type: 'scheduled_report', scheduleId: schedule.id, runId, period, version },
+        initiatedBy: context.initiatedBy,
+      });
+
+      try {
+        const file = renderReportFile(report, schedule.delivery.format, version);
+        const result = await getReportDeliverySender().deliver({
+          scheduleId: schedule.id,
+          scheduleName: schedule.name,
+          runId,
+          companyId: schedule.companyId,
+          reportId,
+          version,
+          title: report.meta.title,
+          period,
+          file,
+          destination: schedule.delivery,
+        });
+        return finish({
+          ...base,
+          status: result.ok ? 'delivered' : 'generated',
+          reportId,
+          version,
+          ...(result.error && { error: result.error }),
+        });
+      } catch (error) {
+        const message = normalizeError(error).message;
+        logger.warn('report_schedule_delivery_failed', { scheduleId: schedule.id, runId, error: message });
+        return finish({ ...base, status: 'generated', reportId, version, error: message });
+      }
+    }
+  );
+}
+
+/**
+ * Cron entry point: claim due schedules and run them one after another (each run is
+ * several LLM calls), each with its own company's service credential. A company without
+ * one gets a failed run. Returns null when D1 is unavailable.
+ */
+export async function runDueReportSchedules(
+  context: ReportSweepContext,
+  resolveCredential: (companyId: string) => ReportServiceCredential | null = resolveReportServiceCredential
+): Promise<ReportScheduleSweepResult | null> {
+  const now = context.now ?? new Date();
+  const due = await claimDueReportSchedules(context.env, now);
+  if (!due) return null;
+
+  const runs: ReportScheduleRunSummary[] = [];
+  for (const schedule of due) {
+    const credential = resolveCredential(schedule.companyId);
+    if (!credential) {
+      logger.warn('report_schedule_credential_missing', { scheduleId: schedule.id, companyId: schedule.companyId });
+      runs.push(
+        await finishRun(context.env, schedule, {
+          ...newRun(schedule, now),
+          status: 'failed',
+          error: `No service credential configured for company ${schedule.companyId}`,
+        })
+      );
+      continue;
+    }
+    runs.push(await runReportSchedule(schedule, { env: context.env, ...credential, initiatedBy: 'cron', now }));
+  }
+  return { startedAt: now.toISOString(), runs };
+}
@@ -0,0 +1,232 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  claimDueReportSchedules,
+  deleteReportSchedule,
+  getReportSchedule,
+  listReportScheduleRuns,
+  recordReportScheduleRun,
+  saveReportSchedule,
+} from './schedule-store';
+import type { ReportScheduleInput } from './types';
+import { REPORT_SCHEDULES } from '../../constants';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+interface MockDbOptions {
+  /** Results per SELECT, in call order (last one repeats) */
+  selects?: unknown[][];
+  /** meta.changes per run(), in call order (last one repeats) */
+  changes?: number[];
+  fail?: boolean;
+}
+
+function createMockDb(options: MockDbOptions = {}) {
+  const statements: { sql: string; values: unknown[] }[] = [];
+  let selectCall = 0;
+  let runCall = 0;
+  const prepare = vi.fn().mockImplementation((sql: string) => {
+    const entry = { sql, values: [] as unknown[] };
+    statements.push(entry);
+    const statement = {
+      bind: vi.fn((...args: unknown[]) => {
+        entry.values = args;
+        return statement;
+      }),
+      run: vi.fn(async () => {
+        if (options.fail) throw new Error('D1 error');
+        const changes = options.changes ?? [1];
+        return { success: true, meta: { changes: changes[Math.min(runCall++, changes.length - 1)] } };
+      }),
+      all: vi.fn(async () => {
+        if (options.fail) throw new Error('D1 error');
+        const selects = options.selects ?? [[]];
+        return { success: true, results: selects[Math.min(selectCall++, selects.length - 1)] };
+      }),
+    };
+    return statement;
+  });
+  return { prepare, statements };
+}
+
+const scheduleRow = (overrides: Record<string, unknown> = {}) => ({
+  id: 'rsch_1',
+  company_id: 'acme',
+  name: 'Monthly CISO report',
+  cadence: 'monthly',
+  template: JSON.stringify({ topic: 'Awareness results', pageTarget: 5, language: 'en', sources: ['phishing'] }),
+  outline: null,
+  delivery: JSON.stringify({ channel: 'email', recipients: ['ciso@acme.test'], format: 'pdf' }),
+  enabled: 1,
+  next_run_at: '2026-10-01T00:00:00.000Z',
+  last_run_at: null,
+  created_at: '2026-09-01 00:00:00',
+  updated_at: '2026-09-01 00:00:00',
+  ...overrides,
+});
+
+const input: ReportScheduleInput = {
+  companyId: 'acme',
+  name: 'Monthly CISO report',
+  cadence: 'monthly',
+  template: { topic: 'Awareness results', pageTarget: 5, language: 'en', sources: ['phishing'] },
+  delivery: { channel: 'email', recipients: ['ciso@acme.test'], format: 'pdf' },
+  enabled: true,
+};
+
+const now = new Date('2026-10-19T08:00:00Z');
+
+describe('report schedule store', () => {
+  it('returns null without a D1 binding', async () => {
+    expect(await saveReportSchedule({}, input)).toBeNull();
+    expect(await claimDueReportSchedules(undefined)).toBeNull();
+    expect(await recordReportScheduleRun({}, {} as never)).toBe(false);
+  });
+
+  describe('saveReportSchedule', () => {
+    it('creates a schedule due at the start of the next period', async () => {
+      const db = createMockDb({ selects: [[{ total: 0 }], [scheduleRow()]] });
+
+      const result = await saveReportSchedule({ agentic_ally_memory: db }, input, now);
+
+      expect(result).toMatchObject({ status: 'saved', schedule: { id: 'rsch_1', enabled: true } });
+      const insert = db.statements.find(s => s.sql.includes('INSERT INTO'))!;
+      expect(insert.values).toEqual([
+        'Monthly CISO report',
+        'monthly',
+        JSON.stringify(input.template),
+        null,
+        JSON.stringify(input.delivery),
+        1,
+        '2026-11-01T00:00:00.000Z',
+        'acme',
+        expect.stringMatching(/^rsch_/),
+      ]);
+    });
+
+    it('enforces the per-company limit', async () => {
+      const db = createMockDb({ selects: [[{ total: REPORT_SCHEDULES.MAX_PER_COMPANY }]] });
+      expect(await saveReportSchedule({ agentic_ally_memory: db }, input, now)).toEqual({ status: 'limit_reached' });
+      expect(db.statements.some(s => s.sql.includes('INSERT INTO'))).toBe(false);
+    });
+
+    it("updates only the company's own schedule", async () => {
+      const db = createMockDb({ changes: [0] });
+      const result = await saveReportSchedule({ agentic_ally_memory: db }, { ...input, id: 'rsch_other' }, now);
+      expect(result).toEqual({ status: 'not_found' });
+      expect(db.statements[0].sql).toContain('WHERE company_id = ? AND id = ?');
+      expect(db.statements[0].values.slice(-2)).toEqual(['acme', 'rsch_other']);
+    });
+  });
+
+  it('maps rows and skips corrupt ones', async () => {
+    const db = createMockDb({ selects: [[scheduleRow({ template: '{broken' })]] });
+    expect(await getReportSchedule({ agentic_ally_memory: db }, 'acme', 'rsch_1')).toBe(false);
+
+    const okDb = createMockDb({ selects: [[scheduleRow()]] });
+    expect(await getReportSchedule({ agentic_ally_memory: okDb }, 'acme', 'rsch_1')).toMatchObject({
+      companyId: 'acme',
+      cadence: 'monthly',
+      delivery: { channel: 'email', recipients: ['ciso@acme.test'] },
+      outline: null,
+    });
+  });
+
+  it('claims due schedules with a compare-and-set on next_run_at', async () => {
+    const db = createMockDb({
+      selects: [[scheduleRow(), scheduleRow({ id: 'rsch_2', cadence: 'weekly' })]],
+      // rsch_2 was claimed by a concurrent call
+      changes: [1, 0],
+    });
+
+    const claimed = await claimDueReportSchedules({ agentic_ally_memory: db }, now);
+
+    expect(claimed?.map(s => s.id)).toEqual(['rsch_1']);
+    expect(db.statements[0].values).toEqual([now.toISOString(), REPORT_SCHEDULES.RUN_BATCH_SIZE]);
+    expect(db.statements[1].values).toEqual([
+      '2026-11-01T00:00:00.000Z',
+      now.toISOString(),
+      'rsch_1',
+      '2026-10-01T00:00:00.000Z',
+    ]);
+  });
+
+  it('records and lists runs', async () => {
+    const db = createMockDb({
+      selects: [
+        [
+          {
+            id: 'rrun_1',
+            schedule_id: 'rsch_1',
+            company_id: 'acme',
+            period_from: '2026-09-01',
+            period_to: '2026-09-30',
+            status: 'generated',
+            report_id: 'rpt_1',
+            report_version: 1,
+            delivery_channel: 'email',
+            error: 'HTTP 500',
+            created_at: '2026-10-01 00:05:00',
+          },
+        ],
+      ],
+    });
+    const env = { agentic_ally_memory: db };
+
+    expect(
+      await recordReportScheduleRun(env, {
+        id: 'rrun_1',
+        scheduleId: 'rsch_1',
+        companyId: 'acme',
+        period: { from: '2026-09-01', to: '2026-09-30' },
+        status: 'failed',
+        error: 'No data',
+      })
+    ).toBe(true);
+    expect(db.statements[0].values).toEqual([
+      'rrun_1',
+      'rsch_1',
+      'acme',
+      '2026-09-01',
+      '2026-09-30',
+      'failed',
+      null,
+      null,
+      null,
+      'No data',
+    ]);
+
+    expect(await listReportScheduleRuns(env, 'acme', 'rsch_1')).toEqual([
+      {
+        id: 'rrun_1',
+        scheduleId: 'rsch_1',
+        companyId: 'acme',
+        period: { from: '2026-09-01', to: '2026-09-30' },
+        status: 'generated',
+        reportId: 'rpt_1',
+        reportVersion: 1,
+        deliveryChannel: 'email',
+        error: 'HTTP 500',
+        createdAt: '2026-10-01 00:05:00',
+      },
+    ]);
+  });
+
+  it('returns false for unknown schedules and null on D1 errors', async () => {
+    expect(await deleteReportSchedule({ agentic_ally_memory: createMockDb({ changes: [0] }) }, 'acme', 'rsch_x')).toBe(
+      false
+    );
+    expect(
+      await deleteReportSchedule({ agentic_ally_memory: createMockDb({ fail: true }) }, 'acme', 'rsch_x')
+    ).toBeNull();
+    expect(
+      await listReportScheduleRuns({ agentic_ally_memory: createMockDb({ fail: true }) }, 'acme', 'rsch_x')
+    ).toBeNull();
+  });
+});
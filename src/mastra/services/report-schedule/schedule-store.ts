@@ -0,0 +1,404 @@
+/**
+ * Report Schedule Store (D1)
+ *
+ * Schedules and their run history (migrations/0012_report_schedules.sql). The cron run
+ * claims a due schedule by advancing next_run_at with a compare-and-set, so overlapping
+ * cron calls never generate the same report twice.
+ *
+ * Pattern: follows gdpr-service.ts — never throws; returns null/false when D1 is
+ * unavailable or a query fails.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { uuidv4 } from '../../utils/core/id-utils';
+import { REPORT_SCHEDULES, type ReportDeliveryChannel, type ReportScheduleCadence } from '../../constants';
+import { ReportOutlineSchema, type ReportOutline } from '../../schemas/report-schema';
+import { getNextRunAt } from './cadence';
+import type {
+  ReportPeriod,
+  ReportRunStatus,
+  ReportSchedule,
+  ReportScheduleDelivery,
+  ReportScheduleInput,
+  ReportScheduleRun,
+  ReportScheduleTemplate,
+} from './types';
+
+const logger = getLogger('ReportScheduleStore');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  all(): Promise<D1Result>;
+}
+
+interface D1Result {
+  success: boolean;
+  results?: unknown[];
+  meta?: { changes?: number };
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Rows ───
+
+interface ScheduleRow {
+  id: string;
+  company_id: string;
+  name: string;
+  cadence: string;
+  template: string;
+  outline: string | null;
+  delivery: string;
+  enabled: number;
+  next_run_at: string;
+  last_run_at: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+interface RunRow {
+  id: string;
+  schedule_id: string;
+  company_id: string;
+  period_from: string;
+  period_to: string;
+  status: string;
+  report_id: string | null;
+  report_version: number | null;
+  delivery_channel: string | null;
+  error: string | null;
+  created_at: string;
+}
+
+export type SaveReportScheduleResult =
+  { status: 'saved'; schedule: ReportSchedule } | { status: 'not_found' } | { status: 'limit_reached' };
+
+export interface ReportScheduleRunInput {
+  id: string;
+  scheduleId: string;
+  companyId: string;
+  period: ReportPeriod;
+  status: ReportRunStatus;
+  reportId?: string;
+  reportVersion?: number;
+  deliveryChannel?: ReportDeliveryChannel;
+  error?: string;
+}
+
+// ─── Mapping ───
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, report schedules disabled');
+    return null;
+  }
+  return db;
+}
+
+function parseJson(value: string | null): unknown {
+  try {
+    return value ? JSON.parse(value) : null;
+  } catch {
+    return null;
+  }
+}
+
+/** Rows with an unknown cadence or corrupt JSON are skipped rather than run with guessed settings */
+function toSchedule(row: ScheduleRow): ReportSchedule | null {
+  if (!(REPORT_SCHEDULES.CADENCES as readonly string[]).includes(row.cadence)) return null;
+  const template = parseJson(row.template) as ReportScheduleTemplate | null;
+  const delivery = parseJson(row.delivery) as ReportScheduleDelivery | null;
+  if (!template || !delivery) return null;
+  const outline = ReportOutlineSchema.safeParse(parseJson(row.outline));
+
+  return {
+    id: row.id,
+    companyId: row.company_id,
+    name: row.name,
+    cadence: row.cadence as ReportScheduleCadence,
+    template,
+    outline: outline.success ? (outline.data as ReportOutline) : null,
+    delivery,
+    enabled: row.enabled === 1,
+    nextRunAt: row.next_run_at,
+    lastRunAt: row.last_run_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toRun(row: RunRow): ReportScheduleRun {
+  return {
+    id: row.id,
+    scheduleId: row.schedule_id,
+    companyId: row.company_id,
+    period: { from: row.period_from, to: row.period_to },
+    status: row.status as ReportRunStatus,
+    reportId: row.report_id,
+    reportVersion: row.report_version,
+    deliveryChannel: row.delivery_channel as ReportDeliveryChannel | null,
+    error: row.error,
+    createdAt: row.created_at,
+  };
+}
+
+function toSchedules(result: D1Result | undefined): ReportSchedule[] {
+  return ((result?.results as ScheduleRow[] | undefined) ?? [])
+    .map(toSchedule)
+    .filter((schedule): schedule is ReportSchedule => schedule !== null);
+}
+
+const SELECT_COLUMNS = `id, company_id, name, cadence, template, outline, delivery, enabled,
+  next_run_at, last_run_at, created_at, updated_at`;
+
+async function findSchedule(db: D1Database, companyId: string, id: string): Promise<ReportSchedule | null> {
+  const result = await db
+    .prepare(`SELECT ${SELECT_COLUMNS} FROM ${REPORT_SCHEDULES.TABLE} WHERE company_id = ? AND id = ?`)
+    .bind(companyId, id)
+    .all();
+  const row = (result?.results as ScheduleRow[] | undefined)?.[0];
+  return row ? toSchedule(row) : null;
+}
+
+// ─── Schedules ───
+
+export async function listReportSchedules(
+  env: Record<string, unknown> | undefined,
+  companyId: string
+): Promise<ReportSchedule[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        `SELECT ${SELECT_COLUMNS} FROM ${REPORT_SCHEDULES.TABLE}
+         WHERE company_id = ? ORDER BY name, id LIMIT ${REPORT_SCHEDULES.LIST_LIMIT}`
+      )
+      .bind(companyId)
+      .all();
+    return toSchedules(result);
+  } catch (error) {
+    logger.warn('report_schedule_list_failed', { error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/** Returns false when the company has no such schedule, null when D1 is unavailable or the query fails */
+export async function getReportSchedule(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  id: string
+): Promise<ReportSchedule | false | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    return (await findSchedule(db, companyId, id)) ?? false;
+  } catch (error) {
+    logger.warn('report_schedule_get_failed', { scheduleId: id, error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/**
+ * Create a schedule (input.id omitted) or replace one of the company's schedules.
+ * next_run_at is reset from the cadence on every save. Returns null when D1 is
+ * unavailable or the write fails.
+ */
+export async function saveReportSchedule(
+  env: Record<string, unknown> | undefined,
+  input: ReportScheduleInput,
+  now: Date = new Date()
+): Promise<SaveReportScheduleResult | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  const values = [
+    input.name,
+    input.cadence,
+    JSON.stringify(input.template),
+    input.outline ? JSON.stringify(input.outline) : null,
+    JSON.stringify(input.delivery),
+    input.enabled ? 1 : 0,
+    getNextRunAt(input.cadence, now),
+  ];
+  const id = input.id ?? `rsch_${uuidv4()}`;
+
+  try {
+    if (input.id) {
+      const result = await db
+        .prepare(
+          `UPDATE ${REPORT_SCHEDULES.TABLE}
+           SET name = ?, cadence = ?, template = ?, outline = ?, delivery = ?, enabled = ?, next_run_at = ?,
+               updated_at = datetime('now')
+           WHERE company_id = ? AND id = ?`
+        )
+        .bind(...values, input.companyId, id)
+        .run();
+      if (!result?.meta?.changes) return { status: 'not_found' };
+    } else {
+      const count = await db
+        .prepare(`SELECT COUNT(*) AS total FROM ${REPORT_SCHEDULES.TABLE} WHERE company_id = ?`)
+        .bind(input.companyId)
+        .all();
+      const total = Number((count?.results?.[0] as { total?: number } | undefined)?.total ?? 0);
+      if (total >= REPORT_SCHEDULES.MAX_PER_COMPANY) return { status: 'limit_reached' };
+
+      await db
+        .prepare(
+          `INSERT INTO ${REPORT_SCHEDULES.TABLE}
+             (name, cadence, template, outline, delivery, enabled, next_run_at, company_id, id)
+           VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`
+        )
+        .bind(...values, input.companyId, id)
+        .run();
+    }
+
+    const schedule = await findSchedule(db, input.companyId, id);
+    return schedule ? { status: 'saved', schedule } : null;
+  } catch (error) {
+    logger.warn('report_schedule_save_failed', { scheduleId: id, error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/**
+ * Delete a schedule. Run history and stored reports are kept until they expire.
+ * Returns false when the schedule does not exist, null when D1 is unavailable or the delete fails.
+ */
+export async function deleteReportSchedule(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  id: string
+): Promise<boolean | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(`DELETE FROM ${REPORT_SCHEDULES.TABLE} WHERE company_id = ? AND id = ?`)
+      .bind(companyId, id)
+      .run();
+    return !!result?.meta?.changes;
+  } catch (error) {
+    logger.warn('report_schedule_delete_failed', { scheduleId: id, error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/**
+ * Claim up to `limit` due schedules for this cron call. Each claim moves next_run_at to
+ * the next period only if it still holds the value we read, so a concurrent call that
+ * claimed the schedule first makes ours a no-op. A failed run is not retried until the
+ * next period — it shows up in the run history instead.
+ */
+export async function claimDueReportSchedules(
+  env: Record<string, unknown> | undefined,
+  now: Date = new Date(),
+  limit: number = REPORT_SCHEDULES.RUN_BATCH_SIZE
+): Promise<ReportSchedule[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        `SELECT ${SELECT_COLUMNS} FROM ${REPORT_SCHEDULES.TABLE}
+         WHERE enabled = 1 AND next_run_at <= ? ORDER BY next_run_at LIMIT ?`
+      )
+      .bind(now.toISOString(), limit)
+      .all();
+
+    const claimed: ReportSchedule[] = [];
+    for (const schedule of toSchedules(result)) {
+      const update = await db
+        .prepare(
+          `UPDATE ${REPORT_SCHEDULES.TABLE} SET next_run_at = ?, last_run_at = ?
+           WHERE id = ? AND next_run_at = ?`
+        )
+        .bind(getNextRunAt(schedule.cadence, now), now.toISOString(), schedule.id, schedule.nextRunAt)
+        .run();
+      if (update?.meta?.changes) claimed.push(schedule);
+    }
+    return claimed;
+  } catch (error) {
+    logger.warn('report_schedule_claim_failed', { error: normalizeError(error).message });
+    return null;
+  }
+}
+
+// ─── Runs ───
+
+/** Never throws; false when D1 is unavailable or the insert fails */
+export async function recordReportScheduleRun(
+  env: Record<string, unknown> | undefined,
+  run: ReportScheduleRunInput
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db) return false;
+
+  try {
+    await db
+      .prepare(
+        `INSERT INTO ${REPORT_SCHEDULES.RUNS_TABLE}
+           (id, schedule_id, company_id, period_from, period_to, status, report_id, report_version,
+            delivery_channel, error)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`
+      )
+      .bind(
+        run.id,
+        run.scheduleId,
+        run.companyId,
+        run.period.from,
+        run.period.to,
+        run.status,
+        run.reportId ?? null,
+        run.reportVersion ?? null,
+        run.deliveryChannel ?? null,
+        run.error ?? null
+      )
+      .run();
+    return true;
+  } catch (error) {
+    logger.warn('report_schedule_run_record_failed', {
+      scheduleId: run.scheduleId,
+      error: normalizeError(error).message,
+    });
+    return false;
+  }
+}
+
+/** Most recent runs first */
+export async function listReportScheduleRuns(
+  env: Record<string, unknown> | undefined,
+  companyId: string,
+  scheduleId: string
+): Promise<ReportScheduleRun[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(
+        `SELECT id, schedule_id, company_id, period_from, period_to, status, report_id, report_version,
+                delivery_channel, error, created_at
+         FROM ${REPORT_SCHEDULES.RUNS_TABLE}
+         WHERE company_id = ? AND schedule_id = ?
+         ORDER BY created_at DESC, id LIMIT ${REPORT_SCHEDULES.RUNS_LIST_LIMIT}`
+      )
+      .bind(companyId, scheduleId)
+      .all();
+    return ((result?.results as RunRow[] | undefined) ?? []).map(toRun);
+  } catch (error) {
+    logger.warn('report_schedule_runs_list_failed', { scheduleId, error: normalizeError(error).message });
+    return null;
+  }
+}
@@ -0,0 +1,39 @@
+import { describe, it, expect, vi } from 'vitest';
+import { resolveReportServiceCredential } from './service-credentials';
+import { API_ENDPOINTS } from '../../constants';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const CREDENTIALS = JSON.stringify({
+  acme: { token: 'acme-token', baseApiUrl: 'https://eu.api.test' },
+  globex: { token: ' globex-token ' },
+  initech: { token: '' },
+});
+
+describe('resolveReportServiceCredential', () => {
+  it("returns only the company's own credential", () => {
+    expect(resolveReportServiceCredential('acme', CREDENTIALS)).toEqual({
+      token: 'acme-token',
+      baseApiUrl: 'https://eu.api.test',
+    });
+    expect(resolveReportServiceCredential('globex', CREDENTIALS)).toEqual({
+      token: 'globex-token',
+      baseApiUrl: API_ENDPOINTS.DEFAULT_BASE_API_URL,
+    });
+  });
+
+  it('returns null for unknown companies, empty tokens and a missing or malformed map', () => {
+    expect(resolveReportServiceCredential('umbrella', CREDENTIALS)).toBeNull();
+    expect(resolveReportServiceCredential('initech', CREDENTIALS)).toBeNull();
+    expect(resolveReportServiceCredential('acme', undefined)).toBeNull();
+    expect(resolveReportServiceCredential('acme', '{not json')).toBeNull();
+    expect(resolveReportServiceCredential('acme', '["acme-token"]')).toBeNull();
+  });
+});
@@ -0,0 +1,54 @@
+/**
+ * Report Schedule Service Credentials
+ *
+ * The cron sweep (POST /reports/schedules/run) is called by the scheduler with
+ * X-INTERNAL-SECRET, not a tenant token, and claims due schedules of every company.
+ * Each schedule therefore runs with its own company's platform credential from
+ * REPORT_SCHEDULE_CREDENTIALS_BY_COMPANY (JSON object, companyId → { token, baseApiUrl? }),
+ * so no company's data is ever fetched with another company's token.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import { API_ENDPOINTS } from '../../constants';
+
+const logger = getLogger('ReportScheduleCredentials');
+
+export interface ReportServiceCredential {
+  token: string;
+  baseApiUrl: string;
+}
+
+/**
+ * Credential for one company, or null when the company has none (or the map is
+ * malformed) — the run is then recorded as failed instead of using any other token.
+ */
+export function resolveReportServiceCredential(
+  companyId: string,
+  companyCredentials: string | undefined = process.env.REPORT_SCHEDULE_CREDENTIALS_BY_COMPANY
+): ReportServiceCredential | null {
+  if (!companyCredentials?.trim()) return null;
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(companyCredentials);
+  } catch {
+    parsed = null;
+  }
+  if (!parsed || typeof parsed !== 'object' || Array.isArray(parsed)) {
+    logger.error('report_schedule_credentials_malformed', {
+      error: 'REPORT_SCHEDULE_CREDENTIALS_BY_COMPANY must be a JSON object of companyId → { token, baseApiUrl? }',
+    });
+    return null;
+  }
+
+  const entry = (parsed as Record<string, unknown>)[companyId];
+  if (!entry || typeof entry !== 'object') return null;
+
+  const { token, baseApiUrl } = entry as { token?: unknown; baseApiUrl?: unknown };
+  if (typeof token !== 'string' || !token.trim()) return null;
+  return {
+    token: token.trim(),
+    baseApiUrl:
+      typeof baseApiUrl === 'string' && baseApiUrl.trim() ? baseApiUrl.trim() : API_ENDPOINTS.DEFAULT_BASE_API_URL,
+  };
+}
@@ -0,0 +1,116 @@
+/**
+ * Report Schedule Types
+ *
+ * A schedule regenerates one report per period (weekly / monthly / quarterly) from a
+ * saved template — and optionally a saved outline — against fresh platform data, then
+ * hands the rendered file to a ReportDeliverySender. Senders: webhook and email relay
+ * over HTTP (production) and an in-memory mock for local runs and tests. A new transport
+ * only needs to implement ReportDeliverySender and be registered in ./index.ts.
+ */
+
+import type {
+  REPORT_SCHEDULES,
+  ReportDataSource,
+  ReportDeliveryChannel,
+  ReportExportFormat,
+  ReportScheduleCadence,
+} from '../../constants';
+import type { ReportOutline } from '../../schemas/report-schema';
+import type { RenderedReportFile } from '../report-export';
+
+export type ReportDeliverySenderName = (typeof REPORT_SCHEDULES.SENDERS)[number];
+
+/** What the report is about — the inputs a chat user would give the outline tool */
+export interface ReportScheduleTemplate {
+  topic: string;
+  pageTarget: number;
+  language: string;
+  sources: ReportDataSource[];
+}
+
+export type ReportScheduleDelivery =
+  | { channel: 'webhook'; url: string; format: ReportExportFormat }
+  | { channel: 'email'; recipients: string[]; format: ReportExportFormat };
+
+export interface ReportScheduleInput {
+  /** Omit to create; pass an existing ID to replace that schedule */
+  id?: string;
+  companyId: string;
+  name: string;
+  cadence: ReportScheduleCadence;
+  template: ReportScheduleTemplate;
+  /** Reused every run so the structure stays stable between periods; null = new outline per run */
+  outline?: ReportOutline | null;
+  delivery: ReportScheduleDelivery;
+  enabled: boolean;
+}
+
+export interface ReportSchedule {
+  id: string;
+  companyId: string;
+  name: string;
+  cadence: ReportScheduleCadence;
+  template: ReportScheduleTemplate;
+  outline: ReportOutline | null;
+  delivery: ReportScheduleDelivery;
+  enabled: boolean;
+  nextRunAt: string;
+  lastRunAt: string | null;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Inclusive YYYY-MM-DD range a run reports on */
+export interface ReportPeriod {
+  from: string;
+  to: string;
+}
+
+/** delivered = generated and sent; generated = stored but delivery failed; failed = no report */
+export type ReportRunStatus = 'delivered' | 'generated' | 'failed';
+
+export interface ReportScheduleRun {
+  id: string;
+  scheduleId: string;
+  companyId: string;
+  period: ReportPeriod;
+  status: ReportRunStatus;
+  reportId: string | null;
+  reportVersion: number | null;
+  deliveryChannel: ReportDeliveryChannel | null;
+  error: string | null;
+  createdAt: string;
+}
+
+export interface ReportDelivery {
+  scheduleId: string;
+  scheduleName: string;
+  runId: string;
+  companyId: string;
+  reportId: string;
+  version: number;
+  title: string;
+  period: ReportPeriod;
+  file: RenderedReportFile;
+  destination: ReportScheduleDelivery;
+}
+
+export interface ReportDeliveryResult {
+  ok: boolean;
+  /** HTTP status of the webhook / relay call (0 = not sent) */
+  status: number;
+  error?: string;
+}
+
+export interface ReportDeliverySender {
+  readonly name: ReportDeliverySenderName;
+  /** Never throws — failures come back as { ok: false, error } */
+  deliver(delivery: ReportDelivery): Promise<ReportDeliveryResult>;
+}
+
+export class ReportDeliveryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ReportDeliveryError';
+  }
+}
@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  KeepnetPlatformAdapter,
+  MemoryPlatformAdapter,
+  getSecurityPlatformAdapter,
+  resetMemoryPlatformAdapter,
+  resolveSecurityPlatformName,
+} from './index';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('security-platform adapter registry', () => {
+  afterEach(() => {
+    delete process.env.SECURITY_PLATFORM;
+    delete process.env.SECURITY_PLATFORM_BY_COMPANY;
+    resetMemoryPlatformAdapter();
+  });
+
+  it('defaults to Keepnet', () => {
+    expect(getSecurityPlatformAdapter('company-1')).toBeInstanceOf(KeepnetPlatformAdapter);
+  });
+
+  it('selects per company before the global setting (case-insensitive)', () => {
+    process.env.SECURITY_PLATFORM = 'keepnet';
+    process.env.SECURITY_PLATFORM_BY_COMPANY = JSON.stringify({ 'company-2': ' Memory ' });
+
+    expect(getSecurityPlatformAdapter('company-2')).toBeInstanceOf(MemoryPlatformAdapter);
+    expect(getSecurityPlatformAdapter('company-1')).toBeInstanceOf(KeepnetPlatformAdapter);
+    expect(getSecurityPlatformAdapter()).toBeInstanceOf(KeepnetPlatformAdapter);
+  });
+
+  it('falls back to SECURITY_PLATFORM for companies without an entry', () => {
+    expect(resolveSecurityPlatformName('company-1', '{"company-2":"keepnet"}', 'memory')).toBe('memory');
+  });
+
+  it('rejects unknown platforms and malformed company maps instead of defaulting to Keepnet', () => {
+    expect(() => resolveSecurityPlatformName('company-2', '{"company-2":"ironscales"}')).toThrow(
+      /Unknown security platform "ironscales" for company company-2/
+    );
+    expect(() => resolveSecurityPlatformName('company-2', '["memory"]')).toThrow(/must be a JSON object/);
+    expect(() => resolveSecurityPlatformName('company-2', 'company-2=memory')).toThrow(/must be a JSON object/);
+  });
+
+  it('shares the in-memory platform so later tool calls see earlier records', async () => {
+    process.env.SECURITY_PLATFORM = 'memory';
+
+    await getSecurityPlatformAdapter('company-1').uploadTraining(
+      { token: 'token' },
+      { contentId: 'ml-1', contentUrl: 'https://example.com/ml-1', training: {} }
+    );
+
+    expect((getSecurityPlatformAdapter('company-1') as MemoryPlatformAdapter).uploads).toHaveLength(1);
+  });
+});
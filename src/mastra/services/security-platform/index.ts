@@ -0,0 +1,83 @@
+/**
+ * Security Platform Adapter Registry
+ *
+ * Selects the platform behind the user-management and email-IR tools per company:
+ * SECURITY_PLATFORM_BY_COMPANY (JSON object, companyId → platform) wins, then
+ * SECURITY_PLATFORM, then keepnet. Adding a vendor = implement
+ * SecurityPlatformAdapter and add a factory entry below.
+ */
+
+import { SECURITY_PLATFORM } from '../../constants';
+import { KeepnetPlatformAdapter } from './keepnet-platform-adapter';
+import { MemoryPlatformAdapter } from './memory-platform-adapter';
+import { SecurityPlatformError, type SecurityPlatformAdapter, type SecurityPlatformName } from './types';
+
+export * from './types';
+export { KeepnetPlatformAdapter, toPlatformGroup } from './keepnet-platform-adapter';
+export {
+  MemoryPlatformAdapter,
+  type MemoryPlatformSeed,
+  type RecordedAssignment,
+  type RecordedUpload,
+} from './memory-platform-adapter';
+
+/** Shared so records seeded or assigned in one tool call stay visible to the next */
+let memoryAdapter: MemoryPlatformAdapter | null = null;
+
+const ADAPTER_FACTORIES: Record<SecurityPlatformName, () => SecurityPlatformAdapter> = {
+  keepnet: () => new KeepnetPlatformAdapter(),
+  memory: () => {
+    if (!memoryAdapter) memoryAdapter = new MemoryPlatformAdapter();
+    return memoryAdapter;
+  },
+};
+
+function isSecurityPlatformName(value: string): value is SecurityPlatformName {
+  return (SECURITY_PLATFORM.PROVIDERS as readonly string[]).includes(value);
+}
+
+function parseCompanyPlatforms(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw);
+    if (parsed && typeof parsed === 'object' && !Array.isArray(parsed)) return parsed;
+  } catch {
+    // reported below
+  }
+  throw new SecurityPlatformError(
+    'SECURITY_PLATFORM_BY_COMPANY must be a JSON object of companyId → platform',
+    'not_configured'
+  );
+}
+
+/**
+ * Resolve the platform name for a company.
+ * Throws SecurityPlatformError for a malformed company map or an unknown platform
+ * rather than silently sending a company's data to the default vendor.
+ */
+export function resolveSecurityPlatformName(
+  companyId?: string,
+  companyPlatforms: string | undefined = process.env.SECURITY_PLATFORM_BY_COMPANY,
+  defaultPlatform: string | undefined = process.env.SECURITY_PLATFORM
+): SecurityPlatformName {
+  const companyPlatform =
+    companyId && companyPlatforms?.trim() ? parseCompanyPlatforms(companyPlatforms)[companyId] : undefined;
+  const configured = typeof companyPlatform === 'string' ? companyPlatform : defaultPlatform;
+  const name = configured?.trim().toLowerCase() || SECURITY_PLATFORM.DEFAULT_PROVIDER;
+  if (!isSecurityPlatformName(name)) {
+    throw new SecurityPlatformError(
+      `Unknown security platform "${configured}"${companyId ? ` for company ${companyId}` : ''}. Supported: ${SECURITY_PLATFORM.PROVIDERS.join(', ')}`,
+      'not_configured'
+    );
+  }
+  return name;
+}
+
+/** Adapter for the company in the current request (see resolveSecurityPlatformName) */
+export function getSecurityPlatformAdapter(companyId?: string): SecurityPlatformAdapter {
+  return ADAPTER_FACTORIES[resolveSecurityPlatformName(companyId)]();
+}
+
+/** Clears the shared in-memory platform (tests) */
+export function resetMemoryPlatformAdapter(): void {
+  memoryAdapter = null;
+}
@@ -0,0 +1,180 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { KeepnetPlatformAdapter, toPlatformGroup } from './keepnet-platform-adapter';
+import { SecurityPlatformError, type PlatformContext } from './types';
+
+const { mockCallWorkerAPI, mockFetchGroupMembers } = vi.hoisted(() => ({
+  mockCallWorkerAPI: vi.fn(),
+  mockFetchGroupMembers: vi.fn(),
+}));
+
+vi.mock('../../utils/core/worker-api-client', () => ({
+  callWorkerAPI: mockCallWorkerAPI,
+}));
+
+vi.mock('../../utils/core/group-members', () => ({
+  fetchGroupMembers: mockFetchGroupMembers,
+}));
+
+vi.mock('../../utils/core/resilience-utils', () => ({
+  withRetry: vi.fn(async (fn: () => Promise<unknown>) => fn()),
+  withTimeout: vi.fn(async (promise: Promise<unknown>) => promise),
+}));
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const env = {
+  PHISHING_CRUD_WORKER: { fetch: vi.fn() },
+  SMISHING_CRUD_WORKER: { fetch: vi.fn() },
+  CRUD_WORKER: { fetch: vi.fn() },
+};
+const ctx: PlatformContext = { token: 'token-1', companyId: 'company-1', baseApiUrl: 'https://platform.test', env };
+
+describe('KeepnetPlatformAdapter', () => {
+  const platform = new KeepnetPlatformAdapter();
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockCallWorkerAPI.mockResolvedValue({ success: true });
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('CRUD workers', () => {
+    it('uploads simulations to the channel worker with platform credentials', async () => {
+      await platform.uploadSimulation(ctx, { channel: 'smishing', contentId: 'sm-1', content: { name: 'SMS' } });
+
+      expect(mockCallWorkerAPI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceBinding: env.SMISHING_CRUD_WORKER,
+          publicUrl: expect.stringMatching(/crud-smishing-worker-dev.*\/submit$/),
+          endpoint: 'https://worker/submit',
+          payload: {
+            accessToken: 'token-1',
+            companyId: 'company-1',
+            url: 'https://platform.test',
+            smishingData: { name: 'SMS' },
+          },
+          token: 'token-1',
+          operationName: 'Upload smishing content sm-1',
+          baseApiUrl: 'https://platform.test',
+        })
+      );
+    });
+
+    it('routes phishing and quishing assignments to the phishing worker and training to the CRUD worker', async () => {
+      const assignment = {
+        batchResourceId: 'batch-1',
+        activityType: 'quishing' as const,
+        targetUserResourceId: 'user-1',
+      };
+
+      await platform.assignSimulation(ctx, assignment);
+      await platform.assignTraining(ctx, { ...assignment, activityType: 'training' });
+
+      expect(mockCallWorkerAPI.mock.calls[0][0]).toMatchObject({
+        serviceBinding: env.PHISHING_CRUD_WORKER,
+        endpoint: 'https://worker/send',
+        payload: { ...assignment, apiUrl: 'https://platform.test', accessToken: 'token-1', companyId: 'company-1' },
+        operationName: 'Assign quishing to user user-1',
+      });
+      expect(mockCallWorkerAPI.mock.calls[1][0]).toMatchObject({
+        serviceBinding: env.CRUD_WORKER,
+        publicUrl: expect.stringMatching(/crud-training-worker-dev.*\/send$/),
+      });
+    });
+
+    it('refuses training through assignSimulation', async () => {
+      await expect(
+        platform.assignSimulation(ctx, { batchResourceId: 'b', activityType: 'training', targetUserResourceId: 'u' })
+      ).rejects.toMatchObject({ code: 'not_supported' });
+      expect(mockCallWorkerAPI).not.toHaveBeenCalled();
+    });
+
+    it('uploads trainings with their public content URL', async () => {
+      await platform.uploadTraining(ctx, {
+        contentId: 'ml-1',
+        contentUrl: 'https://cdn.test/ml-1',
+        training: { title: 'T' },
+      });
+
+      expect(mockCallWorkerAPI).toHaveBeenCalledWith(
+        expect.objectContaining({
+          serviceBinding: env.CRUD_WORKER,
+          payload: expect.objectContaining({ baseUrl: 'https://cdn.test/ml-1', trainingData: { title: 'T' } }),
+        })
+      );
+    });
+  });
+
+  describe('platform API', () => {
+    it('normalizes group search results', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ data: { results: [{ groupId: 42, name: 'IT', size: '7' }] } }))
+      );
+
+      expect(await platform.searchGroups(ctx, 'IT')).toEqual([
+        { resourceId: '42', name: 'IT', department: undefined, memberCount: 7 },
+      ]);
+      const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+      expect(url).toBe('https://platform.test/api/target-groups/search');
+      expect((init?.headers as Record<string, string>)['x-ir-company-id']).toBe('company-1');
+    });
+
+    it('fails group search on a non-2xx response', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(new Response('nope', { status: 503 }));
+
+      await expect(platform.searchGroups(ctx, 'IT')).rejects.toMatchObject({ code: 'api_error', status: 503 });
+    });
+
+    it('lists group members through the paginated members endpoint', async () => {
+      mockFetchGroupMembers.mockResolvedValue([{ resourceId: 'user-1', firstName: 'A', lastName: 'B' }]);
+
+      await platform.listGroupMembers({ token: 'token-1' }, 'group-1');
+
+      expect(mockFetchGroupMembers).toHaveBeenCalledWith('token-1', 'group-1', expect.stringMatching(/^https:\/\//));
+    });
+
+    it('unwraps notified emails and reports failures with the status', async () => {
+      vi.mocked(global.fetch)
+        .mockResolvedValueOnce(new Response(JSON.stringify({ data: { subject: 'Hi' } })))
+        .mockResolvedValueOnce(new Response('missing', { status: 404 }));
+
+      expect(await platform.getIncident(ctx, 'email-1')).toEqual({ subject: 'Hi' });
+      expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe('https://platform.test/notified-emails/email-1');
+
+      const error = await platform.getIncident(ctx, 'email-2').catch(err => err);
+      expect(error).toBeInstanceOf(SecurityPlatformError);
+      expect(error.message).toBe('Failed to fetch email [404]: missing');
+    });
+
+    it('requests the newest timeline entries for a user', async () => {
+      vi.mocked(global.fetch).mockResolvedValueOnce(
+        new Response(JSON.stringify({ data: { results: [{ ActionType: 'Clicked' }] } }))
+      );
+
+      expect(await platform.getUserActivities(ctx, 'user-1')).toEqual([{ ActionType: 'Clicked' }]);
+      const body = JSON.parse(vi.mocked(global.fetch).mock.calls[0][1]?.body as string);
+      expect(body).toMatchObject({ targetUserResourceId: 'user-1', pagination: { ascending: false } });
+    });
+  });
+
+  it('maps group records without an ID', () => {
+    expect(toPlatformGroup({ title: 'Sales' })).toEqual({
+      resourceId: undefined,
+      name: 'Sales',
+      department: undefined,
+      memberCount: undefined,
+    });
+  });
+});
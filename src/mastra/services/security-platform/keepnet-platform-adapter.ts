@@ -0,0 +1,347 @@
+/**
+ * Keepnet Security Platform Adapter
+ *
+ * Users, groups, timeline and notified emails come from the Keepnet platform API
+ * (baseApiUrl); simulation and training uploads/assignments go through the CRUD
+ * workers — service binding in production, public worker URL in local dev and
+ * test environments (see callWorkerAPI).
+ */
+
+import { API_ENDPOINTS, ERROR_MESSAGES, TIMEOUT_VALUES, getWorkerUrls } from '../../constants';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
+import { withRetry, withTimeout } from '../../utils/core/resilience-utils';
+import { resolveBaseApiUrl } from '../../utils/core/url-validator';
+import { fetchGroupMembers } from '../../utils/core/group-members';
+import { callWorkerAPI } from '../../utils/core/worker-api-client';
+import { maskSensitiveField } from '../../utils/core/security-utils';
+import { errorService } from '../error-service';
+import {
+  findUserByEmail,
+  findUserById,
+  findUserByNameWithFallbacks,
+} from '../../tools/user-management/utils/user-search-utils';
+import { GET_ALL_PAYLOAD, TIMELINE_PAYLOAD } from '../../tools/user-management/user-management-types';
+import {
+  SecurityPlatformError,
+  type ActivityAssignment,
+  type ActivityAssignmentResult,
+  type ApiActivity,
+  type GroupMember,
+  type PlatformContext,
+  type PlatformGroup,
+  type PlatformUser,
+  type SecurityPlatformAdapter,
+  type SimulationUpload,
+  type SimulationUploadResult,
+  type TrainingUpload,
+  type TrainingUploadResult,
+  type UserLookup,
+} from './types';
+
+const logger = getLogger('KeepnetPlatformAdapter');
+
+const GROUP_ID_FIELDS = ['targetGroupResourceId', 'groupId', 'id', 'resourceId', 'groupResourceId'] as const;
+const GROUP_NAME_FIELDS = ['groupName', 'name', 'title'] as const;
+const GROUP_DEPARTMENT_FIELDS = ['departmentName', 'department', 'dept'] as const;
+const GROUP_MEMBER_COUNT_FIELDS = ['memberCount', 'size', 'members', 'userCount'] as const;
+
+const GROUP_SEARCH_PAYLOAD_TEMPLATE = {
+  pageNumber: 1,
+  pageSize: 10,
+  orderBy: 'CreateTime',
+  ascending: false,
+  filter: {
+    Condition: 'AND',
+    SearchInputTextValue: '',
+    FilterGroups: [
+      {
+        Condition: 'AND',
+        FilterItems: [],
+        FilterGroups: [],
+      },
+      {
+        Condition: 'OR',
+        FilterItems: [],
+        FilterGroups: [],
+      },
+    ],
+  },
+  systemGeneratedGroups: true,
+} as const;
+
+function extractStringField(record: Record<string, unknown>, fields: readonly string[]): string | undefined {
+  for (const field of fields) {
+    const value = record[field];
+    if (typeof value === 'string' && value.trim()) {
+      return value.trim();
+    }
+  }
+  return undefined;
+}
+
+function extractGroupId(record: Record<string, unknown>): string | undefined {
+  for (const field of GROUP_ID_FIELDS) {
+    const value = record[field];
+    if (value !== undefined && value !== null) {
+      const normalized = String(value).trim();
+      if (normalized) {
+        return normalized;
+      }
+    }
+  }
+  return undefined;
+}
+
+function extractMemberCount(record: Record<string, unknown>): number | undefined {
+  for (const field of GROUP_MEMBER_COUNT_FIELDS) {
+    const value = record[field];
+    if (typeof value === 'number') {
+      return value;
+    }
+    if (typeof value === 'string') {
+      const parsed = Number(value);
+      if (!Number.isNaN(parsed)) {
+        return parsed;
+      }
+    }
+  }
+  return undefined;
+}
+
+/** Group search results vary by endpoint version; accept every known ID/name/count field */
+export function toPlatformGroup(record: Record<string, unknown>): PlatformGroup {
+  return {
+    resourceId: extractGroupId(record),
+    name: extractStringField(record, GROUP_NAME_FIELDS),
+    department: extractStringField(record, GROUP_DEPARTMENT_FIELDS),
+    memberCount: extractMemberCount(record),
+  };
+}
+
+function createGroupSearchPayload(groupName: string) {
+  const payload = JSON.parse(JSON.stringify(GROUP_SEARCH_PAYLOAD_TEMPLATE));
+  const filterItems = [
+    { FieldName: 'Name', Operator: 'Contains', Value: groupName },
+    { FieldName: 'Priority', Operator: 'Contains', Value: groupName },
+  ];
+  payload.filter.FilterGroups[1].FilterItems = filterItems;
+  return payload;
+}
+
+function platformHeaders(ctx: PlatformContext): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+    Authorization: `Bearer ${ctx.token}`,
+  };
+  if (ctx.companyId) {
+    headers['x-ir-company-id'] = ctx.companyId;
+  }
+  return headers;
+}
+
+function platformUrl(ctx: PlatformContext, path: string): string {
+  return `${ctx.baseApiUrl || API_ENDPOINTS.DEFAULT_BASE_API_URL}${path}`;
+}
+
+/** Worker payloads carry the caller's platform credentials alongside the activity fields */
+function withCredentials(ctx: PlatformContext, assignment: ActivityAssignment): ActivityAssignment {
+  const payload = { ...assignment, apiUrl: ctx.baseApiUrl, accessToken: ctx.token, companyId: ctx.companyId };
+  logger.debug('Assign worker payload prepared', { payload: maskSensitiveField(payload, 'accessToken') });
+  return payload;
+}
+
+export class KeepnetPlatformAdapter implements SecurityPlatformAdapter {
+  readonly name = 'keepnet' as const;
+
+  async findUser(ctx: PlatformContext, lookup: UserLookup): Promise<PlatformUser | null> {
+    const deps = { token: ctx.token, companyId: ctx.companyId, baseApiUrl: ctx.baseApiUrl, logger };
+    switch (lookup.by) {
+      case 'id':
+        return findUserById(deps, GET_ALL_PAYLOAD, lookup.id);
+      case 'email':
+        return findUserByEmail(deps, GET_ALL_PAYLOAD, lookup.email);
+      case 'name':
+        return findUserByNameWithFallbacks(deps, GET_ALL_PAYLOAD, lookup.firstName, lookup.lastName, lookup.fullName);
+    }
+  }
+
+  async searchGroups(ctx: PlatformContext, name: string): Promise<PlatformGroup[]> {
+    const response = await withRetry(
+      () =>
+        withTimeout(
+          fetch(platformUrl(ctx, '/api/target-groups/search'), {
+            method: 'POST',
+            headers: platformHeaders(ctx),
+            body: JSON.stringify(createGroupSearchPayload(name)),
+          }),
+          TIMEOUT_VALUES.GROUP_LOOKUP_TIMEOUT_MS
+        ),
+      `Target group search: "${name}"`
+    );
+
+    if (!response.ok) {
+      const errorInfo = errorService.external(ERROR_MESSAGES.GROUP_INFO.FETCH_FAILED, {
+        service: 'group-search',
+        status: response.status,
+      });
+      logErrorInfo(logger, 'error', 'Group search API failed', errorInfo);
+      throw new SecurityPlatformError(errorInfo.message, 'api_error', response.status);
+    }
+
+    let result: unknown;
+    try {
+      result = await response.json();
+    } catch (error) {
+      const err = normalizeError(error);
+      const errorInfo = errorService.external(err.message, {
+        step: 'group-search-json-parse',
+        stack: err.stack,
+      });
+      logErrorInfo(logger, 'warn', 'Group search response JSON parse failed', errorInfo);
+      return [];
+    }
+
+    const r = result as Record<string, unknown> | undefined;
+    const data = (r?.data as Record<string, unknown> | undefined) ?? undefined;
+
+    const candidates = [data?.results, data?.items, r?.results, r?.items];
+
+    for (const c of candidates) {
+      if (Array.isArray(c)) return (c as Record<string, unknown>[]).map(toPlatformGroup);
+    }
+
+    return [];
+  }
+
+  async listGroupMembers(ctx: PlatformContext, groupResourceId: string): Promise<GroupMember[]> {
+    return fetchGroupMembers(ctx.token, groupResourceId, resolveBaseApiUrl(ctx.baseApiUrl));
+  }
+
+  async uploadSimulation(ctx: PlatformContext, upload: SimulationUpload): Promise<SimulationUploadResult> {
+    const isSmishing = upload.channel === 'smishing';
+    const workerUrls = getWorkerUrls(ctx.baseApiUrl);
+    return callWorkerAPI<SimulationUploadResult>({
+      env: ctx.env,
+      serviceBinding: isSmishing ? ctx.env?.SMISHING_CRUD_WORKER : ctx.env?.PHISHING_CRUD_WORKER,
+      publicUrl: isSmishing ? workerUrls.SMISHING_WORKER_URL : workerUrls.PHISHING_WORKER_URL,
+      endpoint: 'https://worker/submit',
+      payload: {
+        accessToken: ctx.token,
+        companyId: ctx.companyId,
+        url: ctx.baseApiUrl,
+        [isSmishing ? 'smishingData' : 'phishingData']: upload.content,
+      },
+      token: ctx.token,
+      errorPrefix: 'Worker failed',
+      operationName: `Upload ${upload.channel} content ${upload.contentId}`,
+      baseApiUrl: ctx.baseApiUrl,
+    });
+  }
+
+  async assignSimulation(ctx: PlatformContext, assignment: ActivityAssignment): Promise<ActivityAssignmentResult> {
+    if (assignment.activityType === 'training') {
+      throw new SecurityPlatformError('Training activities are assigned with assignTraining', 'not_supported');
+    }
+    const isSmishing = assignment.activityType === 'smishing';
+    const workerUrls = getWorkerUrls(ctx.baseApiUrl);
+    const operationName = `Assign ${assignment.activityType} to user ${assignment.targetUserResourceId}`;
+    return callWorkerAPI<ActivityAssignmentResult>({
+      env: ctx.env,
+      serviceBinding: isSmishing ? ctx.env?.SMISHING_CRUD_WORKER : ctx.env?.PHISHING_CRUD_WORKER,
+      publicUrl: isSmishing ? workerUrls.SMISHING_WORKER_SEND : workerUrls.PHISHING_WORKER_SEND,
+      endpoint: 'https://worker/send',
+      payload: withCredentials(ctx, assignment),
+      token: ctx.token,
+      errorPrefix: 'Assign API failed',
+      operationName,
+      baseApiUrl: ctx.baseApiUrl,
+    });
+  }
+
+  async uploadTraining(ctx: PlatformContext, upload: TrainingUpload): Promise<TrainingUploadResult> {
+    return callWorkerAPI<TrainingUploadResult>({
+      env: ctx.env,
+      serviceBinding: ctx.env?.CRUD_WORKER,
+      publicUrl: getWorkerUrls(ctx.baseApiUrl).TRAINING_WORKER_URL,
+      endpoint: 'https://worker/submit',
+      payload: {
+        accessToken: ctx.token,
+        companyId: ctx.companyId,
+        url: ctx.baseApiUrl,
+        baseUrl: upload.contentUrl,
+        trainingData: upload.training,
+      },
+      token: ctx.token,
+      errorPrefix: 'Worker failed',
+      operationName: `Upload training content ${upload.contentId}`,
+      baseApiUrl: ctx.baseApiUrl,
+    });
+  }
+
+  async assignTraining(ctx: PlatformContext, assignment: ActivityAssignment): Promise<ActivityAssignmentResult> {
+    return callWorkerAPI<ActivityAssignmentResult>({
+      env: ctx.env,
+      serviceBinding: ctx.env?.CRUD_WORKER,
+      publicUrl: getWorkerUrls(ctx.baseApiUrl).TRAINING_WORKER_SEND,
+      endpoint: 'https://worker/send',
+      payload: withCredentials(ctx, assignment),
+      token: ctx.token,
+      errorPrefix: 'Assign API failed',
+      operationName: `Assign training to user ${assignment.targetUserResourceId}`,
+      baseApiUrl: ctx.baseApiUrl,
+    });
+  }
+
+  async getIncident(ctx: PlatformContext, incidentId: string): Promise<Record<string, unknown>> {
+    const response = await fetch(platformUrl(ctx, `/notified-emails/${incidentId}`), {
+      method: 'GET',
+      headers: {
+        Authorization: `Bearer ${ctx.token}`,
+        'Content-Type': 'application/json',
+        Accept: 'application/json',
+      },
+    });
+
+    if (!response.ok) {
+      const errorBody = await response.text();
+      throw new SecurityPlatformError(
+        `Failed to fetch email [${response.status}]: ${errorBody}`,
+        'api_error',
+        response.status
+      );
+    }
+
+    // The API returns { data: { ...emailFields } }
+    const data = await response.json();
+    return data.data || data;
+  }
+
+  async getUserActivities(ctx: PlatformContext, userResourceId: string): Promise<ApiActivity[]> {
+    const timelinePayload = JSON.parse(JSON.stringify(TIMELINE_PAYLOAD));
+    timelinePayload.targetUserResourceId = userResourceId;
+    timelinePayload.pagination.ascending = false;
+
+    const response = await withRetry(
+      async () =>
+        fetch(platformUrl(ctx, '/api/leaderboard/get-user-timeline'), {
+          method: 'POST',
+          headers: platformHeaders(ctx),
+          body: JSON.stringify(timelinePayload),
+        }),
+      'get-user-timeline'
+    );
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new SecurityPlatformError(
+        `Timeline request failed [${response.status}]: ${errorText.substring(0, 1000)}`,
+        'api_error',
+        response.status
+      );
+    }
+
+    const timelineData = await response.json();
+    return timelineData?.data?.results || [];
+  }
+}
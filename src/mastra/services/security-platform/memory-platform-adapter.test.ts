@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'vitest';
+import { MemoryPlatformAdapter } from './memory-platform-adapter';
+import { SecurityPlatformError, type PlatformContext } from './types';
+
+const ctx: PlatformContext = { token: 'token', companyId: 'company-1' };
+
+const jane = {
+  targetUserResourceId: 'user-1',
+  firstName: 'Jane',
+  lastName: 'De Luca',
+  email: 'jane@example.com',
+  department: 'Finance',
+};
+
+const createPlatform = () =>
+  new MemoryPlatformAdapter({
+    users: [jane],
+    groups: [
+      {
+        resourceId: 'group-1',
+        name: 'Finance Team',
+        members: [
+          { resourceId: 'user-1', firstName: 'Jane', lastName: 'De Luca' },
+          { resourceId: 'user-failing', firstName: 'Bob', lastName: 'Smith' },
+        ],
+      },
+    ],
+    incidents: { 'email-1': { subject: 'Invoice overdue' } },
+    activities: {
+      'user-1': [{ ActionType: 'Clicked', name: 'Invoice', productType: 'Phishing', ActionTime: '2026-01-01' }],
+    },
+  });
+
+describe('MemoryPlatformAdapter', () => {
+  it('finds users by ID, email (case-insensitive) and partial name', async () => {
+    const platform = createPlatform();
+
+    expect(await platform.findUser(ctx, { by: 'id', id: 'user-1' })).toEqual(jane);
+    expect(await platform.findUser(ctx, { by: 'email', email: ' JANE@example.com ' })).toEqual(jane);
+    expect(await platform.findUser(ctx, { by: 'name', firstName: 'jan', lastName: 'luca' })).toEqual(jane);
+    expect(await platform.findUser(ctx, { by: 'name', firstName: 'Jane', lastName: 'Smith' })).toBeNull();
+  });
+
+  it('searches groups with member counts and lists members', async () => {
+    const platform = createPlatform();
+
+    expect(await platform.searchGroups(ctx, 'finance')).toEqual([
+      { resourceId: 'group-1', name: 'Finance Team', memberCount: 2 },
+    ]);
+    expect(await platform.listGroupMembers(ctx, 'group-1')).toHaveLength(2);
+    await expect(platform.listGroupMembers(ctx, 'group-9')).rejects.toBeInstanceOf(SecurityPlatformError);
+  });
+
+  it('records uploads and assignments per company', async () => {
+    const platform = createPlatform();
+
+    const upload = await platform.uploadSimulation(ctx, { channel: 'smishing', contentId: 'sm-1', content: {} });
+    const assigned = await platform.assignSimulation(ctx, {
+      batchResourceId: 'batch-1',
+      activityType: 'smishing',
+      scenarioResourceId: upload.scenarioResourceId,
+      targetUserResourceId: 'user-1',
+    });
+
+    expect(upload.scenarioResourceId).toMatch(/^memory-smishing-scenario-/);
+    expect(assigned).toMatchObject({ success: true, status: 'autonomous', batchResourceId: 'batch-1' });
+    expect(platform.uploads).toEqual([expect.objectContaining({ kind: 'simulation', companyId: 'company-1' })]);
+    expect(platform.assignments).toEqual([
+      expect.objectContaining({ kind: 'simulation', activityResourceId: assigned.activityResourceId }),
+    ]);
+  });
+
+  it('rejects training through assignSimulation and users marked failing', async () => {
+    const platform = createPlatform();
+
+    await expect(
+      platform.assignSimulation(ctx, { batchResourceId: 'b', activityType: 'training', targetUserResourceId: 'user-1' })
+    ).rejects.toMatchObject({ code: 'not_supported' });
+    await expect(
+      platform.assignTraining(ctx, {
+        batchResourceId: 'b',
+        activityType: 'training',
+        targetUserResourceId: 'user-failing',
+      })
+    ).rejects.toMatchObject({ code: 'api_error', status: 422 });
+    expect(platform.assignments).toEqual([]);
+  });
+
+  it('returns seeded incidents and timelines', async () => {
+    const platform = createPlatform();
+
+    expect(await platform.getIncident(ctx, 'email-1')).toEqual({ subject: 'Invoice overdue' });
+    await expect(platform.getIncident(ctx, 'email-2')).rejects.toMatchObject({ code: 'not_found', status: 404 });
+    expect(await platform.getUserActivities(ctx, 'user-1')).toHaveLength(1);
+    expect(await platform.getUserActivities(ctx, 'user-2')).toEqual([]);
+  });
+});
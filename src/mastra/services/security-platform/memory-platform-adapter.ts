@@ -0,0 +1,175 @@
+/**
+ * In-Memory Security Platform Adapter
+ *
+ * Fake platform for tests and offline runs (SECURITY_PLATFORM=memory). Users, groups,
+ * incidents and activity timelines are seeded up front; uploads and assignments are
+ * recorded instead of sent, so tests can assert what the agents would have done
+ * without mocking HTTP. Nothing leaves the process.
+ *
+ * Assignments for users whose ID contains "failing" are rejected, for exercising
+ * partial-failure paths in group fan-out.
+ */
+
+import {
+  SecurityPlatformError,
+  type ActivityAssignment,
+  type ActivityAssignmentResult,
+  type ApiActivity,
+  type GroupMember,
+  type PlatformContext,
+  type PlatformGroup,
+  type PlatformUser,
+  type SecurityPlatformAdapter,
+  type SimulationUpload,
+  type SimulationUploadResult,
+  type TrainingUpload,
+  type TrainingUploadResult,
+  type UserLookup,
+} from './types';
+
+export interface MemoryPlatformSeed {
+  users?: PlatformUser[];
+  groups?: Array<PlatformGroup & { resourceId: string; members?: GroupMember[] }>;
+  incidents?: Record<string, Record<string, unknown>>;
+  /** Timeline per user resource ID, newest first */
+  activities?: Record<string, ApiActivity[]>;
+}
+
+export interface RecordedUpload {
+  kind: 'simulation' | 'training';
+  resourceId: string;
+  companyId?: string;
+  upload: SimulationUpload | TrainingUpload;
+}
+
+export interface RecordedAssignment {
+  kind: 'simulation' | 'training';
+  activityResourceId: string;
+  companyId?: string;
+  assignment: ActivityAssignment;
+}
+
+const includesIgnoreCase = (value: string | undefined, search: string) =>
+  Boolean(value?.toLowerCase().includes(search.toLowerCase()));
+
+export class MemoryPlatformAdapter implements SecurityPlatformAdapter {
+  readonly name = 'memory' as const;
+
+  readonly users: PlatformUser[] = [];
+  readonly groups: NonNullable<MemoryPlatformSeed['groups']> = [];
+  readonly incidents: Record<string, Record<string, unknown>> = {};
+  readonly activities: Record<string, ApiActivity[]> = {};
+  readonly uploads: RecordedUpload[] = [];
+  readonly assignments: RecordedAssignment[] = [];
+
+  private sequence = 0;
+
+  constructor(seed: MemoryPlatformSeed = {}) {
+    this.seed(seed);
+  }
+
+  /** Adds records on top of what is already stored */
+  seed(seed: MemoryPlatformSeed): this {
+    this.users.push(...(seed.users ?? []));
+    this.groups.push(...(seed.groups ?? []));
+    Object.assign(this.incidents, seed.incidents);
+    Object.assign(this.activities, seed.activities);
+    return this;
+  }
+
+  async findUser(_ctx: PlatformContext, lookup: UserLookup): Promise<PlatformUser | null> {
+    switch (lookup.by) {
+      case 'id':
+        return this.users.find(user => user.targetUserResourceId === lookup.id.trim()) ?? null;
+      case 'email': {
+        const email = lookup.email.trim().toLowerCase();
+        return this.users.find(user => user.email?.toLowerCase() === email) ?? null;
+      }
+      case 'name':
+        return (
+          this.users.find(
+            user =>
+              includesIgnoreCase(user.firstName, lookup.firstName) &&
+              (!lookup.lastName || includesIgnoreCase(user.lastName, lookup.lastName))
+          ) ?? null
+        );
+    }
+  }
+
+  async searchGroups(_ctx: PlatformContext, name: string): Promise<PlatformGroup[]> {
+    return this.groups
+      .filter(group => includesIgnoreCase(group.name, name))
+      .map(({ members, ...group }) => ({ ...group, memberCount: group.memberCount ?? members?.length }));
+  }
+
+  async listGroupMembers(_ctx: PlatformContext, groupResourceId: string): Promise<GroupMember[]> {
+    const group = this.groups.find(candidate => candidate.resourceId === groupResourceId);
+    if (!group) {
+      throw new SecurityPlatformError(`Group ${groupResourceId} not found`, 'not_found', 404);
+    }
+    return [...(group.members ?? [])];
+  }
+
+  async uploadSimulation(ctx: PlatformContext, upload: SimulationUpload): Promise<SimulationUploadResult> {
+    const scenarioResourceId = this.nextId(`${upload.channel}-scenario`);
+    this.uploads.push({ kind: 'simulation', resourceId: scenarioResourceId, companyId: ctx.companyId, upload });
+    return {
+      templateResourceId: this.nextId(`${upload.channel}-template`),
+      scenarioResourceId,
+      languageId: this.nextId('language'),
+    };
+  }
+
+  async assignSimulation(ctx: PlatformContext, assignment: ActivityAssignment): Promise<ActivityAssignmentResult> {
+    if (assignment.activityType === 'training') {
+      throw new SecurityPlatformError('Training activities are assigned with assignTraining', 'not_supported');
+    }
+    return this.recordAssignment(ctx, 'simulation', assignment);
+  }
+
+  async uploadTraining(ctx: PlatformContext, upload: TrainingUpload): Promise<TrainingUploadResult> {
+    const resourceId = this.nextId('training');
+    this.uploads.push({ kind: 'training', resourceId, companyId: ctx.companyId, upload });
+    return { resourceId, languageId: this.nextId('language') };
+  }
+
+  async assignTraining(ctx: PlatformContext, assignment: ActivityAssignment): Promise<ActivityAssignmentResult> {
+    return this.recordAssignment(ctx, 'training', assignment);
+  }
+
+  async getIncident(_ctx: PlatformContext, incidentId: string): Promise<Record<string, unknown>> {
+    const incident = this.incidents[incidentId];
+    if (!incident) {
+      throw new SecurityPlatformError(`Failed to fetch email [404]: ${incidentId} not found`, 'not_found', 404);
+    }
+    return incident;
+  }
+
+  async getUserActivities(_ctx: PlatformContext, userResourceId: string): Promise<ApiActivity[]> {
+    return [...(this.activities[userResourceId] ?? [])];
+  }
+
+  private recordAssignment(
+    ctx: PlatformContext,
+    kind: RecordedAssignment['kind'],
+    assignment: ActivityAssignment
+  ): ActivityAssignmentResult {
+    const userId = String(assignment.targetUserResourceId ?? '');
+    if (userId.includes('failing')) {
+      throw new SecurityPlatformError(`Assign API failed: user ${userId} rejected`, 'api_error', 422);
+    }
+    const activityResourceId = this.nextId('activity');
+    this.assignments.push({ kind, activityResourceId, companyId: ctx.companyId, assignment });
+    return {
+      success: true,
+      status: 'autonomous',
+      activityResourceId,
+      batchResourceId: assignment.batchResourceId,
+    };
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `memory-${prefix}-${this.sequence}`;
+  }
+}
@@ -0,0 +1,126 @@
+/**
+ * Security Platform Adapter Types
+ *
+ * Contract between the user-management / email-IR tools and the security-awareness
+ * platform that owns users, groups, simulations, trainings and reported emails.
+ * Implementations: Keepnet (production — platform API + CRUD workers) and an
+ * in-memory fake for tests. A new vendor (see docs/IRONSCALES_INTEGRATION.md) only
+ * needs to implement SecurityPlatformAdapter and be registered in ./index.ts.
+ *
+ * Records keep the platform's existing field names (PlatformUser, ApiActivity,
+ * AgenticActivitiesPayload): they flow unchanged into prompts, UI signals and
+ * tool outputs, so other vendors map into these shapes.
+ */
+
+import { SECURITY_PLATFORM } from '../../constants';
+import type { GroupMember } from '../../utils/core/group-members';
+import type { AgenticActivitiesPayload, WorkerSendResponse } from '../../utils/core/worker-api-client';
+import type { ApiActivity, PlatformUser } from '../../tools/user-management/user-management-types';
+
+export type { GroupMember, ApiActivity, PlatformUser };
+
+export type SecurityPlatformName = (typeof SECURITY_PLATFORM.PROVIDERS)[number];
+
+/** Caller credentials and bindings, taken from the request context */
+export interface PlatformContext {
+  token: string;
+  companyId?: string;
+  /** Platform API base URL (X-BASE-API-URL header) */
+  baseApiUrl?: string;
+  /** Cloudflare bindings (service bindings to CRUD workers) */
+  env?: Record<string, unknown>;
+}
+
+export type UserLookup =
+  | { by: 'id'; id: string }
+  | { by: 'email'; email: string }
+  /** fullName is only used for logging */
+  | { by: 'name'; firstName: string; lastName?: string; fullName?: string };
+
+export interface PlatformGroup {
+  /** Missing when the platform record carries no recognizable ID */
+  resourceId?: string;
+  name?: string;
+  department?: string;
+  memberCount?: number;
+}
+
+export type SimulationChannel = 'phishing' | 'smishing';
+
+export interface SimulationUpload {
+  channel: SimulationChannel;
+  /** Agentic Ally content ID (phishingId / smishingId), used in logs */
+  contentId: string;
+  /** Template, landing page and metadata as built by the upload tool */
+  content: Record<string, unknown>;
+}
+
+export interface SimulationUploadResult {
+  templateResourceId?: string;
+  templateId?: number;
+  landingPageResourceId?: string;
+  landingPageId?: number;
+  /** Assign with this when present (falls back to templateResourceId) */
+  scenarioResourceId?: string;
+  scenarioId?: number;
+  languageId?: string;
+  /** Older platform responses only return this */
+  resourceId?: string;
+  message?: string;
+  [key: string]: unknown;
+}
+
+export interface TrainingUpload {
+  /** Microlearning ID */
+  contentId: string;
+  /** Public URL the platform serves the training from */
+  contentUrl: string;
+  training: Record<string, unknown>;
+}
+
+export interface TrainingUploadResult {
+  resourceId?: string;
+  languageId?: string;
+  message?: string;
+  [key: string]: unknown;
+}
+
+/** Per-user activity assignment; the adapter adds the caller's platform credentials */
+export type ActivityAssignment = AgenticActivitiesPayload;
+export type ActivityAssignmentResult = WorkerSendResponse;
+
+export interface SecurityPlatformAdapter {
+  readonly name: SecurityPlatformName;
+
+  findUser(ctx: PlatformContext, lookup: UserLookup): Promise<PlatformUser | null>;
+  searchGroups(ctx: PlatformContext, name: string): Promise<PlatformGroup[]>;
+  /** Active members only */
+  listGroupMembers(ctx: PlatformContext, groupResourceId: string): Promise<GroupMember[]>;
+
+  uploadSimulation(ctx: PlatformContext, upload: SimulationUpload): Promise<SimulationUploadResult>;
+  /** activityType phishing | quishing | smishing */
+  assignSimulation(ctx: PlatformContext, assignment: ActivityAssignment): Promise<ActivityAssignmentResult>;
+  uploadTraining(ctx: PlatformContext, upload: TrainingUpload): Promise<TrainingUploadResult>;
+  assignTraining(ctx: PlatformContext, assignment: ActivityAssignment): Promise<ActivityAssignmentResult>;
+
+  /** Reported (notified) email by ID, as the platform returns it */
+  getIncident(ctx: PlatformContext, incidentId: string): Promise<Record<string, unknown>>;
+  /** Most recent simulation/training results for a user, newest first */
+  getUserActivities(ctx: PlatformContext, userResourceId: string): Promise<ApiActivity[]>;
+}
+
+/**
+ * Raised for configuration problems (not_configured), non-2xx platform responses
+ * (api_error), unknown records (not_found) and activity types an adapter cannot
+ * handle (not_supported). Worker call failures keep their existing Error messages.
+ */
+export class SecurityPlatformError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'not_configured' | 'api_error' | 'not_found' | 'not_supported',
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = 'SecurityPlatformError';
+  }
+}
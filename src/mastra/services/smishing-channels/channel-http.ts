@@ -0,0 +1,58 @@
+/**
+ * Shared outbound HTTP for channel adapters.
+ * No retries: a retried chat message can reach the employee twice.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+import { normalizeError } from '../../utils/core/error-utils';
+
+export interface ChannelHttpResult {
+  ok: boolean;
+  status: number;
+  body: unknown;
+  error?: string;
+}
+
+export async function postChannelJson(
+  url: string,
+  payload: unknown,
+  headers: Record<string, string> = {},
+  contentType = 'application/json'
+): Promise<ChannelHttpResult> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), SMISHING_CHANNELS.TIMEOUT_MS);
+  try {
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: { 'Content-Type': contentType, ...headers },
+      body: typeof payload === 'string' ? payload : JSON.stringify(payload),
+      signal: controller.signal,
+    });
+    const text = await response.text().catch(() => '');
+    let body: unknown = text;
+    try {
+      body = text ? JSON.parse(text) : null;
+    } catch {
+      // non-JSON error pages are kept as text
+    }
+    return {
+      ok: response.ok,
+      status: response.status,
+      body,
+      ...(!response.ok && { error: `HTTP ${response.status}: ${text.substring(0, 200)}` }),
+    };
+  } catch (error) {
+    return { ok: false, status: 0, body: null, error: normalizeError(error).message };
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+/** Read a string field from an untyped webhook payload */
+export function readString(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+export function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
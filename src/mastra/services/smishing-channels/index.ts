@@ -0,0 +1,36 @@
+/**
+ * Smishing Channel Adapter Registry
+ *
+ * One adapter per SMISHING_CHANNELS.TRANSPORTS entry. Adapters read their
+ * platform credentials from env at construction, so a new instance is created per call.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+import { SlackChannelAdapter } from './slack-adapter';
+import { TeamsChannelAdapter } from './teams-adapter';
+import { WhatsAppChannelAdapter } from './whatsapp-adapter';
+import { TelegramChannelAdapter } from './telegram-adapter';
+import type { SmishingChannelAdapter, SmishingTransportChannel } from './types';
+
+export * from './types';
+export { SlackChannelAdapter } from './slack-adapter';
+export { TeamsChannelAdapter, resetTeamsAdapterCache } from './teams-adapter';
+export { WhatsAppChannelAdapter } from './whatsapp-adapter';
+export { TelegramChannelAdapter } from './telegram-adapter';
+export * from './session-store';
+
+const ADAPTER_FACTORIES: Record<SmishingTransportChannel, () => SmishingChannelAdapter> = {
+  slack: () => new SlackChannelAdapter(),
+  teams: () => new TeamsChannelAdapter(),
+  whatsapp: () => new WhatsAppChannelAdapter(),
+  telegram: () => new TelegramChannelAdapter(),
+};
+
+export function isSmishingTransportChannel(value: unknown): value is SmishingTransportChannel {
+  return typeof value === 'string' && (SMISHING_CHANNELS.TRANSPORTS as readonly string[]).includes(value);
+}
+
+/** Adapter for a transport channel, or null for channels without a webhook transport (sms, instagram, linkedin) */
+export function getSmishingChannelAdapter(channel: string): SmishingChannelAdapter | null {
+  return isSmishingTransportChannel(channel) ? ADAPTER_FACTORIES[channel]() : null;
+}
@@ -0,0 +1,163 @@
+/**
+ * Smishing Channel Session Store (D1)
+ *
+ * One conversation per (channel, senderId) in SMISHING_CHANNELS.TABLE: which
+ * smishing scenario the sender is in, the chat history fed back into the chat loop,
+ * and where replies go. Rows are purged with SESSION_DATA by the retention sweep.
+ *
+ * Pattern: follows gdpr-service.ts — never throws; returns null/false when D1 is
+ * unavailable or a query fails.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { SMISHING_CHANNELS } from '../../constants';
+import type { SmishingChatMessage } from '../../types';
+import type { ChannelReplyTarget, SmishingTransportChannel } from './types';
+
+const logger = getLogger('SmishingChannelSessionStore');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  first<T = unknown>(): Promise<T | null>;
+}
+
+interface D1Result {
+  success: boolean;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Types ───
+
+export interface ChannelSession {
+  channel: SmishingTransportChannel;
+  senderId: string;
+  companyId: string;
+  microlearningId: string;
+  language: string;
+  messages: SmishingChatMessage[];
+  replyTarget: ChannelReplyTarget;
+  isFinished: boolean;
+  /** Outcome session (smishing-outcome-service); absent for sessions started before outcome tracking */
+  sessionId?: string;
+}
+
+interface ChannelSessionRow {
+  company_id: string;
+  microlearning_id: string;
+  language: string;
+  messages: string;
+  reply_target: string;
+  is_finished: number;
+  session_id: string | null;
+}
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, smishing channel sessions disabled');
+    return null;
+  }
+  return db;
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+export function isSessionStoreAvailable(env: Record<string, unknown> | undefined): boolean {
+  return getDb(env) !== null;
+}
+
+export async function loadChannelSession(
+  env: Record<string, unknown> | undefined,
+  channel: SmishingTransportChannel,
+  senderId: string
+): Promise<ChannelSession | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const row = await db
+      .prepare(
+        `SELECT company_id, microlearning_id, language, messages, reply_target, is_finished, session_id
+         FROM ${SMISHING_CHANNELS.TABLE} WHERE channel = ? AND sender_id = ?`
+      )
+      .bind(channel, senderId)
+      .first<ChannelSessionRow>();
+    if (!row) return null;
+
+    return {
+      channel,
+      senderId,
+      companyId: row.company_id,
+      microlearningId: row.microlearning_id,
+      language: row.language,
+      messages: parseJson<SmishingChatMessage[]>(row.messages, []),
+      replyTarget: parseJson<ChannelReplyTarget>(row.reply_target, {}),
+      isFinished: row.is_finished === 1,
+      ...(row.session_id && { sessionId: row.session_id }),
+    };
+  } catch (error) {
+    logger.warn('smishing_channel_session_load_failed', { channel, error: normalizeError(error).message });
+    return null;
+  }
+}
+
+/** Insert or replace the sender's session (starting a new scenario resets the history) */
+export async function saveChannelSession(
+  env: Record<string, unknown> | undefined,
+  session: ChannelSession
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db) return false;
+
+  const messages = session.messages.slice(-SMISHING_CHANNELS.MAX_HISTORY_MESSAGES);
+  try {
+    await db
+      .prepare(
+        `INSERT INTO ${SMISHING_CHANNELS.TABLE}
+           (channel, sender_id, company_id, microlearning_id, language, messages, reply_target, is_finished, session_id,
+            updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, datetime('now'))
+         ON CONFLICT(channel, sender_id) DO UPDATE SET
+           company_id = excluded.company_id,
+           microlearning_id = excluded.microlearning_id,
+           language = excluded.language,
+           messages = excluded.messages,
+           reply_target = excluded.reply_target,
+           is_finished = excluded.is_finished,
+           session_id = excluded.session_id,
+           updated_at = excluded.updated_at`
+      )
+      .bind(
+        session.channel,
+        session.senderId,
+        session.companyId,
+        session.microlearningId,
+        session.language,
+        JSON.stringify(messages),
+        JSON.stringify(session.replyTarget),
+        session.isFinished ? 1 : 0,
+        session.sessionId ?? null
+      )
+      .run();
+    return true;
+  } catch (error) {
+    logger.warn('smishing_channel_session_save_failed', {
+      channel: session.channel,
+      error: normalizeError(error).message,
+    });
+    return false;
+  }
+}
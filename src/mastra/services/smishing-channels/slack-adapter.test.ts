@@ -0,0 +1,100 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { SlackChannelAdapter } from './slack-adapter';
+import { hmacSha256Hex } from '../../utils/core/hash-utils';
+
+const SECRET = 'slack-signing-secret';
+
+function request(rawBody: string, headers: Record<string, string> = {}) {
+  return { rawBody, header: (name: string) => headers[name] };
+}
+
+async function signedHeaders(rawBody: string, timestamp = Math.floor(Date.now() / 1000)) {
+  return {
+    'X-Slack-Request-Timestamp': String(timestamp),
+    'X-Slack-Signature': `v0=${await hmacSha256Hex(SECRET, `v0:${timestamp}:${rawBody}`)}`,
+  };
+}
+
+const DM_EVENT = {
+  type: 'event_callback',
+  event: { type: 'message', channel_type: 'im', user: 'U123', channel: 'D456', text: ' Who is this? ' },
+};
+
+describe('SlackChannelAdapter', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('verifies the v0 signature and rejects stale or tampered requests', async () => {
+    const adapter = new SlackChannelAdapter({ signingSecret: SECRET });
+    const body = JSON.stringify(DM_EVENT);
+
+    expect(await adapter.verifyRequest(request(body, await signedHeaders(body)))).toBe(true);
+    expect(await adapter.verifyRequest(request(`${body} `, await signedHeaders(body)))).toBe(false);
+    const stale = await signedHeaders(body, Math.floor(Date.now() / 1000) - 600);
+    expect(await adapter.verifyRequest(request(body, stale))).toBe(false);
+    expect(await new SlackChannelAdapter({ signingSecret: '' }).verifyRequest(request(body))).toBe(false);
+  });
+
+  it('maps direct messages and answers url_verification', () => {
+    const adapter = new SlackChannelAdapter({ signingSecret: SECRET });
+
+    expect(adapter.parseInbound(DM_EVENT, request(''))).toEqual({
+      kind: 'message',
+      message: { senderId: 'U123', text: 'Who is this?', replyTarget: { channel: 'D456' } },
+    });
+    expect(adapter.parseInbound({ type: 'url_verification', challenge: 'abc' }, request(''))).toEqual({
+      kind: 'handshake',
+      response: { challenge: 'abc' },
+    });
+  });
+
+  it('ignores retries, bot echoes and channel messages', () => {
+    const adapter = new SlackChannelAdapter({ signingSecret: SECRET });
+    const withEvent = (patch: object) => ({ ...DM_EVENT, event: { ...DM_EVENT.event, ...patch } });
+
+    expect(adapter.parseInbound(DM_EVENT, request('', { 'X-Slack-Retry-Num': '1' }))).toMatchObject({
+      kind: 'ignored',
+      reason: 'slack_retry',
+    });
+    expect(adapter.parseInbound(withEvent({ bot_id: 'B1' }), request(''))).toMatchObject({ kind: 'ignored' });
+    expect(adapter.parseInbound(withEvent({ channel_type: 'channel' }), request(''))).toMatchObject({
+      kind: 'ignored',
+      reason: 'not_direct_message',
+    });
+  });
+
+  it('posts replies with chat.postMessage and surfaces Slack API errors', async () => {
+    const adapter = new SlackChannelAdapter({ signingSecret: SECRET, botToken: 'xoxb-1' });
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ ok: true })));
+
+    const delivery = await adapter.deliver({ channel: 'D456' }, 'Hi, IT here');
+
+    expect(delivery).toEqual({ delivered: true, outbound: { channel: 'D456', text: 'Hi, IT here' } });
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe('https://slack.com/api/chat.postMessage');
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer xoxb-1');
+
+    vi.mocked(global.fetch).mockResolvedValueOnce(new Response(JSON.stringify({ ok: false, error: 'not_in_channel' })));
+    expect(await adapter.deliver({ channel: 'D456' }, 'x')).toMatchObject({
+      delivered: false,
+      error: 'not_in_channel',
+    });
+  });
+
+  it('returns the payload undelivered without a bot token', async () => {
+    const delivery = await new SlackChannelAdapter({ signingSecret: SECRET, botToken: '' }).deliver(
+      { channel: 'U123' },
+      'Hi'
+    );
+
+    expect(delivery).toMatchObject({ delivered: false, outbound: { channel: 'U123', text: 'Hi' } });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
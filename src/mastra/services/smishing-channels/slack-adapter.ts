@@ -0,0 +1,102 @@
+/**
+ * Slack Channel Adapter (Events API)
+ *
+ * Inbound: `message` events from direct messages (`channel_type: 'im'`), signed with
+ * SLACK_SIGNING_SECRET (X-Slack-Signature = v0=HMAC-SHA256(`v0:{ts}:{body}`)).
+ * Outbound: chat.postMessage with SLACK_BOT_TOKEN. Slack answers `url_verification`
+ * with the challenge; retries (X-Slack-Retry-Num) are ignored so a slow LLM turn
+ * does not produce duplicate replies.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+import { hmacSha256Hex, timingSafeEqual } from '../../utils/core/hash-utils';
+import { isRecord, postChannelJson, readString } from './channel-http';
+import type {
+  ChannelDelivery,
+  ChannelReplyTarget,
+  ChannelWebhookRequest,
+  InboundParseResult,
+  SmishingChannelAdapter,
+} from './types';
+
+export class SlackChannelAdapter implements SmishingChannelAdapter {
+  readonly channel = 'slack' as const;
+  readonly displayName = 'Slack';
+
+  private readonly signingSecret: string;
+  private readonly botToken: string;
+
+  constructor(options: { signingSecret?: string; botToken?: string } = {}) {
+    this.signingSecret = options.signingSecret ?? process.env.SLACK_SIGNING_SECRET ?? '';
+    this.botToken = options.botToken ?? process.env.SLACK_BOT_TOKEN ?? '';
+  }
+
+  getConfigurationError(): string | null {
+    return this.signingSecret ? null : 'SLACK_SIGNING_SECRET is not set';
+  }
+
+  async verifyRequest(request: ChannelWebhookRequest): Promise<boolean> {
+    const timestamp = Number(request.header('X-Slack-Request-Timestamp'));
+    const signature = request.header('X-Slack-Signature');
+    if (!this.signingSecret || !signature || !Number.isFinite(timestamp)) return false;
+    if (Math.abs(Math.floor(Date.now() / 1000) - timestamp) > SMISHING_CHANNELS.SIGNATURE_TOLERANCE_SECS) {
+      return false;
+    }
+    const expected = `v0=${await hmacSha256Hex(this.signingSecret, `v0:${timestamp}:${request.rawBody}`)}`;
+    return timingSafeEqual(expected, signature);
+  }
+
+  parseInbound(payload: unknown, request: ChannelWebhookRequest): InboundParseResult {
+    if (!isRecord(payload)) return { kind: 'ignored', reason: 'invalid_payload' };
+    if (payload.type === 'url_verification') {
+      return { kind: 'handshake', response: { challenge: readString(payload.challenge) ?? '' } };
+    }
+    if (request.header('X-Slack-Retry-Num')) return { kind: 'ignored', reason: 'slack_retry' };
+
+    const event = payload.event;
+    if (payload.type !== 'event_callback' || !isRecord(event) || event.type !== 'message') {
+      return { kind: 'ignored', reason: 'unsupported_event' };
+    }
+    // Bot echoes (including our own replies), edits and joins carry bot_id or a subtype
+    if (event.bot_id || event.subtype) return { kind: 'ignored', reason: 'not_user_message' };
+    if (event.channel_type !== 'im') return { kind: 'ignored', reason: 'not_direct_message' };
+
+    const senderId = readString(event.user);
+    const channel = readString(event.channel);
+    const text = readString(event.text);
+    if (!senderId || !channel || !text) return { kind: 'ignored', reason: 'missing_fields' };
+
+    return { kind: 'message', message: { senderId, text, replyTarget: { channel } } };
+  }
+
+  canDeliver(): boolean {
+    return Boolean(this.botToken);
+  }
+
+  /** chat.postMessage to a user ID opens (or reuses) the DM with that user */
+  targetForSender(senderId: string): ChannelReplyTarget {
+    return { channel: senderId };
+  }
+
+  formatReply(target: ChannelReplyTarget, text: string): unknown {
+    return { channel: target.channel, text };
+  }
+
+  async deliver(target: ChannelReplyTarget, text: string): Promise<ChannelDelivery> {
+    const outbound = this.formatReply(target, text);
+    if (!this.canDeliver()) return { delivered: false, outbound, webhookResponse: outbound };
+
+    const result = await postChannelJson(
+      SMISHING_CHANNELS.API.SLACK_POST_MESSAGE,
+      outbound,
+      { Authorization: `Bearer ${this.botToken}` },
+      'application/json; charset=utf-8'
+    );
+    // Slack reports API errors with HTTP 200 and { ok: false, error }
+    const apiError = isRecord(result.body) && result.body.ok === false ? String(result.body.error) : undefined;
+    if (!result.ok || apiError) {
+      return { delivered: false, outbound, error: apiError ?? result.error };
+    }
+    return { delivered: true, outbound };
+  }
+}
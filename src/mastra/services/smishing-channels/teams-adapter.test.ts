@@ -0,0 +1,212 @@
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import { TeamsChannelAdapter, resetTeamsAdapterCache } from './teams-adapter';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const APP_ID = 'app-123';
+const SERVICE_URL = 'https://smba.trafficmanager.net/emea/';
+const JWKS_URI = 'https://login.botframework.com/v1/.well-known/keys';
+
+const ACTIVITY = {
+  type: 'message',
+  id: 'act-1',
+  serviceUrl: SERVICE_URL,
+  from: { id: '29:user', aadObjectId: 'aad-user', name: 'Ayse' },
+  recipient: { id: '28:bot', name: 'IT Helpdesk' },
+  conversation: { id: 'a:conv', conversationType: 'personal' },
+  text: 'Which form?',
+};
+
+const base64Url = (bytes: Uint8Array) =>
+  Buffer.from(bytes).toString('base64').replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+const encodeJson = (value: object) => base64Url(new TextEncoder().encode(JSON.stringify(value)));
+
+let keyPair: CryptoKeyPair;
+let publicJwk: JsonWebKey;
+
+async function signJwt(claims: object, kid = 'key-1') {
+  const unsigned = `${encodeJson({ alg: 'RS256', kid, typ: 'JWT' })}.${encodeJson(claims)}`;
+  const signature = await crypto.subtle.sign(
+    'RSASSA-PKCS1-v1_5',
+    keyPair.privateKey,
+    new TextEncoder().encode(unsigned)
+  );
+  return `${unsigned}.${base64Url(new Uint8Array(signature))}`;
+}
+
+function validClaims(overrides: object = {}) {
+  const now = Math.floor(Date.now() / 1000);
+  return {
+    iss: 'https://api.botframework.com',
+    aud: APP_ID,
+    nbf: now - 10,
+    exp: now + 600,
+    serviceUrl: SERVICE_URL,
+    ...overrides,
+  };
+}
+
+function mockOpenIdFetch() {
+  vi.mocked(global.fetch).mockImplementation(async input => {
+    const url = String(input);
+    if (url.endsWith('openidconfiguration')) return new Response(JSON.stringify({ jwks_uri: JWKS_URI }));
+    if (url === JWKS_URI) return new Response(JSON.stringify({ keys: [{ ...publicJwk, kid: 'key-1' }] }));
+    throw new Error(`Unexpected fetch ${url}`);
+  });
+}
+
+describe('TeamsChannelAdapter', () => {
+  const originalFetch = global.fetch;
+  const rawBody = JSON.stringify(ACTIVITY);
+
+  beforeAll(async () => {
+    keyPair = await crypto.subtle.generateKey(
+      {
+        name: 'RSASSA-PKCS1-v1_5',
+        modulusLength: 2048,
+        publicExponent: new Uint8Array([1, 0, 1]),
+        hash: 'SHA-256',
+      },
+      true,
+      ['sign', 'verify']
+    );
+    publicJwk = await crypto.subtle.exportKey('jwk', keyPair.publicKey);
+  });
+
+  beforeEach(() => {
+    resetTeamsAdapterCache();
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('accepts a Bot Framework token signed by a published key', async () => {
+    mockOpenIdFetch();
+    const token = await signJwt(validClaims());
+
+    const verified = await new TeamsChannelAdapter({ appId: APP_ID }).verifyRequest({
+      rawBody,
+      header: () => `Bearer ${token}`,
+    });
+
+    expect(verified).toBe(true);
+  });
+
+  it('rejects wrong audience, expired tokens, serviceUrl mismatch and unknown keys', async () => {
+    mockOpenIdFetch();
+    const adapter = new TeamsChannelAdapter({ appId: APP_ID });
+    const now = Math.floor(Date.now() / 1000);
+
+    for (const token of [
+      await signJwt(validClaims({ aud: 'other-app' })),
+      await signJwt(validClaims({ exp: now - 3600 })),
+      await signJwt(validClaims({ serviceUrl: 'https://evil.example/' })),
+      await signJwt(validClaims(), 'unknown-kid'),
+    ]) {
+      expect(await adapter.verifyRequest({ rawBody, header: () => `Bearer ${token}` })).toBe(false);
+    }
+    expect(await adapter.verifyRequest({ rawBody, header: () => undefined })).toBe(false);
+  });
+
+  it('refetches the JWKS for unknown keys at most once per interval', async () => {
+    mockOpenIdFetch();
+    const adapter = new TeamsChannelAdapter({ appId: APP_ID });
+    const jwksFetches = () => vi.mocked(global.fetch).mock.calls.filter(([url]) => String(url) === JWKS_URI).length;
+    const forged = await signJwt(validClaims(), 'forged-kid');
+
+    for (let i = 0; i < 5; i++) {
+      expect(await adapter.verifyRequest({ rawBody, header: () => `Bearer ${forged}` })).toBe(false);
+    }
+    expect(jwksFetches()).toBe(1);
+
+    // Known keys keep verifying from the cache in between
+    const valid = await signJwt(validClaims());
+    expect(await adapter.verifyRequest({ rawBody, header: () => `Bearer ${valid}` })).toBe(true);
+    expect(jwksFetches()).toBe(1);
+
+    const now = Date.now();
+    vi.spyOn(Date, 'now').mockReturnValue(now + 5 * 60 * 1000);
+    try {
+      expect(await adapter.verifyRequest({ rawBody, header: () => `Bearer ${forged}` })).toBe(false);
+      expect(jwksFetches()).toBe(2);
+    } finally {
+      vi.mocked(Date.now).mockRestore();
+    }
+  });
+
+  it('does not retry a failing JWKS fetch on every request', async () => {
+    vi.mocked(global.fetch).mockRejectedValue(new Error('network down'));
+    const adapter = new TeamsChannelAdapter({ appId: APP_ID });
+    const token = await signJwt(validClaims());
+
+    expect(await adapter.verifyRequest({ rawBody, header: () => `Bearer ${token}` })).toBe(false);
+    expect(await adapter.verifyRequest({ rawBody, header: () => `Bearer ${token}` })).toBe(false);
+
+    expect(global.fetch).toHaveBeenCalledTimes(1);
+  });
+
+  it('maps personal chat messages keyed by the Entra object ID', () => {
+    const parsed = new TeamsChannelAdapter({ appId: APP_ID }).parseInbound(ACTIVITY);
+
+    expect(parsed).toEqual({
+      kind: 'message',
+      message: {
+        senderId: 'aad-user',
+        text: 'Which form?',
+        replyTarget: {
+          serviceUrl: SERVICE_URL,
+          conversation: { id: 'a:conv' },
+          bot: { id: '28:bot', name: 'IT Helpdesk' },
+          user: { id: '29:user', name: 'Ayse' },
+          replyToId: 'act-1',
+        },
+      },
+    });
+    expect(
+      new TeamsChannelAdapter({ appId: APP_ID }).parseInbound({
+        ...ACTIVITY,
+        conversation: { id: 'c', conversationType: 'channel' },
+      })
+    ).toMatchObject({ kind: 'ignored', reason: 'not_personal_chat' });
+  });
+
+  it('replies to the activity with a client-credentials token', async () => {
+    vi.mocked(global.fetch)
+      .mockResolvedValueOnce(new Response(JSON.stringify({ access_token: 'bf-token', expires_in: 3600 })))
+      .mockResolvedValueOnce(new Response(JSON.stringify({ id: 'reply-1' })));
+    const adapter = new TeamsChannelAdapter({ appId: APP_ID, appPassword: 'secret' });
+    const parsed = adapter.parseInbound(ACTIVITY);
+    if (parsed.kind !== 'message') throw new Error('expected message');
+
+    const delivery = await adapter.deliver(parsed.message.replyTarget, 'Use the portal link');
+
+    expect(delivery.delivered).toBe(true);
+    const [url, init] = vi.mocked(global.fetch).mock.calls[1];
+    expect(url).toBe(`${SERVICE_URL}v3/conversations/a%3Aconv/activities/act-1`);
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer bf-token');
+    expect(JSON.parse(String(init?.body))).toMatchObject({
+      type: 'message',
+      text: 'Use the portal link',
+      from: { id: '28:bot' },
+      recipient: { id: '29:user' },
+      replyToId: 'act-1',
+    });
+  });
+
+  it('returns an expectReplies body when it cannot deliver', async () => {
+    const delivery = await new TeamsChannelAdapter({ appId: APP_ID }).deliver({ user: { id: 'aad-user' } }, 'Hi');
+
+    expect(delivery.delivered).toBe(false);
+    expect(delivery.webhookResponse).toEqual({ activities: [delivery.outbound] });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,260 @@
+/**
+ * Microsoft Teams Channel Adapter (Bot Framework activities)
+ *
+ * Inbound: `message` activities from 1:1 (personal) conversations. Requests carry a
+ * Bot Framework JWT (Authorization: Bearer) — verified RS256 against the Bot Framework
+ * OpenID signing keys, with issuer api.botframework.com and audience TEAMS_APP_ID.
+ * Outbound: reply activity posted to the activity's serviceUrl with a client-credentials
+ * token (TEAMS_APP_ID / TEAMS_APP_PASSWORD). Without a password the reply is returned as
+ * `{ activities: [...] }` (Bot Framework `expectReplies` response body).
+ *
+ * Sessions are keyed by the user's Entra object ID (from.aadObjectId), falling back to the
+ * Teams user ID. Conversations we start have no serviceUrl yet, so the first message is
+ * returned for the caller to send via proactive messaging.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { isRecord, postChannelJson, readString } from './channel-http';
+import type {
+  ChannelDelivery,
+  ChannelReplyTarget,
+  ChannelWebhookRequest,
+  InboundParseResult,
+  SmishingChannelAdapter,
+} from './types';
+
+const logger = getLogger('TeamsChannelAdapter');
+
+/** Bot Framework rotates keys rarely; Microsoft recommends refreshing at least daily */
+const SIGNING_KEYS_TTL_MS = 24 * 60 * 60 * 1000;
+/** The webhook is public: unknown kids (or a failing JWKS) trigger at most one refetch per interval */
+const SIGNING_KEYS_REFETCH_INTERVAL_MS = 5 * 60 * 1000;
+const CLOCK_SKEW_SECS = 300;
+
+interface SigningKey extends JsonWebKey {
+  kid?: string;
+}
+
+let signingKeysCache: { keys: SigningKey[]; fetchedAt: number } | null = null;
+/** Last fetch attempt, successful or not; concurrent lookups share the in-flight fetch */
+let signingKeysFetch: { promise: Promise<SigningKey[]>; startedAt: number } | null = null;
+let accessTokenCache: { token: string; expiresAt: number } | null = null;
+
+function base64UrlDecode(input: string): Uint8Array<ArrayBuffer> {
+  const base64 = input
+    .replace(/-/g, '+')
+    .replace(/_/g, '/')
+    .padEnd(Math.ceil(input.length / 4) * 4, '=');
+  const binary = atob(base64);
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+function decodeJwtPart(part: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(new TextDecoder().decode(base64UrlDecode(part)));
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
+
+async function fetchSigningKeys(): Promise<SigningKey[]> {
+  const config = await fetch(SMISHING_CHANNELS.API.BOT_FRAMEWORK_OPENID).then(r => r.json() as Promise<unknown>);
+  const jwksUri = isRecord(config) ? readString(config.jwks_uri) : undefined;
+  if (!jwksUri) throw new Error('Bot Framework OpenID configuration has no jwks_uri');
+  const jwks = await fetch(jwksUri).then(r => r.json() as Promise<unknown>);
+  return isRecord(jwks) && Array.isArray(jwks.keys) ? (jwks.keys as SigningKey[]) : [];
+}
+
+async function findSigningKey(kid: string): Promise<SigningKey | undefined> {
+  const fresh = signingKeysCache && Date.now() - signingKeysCache.fetchedAt < SIGNING_KEYS_TTL_MS;
+  const cached = signingKeysCache?.keys.find(key => key.kid === kid);
+  if (fresh && cached) return cached;
+
+  // Unknown kid (key rollover) or expired keys → refetch, unless an attempt was made recently:
+  // then the lookup fails from cache instead of letting forged kids hit the JWKS on every request
+  if (!signingKeysFetch || Date.now() - signingKeysFetch.startedAt >= SIGNING_KEYS_REFETCH_INTERVAL_MS) {
+    const promise = fetchSigningKeys();
+    signingKeysFetch = { promise, startedAt: Date.now() };
+    signingKeysCache = { keys: await promise, fetchedAt: Date.now() };
+    return signingKeysCache.keys.find(key => key.kid === kid);
+  }
+  const keys = await signingKeysFetch.promise.catch(() => signingKeysCache?.keys ?? []);
+  return keys.find(key => key.kid === kid);
+}
+
+/** Clears cached signing keys and access token (tests) */
+export function resetTeamsAdapterCache(): void {
+  signingKeysCache = null;
+  signingKeysFetch = null;
+  accessTokenCache = null;
+}
+
+export class TeamsChannelAdapter implements SmishingChannelAdapter {
+  readonly channel = 'teams' as const;
+  readonly displayName = 'Microsoft Teams';
+
+  private readonly appId: string;
+  private readonly appPassword: string;
+
+  constructor(options: { appId?: string; appPassword?: string } = {}) {
+    this.appId = options.appId ?? process.env.TEAMS_APP_ID ?? '';
+    this.appPassword = options.appPassword ?? process.env.TEAMS_APP_PASSWORD ?? '';
+  }
+
+  getConfigurationError(): string | null {
+    return this.appId ? null : 'TEAMS_APP_ID is not set';
+  }
+
+  async verifyRequest(request: ChannelWebhookRequest): Promise<boolean> {
+    const authorization = request.header('Authorization');
+    if (!this.appId || !authorization?.startsWith('Bearer ')) return false;
+
+    const token = authorization.slice('Bearer '.length).trim();
+    const [encodedHeader, encodedPayload, encodedSignature] = token.split('.');
+    if (!encodedHeader || !encodedPayload || !encodedSignature) return false;
+
+    const header = decodeJwtPart(encodedHeader);
+    const claims = decodeJwtPart(encodedPayload);
+    if (!header || !claims || header.alg !== 'RS256' || typeof header.kid !== 'string') return false;
+
+    const now = Math.floor(Date.now() / 1000);
+    if (claims.iss !== SMISHING_CHANNELS.API.BOT_FRAMEWORK_ISSUER || claims.aud !== this.appId) return false;
+    if (typeof claims.exp !== 'number' || claims.exp + CLOCK_SKEW_SECS < now) return false;
+    if (typeof claims.nbf === 'number' && claims.nbf - CLOCK_SKEW_SECS > now) return false;
+
+    // The token is bound to the serviceUrl we will reply to
+    if (typeof claims.serviceUrl === 'string') {
+      const activity = decodeActivity(request.rawBody);
+      if (!activity || activity.serviceUrl !== claims.serviceUrl) return false;
+    }
+
+    try {
+      const jwk = await findSigningKey(header.kid);
+      if (!jwk) return false;
+      const key = await crypto.subtle.importKey(
+        'jwk',
+        { kty: jwk.kty, n: jwk.n, e: jwk.e },
+        { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' },
+        false,
+        ['verify']
+      );
+      return await crypto.subtle.verify(
+        'RSASSA-PKCS1-v1_5',
+        key,
+        base64UrlDecode(encodedSignature),
+        new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`)
+      );
+    } catch (error) {
+      logger.warn('teams_jwt_verification_failed', { error: normalizeError(error).message });
+      return false;
+    }
+  }
+
+  parseInbound(payload: unknown): InboundParseResult {
+    if (!isRecord(payload) || payload.type !== 'message') return { kind: 'ignored', reason: 'unsupported_activity' };
+
+    const conversation = isRecord(payload.conversation) ? payload.conversation : {};
+    if (conversation.conversationType !== 'personal') return { kind: 'ignored', reason: 'not_personal_chat' };
+
+    const from = isRecord(payload.from) ? payload.from : {};
+    const senderId = readString(from.aadObjectId) ?? readString(from.id);
+    const text = readString(payload.text);
+    const serviceUrl = readString(payload.serviceUrl);
+    if (!senderId || !text || !serviceUrl || !readString(conversation.id)) {
+      return { kind: 'ignored', reason: 'missing_fields' };
+    }
+
+    return {
+      kind: 'message',
+      message: {
+        senderId,
+        text,
+        replyTarget: {
+          serviceUrl,
+          conversation: { id: conversation.id },
+          bot: payload.recipient,
+          user: { id: from.id, ...(from.name !== undefined && { name: from.name }) },
+          replyToId: payload.id,
+        },
+      },
+    };
+  }
+
+  canDeliver(): boolean {
+    return Boolean(this.appId && this.appPassword);
+  }
+
+  targetForSender(senderId: string): ChannelReplyTarget {
+    return { user: { id: senderId } };
+  }
+
+  formatReply(target: ChannelReplyTarget, text: string): unknown {
+    return {
+      type: 'message',
+      text,
+      textFormat: 'plain',
+      ...(target.bot !== undefined && { from: target.bot }),
+      recipient: target.user,
+      ...(target.conversation !== undefined && { conversation: target.conversation }),
+      ...(target.replyToId !== undefined && { replyToId: target.replyToId }),
+    };
+  }
+
+  async deliver(target: ChannelReplyTarget, text: string): Promise<ChannelDelivery> {
+    const outbound = this.formatReply(target, text);
+    const serviceUrl = readString(target.serviceUrl);
+    const conversationId = isRecord(target.conversation) ? readString(target.conversation.id) : undefined;
+    if (!this.canDeliver() || !serviceUrl || !conversationId) {
+      return { delivered: false, outbound, webhookResponse: { activities: [outbound] } };
+    }
+
+    const token = await this.getAccessToken();
+    if (!token) return { delivered: false, outbound, error: 'Bot Framework token request failed' };
+
+    const replyToId = readString(target.replyToId);
+    const url =
+      `${serviceUrl.replace(/\/$/, '')}/v3/conversations/${encodeURIComponent(conversationId)}/activities` +
+      (replyToId ? `/${encodeURIComponent(replyToId)}` : '');
+    const result = await postChannelJson(url, outbound, { Authorization: `Bearer ${token}` });
+    return result.ok ? { delivered: true, outbound } : { delivered: false, outbound, error: result.error };
+  }
+
+  private async getAccessToken(): Promise<string | null> {
+    if (accessTokenCache && accessTokenCache.expiresAt > Date.now()) return accessTokenCache.token;
+
+    const form = new URLSearchParams({
+      grant_type: 'client_credentials',
+      client_id: this.appId,
+      client_secret: this.appPassword,
+      scope: SMISHING_CHANNELS.API.BOT_FRAMEWORK_SCOPE,
+    });
+    const result = await postChannelJson(
+      SMISHING_CHANNELS.API.BOT_FRAMEWORK_TOKEN,
+      form.toString(),
+      {},
+      'application/x-www-form-urlencoded'
+    );
+    const token = isRecord(result.body) ? readString(result.body.access_token) : undefined;
+    if (!result.ok || !token) {
+      logger.warn('teams_token_request_failed', { status: result.status });
+      return null;
+    }
+    const expiresIn =
+      isRecord(result.body) && typeof result.body.expires_in === 'number' ? result.body.expires_in : 3600;
+    // Refresh a minute early
+    accessTokenCache = { token, expiresAt: Date.now() + (expiresIn - 60) * 1000 };
+    return token;
+  }
+}
+
+function decodeActivity(rawBody: string): Record<string, unknown> | null {
+  try {
+    const parsed = JSON.parse(rawBody);
+    return isRecord(parsed) ? parsed : null;
+  } catch {
+    return null;
+  }
+}
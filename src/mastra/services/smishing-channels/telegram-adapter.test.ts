@@ -0,0 +1,65 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { TelegramChannelAdapter } from './telegram-adapter';
+
+const PRIVATE_MESSAGE = {
+  update_id: 1,
+  message: { from: { id: 777, is_bot: false }, chat: { id: 777, type: 'private' }, text: 'what link?' },
+};
+
+describe('TelegramChannelAdapter', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('verifies the webhook secret token header', async () => {
+    const adapter = new TelegramChannelAdapter({ webhookSecret: 'tg-secret' });
+
+    expect(await adapter.verifyRequest({ rawBody: '', header: () => 'tg-secret' })).toBe(true);
+    expect(await adapter.verifyRequest({ rawBody: '', header: () => 'other' })).toBe(false);
+    expect(await adapter.verifyRequest({ rawBody: '', header: () => undefined })).toBe(false);
+  });
+
+  it('maps private chat messages and ignores groups', () => {
+    const adapter = new TelegramChannelAdapter({ webhookSecret: 'tg-secret' });
+
+    expect(adapter.parseInbound(PRIVATE_MESSAGE)).toEqual({
+      kind: 'message',
+      message: { senderId: '777', text: 'what link?', replyTarget: { chatId: 777 } },
+    });
+    expect(
+      adapter.parseInbound({ message: { ...PRIVATE_MESSAGE.message, chat: { id: -100, type: 'supergroup' } } })
+    ).toEqual({ kind: 'ignored', reason: 'not_private_chat' });
+  });
+
+  it('replies inline via the webhook response without a bot token', async () => {
+    const delivery = await new TelegramChannelAdapter({ webhookSecret: 's', botToken: '' }).deliver(
+      { chatId: 777 },
+      'Click here'
+    );
+
+    expect(delivery).toEqual({
+      delivered: false,
+      outbound: { method: 'sendMessage', chat_id: 777, text: 'Click here' },
+      webhookResponse: { method: 'sendMessage', chat_id: 777, text: 'Click here' },
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('calls sendMessage when a bot token is configured', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({ ok: true })));
+
+    const delivery = await new TelegramChannelAdapter({ webhookSecret: 's', botToken: '123:abc' }).deliver(
+      { chatId: '777' },
+      'Hi'
+    );
+
+    expect(delivery.delivered).toBe(true);
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe('https://api.telegram.org/bot123:abc/sendMessage');
+  });
+});
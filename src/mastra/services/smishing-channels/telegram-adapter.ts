@@ -0,0 +1,84 @@
+/**
+ * Telegram Channel Adapter (Bot API updates)
+ *
+ * Inbound: private-chat text `message` updates; the webhook is registered with
+ * secret_token = TELEGRAM_WEBHOOK_SECRET, echoed in X-Telegram-Bot-Api-Secret-Token.
+ * Outbound: sendMessage — via the Bot API when TELEGRAM_BOT_TOKEN is set, otherwise
+ * as the webhook response body (Telegram executes `{ method: 'sendMessage', ... }` replies).
+ *
+ * Note: a bot cannot message a user first; the employee must have started the bot.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+import { timingSafeEqual } from '../../utils/core/hash-utils';
+import { isRecord, postChannelJson, readString } from './channel-http';
+import type {
+  ChannelDelivery,
+  ChannelReplyTarget,
+  ChannelWebhookRequest,
+  InboundParseResult,
+  SmishingChannelAdapter,
+} from './types';
+
+export class TelegramChannelAdapter implements SmishingChannelAdapter {
+  readonly channel = 'telegram' as const;
+  readonly displayName = 'Telegram';
+
+  private readonly webhookSecret: string;
+  private readonly botToken: string;
+
+  constructor(options: { webhookSecret?: string; botToken?: string } = {}) {
+    this.webhookSecret = options.webhookSecret ?? process.env.TELEGRAM_WEBHOOK_SECRET ?? '';
+    this.botToken = options.botToken ?? process.env.TELEGRAM_BOT_TOKEN ?? '';
+  }
+
+  getConfigurationError(): string | null {
+    return this.webhookSecret ? null : 'TELEGRAM_WEBHOOK_SECRET is not set';
+  }
+
+  async verifyRequest(request: ChannelWebhookRequest): Promise<boolean> {
+    const token = request.header('X-Telegram-Bot-Api-Secret-Token');
+    return Boolean(this.webhookSecret && token && timingSafeEqual(token, this.webhookSecret));
+  }
+
+  parseInbound(payload: unknown): InboundParseResult {
+    const message = isRecord(payload) ? payload.message : undefined;
+    if (!isRecord(message)) return { kind: 'ignored', reason: 'unsupported_update' };
+
+    const chat = isRecord(message.chat) ? message.chat : {};
+    if (chat.type !== 'private') return { kind: 'ignored', reason: 'not_private_chat' };
+
+    const from = isRecord(message.from) ? message.from : {};
+    if (from.is_bot === true) return { kind: 'ignored', reason: 'not_user_message' };
+
+    const senderId = from.id !== undefined ? String(from.id) : undefined;
+    const text = readString(message.text);
+    if (!senderId || chat.id === undefined || !text) return { kind: 'ignored', reason: 'missing_fields' };
+
+    return { kind: 'message', message: { senderId, text, replyTarget: { chatId: chat.id } } };
+  }
+
+  canDeliver(): boolean {
+    return Boolean(this.botToken);
+  }
+
+  /** In a private chat the chat ID equals the user ID */
+  targetForSender(senderId: string): ChannelReplyTarget {
+    return { chatId: senderId };
+  }
+
+  formatReply(target: ChannelReplyTarget, text: string): unknown {
+    return { method: 'sendMessage', chat_id: target.chatId, text };
+  }
+
+  async deliver(target: ChannelReplyTarget, text: string): Promise<ChannelDelivery> {
+    const outbound = this.formatReply(target, text);
+    if (!this.canDeliver()) return { delivered: false, outbound, webhookResponse: outbound };
+
+    const result = await postChannelJson(`${SMISHING_CHANNELS.API.TELEGRAM_BOT_BASE}/bot${this.botToken}/sendMessage`, {
+      chat_id: target.chatId,
+      text,
+    });
+    return result.ok ? { delivered: true, outbound } : { delivered: false, outbound, error: result.error };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Smishing Channel Adapter Types
+ *
+ * A channel adapter translates between one messaging platform's native webhook /
+ * outbound formats and the smishing chat loop (runSmishingChatTurn). Adapters are
+ * stateless; conversation state per sender lives in channel-conversation-service.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+
+export type SmishingTransportChannel = (typeof SMISHING_CHANNELS.TRANSPORTS)[number];
+
+/** Raw inbound webhook request (signature checks need the exact body bytes) */
+export interface ChannelWebhookRequest {
+  rawBody: string;
+  header(name: string): string | undefined;
+}
+
+/**
+ * Platform-specific reply address, stored with the session.
+ * Slack: { channel }, WhatsApp: { to }, Telegram: { chatId },
+ * Teams: { serviceUrl, conversation, bot, user, replyToId }
+ */
+export type ChannelReplyTarget = Record<string, unknown>;
+
+export interface InboundChannelMessage {
+  /** Stable platform user ID — the session key together with the channel */
+  senderId: string;
+  text: string;
+  replyTarget: ChannelReplyTarget;
+}
+
+export type InboundParseResult =
+  | { kind: 'message'; message: InboundChannelMessage }
+  /** Platform handshake (e.g. Slack url_verification) — answer with `response`, no conversation turn */
+  | { kind: 'handshake'; response: unknown }
+  | { kind: 'ignored'; reason: string };
+
+export interface ChannelDelivery {
+  /** True when the reply was sent through the platform API */
+  delivered: boolean;
+  /** Reply in the platform's outbound format */
+  outbound: unknown;
+  /** Body for the webhook HTTP response (platforms that accept replies inline, or undelivered replies) */
+  webhookResponse?: unknown;
+  error?: string;
+}
+
+export interface SmishingChannelAdapter {
+  readonly channel: SmishingTransportChannel;
+  readonly displayName: string;
+
+  /** Why inbound webhooks cannot be verified, or null when ready */
+  getConfigurationError(): string | null;
+
+  /** Verify the platform's signature / token on an inbound webhook */
+  verifyRequest(request: ChannelWebhookRequest): Promise<boolean>;
+
+  /** Map a native webhook payload onto a conversation turn */
+  parseInbound(payload: unknown, request: ChannelWebhookRequest): InboundParseResult;
+
+  /** True when replies can be sent through the platform API (outbound credentials configured) */
+  canDeliver(): boolean;
+
+  /** Reply address for a conversation we start (no inbound message yet) */
+  targetForSender(senderId: string): ChannelReplyTarget;
+
+  /** Reply text in the platform's outbound format */
+  formatReply(target: ChannelReplyTarget, text: string): unknown;
+
+  /** Send the reply via the platform API when credentials are configured, else return it for the caller. Never throws. */
+  deliver(target: ChannelReplyTarget, text: string): Promise<ChannelDelivery>;
+}
@@ -0,0 +1,81 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { WhatsAppChannelAdapter } from './whatsapp-adapter';
+import { hmacSha256Hex } from '../../utils/core/hash-utils';
+
+const OPTIONS = { appSecret: 'app-secret', verifyToken: 'verify-me', accessToken: 'EAAG', phoneNumberId: '1098' };
+
+function textNotification(from: string, body: string) {
+  return {
+    object: 'whatsapp_business_account',
+    entry: [{ changes: [{ value: { messages: [{ from, type: 'text', text: { body } }] } }] }],
+  };
+}
+
+describe('WhatsAppChannelAdapter', () => {
+  const originalFetch = global.fetch;
+
+  beforeEach(() => {
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  it('verifies X-Hub-Signature-256 over the raw body', async () => {
+    const adapter = new WhatsAppChannelAdapter(OPTIONS);
+    const body = JSON.stringify(textNotification('905551234567', 'hi'));
+    const signature = `sha256=${await hmacSha256Hex('app-secret', body)}`;
+
+    expect(await adapter.verifyRequest({ rawBody: body, header: () => signature })).toBe(true);
+    expect(await adapter.verifyRequest({ rawBody: `${body}x`, header: () => signature })).toBe(false);
+    expect(await adapter.verifyRequest({ rawBody: body, header: () => undefined })).toBe(false);
+  });
+
+  it('answers the subscription handshake only for the configured token', () => {
+    const adapter = new WhatsAppChannelAdapter(OPTIONS);
+
+    expect(adapter.verifySubscription({ mode: 'subscribe', token: 'verify-me', challenge: '42' })).toBe('42');
+    expect(adapter.verifySubscription({ mode: 'subscribe', token: 'wrong', challenge: '42' })).toBeNull();
+  });
+
+  it('maps text messages and ignores status callbacks', () => {
+    const adapter = new WhatsAppChannelAdapter(OPTIONS);
+
+    expect(adapter.parseInbound(textNotification('905551234567', 'Is this HR?'))).toEqual({
+      kind: 'message',
+      message: { senderId: '905551234567', text: 'Is this HR?', replyTarget: { to: '905551234567' } },
+    });
+    expect(
+      adapter.parseInbound({
+        object: 'whatsapp_business_account',
+        entry: [{ changes: [{ value: { statuses: [{ status: 'read' }] } }] }],
+      })
+    ).toEqual({ kind: 'ignored', reason: 'no_text_message' });
+  });
+
+  it('sends text messages through the Graph API', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(new Response(JSON.stringify({ messages: [{ id: 'wamid.1' }] })));
+
+    const delivery = await new WhatsAppChannelAdapter(OPTIONS).deliver({ to: '905551234567' }, 'Hello');
+
+    expect(delivery.delivered).toBe(true);
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe('https://graph.facebook.com/v21.0/1098/messages');
+    expect(JSON.parse(String(init?.body))).toEqual({
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: '905551234567',
+      type: 'text',
+      text: { preview_url: false, body: 'Hello' },
+    });
+  });
+
+  it('reports Graph API failures without throwing', async () => {
+    vi.mocked(global.fetch).mockResolvedValue(new Response('{"error":{"code":131047}}', { status: 400 }));
+
+    const delivery = await new WhatsAppChannelAdapter(OPTIONS).deliver({ to: '905551234567' }, 'Hello');
+
+    expect(delivery).toMatchObject({ delivered: false, error: expect.stringContaining('HTTP 400') });
+  });
+});
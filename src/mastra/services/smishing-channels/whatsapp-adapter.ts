@@ -0,0 +1,112 @@
+/**
+ * WhatsApp Channel Adapter (Cloud API)
+ *
+ * Inbound: `whatsapp_business_account` change notifications with text messages,
+ * signed with WHATSAPP_APP_SECRET (X-Hub-Signature-256 = sha256=HMAC-SHA256(body)).
+ * The GET subscription handshake (hub.verify_token) is checked against WHATSAPP_VERIFY_TOKEN.
+ * Outbound: POST /{WHATSAPP_PHONE_NUMBER_ID}/messages with WHATSAPP_ACCESS_TOKEN.
+ *
+ * Note: outside the 24h customer-service window WhatsApp only accepts template
+ * messages, so a conversation we start may be rejected until the employee writes first.
+ */
+
+import { SMISHING_CHANNELS } from '../../constants';
+import { hmacSha256Hex, timingSafeEqual } from '../../utils/core/hash-utils';
+import { isRecord, postChannelJson, readString } from './channel-http';
+import type {
+  ChannelDelivery,
+  ChannelReplyTarget,
+  ChannelWebhookRequest,
+  InboundParseResult,
+  SmishingChannelAdapter,
+} from './types';
+
+export class WhatsAppChannelAdapter implements SmishingChannelAdapter {
+  readonly channel = 'whatsapp' as const;
+  readonly displayName = 'WhatsApp';
+
+  private readonly appSecret: string;
+  private readonly verifyToken: string;
+  private readonly accessToken: string;
+  private readonly phoneNumberId: string;
+
+  constructor(
+    options: { appSecret?: string; verifyToken?: string; accessToken?: string; phoneNumberId?: string } = {}
+  ) {
+    this.appSecret = options.appSecret ?? process.env.WHATSAPP_APP_SECRET ?? '';
+    this.verifyToken = options.verifyToken ?? process.env.WHATSAPP_VERIFY_TOKEN ?? '';
+    this.accessToken = options.accessToken ?? process.env.WHATSAPP_ACCESS_TOKEN ?? '';
+    this.phoneNumberId = options.phoneNumberId ?? process.env.WHATSAPP_PHONE_NUMBER_ID ?? '';
+  }
+
+  getConfigurationError(): string | null {
+    return this.appSecret ? null : 'WHATSAPP_APP_SECRET is not set';
+  }
+
+  async verifyRequest(request: ChannelWebhookRequest): Promise<boolean> {
+    const signature = request.header('X-Hub-Signature-256');
+    if (!this.appSecret || !signature) return false;
+    const expected = `sha256=${await hmacSha256Hex(this.appSecret, request.rawBody)}`;
+    return timingSafeEqual(expected, signature.toLowerCase());
+  }
+
+  /** GET webhook subscription handshake → challenge to echo, or null when the token does not match */
+  verifySubscription(params: { mode?: string; token?: string; challenge?: string }): string | null {
+    if (!this.verifyToken || params.mode !== 'subscribe' || !params.token || !params.challenge) return null;
+    return timingSafeEqual(params.token, this.verifyToken) ? params.challenge : null;
+  }
+
+  parseInbound(payload: unknown): InboundParseResult {
+    if (!isRecord(payload) || payload.object !== 'whatsapp_business_account' || !Array.isArray(payload.entry)) {
+      return { kind: 'ignored', reason: 'unsupported_event' };
+    }
+
+    // Cloud API batches; one text message per webhook is the norm — take the first
+    for (const entry of payload.entry) {
+      const changes = isRecord(entry) && Array.isArray(entry.changes) ? entry.changes : [];
+      for (const change of changes) {
+        const value = isRecord(change) ? change.value : undefined;
+        const messages = isRecord(value) && Array.isArray(value.messages) ? value.messages : [];
+        const message = messages.find(m => isRecord(m) && m.type === 'text');
+        if (!isRecord(message)) continue;
+
+        const senderId = readString(message.from);
+        const text = isRecord(message.text) ? readString(message.text.body) : undefined;
+        if (!senderId || !text) return { kind: 'ignored', reason: 'missing_fields' };
+        return { kind: 'message', message: { senderId, text, replyTarget: { to: senderId } } };
+      }
+    }
+    // Delivery/read status callbacks and non-text messages
+    return { kind: 'ignored', reason: 'no_text_message' };
+  }
+
+  canDeliver(): boolean {
+    return Boolean(this.accessToken && this.phoneNumberId);
+  }
+
+  targetForSender(senderId: string): ChannelReplyTarget {
+    return { to: senderId };
+  }
+
+  formatReply(target: ChannelReplyTarget, text: string): unknown {
+    return {
+      messaging_product: 'whatsapp',
+      recipient_type: 'individual',
+      to: target.to,
+      type: 'text',
+      text: { preview_url: false, body: text },
+    };
+  }
+
+  async deliver(target: ChannelReplyTarget, text: string): Promise<ChannelDelivery> {
+    const outbound = this.formatReply(target, text);
+    if (!this.canDeliver()) return { delivered: false, outbound, webhookResponse: outbound };
+
+    const result = await postChannelJson(
+      `${SMISHING_CHANNELS.API.WHATSAPP_GRAPH_BASE}/${encodeURIComponent(this.phoneNumberId)}/messages`,
+      outbound,
+      { Authorization: `Bearer ${this.accessToken}` }
+    );
+    return result.ok ? { delivered: true, outbound } : { delivered: false, outbound, error: result.error };
+  }
+}
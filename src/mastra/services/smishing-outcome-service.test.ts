@@ -0,0 +1,208 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  annotateLearnerReply,
+  detectSmishingDisclosures,
+  listSmishingOutcomes,
+  purgeSmishingOutcomesBefore,
+  recordSmishingTurn,
+  scoreSmishingConversation,
+} from './smishing-outcome-service';
+import type { SmishingChatMessage } from '../types';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+function createMockDb(options: { results?: unknown[]; fail?: boolean } = {}) {
+  const statements: { sql: string; values: unknown[] }[] = [];
+  const prepare = vi.fn().mockImplementation((sql: string) => {
+    const entry = { sql, values: [] as unknown[] };
+    statements.push(entry);
+    const statement = {
+      bind: vi.fn((...args: unknown[]) => {
+        entry.values = args;
+        return statement;
+      }),
+      run: vi.fn(async () => {
+        if (options.fail) throw new Error('D1 error');
+        return { success: true, meta: { changes: 2 } };
+      }),
+      all: vi.fn(async () => ({ success: true, results: options.results ?? [] })),
+    };
+    return statement;
+  });
+  return { prepare, statements };
+}
+
+const LURE = 'Royal Mail: your parcel is on hold. Pay the 1.99 fee at https://rm-redelivery.co/pay';
+const assistant = (content: string): SmishingChatMessage => ({ role: 'assistant', content });
+const user = (content: string): SmishingChatMessage => ({ role: 'user', content });
+
+describe('smishing-outcome-service', () => {
+  describe('detectSmishingDisclosures', () => {
+    it('detects Luhn-valid card numbers but not other long digit runs', () => {
+      expect(detectSmishingDisclosures('card is 4111 1111 1111 1111', null)).toEqual(['card_number']);
+      expect(detectSmishingDisclosures('tracking 1234567890123456', null)).toEqual([]);
+    });
+
+    it('reuses the vishing disclosure heuristics', () => {
+      expect(detectSmishingDisclosures('the code is 481522', null)).toEqual(['mfa_code']);
+      expect(detectSmishingDisclosures('481522', 'mfa_code')).toEqual(['mfa_code']);
+    });
+  });
+
+  describe('annotateLearnerReply', () => {
+    it('detects clicks but not refusals to click', () => {
+      expect(annotateLearnerReply('ok I clicked it', null).actions).toEqual(['clicked']);
+      expect(annotateLearnerReply("I didn't click the link, no thanks", null).actions).toEqual(['refused']);
+    });
+
+    it('separates verification questions from reports', () => {
+      expect(annotateLearnerReply('Is this really from the IT team?', null).actions).toEqual(['asked_verification']);
+      expect(annotateLearnerReply('This is a scam, I reported it to security', null).actions).toEqual(['reported']);
+    });
+
+    it('marks disclosures as shared_data', () => {
+      expect(annotateLearnerReply("it's 4 8 1 5 2 2", 'mfa_code')).toEqual({
+        actions: ['shared_data'],
+        disclosed: ['mfa_code'],
+      });
+    });
+  });
+
+  describe('scoreSmishingConversation', () => {
+    it('scores the worst learner behaviour and redacts disclosing turns', () => {
+      const { annotations, outcome } = scoreSmishingConversation(
+        [
+          assistant(LURE),
+          user('who is this?'),
+          assistant('Royal Mail delivery team. Please confirm the code we just sent you.'),
+          user('481522'),
+          assistant('This was a smishing simulation. Never share one-time codes.'),
+        ],
+        true
+      );
+
+      expect(annotations).toEqual([
+        { turn: 2, actions: ['asked_verification'], disclosed: [] },
+        { turn: 4, actions: ['shared_data'], disclosed: ['mfa_code'] },
+      ]);
+      expect(outcome.timeline.map(item => item.label)).toEqual([
+        'Lure',
+        'Verification Question',
+        'Data Request',
+        'Data Disclosed',
+        'Debrief',
+      ]);
+      expect(outcome.timeline[3].snippet).toBe('[redacted]');
+      expect(outcome.disclosedInfo).toEqual([{ item: 'One-time code', turn: 4 }]);
+      expect(outcome).toMatchObject({ outcome: 'data_disclosed', score: 0, statusCard: { variant: 'warning' } });
+    });
+
+    it('returns reported and no_response outcomes', () => {
+      expect(scoreSmishingConversation([assistant(LURE), user('looks like a scam')], false).outcome.outcome).toBe(
+        'reported'
+      );
+      expect(scoreSmishingConversation([assistant(LURE)], false).outcome).toMatchObject({
+        outcome: 'no_response',
+        score: 60,
+      });
+    });
+  });
+
+  describe('recordSmishingTurn', () => {
+    const record = {
+      sessionId: 'session-1',
+      companyId: 'acme',
+      userId: 'u-1',
+      channel: 'web' as const,
+      microlearningId: 'ml-1',
+      language: 'en-gb',
+      messages: [assistant(LURE), user('I clicked it')],
+    };
+
+    it('stores annotations while in progress and the outcome once finished', async () => {
+      const db = createMockDb();
+
+      expect(await recordSmishingTurn({ agentic_ally_memory: db }, { ...record, isFinished: false })).toBe(true);
+      expect(await recordSmishingTurn({ agentic_ally_memory: db }, { ...record, isFinished: true })).toBe(true);
+
+      const [inProgress, finished] = db.statements.map(statement => statement.values);
+      expect(inProgress.slice(0, 8)).toEqual(['session-1', 'acme', 'ml-1', 'u-1', 'web', 'en-gb', 'in_progress', 1]);
+      expect(JSON.parse(String(inProgress[8]))).toEqual([{ turn: 2, actions: ['clicked'], disclosed: [] }]);
+      expect(inProgress[9]).toBeNull();
+      expect(finished[6]).toBe('finished');
+      expect(JSON.parse(String(finished[9]))).toMatchObject({ outcome: 'clicked', score: 20 });
+    });
+
+    it('only updates sessions of the same company and microlearning', async () => {
+      const db = createMockDb();
+      await recordSmishingTurn({ agentic_ally_memory: db }, { ...record, isFinished: false });
+      expect(db.statements[0].sql).toContain('WHERE smishing_chat_outcomes.company_id IS excluded.company_id');
+    });
+
+    it('returns false without D1 or when the write fails', async () => {
+      expect(await recordSmishingTurn(undefined, { ...record, isFinished: false })).toBe(false);
+      expect(
+        await recordSmishingTurn({ agentic_ally_memory: createMockDb({ fail: true }) }, { ...record, isFinished: true })
+      ).toBe(false);
+    });
+  });
+
+  describe('listSmishingOutcomes', () => {
+    it('filters by company, microlearning and user and parses JSON columns', async () => {
+      const db = createMockDb({
+        results: [
+          {
+            session_id: 'session-1',
+            microlearning_id: 'ml-1',
+            user_id: 'u-1',
+            channel: 'web',
+            language: 'en-gb',
+            status: 'finished',
+            learner_turns: 1,
+            annotations: '[{"turn":2,"actions":["clicked"],"disclosed":[]}]',
+            outcome: '{"outcome":"clicked","score":20}',
+            created_at: '2026-06-01 10:00:00',
+            updated_at: '2026-06-01 10:05:00',
+            finished_at: '2026-06-01 10:05:00',
+          },
+        ],
+      });
+
+      const sessions = await listSmishingOutcomes(
+        { agentic_ally_memory: db },
+        { companyId: 'acme', microlearningId: 'ml-1', userId: 'u-1' }
+      );
+
+      expect(db.statements[0].sql).toContain('WHERE company_id = ? AND microlearning_id = ? AND user_id = ?');
+      expect(db.statements[0].values).toEqual(['acme', 'ml-1', 'u-1']);
+      expect(sessions?.[0]).toMatchObject({
+        sessionId: 'session-1',
+        status: 'finished',
+        annotations: [{ turn: 2, actions: ['clicked'] }],
+        outcome: { outcome: 'clicked' },
+      });
+    });
+
+    it('returns null without D1', async () => {
+      expect(await listSmishingOutcomes(undefined, { companyId: 'acme', microlearningId: 'ml-1' })).toBeNull();
+    });
+  });
+
+  describe('purgeSmishingOutcomesBefore', () => {
+    it('deletes sessions last updated before the cutoff', async () => {
+      const db = createMockDb();
+      expect(await purgeSmishingOutcomesBefore({ agentic_ally_memory: db }, '2025-12-31')).toBe(2);
+      expect(db.statements[0]).toEqual({
+        sql: 'DELETE FROM smishing_chat_outcomes WHERE updated_at < ?',
+        values: ['2025-12-31'],
+      });
+    });
+  });
+});
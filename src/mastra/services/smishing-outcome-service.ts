@@ -0,0 +1,483 @@
+/**
+ * Smishing Outcome Service
+ *
+ * Scores smishing chat simulations (/smishing/chat and the channel transports) per
+ * learner. Every turn re-annotates the conversation history — did the learner click,
+ * share data, ask a verification question, report or refuse — and once the debrief is
+ * sent (isFinished) the session is scored into a SmishingConversationOutcome: timeline,
+ * disclosed items and an outcome enum, the smishing counterpart of the vishing summary.
+ *
+ * Heuristics only (no LLM) so recording a turn adds no latency to the chat loop. The
+ * disclosure detection is shared with the live vishing monitor; payment card numbers
+ * are added here (Luhn-checked). Disclosed values are never stored and disclosing
+ * turns are redacted from the timeline.
+ *
+ * State lives in D1 (SMISHING_OUTCOMES.TABLE) keyed by session ID and is purged with
+ * USER_ACTIVITY by the retention sweep.
+ *
+ * Pattern: follows gdpr-service.ts — never throws; returns null/false when D1 is
+ * unavailable or a query fails.
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { SMISHING_OUTCOMES } from '../constants';
+import {
+  SMISHING_OUTCOMES_BY_SEVERITY,
+  type SmishingConversationOutcome,
+  type SmishingLearnerAction,
+  type SmishingOutcome,
+  type SmishingTimelineItem,
+  type SmishingTimelineLabel,
+  type SmishingTurnAnnotation,
+} from '../schemas/smishing-conversation-outcome';
+import type { VishingStatusCard } from '../schemas/vishing-conversations-summary';
+import type { SmishingChatMessage } from '../types';
+import {
+  classifyAgentTurn,
+  detectDisclosures,
+  normalizeSpokenDigits,
+  type DisclosureType,
+  type VishingPhase,
+} from './vishing-live-monitor-service';
+
+const logger = getLogger('SmishingOutcomeService');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  all(): Promise<D1Result>;
+}
+
+interface D1Result {
+  success: boolean;
+  results?: unknown[];
+  meta?: { changes?: number };
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Types ───
+
+export type SmishingDisclosureType = DisclosureType | 'card_number';
+
+/** 'web' = /smishing/chat, otherwise the channel transport */
+export type SmishingOutcomeChannel = 'web' | 'slack' | 'teams' | 'whatsapp' | 'telegram';
+
+export interface SmishingConversationScore {
+  annotations: SmishingTurnAnnotation[];
+  outcome: SmishingConversationOutcome;
+}
+
+export interface SmishingTurnRecord {
+  sessionId: string;
+  companyId: string | null;
+  userId: string | null;
+  channel: SmishingOutcomeChannel;
+  microlearningId: string;
+  language: string;
+  /** Full conversation including the reply just generated */
+  messages: SmishingChatMessage[];
+  isFinished: boolean;
+}
+
+export interface SmishingOutcomeRecord {
+  sessionId: string;
+  microlearningId: string;
+  userId: string | null;
+  channel: string;
+  language: string;
+  status: 'in_progress' | 'finished';
+  learnerTurns: number;
+  annotations: SmishingTurnAnnotation[];
+  /** Null until the debrief was sent */
+  outcome: SmishingConversationOutcome | null;
+  createdAt: string;
+  updatedAt: string;
+  finishedAt: string | null;
+}
+
+interface SmishingOutcomeRow {
+  session_id: string;
+  microlearning_id: string;
+  user_id: string | null;
+  channel: string;
+  language: string;
+  status: string;
+  learner_turns: number;
+  annotations: string;
+  outcome: string | null;
+  created_at: string;
+  updated_at: string;
+  finished_at: string | null;
+}
+
+// ─── Scoring ───
+
+const DISCLOSURE_LABELS: Record<SmishingDisclosureType, string> = {
+  password: 'Password',
+  mfa_code: 'One-time code',
+  badge_number: 'Badge number',
+  employee_id: 'Employee ID',
+  card_number: 'Payment card number',
+};
+
+/** Resilience score per outcome (100 = reported the message) */
+export const SMISHING_OUTCOME_SCORES: Record<SmishingOutcome, number> = {
+  data_disclosed: 0,
+  clicked: 20,
+  reported: 100,
+  verified: 80,
+  refused: 70,
+  no_response: 60,
+  other: 50,
+};
+
+const STATUS_CARD_BY_OUTCOME: Record<SmishingOutcome, VishingStatusCard> = {
+  data_disclosed: {
+    variant: 'warning',
+    title: 'Data Disclosed',
+    description:
+      'The learner shared sensitive information in the chat. Review what was disclosed and take recommended next steps.',
+  },
+  clicked: {
+    variant: 'warning',
+    title: 'Link Clicked',
+    description: 'The learner followed the link in the message. No sensitive data was shared in the chat.',
+  },
+  reported: {
+    variant: 'success',
+    title: 'Message Reported',
+    description: 'The learner recognised the message as smishing and reported it. Great awareness.',
+  },
+  verified: {
+    variant: 'success',
+    title: 'Sender Questioned',
+    description: 'The learner asked to verify the sender before acting. Well done.',
+  },
+  refused: {
+    variant: 'success',
+    title: 'No Data Disclosed',
+    description: 'The learner declined the request without sharing sensitive information.',
+  },
+  no_response: {
+    variant: 'info',
+    title: 'No Response',
+    description: 'The learner did not reply to the message.',
+  },
+  other: {
+    variant: 'info',
+    title: 'Conversation Completed',
+    description: 'The simulation ended. Review the timeline below.',
+  },
+};
+
+/** Learner action that decides each outcome (outcomes without one are fallbacks) */
+const OUTCOME_ACTIONS: Partial<Record<SmishingOutcome, SmishingLearnerAction>> = {
+  data_disclosed: 'shared_data',
+  clicked: 'clicked',
+  reported: 'reported',
+  verified: 'asked_verification',
+  refused: 'refused',
+};
+
+const CLICK_PATTERN =
+  /\b(clicked|tapped)\b|\b(opened|followed|visited|used) (the|your|that|this) (link|url|site|page|website|form)\b|\b(logged|signed) (in|into|on)\b|\b(entered|submitted|filled in|filled out) (my|the|it|them)\b/;
+const NEGATED_CLICK_PATTERN =
+  /\b(didn't|did not|haven't|have not|won't|will not|not going to|never|don't|do not) (click|tap|open|follow|visit|use|log|sign|enter|submit|fill)/;
+const VERIFICATION_PATTERN =
+  /\b(who (is this|are you|sent (this|you))|is (this|that) (really|legit|legitimate|real|genuine|official)|is (this|that) (really |actually )?(from )?(the|my|our) (bank|it|help ?desk|security|company|hr|support|courier|delivery)|how (do|can|would) i (know|verify|confirm|check)|(can|could) you (verify|prove|confirm who)|prove (it|that|who)|(call|contact|check with|ring) (the|my|your|our) (bank|it|help ?desk|office|manager|security|support)|official (number|website|app|channel))\b/;
+const REPORT_PATTERN =
+  /\b(report(ed|ing)?|forward(ed|ing)? (it|this|that) to|flag(ged|ging)?|(this|that|you)( is|'s| are|'re) (a |an )?(scam|scammer|phishing|smishing|fake|fraud|spam|phish)|(looks|seems|sounds) (like )?(a |an )?(scam|phishing|smishing|fake|suspicious|fishy)|(scam|phishing|smishing) (attempt|message|text))\b/;
+const REFUSAL_PATTERN =
+  /\b(no thanks|no thank you|won't|will not|not going to|don't (want|share|give|click)|never (share|give|click)|not (sharing|giving|clicking)|stop (texting|messaging|contacting)|leave me alone|unsubscribe|not interested)\b/;
+
+/** Phase of an attacker message, mapped from the vishing phases */
+const ATTACKER_LABELS: Partial<Record<VishingPhase, SmishingTimelineLabel>> = {
+  Introduction: 'Lure',
+  'Credibility Building': 'Lure',
+  Pressure: 'Pressure',
+  'Data Request': 'Data Request',
+  'Simulation Reveal': 'Debrief',
+};
+
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+function toSnippet(text: string): string {
+  const collapsed = text.replace(/\s+/g, ' ').trim();
+  return collapsed.length > SMISHING_OUTCOMES.SNIPPET_MAX_CHARS
+    ? `${collapsed.slice(0, SMISHING_OUTCOMES.SNIPPET_MAX_CHARS - 1)}…`
+    : collapsed;
+}
+
+/** Sensitive data types shared in a learner reply (values are never returned) */
+export function detectSmishingDisclosures(
+  text: string,
+  pendingRequest: DisclosureType | null
+): SmishingDisclosureType[] {
+  const found: SmishingDisclosureType[] = detectDisclosures(text, pendingRequest);
+  const digitRuns = normalizeSpokenDigits(text).match(/\d{13,19}/g) ?? [];
+  if (digitRuns.some(passesLuhn)) found.push('card_number');
+  return found;
+}
+
+/** What the learner did in one reply, given what the attacker last asked for */
+export function annotateLearnerReply(
+  text: string,
+  pendingRequest: DisclosureType | null
+): { actions: SmishingLearnerAction[]; disclosed: SmishingDisclosureType[] } {
+  const normalized = text.toLowerCase().replace(/[‘’]/g, "'");
+  const disclosed = detectSmishingDisclosures(text, pendingRequest);
+  const actions: SmishingLearnerAction[] = [];
+
+  if (CLICK_PATTERN.test(normalized) && !NEGATED_CLICK_PATTERN.test(normalized)) actions.push('clicked');
+  if (disclosed.length > 0) actions.push('shared_data');
+  if (VERIFICATION_PATTERN.test(normalized)) actions.push('asked_verification');
+  if (REPORT_PATTERN.test(normalized)) actions.push('reported');
+  if (REFUSAL_PATTERN.test(normalized)) actions.push('refused');
+
+  return { actions, disclosed };
+}
+
+function learnerLabel(actions: SmishingLearnerAction[]): SmishingTimelineLabel {
+  if (actions.includes('shared_data')) return 'Data Disclosed';
+  if (actions.includes('clicked')) return 'Link Clicked';
+  if (actions.includes('reported')) return 'Reported';
+  if (actions.includes('asked_verification')) return 'Verification Question';
+  return 'Learner Reply';
+}
+
+/**
+ * Annotate and score a smishing conversation (pure). The full history is re-scored on
+ * every turn, so recording the same conversation twice yields the same result.
+ * `isFinished` marks the last attacker message as the debrief.
+ */
+export function scoreSmishingConversation(
+  messages: SmishingChatMessage[],
+  isFinished: boolean
+): SmishingConversationScore {
+  const annotations: SmishingTurnAnnotation[] = [];
+  const timeline: SmishingTimelineItem[] = [];
+  const disclosedInfo: SmishingConversationOutcome['disclosedInfo'] = [];
+  const lastAttackerIndex = messages.map(message => message.role).lastIndexOf('assistant');
+  let pendingRequest: DisclosureType | null = null;
+  let attackerTurns = 0;
+  let learnerTurns = 0;
+
+  messages.forEach((message, index) => {
+    const turn = index + 1;
+    if (message.role === 'assistant') {
+      const { phase, requested } = classifyAgentTurn(message.content, { phase: 'Other', agentTurns: attackerTurns });
+      attackerTurns++;
+      pendingRequest = requested;
+      const label = isFinished && index === lastAttackerIndex ? 'Debrief' : (ATTACKER_LABELS[phase] ?? 'Other');
+      timeline.push({ turn, label, snippet: toSnippet(message.content) });
+      return;
+    }
+    if (message.role !== 'user') return;
+
+    learnerTurns++;
+    const { actions, disclosed } = annotateLearnerReply(message.content, pendingRequest);
+    if (disclosed.length > 0) pendingRequest = null;
+    if (actions.length > 0) annotations.push({ turn, actions, disclosed });
+    for (const type of disclosed) disclosedInfo.push({ item: DISCLOSURE_LABELS[type], turn });
+    timeline.push({
+      turn,
+      label: learnerLabel(actions),
+      snippet: disclosed.length > 0 ? '[redacted]' : toSnippet(message.content),
+    });
+  });
+
+  const seen = new Set(annotations.flatMap(annotation => annotation.actions));
+  const outcome: SmishingOutcome =
+    learnerTurns === 0
+      ? 'no_response'
+      : (SMISHING_OUTCOMES_BY_SEVERITY.find(candidate => {
+          const action = OUTCOME_ACTIONS[candidate];
+          return action !== undefined && seen.has(action);
+        }) ?? 'other');
+
+  return {
+    annotations,
+    outcome: {
+      timeline,
+      disclosedInfo,
+      outcome,
+      score: SMISHING_OUTCOME_SCORES[outcome],
+      statusCard: STATUS_CARD_BY_OUTCOME[outcome],
+    },
+  };
+}
+
+// ─── D1 ───
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, smishing outcomes disabled');
+    return null;
+  }
+  return db;
+}
+
+function parseJson<T>(value: string | null | undefined, fallback: T): T {
+  try {
+    return value ? (JSON.parse(value) as T) : fallback;
+  } catch {
+    return fallback;
+  }
+}
+
+function toRecord(row: SmishingOutcomeRow): SmishingOutcomeRecord {
+  return {
+    sessionId: row.session_id,
+    microlearningId: row.microlearning_id,
+    userId: row.user_id,
+    channel: row.channel,
+    language: row.language,
+    status: row.status === 'finished' ? 'finished' : 'in_progress',
+    learnerTurns: Number(row.learner_turns),
+    annotations: parseJson<SmishingTurnAnnotation[]>(row.annotations, []),
+    outcome: parseJson<SmishingConversationOutcome | null>(row.outcome, null),
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+/**
+ * Re-score the session and upsert it. The outcome is written once the debrief is sent;
+ * a finished session stays finished. A session ID can only be updated by the company
+ * and microlearning that created it.
+ */
+export async function recordSmishingTurn(
+  env: Record<string, unknown> | undefined,
+  record: SmishingTurnRecord
+): Promise<boolean> {
+  const db = getDb(env);
+  if (!db) return false;
+
+  const { annotations, outcome } = scoreSmishingConversation(record.messages, record.isFinished);
+  const learnerTurns = record.messages.filter(message => message.role === 'user').length;
+  const table = SMISHING_OUTCOMES.TABLE;
+
+  try {
+    await db
+      .prepare(
+        `INSERT INTO ${table}
+           (session_id, company_id, microlearning_id, user_id, channel, language, status, learner_turns,
+            annotations, outcome, finished_at, updated_at)
+         VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, CASE WHEN ? = 1 THEN datetime('now') END, datetime('now'))
+         ON CONFLICT(session_id) DO UPDATE SET
+           user_id = COALESCE(excluded.user_id, ${table}.user_id),
+           language = excluded.language,
+           status = CASE WHEN ${table}.status = 'finished' THEN 'finished' ELSE excluded.status END,
+           learner_turns = excluded.learner_turns,
+           annotations = excluded.annotations,
+           outcome = COALESCE(excluded.outcome, ${table}.outcome),
+           finished_at = COALESCE(${table}.finished_at, excluded.finished_at),
+           updated_at = excluded.updated_at
+         WHERE ${table}.company_id IS excluded.company_id AND ${table}.microlearning_id = excluded.microlearning_id`
+      )
+      .bind(
+        record.sessionId,
+        record.companyId,
+        record.microlearningId,
+        record.userId,
+        record.channel,
+        record.language,
+        record.isFinished ? 'finished' : 'in_progress',
+        learnerTurns,
+        JSON.stringify(annotations),
+        record.isFinished ? JSON.stringify(outcome) : null,
+        record.isFinished ? 1 : 0
+      )
+      .run();
+
+    if (record.isFinished) {
+      logger.info('smishing_outcome_scored', {
+        sessionId: record.sessionId,
+        microlearningId: record.microlearningId,
+        channel: record.channel,
+        outcome: outcome.outcome,
+        score: outcome.score,
+      });
+    }
+    return true;
+  } catch (error) {
+    logger.warn('smishing_outcome_record_failed', {
+      sessionId: record.sessionId,
+      error: normalizeError(error).message,
+    });
+    return false;
+  }
+}
+
+/**
+ * Sessions for a microlearning within a company, optionally for one learner, newest first.
+ * Returns null if D1 is unavailable or the query failed.
+ */
+export async function listSmishingOutcomes(
+  env: Record<string, unknown> | undefined,
+  filter: { companyId: string; microlearningId: string; userId?: string }
+): Promise<SmishingOutcomeRecord[] | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  const userClause = filter.userId ? ' AND user_id = ?' : '';
+  const values = [filter.companyId, filter.microlearningId, ...(filter.userId ? [filter.userId] : [])];
+  try {
+    const result = await db
+      .prepare(
+        `SELECT session_id, microlearning_id, user_id, channel, language, status, learner_turns,
+                annotations, outcome, created_at, updated_at, finished_at
+         FROM ${SMISHING_OUTCOMES.TABLE}
+         WHERE company_id = ? AND microlearning_id = ?${userClause}
+         ORDER BY updated_at DESC LIMIT ${SMISHING_OUTCOMES.LIST_LIMIT}`
+      )
+      .bind(...values)
+      .all();
+    return ((result?.results as SmishingOutcomeRow[] | undefined) ?? []).map(toRecord);
+  } catch (error) {
+    logger.warn('smishing_outcome_list_failed', {
+      microlearningId: filter.microlearningId,
+      error: normalizeError(error).message,
+    });
+    return null;
+  }
+}
+
+/** Delete sessions last updated before `cutoffDay` (YYYY-MM-DD). Returns the row count, or null on failure. */
+export async function purgeSmishingOutcomesBefore(
+  env: Record<string, unknown> | undefined,
+  cutoffDay: string
+): Promise<number | null> {
+  const db = getDb(env);
+  if (!db) return null;
+
+  try {
+    const result = await db
+      .prepare(`DELETE FROM ${SMISHING_OUTCOMES.TABLE} WHERE updated_at < ?`)
+      .bind(cutoffDay)
+      .run();
+    return result?.meta?.changes ?? 0;
+  } catch (error) {
+    logger.warn('smishing_outcome_purge_failed', { cutoffDay, error: normalizeError(error).message });
+    return null;
+  }
+}
@@ -0,0 +1,55 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import {
+  isSmishingSessionTokenConfigured,
+  issueSmishingSessionToken,
+  verifySmishingSessionToken,
+} from './smishing-session-token';
+
+const NOW = Date.parse('2026-03-01T10:00:00.000Z');
+
+describe('smishing-session-token', () => {
+  beforeEach(() => {
+    process.env.SMISHING_SESSION_SECRET = 'session-secret-value';
+  });
+
+  afterEach(() => {
+    delete process.env.SMISHING_SESSION_SECRET;
+  });
+
+  it('round-trips the claims of an issued token', async () => {
+    const issued = await issueSmishingSessionToken(
+      { companyId: 'acme', microlearningId: 'ml-123', userId: 'Jörg' },
+      NOW
+    );
+
+    expect(issued?.claims).toMatchObject({
+      companyId: 'acme',
+      microlearningId: 'ml-123',
+      userId: 'Jörg',
+      expiresAt: NOW / 1000 + 24 * 60 * 60,
+    });
+    expect(await verifySmishingSessionToken(issued!.token, NOW)).toEqual(issued!.claims);
+  });
+
+  it('rejects tampered, foreign and expired tokens', async () => {
+    const issued = await issueSmishingSessionToken({ companyId: 'acme', microlearningId: 'ml-123' }, NOW);
+    const [, signature] = issued!.token.split('.');
+    const forgedPayload = btoa(JSON.stringify({ ...issued!.claims, companyId: 'other' }));
+
+    expect(await verifySmishingSessionToken(`${forgedPayload}.${signature}`, NOW)).toBeNull();
+    expect(await verifySmishingSessionToken('not-a-token', NOW)).toBeNull();
+    expect(await verifySmishingSessionToken(issued!.token, NOW + 25 * 60 * 60 * 1000)).toBeNull();
+
+    process.env.SMISHING_SESSION_SECRET = 'rotated-secret';
+    expect(await verifySmishingSessionToken(issued!.token, NOW)).toBeNull();
+  });
+
+  it('neither issues nor verifies tokens without a secret', async () => {
+    const issued = await issueSmishingSessionToken({ companyId: 'acme', microlearningId: 'ml-123' }, NOW);
+    delete process.env.SMISHING_SESSION_SECRET;
+
+    expect(isSmishingSessionTokenConfigured()).toBe(false);
+    expect(await issueSmishingSessionToken({ companyId: 'acme', microlearningId: 'ml-123' }, NOW)).toBeNull();
+    expect(await verifySmishingSessionToken(issued!.token, NOW)).toBeNull();
+  });
+});
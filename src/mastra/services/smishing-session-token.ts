@@ -0,0 +1,99 @@
+/**
+ * Smishing Session Tokens
+ *
+ * /smishing/chat is public, so the learner's browser cannot be trusted to say which
+ * company or learner a conversation belongs to. An authenticated caller (the training
+ * launcher) mints a session token for one microlearning + learner via
+ * POST /smishing/chat/sessions; /smishing/chat only records outcomes for turns that
+ * carry a valid token, and takes company, learner and sessionId from its claims.
+ *
+ * Format: `<base64url(JSON claims)>.<hex HMAC-SHA256(SMISHING_SESSION_SECRET, payload)>`.
+ * Unset secret = tokens can be neither issued nor verified (outcome tracking disabled).
+ */
+
+import { SMISHING_OUTCOMES } from '../constants';
+import { hmacSha256Hex, timingSafeEqual } from '../utils/core/hash-utils';
+
+export interface SmishingSessionClaims {
+  sessionId: string;
+  companyId: string;
+  microlearningId: string;
+  userId?: string;
+  /** Unix seconds */
+  expiresAt: number;
+}
+
+function getSecret(): string | undefined {
+  return process.env.SMISHING_SESSION_SECRET || undefined;
+}
+
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+function fromBase64Url(encoded: string): string {
+  const base64 = encoded.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64.padEnd(base64.length + ((4 - (base64.length % 4)) % 4), '='));
+  return new TextDecoder().decode(Uint8Array.from(binary, char => char.charCodeAt(0)));
+}
+
+export function isSmishingSessionTokenConfigured(): boolean {
+  return getSecret() !== undefined;
+}
+
+/** Returns null when SMISHING_SESSION_SECRET is not configured */
+export async function issueSmishingSessionToken(
+  input: Omit<SmishingSessionClaims, 'sessionId' | 'expiresAt'>,
+  nowMs: number = Date.now()
+): Promise<{ token: string; claims: SmishingSessionClaims } | null> {
+  const secret = getSecret();
+  if (!secret) return null;
+
+  const claims: SmishingSessionClaims = {
+    sessionId: crypto.randomUUID(),
+    companyId: input.companyId,
+    microlearningId: input.microlearningId,
+    ...(input.userId && { userId: input.userId }),
+    expiresAt: Math.floor(nowMs / 1000) + SMISHING_OUTCOMES.SESSION_TOKEN_TTL_SECS,
+  };
+  const payload = toBase64Url(JSON.stringify(claims));
+  return { token: `${payload}.${await hmacSha256Hex(secret, payload)}`, claims };
+}
+
+/** Claims of a correctly signed, unexpired token; null otherwise. Never throws. */
+export async function verifySmishingSessionToken(
+  token: string,
+  nowMs: number = Date.now()
+): Promise<SmishingSessionClaims | null> {
+  const secret = getSecret();
+  const [payload, signature, ...rest] = token.split('.');
+  if (!secret || !payload || !signature || rest.length > 0) return null;
+
+  try {
+    if (!timingSafeEqual(signature, await hmacSha256Hex(secret, payload))) return null;
+
+    const claims = JSON.parse(fromBase64Url(payload)) as Partial<SmishingSessionClaims>;
+    if (
+      typeof claims.sessionId !== 'string' ||
+      typeof claims.companyId !== 'string' ||
+      typeof claims.microlearningId !== 'string' ||
+      typeof claims.expiresAt !== 'number' ||
+      claims.expiresAt * 1000 <= nowMs
+    ) {
+      return null;
+    }
+    return {
+      sessionId: claims.sessionId,
+      companyId: claims.companyId,
+      microlearningId: claims.microlearningId,
+      ...(typeof claims.userId === 'string' && { userId: claims.userId }),
+      expiresAt: claims.expiresAt,
+    };
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,271 @@
+/**
+ * HeyGen Synthetic Video Provider
+ *
+ * HeyGen Create Video V2: one scene with an avatar character, text-to-speech voice
+ * and a solid background. Rendering is asynchronous — createVideo returns a
+ * video_id that is polled through getVideoStatus.
+ *
+ * API: https://api.heygen.com
+ * - GET  /v2/avatars
+ * - GET  /v2/voices
+ * - POST /v2/video/generate
+ * - GET  /v1/video_status.get?video_id=
+ */
+
+import { HEYGEN } from '../../constants';
+import { getLogger } from '../../utils/core/logger';
+import { withRetry } from '../../utils/core/resilience-utils';
+import {
+  SyntheticVideoProviderError,
+  type SyntheticVideoProvider,
+  type VideoAvatar,
+  type VideoJob,
+  type VideoJobRequest,
+  type VideoVoice,
+} from './types';
+
+const logger = getLogger('HeyGenVideoProvider');
+
+/** Disclosure overlay: bottom-centred white caption over the whole scene */
+const DISCLOSURE_OVERLAY = {
+  font_size: 28,
+  color: '#FFFFFF',
+  position: { x: 0.5, y: 0.94 },
+  text_align: 'center',
+} as const;
+
+/** Create Video V2 request body for a single avatar scene */
+export function buildHeyGenVideoRequestBody(request: VideoJobRequest): Record<string, unknown> {
+  const dimension = HEYGEN.DIMENSIONS[request.orientation];
+
+  const voice: Record<string, unknown> = {
+    type: 'text',
+    voice_id: request.voiceId,
+    input_text: request.inputText,
+  };
+  if (request.emotion) voice.emotion = request.emotion;
+  if (request.speed !== undefined) voice.speed = request.speed;
+  if (request.locale) voice.locale = request.locale;
+
+  const requestBody: Record<string, unknown> = {
+    video_inputs: [
+      {
+        character: {
+          type: 'avatar',
+          avatar_id: request.avatarId,
+          avatar_style: request.avatarStyle,
+        },
+        voice,
+        background: {
+          type: 'color',
+          value: request.backgroundColor,
+        },
+        ...(request.disclosureText && {
+          text: { type: 'text', text: request.disclosureText, ...DISCLOSURE_OVERLAY },
+        }),
+      },
+    ],
+    dimension: {
+      width: dimension.width,
+      height: dimension.height,
+    },
+    caption: request.caption,
+  };
+
+  if (request.title) {
+    requestBody.title = request.title;
+  }
+
+  return requestBody;
+}
+
+export class HeyGenVideoProvider implements SyntheticVideoProvider {
+  readonly name = 'heygen' as const;
+  readonly displayName = 'HeyGen';
+  readonly timeoutMs = HEYGEN.API_TIMEOUT_MS;
+  private readonly apiKey: string | undefined;
+
+  constructor(config: { apiKey?: string } = {}) {
+    this.apiKey = config.apiKey ?? process.env.HEYGEN_API_KEY;
+  }
+
+  getConfigurationError(): string | null {
+    return this.apiKey ? null : 'HeyGen API key is not configured. Please set HEYGEN_API_KEY environment variable.';
+  }
+
+  async listAvatars(): Promise<VideoAvatar[]> {
+    const apiKey = this.requireApiKey();
+    const response = await withRetry(
+      () => this.request(apiKey, HEYGEN.ENDPOINTS.LIST_AVATARS, { method: 'GET' }),
+      'list_heygen_avatars'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    // v2/avatars response: { data: { avatars: [...] } }
+    const data = await response.json();
+    const avatars: Record<string, unknown>[] = data?.data?.avatars ?? [];
+
+    return avatars
+      .map(av => {
+        const gender = av.gender ? String(av.gender) : undefined;
+        return {
+          avatar_id: String(av.avatar_id ?? ''),
+          avatar_name: String(av.avatar_name ?? 'Unnamed Avatar'),
+          gender: gender === 'unknown' ? undefined : gender,
+          preview_image_url: av.preview_image_url ? String(av.preview_image_url) : undefined,
+          preview_video_url: av.preview_video_url ? String(av.preview_video_url) : undefined,
+        };
+      })
+      .filter(avatar => avatar.avatar_id.length > 0);
+  }
+
+  async listVoices(): Promise<VideoVoice[]> {
+    const apiKey = this.requireApiKey();
+    const response = await withRetry(
+      () => this.request(apiKey, HEYGEN.ENDPOINTS.LIST_VOICES, { method: 'GET' }),
+      'list_heygen_voices'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    // v2/voices response: { data: { voices: [...] } }
+    const data = await response.json();
+    const voices: Record<string, unknown>[] = data?.data?.voices ?? [];
+
+    return voices
+      .map(vo => ({
+        voice_id: String(vo.voice_id ?? ''),
+        name: String(vo.name ?? vo.display_name ?? 'Unnamed Voice'),
+        language: vo.language ? String(vo.language) : undefined,
+        gender: vo.gender ? String(vo.gender) : undefined,
+        preview_audio: vo.preview_audio ? String(vo.preview_audio) : undefined,
+        support_pause: typeof vo.support_pause === 'boolean' ? vo.support_pause : undefined,
+        emotion_support: typeof vo.emotion_support === 'boolean' ? vo.emotion_support : undefined,
+      }))
+      .filter(voice => voice.voice_id.length > 0);
+  }
+
+  async createVideo(request: VideoJobRequest): Promise<{ videoId: string }> {
+    const apiKey = this.requireApiKey();
+    const body = JSON.stringify(buildHeyGenVideoRequestBody(request));
+
+    logger.info('heygen_generate_video_request', { fullRequestBody: body.substring(0, 1500) });
+
+    const response = await withRetry(
+      () => this.request(apiKey, HEYGEN.ENDPOINTS.GENERATE_VIDEO, { method: 'POST', body }),
+      'generate_deepfake_video'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = await response.json();
+    logger.info('heygen_generate_video_raw_response', { response: JSON.stringify(data).substring(0, 1000) });
+
+    // V2 response: { error: null, data: { video_id: "..." } } — errors can also arrive with 200
+    if (data?.error) {
+      const errorMsg =
+        typeof data.error === 'object' ? (data.error.message ?? JSON.stringify(data.error)) : String(data.error);
+      throw new SyntheticVideoProviderError(errorMsg.substring(0, 500), 'rejected');
+    }
+
+    const videoId: string = data?.data?.video_id ?? '';
+    if (!videoId) {
+      throw new SyntheticVideoProviderError(
+        'HeyGen returned a successful response but no video_id was found.',
+        'invalid_response',
+        undefined,
+        undefined,
+        JSON.stringify(data).substring(0, 500)
+      );
+    }
+    return { videoId };
+  }
+
+  /**
+   * Single attempt — callers poll, so a failed poll is simply retried on the next tick.
+   * Failed jobs: { data: { status: "failed", error: { code, message | detail } } }
+   */
+  async getVideoStatus(videoId: string): Promise<VideoJob> {
+    const apiKey = this.requireApiKey();
+    const response = await this.request(
+      apiKey,
+      `${HEYGEN.ENDPOINTS.VIDEO_STATUS}?video_id=${encodeURIComponent(videoId)}`,
+      { method: 'GET' }
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = await response.json();
+    logger.info('deepfake_status_raw', { videoId, rawData: JSON.stringify(data).substring(0, 500) });
+
+    const videoData = data?.data ?? {};
+    const status: string = videoData.status ?? 'processing';
+
+    let failureReason: string | null = null;
+    let failureCode: string | null = null;
+    if (status === 'failed') {
+      const heygenError = videoData.error ?? data?.error;
+      if (heygenError && typeof heygenError === 'object') {
+        const errObj = heygenError as Record<string, unknown>;
+        failureCode = errObj.code ? String(errObj.code) : null;
+        failureReason = errObj.detail
+          ? String(errObj.detail)
+          : errObj.message
+            ? String(errObj.message)
+            : JSON.stringify(heygenError);
+      } else if (typeof heygenError === 'string') {
+        failureReason = heygenError;
+      } else if (videoData.message) {
+        failureReason = String(videoData.message);
+      }
+    }
+
+    return {
+      videoId,
+      status,
+      videoUrl: videoData.video_url ?? null,
+      thumbnailUrl: videoData.thumbnail_url ?? null,
+      durationSec: videoData.duration ?? null,
+      videoUrlCaption: videoData.video_url_caption ?? null,
+      failureReason,
+      failureCode,
+    };
+  }
+
+  // ─── Helpers ───
+
+  /** Checked before retries so a missing key fails fast */
+  private requireApiKey(): string {
+    if (!this.apiKey) {
+      throw new SyntheticVideoProviderError(this.getConfigurationError() as string, 'not_configured');
+    }
+    return this.apiKey;
+  }
+
+  private async request(
+    apiKey: string,
+    path: string,
+    init: { method: 'GET' | 'POST'; body?: string }
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      return await fetch(`${HEYGEN.API_BASE_URL}${path}`, {
+        method: init.method,
+        headers: init.body ? { 'Content-Type': 'application/json', 'x-api-key': apiKey } : { 'x-api-key': apiKey },
+        ...(init.body && { body: init.body }),
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async toApiError(response: Response): Promise<SyntheticVideoProviderError> {
+    const body = await response.text().catch(() => '');
+    return new SyntheticVideoProviderError(
+      `HeyGen API returned ${response.status}: ${response.statusText}`,
+      'api_error',
+      response.status,
+      response.statusText,
+      body.substring(0, 500)
+    );
+  }
+}
@@ -0,0 +1,52 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  HeyGenVideoProvider,
+  MockSyntheticVideoProvider,
+  getSyntheticVideoProvider,
+  resetMockVideoProvider,
+} from './index';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('synthetic-video provider registry', () => {
+  afterEach(() => {
+    delete process.env.VIDEO_PROVIDER;
+    resetMockVideoProvider();
+  });
+
+  it('defaults to HeyGen', () => {
+    expect(getSyntheticVideoProvider()).toBeInstanceOf(HeyGenVideoProvider);
+  });
+
+  it('selects the provider from VIDEO_PROVIDER (case-insensitive)', () => {
+    process.env.VIDEO_PROVIDER = ' Mock ';
+    expect(getSyntheticVideoProvider()).toBeInstanceOf(MockSyntheticVideoProvider);
+  });
+
+  it('rejects unknown providers instead of falling back to real renders', () => {
+    expect(() => getSyntheticVideoProvider('synthesia')).toThrow(/Unknown VIDEO_PROVIDER "synthesia"/);
+  });
+
+  it('shares the mock instance so status lookups see earlier jobs', async () => {
+    const { videoId } = await getSyntheticVideoProvider('mock').createVideo({
+      inputText: 'Hello',
+      avatarId: 'mock-avatar-executive',
+      voiceId: 'mock-voice-en',
+      orientation: 'landscape',
+      backgroundColor: '#000000',
+      avatarStyle: 'normal',
+      caption: true,
+    });
+
+    expect((getSyntheticVideoProvider('mock') as MockSyntheticVideoProvider).jobs.map(job => job.videoId)).toEqual([
+      videoId,
+    ]);
+  });
+});
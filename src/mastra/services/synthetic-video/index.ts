@@ -0,0 +1,55 @@
+/**
+ * Synthetic Video Provider Registry
+ *
+ * Selects the video platform behind the deepfake tools and the status route from
+ * the VIDEO_PROVIDER env var (default: heygen). Adding a vendor = implement
+ * SyntheticVideoProvider and add a factory entry below.
+ */
+
+import { SYNTHETIC_VIDEO } from '../../constants';
+import { HeyGenVideoProvider } from './heygen-video-provider';
+import { MockSyntheticVideoProvider } from './mock-video-provider';
+import { SyntheticVideoProviderError, type SyntheticVideoProvider, type VideoProviderName } from './types';
+
+export * from './types';
+export { HeyGenVideoProvider, buildHeyGenVideoRequestBody } from './heygen-video-provider';
+export { MockSyntheticVideoProvider, buildPlaceholderMp4 } from './mock-video-provider';
+
+/** Shared so jobs recorded by the mock stay visible to later status lookups in the same isolate */
+let mockProvider: MockSyntheticVideoProvider | null = null;
+
+const PROVIDER_FACTORIES: Record<VideoProviderName, () => SyntheticVideoProvider> = {
+  // New instance per call: the API key is read from env at use time
+  heygen: () => new HeyGenVideoProvider(),
+  mock: () => {
+    if (!mockProvider) mockProvider = new MockSyntheticVideoProvider();
+    return mockProvider;
+  },
+};
+
+function isVideoProviderName(value: string): value is VideoProviderName {
+  return (SYNTHETIC_VIDEO.PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the configured video provider.
+ * Throws SyntheticVideoProviderError for an unknown VIDEO_PROVIDER rather than
+ * silently falling back to a provider that renders real videos.
+ */
+export function getSyntheticVideoProvider(
+  name: string | undefined = process.env.VIDEO_PROVIDER
+): SyntheticVideoProvider {
+  const providerName = name?.trim().toLowerCase() || SYNTHETIC_VIDEO.DEFAULT_PROVIDER;
+  if (!isVideoProviderName(providerName)) {
+    throw new SyntheticVideoProviderError(
+      `Unknown VIDEO_PROVIDER "${name}". Supported: ${SYNTHETIC_VIDEO.PROVIDERS.join(', ')}`,
+      'not_configured'
+    );
+  }
+  return PROVIDER_FACTORIES[providerName]();
+}
+
+/** Clears the shared mock provider (tests) */
+export function resetMockVideoProvider(): void {
+  mockProvider = null;
+}
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi } from 'vitest';
+import { MockSyntheticVideoProvider, buildPlaceholderMp4 } from './mock-video-provider';
+import type { VideoJobRequest } from './types';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const REQUEST: VideoJobRequest = {
+  inputText: 'This is your CEO. I need you to process an urgent wire transfer before the end of the day.',
+  avatarId: 'mock-avatar-executive',
+  voiceId: 'mock-voice-en',
+  orientation: 'landscape',
+  backgroundColor: '#1a1a2e',
+  avatarStyle: 'normal',
+  caption: true,
+};
+
+function createProvider(start = 1_700_000_000_000) {
+  const clock = { now: start };
+  const provider = new MockSyntheticVideoProvider({ pendingMs: 1000, renderMs: 5000, now: () => clock.now });
+  return { provider, clock };
+}
+
+describe('MockSyntheticVideoProvider', () => {
+  it('needs no configuration and lists fixed avatars and voices', async () => {
+    const { provider } = createProvider();
+
+    expect(provider.getConfigurationError()).toBeNull();
+    expect((await provider.listAvatars()).map(a => a.avatar_id)).toContain('mock-avatar-executive');
+    expect((await provider.listVoices()).map(v => v.language)).toEqual(['English', 'Multilingual', 'Turkish']);
+  });
+
+  it('progresses pending → processing → completed from the time encoded in the video ID', async () => {
+    const { provider, clock } = createProvider();
+    const { videoId } = await provider.createVideo(REQUEST);
+
+    expect((await provider.getVideoStatus(videoId)).status).toBe('pending');
+    clock.now += 2000;
+    expect((await provider.getVideoStatus(videoId)).status).toBe('processing');
+    clock.now += 4000;
+
+    const job = await provider.getVideoStatus(videoId);
+    expect(job).toMatchObject({ videoId, status: 'completed', durationSec: 8, failureReason: null });
+    expect(job.videoUrl).toMatch(/^data:video\/mp4;base64,/);
+    expect(job.videoUrlCaption).toBe(job.videoUrl);
+    expect(job.thumbnailUrl).toMatch(/^data:image\/svg\+xml,/);
+  });
+
+  it('resolves IDs issued by another instance (Workers isolates share no state)', async () => {
+    const { provider, clock } = createProvider();
+    const { videoId } = await provider.createVideo(REQUEST);
+    clock.now += 10_000;
+
+    const other = new MockSyntheticVideoProvider({ now: () => clock.now });
+    expect((await other.getVideoStatus(videoId)).status).toBe('completed');
+  });
+
+  it('fails renders for the failing avatar', async () => {
+    const { provider, clock } = createProvider();
+    const { videoId } = await provider.createVideo({ ...REQUEST, avatarId: 'mock-avatar-failing' });
+    clock.now += 10_000;
+
+    expect(await provider.getVideoStatus(videoId)).toMatchObject({
+      status: 'failed',
+      videoUrl: null,
+      failureCode: 'MOCK_RENDER_FAILED',
+    });
+  });
+
+  it('rejects video IDs it did not issue', async () => {
+    const { provider } = createProvider();
+
+    await expect(provider.getVideoStatus('heygen-real-id')).rejects.toMatchObject({ code: 'api_error', status: 404 });
+  });
+
+  it('builds an MP4 container whose movie header carries the duration', () => {
+    const bytes = buildPlaceholderMp4(12);
+    const view = new DataView(bytes.buffer);
+    const ascii = (offset: number) => String.fromCharCode(...bytes.slice(offset, offset + 4));
+
+    expect(ascii(4)).toBe('ftyp');
+    expect(ascii(28)).toBe('moov');
+    expect(ascii(36)).toBe('mvhd');
+    // mvhd payload starts at 40: version/flags, creation, modification, timescale, duration
+    expect(view.getUint32(52)).toBe(1000);
+    expect(view.getUint32(56)).toBe(12000);
+    expect(view.getUint32(24)).toBe(bytes.length - 24);
+  });
+});
@@ -0,0 +1,204 @@
+/**
+ * Mock Synthetic Video Provider
+ *
+ * Local renderer for tests and staging (VIDEO_PROVIDER=mock). Nothing is sent to a
+ * vendor: createVideo returns a video ID that encodes its creation time, and
+ * getVideoStatus derives the job state from it — pending → processing → completed
+ * — so polling /deepfake/status/:videoId works across Workers isolates. Completed
+ * jobs resolve to a placeholder MP4 (empty movie of the script's estimated length)
+ * and an SVG thumbnail showing the disclosure text, both as data: URIs.
+ *
+ * Avatars whose ID contains "failing" end in status "failed", for exercising the
+ * UI's failure state.
+ */
+
+import { SYNTHETIC_VIDEO } from '../../constants';
+import { getLogger } from '../../utils/core/logger';
+import {
+  SyntheticVideoProviderError,
+  type SyntheticVideoProvider,
+  type VideoAvatar,
+  type VideoJob,
+  type VideoJobRequest,
+  type VideoVoice,
+} from './types';
+
+const logger = getLogger('MockVideoProvider');
+
+const MOCK_VIDEO_PREFIX = 'mock-video-';
+/** mock-video-[failed-]<createdAt base36>-<durationSec>-<sequence> */
+const MOCK_VIDEO_ID_PATTERN = /^mock-video-(failed-)?([0-9a-z]+)-(\d+)-(\d+)$/;
+/** Average speaking rate used to estimate the clip length */
+const WORDS_PER_SECOND = 2.5;
+const MIN_DURATION_SEC = 3;
+
+const DEFAULT_AVATARS: VideoAvatar[] = [
+  { avatar_id: 'mock-avatar-executive', avatar_name: 'Mock Executive', gender: 'female' },
+  { avatar_id: 'mock-avatar-it-support', avatar_name: 'Mock IT Support', gender: 'male' },
+  { avatar_id: 'mock-avatar-failing', avatar_name: 'Mock Render Failure' },
+];
+
+const DEFAULT_VOICES: VideoVoice[] = [
+  { voice_id: 'mock-voice-en', name: 'Mock English', language: 'English', gender: 'female', emotion_support: false },
+  {
+    voice_id: 'mock-voice-multi',
+    name: 'Mock Multilingual',
+    language: 'Multilingual',
+    gender: 'male',
+    emotion_support: true,
+  },
+  { voice_id: 'mock-voice-tr', name: 'Mock Turkish', language: 'Turkish', gender: 'female', emotion_support: false },
+];
+
+function mp4Box(type: string, ...payloads: Uint8Array[]): Uint8Array {
+  const size = 8 + payloads.reduce((sum, payload) => sum + payload.length, 0);
+  const box = new Uint8Array(size);
+  const view = new DataView(box.buffer);
+  view.setUint32(0, size);
+  for (let i = 0; i < 4; i++) box[4 + i] = type.charCodeAt(i);
+  let offset = 8;
+  for (const payload of payloads) {
+    box.set(payload, offset);
+    offset += payload.length;
+  }
+  return box;
+}
+
+/** ftyp + moov/mvhd only: a valid MP4 container with the given duration and no tracks */
+export function buildPlaceholderMp4(durationSec: number): Uint8Array {
+  const ftyp = new Uint8Array(16);
+  const ascii = new TextEncoder();
+  ftyp.set(ascii.encode('isom'), 0); // major brand
+  new DataView(ftyp.buffer).setUint32(4, 0x200); // minor version
+  ftyp.set(ascii.encode('isommp41'), 8); // compatible brands
+
+  const timescale = 1000;
+  const mvhd = new Uint8Array(100);
+  const view = new DataView(mvhd.buffer);
+  view.setUint32(12, timescale);
+  view.setUint32(16, Math.round(durationSec * timescale));
+  view.setUint32(20, 0x00010000); // rate 1.0
+  view.setUint16(24, 0x0100); // volume 1.0
+  // Identity matrix
+  view.setUint32(36, 0x00010000);
+  view.setUint32(52, 0x00010000);
+  view.setUint32(68, 0x40000000);
+  view.setUint32(96, 1); // next track ID
+
+  return new Uint8Array([...mp4Box('ftyp', ftyp), ...mp4Box('moov', mp4Box('mvhd', mvhd))]);
+}
+
+function toDataUri(mimeType: string, bytes: Uint8Array): string {
+  return `data:${mimeType};base64,${btoa(String.fromCharCode(...bytes))}`;
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/[<>&"']/g, char => `&#${char.charCodeAt(0)};`);
+}
+
+function thumbnailDataUri(videoId: string, disclosureText: string | undefined): string {
+  const svg =
+    '<svg xmlns="http://www.w3.org/2000/svg" width="320" height="180">' +
+    '<rect width="100%" height="100%" fill="#1a1a2e"/>' +
+    `<text x="50%" y="50%" fill="#ffffff" font-family="sans-serif" font-size="14" text-anchor="middle">Mock video ${escapeXml(videoId)}</text>` +
+    (disclosureText
+      ? `<text x="50%" y="94%" fill="#ffffff" font-family="sans-serif" font-size="10" text-anchor="middle">${escapeXml(disclosureText)}</text>`
+      : '') +
+    '</svg>';
+  return `data:image/svg+xml,${encodeURIComponent(svg)}`;
+}
+
+export class MockSyntheticVideoProvider implements SyntheticVideoProvider {
+  readonly name = 'mock' as const;
+  readonly displayName = 'Mock video provider';
+  readonly timeoutMs = 0;
+
+  /** Jobs created through this instance, in order */
+  readonly jobs: (VideoJobRequest & { videoId: string })[] = [];
+  private readonly avatars: VideoAvatar[];
+  private readonly voices: VideoVoice[];
+  private readonly pendingMs: number;
+  private readonly renderMs: number;
+  private readonly now: () => number;
+
+  constructor(
+    options: {
+      avatars?: VideoAvatar[];
+      voices?: VideoVoice[];
+      pendingMs?: number;
+      renderMs?: number;
+      now?: () => number;
+    } = {}
+  ) {
+    this.avatars = options.avatars ?? DEFAULT_AVATARS;
+    this.voices = options.voices ?? DEFAULT_VOICES;
+    this.pendingMs = options.pendingMs ?? SYNTHETIC_VIDEO.MOCK_PENDING_MS;
+    this.renderMs = options.renderMs ?? SYNTHETIC_VIDEO.MOCK_RENDER_MS;
+    this.now = options.now ?? Date.now;
+  }
+
+  getConfigurationError(): string | null {
+    return null;
+  }
+
+  async listAvatars(): Promise<VideoAvatar[]> {
+    return [...this.avatars];
+  }
+
+  async listVoices(): Promise<VideoVoice[]> {
+    return [...this.voices];
+  }
+
+  async createVideo(request: VideoJobRequest): Promise<{ videoId: string }> {
+    const wordCount = request.inputText.split(/\s+/).filter(Boolean).length;
+    const durationSec = Math.max(MIN_DURATION_SEC, Math.ceil(wordCount / WORDS_PER_SECOND));
+    const failed = request.avatarId.includes('failing') ? 'failed-' : '';
+    const videoId = `${MOCK_VIDEO_PREFIX}${failed}${this.now().toString(36)}-${durationSec}-${this.jobs.length + 1}`;
+    this.jobs.push({ ...request, videoId });
+
+    logger.info('mock_video_job_created', { videoId, avatarId: request.avatarId, durationSec });
+    return { videoId };
+  }
+
+  async getVideoStatus(videoId: string): Promise<VideoJob> {
+    const match = MOCK_VIDEO_ID_PATTERN.exec(videoId);
+    if (!match) {
+      throw new SyntheticVideoProviderError(`Video ${videoId} not found`, 'api_error', 404, 'Not Found');
+    }
+    const [, failed, createdAt, duration] = match;
+    const elapsedMs = this.now() - parseInt(createdAt, 36);
+    const job: VideoJob = {
+      videoId,
+      status: 'completed',
+      videoUrl: null,
+      thumbnailUrl: null,
+      durationSec: null,
+      videoUrlCaption: null,
+      failureReason: null,
+      failureCode: null,
+    };
+
+    if (elapsedMs < this.pendingMs) return { ...job, status: 'pending' };
+    if (elapsedMs < this.renderMs) return { ...job, status: 'processing' };
+    if (failed) {
+      return {
+        ...job,
+        status: 'failed',
+        failureReason: 'Mock render failure requested by the selected avatar',
+        failureCode: 'MOCK_RENDER_FAILED',
+      };
+    }
+
+    const durationSec = Number(duration);
+    const videoUrl = toDataUri('video/mp4', buildPlaceholderMp4(durationSec));
+    const request = this.jobs.find(j => j.videoId === videoId);
+    return {
+      ...job,
+      videoUrl,
+      thumbnailUrl: thumbnailDataUri(videoId, request?.disclosureText),
+      durationSec,
+      // Placeholder has no burned-in captions; same file either way
+      videoUrlCaption: request?.caption === false ? null : videoUrl,
+    };
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Synthetic Video Provider Types
+ *
+ * Contract between the deepfake tools/routes and the platform that renders
+ * avatar videos. Implementations: HeyGen (production) and a local mock renderer
+ * for tests/staging. A new vendor only needs to implement SyntheticVideoProvider
+ * and be registered in ./index.ts.
+ *
+ * Avatar and voice shapes keep HeyGen's snake_case field names: they are passed
+ * through unchanged to the avatar_selection / voice_selection UI signals.
+ */
+
+import { SYNTHETIC_VIDEO } from '../../constants';
+
+export type VideoProviderName = (typeof SYNTHETIC_VIDEO.PROVIDERS)[number];
+
+export interface VideoAvatar {
+  avatar_id: string;
+  avatar_name: string;
+  gender?: string;
+  preview_image_url?: string;
+  preview_video_url?: string;
+}
+
+export interface VideoVoice {
+  voice_id: string;
+  name: string;
+  /** e.g. English, Turkish, Multilingual (undefined when the vendor does not report it) */
+  language?: string;
+  gender?: string;
+  preview_audio?: string;
+  support_pause?: boolean;
+  emotion_support?: boolean;
+}
+
+export type VideoOrientation = 'portrait' | 'landscape';
+export type VideoAvatarStyle = 'normal' | 'closeUp' | 'circle';
+
+export interface VideoJobRequest {
+  /** Spoken script */
+  inputText: string;
+  avatarId: string;
+  voiceId: string;
+  title?: string;
+  orientation: VideoOrientation;
+  /** Hex background color */
+  backgroundColor: string;
+  emotion?: string;
+  speed?: number;
+  avatarStyle: VideoAvatarStyle;
+  locale?: string;
+  caption: boolean;
+  /** AI-generated disclosure burned into the video as a text overlay (EU AI Act Art. 50) */
+  disclosureText?: string;
+}
+
+/** Terminal: completed | failed. In progress: pending | waiting | processing */
+export type VideoJobStatus = string;
+
+export interface VideoJob {
+  videoId: string;
+  status: VideoJobStatus;
+  videoUrl: string | null;
+  thumbnailUrl: string | null;
+  durationSec: number | null;
+  /** MP4 with burned-in captions (when the job was created with caption: true) */
+  videoUrlCaption: string | null;
+  failureReason: string | null;
+  failureCode: string | null;
+}
+
+export interface SyntheticVideoProvider {
+  readonly name: VideoProviderName;
+  /** Human-readable vendor name used in error messages */
+  readonly displayName: string;
+  /** Per-request timeout; requests reject with AbortError when exceeded */
+  readonly timeoutMs: number;
+
+  /** Returns a user-facing message when credentials are missing, otherwise null */
+  getConfigurationError(): string | null;
+
+  listAvatars(): Promise<VideoAvatar[]>;
+  listVoices(): Promise<VideoVoice[]>;
+  /** Starts an asynchronous render; poll getVideoStatus with the returned videoId */
+  createVideo(request: VideoJobRequest): Promise<{ videoId: string }>;
+  getVideoStatus(videoId: string): Promise<VideoJob>;
+}
+
+/**
+ * Raised by providers for missing configuration, non-2xx API responses (api_error),
+ * jobs the vendor refused in a 2xx body (rejected) and unusable 2xx bodies
+ * (invalid_response). Network failures and timeouts propagate as-is (Error / AbortError).
+ */
+export class SyntheticVideoProviderError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'not_configured' | 'api_error' | 'rejected' | 'invalid_response',
+    readonly status?: number,
+    readonly statusText?: string,
+    readonly body?: string
+  ) {
+    super(message);
+    this.name = 'SyntheticVideoProviderError';
+  }
+}
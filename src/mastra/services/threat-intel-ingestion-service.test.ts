@@ -0,0 +1,308 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach } from 'vitest';
+import { createServer, get, type Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import {
+  groupItemsByIntelKey,
+  loadThreatIntelFeeds,
+  parseJsonFeed,
+  parseRssFeed,
+  parseSummaryOutput,
+  parseTaxiiEnvelope,
+  runThreatIntelIngestion,
+  type ThreatIntelFeed,
+} from './threat-intel-ingestion-service';
+import { resetThreatIntelCache, type ThreatIntelRecord } from './threat-intelligence-service';
+import type { KVService } from './kv-service';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const RSS = `<?xml version="1.0"?>
+<rss version="2.0"><channel><title>Advisories</title>
+  <item>
+    <title>QR code phishing targets payroll portals</title>
+    <description><![CDATA[<p>Attackers embed <b>QR codes</b> in PDF payslips &amp; redirect to fake SSO.</p>]]></description>
+    <link>https://intel.example/qr</link>
+    <pubDate>Tue, 14 Jan 2025 10:00:00 GMT</pubDate>
+  </item>
+  <item>
+    <title>Quishing wave abuses parking meters</title>
+    <description>Stickers with malicious QR code links.</description>
+  </item>
+  <item><title>Quarterly product update</title><description>Because we shipped features.</description></item>
+</channel></rss>`;
+
+const ATOM = `<feed xmlns="http://www.w3.org/2005/Atom">
+  <entry><title>Smishing: fake parcel fees</title><summary>SMS phishing with toll payment lures</summary>
+    <link href="https://intel.example/smish"/><updated>2025-01-10T00:00:00Z</updated></entry>
+</feed>`;
+
+const JSON_FEED = {
+  version: 'https://jsonfeed.org/version/1.1',
+  items: [
+    { title: 'SMS phishing impersonates banks', content_text: 'Smishing texts ask for OTP codes.' },
+    { title: 'Unrelated', content_text: 'Nothing to see' },
+  ],
+};
+
+const TAXII = {
+  more: false,
+  objects: [
+    { type: 'attack-pattern', name: 'Ransomware via RMM tools', description: 'Abuse of remote management agents.' },
+    {
+      type: 'report',
+      name: 'Ransomware affiliates target backups',
+      external_references: [{ source_name: 'x', url: 'https://intel.example/r' }],
+    },
+    { type: 'indicator', name: 'ignored', pattern: "[url:value = 'x']" },
+  ],
+};
+
+let server: Server;
+let baseUrl: string;
+const realHttpFetch = async (url: string | URL | Request, init?: RequestInit): Promise<Response> =>
+  new Promise((resolve, reject) => {
+    const request = get(String(url), { headers: init?.headers as Record<string, string> }, res => {
+      const chunks: Buffer[] = [];
+      res.on('data', chunk => chunks.push(chunk));
+      res.on('end', () =>
+        resolve(new Response(Buffer.concat(chunks), { status: res.statusCode, headers: res.headers as HeadersInit }))
+      );
+    });
+    request.on('error', reject);
+  });
+
+const feedsFor = (base: string): ThreatIntelFeed[] => [
+  { id: 'rss', type: 'rss', url: `${base}/rss.xml` },
+  { id: 'atom', type: 'rss', url: `${base}/atom.xml` },
+  { id: 'json', type: 'json', url: `${base}/feed.json` },
+  { id: 'taxii', type: 'taxii', url: `${base}/taxii/objects/`, intelKey: 'ransomware' },
+];
+
+function createMemoryKV(initial: Record<string, unknown> = {}) {
+  const store = new Map<string, unknown>(Object.entries(initial));
+  const puts: Array<{ key: string; ttlSeconds?: number }> = [];
+  const kv = {
+    get: vi.fn(async (key: string) => store.get(key) ?? null),
+    put: vi.fn(async (key: string, value: unknown, options?: { ttlSeconds?: number }) => {
+      store.set(key, value);
+      puts.push({ key, ttlSeconds: options?.ttlSeconds });
+      return true;
+    }),
+  };
+  return { kv: kv as unknown as KVService, store, puts };
+}
+
+const summarize = vi.fn(async (intelKey: string, items: Array<{ title: string }>) => ({
+  currentTechniques: items.map(item => `${intelKey}: ${item.title}`),
+  realisticScenarios: [`Employee receives a ${intelKey} lure`],
+}));
+
+describe('threat-intel-ingestion-service', () => {
+  beforeAll(async () => {
+    server = createServer((req, res) => {
+      const routes: Record<string, [string, string]> = {
+        '/rss.xml': ['application/rss+xml', RSS],
+        '/atom.xml': ['application/atom+xml', ATOM],
+        '/feed.json': ['application/feed+json', JSON.stringify(JSON_FEED)],
+        '/taxii/objects/': ['application/taxii+json;version=2.1', JSON.stringify(TAXII)],
+      };
+      const route = routes[req.url ?? ''];
+      if (!route) {
+        res.writeHead(404).end('not found');
+        return;
+      }
+      res.writeHead(200, { 'Content-Type': route[0] }).end(route[1]);
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    resetThreatIntelCache();
+    vi.mocked(global.fetch).mockImplementation(realHttpFetch);
+  });
+
+  describe('loadThreatIntelFeeds', () => {
+    it('parses valid feeds and drops invalid entries', () => {
+      const feeds = loadThreatIntelFeeds(
+        JSON.stringify([
+          { id: 'a', type: 'rss', url: 'https://a.example/rss' },
+          { id: 'b', type: 'ftp', url: 'x' },
+        ])
+      );
+      expect(feeds.map(feed => feed.id)).toEqual(['a']);
+    });
+
+    it('returns no feeds for missing or malformed config', () => {
+      expect(loadThreatIntelFeeds(undefined)).toEqual([]);
+      expect(loadThreatIntelFeeds('{not json')).toEqual([]);
+      expect(loadThreatIntelFeeds('{"id":"a"}')).toEqual([]);
+    });
+  });
+
+  describe('parsers', () => {
+    it('parses RSS items with CDATA, markup and entities', () => {
+      const [first] = parseRssFeed(RSS, 'rss');
+      expect(first).toEqual({
+        feedId: 'rss',
+        title: 'QR code phishing targets payroll portals',
+        summary: 'Attackers embed QR codes in PDF payslips & redirect to fake SSO.',
+        link: 'https://intel.example/qr',
+        published: 'Tue, 14 Jan 2025 10:00:00 GMT',
+      });
+    });
+
+    it('parses Atom entries with href links', () => {
+      expect(parseRssFeed(ATOM, 'atom')[0]).toMatchObject({
+        title: 'Smishing: fake parcel fees',
+        link: 'https://intel.example/smish',
+        published: '2025-01-10T00:00:00Z',
+      });
+    });
+
+    it('parses JSON Feed items and TAXII envelopes', () => {
+      expect(parseJsonFeed(JSON_FEED, 'json').map(item => item.title)).toEqual([
+        'SMS phishing impersonates banks',
+        'Unrelated',
+      ]);
+      expect(parseTaxiiEnvelope(TAXII, 'taxii')).toEqual([
+        expect.objectContaining({ title: 'attack-pattern: Ransomware via RMM tools' }),
+        expect.objectContaining({
+          title: 'report: Ransomware affiliates target backups',
+          link: 'https://intel.example/r',
+        }),
+      ]);
+    });
+  });
+
+  describe('groupItemsByIntelKey', () => {
+    it('classifies by whole-word keywords and honours fixed feed keys', () => {
+      const items = [
+        ...parseRssFeed(RSS, 'rss'),
+        ...parseTaxiiEnvelope(TAXII, 'taxii'),
+        { feedId: 'x', title: 'Because of the weather', summary: '' },
+      ];
+      const groups = groupItemsByIntelKey(items, [
+        { id: 'taxii', type: 'taxii', url: 'https://t', intelKey: 'ransomware' },
+      ]);
+      expect(Array.from(groups.keys())).toEqual(['quishing', 'ransomware']);
+      expect(groups.get('quishing')).toHaveLength(2);
+    });
+  });
+
+  describe('parseSummaryOutput', () => {
+    it('accepts fenced JSON and rejects unusable output', () => {
+      const text = '```json\n{"currentTechniques":["Quishing — QR codes in PDFs"],"realisticScenarios":[]}\n```';
+      expect(parseSummaryOutput(text)).toEqual({
+        currentTechniques: ['Quishing — QR codes in PDFs'],
+        realisticScenarios: [],
+      });
+      expect(parseSummaryOutput('{"currentTechniques":[]}')).toBeNull();
+      expect(parseSummaryOutput('not json')).toBeNull();
+    });
+  });
+
+  describe('runThreatIntelIngestion', () => {
+    it('pulls feeds from a local server, summarizes per key and writes versioned KV records', async () => {
+      const { kv, store } = createMemoryKV();
+
+      const result = await runThreatIntelIngestion({
+        feeds: feedsFor(baseUrl),
+        kvService: kv,
+        summarize,
+        now: new Date('2025-02-01T00:00:00Z'),
+      });
+
+      expect(result.feeds).toEqual([
+        { id: 'rss', items: 3 },
+        { id: 'atom', items: 1 },
+        { id: 'json', items: 2 },
+        { id: 'taxii', items: 2 },
+      ]);
+      expect(result.updated).toEqual([
+        { intelKey: 'quishing', version: 1, itemCount: 2 },
+        { intelKey: 'smishing', version: 1, itemCount: 2 },
+        { intelKey: 'ransomware', version: 1, itemCount: 2 },
+      ]);
+
+      const record = store.get('threat-intel:smishing') as ThreatIntelRecord;
+      expect(record).toMatchObject({
+        intelKey: 'smishing',
+        version: 1,
+        updatedAt: '2025-02-01T00:00:00.000Z',
+        sources: ['atom', 'json'],
+      });
+      expect(record.entry.currentTechniques).toContain('smishing: Smishing: fake parcel fees');
+    });
+
+    it('bumps the version and keeps the previous one as history', async () => {
+      const previous: ThreatIntelRecord = {
+        intelKey: 'ransomware',
+        version: 4,
+        updatedAt: '2025-01-01T00:00:00.000Z',
+        sources: ['taxii'],
+        itemCount: 2,
+        entry: { currentTechniques: ['old'], realisticScenarios: [] },
+      };
+      const { kv, store, puts } = createMemoryKV({ 'threat-intel:ransomware': previous });
+
+      const result = await runThreatIntelIngestion({
+        feeds: feedsFor(baseUrl).filter(feed => feed.id === 'taxii'),
+        kvService: kv,
+        summarize,
+      });
+
+      expect(result.updated).toEqual([{ intelKey: 'ransomware', version: 5, itemCount: 2 }]);
+      expect(store.get('threat-intel:ransomware:v4')).toEqual(previous);
+      expect(puts[0]).toEqual({ key: 'threat-intel:ransomware:v4', ttlSeconds: 90 * 24 * 60 * 60 });
+    });
+
+    it('reports failing feeds and unusable summaries without aborting', async () => {
+      const { kv } = createMemoryKV();
+      const failingSummary = vi.fn(async () => null);
+
+      const result = await runThreatIntelIngestion({
+        feeds: [
+          { id: 'missing', type: 'rss', url: `${baseUrl}/missing.xml` },
+          { id: 'taxii', type: 'taxii', url: `${baseUrl}/taxii/objects/`, intelKey: 'ransomware' },
+        ],
+        kvService: kv,
+        summarize: failingSummary,
+      });
+
+      expect(result.feeds[0]).toEqual({ id: 'missing', items: 0, error: 'Feed missing responded with status 404' });
+      expect(result.updated).toEqual([]);
+      expect(result.skipped).toEqual([{ intelKey: 'ransomware', reason: 'summary unusable' }]);
+      expect(kv.put).not.toHaveBeenCalled();
+    });
+
+    it('skips keys with too few items', async () => {
+      const { kv } = createMemoryKV();
+      const result = await runThreatIntelIngestion({
+        feeds: [{ id: 'atom', type: 'rss', url: `${baseUrl}/atom.xml` }],
+        kvService: kv,
+        summarize,
+      });
+      expect(result.skipped).toEqual([{ intelKey: 'smishing', reason: 'only 1 item(s)' }]);
+      expect(summarize).not.toHaveBeenCalled();
+    });
+
+    it('does nothing when no feeds are configured', async () => {
+      const { kv } = createMemoryKV();
+      const result = await runThreatIntelIngestion({ feeds: [], kvService: kv, summarize });
+      expect(result.feeds).toEqual([]);
+      expect(kv.get).not.toHaveBeenCalled();
+    });
+  });
+});
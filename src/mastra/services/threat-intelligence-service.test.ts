@@ -0,0 +1,114 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  cacheThreatIntelRecord,
+  classifyIntelText,
+  getThreatContext,
+  getThreatContextSync,
+  isThreatIntelRecordFresh,
+  refreshThreatIntelCache,
+  resetThreatIntelCache,
+  resolveIntelKey,
+  type ThreatIntelRecord,
+} from './threat-intelligence-service';
+
+const { mockGet, mockList } = vi.hoisted(() => ({
+  mockGet: vi.fn(),
+  mockList: vi.fn(),
+}));
+
+vi.mock('./kv-service', () => ({
+  KVService: class {
+    get = mockGet;
+    list = mockList;
+  },
+}));
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const LIVE_TECHNIQUE = 'Live technique — pulled from a feed this week';
+
+const record = (overrides: Partial<ThreatIntelRecord> = {}): ThreatIntelRecord => ({
+  intelKey: 'phishing',
+  version: 3,
+  updatedAt: new Date().toISOString(),
+  sources: ['cisa'],
+  itemCount: 4,
+  entry: { currentTechniques: [LIVE_TECHNIQUE], realisticScenarios: [] },
+  ...overrides,
+});
+
+describe('threat-intelligence-service', () => {
+  beforeEach(() => {
+    resetThreatIntelCache();
+    mockGet.mockResolvedValue(null);
+    mockList.mockResolvedValue([]);
+  });
+
+  describe('key resolution', () => {
+    it('resolves topics by substring and free text by whole words', () => {
+      expect(resolveIntelKey('QR Code Awareness')).toBe('quishing');
+      expect(classifyIntelText('Smishing campaign abuses toll payments')).toBe('smishing');
+      expect(classifyIntelText('Because the weather changed')).toBeUndefined();
+    });
+  });
+
+  describe('isThreatIntelRecordFresh', () => {
+    it('rejects records older than the max age or with invalid timestamps', () => {
+      const now = Date.parse('2025-03-01T00:00:00Z');
+      expect(isThreatIntelRecordFresh(record({ updatedAt: '2025-02-20T00:00:00Z' }), now)).toBe(true);
+      expect(isThreatIntelRecordFresh(record({ updatedAt: '2024-12-01T00:00:00Z' }), now)).toBe(false);
+      expect(isThreatIntelRecordFresh(record({ updatedAt: 'yesterday' }), now)).toBe(false);
+    });
+  });
+
+  describe('getThreatContext', () => {
+    it('prefers a fresh KV entry', async () => {
+      mockGet.mockResolvedValue(record());
+
+      const context = await getThreatContext('Phishing Awareness');
+
+      expect(mockGet).toHaveBeenCalledWith('threat-intel:phishing');
+      expect(context).toContain(LIVE_TECHNIQUE);
+    });
+
+    it('falls back to static data when the KV entry is stale or missing', async () => {
+      mockGet.mockResolvedValue(record({ updatedAt: '2020-01-01T00:00:00Z' }));
+      const stale = await getThreatContext('Phishing Awareness');
+      expect(stale).toContain('THREAT CONTEXT (Phishing Awareness)');
+      expect(stale).not.toContain(LIVE_TECHNIQUE);
+
+      mockGet.mockResolvedValue(null);
+      expect(await getThreatContext('Phishing Awareness')).toContain('TECHNIQUES:');
+    });
+  });
+
+  describe('getThreatContextSync', () => {
+    it('uses records cached by ingestion', () => {
+      cacheThreatIntelRecord(record({ intelKey: 'ransomware' }));
+      expect(getThreatContextSync('Ransomware')).toContain(LIVE_TECHNIQUE);
+    });
+
+    it('loads current records (not history versions) on cache refresh', async () => {
+      mockList.mockResolvedValue(['threat-intel:smishing', 'threat-intel:smishing:v2']);
+      mockGet.mockResolvedValue(record({ intelKey: 'smishing' }));
+
+      await refreshThreatIntelCache();
+
+      expect(mockGet).toHaveBeenCalledTimes(1);
+      expect(mockGet).toHaveBeenCalledWith('threat-intel:smishing');
+      expect(getThreatContextSync('Smishing')).toContain(LIVE_TECHNIQUE);
+    });
+
+    it('serves static data while the background refresh runs', () => {
+      expect(getThreatContextSync('Phishing')).toContain('TECHNIQUES:');
+      expect(mockList).toHaveBeenCalledWith('threat-intel:');
+    });
+  });
+});
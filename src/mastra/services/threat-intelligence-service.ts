@@ -4,8 +4,12 @@
  * Provides current threat landscape context to content generators.
  * Makes AI-generated training content realistic and up-to-date.
  *
- * V1: Static JSON fallback (threat-intelligence.json, updated quarterly)
- * V2 (planned): Weekly cron + Jina web search → KV cache with TTL
+ * Sources (first fresh hit wins):
+ *   1. KV — versioned entries written by threat-intel-ingestion-service (scheduled feed pull)
+ *   2. Static JSON fallback (threat-intelligence.json, updated quarterly)
+ *
+ * Sync variants cannot await KV, so they read an in-memory copy that is refreshed
+ * in the background (stale-while-revalidate) and fall back to static data meanwhile.
  *
  * Usage:
  *   const context = await getThreatContext('Phishing');
@@ -13,6 +17,9 @@
  */
 
 import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { THREAT_INTEL } from '../constants';
+import { KVService } from './kv-service';
 import staticIntelligence from '../data/threat-intelligence.json';
 
 const logger = getLogger('ThreatIntelligenceService');
@@ -26,6 +33,18 @@ export interface ThreatIntelEntry {
   realisticScenarios: string[];
 }
 
+/** Versioned KV record written by the ingestion job */
+export interface ThreatIntelRecord {
+  intelKey: string;
+  version: number;
+  /** ISO timestamp of the ingestion run that produced this version (freshness) */
+  updatedAt: string;
+  /** Feed ids that contributed items */
+  sources: string[];
+  itemCount: number;
+  entry: ThreatIntelEntry;
+}
+
 // ============================================================================
 // Role & Difficulty Mapping
 // ============================================================================
@@ -281,7 +300,7 @@ const TOPIC_KEYWORDS: [string, string][] = [
  * Resolve the intelligence key for a given topic string.
  * Checks topic first, then category as fallback.
  */
-function resolveIntelKey(topic: string, category?: string): string | undefined {
+export function resolveIntelKey(topic: string, category?: string): string | undefined {
   const topicLower = topic.toLowerCase();
   for (const [keyword, key] of TOPIC_KEYWORDS) {
     if (topicLower.includes(keyword)) return key;
@@ -295,6 +314,20 @@ function resolveIntelKey(topic: string, category?: string): string | undefined {
   return undefined;
 }
 
+/**
+ * Resolve the intelligence key for free text (feed items, news summaries).
+ * Same keyword table as resolveIntelKey, but whole-word matching so short
+ * keywords ("bec", "iot") do not fire inside unrelated words.
+ */
+export function classifyIntelText(text: string): string | undefined {
+  const textLower = text.toLowerCase();
+  for (const [keyword, key] of TOPIC_KEYWORDS) {
+    const escaped = keyword.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    if (new RegExp(`(^|[^a-z0-9])${escaped}($|[^a-z0-9])`).test(textLower)) return key;
+  }
+  return undefined;
+}
+
 // ============================================================================
 // Filtering Helpers
 // ============================================================================
@@ -405,22 +438,87 @@ function getStaticIntel(key: string): ThreatIntelEntry | undefined {
 }
 
 // ============================================================================
-// Data Source: KV (V2 — future cron-populated cache)
+// Data Source: KV (populated by threat-intel-ingestion-service)
 // ============================================================================
 
-// V2: Uncomment when cron job is implemented
-// const KV_PREFIX = 'threat-intel:';
-// const KV_TTL_SECONDS = 7 * 24 * 60 * 60; // 7 days
-//
-// async function getKVIntel(key: string): Promise<ThreatIntelEntry | undefined> {
-//   try {
-//     const kvService = new KVService();
-//     const data = await kvService.get<ThreatIntelEntry>(`${KV_PREFIX}${key}`);
-//     return data || undefined;
-//   } catch {
-//     return undefined;
-//   }
-// }
+const KV_CACHE_TTL_MS = 10 * 60 * 1000; // Re-read KV at most every 10 minutes per isolate
+
+const kvCache = new Map<string, ThreatIntelRecord>();
+let kvCacheLoadedAt = 0;
+let kvCacheRefresh: Promise<void> | undefined;
+
+export function getThreatIntelKVKey(intelKey: string): string {
+  return `${THREAT_INTEL.KV_PREFIX}${intelKey}`;
+}
+
+export function isThreatIntelRecordFresh(record: ThreatIntelRecord, now: number = Date.now()): boolean {
+  const updatedAt = Date.parse(record.updatedAt);
+  if (Number.isNaN(updatedAt)) return false;
+  return now - updatedAt <= THREAT_INTEL.MAX_AGE_DAYS * 24 * 60 * 60 * 1000;
+}
+
+function usableEntry(record: ThreatIntelRecord | null | undefined): ThreatIntelEntry | undefined {
+  if (!record?.entry?.currentTechniques?.length) return undefined;
+  return isThreatIntelRecordFresh(record) ? record.entry : undefined;
+}
+
+/** Store a record in the in-memory copy (ingestion calls this after each KV write). */
+export function cacheThreatIntelRecord(record: ThreatIntelRecord): void {
+  kvCache.set(record.intelKey, record);
+}
+
+/** Reload every current record from KV into memory. */
+export async function refreshThreatIntelCache(): Promise<void> {
+  try {
+    const kvService = new KVService();
+    const keys = await kvService.list(THREAT_INTEL.KV_PREFIX);
+    // Version history lives under `<prefix><key>:v<N>` — only current records are cached
+    const currentKeys = keys.filter(key => !key.slice(THREAT_INTEL.KV_PREFIX.length).includes(':'));
+    const records = await Promise.all(currentKeys.map(key => kvService.get<ThreatIntelRecord>(key)));
+    for (const record of records) {
+      if (record?.intelKey) kvCache.set(record.intelKey, record);
+    }
+    kvCacheLoadedAt = Date.now();
+    logger.debug('Threat intel KV cache refreshed', { records: kvCache.size });
+  } catch (error) {
+    kvCacheLoadedAt = Date.now(); // Back off until the next TTL window
+    logger.warn('Threat intel KV cache refresh failed, using static data', {
+      error: normalizeError(error).message,
+    });
+  }
+}
+
+/** Kick off a background refresh when the in-memory copy is older than the TTL. */
+function scheduleCacheRefresh(): void {
+  if (kvCacheRefresh || Date.now() - kvCacheLoadedAt < KV_CACHE_TTL_MS) return;
+  kvCacheRefresh = refreshThreatIntelCache().finally(() => {
+    kvCacheRefresh = undefined;
+  });
+}
+
+/** Reset in-memory KV state (tests). */
+export function resetThreatIntelCache(): void {
+  kvCache.clear();
+  kvCacheLoadedAt = 0;
+  kvCacheRefresh = undefined;
+}
+
+async function getKVIntel(key: string): Promise<ThreatIntelEntry | undefined> {
+  try {
+    const kvService = new KVService();
+    const record = await kvService.get<ThreatIntelRecord>(getThreatIntelKVKey(key));
+    if (record?.intelKey) kvCache.set(record.intelKey, record);
+    return usableEntry(record);
+  } catch {
+    return undefined;
+  }
+}
+
+/** Sync lookup: in-memory KV copy first, static JSON second. */
+function getIntelSync(key: string): ThreatIntelEntry | undefined {
+  scheduleCacheRefresh();
+  return usableEntry(kvCache.get(key)) || getStaticIntel(key);
+}
 
 // ============================================================================
 // Public API
@@ -451,9 +549,8 @@ export async function getThreatContext(topic: string, category?: string): Promis
     return undefined;
   }
 
-  // V2: Try KV first (cron-populated), fall back to static
-  // const entry = await getKVIntel(intelKey) || getStaticIntel(intelKey);
-  const entry = getStaticIntel(intelKey);
+  // KV first (ingestion-populated, freshness-checked), fall back to static
+  const entry = (await getKVIntel(intelKey)) || getStaticIntel(intelKey);
 
   if (!entry) {
     logger.debug('No threat intel data for key', { intelKey });
@@ -466,14 +563,14 @@ export async function getThreatContext(topic: string, category?: string): Promis
 }
 
 /**
- * Synchronous variant — uses static data only (no KV).
+ * Synchronous variant — in-memory KV copy, then static data.
  * Use this when you cannot await (e.g., inside synchronous prompt builders).
  */
 export function getThreatContextSync(topic: string, category?: string): string | undefined {
   const intelKey = resolveIntelKey(topic, category);
   if (!intelKey) return undefined;
 
-  const entry = getStaticIntel(intelKey);
+  const entry = getIntelSync(intelKey);
   if (!entry) return undefined;
 
   return formatThreatContext(topic, entry, undefined, intelKey);
@@ -502,7 +599,7 @@ export function getThreatContextSyncFiltered(
     return undefined;
   }
 
-  const entry = getStaticIntel(intelKey);
+  const entry = getIntelSync(intelKey);
   if (!entry) {
     logger.debug('No threat intel data for key', { intelKey });
     return undefined;
@@ -569,7 +666,7 @@ function getRelatedTechnique(intelKey: string, existingTechniques: string[]): st
 
   // Pick a random related category
   const relatedKey = related[Math.floor(Math.random() * related.length)];
-  const relatedEntry = getStaticIntel(relatedKey);
+  const relatedEntry = getIntelSync(relatedKey);
   if (!relatedEntry?.currentTechniques?.length) return undefined;
 
   // Pick 1 technique that's not already in the main set
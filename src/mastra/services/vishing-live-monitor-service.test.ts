@@ -0,0 +1,187 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  applyTurn,
+  classifyAgentTurn,
+  detectDisclosures,
+  formatCallTimestamp,
+  normalizeSpokenDigits,
+  processLiveTranscriptTurn,
+} from './vishing-live-monitor-service';
+import { VISHING_LIVE } from '../constants';
+
+vi.mock('../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+/** D1 mock keeping one vishing_live_sessions row per conversation (upsert binds → row) */
+function createMockDb() {
+  const rows = new Map<string, Record<string, unknown>>();
+  const prepare = vi.fn().mockImplementation((sql: string) => {
+    let values: unknown[] = [];
+    const statement = {
+      bind: vi.fn((...args: unknown[]) => {
+        values = args;
+        return statement;
+      }),
+      first: vi.fn(async () => rows.get(String(values[0])) ?? null),
+      run: vi.fn(async () => {
+        if (sql.startsWith('INSERT')) {
+          const [id, phase, pending_request, timeline, disclosures, agent_turns, revealed] = values;
+          rows.set(String(id), { phase, pending_request, timeline, disclosures, agent_turns, revealed });
+        }
+        return { success: true };
+      }),
+    };
+    return statement;
+  });
+  return { prepare, rows };
+}
+
+const EMPTY = {
+  phase: 'Introduction' as const,
+  pendingRequest: null,
+  timeline: [],
+  disclosures: [],
+  agentTurns: 0,
+  revealed: false,
+};
+
+describe('vishing-live-monitor-service', () => {
+  describe('normalizeSpokenDigits', () => {
+    it('collapses spoken and separated digits into runs', () => {
+      expect(normalizeSpokenDigits('Four five six, one two three')).toBe('456123');
+      expect(normalizeSpokenDigits('It is 4-8-1 5 2 2')).toBe('it is 481522');
+    });
+  });
+
+  describe('detectDisclosures', () => {
+    it('detects MFA codes read out digit by digit', () => {
+      expect(detectDisclosures('The code is four eight one five two two', null)).toEqual(['mfa_code']);
+    });
+
+    it('detects passwords but not refusals or placeholders', () => {
+      expect(detectDisclosures('ok my password is Summer2024!', null)).toEqual(['password']);
+      expect(detectDisclosures("I won't tell you, my password is private", null)).toEqual([]);
+      expect(detectDisclosures('my password is not something I share', null)).toEqual([]);
+    });
+
+    it('detects badge numbers and employee IDs', () => {
+      expect(detectDisclosures('My badge number is B-4471', null)).toEqual(['badge_number']);
+      expect(detectDisclosures('employee id 20391', null)).toEqual(['employee_id']);
+    });
+
+    it('treats a bare reply as the requested secret', () => {
+      expect(detectDisclosures("sure, it's 4 8 1 5 2 2", 'mfa_code')).toEqual(['mfa_code']);
+      expect(detectDisclosures("sure, it's 4 8 1 5 2 2", null)).toEqual([]);
+      expect(detectDisclosures('hunter42', 'password')).toEqual(['password']);
+      expect(detectDisclosures('why do you need that?', 'password')).toEqual([]);
+    });
+  });
+
+  describe('classifyAgentTurn', () => {
+    const later = { phase: 'Introduction' as const, agentTurns: 2 };
+
+    it('classifies the first agent turn as Introduction', () => {
+      expect(classifyAgentTurn('Hi, this is Mark from IT.', { phase: 'Introduction', agentTurns: 0 })).toEqual({
+        phase: 'Introduction',
+        requested: null,
+      });
+    });
+
+    it('detects data requests with the requested secret type', () => {
+      expect(classifyAgentTurn('Can you read me the code we just texted you?', later)).toEqual({
+        phase: 'Data Request',
+        requested: 'mfa_code',
+      });
+    });
+
+    it('detects pressure, credibility and reveal phases', () => {
+      expect(classifyAgentTurn('Your account will be locked in ten minutes.', later).phase).toBe('Pressure');
+      expect(classifyAgentTurn("I'm calling from the security team.", later).phase).toBe('Credibility Building');
+      expect(classifyAgentTurn('This was a security awareness simulation.', later).phase).toBe('Simulation Reveal');
+    });
+  });
+
+  describe('applyTurn', () => {
+    it('moves to Data Disclosed and records only the disclosure type', () => {
+      const asked = applyTurn(
+        { ...EMPTY, agentTurns: 1 },
+        { conversationId: 'c', role: 'agent', text: 'Please confirm your password.', timestamp: 30 }
+      );
+      const disclosed = applyTurn(asked, { conversationId: 'c', role: 'user', text: 'Tulip2024', timestamp: 75 });
+
+      expect(disclosed.phase).toBe('Data Disclosed');
+      expect(disclosed.disclosures).toEqual([{ type: 'password', timestamp: '1:15' }]);
+      expect(JSON.stringify(disclosed)).not.toContain('Tulip2024');
+      expect(disclosed.timeline.map(t => t.label)).toEqual(['Data Request', 'Data Disclosed']);
+    });
+  });
+
+  describe('formatCallTimestamp', () => {
+    it('formats seconds as M:SS', () => {
+      expect(formatCallTimestamp(0)).toBe('0:00');
+      expect(formatCallTimestamp(125.7)).toBe('2:05');
+      expect(formatCallTimestamp(undefined)).toBe('0:00');
+    });
+  });
+
+  describe('processLiveTranscriptTurn', () => {
+    it('asks for the reveal after a disclosure until the agent reveals', async () => {
+      const db = createMockDb();
+      const env = { agentic_ally_memory: db };
+      const turn = (role: 'agent' | 'user', text: string, timestamp: number) =>
+        processLiveTranscriptTurn(env, { conversationId: 'conv-1', role, text, timestamp });
+
+      expect((await turn('agent', 'Hi, this is Alex from the help desk.', 0)).action).toBe('continue');
+      expect((await turn('agent', 'I need you to read me the verification code.', 20)).phase).toBe('Data Request');
+
+      const disclosed = await turn('user', 'ok, 7 7 3 9 1 0', 28);
+      expect(disclosed).toMatchObject({
+        phase: 'Data Disclosed',
+        action: 'reveal',
+        instruction: VISHING_LIVE.REVEAL_INSTRUCTION,
+        disclosures: [{ type: 'mfa_code', timestamp: '0:28' }],
+        persisted: true,
+      });
+
+      // Still reveal if the agent keeps talking without revealing
+      expect((await turn('agent', 'Thanks, one more thing.', 32)).action).toBe('reveal');
+
+      const revealed = await turn('agent', 'This was a security awareness simulation.', 35);
+      expect(revealed.action).toBe('continue');
+      expect(revealed.instruction).toBeUndefined();
+      expect(revealed.phase).toBe('Simulation Reveal');
+      expect(db.rows.get('conv-1')?.revealed).toBe(1);
+    });
+
+    it('judges the turn on its own without D1', async () => {
+      const result = await processLiveTranscriptTurn(undefined, {
+        conversationId: 'conv-2',
+        role: 'user',
+        text: 'my password is Winter2025',
+      });
+
+      expect(result).toMatchObject({ action: 'reveal', persisted: false, phase: 'Data Disclosed' });
+    });
+
+    it('does not throw when D1 fails', async () => {
+      const db = {
+        prepare: vi.fn(() => {
+          throw new Error('D1 down');
+        }),
+      };
+
+      const result = await processLiveTranscriptTurn(
+        { agentic_ally_memory: db },
+        { conversationId: 'conv-3', role: 'agent', text: 'Hello there' }
+      );
+
+      expect(result).toMatchObject({ phase: 'Introduction', action: 'continue', persisted: false });
+    });
+  });
+});
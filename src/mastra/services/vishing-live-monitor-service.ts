@@ -0,0 +1,369 @@
+/**
+ * Vishing Live Monitor Service
+ *
+ * Classifies transcript turns while a vishing simulation call is still running
+ * (POST /vishing/conversations/live). For every turn it:
+ * - tracks the current VISHING_TIMELINE_LABELS phase (keyword heuristics, no LLM —
+ *   a turn has to be answered within the voice agent's latency budget)
+ * - detects sensitive disclosures (password, MFA code, badge number, employee ID)
+ *   in user turns, including spoken digits ("four five six...")
+ * - returns action 'reveal' with VISHING_LIVE.REVEAL_INSTRUCTION from the first
+ *   disclosure until the agent reveals the simulation, so at most one real
+ *   credential is captured
+ *
+ * State lives in D1 (VISHING_LIVE.TABLE) keyed by conversation ID. Only phase
+ * transitions and disclosure TYPES are stored — never transcript text or secret values.
+ *
+ * Pattern: follows gdpr-service.ts — never throws; without D1 each turn is judged on
+ * its own (a disclosure still triggers the reveal).
+ */
+
+import { getLogger } from '../utils/core/logger';
+import { normalizeError } from '../utils/core/error-utils';
+import { VISHING_LIVE } from '../constants';
+import { VISHING_TIMELINE_LABELS } from '../schemas/vishing-conversations-summary';
+
+const logger = getLogger('VishingLiveMonitorService');
+
+// ─── D1 Interfaces (same pattern as gdpr-service) ───
+
+interface D1PreparedStatement {
+  bind(...values: unknown[]): D1PreparedStatement;
+  run(): Promise<D1Result>;
+  first<T = unknown>(): Promise<T | null>;
+}
+
+interface D1Result {
+  success: boolean;
+}
+
+interface D1Database {
+  prepare(query: string): D1PreparedStatement;
+}
+
+// ─── Types ───
+
+export type VishingPhase = (typeof VISHING_TIMELINE_LABELS)[number];
+
+export type DisclosureType = 'password' | 'mfa_code' | 'badge_number' | 'employee_id';
+
+export interface LiveTranscriptTurn {
+  conversationId: string;
+  role: 'agent' | 'user';
+  text: string;
+  /** Seconds from call start */
+  timestamp?: number;
+}
+
+export interface LiveDisclosure {
+  type: DisclosureType;
+  /** MM:SS */
+  timestamp: string;
+}
+
+export interface LiveTimelineEntry {
+  label: VishingPhase;
+  /** MM:SS */
+  timestamp: string;
+}
+
+export interface LiveTurnResult {
+  conversationId: string;
+  phase: VishingPhase;
+  /** 'reveal' = voice agent must switch to Simulation Reveal now */
+  action: 'continue' | 'reveal';
+  instruction?: string;
+  disclosures: LiveDisclosure[];
+  timeline: LiveTimelineEntry[];
+  /** False when D1 was unavailable and the turn was judged without call history */
+  persisted: boolean;
+}
+
+interface LiveSessionState {
+  phase: VishingPhase;
+  /** What the agent last asked for — lets a bare "4 8 1 5 2 2" reply count as an MFA code */
+  pendingRequest: DisclosureType | null;
+  timeline: LiveTimelineEntry[];
+  disclosures: LiveDisclosure[];
+  agentTurns: number;
+  revealed: boolean;
+}
+
+interface LiveSessionRow {
+  phase: string;
+  pending_request: string | null;
+  timeline: string;
+  disclosures: string;
+  agent_turns: number;
+  revealed: number;
+}
+
+// ─── Text Heuristics ───
+
+const NUMBER_WORDS: Record<string, string> = {
+  zero: '0',
+  oh: '0',
+  one: '1',
+  two: '2',
+  three: '3',
+  four: '4',
+  five: '5',
+  six: '6',
+  seven: '7',
+  eight: '8',
+  nine: '9',
+};
+
+const REVEAL_PATTERN =
+  /\b(this (was|is) (just )?(a|an) (security |phishing |vishing )?(awareness )?(simulation|training|test|exercise)|simulated (call|attack)|part of (a|an|our) (security )?(awareness )?(training|exercise|simulation))\b/;
+const REQUEST_VERB_PATTERN = /\b(read|tell|give|provide|confirm|share|say|send|need|verify|repeat|what is|what's)\b/;
+const PRESSURE_PATTERN =
+  /\b(urgent|urgently|immediately|right now|right away|asap|as soon as possible|within (the next )?\d+|deadline|locked|suspended|compromised|before (it|we|the)|last chance)\b/;
+const CREDIBILITY_PATTERN =
+  /\b(calling from|security team|it (department|support|team)|help ?desk|compliance|on behalf of|our records|we (noticed|detected|flagged)|unusual (activity|sign-?in|login))\b/;
+const REFUSAL_PATTERN =
+  /\b(won't|will not|can't|cannot|not going to|don't (share|give)|never (share|give)|no way|not comfortable)\b/;
+
+/** Keywords naming each secret type, checked in this order */
+const DISCLOSURE_KEYWORDS: [DisclosureType, RegExp][] = [
+  ['mfa_code', /\b(otp|one[- ]time|mfa|2fa|verification code|security code|auth(entication)? code|pin|code)\b/],
+  ['password', /\b(password|passcode|passphrase)\b/],
+  ['badge_number', /\bbadge\b/],
+  ['employee_id', /\bemployee (id|number|no)\b|\bstaff (id|number)\b/],
+];
+
+/** Words that follow "my password is" without being a password */
+const NON_SECRET_WORDS = new Set(['not', 'private', 'secret', 'confidential', 'none', 'personal', 'something']);
+
+/** Lowercase and turn spoken digits ("four five six", "4-5-6") into digit runs ("456") */
+export function normalizeSpokenDigits(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/\b(zero|oh|one|two|three|four|five|six|seven|eight|nine)\b/g, word => NUMBER_WORDS[word])
+    .replace(/(\d)[\s,.-]+(?=\d)/g, '$1');
+}
+
+function requestedType(text: string): DisclosureType | null {
+  if (!REQUEST_VERB_PATTERN.test(text)) return null;
+  for (const [type, pattern] of DISCLOSURE_KEYWORDS) {
+    if (pattern.test(text)) return type;
+  }
+  return null;
+}
+
+/**
+ * Phase for an agent turn, plus the secret type it asks for (if any).
+ * Priority: reveal > data request > pressure > credibility; the first agent turn is the Introduction.
+ */
+export function classifyAgentTurn(
+  text: string,
+  current: Pick<LiveSessionState, 'phase' | 'agentTurns'>
+): { phase: VishingPhase; requested: DisclosureType | null } {
+  const normalized = text.toLowerCase();
+  if (REVEAL_PATTERN.test(normalized)) return { phase: 'Simulation Reveal', requested: null };
+
+  const requested = requestedType(normalized);
+  if (requested) return { phase: 'Data Request', requested };
+  if (current.agentTurns === 0) return { phase: 'Introduction', requested: null };
+  if (PRESSURE_PATTERN.test(normalized)) return { phase: 'Pressure', requested: null };
+  if (CREDIBILITY_PATTERN.test(normalized)) return { phase: 'Credibility Building', requested: null };
+  return { phase: current.phase, requested: null };
+}
+
+/**
+ * Secret types spoken in a user turn. Heuristic by design: a false positive ends the
+ * role-play early, a false negative lets the agent keep asking — the former is the safe side.
+ */
+export function detectDisclosures(text: string, pendingRequest: DisclosureType | null): DisclosureType[] {
+  const normalized = normalizeSpokenDigits(text);
+  const found = new Set<DisclosureType>();
+  const hasCode = /\b\d{4,8}\b/.test(normalized);
+  const idToken = /\b(?=[a-z0-9-]*\d)[a-z0-9-]{3,}\b/.test(normalized);
+
+  if (/\b(otp|one[- ]time|mfa|2fa|code|pin)\b/.test(normalized) && hasCode) found.add('mfa_code');
+  if (/\bbadge\b/.test(normalized) && idToken) found.add('badge_number');
+  if (/\bemployee (id|number|no)\b|\bstaff (id|number)\b/.test(normalized) && idToken) found.add('employee_id');
+
+  const passwordMatch = normalized.match(/\b(password|passcode|passphrase)\b\s*(is|was|=|:)\s*([^\s.,!?]{4,})/);
+  if (passwordMatch && !NON_SECRET_WORDS.has(passwordMatch[3]) && !REFUSAL_PATTERN.test(normalized)) {
+    found.add('password');
+  }
+
+  // Bare answer to the agent's last request ("it's 4 8 1 5 2 2")
+  if (found.size === 0 && pendingRequest) {
+    if (pendingRequest === 'mfa_code' && hasCode) found.add('mfa_code');
+    if ((pendingRequest === 'badge_number' || pendingRequest === 'employee_id') && idToken) found.add(pendingRequest);
+    if (
+      pendingRequest === 'password' &&
+      !REFUSAL_PATTERN.test(normalized) &&
+      /\b(?=[a-z0-9!@#$%^&*_-]*[a-z])(?=[a-z0-9!@#$%^&*_-]*\d)[a-z0-9!@#$%^&*_-]{6,}\b/.test(normalized)
+    ) {
+      found.add('password');
+    }
+  }
+
+  return [...found];
+}
+
+/** Seconds from call start → MM:SS (same format as the post-call summary timeline) */
+export function formatCallTimestamp(seconds: number | undefined): string {
+  const total = Math.max(0, Math.floor(seconds ?? 0));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+}
+
+/** Apply one turn to the session state (pure) */
+export function applyTurn(state: LiveSessionState, turn: LiveTranscriptTurn): LiveSessionState {
+  const timestamp = formatCallTimestamp(turn.timestamp);
+  const next: LiveSessionState = {
+    ...state,
+    timeline: [...state.timeline],
+    disclosures: [...state.disclosures],
+  };
+
+  if (turn.role === 'agent') {
+    const { phase, requested } = classifyAgentTurn(turn.text, state);
+    next.phase = phase;
+    next.pendingRequest = requested ?? (phase === 'Data Request' ? state.pendingRequest : null);
+    next.agentTurns = state.agentTurns + 1;
+    if (phase === 'Simulation Reveal') next.revealed = true;
+  } else {
+    const disclosed = detectDisclosures(turn.text, state.pendingRequest);
+    if (disclosed.length > 0) {
+      next.phase = 'Data Disclosed';
+      next.pendingRequest = null;
+      for (const type of disclosed) next.disclosures.push({ type, timestamp });
+    }
+  }
+
+  if (next.phase !== state.phase || next.timeline.length === 0) {
+    next.timeline.push({ label: next.phase, timestamp });
+  }
+  return next;
+}
+
+// ─── D1 Persistence ───
+
+function emptyState(): LiveSessionState {
+  return { phase: 'Introduction', pendingRequest: null, timeline: [], disclosures: [], agentTurns: 0, revealed: false };
+}
+
+function getDb(env: Record<string, unknown> | undefined): D1Database | null {
+  const db = env?.agentic_ally_memory as D1Database | undefined;
+  if (!db) {
+    logger.debug('agentic_ally_memory D1 not available, judging vishing turn without history');
+    return null;
+  }
+  return db;
+}
+
+function parseJsonArray<T>(value: string | null | undefined): T[] {
+  try {
+    const parsed = JSON.parse(value ?? '[]');
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+async function loadState(db: D1Database, conversationId: string): Promise<LiveSessionState> {
+  const row = await db
+    .prepare(
+      `SELECT phase, pending_request, timeline, disclosures, agent_turns, revealed FROM ${VISHING_LIVE.TABLE} WHERE conversation_id = ?`
+    )
+    .bind(conversationId)
+    .first<LiveSessionRow>();
+  if (!row) return emptyState();
+
+  return {
+    phase: (VISHING_TIMELINE_LABELS as readonly string[]).includes(row.phase) ? (row.phase as VishingPhase) : 'Other',
+    pendingRequest: (row.pending_request as DisclosureType | null) ?? null,
+    timeline: parseJsonArray<LiveTimelineEntry>(row.timeline),
+    disclosures: parseJsonArray<LiveDisclosure>(row.disclosures),
+    agentTurns: Number(row.agent_turns) || 0,
+    revealed: row.revealed === 1,
+  };
+}
+
+async function saveState(db: D1Database, conversationId: string, state: LiveSessionState): Promise<void> {
+  await db
+    .prepare(
+      `INSERT INTO ${VISHING_LIVE.TABLE} (conversation_id, phase, pending_request, timeline, disclosures, agent_turns, revealed, updated_at)
+       VALUES (?, ?, ?, ?, ?, ?, ?, datetime('now'))
+       ON CONFLICT(conversation_id) DO UPDATE SET
+         phase = excluded.phase,
+         pending_request = excluded.pending_request,
+         timeline = excluded.timeline,
+         disclosures = excluded.disclosures,
+         agent_turns = excluded.agent_turns,
+         revealed = excluded.revealed,
+         updated_at = excluded.updated_at`
+    )
+    .bind(
+      conversationId,
+      state.phase,
+      state.pendingRequest,
+      JSON.stringify(state.timeline),
+      JSON.stringify(state.disclosures),
+      state.agentTurns,
+      state.revealed ? 1 : 0
+    )
+    .run();
+}
+
+// ─── Entry Point ───
+
+/**
+ * Process one streamed transcript turn. Never throws.
+ */
+export async function processLiveTranscriptTurn(
+  env: Record<string, unknown> | undefined,
+  turn: LiveTranscriptTurn
+): Promise<LiveTurnResult> {
+  const db = getDb(env);
+  let previous = emptyState();
+  let persisted = false;
+
+  if (db) {
+    try {
+      previous = await loadState(db, turn.conversationId);
+      persisted = true;
+    } catch (error) {
+      logger.warn('vishing_live_state_load_failed', {
+        conversationId: turn.conversationId,
+        error: normalizeError(error).message,
+      });
+    }
+  }
+
+  const state = applyTurn(previous, turn);
+
+  if (db && persisted) {
+    try {
+      await saveState(db, turn.conversationId, state);
+    } catch (error) {
+      persisted = false;
+      logger.warn('vishing_live_state_save_failed', {
+        conversationId: turn.conversationId,
+        error: normalizeError(error).message,
+      });
+    }
+  }
+
+  const reveal = state.disclosures.length > 0 && !state.revealed;
+  if (state.disclosures.length > previous.disclosures.length) {
+    logger.warn('vishing_live_disclosure_detected', {
+      conversationId: turn.conversationId,
+      types: state.disclosures.slice(previous.disclosures.length).map(d => d.type),
+    });
+  }
+
+  return {
+    conversationId: turn.conversationId,
+    phase: state.phase,
+    action: reveal ? 'reveal' : 'continue',
+    ...(reveal && { instruction: VISHING_LIVE.REVEAL_INSTRUCTION }),
+    disclosures: state.disclosures,
+    timeline: state.timeline,
+    persisted,
+  };
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { ElevenLabsVoiceProvider } from './elevenlabs-voice-provider';
+import { VoiceProviderError } from './types';
+import { VISHING_LIVE } from '../../constants';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const BASE = 'https://api.elevenlabs.io/v1/convai';
+
+describe('ElevenLabsVoiceProvider', () => {
+  const originalFetch = global.fetch;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.ELEVENLABS_API_KEY;
+    delete process.env.ELEVENLABS_AGENT_ID;
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env = originalEnv;
+  });
+
+  it('reads credentials from env at construction and falls back to the default agent', () => {
+    expect(new ElevenLabsVoiceProvider().getConfigurationError()).toContain('ELEVENLABS_API_KEY');
+
+    process.env.ELEVENLABS_API_KEY = 'env-key';
+    const provider = new ElevenLabsVoiceProvider();
+    expect(provider.getConfigurationError()).toBeNull();
+    expect(provider.agentId).toBe('agent_0901kfr9djtqfg988bypdyah40mm');
+
+    process.env.ELEVENLABS_AGENT_ID = 'env-agent';
+    expect(new ElevenLabsVoiceProvider().agentId).toBe('env-agent');
+  });
+
+  it('rejects with not_configured before calling the API when the key is missing', async () => {
+    const provider = new ElevenLabsVoiceProvider();
+
+    await expect(provider.listPhoneNumbers()).rejects.toMatchObject({ code: 'not_configured' });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('places outbound calls with the scenario override', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ conversation_id: 'conv-1', callSid: 'CA-1' }),
+    } as Response);
+    const provider = new ElevenLabsVoiceProvider({ apiKey: 'key', agentId: 'agent-1' });
+
+    const result = await provider.startOutboundCall({
+      agentPhoneNumberId: 'pn-1',
+      toNumber: '+905551234567',
+      prompt: 'Scenario',
+      firstMessage: 'Hello',
+    });
+
+    expect(result).toEqual({ conversationId: 'conv-1', callSid: 'CA-1' });
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe(`${BASE}/twilio/outbound-call`);
+    expect(JSON.parse(String(init?.body))).toEqual({
+      agent_id: 'agent-1',
+      agent_phone_number_id: 'pn-1',
+      to_number: '+905551234567',
+      conversation_initiation_client_data: {
+        conversation_config_override: { agent: { prompt: { prompt: 'Scenario' }, first_message: 'Hello' } },
+      },
+    });
+  });
+
+  it('registers the live monitor webhook tool and its prompt instruction when configured', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ conversation_id: 'conv-1', callSid: 'CA-1' }),
+    } as Response);
+    const provider = new ElevenLabsVoiceProvider({ apiKey: 'key', agentId: 'agent-1' });
+
+    await provider.startOutboundCall({
+      agentPhoneNumberId: 'pn-1',
+      toNumber: '+905551234567',
+      prompt: 'Scenario',
+      firstMessage: 'Hello',
+      liveMonitor: { url: 'https://agent.example.com/vishing/conversations/live', toolToken: 'tok-1' },
+    });
+
+    const body = JSON.parse(String(vi.mocked(global.fetch).mock.calls[0][1]?.body));
+    const { prompt } = body.conversation_initiation_client_data.conversation_config_override.agent;
+    expect(prompt.prompt).toBe(`Scenario\n\n${VISHING_LIVE.AGENT_TOOL_INSTRUCTION}`);
+    expect(prompt.tools).toEqual([
+      {
+        type: 'webhook',
+        name: 'report_learner_turn',
+        description: expect.any(String),
+        api_schema: {
+          url: 'https://agent.example.com/vishing/conversations/live',
+          method: 'POST',
+          request_headers: { 'X-VISHING-TOOL-TOKEN': 'tok-1' },
+          request_body_schema: {
+            type: 'object',
+            properties: {
+              conversationId: { type: 'string', dynamic_variable: 'system__conversation_id' },
+              role: { type: 'string', constant_value: 'user' },
+              text: { type: 'string', description: expect.any(String) },
+            },
+            required: ['conversationId', 'role', 'text'],
+          },
+        },
+      },
+    ]);
+  });
+
+  it('throws VoiceProviderError with status and body for non-2xx responses', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 422,
+      statusText: 'Unprocessable Entity',
+      text: async () => 'bad number',
+    } as Response);
+    const provider = new ElevenLabsVoiceProvider({ apiKey: 'key' });
+
+    const error = await provider
+      .startOutboundCall({ agentPhoneNumberId: 'pn-1', toNumber: '+1555', prompt: 'p', firstMessage: 'f' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(VoiceProviderError);
+    expect(error).toMatchObject({ code: 'api_error', status: 422, body: 'bad number' });
+  });
+
+  it('returns the public session without signing when no API key is set', async () => {
+    const session = await new ElevenLabsVoiceProvider({ agentId: 'agent-1' }).createBrowserSession();
+
+    expect(session).toEqual({
+      agentId: 'agent-1',
+      wsUrl: 'wss://api.elevenlabs.io/v1/convai/conversation?agent_id=agent-1',
+    });
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('keeps the public session when signing fails', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({ ok: false, status: 401, text: async () => 'nope' } as Response);
+
+    const session = await new ElevenLabsVoiceProvider({ apiKey: 'key', agentId: 'agent-1' }).createBrowserSession();
+
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe(`${BASE}/conversation/get-signed-url?agent_id=agent-1`);
+    expect(session.signedUrl).toBeUndefined();
+    expect(session.wsUrl).toContain('agent-1');
+  });
+
+  it('maps conversation transcripts, skipping turns without speech', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        status: 'done',
+        transcript: [
+          { role: 'agent', message: 'Hello, IT here.', time_in_call_secs: 0 },
+          { role: 'agent', message: null, time_in_call_secs: 3 },
+          { role: 'user', message: ' Who is this? ', time_in_call_secs: 5 },
+        ],
+        metadata: { call_duration_secs: 42 },
+      }),
+    } as Response);
+
+    const transcript = await new ElevenLabsVoiceProvider({ apiKey: 'key' }).getConversationTranscript('conv/1');
+
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe(`${BASE}/conversations/conv%2F1`);
+    expect(transcript).toEqual({
+      conversationId: 'conv/1',
+      status: 'done',
+      messages: [
+        { role: 'agent', text: 'Hello, IT here.', timestamp: 0 },
+        { role: 'user', text: 'Who is this?', timestamp: 5 },
+      ],
+      durationSecs: 42,
+    });
+  });
+});
@@ -0,0 +1,249 @@
+/**
+ * ElevenLabs Voice Simulation Provider
+ *
+ * ElevenLabs Conversational AI + Twilio. The scenario prompt and first message are
+ * injected per call via `conversation_initiation_client_data`, so a single
+ * configured agent (ELEVENLABS_AGENT_ID) serves every vishing scenario. The live
+ * monitor webhook is registered there too, as a webhook tool (see live-monitor.ts).
+ *
+ * API: https://api.elevenlabs.io/v1/convai
+ * - POST /twilio/outbound-call
+ * - GET  /conversation/get-signed-url?agent_id=
+ * - GET  /phone-numbers
+ * - GET  /conversations/{conversationId}
+ */
+
+import { ELEVENLABS, VISHING_LIVE } from '../../constants';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { withRetry } from '../../utils/core/resilience-utils';
+import { withLiveMonitorInstruction } from './live-monitor';
+import {
+  VoiceProviderError,
+  type BrowserSession,
+  type LiveMonitorConfig,
+  type ConversationStatus,
+  type ConversationTranscript,
+  type OutboundCallRequest,
+  type OutboundCallResult,
+  type TranscriptMessage,
+  type VoicePhoneNumber,
+  type VoiceSimulationProvider,
+} from './types';
+
+const logger = getLogger('ElevenLabsVoiceProvider');
+
+const CONVERSATION_STATUSES: readonly ConversationStatus[] = [
+  'initiated',
+  'in-progress',
+  'processing',
+  'done',
+  'failed',
+];
+
+/**
+ * Webhook tool that posts the learner's reply to the live transcript route. The agent only
+ * fills in `text`; the conversation ID comes from the ElevenLabs system variable.
+ */
+function buildLiveMonitorTool(liveMonitor: LiveMonitorConfig) {
+  return {
+    type: 'webhook',
+    name: VISHING_LIVE.AGENT_TOOL_NAME,
+    description:
+      "Report the person's latest reply to the live monitor. Returns action 'continue' or 'reveal' with an instruction.",
+    api_schema: {
+      url: liveMonitor.url,
+      method: 'POST',
+      request_headers: { [VISHING_LIVE.TOOL_TOKEN_HEADER]: liveMonitor.toolToken },
+      request_body_schema: {
+        type: 'object',
+        properties: {
+          conversationId: { type: 'string', dynamic_variable: 'system__conversation_id' },
+          role: { type: 'string', constant_value: 'user' },
+          text: { type: 'string', description: "The person's latest reply, word for word" },
+        },
+        required: ['conversationId', 'role', 'text'],
+      },
+    },
+  };
+}
+
+export class ElevenLabsVoiceProvider implements VoiceSimulationProvider {
+  readonly name = 'elevenlabs' as const;
+  readonly displayName = 'ElevenLabs';
+  readonly timeoutMs = ELEVENLABS.API_TIMEOUT_MS;
+  readonly agentId: string;
+  private readonly apiKey: string | undefined;
+
+  constructor(config: { apiKey?: string; agentId?: string } = {}) {
+    this.apiKey = config.apiKey ?? process.env.ELEVENLABS_API_KEY;
+    this.agentId = config.agentId || process.env.ELEVENLABS_AGENT_ID || ELEVENLABS.FALLBACK_AGENT_ID;
+  }
+
+  getConfigurationError(): string | null {
+    return this.apiKey
+      ? null
+      : 'ElevenLabs API key is not configured. Please set ELEVENLABS_API_KEY environment variable.';
+  }
+
+  async startOutboundCall(request: OutboundCallRequest): Promise<OutboundCallResult> {
+    const { liveMonitor } = request;
+    const body = JSON.stringify({
+      agent_id: this.agentId,
+      agent_phone_number_id: request.agentPhoneNumberId,
+      to_number: request.toNumber,
+      conversation_initiation_client_data: {
+        conversation_config_override: {
+          agent: {
+            prompt: liveMonitor
+              ? { prompt: withLiveMonitorInstruction(request.prompt), tools: [buildLiveMonitorTool(liveMonitor)] }
+              : { prompt: request.prompt },
+            first_message: request.firstMessage,
+          },
+        },
+      },
+    });
+
+    const apiKey = this.requireApiKey();
+    const response = await withRetry(
+      () => this.request(apiKey, ELEVENLABS.ENDPOINTS.OUTBOUND_CALL, { method: 'POST', body }),
+      'elevenlabs_outbound_call'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = (await response.json()) as { conversation_id?: string; callSid?: string };
+    return { conversationId: data.conversation_id ?? '', callSid: data.callSid ?? '' };
+  }
+
+  /**
+   * Public WebSocket URL plus a signed URL when an API key is configured.
+   * Signing failures are logged and tolerated — the public URL still works for
+   * agents that allow unauthenticated sessions.
+   */
+  async createBrowserSession(): Promise<BrowserSession> {
+    const session: BrowserSession = {
+      agentId: this.agentId,
+      wsUrl: `${ELEVENLABS.WS_URL}?agent_id=${this.agentId}`,
+    };
+    if (!this.apiKey) return session;
+
+    try {
+      const response = await this.request(this.apiKey, `${ELEVENLABS.ENDPOINTS.SIGNED_URL}?agent_id=${this.agentId}`, {
+        method: 'GET',
+      });
+      if (!response.ok) {
+        const errorText = await response.text().catch(() => '');
+        logger.warn('elevenlabs_signed_url_failed', { status: response.status, error: errorText.substring(0, 200) });
+        return session;
+      }
+      const payload = (await response.json()) as { signedUrl?: string; signed_url?: string } | null;
+      return { ...session, signedUrl: payload?.signedUrl || payload?.signed_url };
+    } catch (error) {
+      logger.warn('elevenlabs_signed_url_error', { error: normalizeError(error).message });
+      return session;
+    }
+  }
+
+  async listPhoneNumbers(): Promise<VoicePhoneNumber[]> {
+    const apiKey = this.requireApiKey();
+    const response = await withRetry(async () => {
+      const res = await this.request(apiKey, ELEVENLABS.ENDPOINTS.LIST_PHONE_NUMBERS, { method: 'GET' });
+      if (!res.ok && res.status >= 500) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`ElevenLabs API error ${res.status}: ${text.substring(0, 200)}`);
+      }
+      return res;
+    }, 'elevenlabs_list_phone_numbers');
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = await response.json();
+    // ElevenLabs returns an array directly
+    const phoneNumbers: Record<string, unknown>[] = Array.isArray(data) ? data : (data?.phone_numbers ?? []);
+
+    return phoneNumbers.map(pn => ({
+      phoneNumber: String(pn.phone_number ?? ''),
+      phoneNumberId: String(pn.phone_number_id ?? ''),
+      label: String(pn.label ?? 'Unlabeled'),
+      provider: pn.provider === 'sip_trunk' ? 'sip_trunk' : 'twilio',
+    }));
+  }
+
+  async getConversationTranscript(conversationId: string): Promise<ConversationTranscript> {
+    const apiKey = this.requireApiKey();
+    const response = await withRetry(
+      () =>
+        this.request(apiKey, `${ELEVENLABS.ENDPOINTS.CONVERSATIONS}/${encodeURIComponent(conversationId)}`, {
+          method: 'GET',
+        }),
+      'elevenlabs_get_conversation'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = (await response.json()) as {
+      status?: string;
+      transcript?: { role?: string; message?: string | null; time_in_call_secs?: number }[];
+      metadata?: { call_duration_secs?: number };
+    };
+
+    // Tool-call turns have no spoken message — skip them
+    const messages: TranscriptMessage[] = (data.transcript ?? [])
+      .filter(turn => typeof turn.message === 'string' && turn.message.trim().length > 0)
+      .map(turn => ({
+        role: turn.role === 'user' ? 'user' : 'agent',
+        text: (turn.message as string).trim(),
+        timestamp: turn.time_in_call_secs,
+      }));
+
+    return {
+      conversationId,
+      status: CONVERSATION_STATUSES.includes(data.status as ConversationStatus)
+        ? (data.status as ConversationStatus)
+        : 'processing',
+      messages,
+      durationSecs: data.metadata?.call_duration_secs,
+    };
+  }
+
+  // ─── Helpers ───
+
+  /** Checked before retries so a missing key fails fast */
+  private requireApiKey(): string {
+    if (!this.apiKey) {
+      throw new VoiceProviderError(this.getConfigurationError() as string, 'not_configured');
+    }
+    return this.apiKey;
+  }
+
+  private async request(
+    apiKey: string,
+    path: string,
+    init: { method: 'GET' | 'POST'; body?: string }
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      return await fetch(`${ELEVENLABS.API_BASE_URL}${path}`, {
+        method: init.method,
+        headers: {
+          'Content-Type': 'application/json',
+          'xi-api-key': apiKey,
+        },
+        body: init.body,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async toApiError(response: Response): Promise<VoiceProviderError> {
+    const body = await response.text().catch(() => 'Unable to read error body');
+    return new VoiceProviderError(
+      `ElevenLabs API returned ${response.status}: ${response.statusText}`,
+      'api_error',
+      response.status,
+      response.statusText,
+      body.substring(0, 500)
+    );
+  }
+}
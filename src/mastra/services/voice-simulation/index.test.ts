@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import {
+  ElevenLabsVoiceProvider,
+  MockVoiceSimulationProvider,
+  VapiVoiceProvider,
+  getVoiceSimulationProvider,
+  resetMockVoiceProvider,
+} from './index';
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+describe('voice-simulation provider registry', () => {
+  afterEach(() => {
+    delete process.env.VOICE_PROVIDER;
+    resetMockVoiceProvider();
+  });
+
+  it('defaults to ElevenLabs', () => {
+    expect(getVoiceSimulationProvider()).toBeInstanceOf(ElevenLabsVoiceProvider);
+  });
+
+  it('selects the provider from VOICE_PROVIDER (case-insensitive)', () => {
+    process.env.VOICE_PROVIDER = ' Mock ';
+    expect(getVoiceSimulationProvider()).toBeInstanceOf(MockVoiceSimulationProvider);
+    expect(getVoiceSimulationProvider('vapi')).toBeInstanceOf(VapiVoiceProvider);
+  });
+
+  it('rejects unknown providers instead of falling back to real calls', () => {
+    expect(() => getVoiceSimulationProvider('twilio')).toThrow(/Unknown VOICE_PROVIDER "twilio"/);
+  });
+
+  it('shares the mock instance so transcripts see earlier calls', async () => {
+    const call = await getVoiceSimulationProvider('mock').startOutboundCall({
+      agentPhoneNumberId: 'mock-pn-1',
+      toNumber: '+905551234567',
+      prompt: 'p',
+      firstMessage: 'Scenario opening',
+    });
+
+    const transcript = await getVoiceSimulationProvider('mock').getConversationTranscript(call.conversationId);
+
+    expect(call).toEqual({ conversationId: 'mock-conv-1', callSid: 'MOCK-CA-1' });
+    expect(transcript.messages.map(m => m.role)).toEqual(['agent', 'user', 'agent']);
+    expect(transcript.messages[0].text).toBe('Scenario opening');
+  });
+
+  it('mock rejects conversation IDs it did not issue', async () => {
+    await expect(getVoiceSimulationProvider('mock').getConversationTranscript('conv-real')).rejects.toMatchObject({
+      status: 404,
+    });
+  });
+});
@@ -0,0 +1,59 @@
+/**
+ * Voice Simulation Provider Registry
+ *
+ * Selects the voice platform behind the vishing tools and routes from the
+ * VOICE_PROVIDER env var (default: elevenlabs). Adding a vendor = implement
+ * VoiceSimulationProvider and add a factory entry below.
+ */
+
+import { VOICE_SIMULATION } from '../../constants';
+import { ElevenLabsVoiceProvider } from './elevenlabs-voice-provider';
+import { VapiVoiceProvider } from './vapi-voice-provider';
+import { MockVoiceSimulationProvider } from './mock-voice-provider';
+import { VoiceProviderError, type VoiceProviderName, type VoiceSimulationProvider } from './types';
+
+export * from './types';
+export { ElevenLabsVoiceProvider } from './elevenlabs-voice-provider';
+export { VapiVoiceProvider } from './vapi-voice-provider';
+export { MockVoiceSimulationProvider } from './mock-voice-provider';
+export { deriveLiveToolToken, resolveLiveMonitorConfig, withLiveMonitorInstruction } from './live-monitor';
+
+/** Shared so calls recorded by the mock stay visible to later transcript lookups in the same isolate */
+let mockProvider: MockVoiceSimulationProvider | null = null;
+
+const PROVIDER_FACTORIES: Record<VoiceProviderName, () => VoiceSimulationProvider> = {
+  // New instance per call: credentials and agent ID are read from env at use time
+  elevenlabs: () => new ElevenLabsVoiceProvider(),
+  vapi: () => new VapiVoiceProvider(),
+  mock: () => {
+    if (!mockProvider) mockProvider = new MockVoiceSimulationProvider();
+    return mockProvider;
+  },
+};
+
+function isVoiceProviderName(value: string): value is VoiceProviderName {
+  return (VOICE_SIMULATION.PROVIDERS as readonly string[]).includes(value);
+}
+
+/**
+ * Resolve the configured voice provider.
+ * Throws VoiceProviderError for an unknown VOICE_PROVIDER rather than silently
+ * falling back to a provider that places real calls.
+ */
+export function getVoiceSimulationProvider(
+  name: string | undefined = process.env.VOICE_PROVIDER
+): VoiceSimulationProvider {
+  const providerName = name?.trim().toLowerCase() || VOICE_SIMULATION.DEFAULT_PROVIDER;
+  if (!isVoiceProviderName(providerName)) {
+    throw new VoiceProviderError(
+      `Unknown VOICE_PROVIDER "${name}". Supported: ${VOICE_SIMULATION.PROVIDERS.join(', ')}`,
+      'not_configured'
+    );
+  }
+  return PROVIDER_FACTORIES[providerName]();
+}
+
+/** Clears the shared mock provider (tests) */
+export function resetMockVoiceProvider(): void {
+  mockProvider = null;
+}
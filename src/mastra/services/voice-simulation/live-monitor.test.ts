@@ -0,0 +1,42 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { deriveLiveToolToken, resolveLiveMonitorConfig, withLiveMonitorInstruction } from './live-monitor';
+import { VISHING_LIVE } from '../../constants';
+
+describe('live monitor registration', () => {
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.VISHING_LIVE_WEBHOOK_URL;
+    delete process.env.VISHING_WEBHOOK_SECRET;
+  });
+
+  afterEach(() => {
+    process.env = originalEnv;
+  });
+
+  it('is disabled unless both the webhook URL and the secret are set', async () => {
+    expect(await resolveLiveMonitorConfig()).toBeNull();
+
+    process.env.VISHING_LIVE_WEBHOOK_URL = 'https://agent.example.com/vishing/conversations/live';
+    expect(await resolveLiveMonitorConfig()).toBeNull();
+
+    process.env.VISHING_WEBHOOK_SECRET = 'whsec_test';
+    expect(await resolveLiveMonitorConfig()).toEqual({
+      url: 'https://agent.example.com/vishing/conversations/live',
+      toolToken: await deriveLiveToolToken('whsec_test'),
+    });
+  });
+
+  it('derives a token that differs from the secret and per secret', async () => {
+    const token = await deriveLiveToolToken('whsec_test');
+
+    expect(token).toMatch(/^[0-9a-f]{64}$/);
+    expect(token).not.toContain('whsec_test');
+    expect(await deriveLiveToolToken('other')).not.toBe(token);
+  });
+
+  it('appends the reveal instruction to the scenario prompt', () => {
+    expect(withLiveMonitorInstruction('Scenario')).toBe(`Scenario\n\n${VISHING_LIVE.AGENT_TOOL_INSTRUCTION}`);
+  });
+});
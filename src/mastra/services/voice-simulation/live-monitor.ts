@@ -0,0 +1,34 @@
+/**
+ * Live Monitor Registration
+ *
+ * The live transcript webhook (POST /vishing/conversations/live) can only stop a call
+ * early if the voice agent calls it. Outbound calls therefore register a
+ * VISHING_LIVE.AGENT_TOOL_NAME tool pointing at the webhook and append
+ * VISHING_LIVE.AGENT_TOOL_INSTRUCTION to the scenario prompt, so the agent reports
+ * each learner reply and reveals the simulation when the response says `reveal`.
+ *
+ * Voice platforms send tool calls with static headers, so the tool authenticates with
+ * a token derived from VISHING_WEBHOOK_SECRET instead of a per-request signature.
+ */
+
+import { VISHING_LIVE } from '../../constants';
+import { hmacSha256Hex } from '../../utils/core/hash-utils';
+import type { LiveMonitorConfig } from './types';
+
+/** Token the platform sends with each tool call; the raw secret never leaves this service */
+export function deriveLiveToolToken(secret: string): Promise<string> {
+  return hmacSha256Hex(secret, VISHING_LIVE.TOOL_TOKEN_CONTEXT);
+}
+
+/** Null when VISHING_LIVE_WEBHOOK_URL or VISHING_WEBHOOK_SECRET is unset (calls run without early reveal) */
+export async function resolveLiveMonitorConfig(): Promise<LiveMonitorConfig | null> {
+  const url = process.env.VISHING_LIVE_WEBHOOK_URL?.trim();
+  const secret = process.env.VISHING_WEBHOOK_SECRET;
+  if (!url || !secret) return null;
+  return { url, toolToken: await deriveLiveToolToken(secret) };
+}
+
+/** Scenario prompt plus the instruction to report each reply and obey `reveal` */
+export function withLiveMonitorInstruction(prompt: string): string {
+  return `${prompt}\n\n${VISHING_LIVE.AGENT_TOOL_INSTRUCTION}`;
+}
@@ -0,0 +1,102 @@
+/**
+ * Mock Voice Simulation Provider
+ *
+ * In-memory provider for tests and staging (VOICE_PROVIDER=mock). No calls are
+ * placed: startOutboundCall records the request and returns a deterministic
+ * conversation ID whose transcript is a short scripted exchange built from the
+ * scenario's first message, so the whole vishing flow (list numbers → call →
+ * transcript → summary) can run end to end.
+ */
+
+import { getLogger } from '../../utils/core/logger';
+import {
+  VoiceProviderError,
+  type BrowserSession,
+  type ConversationTranscript,
+  type OutboundCallRequest,
+  type OutboundCallResult,
+  type VoicePhoneNumber,
+  type VoiceSimulationProvider,
+} from './types';
+
+const logger = getLogger('MockVoiceProvider');
+
+const MOCK_AGENT_ID = 'mock-agent';
+const MOCK_CONVERSATION_PREFIX = 'mock-conv-';
+const DEFAULT_FIRST_MESSAGE = 'Hi, this is IT support. We noticed unusual sign-in activity on your account.';
+
+const DEFAULT_PHONE_NUMBERS: VoicePhoneNumber[] = [
+  { phoneNumber: '+15550100001', phoneNumberId: 'mock-pn-1', label: 'Mock US Line', provider: 'twilio' },
+  { phoneNumber: '+445550100002', phoneNumberId: 'mock-pn-2', label: 'Mock UK Line', provider: 'sip_trunk' },
+];
+
+export class MockVoiceSimulationProvider implements VoiceSimulationProvider {
+  readonly name = 'mock' as const;
+  readonly displayName = 'Mock voice provider';
+  readonly timeoutMs = 0;
+
+  /** Calls placed through this instance, in order */
+  readonly calls: (OutboundCallRequest & OutboundCallResult)[] = [];
+  private readonly phoneNumbers: VoicePhoneNumber[];
+
+  constructor(options: { phoneNumbers?: VoicePhoneNumber[] } = {}) {
+    this.phoneNumbers = options.phoneNumbers ?? DEFAULT_PHONE_NUMBERS;
+  }
+
+  getConfigurationError(): string | null {
+    return null;
+  }
+
+  async startOutboundCall(request: OutboundCallRequest): Promise<OutboundCallResult> {
+    const index = this.calls.length + 1;
+    const result: OutboundCallResult = {
+      conversationId: `${MOCK_CONVERSATION_PREFIX}${index}`,
+      callSid: `MOCK-CA-${index}`,
+    };
+    this.calls.push({ ...request, ...result });
+
+    logger.info('mock_vishing_call_started', {
+      conversationId: result.conversationId,
+      agentPhoneNumberId: request.agentPhoneNumberId,
+    });
+    return result;
+  }
+
+  async createBrowserSession(): Promise<BrowserSession> {
+    return { agentId: MOCK_AGENT_ID, wsUrl: `ws://localhost/mock-voice?agent_id=${MOCK_AGENT_ID}` };
+  }
+
+  async listPhoneNumbers(): Promise<VoicePhoneNumber[]> {
+    return [...this.phoneNumbers];
+  }
+
+  /**
+   * Scripted "refused" outcome: agent pretext, target declines, agent debriefs.
+   * Any mock-conv-* ID resolves (Workers isolates do not keep `calls` between requests).
+   */
+  async getConversationTranscript(conversationId: string): Promise<ConversationTranscript> {
+    if (!conversationId.startsWith(MOCK_CONVERSATION_PREFIX)) {
+      throw new VoiceProviderError(`Conversation ${conversationId} not found`, 'api_error', 404, 'Not Found');
+    }
+    const call = this.calls.find(c => c.conversationId === conversationId);
+
+    return {
+      conversationId,
+      status: 'done',
+      messages: [
+        { role: 'agent', text: call?.firstMessage ?? DEFAULT_FIRST_MESSAGE, timestamp: 0 },
+        {
+          role: 'user',
+          text: "I can't share that over the phone. I'll call the help desk back directly.",
+          timestamp: 8,
+        },
+        {
+          role: 'agent',
+          text: 'This was a security awareness simulation. Verifying through an official channel was the right call.',
+          timestamp: 15,
+        },
+      ],
+      durationSecs: 20,
+    };
+  }
+}
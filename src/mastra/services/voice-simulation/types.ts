@@ -0,0 +1,102 @@
+/**
+ * Voice Simulation Provider Types
+ *
+ * Contract between the vishing tools/routes and the voice platform that places
+ * calls. Implementations: ElevenLabs (production default), Vapi (Twilio-backed
+ * telephony) and an in-memory mock for tests/staging. A new vendor only needs to implement VoiceSimulationProvider
+ * and be registered in ./index.ts.
+ */
+
+import { VOICE_SIMULATION } from '../../constants';
+
+export type VoiceProviderName = (typeof VOICE_SIMULATION.PROVIDERS)[number];
+
+export interface OutboundCallRequest {
+  /** Provider-side ID of the caller number (from listPhoneNumbers) */
+  agentPhoneNumberId: string;
+  /** Recipient in E.164 format */
+  toNumber: string;
+  /** Scenario system prompt for the voice agent */
+  prompt: string;
+  /** Opening line spoken when the call connects */
+  firstMessage: string;
+  /** Live transcript tool to register on the call (see live-monitor.ts); omitted = no early reveal */
+  liveMonitor?: LiveMonitorConfig;
+}
+
+export interface LiveMonitorConfig {
+  /** Public URL of POST /vishing/conversations/live */
+  url: string;
+  /** Static token the platform sends in VISHING_LIVE.TOOL_TOKEN_HEADER */
+  toolToken: string;
+}
+
+export interface OutboundCallResult {
+  conversationId: string;
+  /** Telephony call SID (empty when the provider does not expose one) */
+  callSid: string;
+}
+
+export interface BrowserSession {
+  agentId: string;
+  /** Public WebSocket URL (requires agent to allow unauthenticated sessions) */
+  wsUrl: string;
+  /** Short-lived signed URL; undefined when signing is unavailable */
+  signedUrl?: string;
+}
+
+export interface VoicePhoneNumber {
+  phoneNumber: string;
+  phoneNumberId: string;
+  label: string;
+  provider: 'twilio' | 'sip_trunk';
+}
+
+export type ConversationStatus = 'initiated' | 'in-progress' | 'processing' | 'done' | 'failed';
+
+export interface TranscriptMessage {
+  role: 'agent' | 'user';
+  text: string;
+  /** Seconds from call start */
+  timestamp?: number;
+}
+
+export interface ConversationTranscript {
+  conversationId: string;
+  status: ConversationStatus;
+  messages: TranscriptMessage[];
+  durationSecs?: number;
+}
+
+export interface VoiceSimulationProvider {
+  readonly name: VoiceProviderName;
+  /** Human-readable vendor name used in error messages */
+  readonly displayName: string;
+  /** Per-request timeout; requests reject with AbortError when exceeded */
+  readonly timeoutMs: number;
+
+  /** Returns a user-facing message when credentials are missing, otherwise null */
+  getConfigurationError(): string | null;
+
+  startOutboundCall(request: OutboundCallRequest): Promise<OutboundCallResult>;
+  createBrowserSession(): Promise<BrowserSession>;
+  listPhoneNumbers(): Promise<VoicePhoneNumber[]>;
+  getConversationTranscript(conversationId: string): Promise<ConversationTranscript>;
+}
+
+/**
+ * Raised by providers for non-2xx API responses and missing configuration.
+ * Network failures and timeouts propagate as-is (Error / AbortError).
+ */
+export class VoiceProviderError extends Error {
+  constructor(
+    message: string,
+    readonly code: 'not_configured' | 'api_error',
+    readonly status?: number,
+    readonly statusText?: string,
+    readonly body?: string
+  ) {
+    super(message);
+    this.name = 'VoiceProviderError';
+  }
+}
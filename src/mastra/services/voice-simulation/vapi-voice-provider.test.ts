@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { VapiVoiceProvider } from './vapi-voice-provider';
+import { VoiceProviderError } from './types';
+import { VISHING_LIVE } from '../../constants';
+
+const BASE = 'https://api.vapi.ai';
+
+describe('VapiVoiceProvider', () => {
+  const originalFetch = global.fetch;
+  const originalEnv = process.env;
+
+  beforeEach(() => {
+    process.env = { ...originalEnv };
+    delete process.env.VAPI_API_KEY;
+    delete process.env.VAPI_ASSISTANT_ID;
+    global.fetch = vi.fn();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env = originalEnv;
+  });
+
+  it('requires both the API key and the assistant ID from env', () => {
+    expect(new VapiVoiceProvider().getConfigurationError()).toContain('VAPI_API_KEY');
+
+    process.env.VAPI_API_KEY = 'env-key';
+    expect(new VapiVoiceProvider().getConfigurationError()).toContain('VAPI_ASSISTANT_ID');
+
+    process.env.VAPI_ASSISTANT_ID = 'env-assistant';
+    const provider = new VapiVoiceProvider();
+    expect(provider.getConfigurationError()).toBeNull();
+    expect(provider.assistantId).toBe('env-assistant');
+  });
+
+  it('rejects with not_configured before calling the API', async () => {
+    const provider = new VapiVoiceProvider({ apiKey: 'key' });
+
+    await expect(provider.listPhoneNumbers()).rejects.toMatchObject({ code: 'not_configured' });
+    await expect(provider.createBrowserSession()).rejects.toBeInstanceOf(VoiceProviderError);
+    expect(global.fetch).not.toHaveBeenCalled();
+  });
+
+  it('places outbound calls with the scenario passed as assistant overrides', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ id: 'call-1', phoneCallProviderId: 'CA-1', status: 'queued' }),
+    } as Response);
+    const provider = new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' });
+
+    const result = await provider.startOutboundCall({
+      agentPhoneNumberId: 'pn-1',
+      toNumber: '+905551234567',
+      prompt: 'Scenario',
+      firstMessage: 'Hello',
+    });
+
+    expect(result).toEqual({ conversationId: 'call-1', callSid: 'CA-1' });
+    const [url, init] = vi.mocked(global.fetch).mock.calls[0];
+    expect(url).toBe(`${BASE}/call`);
+    expect((init?.headers as Record<string, string>).Authorization).toBe('Bearer key');
+    expect(JSON.parse(String(init?.body))).toEqual({
+      assistantId: 'asst-1',
+      phoneNumberId: 'pn-1',
+      customer: { number: '+905551234567' },
+      assistantOverrides: { firstMessage: 'Hello', variableValues: { scenarioPrompt: 'Scenario' } },
+    });
+  });
+
+  it('adds the live monitor function tool and its prompt instruction when configured', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ id: 'call-1', phoneCallProviderId: 'CA-1', status: 'queued' }),
+    } as Response);
+    const provider = new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' });
+
+    await provider.startOutboundCall({
+      agentPhoneNumberId: 'pn-1',
+      toNumber: '+905551234567',
+      prompt: 'Scenario',
+      firstMessage: 'Hello',
+      liveMonitor: { url: 'https://agent.example.com/vishing/conversations/live', toolToken: 'tok-1' },
+    });
+
+    const { assistantOverrides } = JSON.parse(String(vi.mocked(global.fetch).mock.calls[0][1]?.body));
+    expect(assistantOverrides).toEqual({
+      firstMessage: 'Hello',
+      variableValues: { scenarioPrompt: `Scenario\n\n${VISHING_LIVE.AGENT_TOOL_INSTRUCTION}` },
+      model: {
+        tools: [
+          {
+            type: 'function',
+            function: {
+              name: 'report_learner_turn',
+              description: expect.any(String),
+              parameters: {
+                type: 'object',
+                properties: { text: { type: 'string', description: expect.any(String) } },
+                required: ['text'],
+              },
+            },
+            server: {
+              url: 'https://agent.example.com/vishing/conversations/live',
+              headers: { 'X-VISHING-TOOL-TOKEN': 'tok-1' },
+            },
+          },
+        ],
+      },
+    });
+  });
+
+  it('throws VoiceProviderError with status and body for non-2xx responses', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: false,
+      status: 400,
+      statusText: 'Bad Request',
+      text: async () => 'customer.number must be a valid phone number',
+    } as Response);
+    const provider = new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' });
+
+    const error = await provider
+      .startOutboundCall({ agentPhoneNumberId: 'pn-1', toNumber: '+1555', prompt: 'p', firstMessage: 'f' })
+      .catch(e => e);
+
+    expect(error).toBeInstanceOf(VoiceProviderError);
+    expect(error).toMatchObject({ code: 'api_error', status: 400 });
+  });
+
+  it('opens browser sessions as websocket-transport calls', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ id: 'call-2', transport: { websocketCallUrl: 'wss://phone.vapi.ai/call-2/transport' } }),
+    } as Response);
+
+    const session = await new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' }).createBrowserSession();
+
+    expect(JSON.parse(String(vi.mocked(global.fetch).mock.calls[0][1]?.body))).toEqual({
+      assistantId: 'asst-1',
+      transport: { provider: 'vapi.websocket' },
+    });
+    expect(session).toEqual({
+      agentId: 'asst-1',
+      wsUrl: 'wss://phone.vapi.ai/call-2/transport',
+      signedUrl: 'wss://phone.vapi.ai/call-2/transport',
+    });
+  });
+
+  it('maps phone numbers, treating bring-your-own numbers as SIP trunks', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => [
+        { id: 'pn-1', number: '+15551234567', name: 'US Main', provider: 'twilio' },
+        { id: 'pn-2', number: '+15559876543', provider: 'byo-phone-number' },
+      ],
+    } as Response);
+
+    const numbers = await new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' }).listPhoneNumbers();
+
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe(`${BASE}/phone-number`);
+    expect(numbers).toEqual([
+      { phoneNumber: '+15551234567', phoneNumberId: 'pn-1', label: 'US Main', provider: 'twilio' },
+      { phoneNumber: '+15559876543', phoneNumberId: 'pn-2', label: 'Unlabeled', provider: 'sip_trunk' },
+    ]);
+  });
+
+  it('maps call transcripts to spoken turns with status and duration', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        id: 'call/1',
+        status: 'ended',
+        startedAt: '2026-03-01T10:00:00.000Z',
+        endedAt: '2026-03-01T10:00:42.000Z',
+        artifact: {
+          messages: [
+            { role: 'system', message: 'You are IT support.', secondsFromStart: 0 },
+            { role: 'bot', message: 'Hello, IT here.', secondsFromStart: 0.5 },
+            { role: 'tool_calls', secondsFromStart: 3 },
+            { role: 'user', message: ' Who is this? ', secondsFromStart: 5 },
+          ],
+        },
+      }),
+    } as Response);
+
+    const transcript = await new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' }).getConversationTranscript(
+      'call/1'
+    );
+
+    expect(vi.mocked(global.fetch).mock.calls[0][0]).toBe(`${BASE}/call/call%2F1`);
+    expect(transcript).toEqual({
+      conversationId: 'call/1',
+      status: 'done',
+      messages: [
+        { role: 'agent', text: 'Hello, IT here.', timestamp: 0.5 },
+        { role: 'user', text: 'Who is this?', timestamp: 5 },
+      ],
+      durationSecs: 42,
+    });
+  });
+
+  it('reports calls still ringing as initiated without a duration', async () => {
+    vi.mocked(global.fetch).mockResolvedValue({
+      ok: true,
+      json: async () => ({ id: 'call-3', status: 'ringing' }),
+    } as Response);
+
+    const transcript = await new VapiVoiceProvider({ apiKey: 'key', assistantId: 'asst-1' }).getConversationTranscript(
+      'call-3'
+    );
+
+    expect(transcript).toEqual({
+      conversationId: 'call-3',
+      status: 'initiated',
+      messages: [],
+      durationSecs: undefined,
+    });
+  });
+});
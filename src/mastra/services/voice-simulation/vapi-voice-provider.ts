@@ -0,0 +1,246 @@
+/**
+ * Vapi Voice Simulation Provider
+ *
+ * Vapi voice agents over Twilio/SIP numbers imported into Vapi. Like the ElevenLabs
+ * provider, one configured assistant (VAPI_ASSISTANT_ID) serves every scenario:
+ * the first message is overridden per call and the scenario prompt is passed as the
+ * `scenarioPrompt` assistant variable (see VAPI.PROMPT_VARIABLE). The live monitor
+ * webhook is added to the assistant's tools per call (see live-monitor.ts); Vapi wraps
+ * its calls in a tool-calls envelope that the live transcript route unwraps.
+ *
+ * API: https://api.vapi.ai
+ * - POST /call            (outbound phone call, or websocket transport for browser sessions)
+ * - GET  /phone-number
+ * - GET  /call/{callId}
+ */
+
+import { VAPI, VISHING_LIVE } from '../../constants';
+import { withRetry } from '../../utils/core/resilience-utils';
+import { withLiveMonitorInstruction } from './live-monitor';
+import {
+  VoiceProviderError,
+  type BrowserSession,
+  type LiveMonitorConfig,
+  type ConversationStatus,
+  type ConversationTranscript,
+  type OutboundCallRequest,
+  type OutboundCallResult,
+  type TranscriptMessage,
+  type VoicePhoneNumber,
+  type VoiceSimulationProvider,
+} from './types';
+
+/** Vapi call status → provider-neutral status; unknown values map to 'processing' */
+const CALL_STATUS_MAP: Record<string, ConversationStatus> = {
+  scheduled: 'initiated',
+  queued: 'initiated',
+  ringing: 'initiated',
+  'in-progress': 'in-progress',
+  forwarding: 'in-progress',
+  ended: 'done',
+};
+
+interface VapiCallMessage {
+  role?: string;
+  message?: string | null;
+  secondsFromStart?: number;
+}
+
+interface VapiCall {
+  id?: string;
+  status?: string;
+  phoneCallProviderId?: string;
+  startedAt?: string;
+  endedAt?: string;
+  messages?: VapiCallMessage[];
+  artifact?: { messages?: VapiCallMessage[] };
+  transport?: { websocketCallUrl?: string };
+}
+
+/** Function tool whose calls Vapi posts to the live transcript route (the call ID identifies the conversation) */
+function buildLiveMonitorTool(liveMonitor: LiveMonitorConfig) {
+  return {
+    type: 'function',
+    function: {
+      name: VISHING_LIVE.AGENT_TOOL_NAME,
+      description:
+        "Report the person's latest reply to the live monitor. Returns action 'continue' or 'reveal' with an instruction.",
+      parameters: {
+        type: 'object',
+        properties: { text: { type: 'string', description: "The person's latest reply, word for word" } },
+        required: ['text'],
+      },
+    },
+    server: { url: liveMonitor.url, headers: { [VISHING_LIVE.TOOL_TOKEN_HEADER]: liveMonitor.toolToken } },
+  };
+}
+
+export class VapiVoiceProvider implements VoiceSimulationProvider {
+  readonly name = 'vapi' as const;
+  readonly displayName = 'Vapi';
+  readonly timeoutMs = VAPI.API_TIMEOUT_MS;
+  readonly assistantId: string | undefined;
+  private readonly apiKey: string | undefined;
+
+  constructor(config: { apiKey?: string; assistantId?: string } = {}) {
+    this.apiKey = config.apiKey ?? process.env.VAPI_API_KEY;
+    this.assistantId = config.assistantId || process.env.VAPI_ASSISTANT_ID;
+  }
+
+  getConfigurationError(): string | null {
+    if (!this.apiKey) {
+      return 'Vapi API key is not configured. Please set VAPI_API_KEY environment variable.';
+    }
+    if (!this.assistantId) {
+      return 'Vapi assistant is not configured. Please set VAPI_ASSISTANT_ID environment variable.';
+    }
+    return null;
+  }
+
+  async startOutboundCall(request: OutboundCallRequest): Promise<OutboundCallResult> {
+    const { apiKey, assistantId } = this.requireConfiguration();
+    const { liveMonitor } = request;
+    const body = JSON.stringify({
+      assistantId,
+      phoneNumberId: request.agentPhoneNumberId,
+      customer: { number: request.toNumber },
+      assistantOverrides: {
+        firstMessage: request.firstMessage,
+        variableValues: {
+          [VAPI.PROMPT_VARIABLE]: liveMonitor ? withLiveMonitorInstruction(request.prompt) : request.prompt,
+        },
+        ...(liveMonitor && { model: { tools: [buildLiveMonitorTool(liveMonitor)] } }),
+      },
+    });
+
+    const response = await withRetry(
+      () => this.request(apiKey, VAPI.ENDPOINTS.CALL, { method: 'POST', body }),
+      'vapi_outbound_call'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = (await response.json()) as VapiCall;
+    return { conversationId: data.id ?? '', callSid: data.phoneCallProviderId ?? '' };
+  }
+
+  /**
+   * Creates a websocket-transport call for the assistant. The returned per-call URL is
+   * itself the credential, so it is exposed as both the session URL and the signed URL.
+   */
+  async createBrowserSession(): Promise<BrowserSession> {
+    const { apiKey, assistantId } = this.requireConfiguration();
+    const body = JSON.stringify({ assistantId, transport: { provider: 'vapi.websocket' } });
+
+    const response = await this.request(apiKey, VAPI.ENDPOINTS.CALL, { method: 'POST', body });
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = (await response.json()) as VapiCall;
+    const wsUrl = data.transport?.websocketCallUrl;
+    if (!wsUrl) {
+      throw new VoiceProviderError('Vapi did not return a websocket call URL', 'api_error', response.status);
+    }
+    return { agentId: assistantId, wsUrl, signedUrl: wsUrl };
+  }
+
+  async listPhoneNumbers(): Promise<VoicePhoneNumber[]> {
+    const { apiKey } = this.requireConfiguration();
+    const response = await withRetry(async () => {
+      const res = await this.request(apiKey, VAPI.ENDPOINTS.PHONE_NUMBERS, { method: 'GET' });
+      if (!res.ok && res.status >= 500) {
+        const text = await res.text().catch(() => '');
+        throw new Error(`Vapi API error ${res.status}: ${text.substring(0, 200)}`);
+      }
+      return res;
+    }, 'vapi_list_phone_numbers');
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = await response.json();
+    const phoneNumbers: Record<string, unknown>[] = Array.isArray(data) ? data : [];
+
+    // Bring-your-own numbers arrive over the customer's SIP trunk; the rest are carrier numbers
+    return phoneNumbers.map(pn => ({
+      phoneNumber: String(pn.number ?? ''),
+      phoneNumberId: String(pn.id ?? ''),
+      label: String(pn.name ?? 'Unlabeled'),
+      provider: pn.provider === 'byo-phone-number' ? 'sip_trunk' : 'twilio',
+    }));
+  }
+
+  async getConversationTranscript(conversationId: string): Promise<ConversationTranscript> {
+    const { apiKey } = this.requireConfiguration();
+    const response = await withRetry(
+      () =>
+        this.request(apiKey, `${VAPI.ENDPOINTS.CALL}/${encodeURIComponent(conversationId)}`, {
+          method: 'GET',
+        }),
+      'vapi_get_call'
+    );
+    if (!response.ok) throw await this.toApiError(response);
+
+    const data = (await response.json()) as VapiCall;
+
+    // System prompt and tool-call entries are not part of the spoken conversation
+    const messages: TranscriptMessage[] = (data.artifact?.messages ?? data.messages ?? [])
+      .filter(turn => (turn.role === 'bot' || turn.role === 'user') && typeof turn.message === 'string')
+      .filter(turn => (turn.message as string).trim().length > 0)
+      .map(turn => ({
+        role: turn.role === 'user' ? 'user' : 'agent',
+        text: (turn.message as string).trim(),
+        timestamp: turn.secondsFromStart,
+      }));
+
+    const startedAt = data.startedAt ? Date.parse(data.startedAt) : NaN;
+    const endedAt = data.endedAt ? Date.parse(data.endedAt) : NaN;
+
+    return {
+      conversationId,
+      status: CALL_STATUS_MAP[data.status ?? ''] ?? 'processing',
+      messages,
+      durationSecs: Number.isFinite(endedAt - startedAt) ? Math.round((endedAt - startedAt) / 1000) : undefined,
+    };
+  }
+
+  // ─── Helpers ───
+
+  /** Checked before retries so missing credentials fail fast */
+  private requireConfiguration(): { apiKey: string; assistantId: string } {
+    const configError = this.getConfigurationError();
+    if (configError || !this.apiKey || !this.assistantId) {
+      throw new VoiceProviderError(configError as string, 'not_configured');
+    }
+    return { apiKey: this.apiKey, assistantId: this.assistantId };
+  }
+
+  private async request(
+    apiKey: string,
+    path: string,
+    init: { method: 'GET' | 'POST'; body?: string }
+  ): Promise<Response> {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), this.timeoutMs);
+    try {
+      return await fetch(`${VAPI.API_BASE_URL}${path}`, {
+        method: init.method,
+        headers: {
+          'Content-Type': 'application/json',
+          Authorization: `Bearer ${apiKey}`,
+        },
+        body: init.body,
+        signal: controller.signal,
+      });
+    } finally {
+      clearTimeout(timeoutId);
+    }
+  }
+
+  private async toApiError(response: Response): Promise<VoiceProviderError> {
+    const body = await response.text().catch(() => 'Unable to read error body');
+    return new VoiceProviderError(
+      `Vapi API returned ${response.status}: ${response.statusText}`,
+      'api_error',
+      response.status,
+      response.statusText,
+      body.substring(0, 500)
+    );
+  }
+}
@@ -2,11 +2,11 @@
  * Code Review Check Tool – input and output schemas
  *
  * Input: issueType, originalCode, fixedCode, language, outputLanguage, modelProvider, model.
- * Output: success, data (isCorrect, severity, feedback, …), error.
+ * Output: success, data (isCorrect, severity, feedback, …, staticAnalysis), error.
  */
 
 import { z } from 'zod';
-import { MODEL_PROVIDERS } from '../../constants';
+import { CODE_REVIEW, MODEL_PROVIDERS } from '../../constants';
 
 export const CodeReviewCheckSchema = z.object({
   issueType: z
@@ -39,6 +39,23 @@ export const CodeReviewCheckSchema = z.object({
     .describe('Model name override'),
 });
 
+const PrecheckFindingSchema = z.object({
+  ruleId: z.string(),
+  line: z.number().int().min(1).describe('1-based line in the submitted code'),
+  evidence: z.string().describe('The matching line, comments removed'),
+  message: z.string(),
+});
+
+export const StaticAnalysisSchema = z.object({
+  language: z.enum(CODE_REVIEW.PRECHECK_LANGUAGES),
+  category: z.enum(CODE_REVIEW.PRECHECK_CATEGORIES).nullable().describe('Rule category resolved from issueType'),
+  originalFindings: z.array(PrecheckFindingSchema).describe('Vulnerable pattern in the original code'),
+  findings: z.array(PrecheckFindingSchema).describe('Vulnerable pattern still present in the fix'),
+  unchanged: z.boolean().describe('Fix differs from the original only in comments / whitespace'),
+  cap: z.enum(['partial', 'incorrect']).nullable().describe('Highest severity the fix can be given'),
+  capped: z.boolean().describe('Whether the AI verdict was lowered by the cap'),
+});
+
 export const CodeReviewCheckOutputSchema = z.object({
   success: z.boolean(),
   data: z.object({
@@ -48,9 +65,13 @@ export const CodeReviewCheckOutputSchema = z.object({
     explanation: z.string().describe('Detailed explanation why correct/incorrect (in requested output language)'),
     points: z.number().min(0).max(25).describe('Points earned (0-25)'),
     hint: z.string().optional().describe('Solution-oriented hint for next attempt if incorrect (in requested output language)'),
+    staticAnalysis: StaticAnalysisSchema.optional().describe(
+      'Rule-based pre-check evidence, present when it found something'
+    ),
   }),
   error: z.string().optional(),
 });
 
 export type CodeReviewCheckInput = z.infer<typeof CodeReviewCheckSchema>;
 export type CodeReviewCheckOutput = z.infer<typeof CodeReviewCheckOutputSchema>;
+export type StaticAnalysis = z.infer<typeof StaticAnalysisSchema>;
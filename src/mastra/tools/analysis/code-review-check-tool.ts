@@ -14,13 +14,19 @@ import { getLogger } from '../../utils/core/logger';
 import { errorService } from '../../services/error-service';
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { withRetry } from '../../utils/core/resilience-utils';
-import { CodeReviewCheckSchema, CodeReviewCheckOutputSchema } from './code-review-check-schemas';
+import { CodeReviewCheckSchema, CodeReviewCheckOutputSchema, type StaticAnalysis } from './code-review-check-schemas';
 import { CODE_REVIEW_PARAMS } from '../../utils/config/llm-generation-params';
+import { CODE_REVIEW } from '../../constants';
+import { runStaticPrecheck, stripComments, type StaticPrecheckResult } from './utils/static-code-precheck';
 
 export type { CodeReviewCheckInput, CodeReviewCheckOutput } from './code-review-check-schemas';
 
 const logger = getLogger('CodeReviewCheckTool');
 
+type Severity = 'correct' | 'partial' | 'incorrect';
+
+const SEVERITY_RANK: Record<Severity, number> = { incorrect: 0, partial: 1, correct: 2 };
+
 export const codeReviewCheckTool = createTool({
   id: 'code_review_check',
   description: 'Validate if developer correctly fixed the vulnerable code by having AI review the fix',
@@ -44,8 +50,18 @@ export const codeReviewCheckTool = createTool({
     logger.info('Code Review Check', { issueType, language });
 
     try {
+      // Rule-based pre-check runs first: its evidence goes into the prompt and caps the verdict
+      const precheck = runStaticPrecheck({ issueType, language, originalCode, fixedCode });
+
       // Create validation prompt
-      const validationPrompt = buildCodeReviewCheckPrompt(issueType, originalCode, fixedCode, language, outputLanguage);
+      const validationPrompt = buildCodeReviewCheckPrompt(
+        issueType,
+        originalCode,
+        fixedCode,
+        language,
+        outputLanguage,
+        precheck
+      );
 
       // Call AI for validation with automatic retry
       const response = await withRetry(
@@ -74,9 +90,6 @@ Return ONLY valid JSON - NO markdown, NO backticks, NO formatting. Start directl
       const cleanedResponse = cleanResponse(response.text, 'code-review-check');
       const result = JSON.parse(cleanedResponse);
 
-      // Determine points based on correctness
-      const points = result.isCorrect ? 25 : result.severity === 'partial' ? 10 : 0;
-
       const parsedSeverity = result.severity || (result.isCorrect ? 'correct' : 'incorrect');
       if (!['correct', 'partial', 'incorrect'].includes(parsedSeverity)) {
         const errorInfo = errorService.validation(`Invalid severity: ${parsedSeverity}`, { severity: parsedSeverity });
@@ -84,15 +97,40 @@ Return ONLY valid JSON - NO markdown, NO backticks, NO formatting. Start directl
         throw new Error(errorInfo.message);
       }
 
+      // The vulnerable pattern still in the fix (or a comment-only change) limits the verdict
+      const cap = precheck?.cap ?? null;
+      const capped = cap !== null && SEVERITY_RANK[parsedSeverity as Severity] > SEVERITY_RANK[cap];
+      const severity: Severity = capped && cap ? cap : parsedSeverity;
+      const isCorrect = cap ? false : result.isCorrect;
+      if (capped) {
+        logger.info('Code review verdict capped by static pre-check', {
+          issueType,
+          language,
+          aiSeverity: parsedSeverity,
+          cap,
+          findings: precheck?.fixedFindings.map(finding => finding.ruleId),
+        });
+      }
+
+      // Determine points based on correctness
+      const points = isCorrect
+        ? CODE_REVIEW.POINTS.correct
+        : severity === 'partial'
+          ? CODE_REVIEW.POINTS.partial
+          : CODE_REVIEW.POINTS.incorrect;
+
+      const staticAnalysis = toStaticAnalysis(precheck, capped);
+
       return {
         success: true,
         data: {
-          isCorrect: result.isCorrect,
-          severity: parsedSeverity as 'correct' | 'partial' | 'incorrect',
+          isCorrect,
+          severity,
           feedback: result.feedback,
           explanation: result.explanation,
           points: points,
           hint: result.hint || result.nextStep || '', // Always return hint, empty string if not provided
+          ...(staticAnalysis && { staticAnalysis }),
         },
       };
     } catch (error) {
@@ -123,32 +161,78 @@ Return ONLY valid JSON - NO markdown, NO backticks, NO formatting. Start directl
 });
 
 /**
- * Build the prompt for AI to validate the developer's code fix
+ * Response evidence — only when the pre-check found the pattern or limited the verdict
+ */
+function toStaticAnalysis(precheck: StaticPrecheckResult | null, capped: boolean): StaticAnalysis | undefined {
+  if (!precheck || (!precheck.cap && precheck.originalFindings.length === 0)) return undefined;
+  return {
+    language: precheck.language,
+    category: precheck.category,
+    originalFindings: precheck.originalFindings,
+    findings: precheck.fixedFindings,
+    unchanged: precheck.unchanged,
+    cap: precheck.cap,
+    capped,
+  };
+}
+
+/**
+ * Pre-check section of the prompt: rule-based evidence with line numbers
+ */
+function buildPrecheckSection(precheck: StaticPrecheckResult | null): string {
+  if (!precheck) return '';
+
+  const lines: string[] = [];
+  if (precheck.unchanged) {
+    lines.push('- The fix is identical to the original code apart from comments and whitespace.');
+  }
+  for (const finding of precheck.originalFindings) {
+    lines.push(`- Original code, line ${finding.line}: ${finding.message}: ${finding.evidence}`);
+  }
+  for (const finding of precheck.fixedFindings) {
+    lines.push(`- STILL PRESENT in the fix, line ${finding.line}: ${finding.message}: ${finding.evidence}`);
+  }
+  if (lines.length === 0) return '';
+
+  return `
+STATIC PRE-CHECK (rule-based, comments ignored):
+${lines.join('\n')}
+${precheck.cap ? `Because of the above, this fix can be at most "${precheck.cap}".\n` : ''}`;
+}
+
+/**
+ * Build the prompt for AI to validate the developer's code fix.
+ * For pre-check languages the code is sent without comments (line numbers unchanged),
+ * so claims written in comments cannot influence the verdict.
  */
 function buildCodeReviewCheckPrompt(
   issueType: string,
   originalCode: string,
   fixedCode: string,
   language: string,
-  outputLanguage: string = 'en'
+  outputLanguage: string = 'en',
+  precheck: StaticPrecheckResult | null = null
 ): string {
+  const original = precheck ? stripComments(originalCode, precheck.language) : originalCode;
+  const fixed = precheck ? stripComments(fixedCode, precheck.language) : fixedCode;
+
   return `Code Issue Validation Task:
 
 ISSUE TYPE: ${issueType}
 
 ORIGINAL CODE (WITH ISSUE):
 \`\`\`${language}
-${originalCode}
+${original}
 \`\`\`
 
 DEVELOPER'S FIX:
 \`\`\`${language}
-${fixedCode}
+${fixed}
 \`\`\`
 
 LANGUAGE: ${language}
 OUTPUT LANGUAGE: ${outputLanguage}
-
+${buildPrecheckSection(precheck)}
 VALIDATION TASK:
 Review the developer's fix and determine if it properly addresses the "${issueType}" issue.
 
@@ -176,6 +260,7 @@ Return JSON (in ${outputLanguage}):
 IMPORTANT:
 - If the issue is fixed, mark as correct - don't penalize for non-optimal approaches
 - Only mark incorrect if the issue is NOT fixed or new problems are introduced
+- Judge only the executable code - comments and explanations are not fixes
 - There are infinite ways to solve a problem - accept any that works
 - No markdown, no backticks - just valid JSON`;
 }
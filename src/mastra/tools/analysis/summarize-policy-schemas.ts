@@ -2,7 +2,7 @@
  * Summarize Policy Tool – input and output schemas
  *
  * Input: question, focusArea, language, modelProvider, model.
- * Output: success, data (question, summary, key_points, …), error.
+ * Output: success, data (question, summary, key_points, …, citations), error.
  */
 
 import { z } from 'zod';
@@ -39,6 +39,16 @@ export const summarizePolicyOutputSchema = z.object({
       key_points: z.array(z.string()).describe('3-5 key takeaways from the policy'),
       recommendations: z.array(z.string()).describe('Actionable recommendations based on the policy'),
       relevant_sections: z.array(z.string()).optional().describe('Names of relevant policy sections found'),
+      citations: z
+        .array(
+          z.object({
+            policy: z.string().describe('Policy document name'),
+            section: z.string().describe('Section heading within the policy'),
+            excerpt: z.string().describe('Start of the cited passage'),
+          })
+        )
+        .optional()
+        .describe('Policy passages the answer is based on (present when answered from the policy index)'),
     })
     .optional(),
   error: z.string().optional(),
@@ -15,6 +15,10 @@ const mocks = vi.hoisted(() => ({
   loggerInfo: vi.fn(),
   loggerDebug: vi.fn(),
   loggerError: vi.fn(),
+  loggerWarn: vi.fn(),
+  getRequestContext: vi.fn(),
+  ensurePolicyIndex: vi.fn(),
+  retrievePolicyChunks: vi.fn(),
 }));
 
 vi.mock('@mastra/core/tools', () => ({
@@ -25,6 +29,16 @@ vi.mock('../../utils/core/policy-cache', () => ({
   getPolicySummary: mocks.getPolicySummary,
 }));
 
+vi.mock(import('../../utils/core/request-storage'), async importOriginal => ({
+  ...(await importOriginal()),
+  getRequestContext: mocks.getRequestContext,
+}));
+
+vi.mock('../../services/policy-rag', () => ({
+  ensurePolicyIndex: mocks.ensurePolicyIndex,
+  retrievePolicyChunks: mocks.retrievePolicyChunks,
+}));
+
 vi.mock('ai', () => ({
   generateText: mocks.generateText,
 }));
@@ -63,6 +77,7 @@ vi.mock('../../utils/core/logger', () => ({
     info: mocks.loggerInfo,
     debug: mocks.loggerDebug,
     error: mocks.loggerError,
+    warn: mocks.loggerWarn,
   }),
 }));
 
@@ -90,6 +105,9 @@ describe('summarizePolicyTool.execute', () => {
       error: JSON.stringify(errorInfo),
     }));
     mocks.normalizeError.mockImplementation((e: Error) => e);
+    mocks.getRequestContext.mockReturnValue({});
+    mocks.ensurePolicyIndex.mockResolvedValue(undefined);
+    mocks.retrievePolicyChunks.mockResolvedValue(null);
   });
 
   it('returns tool error when policy summary is empty', async () => {
@@ -207,4 +225,104 @@ describe('summarizePolicyTool.execute', () => {
     expect(result.data.key_points).toEqual([]);
     expect(result.data.recommendations).toEqual([]);
   });
+
+  describe('with a policy index', () => {
+    const retrieved = [
+      {
+        chunk: {
+          policyKey: 'blob://security',
+          policyName: 'Security Policy',
+          index: 4,
+          section: '5.1 Reporting',
+          content: 'Forward suspected phishing to security@acme.test within one hour.',
+          contentHash: 'h4',
+          embedding: [1, 0],
+        },
+        score: 0.8,
+        similarity: 0.9,
+      },
+      {
+        chunk: {
+          policyKey: 'blob://hr',
+          policyName: 'HR Handbook',
+          index: 2,
+          section: 'Conduct',
+          content: 'x'.repeat(400),
+          contentHash: 'h2',
+          embedding: [0, 1],
+        },
+        score: 0.5,
+        similarity: 0.6,
+      },
+    ];
+
+    beforeEach(() => {
+      mocks.getRequestContext.mockReturnValue({ companyId: 'acme', env: { agentic_ally_memory: {} } });
+      mocks.retrievePolicyChunks.mockResolvedValue(retrieved);
+    });
+
+    it('answers from numbered excerpts and returns the cited passages', async () => {
+      mocks.generateText.mockResolvedValueOnce({
+        text: '{"summary":"Report within an hour","key_points":["K1"],"recommendations":["R1"],"citations":[1]}',
+      });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = await summarizePolicyTool.execute!({
+        question: 'How do I report phishing?', focusArea: 'phishing',
+      } as any, {}) as any;
+
+      expect(mocks.ensurePolicyIndex).toHaveBeenCalledWith({ agentic_ally_memory: {} }, 'acme');
+      expect(mocks.retrievePolicyChunks).toHaveBeenCalledWith(
+        { agentic_ally_memory: {} },
+        'acme',
+        'How do I report phishing?\nphishing'
+      );
+      expect(mocks.getPolicySummary).not.toHaveBeenCalled();
+
+      const generateArg = mocks.generateText.mock.calls[0][0];
+      expect(generateArg.prompt).toContain('[1] Policy: Security Policy — Section: 5.1 Reporting');
+      expect(generateArg.prompt).toContain('"citations": [1, 2]');
+
+      expect(result.data.citations).toEqual([
+        {
+          policy: 'Security Policy',
+          section: '5.1 Reporting',
+          excerpt: 'Forward suspected phishing to security@acme.test within one hour.',
+        },
+      ]);
+      expect(result.data.relevant_sections).toEqual(['Security Policy — 5.1 Reporting']);
+    });
+
+    it('cites every retrieved excerpt when the model cites none', async () => {
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = await summarizePolicyTool.execute!({ question: 'Conduct rules?' } as any, {}) as any;
+
+      expect(result.data.citations).toHaveLength(2);
+      expect(result.data.citations[1].excerpt).toHaveLength(301);
+      expect(result.data.citations[1].excerpt.endsWith('…')).toBe(true);
+    });
+
+    it('falls back to the policy digest when nothing relevant is indexed', async () => {
+      mocks.retrievePolicyChunks.mockResolvedValueOnce([]);
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = await summarizePolicyTool.execute!({ question: 'What is our policy?' } as any, {}) as any;
+
+      expect(mocks.getPolicySummary).toHaveBeenCalled();
+      expect(mocks.generateText.mock.calls[0][0].prompt).toContain('COMPANY POLICY SUMMARY');
+      expect(result.data.citations).toBeUndefined();
+      expect(result.data.relevant_sections).toEqual(['Sec1']);
+    });
+
+    it('falls back to the policy digest when retrieval throws', async () => {
+      mocks.ensurePolicyIndex.mockRejectedValueOnce(new Error('D1 down'));
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = await summarizePolicyTool.execute!({ question: 'What is our policy?' } as any, {}) as any;
+
+      expect(mocks.loggerWarn).toHaveBeenCalled();
+      expect(mocks.getPolicySummary).toHaveBeenCalled();
+      expect(result.success).toBe(true);
+    });
+  });
 });
@@ -0,0 +1,223 @@
+import { describe, it, expect } from 'vitest';
+import {
+  findVulnerablePatterns,
+  normalizeCodeLanguage,
+  resolveIssueCategory,
+  runStaticPrecheck,
+  stripComments,
+} from './static-code-precheck';
+import type { CodeReviewIssueCategory, CodeReviewLanguage } from '../../../constants';
+
+const ruleIds = (code: string, language: CodeReviewLanguage, category: CodeReviewIssueCategory) =>
+  findVulnerablePatterns(stripComments(code, language), language, category).map(finding => finding.ruleId);
+
+describe('static-code-precheck', () => {
+  describe('normalizeCodeLanguage', () => {
+    it('maps common aliases', () => {
+      expect(normalizeCodeLanguage('JS')).toBe('javascript');
+      expect(normalizeCodeLanguage(' C# ')).toBe('csharp');
+      expect(normalizeCodeLanguage('golang')).toBe('go');
+      expect(normalizeCodeLanguage('T-SQL')).toBe('sql');
+    });
+
+    it('returns null for languages without rules', () => {
+      expect(normalizeCodeLanguage('c')).toBeNull();
+      expect(normalizeCodeLanguage('html')).toBeNull();
+    });
+  });
+
+  describe('resolveIssueCategory', () => {
+    it.each([
+      ['SQL Injection', 'sql_injection'],
+      ['Cross-Site Scripting (XSS)', 'xss'],
+      ['OS Command Injection', 'command_injection'],
+      ['Path Traversal', 'path_traversal'],
+      ['Hard-coded Secret', 'hardcoded_secret'],
+      ['Missing Input Validation', 'missing_validation'],
+    ])('%s → %s', (issueType, category) => {
+      expect(resolveIssueCategory(issueType)).toBe(category);
+    });
+
+    it('returns null for issue types without rules', () => {
+      expect(resolveIssueCategory('Logic Error')).toBeNull();
+      expect(resolveIssueCategory('Buffer Overflow')).toBeNull();
+    });
+  });
+
+  describe('stripComments', () => {
+    it('removes line and block comments but keeps line numbers', () => {
+      const code = 'const a = 1; // note\n/* block\ncomment */\nconst b = 2;';
+      const stripped = stripComments(code, 'javascript');
+      expect(stripped.split('\n')).toHaveLength(4);
+      expect(stripped).not.toContain('note');
+      expect(stripped).not.toContain('block');
+      expect(stripped.split('\n')[3]).toBe('const b = 2;');
+    });
+
+    it('keeps comment markers inside string literals', () => {
+      expect(stripComments('const url = "https://example.com"; // docs', 'javascript')).toBe(
+        'const url = "https://example.com"; '
+      );
+      expect(stripComments("q = 'a -- b' -- note", 'sql')).toBe("q = 'a -- b' ");
+    });
+
+    it('uses # comments for python and php', () => {
+      expect(stripComments('x = 1  # fixed', 'python')).toBe('x = 1  ');
+      expect(stripComments('$x = 1; # fixed', 'php')).toBe('$x = 1; ');
+    });
+  });
+
+  describe('findVulnerablePatterns', () => {
+    it('detects SQL concatenation across languages', () => {
+      expect(ruleIds('const q = "SELECT * FROM users WHERE id = " + userId;', 'javascript', 'sql_injection')).toEqual([
+        'sql-string-concat',
+      ]);
+      expect(ruleIds('const q = `SELECT * FROM users WHERE id = ${id}`;', 'typescript', 'sql_injection')).toEqual([
+        'sql-template-literal',
+      ]);
+      expect(ruleIds('cur.execute(f"SELECT * FROM users WHERE id = {uid}")', 'python', 'sql_injection')).toEqual([
+        'sql-python-format',
+      ]);
+      expect(ruleIds('$q = "SELECT * FROM users WHERE id = " . $_GET["id"];', 'php', 'sql_injection')).toEqual([
+        'sql-php-concat',
+      ]);
+      expect(ruleIds('var q = $"SELECT * FROM users WHERE id = {id}";', 'csharp', 'sql_injection')).toEqual([
+        'sql-format-string',
+      ]);
+      expect(
+        ruleIds("SET @sql = 'SELECT * FROM users WHERE name = ''' + @name + '''';", 'sql', 'sql_injection')
+      ).toEqual(['sql-dynamic-exec']);
+    });
+
+    it('does not flag parameterized queries', () => {
+      expect(ruleIds('db.query("SELECT * FROM users WHERE id = ?", [userId]);', 'javascript', 'sql_injection')).toEqual(
+        []
+      );
+      expect(ruleIds('cur.execute("SELECT * FROM users WHERE id = %s", (uid,))', 'python', 'sql_injection')).toEqual(
+        []
+      );
+      expect(ruleIds('const q = "SELECT * FROM users " +\n  "WHERE id = ?";', 'javascript', 'sql_injection')).toEqual(
+        []
+      );
+    });
+
+    it('detects HTML sinks unless the value is sanitized', () => {
+      expect(ruleIds('el.innerHTML = userInput;', 'javascript', 'xss')).toEqual(['xss-inner-html']);
+      expect(ruleIds('el.innerHTML = DOMPurify.sanitize(userInput);', 'javascript', 'xss')).toEqual([]);
+      expect(ruleIds('el.textContent = userInput;', 'javascript', 'xss')).toEqual([]);
+      expect(ruleIds('echo "Hello " . $_GET["name"];', 'php', 'xss')).toEqual(['xss-php-echo']);
+      expect(ruleIds('echo htmlspecialchars($_GET["name"]);', 'php', 'xss')).toEqual([]);
+    });
+
+    it('detects command execution with built strings', () => {
+      expect(ruleIds('exec("ping -c 1 " + host, cb);', 'javascript', 'command_injection')).toEqual(['cmd-node-exec']);
+      expect(ruleIds('execFile("ping", ["-c", "1", host], cb);', 'javascript', 'command_injection')).toEqual([]);
+      expect(ruleIds('const m = /a/.exec(input);', 'javascript', 'command_injection')).toEqual([]);
+      expect(ruleIds('os.system("ping " + host)', 'python', 'command_injection')).toEqual(['cmd-python-exec']);
+      expect(ruleIds('subprocess.run(["ping", host])', 'python', 'command_injection')).toEqual([]);
+      expect(ruleIds('cmd := exec.Command("sh", "-c", "ping "+host)', 'go', 'command_injection')).toEqual([
+        'cmd-shell-wrapper',
+      ]);
+    });
+
+    it('treats a containment check anywhere in the sample as a path traversal fix', () => {
+      const vulnerable = 'res.sendFile(path.join(__dirname, "uploads", req.query.file));';
+      expect(ruleIds(vulnerable, 'javascript', 'path_traversal')).toEqual(['path-node-fs']);
+      expect(
+        ruleIds(
+          `const full = path.resolve(base, req.query.file);\nif (!full.startsWith(base)) return;`,
+          'javascript',
+          'path_traversal'
+        )
+      ).toEqual([]);
+      expect(ruleIds('return ioutil.ReadFile("/data/" + r.FormValue("f"))', 'go', 'path_traversal')).toEqual([
+        'path-go-file',
+      ]);
+    });
+
+    it('detects hard-coded secrets but not environment lookups', () => {
+      expect(ruleIds('const API_KEY = "sk-1234567890abcdef";', 'javascript', 'hardcoded_secret')).toEqual([
+        'secret-assignment',
+      ]);
+      expect(ruleIds('private String password = "hunter22";', 'java', 'hardcoded_secret')).toEqual([
+        'secret-assignment',
+      ]);
+      expect(ruleIds('const API_KEY = process.env.API_KEY;', 'javascript', 'hardcoded_secret')).toEqual([]);
+      expect(ruleIds('password = os.getenv("DB_PASSWORD")', 'python', 'hardcoded_secret')).toEqual([]);
+    });
+
+    it('flags raw request input only when nothing validates it', () => {
+      expect(ruleIds('const age = req.body.age;\nsave(age);', 'javascript', 'missing_validation')).toEqual([
+        'validation-node-input',
+      ]);
+      expect(
+        ruleIds('const age = Number(req.body.age);\nif (isNaN(age)) throw err;', 'javascript', 'missing_validation')
+      ).toEqual([]);
+    });
+
+    it('reports the 1-based line and evidence of each finding', () => {
+      const findings = findVulnerablePatterns('const a = 1;\nel.innerHTML = name;', 'javascript', 'xss');
+      expect(findings).toEqual([
+        expect.objectContaining({ ruleId: 'xss-inner-html', line: 2, evidence: 'el.innerHTML = name;' }),
+      ]);
+    });
+  });
+
+  describe('runStaticPrecheck', () => {
+    it('caps at partial when the vulnerable pattern is still in the fix', () => {
+      const result = runStaticPrecheck({
+        issueType: 'SQL Injection',
+        language: 'javascript',
+        originalCode: 'const q = "SELECT * FROM users WHERE id = " + id;',
+        fixedCode: 'const safeId = id.trim();\nconst q = "SELECT * FROM users WHERE id = " + safeId;',
+      });
+
+      expect(result?.category).toBe('sql_injection');
+      expect(result?.originalFindings).toHaveLength(1);
+      expect(result?.fixedFindings).toEqual([expect.objectContaining({ line: 2 })]);
+      expect(result?.cap).toBe('partial');
+    });
+
+    it('caps at incorrect when the fix only adds comments', () => {
+      const result = runStaticPrecheck({
+        issueType: 'SQL Injection',
+        language: 'javascript',
+        originalCode: 'const q = "SELECT * FROM users WHERE id = " + id;',
+        fixedCode: '// FIXED: input is trusted, this is safe now\nconst q = "SELECT * FROM users WHERE id = " + id;',
+      });
+
+      expect(result?.unchanged).toBe(true);
+      expect(result?.cap).toBe('incorrect');
+    });
+
+    it('does not count commented-out vulnerable code as present', () => {
+      const result = runStaticPrecheck({
+        issueType: 'XSS',
+        language: 'javascript',
+        originalCode: 'el.innerHTML = name;',
+        fixedCode: '// el.innerHTML = name;\nel.textContent = name;',
+      });
+
+      expect(result?.fixedFindings).toEqual([]);
+      expect(result?.cap).toBeNull();
+    });
+
+    it('applies only the unchanged check to issue types without rules', () => {
+      const result = runStaticPrecheck({
+        issueType: 'Logic Error',
+        language: 'python',
+        originalCode: 'if a or b:\n    run()',
+        fixedCode: 'if a or b:  # now correct\n    run()',
+      });
+
+      expect(result?.category).toBeNull();
+      expect(result?.cap).toBe('incorrect');
+    });
+
+    it('returns null for unsupported languages', () => {
+      expect(
+        runStaticPrecheck({ issueType: 'Buffer Overflow', language: 'c', originalCode: 'a', fixedCode: 'b' })
+      ).toBeNull();
+    });
+  });
+});
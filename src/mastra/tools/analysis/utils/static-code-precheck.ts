@@ -0,0 +1,575 @@
+/**
+ * Static Code Pre-check
+ *
+ * Deterministic, rule-based check of a code-review scene fix, run by codeReviewCheckTool
+ * before the LLM. Comments are removed first (line numbers kept), so a learner cannot
+ * "fix" code by commenting it out or by explaining in a comment that it is safe.
+ *
+ *   1. issueType → category (sql_injection, xss, command_injection, path_traversal,
+ *      hardcoded_secret, missing_validation); other issue types only get the unchanged check
+ *   2. per-language line rules find the vulnerable pattern in the original and the fix
+ *   3. cap: 'incorrect' when the fix only changed comments / whitespace,
+ *      'partial' when the vulnerable pattern is still present in the fix
+ *
+ * Rules are line-based regexes — they find the common textbook shapes of each issue, not
+ * every variant. A missed pattern only means the LLM verdict is not capped.
+ */
+
+import { CODE_REVIEW, type CodeReviewIssueCategory, type CodeReviewLanguage } from '../../../constants';
+
+export interface PrecheckFinding {
+  ruleId: string;
+  /** 1-based line in the submitted code */
+  line: number;
+  evidence: string;
+  message: string;
+}
+
+export type PrecheckCap = 'partial' | 'incorrect';
+
+export interface StaticPrecheckResult {
+  language: CodeReviewLanguage;
+  /** null when the issue type has no rules (only the unchanged check applies) */
+  category: CodeReviewIssueCategory | null;
+  originalFindings: PrecheckFinding[];
+  /** Vulnerable pattern still present in the fix */
+  fixedFindings: PrecheckFinding[];
+  /** Fix equals the original once comments and whitespace are ignored */
+  unchanged: boolean;
+  /** Highest severity the fix can be given, null when nothing limits it */
+  cap: PrecheckCap | null;
+}
+
+export interface StaticPrecheckInput {
+  issueType: string;
+  language: string;
+  originalCode: string;
+  fixedCode: string;
+}
+
+interface PrecheckRule {
+  id: string;
+  category: CodeReviewIssueCategory;
+  languages: readonly CodeReviewLanguage[];
+  /** Matched against each comment-free line */
+  pattern: RegExp;
+  /** Mitigation on the same line (sanitizer, escaping) */
+  safeLine?: RegExp;
+  /** Mitigation anywhere in the sample (containment check, validation) */
+  safeCode?: RegExp;
+  message: string;
+}
+
+interface CommentSyntax {
+  line: readonly string[];
+  block: boolean;
+  /** Backtick strings (JS/TS template literals, Go raw strings, PHP shell exec) */
+  backtick: boolean;
+  tripleQuote: boolean;
+}
+
+const COMMENT_SYNTAX: Record<CodeReviewLanguage, CommentSyntax> = {
+  javascript: { line: ['//'], block: true, backtick: true, tripleQuote: false },
+  typescript: { line: ['//'], block: true, backtick: true, tripleQuote: false },
+  python: { line: ['#'], block: false, backtick: false, tripleQuote: true },
+  java: { line: ['//'], block: true, backtick: false, tripleQuote: false },
+  php: { line: ['//', '#'], block: true, backtick: true, tripleQuote: false },
+  csharp: { line: ['//'], block: true, backtick: false, tripleQuote: false },
+  go: { line: ['//'], block: true, backtick: true, tripleQuote: false },
+  sql: { line: ['--'], block: true, backtick: false, tripleQuote: false },
+};
+
+const LANGUAGE_ALIASES: Record<string, CodeReviewLanguage> = {
+  javascript: 'javascript',
+  js: 'javascript',
+  jsx: 'javascript',
+  node: 'javascript',
+  nodejs: 'javascript',
+  'node.js': 'javascript',
+  typescript: 'typescript',
+  ts: 'typescript',
+  tsx: 'typescript',
+  python: 'python',
+  python3: 'python',
+  py: 'python',
+  java: 'java',
+  php: 'php',
+  'c#': 'csharp',
+  csharp: 'csharp',
+  'c-sharp': 'csharp',
+  cs: 'csharp',
+  dotnet: 'csharp',
+  '.net': 'csharp',
+  go: 'go',
+  golang: 'go',
+  sql: 'sql',
+  tsql: 'sql',
+  't-sql': 'sql',
+  plsql: 'sql',
+  'pl/sql': 'sql',
+  mysql: 'sql',
+  postgresql: 'sql',
+  postgres: 'sql',
+  sqlite: 'sql',
+};
+
+/** First match wins — more specific issue types come first */
+const ISSUE_CATEGORY_PATTERNS: ReadonlyArray<[CodeReviewIssueCategory, RegExp]> = [
+  ['sql_injection', /\bsql\s*injection\b|\bsqli\b|\bsql\b/i],
+  ['xss', /\bxss\b|cross[-\s]?site\s+scripting|\bhtml\s+injection\b|\binnerhtml\b/i],
+  [
+    'command_injection',
+    /\bcommand\s+injection\b|\bshell\s+injection\b|\brce\b|remote\s+code\s+execution|\bcode\s+injection\b/i,
+  ],
+  ['path_traversal', /\b(?:path|directory)\s+traversal\b|\blfi\b|\bfile\s+inclusion\b/i],
+  ['hardcoded_secret', /\bhard[-\s]?coded\b|\bsecrets?\b|\bapi[-\s]?keys?\b|\bembedded\s+credentials?\b/i],
+  ['missing_validation', /\bvalidation\b|\bunvalidated\b|\bunsanitized\b|\buntrusted\s+input\b/i],
+];
+
+const JS: readonly CodeReviewLanguage[] = ['javascript', 'typescript'];
+const APP_LANGUAGES = CODE_REVIEW.PRECHECK_LANGUAGES.filter(language => language !== 'sql');
+
+/** A string literal that opens with an SQL keyword, e.g. "SELECT * FROM users WHERE id = " */
+const SQL_KEYWORDS = '(?:SELECT|INSERT|UPDATE|DELETE|WHERE|VALUES|SET|FROM|AND|OR|ORDER\\s+BY)';
+const sqlString = (group: number) => `(["'\`])\\s*\\(?\\s*${SQL_KEYWORDS}\\b(?:(?!\\${group}).)*\\${group}`;
+
+const sqlPattern = (source: string) => new RegExp(source, 'i');
+
+const SQL_MESSAGE = 'SQL query built from input instead of bound parameters';
+const XSS_MESSAGE = 'Untrusted value written to an HTML sink without encoding';
+const COMMAND_MESSAGE = 'Command or code executed from a string built with input';
+const PATH_MESSAGE = 'File path built from input without a containment check';
+
+const JS_SANITIZER = /\b(?:DOMPurify\.sanitize|sanitize\w*|escape\w*|encodeHTML)\s*\(/i;
+const JS_PATH_SAFE = /\bbasename\s*\(|\.startsWith\s*\(|\.includes\s*\(\s*["']\.\.["']/;
+
+const PRECHECK_RULES: readonly PrecheckRule[] = [
+  // ---- SQL injection
+  {
+    id: 'sql-string-concat',
+    category: 'sql_injection',
+    languages: ['javascript', 'typescript', 'python', 'java', 'csharp', 'go'],
+    pattern: sqlPattern(`${sqlString(1)}\\s*\\+\\s*[A-Za-z_$(]`),
+    message: SQL_MESSAGE,
+  },
+  {
+    id: 'sql-template-literal',
+    category: 'sql_injection',
+    languages: JS,
+    pattern: sqlPattern(`\`\\s*\\(?\\s*${SQL_KEYWORDS}\\b[^\`]*\\$\\{`),
+    message: SQL_MESSAGE,
+  },
+  {
+    id: 'sql-python-format',
+    category: 'sql_injection',
+    languages: ['python'],
+    pattern: sqlPattern(
+      `\\bf(["'])\\s*${SQL_KEYWORDS}\\b(?:(?!\\1).)*\\{|${sqlString(2)}\\s*(?:%\\s*[A-Za-z_(]|\\.format\\s*\\()`
+    ),
+    message: SQL_MESSAGE,
+  },
+  {
+    id: 'sql-format-string',
+    category: 'sql_injection',
+    languages: ['java', 'csharp', 'go'],
+    pattern: sqlPattern(
+      `\\b(?:String|string)\\.[Ff]ormat\\s*\\(\\s*@?"\\s*${SQL_KEYWORDS}\\b|\\$@?"\\s*${SQL_KEYWORDS}\\b[^"]*\\{|fmt\\.Sprintf\\s*\\(\\s*["\`]\\s*${SQL_KEYWORDS}\\b`
+    ),
+    message: SQL_MESSAGE,
+  },
+  {
+    id: 'sql-php-concat',
+    category: 'sql_injection',
+    languages: ['php'],
+    pattern: sqlPattern(`${sqlString(1)}\\s*\\.\\s*\\$|"\\s*${SQL_KEYWORDS}\\b[^"]*\\$[A-Za-z_{]`),
+    message: SQL_MESSAGE,
+  },
+  {
+    id: 'sql-dynamic-exec',
+    category: 'sql_injection',
+    languages: ['sql'],
+    pattern: sqlPattern(
+      `'\\s*(?:\\+|\\|\\|)\\s*@?[A-Za-z_]|\\bCONCAT\\s*\\(\\s*'\\s*${SQL_KEYWORDS}\\b|\\bEXEC(?:UTE)?\\s*\\(\\s*@\\w+|\\bEXECUTE\\s+IMMEDIATE\\s+[A-Za-z_]`
+    ),
+    message: 'Dynamic SQL concatenated from input instead of sp_executesql / bound parameters',
+  },
+
+  // ---- Cross-site scripting
+  {
+    id: 'xss-inner-html',
+    category: 'xss',
+    languages: JS,
+    pattern: /\.(?:innerHTML|outerHTML)\s*\+?=(?!=)/,
+    safeLine: new RegExp(`${JS_SANITIZER.source}|(?:innerHTML|outerHTML)\\s*=\\s*(["'])[^"']*\\1\\s*;?\\s*$`, 'i'),
+    message: XSS_MESSAGE,
+  },
+  {
+    id: 'xss-html-sink',
+    category: 'xss',
+    languages: JS,
+    pattern: /\binsertAdjacentHTML\s*\(|\bdocument\.write(?:ln)?\s*\(|\bdangerouslySetInnerHTML\b|\.html\s*\(\s*[^)\s]/,
+    safeLine: JS_SANITIZER,
+    message: XSS_MESSAGE,
+  },
+  {
+    id: 'xss-php-echo',
+    category: 'xss',
+    languages: ['php'],
+    pattern: /\b(?:echo|print)\b[^;]*\$_(?:GET|POST|REQUEST|COOKIE)\b|<\?=\s*\$_(?:GET|POST|REQUEST|COOKIE)\b/,
+    safeLine: /\b(?:htmlspecialchars|htmlentities|strip_tags)\s*\(/,
+    message: XSS_MESSAGE,
+  },
+  {
+    id: 'xss-python-markup',
+    category: 'xss',
+    languages: ['python'],
+    pattern:
+      /\b(?:mark_safe|Markup)\s*\((?!\s*(["'])[^"']*\1\s*\))|\brender_template_string\s*\((?!\s*(["'])[^"']*\2\s*[,)])|["'][^"']*<\w[^"']*["'].*\brequest\.(?:args|form|values)\b/,
+    safeLine: /\b(?:escape|html\.escape|bleach\.clean)\s*\(/,
+    message: XSS_MESSAGE,
+  },
+  {
+    id: 'xss-java-writer',
+    category: 'xss',
+    languages: ['java'],
+    pattern: /getWriter\(\)\.(?:print|println|write|append)\s*\(.*(?:getParameter\s*\(|\+\s*[A-Za-z_])/,
+    safeLine: /\b(?:escapeHtml\w*|Encode\.forHtml\w*|HtmlUtils\.htmlEscape)\s*\(/,
+    message: XSS_MESSAGE,
+  },
+  {
+    id: 'xss-csharp-raw',
+    category: 'xss',
+    languages: ['csharp'],
+    pattern: /@?\bHtml\.Raw\s*\(|\bResponse\.Write\s*\(.*(?:\bRequest\b|\+\s*[A-Za-z_]|\$")/,
+    safeLine: /\b(?:HtmlEncode|Encode)\s*\(/,
+    message: XSS_MESSAGE,
+  },
+  {
+    id: 'xss-go-unescaped',
+    category: 'xss',
+    languages: ['go'],
+    pattern:
+      /\btemplate\.HTML\s*\(|\bfmt\.Fprint(?:f|ln)?\s*\(\s*w\b.*(?:FormValue|URL\.Query|\+\s*[A-Za-z_])|\bw\.Write\s*\(\s*\[\]byte\s*\(.*(?:FormValue|URL\.Query|\+\s*[A-Za-z_])/,
+    safeLine: /\b(?:html\.EscapeString|template\.HTMLEscapeString)\s*\(/,
+    message: XSS_MESSAGE,
+  },
+
+  // ---- Command / code injection
+  {
+    id: 'cmd-shell-wrapper',
+    category: 'command_injection',
+    languages: APP_LANGUAGES,
+    pattern: /(["'])(?:\/bin\/)?(?:sh|bash|cmd(?:\.exe)?|powershell)\1\s*,\s*(["'])(?:-c|\/c)\2/i,
+    message: 'Command passed through a shell (sh -c / cmd /c)',
+  },
+  {
+    id: 'cmd-node-exec',
+    category: 'command_injection',
+    languages: JS,
+    pattern:
+      /(?:^|[^.\w$]|child_process\.|\bcp\.)(?:exec|execSync)\s*\((?!\s*(["'])[^"'$`]*\1\s*[,)])|\bshell\s*:\s*true\b|(?:^|[^.\w$])eval\s*\((?!\s*(["'])[^"']*\2\s*\))|\bnew\s+Function\s*\(/,
+    message: COMMAND_MESSAGE,
+  },
+  {
+    id: 'cmd-python-exec',
+    category: 'command_injection',
+    languages: ['python'],
+    pattern:
+      /\bos\.(?:system|popen)\s*\((?!\s*(["'])[^"']*\1\s*\))|\bsubprocess\.\w+\s*\(.*\bshell\s*=\s*True\b|(?:^|[^.\w])(?:eval|exec)\s*\((?!\s*(["'])[^"']*\2\s*\))/,
+    message: COMMAND_MESSAGE,
+  },
+  {
+    id: 'cmd-java-runtime',
+    category: 'command_injection',
+    languages: ['java'],
+    pattern: /Runtime\.getRuntime\(\)\.exec\s*\((?!\s*new\s+String\s*\[\])(?!\s*"[^"]*"\s*\))/,
+    message: COMMAND_MESSAGE,
+  },
+  {
+    id: 'cmd-php-exec',
+    category: 'command_injection',
+    languages: ['php'],
+    pattern: /\b(?:system|exec|shell_exec|passthru|popen|proc_open|eval)\s*\([^;]*\$|`[^`]*\$[A-Za-z_]/,
+    safeLine: /\bescapeshell(?:arg|cmd)\s*\(/,
+    message: COMMAND_MESSAGE,
+  },
+  {
+    id: 'cmd-csharp-process',
+    category: 'command_injection',
+    languages: ['csharp'],
+    pattern: /\bProcess\.Start\s*\([^;]*(?:\+\s*[A-Za-z_]|\$")|\bArguments\s*=\s*[^;]*(?:\+\s*[A-Za-z_]|\$@?"[^"]*\{)/,
+    safeCode: /\bRegex\.IsMatch\s*\(|\bIPAddress\.TryParse\s*\(|\bUri\.CheckHostName\s*\(|\bArgumentList\b/,
+    message: COMMAND_MESSAGE,
+  },
+  {
+    id: 'cmd-go-exec',
+    category: 'command_injection',
+    languages: ['go'],
+    pattern: /\bexec\.Command(?:Context)?\s*\([^)]*(?:fmt\.Sprintf|\+\s*[A-Za-z_])/,
+    message: COMMAND_MESSAGE,
+  },
+  {
+    id: 'cmd-sql-shell',
+    category: 'command_injection',
+    languages: ['sql'],
+    pattern: /\bxp_cmdshell\b/i,
+    message: 'Operating system command run from SQL (xp_cmdshell)',
+  },
+
+  // ---- Path traversal
+  {
+    id: 'path-node-fs',
+    category: 'path_traversal',
+    languages: JS,
+    pattern:
+      /\b(?:readFile|readFileSync|createReadStream|createWriteStream|writeFile|writeFileSync|appendFile|unlink|unlinkSync|sendFile|download|join|resolve)\s*\(.*(?:\breq\.(?:query|params|body)\b|["'`]\s*\+\s*[A-Za-z_$]|\$\{)/,
+    safeLine: /\bbasename\s*\(/,
+    safeCode: JS_PATH_SAFE,
+    message: PATH_MESSAGE,
+  },
+  {
+    id: 'path-python-open',
+    category: 'path_traversal',
+    languages: ['python'],
+    pattern:
+      /\b(?:open|send_file|os\.path\.join|os\.remove|Path)\s*\(.*(?:\brequest\.\w+|["']\s*\+\s*[A-Za-z_]|\bf["'][^"']*\{)/,
+    safeCode:
+      /\bos\.path\.(?:basename|realpath|abspath|commonpath)\s*\(|\bsecure_filename\s*\(|\.is_relative_to\s*\(|\.startswith\s*\(/,
+    message: PATH_MESSAGE,
+  },
+  {
+    id: 'path-java-file',
+    category: 'path_traversal',
+    languages: ['java'],
+    pattern:
+      /(?:\bnew\s+(?:File|FileInputStream|FileOutputStream|FileReader|FileWriter)|\bPaths\.get|\bPath\.of)\s*\(.*(?:getParameter\s*\(|\+\s*[A-Za-z_])/,
+    safeCode: /\.getFileName\s*\(|\bFilenameUtils\.getName\s*\(|\.startsWith\s*\(|\.getCanonicalPath\s*\(/,
+    message: PATH_MESSAGE,
+  },
+  {
+    id: 'path-php-file',
+    category: 'path_traversal',
+    languages: ['php'],
+    pattern:
+      /\b(?:include|require)(?:_once)?\b[^;]*\$|\b(?:file_get_contents|fopen|readfile|file|unlink|file_put_contents)\s*\([^;]*(?:\$_(?:GET|POST|REQUEST|COOKIE)\b|\.\s*\$)/,
+    safeCode: /\b(?:basename|realpath)\s*\(/,
+    message: PATH_MESSAGE,
+  },
+  {
+    id: 'path-csharp-file',
+    category: 'path_traversal',
+    languages: ['csharp'],
+    pattern:
+      /(?:\bFile\.\w+|\bPath\.Combine|\bnew\s+FileStream|\bPhysicalFile)\s*\(.*(?:\bRequest\.|\+\s*[A-Za-z_]|\$")/,
+    safeCode: /\bPath\.GetFileName\s*\(|\bGetFullPath\s*\(|\.StartsWith\s*\(/,
+    message: PATH_MESSAGE,
+  },
+  {
+    id: 'path-go-file',
+    category: 'path_traversal',
+    languages: ['go'],
+    pattern:
+      /\b(?:os\.(?:Open|OpenFile|ReadFile|Create|Remove)|ioutil\.ReadFile|http\.ServeFile|filepath\.Join|path\.Join)\s*\(.*(?:FormValue|URL\.Query|PathValue|\+\s*[A-Za-z_])/,
+    safeCode: /\bfilepath\.(?:Base|Clean|Rel|IsLocal)\s*\(|\bstrings\.HasPrefix\s*\(|\bOpenInRoot\s*\(/,
+    message: PATH_MESSAGE,
+  },
+  {
+    id: 'path-sql-file',
+    category: 'path_traversal',
+    languages: ['sql'],
+    pattern: /\b(?:LOAD_FILE|OPENROWSET|BULK\s+INSERT|INTO\s+OUTFILE)\b.*(?:\+|\|\|)\s*@?[A-Za-z_]/i,
+    message: PATH_MESSAGE,
+  },
+
+  // ---- Hard-coded secrets
+  {
+    id: 'secret-assignment',
+    category: 'hardcoded_secret',
+    languages: CODE_REVIEW.PRECHECK_LANGUAGES,
+    pattern:
+      /[\w$]*(?:password|passwd|pwd|secret|api_?key|access_?key|private_?key|auth_?token|access_?token|token)[\w$]*["']?(?:\s*:\s*[\w<>[\]]+)?\s*(?:=|:=|:|=>)\s*[@$]?(["'`])(?![$%]\{)[^"'`\s]{4,}\1/i,
+    message: 'Credential assigned from a string literal',
+  },
+  {
+    id: 'secret-connection-string',
+    category: 'hardcoded_secret',
+    languages: CODE_REVIEW.PRECHECK_LANGUAGES,
+    pattern: /\b(?:password|pwd)\s*=\s*[^;"'\s$]{4,}\s*;|\bIDENTIFIED\s+BY\s+'[^']{4,}'/i,
+    message: 'Password embedded in a connection string or SQL statement',
+  },
+  {
+    id: 'secret-key-format',
+    category: 'hardcoded_secret',
+    languages: CODE_REVIEW.PRECHECK_LANGUAGES,
+    pattern:
+      /\bAKIA[0-9A-Z]{16}\b|-----BEGIN (?:RSA |EC |OPENSSH |DSA )?PRIVATE KEY-----|\bsk_live_[0-9A-Za-z]{10,}|\bgh[pousr]_[A-Za-z0-9]{30,}|\bxox[abposr]-[A-Za-z0-9-]{10,}|\bAIza[0-9A-Za-z_-]{35}\b/,
+    message: 'Known API key / private key format in source',
+  },
+
+  // ---- Missing input validation (raw input used with no validation anywhere in the sample)
+  {
+    id: 'validation-node-input',
+    category: 'missing_validation',
+    languages: JS,
+    pattern: /\breq\.(?:body|query|params)\b/,
+    safeCode:
+      /\b(?:parseInt|parseFloat|Number|isNaN|isFinite|Number\.isInteger)\s*\(|\.(?:test|match|includes|safeParse|parse|isEmail)\s*\(|\bvalidat\w*|\b(?:Joi|z|yup)\.|\btypeof\s|\.length\s*[<>]/i,
+    message: 'Request input used without validation',
+  },
+  {
+    id: 'validation-python-input',
+    category: 'missing_validation',
+    languages: ['python'],
+    pattern: /\brequest\.(?:args|form|values|json|GET|POST|data)\b|(?:^|[^.\w])input\s*\(/,
+    safeCode:
+      /\b(?:int|float|isinstance)\s*\(|\.(?:isdigit|isalnum|isnumeric)\s*\(|\bre\.(?:match|fullmatch|search|compile)\s*\(|\bvalidat\w*|\bBaseModel\b|\bSchema\b|\blen\s*\([^)]*\)\s*[<>]/i,
+    message: 'Request input used without validation',
+  },
+  {
+    id: 'validation-java-input',
+    category: 'missing_validation',
+    languages: ['java'],
+    pattern: /\.getParameter\s*\(|@(?:RequestParam|PathVariable|RequestBody)\b/,
+    safeCode:
+      /@(?:Valid|Validated|Pattern|Size|Min|Max|NotNull|NotBlank|Email)\b|\.matches\s*\(|\bPattern\.compile\s*\(|\b(?:Integer|Long)\.parse\w+\s*\(|\.isEmpty\s*\(|\.length\s*\(\s*\)\s*[<>]|\bvalidat\w*/i,
+    message: 'Request input used without validation',
+  },
+  {
+    id: 'validation-php-input',
+    category: 'missing_validation',
+    languages: ['php'],
+    pattern: /\$_(?:GET|POST|REQUEST|COOKIE)\b/,
+    safeCode:
+      /\b(?:filter_var|filter_input|preg_match|is_numeric|intval|in_array|strlen|ctype_\w+)\s*\(|\(int\)|\bvalidat\w*/i,
+    message: 'Request input used without validation',
+  },
+  {
+    id: 'validation-csharp-input',
+    category: 'missing_validation',
+    languages: ['csharp'],
+    pattern: /\bRequest\.(?:Form|Query|QueryString|Params|Body)\b|\[From(?:Body|Query|Route|Form)\]/,
+    safeCode:
+      /\bModelState\.IsValid\b|\[(?:Required|Range|StringLength|RegularExpression|MaxLength|EmailAddress)\b|\bTryParse\s*\(|\bRegex\.IsMatch\s*\(|\bstring\.IsNullOrWhiteSpace\s*\(|\.Length\s*[<>]|\bvalidat\w*/i,
+    message: 'Request input used without validation',
+  },
+  {
+    id: 'validation-go-input',
+    category: 'missing_validation',
+    languages: ['go'],
+    pattern: /\br\.(?:FormValue|PostFormValue|PathValue)\s*\(|\.Query\(\)\.Get\s*\(/,
+    safeCode:
+      /\bstrconv\.(?:Atoi|Parse\w+)\s*\(|\bregexp\.|\.MatchString\s*\(|\blen\s*\([^)]*\)\s*[<>=]|\bvalidat\w*|==\s*""/i,
+    message: 'Request input used without validation',
+  },
+];
+
+/** Map a free-text language name ("JS", "C#", "golang") to a pre-check language */
+export function normalizeCodeLanguage(language: string): CodeReviewLanguage | null {
+  return LANGUAGE_ALIASES[language.trim().toLowerCase()] ?? null;
+}
+
+/** Map a scene issueType ("SQL Injection", "Cross-Site Scripting (XSS)") to a rule category */
+export function resolveIssueCategory(issueType: string): CodeReviewIssueCategory | null {
+  return ISSUE_CATEGORY_PATTERNS.find(([, pattern]) => pattern.test(issueType))?.[0] ?? null;
+}
+
+/**
+ * Remove comments, keeping string literals and line breaks so line numbers still match
+ * the submitted code.
+ */
+export function stripComments(code: string, language: CodeReviewLanguage): string {
+  const syntax = COMMENT_SYNTAX[language];
+  let output = '';
+  let i = 0;
+
+  while (i < code.length) {
+    const char = code[i];
+
+    if (syntax.tripleQuote && (code.startsWith('"""', i) || code.startsWith("'''", i))) {
+      const end = code.indexOf(code.slice(i, i + 3), i + 3);
+      const stop = end === -1 ? code.length : end + 3;
+      output += code.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || (char === '`' && syntax.backtick)) {
+      let j = i + 1;
+      while (j < code.length && code[j] !== char) {
+        if (code[j] === '\\' && language !== 'sql') j++;
+        else if (code[j] === '\n' && char !== '`') break; // unterminated literal ends at the line
+        j++;
+      }
+      const stop = j < code.length && code[j] === char ? j + 1 : Math.min(j, code.length);
+      output += code.slice(i, stop);
+      i = stop;
+      continue;
+    }
+
+    if (syntax.block && code.startsWith('/*', i)) {
+      const end = code.indexOf('*/', i + 2);
+      const stop = end === -1 ? code.length : end + 2;
+      output += code.slice(i, stop).replace(/[^\n]/g, '');
+      i = stop;
+      continue;
+    }
+
+    if (syntax.line.some(marker => code.startsWith(marker, i))) {
+      const end = code.indexOf('\n', i);
+      i = end === -1 ? code.length : end;
+      continue;
+    }
+
+    output += char;
+    i++;
+  }
+
+  return output;
+}
+
+function truncateEvidence(line: string): string {
+  const trimmed = line.trim();
+  return trimmed.length > CODE_REVIEW.EVIDENCE_MAX_CHARS
+    ? `${trimmed.slice(0, CODE_REVIEW.EVIDENCE_MAX_CHARS - 1)}…`
+    : trimmed;
+}
+
+/** Lines of comment-free code matching the category's rules — at most one finding per line */
+export function findVulnerablePatterns(
+  strippedCode: string,
+  language: CodeReviewLanguage,
+  category: CodeReviewIssueCategory
+): PrecheckFinding[] {
+  const rules = PRECHECK_RULES.filter(
+    rule => rule.category === category && rule.languages.includes(language) && !rule.safeCode?.test(strippedCode)
+  );
+  if (rules.length === 0) return [];
+
+  const findings: PrecheckFinding[] = [];
+  const lines = strippedCode.split(/\r?\n/);
+  for (let index = 0; index < lines.length && findings.length < CODE_REVIEW.MAX_FINDINGS; index++) {
+    const text = lines[index];
+    const rule = rules.find(candidate => candidate.pattern.test(text) && !candidate.safeLine?.test(text));
+    if (rule) {
+      findings.push({ ruleId: rule.id, line: index + 1, evidence: truncateEvidence(text), message: rule.message });
+    }
+  }
+  return findings;
+}
+
+/** Run the pre-check. Returns null when the language has no rules. */
+export function runStaticPrecheck(input: StaticPrecheckInput): StaticPrecheckResult | null {
+  const language = normalizeCodeLanguage(input.language);
+  if (!language) return null;
+
+  const category = resolveIssueCategory(input.issueType);
+  const original = stripComments(input.originalCode, language);
+  const fixed = stripComments(input.fixedCode, language);
+  const unchanged = original.replace(/\s+/g, '') === fixed.replace(/\s+/g, '');
+
+  const originalFindings = category ? findVulnerablePatterns(original, language, category) : [];
+  const fixedFindings = category ? findVulnerablePatterns(fixed, language, category) : [];
+  const cap: PrecheckCap | null = unchanged ? 'incorrect' : fixedFindings.length > 0 ? 'partial' : null;
+
+  return { language, category, originalFindings, fixedFindings, unchanged, cap };
+}
@@ -14,6 +14,22 @@ vi.mock('../../utils/core/resilience-utils', () => ({
   withRetry: vi.fn((fn: () => Promise<unknown>) => fn()),
 }));
 
+let mockRequestContext: Record<string, unknown> = {};
+
+vi.mock('../../utils/core/request-storage', () => ({
+  getRequestContext: () => mockRequestContext,
+}));
+
+/** D1 stub answering the likeness registry lookup with the given rows */
+function likenessDb(rows: unknown[]) {
+  const statement = {
+    bind: () => statement,
+    all: async () => ({ success: true, results: rows }),
+    run: async () => ({ success: true, meta: { changes: 1 } }),
+  };
+  return { prepare: () => statement };
+}
+
 
 const originalEnv = process.env;
 
@@ -21,6 +37,7 @@ describe('generateDeepfakeVideoTool', () => {
   beforeEach(() => {
     vi.resetAllMocks();
     process.env = { ...originalEnv };
+    mockRequestContext = { companyId: 'acme', env: { agentic_ally_memory: likenessDb([]) } };
   });
 
   describe('tool configuration', () => {
@@ -132,6 +149,81 @@ describe('generateDeepfakeVideoTool', () => {
       expect(callBody.caption).toBe(false);
     });
 
+    it('should burn the disclosure overlay into the video', async () => {
+      process.env.HEYGEN_API_KEY = 'test-key';
+      const fetchSpy = vi.spyOn(globalThis, 'fetch').mockResolvedValue(
+        new Response(JSON.stringify({ data: { video_id: 'vid-3' } }), { status: 200 })
+      );
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = await generateDeepfakeVideoTool.execute!({
+        inputText: 'Script',
+        avatarId: 'av-1',
+        voiceId: 'v-1',
+      } as any, {}) as any;
+
+      const callBody = JSON.parse((fetchSpy.mock.calls[0][1] as any).body);
+      expect(callBody.video_inputs[0].text).toMatchObject({
+        type: 'text',
+        text: 'AI-generated simulation for security awareness training',
+      });
+      expect(result.disclosureText).toBe('AI-generated simulation for security awareness training');
+    });
+
+    it('should refuse registered avatars without consent for the use case', async () => {
+      process.env.HEYGEN_API_KEY = 'test-key';
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      mockRequestContext = {
+        companyId: 'acme',
+        env: {
+          agentic_ally_memory: likenessDb([
+            {
+              company_id: 'acme',
+              avatar_id: 'ceo-avatar',
+              provider: 'heygen',
+              person_name: 'Jane Doe',
+              consent_status: 'granted',
+              consent_reference: null,
+              consent_granted_at: null,
+              consent_expires_at: null,
+              allowed_use_cases: '["awareness_training"]',
+              revoked_at: null,
+              created_at: '2026-01-01 00:00:00',
+              updated_at: '2026-01-01 00:00:00',
+            },
+          ]),
+        },
+      };
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = await generateDeepfakeVideoTool.execute!({
+        inputText: 'Please approve the wire transfer',
+        avatarId: 'ceo-avatar',
+        voiceId: 'v-1',
+        useCase: 'financial_fraud',
+      } as any, {}) as any;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('consent does not cover "financial_fraud"');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
+    it('should refuse every avatar when the likeness registry cannot be consulted', async () => {
+      process.env.HEYGEN_API_KEY = 'test-key';
+      const fetchSpy = vi.spyOn(globalThis, 'fetch');
+      mockRequestContext = { companyId: 'acme' };
+
+      const result = await generateDeepfakeVideoTool.execute!({
+        inputText: 'Security reminder',
+        avatarId: 'stock-avatar',
+        voiceId: 'v-1',
+      } as any, {}) as any;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('likeness registry is not available');
+      expect(fetchSpy).not.toHaveBeenCalled();
+    });
+
     it('should return error when HeyGen response has error field', async () => {
       process.env.HEYGEN_API_KEY = 'test-key';
       vi.spyOn(globalThis, 'fetch').mockResolvedValue(
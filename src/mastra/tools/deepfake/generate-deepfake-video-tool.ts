@@ -6,9 +6,17 @@
  * - rationale: Generates deepfake video (HeyGen); visual content
  * @see docs/AI_COMPLIANCE_INVENTORY.md
  *
- * Triggers video generation via HeyGen Create Video V2 API.
- * Builds a structured scene with character (avatar), voice (text-to-speech),
- * and background, then returns a video_id — HeyGen renders asynchronously.
+ * Triggers video generation through the configured SyntheticVideoProvider
+ * (VIDEO_PROVIDER; HeyGen Create Video V2 by default). Builds a structured scene
+ * with character (avatar), voice (text-to-speech), and background, then returns
+ * a video_id — the provider renders asynchronously.
+ *
+ * Likeness & transparency (EU AI Act Art. 50):
+ * - Avatars registered in the likeness registry (by any company — the avatar pool is shared)
+ *   render only with the requesting company's granted, unexpired consent that covers the
+ *   requested use case (deepfake-likeness-service)
+ * - Every video carries an AI-generated disclosure overlay (wording adjustable, not optional)
+ * - Every generated video is recorded in the GDPR audit hash chain
  *
  * UI Integration:
  * - Emits `::ui:deepfake_video_generating::{payload}::/ui:deepfake_video_generating::`
@@ -18,18 +26,25 @@
  * - Frontend uses the video_id to poll GET /deepfake/status/:videoId (our backend proxy)
  * - When status === "completed", backend returns video_url for the player.
  *
- * API: POST https://api.heygen.com/v2/video/generate
+ * API: POST https://api.heygen.com/v2/video/generate (services/synthetic-video)
  */
 
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { HEYGEN } from '../../constants';
+import { DEEPFAKE_LIKENESS, GDPR, HEYGEN } from '../../constants';
 
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError, createToolErrorResponse } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
-import { withRetry } from '../../utils/core/resilience-utils';
 import { withHeartbeat } from '../../utils/core/sse-heartbeat';
+import { getSyntheticVideoProvider, SyntheticVideoProviderError } from '../../services/synthetic-video';
+import {
+  checkLikenessConsent,
+  recordDeepfakeGeneration,
+  resolveDisclosureText,
+} from '../../services/deepfake-likeness-service';
+import { getRequestContext } from '../../utils/core/request-storage';
+import { extractCompanyIdFromTokenExport } from '../../utils/core/policy-fetcher';
 
 const logger = getLogger('GenerateDeepfakeVideoTool');
 
@@ -91,11 +106,25 @@ const generateDeepfakeVideoInputSchema = z.object({
     .boolean()
     .optional()
     .describe('Whether to enable captions/subtitles in the video. Defaults to true for accessibility.'),
+  useCase: z
+    .enum(DEEPFAKE_LIKENESS.USE_CASES)
+    .optional()
+    .describe(
+      'Simulation use case, checked against the consent of avatars registered in the likeness registry. Map from the scenario: CEO/CFO → "executive_impersonation", IT help desk → "it_support_impersonation", supplier → "vendor_impersonation", wire transfer/bank → "financial_fraud". Defaults to "awareness_training".'
+    ),
+  disclosureText: z
+    .string()
+    .max(DEEPFAKE_LIKENESS.DISCLOSURE_MAX_CHARS)
+    .optional()
+    .describe(
+      'Wording of the AI-generated disclosure overlay, in the video language. The overlay is always added; defaults to "AI-generated simulation for security awareness training".'
+    ),
 });
 
 const generateDeepfakeVideoOutputSchema = z.object({
   success: z.boolean(),
   videoId: z.string().optional(),
+  disclosureText: z.string().optional().describe('Disclosure overlay burned into the video'),
   message: z.string().optional(),
   error: z.string().optional(),
 });
@@ -132,63 +161,6 @@ async function emitVideoGeneratingSignal(
   }
 }
 
-// ============================================
-// Helper: Build V2 request body
-// ============================================
-
-function buildV2RequestBody(params: {
-  inputText: string;
-  avatarId: string;
-  voiceId: string;
-  title?: string;
-  orientation: 'portrait' | 'landscape';
-  backgroundColor: string;
-  emotion?: string;
-  speed?: number;
-  avatarStyle: 'normal' | 'closeUp' | 'circle';
-  locale?: string;
-  caption: boolean;
-}): Record<string, unknown> {
-  const dimension = HEYGEN.DIMENSIONS[params.orientation];
-
-  const voice: Record<string, unknown> = {
-    type: 'text',
-    voice_id: params.voiceId,
-    input_text: params.inputText,
-  };
-  if (params.emotion) voice.emotion = params.emotion;
-  if (params.speed !== undefined) voice.speed = params.speed;
-  if (params.locale) voice.locale = params.locale;
-
-  const requestBody: Record<string, unknown> = {
-    video_inputs: [
-      {
-        character: {
-          type: 'avatar',
-          avatar_id: params.avatarId,
-          avatar_style: params.avatarStyle,
-        },
-        voice,
-        background: {
-          type: 'color',
-          value: params.backgroundColor,
-        },
-      },
-    ],
-    dimension: {
-      width: dimension.width,
-      height: dimension.height,
-    },
-    caption: params.caption,
-  };
-
-  if (params.title) {
-    requestBody.title = params.title;
-  }
-
-  return requestBody;
-}
-
 // ============================================
 // Tool Definition
 // ============================================
@@ -196,21 +168,25 @@ function buildV2RequestBody(params: {
 export const generateDeepfakeVideoTool = createTool({
   id: 'generate-deepfake-video',
   description:
-    'Generates a deepfake video simulation using HeyGen Create Video V2 API. Takes the spoken script text, avatar ID, and voice ID. Returns immediately with a video_id — the video renders asynchronously in the background.',
+    'Generates a deepfake video simulation using the configured video provider (HeyGen Create Video V2 API by default). Takes the spoken script text, avatar ID, and voice ID. Returns immediately with a video_id — the video renders asynchronously in the background.',
   inputSchema: generateDeepfakeVideoInputSchema,
   outputSchema: generateDeepfakeVideoOutputSchema,
   execute: async (inputData, ctx?) => {
     const writer = ctx?.writer;
     const startTime = Date.now();
 
+    let timeoutMs = 0;
+    let providerName = 'Video provider';
+
     try {
-      const apiKey = process.env.HEYGEN_API_KEY;
-      if (!apiKey) {
-        logger.error('heygen_api_key_missing');
-        return {
-          success: false,
-          error: 'HeyGen API key is not configured. Please set HEYGEN_API_KEY environment variable.',
-        };
+      const provider = getSyntheticVideoProvider();
+      timeoutMs = provider.timeoutMs;
+      providerName = provider.displayName;
+
+      const configError = provider.getConfigurationError();
+      if (configError) {
+        logger.error('video_provider_not_configured', { provider: provider.name });
+        return { success: false, error: configError };
       }
 
       const {
@@ -225,25 +201,21 @@ export const generateDeepfakeVideoTool = createTool({
         avatarStyle = 'normal',
         locale,
         caption = true,
+        useCase = DEEPFAKE_LIKENESS.DEFAULT_USE_CASE,
       } = inputData;
-
-      const url = `${HEYGEN.API_BASE_URL}${HEYGEN.ENDPOINTS.GENERATE_VIDEO}`;
-
-      const requestBody = buildV2RequestBody({
-        inputText,
-        avatarId,
-        voiceId,
-        title,
-        orientation,
-        backgroundColor,
-        emotion,
-        speed,
-        avatarStyle,
-        locale,
-        caption,
-      });
+      const disclosureText = resolveDisclosureText(inputData.disclosureText);
+
+      // Likeness registry: registered real-person avatars need consent covering this use case
+      const { token, companyId: contextCompanyId, env } = getRequestContext();
+      const companyId = contextCompanyId || (token ? extractCompanyIdFromTokenExport(token) : undefined);
+      const likeness = await checkLikenessConsent(env, { companyId, avatarId, useCase });
+      if (!likeness.allowed) {
+        logger.warn('generate_deepfake_video_likeness_refused', { avatarId, useCase, reason: likeness.reason });
+        return { success: false, error: likeness.message };
+      }
 
       logger.info('generate_deepfake_video_request', {
+        provider: provider.name,
         avatarId,
         voiceId,
         orientation,
@@ -252,80 +224,46 @@ export const generateDeepfakeVideoTool = createTool({
         speed: speed ?? 1.0,
         locale: locale ?? 'default',
         caption,
+        useCase,
+        likeness: likeness.reason,
         inputTextLength: inputText.length,
-        fullRequestBody: JSON.stringify(requestBody).substring(0, 1500),
       });
 
-      const response = await withHeartbeat(writer, () =>
-        withRetry(async () => {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), HEYGEN.API_TIMEOUT_MS);
-
-          try {
-            const res = await fetch(url, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'x-api-key': apiKey,
-              },
-              body: JSON.stringify(requestBody),
-              signal: controller.signal,
-            });
-            return res;
-          } finally {
-            clearTimeout(timeoutId);
-          }
-        }, 'generate_deepfake_video'),
+      const { videoId } = await withHeartbeat(writer, () =>
+        provider.createVideo({
+          inputText,
+          avatarId,
+          voiceId,
+          title,
+          orientation,
+          backgroundColor,
+          emotion,
+          speed,
+          avatarStyle,
+          locale,
+          caption,
+          disclosureText,
+        })
       );
 
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => 'Unable to read error body');
-        logger.error('generate_deepfake_video_api_error', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorBody.substring(0, 500),
-        });
-        const errorInfo = errorService.external(
-          'Video generation failed. Please check your avatar and voice selection, then try again.',
-          { status: response.status }
-        );
-        return createToolErrorResponse(errorInfo);
-      }
-
-      const data = await response.json();
-
-      logger.info('generate_deepfake_video_raw_response', {
-        response: JSON.stringify(data).substring(0, 1000),
-      });
-
-      // HeyGen V2 response: { error: null, data: { video_id: "..." } }
-      if (data?.error) {
-        logger.error('generate_deepfake_video_heygen_error', {
-          error: JSON.stringify(data.error).substring(0, 500),
-        });
-        const errorMsg = typeof data.error === 'object' ? data.error.message ?? JSON.stringify(data.error) : String(data.error);
-        logger.error('generate_deepfake_video_heygen_error_detail', { errorMsg: errorMsg.substring(0, 500) });
-        return {
-          success: false,
-          error: 'Video generation failed due to a configuration issue. Please try a different avatar or voice.',
-        };
-      }
-
-      const videoId: string = data?.data?.video_id ?? '';
-
-      if (!videoId) {
-        logger.error('generate_deepfake_video_no_id', { response: JSON.stringify(data).substring(0, 500) });
-        return {
-          success: false,
-          error: 'HeyGen returned a successful response but no video_id was found.',
-        };
-      }
-
       logger.info('generate_deepfake_video_success', {
         videoId,
         durationMs: Date.now() - startTime,
       });
 
+      // EU AI Act Art. 50: one hash-chained record per generated video
+      await recordDeepfakeGeneration(env, {
+        companyId: companyId ?? GDPR.SYSTEM_COMPANY_ID,
+        videoId,
+        provider: provider.name,
+        avatarId,
+        voiceId,
+        useCase,
+        disclosureText,
+        inputText,
+        likeness: likeness.reason,
+      });
+
       await emitVideoGeneratingSignal(writer, {
         videoId,
         status: 'generating',
@@ -334,16 +272,41 @@ export const generateDeepfakeVideoTool = createTool({
       return {
         success: true,
         videoId,
+        disclosureText,
         message: 'Video generation started. Rendering typically takes 5–10 minutes for AI avatars.',
       };
     } catch (error) {
+      if (error instanceof SyntheticVideoProviderError && error.code !== 'not_configured') {
+        if (error.code === 'api_error') {
+          logger.error('generate_deepfake_video_api_error', {
+            status: error.status,
+            statusText: error.statusText,
+            body: error.body,
+          });
+          const errorInfo = errorService.external(
+            'Video generation failed. Please check your avatar and voice selection, then try again.',
+            { status: error.status }
+          );
+          return createToolErrorResponse(errorInfo);
+        }
+        if (error.code === 'rejected') {
+          logger.error('generate_deepfake_video_provider_error', { errorMsg: error.message });
+          return {
+            success: false,
+            error: 'Video generation failed due to a configuration issue. Please try a different avatar or voice.',
+          };
+        }
+        logger.error('generate_deepfake_video_no_id', { response: error.body });
+        return { success: false, error: error.message };
+      }
+
       const err = normalizeError(error);
 
       if (err.name === 'AbortError') {
-        logger.error('generate_deepfake_video_timeout', { timeoutMs: HEYGEN.API_TIMEOUT_MS });
+        logger.error('generate_deepfake_video_timeout', { timeoutMs });
         return {
           success: false,
-          error: `Request timed out after ${HEYGEN.API_TIMEOUT_MS}ms. HeyGen API may be experiencing high load.`,
+          error: `Request timed out after ${timeoutMs}ms. ${providerName} API may be experiencing high load.`,
         };
       }
 
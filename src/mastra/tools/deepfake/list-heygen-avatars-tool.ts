@@ -1,9 +1,9 @@
 /**
  * list-heygen-avatars-tool
  *
- * Fetches all available avatars from HeyGen API.
- * Used by the Deepfake Video Agent to let the user pick an avatar
- * before generating a deepfake video simulation.
+ * Fetches all available avatars from the configured SyntheticVideoProvider
+ * (VIDEO_PROVIDER; HeyGen by default). Used by the Deepfake Video Agent to let
+ * the user pick an avatar before generating a deepfake video simulation.
  *
  * API: GET https://api.heygen.com/v2/avatars
  *
@@ -15,12 +15,11 @@
 
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { HEYGEN } from '../../constants';
 
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError } from '../../utils/core/error-utils';
-import { withRetry } from '../../utils/core/resilience-utils';
 import { withHeartbeat } from '../../utils/core/sse-heartbeat';
+import { getSyntheticVideoProvider, SyntheticVideoProviderError } from '../../services/synthetic-video';
 
 const logger = getLogger('ListHeyGenAvatarsTool');
 
@@ -94,82 +93,34 @@ async function emitAvatarSelectionSignal(
 export const listHeyGenAvatarsTool = createTool({
   id: 'list-heygen-avatars',
   description:
-    'Lists all available HeyGen avatars that can be used for deepfake video generation. Returns avatar ID, name, gender, and preview URLs so the user can select one.',
+    'Lists all available avatars from the configured video provider (HeyGen by default) that can be used for deepfake video generation. Returns avatar ID, name, gender, and preview URLs so the user can select one.',
   inputSchema: listHeyGenAvatarsInputSchema,
   outputSchema: listHeyGenAvatarsOutputSchema,
   execute: async (inputData, ctx?) => {
     const writer = ctx?.writer;
+    let timeoutMs = 0;
+
     try {
-      const apiKey = process.env.HEYGEN_API_KEY;
-      if (!apiKey) {
-        logger.error('heygen_api_key_missing');
-        return {
-          success: false,
-          error: 'HeyGen API key is not configured. Please set HEYGEN_API_KEY environment variable.',
-        };
-      }
+      const provider = getSyntheticVideoProvider();
+      timeoutMs = provider.timeoutMs;
 
-      const url = `${HEYGEN.API_BASE_URL}${HEYGEN.ENDPOINTS.LIST_AVATARS}`;
-
-      logger.info('list_heygen_avatars_request');
-
-      const response = await withHeartbeat(writer, () =>
-        withRetry(async () => {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), HEYGEN.API_TIMEOUT_MS);
-
-          try {
-            const res = await fetch(url, {
-              method: 'GET',
-              headers: {
-                'x-api-key': apiKey,
-              },
-              signal: controller.signal,
-            });
-            return res;
-          } finally {
-            clearTimeout(timeoutId);
-          }
-        }, 'list_heygen_avatars'),
-      );
-
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => 'Unable to read error body');
-        logger.error('list_heygen_avatars_api_error', {
-          status: response.status,
-          body: errorBody.substring(0, 300),
-        });
-        return {
-          success: false,
-          error: `HeyGen API returned ${response.status}: ${response.statusText}`,
-        };
+      const configError = provider.getConfigurationError();
+      if (configError) {
+        logger.error('video_provider_not_configured', { provider: provider.name });
+        return { success: false, error: configError };
       }
 
-      const data = await response.json();
+      logger.info('list_heygen_avatars_request', { provider: provider.name });
+
+      const allAvatars = await withHeartbeat(writer, () => provider.listAvatars());
 
-      // HeyGen v2/avatars response: { data: { avatars: [...] } }
       const MAX_AVATARS = 100;
-      const allAvatars: unknown[] = data?.data?.avatars ?? [];
-
-      const avatars: HeyGenAvatar[] = allAvatars
-        .map((a: unknown) => {
-          const av = a as Record<string, unknown>;
-          const gender = av.gender ? String(av.gender) : undefined;
-          return {
-            avatar_id: String(av.avatar_id ?? ''),
-            avatar_name: String(av.avatar_name ?? 'Unnamed Avatar'),
-            gender: gender === 'unknown' ? undefined : gender,
-            preview_image_url: av.preview_image_url ? String(av.preview_image_url) : undefined,
-            preview_video_url: av.preview_video_url ? String(av.preview_video_url) : undefined,
-          };
-        })
-        .filter(a => a.avatar_id.length > 0)
-        .slice(0, MAX_AVATARS);
+      const avatars: HeyGenAvatar[] = allAvatars.slice(0, MAX_AVATARS);
 
       const selectionRequired = !inputData.autoSelect && avatars.length > 1;
 
       logger.info('list_heygen_avatars_success', {
-        totalFromApi: allAvatars.length,
+        totalFromProvider: allAvatars.length,
         returned: avatars.length,
         selectionRequired,
       });
@@ -183,13 +134,18 @@ export const listHeyGenAvatarsTool = createTool({
         selectionRequired,
       };
     } catch (error) {
+      if (error instanceof SyntheticVideoProviderError && error.code === 'api_error') {
+        logger.error('list_heygen_avatars_api_error', { status: error.status, body: error.body?.substring(0, 300) });
+        return { success: false, error: error.message };
+      }
+
       const err = normalizeError(error);
 
       if (err.name === 'AbortError') {
-        logger.error('list_heygen_avatars_timeout', { timeoutMs: HEYGEN.API_TIMEOUT_MS });
+        logger.error('list_heygen_avatars_timeout', { timeoutMs });
         return {
           success: false,
-          error: `Request timed out after ${HEYGEN.API_TIMEOUT_MS}ms.`,
+          error: `Request timed out after ${timeoutMs}ms.`,
         };
       }
 
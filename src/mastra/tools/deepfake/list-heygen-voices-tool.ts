@@ -1,9 +1,9 @@
 /**
  * list-heygen-voices-tool
  *
- * Fetches all available voices from HeyGen API.
- * Used by the Deepfake Video Agent to let the user pick a voice
- * before generating a deepfake video simulation.
+ * Fetches all available voices from the configured SyntheticVideoProvider
+ * (VIDEO_PROVIDER; HeyGen by default). Used by the Deepfake Video Agent to let
+ * the user pick a voice before generating a deepfake video simulation.
  *
  * API: GET https://api.heygen.com/v2/voices
  *
@@ -15,12 +15,11 @@
 
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { HEYGEN } from '../../constants';
 
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError } from '../../utils/core/error-utils';
-import { withRetry } from '../../utils/core/resilience-utils';
 import { withHeartbeat } from '../../utils/core/sse-heartbeat';
+import { getSyntheticVideoProvider, SyntheticVideoProviderError } from '../../services/synthetic-video';
 
 const logger = getLogger('ListHeyGenVoicesTool');
 
@@ -112,80 +111,32 @@ async function emitVoiceSelectionSignal(
 export const listHeyGenVoicesTool = createTool({
   id: 'list-heygen-voices',
   description:
-    'Lists available HeyGen voices for deepfake video generation. Accepts an optional "language" parameter (e.g., "Turkish", "English") to filter voices by language. Returns target language voices first, then Multilingual voices (which support emotion tones), then English fallback.',
+    'Lists available voices from the configured video provider (HeyGen by default) for deepfake video generation. Accepts an optional "language" parameter (e.g., "Turkish", "English") to filter voices by language. Returns target language voices first, then Multilingual voices (which support emotion tones), then English fallback.',
   inputSchema: listHeyGenVoicesInputSchema,
   outputSchema: listHeyGenVoicesOutputSchema,
   execute: async (inputData, ctx?) => {
     const writer = ctx?.writer;
+    let timeoutMs = 0;
+
     try {
-      const apiKey = process.env.HEYGEN_API_KEY;
-      if (!apiKey) {
-        logger.error('heygen_api_key_missing');
-        return {
-          success: false,
-          error: 'HeyGen API key is not configured. Please set HEYGEN_API_KEY environment variable.',
-        };
+      const provider = getSyntheticVideoProvider();
+      timeoutMs = provider.timeoutMs;
+
+      const configError = provider.getConfigurationError();
+      if (configError) {
+        logger.error('video_provider_not_configured', { provider: provider.name });
+        return { success: false, error: configError };
       }
 
       const targetLanguage = inputData.language?.trim() || undefined;
-      const url = `${HEYGEN.API_BASE_URL}${HEYGEN.ENDPOINTS.LIST_VOICES}`;
-
-      logger.info('list_heygen_voices_request', { targetLanguage: targetLanguage ?? 'all' });
-
-      const response = await withHeartbeat(writer, () =>
-        withRetry(async () => {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), HEYGEN.API_TIMEOUT_MS);
-
-          try {
-            const res = await fetch(url, {
-              method: 'GET',
-              headers: {
-                'x-api-key': apiKey,
-              },
-              signal: controller.signal,
-            });
-            return res;
-          } finally {
-            clearTimeout(timeoutId);
-          }
-        }, 'list_heygen_voices'),
-      );
-
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => 'Unable to read error body');
-        logger.error('list_heygen_voices_api_error', {
-          status: response.status,
-          body: errorBody.substring(0, 300),
-        });
-        return {
-          success: false,
-          error: `HeyGen API returned ${response.status}: ${response.statusText}`,
-        };
-      }
 
-      const data = await response.json();
+      logger.info('list_heygen_voices_request', { provider: provider.name, targetLanguage: targetLanguage ?? 'all' });
 
-      // HeyGen v2/voices response: { data: { voices: [...] } }
-      // First ~60 voices are custom/cloned with language:"unknown" — skip them.
+      const mappedVoices: HeyGenVoice[] = await withHeartbeat(writer, () => provider.listVoices());
+
+      // HeyGen lists custom/cloned voices with language:"unknown" first — skip them.
       // Only return voices with real language metadata for reliable filtering.
       const MAX_VOICES = 50;
-      const allVoices: unknown[] = data?.data?.voices ?? [];
-
-      const mappedVoices: HeyGenVoice[] = allVoices
-        .map((v: unknown) => {
-          const vo = v as Record<string, unknown>;
-          return {
-            voice_id: String(vo.voice_id ?? ''),
-            name: String(vo.name ?? vo.display_name ?? 'Unnamed Voice'),
-            language: vo.language ? String(vo.language) : undefined,
-            gender: vo.gender ? String(vo.gender) : undefined,
-            preview_audio: vo.preview_audio ? String(vo.preview_audio) : undefined,
-            support_pause: typeof vo.support_pause === 'boolean' ? vo.support_pause : undefined,
-            emotion_support: typeof vo.emotion_support === 'boolean' ? vo.emotion_support : undefined,
-          };
-        })
-        .filter(v => v.voice_id.length > 0);
 
       // Only consider voices with known language metadata
       const knownVoices = mappedVoices.filter(v => v.language && v.language !== 'unknown');
@@ -231,7 +182,7 @@ export const listHeyGenVoicesTool = createTool({
       const selectionRequired = !inputData.autoSelect && voices.length > 1;
 
       logger.info('list_heygen_voices_success', {
-        totalFromApi: allVoices.length,
+        totalFromProvider: mappedVoices.length,
         targetLanguage: targetLanguage ?? 'all',
         targetCount: targetVoices.length,
         multilingualCount: multilingualVoices.length,
@@ -261,13 +212,18 @@ export const listHeyGenVoicesTool = createTool({
         ...(warning ? { warning } : {}),
       };
     } catch (error) {
+      if (error instanceof SyntheticVideoProviderError && error.code === 'api_error') {
+        logger.error('list_heygen_voices_api_error', { status: error.status, body: error.body?.substring(0, 300) });
+        return { success: false, error: error.message };
+      }
+
       const err = normalizeError(error);
 
       if (err.name === 'AbortError') {
-        logger.error('list_heygen_voices_timeout', { timeoutMs: HEYGEN.API_TIMEOUT_MS });
+        logger.error('list_heygen_voices_timeout', { timeoutMs });
         return {
           success: false,
-          error: `Request timed out after ${HEYGEN.API_TIMEOUT_MS}ms.`,
+          error: `Request timed out after ${timeoutMs}ms.`,
         };
       }
 
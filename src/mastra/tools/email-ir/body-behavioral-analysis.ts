@@ -6,6 +6,7 @@ import { createLogContext, loggerBehavioral, logStepStart, logStepComplete, logS
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../../services/llm-cost-service';
 import { withRetry } from '../../utils/core/resilience-utils';
 import { sanitizeEmailBody } from './email-body-sanitizer';
 
@@ -126,6 +127,8 @@ Populate the output schema based on the behavioral signals identified:
 - **Self-Check**: Before returning, verify urgency_level matches actual time-pressure phrases in the body. If no deadline/expiry language exists, urgency MUST be "low" or "none".
 `;
 
+      await assertLlmBudget('email-ir-behavioral-analysis');
+
       const result = await withRetry(
         () =>
           emailIRAnalyst.generate(prompt, {
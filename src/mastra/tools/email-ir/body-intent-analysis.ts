@@ -6,6 +6,7 @@ import { createLogContext, loggerIntent, logStepStart, logStepComplete, logStepE
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../../services/llm-cost-service';
 import { withRetry } from '../../utils/core/resilience-utils';
 import { sanitizeEmailBody } from './email-body-sanitizer';
 
@@ -172,6 +173,8 @@ Populate the output schema based on the forensic evidence identified above:
 - **Self-Check**: Before returning, verify each boolean flag (financial_request, credential_request, authority_impersonation) has a corresponding phrase or artifact in the email body. If you cannot point to specific text, the flag MUST be false.
 `;
 
+      await assertLlmBudget('email-ir-intent-analysis');
+
       const result = await withRetry(
         () =>
           emailIRAnalyst.generate(prompt, {
@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  clusterEmails,
+  fingerprintEmail,
+  fingerprintSimilarity,
+  hammingDistance,
+  normalizeSubject,
+  normalizeUrl,
+  simhash,
+} from './email-clustering';
+
+const body =
+  'Your mailbox storage is almost full. Verify your account within 24 hours to avoid losing incoming messages. ' +
+  'Click the link below to keep your mailbox active and restore full access to your email.';
+
+const report = (overrides: Record<string, unknown> = {}) => ({
+  from: 'it-support@mailbox-help.net',
+  subject: 'Mailbox quota exceeded',
+  textBody: `Dear Alice, ${body}`,
+  urls: [{ url: 'https://mailbox-help.net/verify/3f9a1c2e7b8d4e6f9a0b?u=alice' }],
+  ...overrides,
+});
+
+describe('email-clustering', () => {
+  describe('normalization', () => {
+    it('strips reply/forward/tag prefixes and masks digits in subjects', () => {
+      expect(normalizeSubject('RE: FW: [EXTERNAL] Invoice 48213 overdue')).toBe('invoice # overdue');
+      expect(normalizeSubject(undefined)).toBe('');
+    });
+
+    it('drops query strings, www and token-like path segments from URLs', () => {
+      expect(normalizeUrl('https://www.Evil.com/Login/3f9a1c2e7b8d4e6f9a0b?u=bob#x')).toBe('evil.com/login/*');
+      expect(normalizeUrl('https://evil.com/login/')).toBe('evil.com/login');
+      expect(normalizeUrl('not a url')).toBeUndefined();
+    });
+  });
+
+  describe('simhash', () => {
+    it('is deterministic and close for near-identical text', () => {
+      const a = simhash(`dear alice ${body}`.toLowerCase().split(/\W+/).filter(Boolean));
+      const b = simhash(`dear bob ${body}`.toLowerCase().split(/\W+/).filter(Boolean));
+      expect(a).toMatch(/^[0-9a-f]{16}$/);
+      expect(simhash(['a', 'b', 'c'])).toBe(simhash(['a', 'b', 'c']));
+      expect(hammingDistance(a, b)).toBeLessThanOrEqual(10);
+    });
+
+    it('returns an empty hash for empty input', () => {
+      expect(simhash([])).toBe('');
+    });
+
+    it('counts differing bits', () => {
+      expect(hammingDistance('0000000000000000', '000000000000000f')).toBe(4);
+      expect(hammingDistance('ffffffff00000000', '0000000000000000')).toBe(32);
+    });
+  });
+
+  describe('fingerprintSimilarity', () => {
+    it('scores per-recipient variants of one campaign above the threshold', () => {
+      const a = fingerprintEmail(report());
+      const b = fingerprintEmail(
+        report({
+          from: 'helpdesk@mailbox-help.net',
+          subject: 'RE: Mailbox quota exceeded',
+          textBody: `Dear Bob, ${body}`,
+          urls: [{ url: 'https://mailbox-help.net/verify/77aa1c2e7b8d4e6f9a0c?u=bob' }],
+        })
+      );
+      expect(fingerprintSimilarity(a, b)).toBeGreaterThanOrEqual(0.7);
+    });
+
+    it('does not cluster unrelated mail from the same sender', () => {
+      const a = fingerprintEmail(report());
+      const b = fingerprintEmail(
+        report({
+          subject: 'Scheduled maintenance',
+          textBody: 'The VPN gateway will be offline on Saturday between 02:00 and 04:00 for firmware upgrades.',
+          urls: [],
+        })
+      );
+      expect(fingerprintSimilarity(a, b)).toBeLessThan(0.7);
+    });
+  });
+
+  describe('clusterEmails', () => {
+    it('groups campaigns in input order with the first report as representative', () => {
+      const clusters = clusterEmails([
+        { id: 'r1', email: report() },
+        {
+          id: 'r2',
+          email: report({
+            subject: 'Newsletter',
+            from: 'news@vendor.com',
+            textBody: 'Monthly product news.',
+            urls: [],
+          }),
+        },
+        { id: 'r3', email: report({ textBody: `Dear Carol, ${body}`, from: 'noreply@mailbox-help.net' }) },
+      ]);
+
+      expect(clusters.map(c => [c.clusterId, c.representativeId, c.memberIds])).toEqual([
+        ['campaign-1', 'r1', ['r1', 'r3']],
+        ['campaign-2', 'r2', ['r2']],
+      ]);
+      expect(clusters[0].fingerprint.urls).toEqual(['mailbox-help.net/verify/*']);
+    });
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * Email Campaign Clustering
+ *
+ * Groups near-identical reported emails (same campaign sent to many employees) so
+ * bulk analysis runs the multi-LLM emailIRWorkflow once per campaign instead of once
+ * per report.
+ *
+ * Fingerprint = normalized subject + sender + URL set + 64-bit SimHash of the body.
+ * Per-recipient noise (RE:/FW: prefixes, ticket numbers, tracking query strings,
+ * "Dear <name>" greetings) is normalized away before comparison.
+ */
+
+import { EMAIL_IR } from '../../constants';
+import type { EmailIREmailData } from '../../types/email-ir';
+import { htmlToPlainText } from './email-body-sanitizer';
+
+// ─── Types ───
+
+export interface EmailFingerprint {
+  subject: string;
+  sender: string;
+  senderDomain: string;
+  /** Normalized host + path (query strings and token-like segments removed), sorted */
+  urls: string[];
+  /** 16-char hex SimHash of the body text ('' when the body is empty) */
+  bodyHash: string;
+}
+
+export interface ClusterInput {
+  id: string;
+  email: EmailIREmailData;
+}
+
+export interface EmailCluster {
+  clusterId: string;
+  representativeId: string;
+  memberIds: string[];
+  fingerprint: EmailFingerprint;
+}
+
+// ─── Normalization ───
+
+const SUBJECT_PREFIX = /^\s*(?:(?:re|fw|fwd|aw|sv|tr|wg|rv|ynt|ilt)\s*:|\[(?:external|ext|spam|suspicious)\])\s*/i;
+
+export function normalizeSubject(subject: string | undefined): string {
+  let value = (subject || '').trim();
+  let previous: string;
+  do {
+    previous = value;
+    value = value.replace(SUBJECT_PREFIX, '');
+  } while (value !== previous);
+  return value.toLowerCase().replace(/\d+/g, '#').replace(/\s+/g, ' ').trim();
+}
+
+/** Token-like path segments (ids, hashes, per-recipient links) */
+const TOKEN_SEGMENT = /^(?=.*\d)[a-z0-9_-]{16,}$|^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+export function normalizeUrl(url: string): string | undefined {
+  try {
+    const parsed = new URL(url);
+    const path = parsed.pathname
+      .split('/')
+      .map(segment => (TOKEN_SEGMENT.test(segment) ? '*' : segment.toLowerCase()))
+      .join('/')
+      .replace(/\/+$/, '');
+    return `${parsed.hostname.toLowerCase().replace(/^www\./, '')}${path}`;
+  } catch {
+    return undefined;
+  }
+}
+
+function bodyTokens(email: EmailIREmailData): string[] {
+  const text = email.textBody || htmlToPlainText(email.htmlBody || '');
+  return text
+    .toLowerCase()
+    .replace(/https?:\/\/\S+/g, ' url ')
+    .replace(/[\w.+-]+@[\w-]+(?:\.[\w-]+)+/g, ' email ')
+    .replace(/\d+/g, '0')
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter(Boolean);
+}
+
+// ─── SimHash ───
+
+function fnv1a(text: string, seed: number): number {
+  let hash = seed >>> 0;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+/** 64-bit SimHash over word 3-shingles, as 16 hex chars (two 32-bit halves). */
+export function simhash(tokens: string[]): string {
+  if (tokens.length === 0) return '';
+  const shingles = tokens.length < 3 ? [tokens.join(' ')] : [];
+  for (let i = 0; i + 3 <= tokens.length; i++) shingles.push(tokens.slice(i, i + 3).join(' '));
+
+  const weights = new Array<number>(64).fill(0);
+  for (const shingle of shingles) {
+    const halves = [fnv1a(shingle, 0x811c9dc5), fnv1a(shingle, 0x01000193)];
+    for (let bit = 0; bit < 64; bit++) {
+      const set = (halves[bit >> 5] >>> (bit & 31)) & 1;
+      weights[bit] += set ? 1 : -1;
+    }
+  }
+
+  const halves = [0, 0];
+  for (let bit = 0; bit < 64; bit++) {
+    if (weights[bit] > 0) halves[bit >> 5] |= 1 << (bit & 31);
+  }
+  return halves.map(h => (h >>> 0).toString(16).padStart(8, '0')).join('');
+}
+
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0;
+  for (let i = 0; i < a.length; i += 8) {
+    let x = (parseInt(a.slice(i, i + 8), 16) ^ parseInt(b.slice(i, i + 8), 16)) >>> 0;
+    while (x) {
+      distance += x & 1;
+      x >>>= 1;
+    }
+  }
+  return distance;
+}
+
+// ─── Fingerprint & similarity ───
+
+export function fingerprintEmail(email: EmailIREmailData): EmailFingerprint {
+  const sender = (email.from || '').trim().toLowerCase();
+  const urls = new Set<string>();
+  for (const { url } of email.urls || []) {
+    const normalized = normalizeUrl(url);
+    if (normalized) urls.add(normalized);
+  }
+  return {
+    subject: normalizeSubject(email.subject),
+    sender,
+    senderDomain: sender.split('@')[1] || '',
+    urls: Array.from(urls).sort(),
+    bodyHash: simhash(bodyTokens(email)),
+  };
+}
+
+function jaccard(a: string[], b: string[]): number {
+  if (a.length === 0 && b.length === 0) return 1;
+  const setB = new Set(b);
+  const intersection = a.filter(value => setB.has(value)).length;
+  return intersection / (a.length + b.length - intersection);
+}
+
+/**
+ * Weighted similarity (0-1). Body and URLs dominate so rotating senders or
+ * per-recipient subjects still cluster, while a shared sender alone never does.
+ */
+export function fingerprintSimilarity(a: EmailFingerprint, b: EmailFingerprint): number {
+  const { WEIGHTS, NEAR_DUPLICATE_BODY_DISTANCE, SIMILAR_BODY_DISTANCE } = EMAIL_IR.CLUSTERING;
+
+  const subject = a.subject && a.subject === b.subject ? 1 : 0;
+  const sender = a.sender && a.sender === b.sender ? 1 : a.senderDomain && a.senderDomain === b.senderDomain ? 0.5 : 0;
+  const urls = jaccard(a.urls, b.urls);
+
+  let body = 0;
+  if (!a.bodyHash && !b.bodyHash) {
+    body = 0.5;
+  } else if (a.bodyHash && b.bodyHash) {
+    const distance = hammingDistance(a.bodyHash, b.bodyHash);
+    body = distance <= NEAR_DUPLICATE_BODY_DISTANCE ? 1 : distance <= SIMILAR_BODY_DISTANCE ? 0.5 : 0;
+  }
+
+  return WEIGHTS.SUBJECT * subject + WEIGHTS.SENDER * sender + WEIGHTS.URLS * urls + WEIGHTS.BODY * body;
+}
+
+/**
+ * Leader clustering in input order: each email joins the first cluster whose
+ * representative is similar enough, otherwise it starts a new cluster.
+ * Deterministic for a given input order.
+ */
+export function clusterEmails(items: ClusterInput[]): EmailCluster[] {
+  const clusters: EmailCluster[] = [];
+  for (const { id, email } of items) {
+    const fingerprint = fingerprintEmail(email);
+    const match = clusters.find(
+      cluster => fingerprintSimilarity(cluster.fingerprint, fingerprint) >= EMAIL_IR.CLUSTERING.SIMILARITY_THRESHOLD
+    );
+    if (match) {
+      match.memberIds.push(id);
+    } else {
+      clusters.push({
+        clusterId: `campaign-${clusters.length + 1}`,
+        representativeId: id,
+        memberIds: [id],
+        fingerprint,
+      });
+    }
+  }
+  return clusters;
+}
@@ -173,6 +173,21 @@ describe('fetchEmailTool', () => {
       );
     });
 
+    it('should carry requested protectedDomains onto the email data', async () => {
+      global.fetch = vi.fn().mockResolvedValue({
+        ok: true,
+        json: () => Promise.resolve({ data: { subject: 'S', from: 'sender@test.com' } }),
+      });
+
+      const result = await (fetchEmailTool as any).execute({
+        id: 'email-123',
+        accessToken: 'token',
+        protectedDomains: ['acme.com'],
+      });
+
+      expect(result).toEqual({ subject: 'S', from: 'sender@test.com', protectedDomains: ['acme.com'] });
+    });
+
     it('should use data wrapper when API returns { data: ... }', async () => {
       const innerData = { id: 'x', subject: 'S', from: 'sender@test.com' };
       global.fetch = vi.fn().mockResolvedValue({
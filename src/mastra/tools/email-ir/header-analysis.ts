@@ -13,10 +13,13 @@ import {
   logSignalDetected,
   logAuthResults,
 } from './logger-setup';
+import { parseHeaderAuth, formatHeaderAuthFacts } from './header-auth-parser';
+import { detectEmailLookalikes, lookalikeHitSchema, summarizeLookalikes } from './lookalike-detector';
 import { withRetry } from '../../utils/core/resilience-utils';
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../../services/llm-cost-service';
 
 export const headerAnalysisOutputSchema = z.object({
   spf_pass: z.boolean().describe('True if SPF authentication passed'),
@@ -44,6 +47,10 @@ export const headerAnalysisOutputSchema = z.object({
   list_unsubscribe_present: z
     .boolean()
     .describe('True if List-Unsubscribe header exists (RFC 2369) - indicates legitimate marketing email'),
+  lookalike_domains: z
+    .array(lookalikeHitSchema)
+    .optional()
+    .describe('Deterministic lookalike/homoglyph hits (sender, reply-to, return-path, URLs) - not LLM generated'),
 
   // Pass-through context
   original_email: EmailIREmailDataSchema,
@@ -84,6 +91,10 @@ export const headerAnalysisTool = createTool({
         ? email.headers.map(h => `${h.key}: ${h.value}`).join('\n')
         : 'No headers available';
 
+      // Deterministic auth verdicts + Received chain facts (override LLM guesses below)
+      const authFacts = parseHeaderAuth(email.headers || [], email.from);
+      const lookalikeHits = detectEmailLookalikes(email);
+
       const hasSecurityAwarenessHeader = Array.from(headerMap.entries()).some(([key, value]) => {
         if (!key) return false;
         const k = key.toLowerCase();
@@ -170,6 +181,7 @@ Your goal is to validate authentication (SPF/DKIM/DMARC), check for routing anom
 - Does sender domain closely mimic a trusted brand? (keepnetlabs.co vs keepnetlabs.com)
 - Look for typosquatting patterns (1 character off from legitimate domain)
 - Common attacks: o→0, i→1, rn→m, etc.
+- **Rule**: If "Lookalike Domain Hits" lists matches, describe those in domain_similarity; do not invent other targets.
 
 ### IP Reputation
 - Is sender IP known to be malicious, blocklisted, or suspicious?
@@ -208,6 +220,12 @@ ${attachmentSection}
 **Authentication-Results Header**:
 ${authResults}
 
+**Parsed Authentication & Routing Facts (deterministic — authoritative)**:
+${formatHeaderAuthFacts(authFacts)}
+
+**Lookalike Domain Hits (deterministic — authoritative)**:
+${lookalikeHits.length > 0 ? JSON.stringify(lookalikeHits.slice(0, 5), null, 2) : 'None detected against protected company/brand domains'}
+
 **Security Awareness Header Detected (heuristic)**:
 ${hasSecurityAwarenessHeader}
 
@@ -239,12 +257,17 @@ Based on headers provided:
 Note: If header data is incomplete or missing, use the exact string "insufficient_data" for fields you cannot assess.
 
 Self-Check: Before returning, verify each boolean (spf_pass, dkim_pass, dmarc_pass) matches an explicit value in the Authentication-Results header. If the header doesn't contain the keyword, the value MUST be false.
+The "Parsed Authentication & Routing Facts" block is computed deterministically. Do not contradict it; base routing_anomaly and header_summary on those facts (alignment, hop delays, network transitions).
 `;
 
+      await assertLlmBudget('email-ir-header-analysis');
+
       const result = await withRetry(
         () =>
           emailIRAnalyst.generate(prompt, {
-            structuredOutput: { schema: headerAnalysisOutputSchema.omit({ original_email: true }) },
+            structuredOutput: {
+              schema: headerAnalysisOutputSchema.omit({ original_email: true, lookalike_domains: true }),
+            },
           }),
         'header-analysis-llm'
       );
@@ -252,27 +275,40 @@ Self-Check: Before returning, verify each boolean (spf_pass, dkim_pass, dmarc_pa
       timing.mark('llm-analysis-complete');
       trackAgentCost('email-ir-header-analysis', result, emailIRAnalyst.model);
 
+      // Parsed verdicts win over the model's inference so results are reproducible between runs
+      const spfPass = authFacts.spf.result === 'pass';
+      const dkimPass = authFacts.dkim.result === 'pass';
+      const dmarcPass = authFacts.dmarc.result === 'pass';
+      const routingAnomaly =
+        authFacts.routingAnomalies.length > 0
+          ? authFacts.routingAnomalies.join('; ')
+          : authFacts.hops.length === 0
+            ? 'insufficient_data'
+            : result.object.routing_anomaly;
+      const domainSimilarity =
+        lookalikeHits.length > 0 ? summarizeLookalikes(lookalikeHits) : result.object.domain_similarity;
+
       // Log authentication results
       logAuthResults(
         loggerHeader,
         emailId,
-        result.object.spf_pass,
-        result.object.dkim_pass,
-        result.object.dmarc_pass,
-        result.object.domain_similarity
+        spfPass,
+        dkimPass,
+        dmarcPass,
+        domainSimilarity
       );
 
       // Log detected signals
-      if (!result.object.spf_pass) {
+      if (!spfPass) {
         logSignalDetected(loggerHeader, emailId, 'authentication', 'SPF_FAILED', 'high');
       }
-      if (!result.object.dkim_pass) {
+      if (!dkimPass) {
         logSignalDetected(loggerHeader, emailId, 'authentication', 'DKIM_FAILED', 'high');
       }
-      if (!result.object.dmarc_pass) {
+      if (!dmarcPass) {
         logSignalDetected(loggerHeader, emailId, 'authentication', 'DMARC_FAILED', 'high');
       }
-      if (result.object.domain_similarity !== 'insufficient_data') {
+      if (domainSimilarity !== 'insufficient_data') {
         logSignalDetected(loggerHeader, emailId, 'domain', 'TYPOSQUATTING_DETECTED', 'high');
       }
       if (result.object.geolocation_anomaly !== 'insufficient_data') {
@@ -284,13 +320,21 @@ Self-Check: Before returning, verify each boolean (spf_pass, dkim_pass, dmarc_pa
 
       // Log completion
       logStepComplete(loggerHeader, ctx, {
-        spf_pass: result.object.spf_pass,
-        dkim_pass: result.object.dkim_pass,
-        dmarc_pass: result.object.dmarc_pass,
+        spf_pass: spfPass,
+        dkim_pass: dkimPass,
+        dmarc_pass: dmarcPass,
+        hop_count: authFacts.hops.length,
+        lookalike_hits: lookalikeHits.length,
       });
 
       return {
         ...result.object,
+        spf_pass: spfPass,
+        dkim_pass: dkimPass,
+        dmarc_pass: dmarcPass,
+        routing_anomaly: routingAnomaly,
+        domain_similarity: domainSimilarity,
+        lookalike_domains: lookalikeHits,
         original_email: email,
         security_awareness_detected:
           result.object.security_awareness_detected || hasSecurityAwarenessHeader || hasSimulationResult,
@@ -0,0 +1,170 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatHeaderAuthFacts,
+  getOrganizationalDomain,
+  parseAuthenticationResults,
+  parseHeaderAuth,
+  parseReceivedChain,
+  parseReceivedHeader,
+} from './header-auth-parser';
+
+const h = (key: string, value: string) => ({ key, value });
+
+// Top-down order as delivered: recipient MTA first, origin last
+const phishHeaders = [
+  h(
+    'Received',
+    'from mx.internal.corp (mx.internal.corp [10.0.0.5]) by mailbox.corp.com with SMTP; Tue, 14 Jan 2025 10:15:30 +0000'
+  ),
+  h(
+    'Received',
+    'from mail.evil-sender.com (mail.evil-sender.com [203.0.113.45]) by mx.internal.corp with ESMTPS id abc; Tue, 14 Jan 2025 10:15:00 +0000'
+  ),
+  h(
+    'Received',
+    'from [192.168.1.20] (unknown [198.51.100.7]) by mail.evil-sender.com; Tue, 14 Jan 2025 10:14:58 +0000'
+  ),
+  h(
+    'Authentication-Results',
+    'mx.internal.corp; spf=softfail (sender IP is 203.0.113.45) smtp.mailfrom=bounce@evil-sender.com; dkim=pass header.d=evil-sender.com; dmarc=fail (p=REJECT) header.from=paypal.com'
+  ),
+  // Attacker-inserted result further down must be ignored
+  h('Authentication-Results', 'fake.evil-sender.com; spf=pass; dkim=pass; dmarc=pass'),
+  h('From', 'PayPal <service@paypal.com>'),
+  h('Return-Path', '<bounce@evil-sender.com>'),
+];
+
+describe('header-auth-parser', () => {
+  describe('parseAuthenticationResults', () => {
+    it('parses methods, verdicts and ptype properties while skipping comments', () => {
+      const results = parseAuthenticationResults(
+        'mx.example.com; spf=pass (domain of a@b.com designates 1.2.3.4) smtp.mailfrom=a@b.com; dkim=fail (bad sig) header.d=b.com header.s=s1'
+      );
+      expect(results).toEqual([
+        { method: 'spf', result: 'pass', props: { 'smtp.mailfrom': 'a@b.com' } },
+        { method: 'dkim', result: 'fail', props: { 'header.d': 'b.com', 'header.s': 's1' } },
+      ]);
+    });
+
+    it('maps legacy and unknown verdicts', () => {
+      const [spf, dkim] = parseAuthenticationResults('mx; spf=hardfail; dkim=weird');
+      expect(spf.result).toBe('fail');
+      expect(dkim.result).toBe('unknown');
+    });
+  });
+
+  describe('getOrganizationalDomain', () => {
+    it('keeps two labels, or three for multi-label suffixes', () => {
+      expect(getOrganizationalDomain('mail.eu.paypal.com')).toBe('paypal.com');
+      expect(getOrganizationalDomain('bounce.shop.co.uk')).toBe('shop.co.uk');
+      expect(getOrganizationalDomain('example.com.')).toBe('example.com');
+    });
+  });
+
+  describe('Received chain', () => {
+    it('parses hosts, connecting IP, protocol and timestamp', () => {
+      expect(parseReceivedHeader(phishHeaders[2].value, 1)).toEqual({
+        index: 1,
+        fromHost: '192.168.1.20',
+        fromIp: '198.51.100.7',
+        byHost: 'mail.evil-sender.com',
+        timestamp: '2025-01-14T10:14:58.000Z',
+      });
+    });
+
+    it('orders hops origin → recipient with per-hop delays', () => {
+      const hops = parseReceivedChain(phishHeaders);
+      expect(hops.map(hop => hop.byHost)).toEqual(['mail.evil-sender.com', 'mx.internal.corp', 'mailbox.corp.com']);
+      expect(hops.map(hop => hop.delaySeconds)).toEqual([undefined, 2, 30]);
+      expect(hops[1].protocol).toBe('ESMTPS');
+    });
+  });
+
+  describe('parseHeaderAuth', () => {
+    it('trusts only the topmost Authentication-Results header', () => {
+      const facts = parseHeaderAuth(phishHeaders);
+      expect(facts.spf).toEqual({ result: 'softfail', source: 'authentication-results', domain: 'evil-sender.com' });
+      expect(facts.dkim).toEqual({ result: 'pass', source: 'authentication-results', domain: 'evil-sender.com' });
+      expect(facts.dmarc).toEqual({ result: 'fail', source: 'authentication-results', domain: 'paypal.com' });
+    });
+
+    it('computes header-from vs envelope-from and DKIM alignment', () => {
+      const facts = parseHeaderAuth(phishHeaders);
+      expect(facts.headerFromDomain).toBe('paypal.com');
+      expect(facts.envelopeFromDomain).toBe('evil-sender.com');
+      expect(facts.envelopeFromAligned).toBe(false);
+      expect(facts.dkimAligned).toBe(false);
+    });
+
+    it('records the public-to-private transition at the recipient edge', () => {
+      const facts = parseHeaderAuth(phishHeaders);
+      expect(facts.transitions).toEqual([{ hop: 3, direction: 'public_to_private' }]);
+      expect(facts.routingAnomalies).toEqual([]);
+    });
+
+    it('falls back to Received-SPF when Authentication-Results has no SPF result', () => {
+      const facts = parseHeaderAuth([
+        h(
+          'Received-SPF',
+          'Fail (protection.outlook.com: domain does not designate) envelope-from=x@spoof.net; client-ip=1.2.3.4'
+        ),
+        h('From', 'x@spoof.net'),
+      ]);
+      expect(facts.spf).toEqual({ result: 'fail', source: 'received-spf', domain: 'spoof.net' });
+      expect(facts.dkim).toEqual({ result: 'none', source: 'absent' });
+      expect(facts.envelopeFromAligned).toBe(true);
+    });
+
+    it('uses ARC-Authentication-Results only when the receiver reports arc=pass', () => {
+      const arcHeaders = [
+        h('ARC-Seal', 'i=2; a=rsa-sha256; cv=pass; d=lists.example.org; s=arc; b=xyz'),
+        h('ARC-Seal', 'i=1; a=rsa-sha256; cv=none; d=google.com; s=arc; b=abc'),
+        h('ARC-Authentication-Results', 'i=2; lists.example.org; spf=fail; dkim=fail'),
+        h(
+          'ARC-Authentication-Results',
+          'i=1; mx.google.com; spf=pass smtp.mailfrom=a@corp.com; dkim=pass header.d=corp.com'
+        ),
+      ];
+
+      const trusted = parseHeaderAuth([h('Authentication-Results', 'mx.corp.com; arc=pass'), ...arcHeaders]);
+      expect(trusted.arc).toEqual({ instances: 2, declaredChainValidation: 'pass', receiverVerdict: 'pass' });
+      expect(trusted.spf).toEqual({ result: 'pass', source: 'arc-authentication-results', domain: 'corp.com' });
+
+      const untrusted = parseHeaderAuth([h('Authentication-Results', 'mx.corp.com; arc=fail'), ...arcHeaders]);
+      expect(untrusted.spf.source).toBe('absent');
+    });
+
+    it('flags backwards timestamps, long delays and repeated egress', () => {
+      const facts = parseHeaderAuth([
+        h('Received', 'from relay2 (relay2 [198.51.100.2]) by mx.corp.com; Tue, 14 Jan 2025 08:00:00 +0000'),
+        h('Received', 'from internal (internal [10.1.1.1]) by relay2; Tue, 14 Jan 2025 10:00:00 +0000'),
+        h('Received', 'from relay1 (relay1 [198.51.100.1]) by internal; Tue, 14 Jan 2025 07:00:00 +0000'),
+        h('Received', 'from client (client [192.168.0.2]) by relay1; Tue, 14 Jan 2025 06:59:00 +0000'),
+      ]);
+
+      expect(facts.hops).toHaveLength(4);
+      expect(facts.routingAnomalies).toEqual([
+        'Long delay at hop 3 (10800s)',
+        'Timestamp goes backwards at hop 4 (-7200s) - possible forged Received header',
+        'Multiple private-to-public transitions (2) - message re-entered the internet via internal relays',
+      ]);
+    });
+
+    it('returns absent verdicts and no hops for empty headers', () => {
+      const facts = parseHeaderAuth([], 'user@example.com');
+      expect(facts.spf.source).toBe('absent');
+      expect(facts.hops).toEqual([]);
+      expect(facts.headerFromDomain).toBe('example.com');
+    });
+  });
+
+  describe('formatHeaderAuthFacts', () => {
+    it('renders verdicts, alignment and hop lines', () => {
+      const text = formatHeaderAuthFacts(parseHeaderAuth(phishHeaders));
+      expect(text).toContain('- DMARC: fail (source: authentication-results, domain: paypal.com)');
+      expect(text).toContain('- Envelope From domain: evil-sender.com (NOT aligned)');
+      expect(text).toContain('2. from mail.evil-sender.com [203.0.113.45] by mx.internal.corp with ESMTPS (+2s)');
+      expect(text).toContain('- Routing anomalies: none detected');
+    });
+  });
+});
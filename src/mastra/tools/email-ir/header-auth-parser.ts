@@ -0,0 +1,425 @@
+/**
+ * Deterministic Header Authentication & Routing Parser
+ *
+ * Parses Authentication-Results (RFC 8601), ARC-* (RFC 8617), Received-SPF (RFC 7208 §9.1)
+ * and the Received hop chain (RFC 5321 §4.4) into structured facts.
+ *
+ * headerAnalysisTool feeds these facts to the LLM and overrides the model's
+ * spf/dkim/dmarc booleans and routing verdict with them, so auth verdicts are
+ * reproducible between runs instead of being re-inferred from the raw header dump.
+ */
+
+import type { EmailIREmailData } from '../../types/email-ir';
+import { isPrivateIp, parseAddressList } from './raw-email-parser';
+
+type EmailHeader = NonNullable<EmailIREmailData['headers']>[number];
+
+// ─── Thresholds ───
+
+/** Hop counts above this are flagged (typical legitimate mail: 3-8 hops) */
+const MAX_NORMAL_HOPS = 10;
+/** Per-hop delay above this is flagged as a long delay */
+const LONG_HOP_DELAY_SECONDS = 60 * 60;
+/** Tolerated clock skew before a backwards timestamp is flagged */
+const CLOCK_SKEW_TOLERANCE_SECONDS = 5 * 60;
+
+/** Two-label public suffixes where the organizational domain needs three labels */
+const MULTI_LABEL_SUFFIXES = new Set([
+  'co.uk',
+  'org.uk',
+  'ac.uk',
+  'gov.uk',
+  'me.uk',
+  'ltd.uk',
+  'plc.uk',
+  'com.au',
+  'net.au',
+  'org.au',
+  'edu.au',
+  'gov.au',
+  'co.nz',
+  'org.nz',
+  'co.jp',
+  'ne.jp',
+  'or.jp',
+  'co.kr',
+  'or.kr',
+  'com.tr',
+  'net.tr',
+  'org.tr',
+  'gov.tr',
+  'edu.tr',
+  'gen.tr',
+  'com.br',
+  'net.br',
+  'org.br',
+  'com.cn',
+  'net.cn',
+  'org.cn',
+  'com.mx',
+  'com.ar',
+  'co.in',
+  'net.in',
+  'org.in',
+  'co.za',
+  'org.za',
+  'com.sg',
+  'com.hk',
+  'com.tw',
+  'co.il',
+  'com.sa',
+  'com.eg',
+  'co.id',
+]);
+
+// ─── Types ───
+
+export type AuthVerdict =
+  'pass' | 'fail' | 'softfail' | 'neutral' | 'none' | 'policy' | 'temperror' | 'permerror' | 'unknown';
+
+export type AuthSource = 'authentication-results' | 'arc-authentication-results' | 'received-spf' | 'absent';
+
+export interface AuthMethodResult {
+  result: AuthVerdict;
+  source: AuthSource;
+  /** Domain the verdict applies to (smtp.mailfrom, header.d, header.from) */
+  domain?: string;
+}
+
+export interface ArcSummary {
+  instances: number;
+  /** cv= declared by the highest-instance ARC-Seal (not cryptographically verified here) */
+  declaredChainValidation?: string;
+  /** arc= verdict reported by the receiving MTA in Authentication-Results */
+  receiverVerdict?: AuthVerdict;
+}
+
+export interface ReceivedHop {
+  /** 1 = origin (bottom-most Received header) */
+  index: number;
+  fromHost?: string;
+  fromIp?: string;
+  byHost?: string;
+  protocol?: string;
+  timestamp?: string;
+  /** Seconds since the previous hop (undefined when either timestamp is missing) */
+  delaySeconds?: number;
+}
+
+export interface NetworkTransition {
+  hop: number;
+  direction: 'private_to_public' | 'public_to_private';
+}
+
+export interface HeaderAuthFacts {
+  spf: AuthMethodResult;
+  dkim: AuthMethodResult;
+  dmarc: AuthMethodResult;
+  arc: ArcSummary;
+  headerFromDomain?: string;
+  envelopeFromDomain?: string;
+  /** Relaxed alignment of header From vs envelope From (undefined when either is missing) */
+  envelopeFromAligned?: boolean;
+  /** Relaxed alignment of header From vs the passing DKIM d= domain */
+  dkimAligned?: boolean;
+  hops: ReceivedHop[];
+  transitions: NetworkTransition[];
+  routingAnomalies: string[];
+}
+
+interface ResultInfo {
+  method: string;
+  result: AuthVerdict;
+  props: Record<string, string>;
+}
+
+// ─── Helpers ───
+
+const KNOWN_VERDICTS = new Set<AuthVerdict>([
+  'pass',
+  'fail',
+  'softfail',
+  'neutral',
+  'none',
+  'policy',
+  'temperror',
+  'permerror',
+]);
+
+function toVerdict(value: string | undefined): AuthVerdict {
+  const lower = (value || '').toLowerCase();
+  // RFC 7601 legacy spellings
+  if (lower === 'hardfail') return 'fail';
+  if (lower === 'temperr') return 'temperror';
+  if (lower === 'permerr') return 'permerror';
+  return KNOWN_VERDICTS.has(lower as AuthVerdict) ? (lower as AuthVerdict) : 'unknown';
+}
+
+function getAll(headers: EmailHeader[], name: string): string[] {
+  const lower = name.toLowerCase();
+  return headers.filter(h => h.key.toLowerCase() === lower).map(h => h.value);
+}
+
+function stripComments(value: string): string {
+  let out = '';
+  let depth = 0;
+  let quoted = false;
+  for (const ch of value) {
+    if (ch === '"' && depth === 0) quoted = !quoted;
+    if (!quoted && ch === '(') depth++;
+    if (depth === 0) out += ch;
+    if (!quoted && ch === ')' && depth > 0) depth--;
+  }
+  return out;
+}
+
+function domainOf(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const cleaned = value.replace(/^["<]+|[">]+$/g, '').trim();
+  const domain = cleaned.includes('@') ? cleaned.split('@').pop() : cleaned;
+  return domain ? domain.toLowerCase().replace(/\.$/, '') : undefined;
+}
+
+/**
+ * Approximate organizational domain (RFC 7489 §3.2) without a full Public Suffix List:
+ * last two labels, or three when the last two form a known multi-label suffix.
+ */
+export function getOrganizationalDomain(domain: string): string {
+  const labels = domain.toLowerCase().replace(/\.$/, '').split('.').filter(Boolean);
+  if (labels.length <= 2) return labels.join('.');
+  const lastTwo = labels.slice(-2).join('.');
+  return labels.slice(MULTI_LABEL_SUFFIXES.has(lastTwo) ? -3 : -2).join('.');
+}
+
+function isAligned(a: string | undefined, b: string | undefined): boolean | undefined {
+  if (!a || !b) return undefined;
+  return getOrganizationalDomain(a) === getOrganizationalDomain(b);
+}
+
+// ─── Authentication-Results / ARC ───
+
+/** Parse the resinfo list of an Authentication-Results value (authserv-id is skipped). */
+export function parseAuthenticationResults(value: string): ResultInfo[] {
+  const segments = stripComments(value).split(';').slice(1);
+  const results: ResultInfo[] = [];
+  for (const segment of segments) {
+    const match = segment.match(/^\s*([a-z0-9_-]+)\s*=\s*([a-z]+)/i);
+    if (!match) continue;
+    const props: Record<string, string> = {};
+    for (const prop of segment.matchAll(/\b((?:smtp|header|body|policy)\.[a-z0-9_-]+)\s*=\s*("[^"]*"|[^\s;]+)/gi)) {
+      props[prop[1].toLowerCase()] = prop[2].replace(/^"|"$/g, '');
+    }
+    results.push({ method: match[1].toLowerCase(), result: toVerdict(match[2]), props });
+  }
+  return results;
+}
+
+function instanceOf(value: string): number {
+  const match = value.match(/^\s*i\s*=\s*(\d+)/i);
+  return match ? Number(match[1]) : 0;
+}
+
+function pickMethod(results: ResultInfo[], method: string): ResultInfo | undefined {
+  const matches = results.filter(r => r.method === method);
+  // Multiple DKIM signatures: any pass wins, otherwise report the first verdict
+  return matches.find(r => r.result === 'pass') ?? matches[0];
+}
+
+function toMethodResult(info: ResultInfo | undefined, source: AuthSource, domainProps: string[]): AuthMethodResult {
+  if (!info) return { result: 'none', source: 'absent' };
+  const domainProp = domainProps.map(p => info.props[p]).find(Boolean);
+  return { result: info.result, source, domain: domainOf(domainProp) };
+}
+
+function summarizeArc(headers: EmailHeader[], receiverResults: ResultInfo[]): ArcSummary {
+  const seals = getAll(headers, 'ARC-Seal');
+  const highest = seals.reduce<string | undefined>(
+    (best, seal) => (best === undefined || instanceOf(seal) > instanceOf(best) ? seal : best),
+    undefined
+  );
+  const cv = highest?.match(/\bcv\s*=\s*([a-z]+)/i)?.[1]?.toLowerCase();
+  const receiverArc = pickMethod(receiverResults, 'arc');
+  return {
+    instances: seals.length,
+    ...(cv && { declaredChainValidation: cv }),
+    ...(receiverArc && { receiverVerdict: receiverArc.result }),
+  };
+}
+
+// ─── Received chain ───
+
+/** Connecting IP of a Received header: TCP-info in the from-clause comment beats the claimed HELO. */
+function receivedFromIp(fromClause: string): string | undefined {
+  const ipPattern = /\[(?:IPv6:)?([0-9a-fA-F:.]+)\]|\b(\d{1,3}(?:\.\d{1,3}){3})\b/g;
+  const comment = fromClause.match(/\(([^)]*)\)/)?.[1];
+  for (const source of [comment, fromClause]) {
+    if (!source) continue;
+    for (const match of source.matchAll(ipPattern)) {
+      const ip = match[1] || match[2];
+      if (ip && (ip.includes(':') || /^\d/.test(ip))) return ip;
+    }
+  }
+  return undefined;
+}
+
+export function parseReceivedHeader(value: string, index: number): ReceivedHop {
+  const semicolon = value.lastIndexOf(';');
+  const route = semicolon >= 0 ? value.slice(0, semicolon) : value;
+  const dateText = semicolon >= 0 ? value.slice(semicolon + 1).trim() : '';
+  const parsedDate = dateText ? new Date(dateText.replace(/\s*\([^)]*\)\s*$/, '')) : undefined;
+
+  const fromClause = /^\s*from\s/i.test(route) ? route.split(/\s(?:by|with|id|for|via)\s/i)[0] : '';
+  const fromHost = fromClause.match(/^\s*from\s+([^\s(]+)/i)?.[1];
+  const byHost = route.match(/\sby\s+([^\s(;]+)/i)?.[1] ?? route.match(/^\s*by\s+([^\s(;]+)/i)?.[1];
+  const protocol = route.match(/\swith\s+([^\s(;]+)/i)?.[1];
+  const fromIp = fromClause ? receivedFromIp(fromClause) : undefined;
+
+  return {
+    index,
+    ...(fromHost && { fromHost: fromHost.replace(/^\[|\]$/g, '') }),
+    ...(fromIp && { fromIp }),
+    ...(byHost && { byHost }),
+    ...(protocol && { protocol: protocol.toUpperCase() }),
+    ...(parsedDate && !isNaN(parsedDate.getTime()) && { timestamp: parsedDate.toISOString() }),
+  };
+}
+
+/** Received headers are prepended, so the chain is reversed to run origin → recipient. */
+export function parseReceivedChain(headers: EmailHeader[]): ReceivedHop[] {
+  const hops = getAll(headers, 'Received')
+    .reverse()
+    .map((value, i) => parseReceivedHeader(value, i + 1));
+
+  for (let i = 1; i < hops.length; i++) {
+    const previous = hops[i - 1].timestamp;
+    const current = hops[i].timestamp;
+    if (previous && current) {
+      hops[i].delaySeconds = Math.round((Date.parse(current) - Date.parse(previous)) / 1000);
+    }
+  }
+  return hops;
+}
+
+function findTransitions(hops: ReceivedHop[]): NetworkTransition[] {
+  const transitions: NetworkTransition[] = [];
+  let previousPrivate: boolean | undefined;
+  for (const hop of hops) {
+    if (!hop.fromIp) continue;
+    const isPrivate = isPrivateIp(hop.fromIp);
+    if (previousPrivate !== undefined && previousPrivate !== isPrivate) {
+      transitions.push({ hop: hop.index, direction: isPrivate ? 'public_to_private' : 'private_to_public' });
+    }
+    previousPrivate = isPrivate;
+  }
+  return transitions;
+}
+
+function detectRoutingAnomalies(hops: ReceivedHop[], transitions: NetworkTransition[]): string[] {
+  const anomalies: string[] = [];
+  if (hops.length > MAX_NORMAL_HOPS) {
+    anomalies.push(`Unusual hop count (${hops.length} Received headers)`);
+  }
+  for (const hop of hops) {
+    if (hop.delaySeconds === undefined) continue;
+    if (hop.delaySeconds < -CLOCK_SKEW_TOLERANCE_SECONDS) {
+      anomalies.push(
+        `Timestamp goes backwards at hop ${hop.index} (${hop.delaySeconds}s) - possible forged Received header`
+      );
+    } else if (hop.delaySeconds > LONG_HOP_DELAY_SECONDS) {
+      anomalies.push(`Long delay at hop ${hop.index} (${hop.delaySeconds}s)`);
+    }
+  }
+  // Normal mail leaves a private network at most once (submission → internet)
+  const egressCount = transitions.filter(t => t.direction === 'private_to_public').length;
+  if (egressCount > 1) {
+    anomalies.push(
+      `Multiple private-to-public transitions (${egressCount}) - message re-entered the internet via internal relays`
+    );
+  }
+  return anomalies;
+}
+
+// ─── Public API ───
+
+/**
+ * Build deterministic auth + routing facts from the raw header list.
+ * The topmost Authentication-Results header is trusted (added by the receiving MTA);
+ * ARC-Authentication-Results is only used when the receiver reports arc=pass.
+ */
+export function parseHeaderAuth(headers: EmailHeader[], fallbackFrom?: string): HeaderAuthFacts {
+  const authResults = getAll(headers, 'Authentication-Results');
+  const receiverResults = authResults.length > 0 ? parseAuthenticationResults(authResults[0]) : [];
+
+  const arc = summarizeArc(headers, receiverResults);
+  const arcTrusted = arc.receiverVerdict === 'pass';
+  const arcResults = arcTrusted
+    ? getAll(headers, 'ARC-Authentication-Results')
+        .sort((a, b) => instanceOf(a) - instanceOf(b))
+        .slice(0, 1)
+        .flatMap(value => parseAuthenticationResults(value.replace(/^\s*i\s*=\s*\d+\s*;/i, '')))
+    : [];
+
+  const resolve = (method: string, domainProps: string[]): AuthMethodResult => {
+    const own = pickMethod(receiverResults, method);
+    if (own) return toMethodResult(own, 'authentication-results', domainProps);
+    return toMethodResult(pickMethod(arcResults, method), 'arc-authentication-results', domainProps);
+  };
+
+  let spf = resolve('spf', ['smtp.mailfrom', 'smtp.helo']);
+  const receivedSpf = getAll(headers, 'Received-SPF')[0];
+  if (spf.source === 'absent' && receivedSpf) {
+    const envelope = receivedSpf.match(/\benvelope-from\s*=\s*"?([^\s;"]+)/i)?.[1];
+    spf = { result: toVerdict(receivedSpf.trim().split(/\s/)[0]), source: 'received-spf', domain: domainOf(envelope) };
+  }
+  const dkim = resolve('dkim', ['header.d', 'header.i']);
+  const dmarc = resolve('dmarc', ['header.from']);
+
+  const fromHeader = getAll(headers, 'From')[0];
+  const headerFromDomain = domainOf(parseAddressList(fromHeader)[0]?.address ?? fallbackFrom) ?? dmarc.domain;
+  const envelopeFromDomain = spf.domain ?? domainOf(getAll(headers, 'Return-Path')[0]);
+
+  const hops = parseReceivedChain(headers);
+  const transitions = findTransitions(hops);
+
+  return {
+    spf,
+    dkim,
+    dmarc,
+    arc,
+    ...(headerFromDomain && { headerFromDomain }),
+    ...(envelopeFromDomain && { envelopeFromDomain }),
+    envelopeFromAligned: isAligned(headerFromDomain, envelopeFromDomain),
+    dkimAligned: dkim.result === 'pass' ? isAligned(headerFromDomain, dkim.domain) : undefined,
+    hops,
+    transitions,
+    routingAnomalies: detectRoutingAnomalies(hops, transitions),
+  };
+}
+
+/** Render facts as a compact prompt block. */
+export function formatHeaderAuthFacts(facts: HeaderAuthFacts): string {
+  const method = (name: string, r: AuthMethodResult) =>
+    `- ${name}: ${r.result} (source: ${r.source}${r.domain ? `, domain: ${r.domain}` : ''})`;
+  const alignment = (value: boolean | undefined) =>
+    value === undefined ? 'unknown' : value ? 'aligned' : 'NOT aligned';
+  const hopLines = facts.hops.map(
+    hop =>
+      `  ${hop.index}. from ${hop.fromHost ?? '?'} [${hop.fromIp ?? '?'}] by ${hop.byHost ?? '?'}` +
+      `${hop.protocol ? ` with ${hop.protocol}` : ''}${hop.delaySeconds !== undefined ? ` (${hop.delaySeconds >= 0 ? '+' : ''}${hop.delaySeconds}s)` : ''}`
+  );
+
+  return [
+    method('SPF', facts.spf),
+    method('DKIM', facts.dkim),
+    method('DMARC', facts.dmarc),
+    `- ARC: ${facts.arc.instances} instance(s)` +
+      `${facts.arc.declaredChainValidation ? `, declared cv=${facts.arc.declaredChainValidation}` : ''}` +
+      `${facts.arc.receiverVerdict ? `, receiver arc=${facts.arc.receiverVerdict}` : ''}`,
+    `- Header From domain: ${facts.headerFromDomain ?? 'unknown'}`,
+    `- Envelope From domain: ${facts.envelopeFromDomain ?? 'unknown'} (${alignment(facts.envelopeFromAligned)})`,
+    `- DKIM alignment: ${alignment(facts.dkimAligned)}`,
+    `- Received hops (origin → recipient): ${facts.hops.length}`,
+    ...hopLines,
+    `- Routing anomalies: ${facts.routingAnomalies.length > 0 ? facts.routingAnomalies.join('; ') : 'none detected'}`,
+  ].join('\n');
+}
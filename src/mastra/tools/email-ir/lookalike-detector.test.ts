@@ -0,0 +1,137 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildProtectedDomains,
+  collectCandidateDomains,
+  confusableSkeleton,
+  damerauLevenshtein,
+  detectEmailLookalikes,
+  detectLookalikeDomains,
+  summarizeLookalikes,
+  toUnicodeDomain,
+} from './lookalike-detector';
+
+const detect = (host: string, protectedDomains: string[], source: 'sender' | 'url' = 'sender') =>
+  detectLookalikeDomains([{ source, host }], protectedDomains);
+
+describe('lookalike-detector', () => {
+  describe('toUnicodeDomain', () => {
+    it('decodes punycode labels (RFC 3492)', () => {
+      expect(toUnicodeDomain('xn--pypal-4ve.com')).toBe('pаypal.com'); // Cyrillic а
+      expect(toUnicodeDomain('xn--mnchen-3ya.de')).toBe('münchen.de');
+      expect(toUnicodeDomain('login.xn--ggle-55da.com')).toBe('login.gооgle.com');
+    });
+
+    it('leaves ASCII and malformed labels untouched', () => {
+      expect(toUnicodeDomain('paypal.com')).toBe('paypal.com');
+      expect(toUnicodeDomain('xn--!!.com')).toBe('xn--!!.com');
+    });
+  });
+
+  describe('confusableSkeleton', () => {
+    it('maps Cyrillic/Greek confusables and ASCII swaps to the same skeleton', () => {
+      expect(confusableSkeleton('pаypal')).toBe(confusableSkeleton('paypal'));
+      expect(confusableSkeleton('rnicrosoft')).toBe(confusableSkeleton('microsoft'));
+      expect(confusableSkeleton('paypa1')).toBe(confusableSkeleton('paypal'));
+      expect(confusableSkeleton('g00gle')).toBe(confusableSkeleton('google'));
+    });
+  });
+
+  describe('damerauLevenshtein', () => {
+    it('counts adjacent transpositions as one edit', () => {
+      expect(damerauLevenshtein('micorsoft', 'microsoft')).toBe(1);
+      expect(damerauLevenshtein('paypall', 'paypal')).toBe(1);
+      expect(damerauLevenshtein('kitten', 'sitting')).toBe(3);
+    });
+  });
+
+  describe('detectLookalikeDomains', () => {
+    it('flags IDN homoglyphs with the highest score', () => {
+      const [hit] = detect('pаypal.com', ['paypal.com']);
+      expect(hit).toMatchObject({ technique: 'homoglyph', target: 'paypal.com', score: 0.95 });
+    });
+
+    it('flags ASCII character swaps as homoglyphs', () => {
+      expect(detect('paypa1.com', ['paypal.com'])[0]).toMatchObject({ technique: 'homoglyph', score: 0.9 });
+    });
+
+    it('flags typosquats within edit distance', () => {
+      expect(detect('micorsoft.com', ['microsoft.com'])[0]).toMatchObject({ technique: 'edit_distance', score: 0.85 });
+      expect(detect('keepnetlbas.net', ['keepnetlabs.com'])[0]).toMatchObject({
+        technique: 'edit_distance',
+        score: 0.8,
+      });
+    });
+
+    it('flags TLD swaps', () => {
+      expect(detect('keepnetlabs.co', ['keepnetlabs.com'])[0]).toMatchObject({
+        technique: 'tld_swap',
+        target: 'keepnetlabs.com',
+        score: 0.85,
+      });
+    });
+
+    it('flags combosquatting and subdomain spoofing', () => {
+      expect(detect('paypal-secure-login.com', ['paypal.com'])[0].technique).toBe('combosquatting');
+      expect(detect('docusignreview.net', ['docusign.com'])[0]).toMatchObject({
+        technique: 'combosquatting',
+        score: 0.65,
+      });
+      expect(detect('paypal.com.account-verify.net', ['paypal.com'])[0].technique).toBe('subdomain_spoof');
+    });
+
+    it('never flags the protected domain itself or its subdomains', () => {
+      expect(detect('paypal.com', ['paypal.com'])).toEqual([]);
+      expect(detect('www.paypal.com', ['paypal.com'])).toEqual([]);
+      expect(detect('mail.corp.co.uk', ['corp.co.uk'])).toEqual([]);
+    });
+
+    it('ignores unrelated domains and short brand labels for fuzzy checks', () => {
+      expect(detect('example.org', ['paypal.com'])).toEqual([]);
+      expect(detect('upx.com', ['ups.com'])).toEqual([]);
+    });
+  });
+
+  describe('email-level helpers', () => {
+    const email = {
+      from: 'billing@paypa1.com',
+      subject: 'Invoice',
+      to: ['alice@acme-corp.com'],
+      protectedDomains: ['acmepartner.com'],
+      headers: [
+        { key: 'Reply-To', value: 'Billing <billing@acme-c0rp.com>' },
+        { key: 'Return-Path', value: '<bounce@mailer.example.net>' },
+      ],
+      urls: [
+        { url: 'https://xn--pypal-4ve.com/login' },
+        { url: 'https://acme-corp.com/portal' },
+        { url: 'http://10.0.0.1/x' },
+      ],
+    };
+
+    it('collects sender, reply-to, return-path and URL hosts', () => {
+      expect(collectCandidateDomains(email)).toEqual([
+        { source: 'sender', host: 'paypa1.com' },
+        { source: 'reply_to', host: 'acme-c0rp.com' },
+        { source: 'return_path', host: 'mailer.example.net' },
+        { source: 'url', host: 'pаypal.com' },
+        { source: 'url', host: 'acme-corp.com' },
+      ]);
+    });
+
+    it('merges recipient, requested and built-in protected domains', () => {
+      const domains = buildProtectedDomains(email);
+      expect(domains.slice(0, 2)).toEqual(['acme-corp.com', 'acmepartner.com']);
+      expect(domains).toContain('paypal.com');
+    });
+
+    it('reports hits across sources with score and matched target', () => {
+      const hits = detectEmailLookalikes(email);
+      expect(hits.map(h => [h.source, h.domain, h.target, h.technique])).toEqual([
+        ['url', 'pаypal.com', 'paypal.com', 'homoglyph'],
+        ['sender', 'paypa1.com', 'paypal.com', 'homoglyph'],
+        ['reply_to', 'acme-c0rp.com', 'acme-corp.com', 'homoglyph'],
+      ]);
+      expect(summarizeLookalikes(hits, 1)).toBe('pаypal.com → paypal.com (homoglyph, 0.95, url)');
+    });
+  });
+});
@@ -0,0 +1,409 @@
+/**
+ * Lookalike Domain & Homoglyph Detector
+ *
+ * Deterministic replacement for the LLM's free-text `domain_similarity` guess.
+ * Checks the sender domain, Reply-To, Return-Path and every URL host against
+ * protected domains (recipient company domains + EMAIL_IR.PROTECTED_BRAND_DOMAINS
+ * + per-request `protectedDomains`) for:
+ * - homoglyphs: IDN/punycode confusables (Cyrillic/Greek) and ASCII swaps (0→o, 1→l, rn→m)
+ * - edit distance: Damerau-Levenshtein typosquats (paypall, micorsoft)
+ * - TLD swaps: same label, different suffix (keepnetlabs.co vs keepnetlabs.com)
+ * - combosquatting: brand plus extra tokens (paypal-secure-login.com)
+ * - subdomain spoofs: brand used as a subdomain of an unrelated domain (paypal.com.verify.net)
+ */
+
+import { z } from 'zod';
+import { EMAIL_IR } from '../../constants';
+import type { EmailIREmailData } from '../../types/email-ir';
+import { cleanResolvedDomain } from '../../utils/phishing/brand-resolver';
+import { getOrganizationalDomain } from './header-auth-parser';
+import { parseAddressList } from './raw-email-parser';
+
+// ─── Schema ───
+
+export const LOOKALIKE_TECHNIQUES = [
+  'homoglyph',
+  'edit_distance',
+  'tld_swap',
+  'combosquatting',
+  'subdomain_spoof',
+] as const;
+
+export const LOOKALIKE_SOURCES = ['sender', 'reply_to', 'return_path', 'url'] as const;
+
+export const lookalikeHitSchema = z.object({
+  source: z.enum(LOOKALIKE_SOURCES).describe('Where the suspicious domain was observed'),
+  domain: z.string().describe('Observed domain (Unicode form for IDNs)'),
+  target: z.string().describe('Protected domain it imitates'),
+  technique: z.enum(LOOKALIKE_TECHNIQUES),
+  score: z.number().min(0).max(1).describe('Lookalike confidence (0-1)'),
+  detail: z.string(),
+});
+
+export type LookalikeHit = z.infer<typeof lookalikeHitSchema>;
+export type LookalikeSource = (typeof LOOKALIKE_SOURCES)[number];
+
+interface CandidateDomain {
+  source: LookalikeSource;
+  host: string;
+}
+
+interface SplitDomain {
+  host: string;
+  /** Registrable label (e.g. "paypal" in login.paypal.com) */
+  label: string;
+  /** Public suffix (e.g. "com", "co.uk") */
+  suffix: string;
+  /** Labels left of the registrable domain */
+  subdomains: string[];
+}
+
+// ─── Punycode (RFC 3492 decode only) ───
+
+const PUNY_BASE = 36;
+const PUNY_TMIN = 1;
+const PUNY_TMAX = 26;
+
+function adaptBias(delta: number, numPoints: number, firstTime: boolean): number {
+  let d = firstTime ? Math.floor(delta / 700) : delta >> 1;
+  d += Math.floor(d / numPoints);
+  let k = 0;
+  while (d > ((PUNY_BASE - PUNY_TMIN) * PUNY_TMAX) >> 1) {
+    d = Math.floor(d / (PUNY_BASE - PUNY_TMIN));
+    k += PUNY_BASE;
+  }
+  return k + Math.floor(((PUNY_BASE - PUNY_TMIN + 1) * d) / (d + 38));
+}
+
+function punycodeDigit(code: number): number {
+  if (code >= 48 && code <= 57) return code - 22; // 0-9 → 26-35
+  if (code >= 65 && code <= 90) return code - 65;
+  if (code >= 97 && code <= 122) return code - 97;
+  return PUNY_BASE;
+}
+
+function decodePunycodeLabel(input: string): string {
+  const output: number[] = [];
+  const basicEnd = input.lastIndexOf('-');
+  for (let j = 0; j < Math.max(basicEnd, 0); j++) output.push(input.charCodeAt(j));
+
+  let n = 128;
+  let bias = 72;
+  let i = 0;
+  for (let index = basicEnd > 0 ? basicEnd + 1 : 0; index < input.length;) {
+    const oldI = i;
+    let w = 1;
+    for (let k = PUNY_BASE; ; k += PUNY_BASE) {
+      if (index >= input.length) throw new Error('Invalid punycode');
+      const digit = punycodeDigit(input.charCodeAt(index++));
+      if (digit >= PUNY_BASE) throw new Error('Invalid punycode');
+      i += digit * w;
+      const t = k <= bias ? PUNY_TMIN : k >= bias + PUNY_TMAX ? PUNY_TMAX : k - bias;
+      if (digit < t) break;
+      w *= PUNY_BASE - t;
+    }
+    const length = output.length + 1;
+    bias = adaptBias(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+}
+
+/** Convert xn-- labels to Unicode; malformed labels are left as-is. */
+export function toUnicodeDomain(host: string): string {
+  return host
+    .split('.')
+    .map(label => {
+      if (!label.startsWith('xn--')) return label;
+      try {
+        return decodePunycodeLabel(label.slice(4));
+      } catch {
+        return label;
+      }
+    })
+    .join('.');
+}
+
+// ─── Confusables ───
+
+/** Cyrillic/Greek/Latin-extended characters that render like ASCII letters (UTS #39 subset) */
+const CONFUSABLES: Record<string, string> = {
+  а: 'a',
+  в: 'b',
+  е: 'e',
+  ё: 'e',
+  һ: 'h',
+  і: 'i',
+  ї: 'i',
+  ј: 'j',
+  к: 'k',
+  ӏ: 'l',
+  м: 'm',
+  н: 'h',
+  о: 'o',
+  р: 'p',
+  с: 'c',
+  ѕ: 's',
+  т: 't',
+  у: 'y',
+  х: 'x',
+  ԁ: 'd',
+  ԛ: 'q',
+  ԝ: 'w',
+  ь: 'b',
+  α: 'a',
+  β: 'b',
+  ε: 'e',
+  η: 'n',
+  ι: 'i',
+  κ: 'k',
+  ν: 'v',
+  ο: 'o',
+  ρ: 'p',
+  τ: 't',
+  υ: 'u',
+  χ: 'x',
+  ω: 'w',
+  ı: 'i',
+  ɡ: 'g',
+  ɑ: 'a',
+  ǀ: 'l',
+  ℓ: 'l',
+};
+
+/** ASCII sequences attackers swap for visually similar ones */
+const ASCII_SKELETON_RULES: Array<[RegExp, string]> = [
+  [/rn/g, 'm'],
+  [/vv/g, 'w'],
+  [/cl/g, 'd'],
+  [/0/g, 'o'],
+  [/[1i|]/g, 'l'],
+  [/5/g, 's'],
+  [/3/g, 'e'],
+];
+
+/** Visual skeleton: two labels that render alike share a skeleton. */
+export function confusableSkeleton(label: string): string {
+  let skeleton = Array.from(label.normalize('NFKC').toLowerCase())
+    .map(ch => CONFUSABLES[ch] ?? ch)
+    .join('')
+    .normalize('NFD')
+    .replace(/\p{M}/gu, '');
+  for (const [pattern, replacement] of ASCII_SKELETON_RULES) {
+    skeleton = skeleton.replace(pattern, replacement);
+  }
+  return skeleton;
+}
+
+// ─── Distance ───
+
+/** Optimal-string-alignment Damerau-Levenshtein distance (adjacent transpositions cost 1). */
+export function damerauLevenshtein(a: string, b: string): number {
+  const rows = a.length + 1;
+  const cols = b.length + 1;
+  const d: number[][] = Array.from({ length: rows }, (_, i) => {
+    const row = new Array<number>(cols).fill(0);
+    row[0] = i;
+    return row;
+  });
+  for (let j = 0; j < cols; j++) d[0][j] = j;
+
+  for (let i = 1; i < rows; i++) {
+    for (let j = 1; j < cols; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      d[i][j] = Math.min(d[i - 1][j] + 1, d[i][j - 1] + 1, d[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        d[i][j] = Math.min(d[i][j], d[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  return d[rows - 1][cols - 1];
+}
+
+// ─── Domain helpers ───
+
+function splitDomain(host: string): SplitDomain | undefined {
+  const organizational = getOrganizationalDomain(host);
+  const dot = organizational.indexOf('.');
+  if (dot <= 0) return undefined;
+  const subdomainPart = host.slice(0, Math.max(0, host.length - organizational.length - 1));
+  return {
+    host,
+    label: organizational.slice(0, dot),
+    suffix: organizational.slice(dot + 1),
+    subdomains: subdomainPart ? subdomainPart.split('.') : [],
+  };
+}
+
+function normalizeHost(value: string | undefined): string | undefined {
+  if (!value) return undefined;
+  const host = value.includes('@') ? value.split('@').pop() : value;
+  const cleaned = cleanResolvedDomain(host?.replace(/[<>]/g, ''));
+  // IP literals are not lookalike candidates
+  if (!cleaned || /^[\d.]+$/.test(cleaned) || cleaned.includes(':')) return undefined;
+  return toUnicodeDomain(cleaned.replace(/\.$/, ''));
+}
+
+function hostFromUrl(url: string): string | undefined {
+  try {
+    return normalizeHost(new URL(url).hostname);
+  } catch {
+    return undefined;
+  }
+}
+
+// ─── Matching ───
+
+function compare(
+  candidate: SplitDomain,
+  target: SplitDomain
+): Omit<LookalikeHit, 'source' | 'domain' | 'target'> | undefined {
+  const { MIN_LABEL_LENGTH, LONG_LABEL_LENGTH } = EMAIL_IR.LOOKALIKE;
+  const sameSuffix = candidate.suffix === target.suffix;
+  const isIdn = /[^\x00-\x7f]/.test(candidate.label);
+
+  if (candidate.label === target.label) {
+    return sameSuffix
+      ? undefined
+      : {
+          technique: 'tld_swap',
+          score: 0.85,
+          detail: `Same name "${target.label}" under .${candidate.suffix} instead of .${target.suffix}`,
+        };
+  }
+
+  if (confusableSkeleton(candidate.label) === confusableSkeleton(target.label)) {
+    return {
+      technique: 'homoglyph',
+      score: (isIdn ? 0.95 : 0.9) - (sameSuffix ? 0 : 0.05),
+      detail: isIdn
+        ? `IDN label "${candidate.label}" renders like "${target.label}"`
+        : `Character swap "${candidate.label}" renders like "${target.label}"`,
+    };
+  }
+
+  if (target.label.length < MIN_LABEL_LENGTH) return undefined;
+
+  const maxDistance = target.label.length >= LONG_LABEL_LENGTH ? 2 : 1;
+  const distance = damerauLevenshtein(candidate.label, target.label);
+  if (distance <= maxDistance) {
+    return {
+      technique: 'edit_distance',
+      score: (distance === 1 ? 0.85 : 0.7) - (sameSuffix ? 0 : 0.05),
+      detail: `"${candidate.label}" is ${distance} edit(s) from "${target.label}"`,
+    };
+  }
+
+  const tokens = candidate.label.split('-');
+  if (tokens.length > 1 && tokens.includes(target.label)) {
+    return {
+      technique: 'combosquatting',
+      score: 0.75,
+      detail: `Brand "${target.label}" combined with extra tokens in "${candidate.label}"`,
+    };
+  }
+  if (
+    candidate.label.length > target.label.length &&
+    (candidate.label.startsWith(target.label) || candidate.label.endsWith(target.label))
+  ) {
+    return {
+      technique: 'combosquatting',
+      score: 0.65,
+      detail: `Brand "${target.label}" prefixed/suffixed in "${candidate.label}"`,
+    };
+  }
+
+  if (candidate.subdomains.includes(target.label)) {
+    return {
+      technique: 'subdomain_spoof',
+      score: 0.8,
+      detail: `Brand "${target.label}" used as a subdomain of unrelated ${candidate.label}.${candidate.suffix}`,
+    };
+  }
+
+  return undefined;
+}
+
+/** Observed domains: From, Reply-To, Return-Path and URL hosts (deduplicated per source). */
+export function collectCandidateDomains(email: EmailIREmailData): CandidateDomain[] {
+  const headerValues = (name: string) =>
+    (email.headers || []).filter(h => h.key.toLowerCase() === name).map(h => h.value);
+
+  const raw: Array<[LookalikeSource, string | undefined]> = [
+    ['sender', email.from],
+    ...headerValues('reply-to').flatMap(value =>
+      parseAddressList(value).map(a => ['reply_to', a.address] as [LookalikeSource, string])
+    ),
+    ...headerValues('return-path').map(value => ['return_path', value] as [LookalikeSource, string]),
+    ...(email.urls || []).map(u => ['url', hostFromUrl(u.url)] as [LookalikeSource, string | undefined]),
+  ];
+
+  const seen = new Set<string>();
+  const candidates: CandidateDomain[] = [];
+  for (const [source, value] of raw) {
+    const host = source === 'url' ? value : normalizeHost(value);
+    if (!host || seen.has(`${source}:${host}`)) continue;
+    seen.add(`${source}:${host}`);
+    candidates.push({ source, host });
+  }
+  return candidates;
+}
+
+/** Recipient company domains + per-request protectedDomains + built-in brand list. */
+export function buildProtectedDomains(email: EmailIREmailData, extra: string[] = []): string[] {
+  const recipientDomains = [...(email.to || []), ...(email.cc || [])];
+  const requested = Array.isArray(email.protectedDomains) ? (email.protectedDomains as string[]) : [];
+
+  const domains = new Set<string>();
+  for (const value of [...recipientDomains, ...requested, ...extra, ...EMAIL_IR.PROTECTED_BRAND_DOMAINS]) {
+    const host = normalizeHost(value);
+    if (host) domains.add(getOrganizationalDomain(host));
+    if (domains.size >= EMAIL_IR.LOOKALIKE.MAX_PROTECTED_DOMAINS) break;
+  }
+  return Array.from(domains);
+}
+
+/**
+ * Score every observed domain against every protected domain.
+ * Exact matches (including subdomains of a protected domain) are never hits.
+ * Returns at most one hit per (source, domain, target), highest score first.
+ */
+export function detectLookalikeDomains(candidates: CandidateDomain[], protectedDomains: string[]): LookalikeHit[] {
+  const targets = protectedDomains.map(splitDomain).filter((t): t is SplitDomain => !!t);
+  const protectedSet = new Set(protectedDomains.map(getOrganizationalDomain));
+
+  const hits: LookalikeHit[] = [];
+  for (const { source, host } of candidates) {
+    const candidate = splitDomain(host);
+    if (!candidate || protectedSet.has(getOrganizationalDomain(host))) continue;
+
+    for (const target of targets) {
+      const match = compare(candidate, target);
+      if (!match) continue;
+      hits.push({
+        source,
+        domain: host,
+        target: `${target.label}.${target.suffix}`,
+        ...match,
+        score: Math.round(match.score * 100) / 100,
+      });
+    }
+  }
+
+  return hits.sort((a, b) => b.score - a.score).slice(0, EMAIL_IR.LOOKALIKE.MAX_HITS);
+}
+
+/** Convenience wrapper used by headerAnalysisTool. */
+export function detectEmailLookalikes(email: EmailIREmailData): LookalikeHit[] {
+  return detectLookalikeDomains(collectCandidateDomains(email), buildProtectedDomains(email));
+}
+
+/** One-line summary for `domain_similarity` (e.g. "paypa1.com → paypal.com (homoglyph, 0.9)"). */
+export function summarizeLookalikes(hits: LookalikeHit[], limit = 3): string {
+  return hits
+    .slice(0, limit)
+    .map(hit => `${hit.domain} → ${hit.target} (${hit.technique}, ${hit.score}, ${hit.source})`)
+    .join('; ');
+}
@@ -0,0 +1,257 @@
+import { describe, it, expect } from 'vitest';
+import { extractMsgMessage, isCompoundFile, readCompoundFile } from './msg-parser';
+
+// ─── Minimal [MS-CFB] v3 writer (test fixture only) ───
+
+interface FixtureNode {
+  name: string;
+  content?: Uint8Array;
+  children?: FixtureNode[];
+}
+
+const SECTOR = 512;
+const MINI_SECTOR = 64;
+const CUTOFF = 4096;
+const END_OF_CHAIN = 0xfffffffe;
+const FREE = 0xffffffff;
+const FAT_SECTOR_MARK = 0xfffffffd;
+
+function buildCompoundFile(rootChildren: FixtureNode[]): Uint8Array {
+  type Flat = { node: FixtureNode; type: number; child: number; right: number; start: number; size: number };
+  const flat: Flat[] = [
+    { node: { name: 'Root Entry' }, type: 5, child: FREE, right: FREE, start: END_OF_CHAIN, size: 0 },
+  ];
+
+  const addChildren = (parentIndex: number, children: FixtureNode[]) => {
+    let previous = -1;
+    for (const child of children) {
+      const index = flat.length;
+      flat.push({ node: child, type: child.children ? 1 : 2, child: FREE, right: FREE, start: END_OF_CHAIN, size: 0 });
+      if (previous === -1) flat[parentIndex].child = index;
+      else flat[previous].right = index; // degenerate sibling tree (right-linked)
+      previous = index;
+      if (child.children) addChildren(index, child.children);
+    }
+  };
+  addChildren(0, rootChildren);
+
+  // Mini stream for small streams, regular sectors for large ones
+  const miniFat: number[] = [];
+  const miniChunks: Uint8Array[] = [];
+  const largeStreams: Flat[] = [];
+  for (const entry of flat) {
+    const content = entry.node.content;
+    if (entry.type !== 2 || !content) continue;
+    entry.size = content.length;
+    if (content.length >= CUTOFF) {
+      largeStreams.push(entry);
+      continue;
+    }
+    const sectors = Math.max(1, Math.ceil(content.length / MINI_SECTOR));
+    entry.start = miniFat.length;
+    for (let i = 0; i < sectors; i++) {
+      miniFat.push(i === sectors - 1 ? END_OF_CHAIN : miniFat.length + 1);
+      const chunk = new Uint8Array(MINI_SECTOR);
+      chunk.set(content.subarray(i * MINI_SECTOR, (i + 1) * MINI_SECTOR));
+      miniChunks.push(chunk);
+    }
+  }
+  const miniStream = new Uint8Array(miniChunks.length * MINI_SECTOR);
+  miniChunks.forEach((chunk, i) => miniStream.set(chunk, i * MINI_SECTOR));
+
+  // Sector layout: [FAT][directory...][miniFAT...][ministream...][large streams...]
+  const sectors: Uint8Array[] = [];
+  const fat: number[] = [];
+  const allocate = (data: Uint8Array): number => {
+    const count = Math.max(1, Math.ceil(data.length / SECTOR));
+    const start = sectors.length;
+    for (let i = 0; i < count; i++) {
+      const sector = new Uint8Array(SECTOR);
+      sector.set(data.subarray(i * SECTOR, (i + 1) * SECTOR));
+      sectors.push(sector);
+      fat.push(i === count - 1 ? END_OF_CHAIN : start + i + 1);
+    }
+    return start;
+  };
+
+  sectors.push(new Uint8Array(SECTOR)); // FAT placeholder
+  fat.push(FAT_SECTOR_MARK);
+
+  const directoryBytes = new Uint8Array(Math.ceil(flat.length / 4) * 4 * 128);
+  const directoryStart = allocate(directoryBytes); // content written after stream placement
+
+  const miniFatBytes = new Uint8Array(miniFat.length * 4);
+  miniFat.forEach((value, i) => new DataView(miniFatBytes.buffer).setUint32(i * 4, value, true));
+  const miniFatStart = miniFat.length > 0 ? allocate(miniFatBytes) : END_OF_CHAIN;
+
+  if (miniStream.length > 0) {
+    flat[0].start = allocate(miniStream);
+    flat[0].size = miniStream.length;
+  }
+  for (const entry of largeStreams) entry.start = allocate(entry.node.content as Uint8Array);
+
+  const dirView = new DataView(directoryBytes.buffer);
+  flat.forEach((entry, i) => {
+    const offset = i * 128;
+    const name = entry.node.name;
+    for (let c = 0; c < name.length; c++) dirView.setUint16(offset + c * 2, name.charCodeAt(c), true);
+    dirView.setUint16(offset + 0x40, (name.length + 1) * 2, true);
+    dirView.setUint8(offset + 0x42, entry.type);
+    dirView.setUint32(offset + 0x44, FREE, true);
+    dirView.setUint32(offset + 0x48, entry.right, true);
+    dirView.setUint32(offset + 0x4c, entry.child, true);
+    dirView.setUint32(offset + 0x74, entry.start, true);
+    dirView.setUint32(offset + 0x78, entry.size, true);
+  });
+  for (let i = flat.length; i < directoryBytes.length / 128; i++) {
+    dirView.setUint32(i * 128 + 0x44, FREE, true);
+    dirView.setUint32(i * 128 + 0x48, FREE, true);
+    dirView.setUint32(i * 128 + 0x4c, FREE, true);
+  }
+  for (let i = 0; i < directoryBytes.length / SECTOR; i++) {
+    sectors[directoryStart + i].set(directoryBytes.subarray(i * SECTOR, (i + 1) * SECTOR));
+  }
+
+  const fatView = new DataView(sectors[0].buffer);
+  for (let i = 0; i < SECTOR / 4; i++) fatView.setUint32(i * 4, i < fat.length ? fat[i] : FREE, true);
+
+  const header = new Uint8Array(SECTOR);
+  const hv = new DataView(header.buffer);
+  header.set([0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1]);
+  hv.setUint16(0x18, 0x3e, true);
+  hv.setUint16(0x1a, 3, true);
+  hv.setUint16(0x1c, 0xfffe, true);
+  hv.setUint16(0x1e, 9, true);
+  hv.setUint16(0x20, 6, true);
+  hv.setUint32(0x2c, 1, true);
+  hv.setUint32(0x30, directoryStart, true);
+  hv.setUint32(0x38, CUTOFF, true);
+  hv.setUint32(0x3c, miniFatStart, true);
+  hv.setUint32(0x40, miniFat.length > 0 ? Math.ceil(miniFatBytes.length / SECTOR) : 0, true);
+  hv.setUint32(0x44, END_OF_CHAIN, true);
+  hv.setUint32(0x48, 0, true);
+  hv.setUint32(0x4c, 0, true); // DIFAT[0] = sector 0 (the FAT)
+  for (let i = 1; i < 109; i++) hv.setUint32(0x4c + i * 4, FREE, true);
+
+  const out = new Uint8Array(SECTOR * (sectors.length + 1));
+  out.set(header);
+  sectors.forEach((sector, i) => out.set(sector, (i + 1) * SECTOR));
+  return out;
+}
+
+const utf16 = (text: string) => {
+  const bytes = new Uint8Array(text.length * 2);
+  for (let i = 0; i < text.length; i++) new DataView(bytes.buffer).setUint16(i * 2, text.charCodeAt(i), true);
+  return bytes;
+};
+const utf8 = (text: string) => new TextEncoder().encode(text);
+const stringProp = (id: string, value: string): FixtureNode => ({
+  name: `__substg1.0_${id}001F`,
+  content: utf16(value),
+});
+
+function recipientProperties(type: number): FixtureNode {
+  const bytes = new Uint8Array(8 + 16);
+  const view = new DataView(bytes.buffer);
+  view.setUint16(8, 0x0003, true); // PT_LONG
+  view.setUint16(10, 0x0c15, true); // PidTagRecipientType
+  view.setUint32(16, type, true);
+  return { name: '__properties_version1.0', content: bytes };
+}
+
+const transportHeaders = [
+  'Received: from mail.phisher.net (mail.phisher.net [203.0.113.77]) by mx.corp.com with ESMTPS; Mon, 3 Feb 2025 08:00:00 +0000',
+  'Authentication-Results: mx.corp.com; spf=softfail; dkim=fail; dmarc=fail',
+  'From: Payroll <payroll@phisher.net>',
+  'Subject: Salary update',
+].join('\r\n');
+
+const largeAttachment = new Uint8Array(5000).map((_, i) => i % 251);
+
+const msgFixture = buildCompoundFile([
+  stringProp('0037', 'Salary update'),
+  stringProp('0C1A', 'Payroll Team'),
+  stringProp('5D01', 'payroll@phisher.net'),
+  stringProp('1000', 'Review your salary at https://phisher.net/login'),
+  { name: '__substg1.0_10130102', content: utf8('<a href="https://phisher.net/login?id=7">Open</a>') },
+  stringProp('007D', transportHeaders),
+  {
+    name: '__recip_version1.0_#00000000',
+    children: [stringProp('39FE', 'alice@corp.com'), recipientProperties(1)],
+  },
+  {
+    name: '__recip_version1.0_#00000001',
+    children: [stringProp('39FE', 'manager@corp.com'), recipientProperties(2)],
+  },
+  {
+    name: '__attach_version1.0_#00000000',
+    children: [
+      stringProp('3707', 'salary.xlsm'),
+      stringProp('370E', 'application/vnd.ms-excel.sheet.macroEnabled.12'),
+      { name: '__substg1.0_37010102', content: utf8('abc') },
+    ],
+  },
+  {
+    name: '__attach_version1.0_#00000001',
+    children: [stringProp('3704', 'BIG.BIN'), { name: '__substg1.0_37010102', content: largeAttachment }],
+  },
+]);
+
+describe('msg-parser', () => {
+  describe('isCompoundFile', () => {
+    it('detects the CFB signature', () => {
+      expect(isCompoundFile(msgFixture)).toBe(true);
+      expect(isCompoundFile(new TextEncoder().encode('From: a@b.com'.padEnd(600, ' ')))).toBe(false);
+    });
+  });
+
+  describe('readCompoundFile', () => {
+    it('reads storages and both mini-stream and regular-sector streams', () => {
+      const root = readCompoundFile(msgFixture);
+      expect(root.children.has('__substg1.0_0037001F')).toBe(true);
+
+      const bigAttachment = root.children.get('__attach_version1.0_#00000001');
+      expect(bigAttachment?.isStorage).toBe(true);
+      expect(bigAttachment?.children.get('__substg1.0_37010102')?.content).toEqual(largeAttachment);
+    });
+
+    it('rejects non-CFB input', () => {
+      expect(() => readCompoundFile(new Uint8Array(1024))).toThrow('bad signature');
+    });
+  });
+
+  describe('extractMsgMessage', () => {
+    it('maps MAPI properties onto the extracted message', () => {
+      const message = extractMsgMessage(msgFixture);
+
+      expect(message.subject).toBe('Salary update');
+      expect(message.from).toEqual({ name: 'Payroll Team', address: 'payroll@phisher.net' });
+      expect(message.to).toEqual(['alice@corp.com']);
+      expect(message.cc).toEqual(['manager@corp.com']);
+      expect(message.textBody).toContain('https://phisher.net/login');
+      expect(message.htmlBody).toContain('href="https://phisher.net/login?id=7"');
+      expect(message.headers.find(h => h.key === 'Authentication-Results')?.value).toContain('dmarc=fail');
+    });
+
+    it('collects attachments with names, MIME types and content', () => {
+      const message = extractMsgMessage(msgFixture);
+
+      expect(message.attachments).toHaveLength(2);
+      expect(message.attachments[0]).toMatchObject({
+        name: 'salary.xlsm',
+        contentType: 'application/vnd.ms-excel.sheet.macroEnabled.12',
+      });
+      expect(message.attachments[0].content).toEqual(utf8('abc'));
+      expect(message.attachments[1].name).toBe('BIG.BIN');
+      expect(message.attachments[1].content?.length).toBe(5000);
+    });
+
+    it('falls back to the transport From header for X.500 sender addresses', () => {
+      const fixture = buildCompoundFile([
+        stringProp('0C1F', '/O=EXCHANGE/OU=ADMIN/CN=RECIPIENTS/CN=PAYROLL'),
+        stringProp('007D', transportHeaders),
+      ]);
+      expect(extractMsgMessage(fixture).from?.address).toBe('payroll@phisher.net');
+    });
+  });
+});
@@ -0,0 +1,344 @@
+/**
+ * Outlook .msg Parser ([MS-CFB] compound file + [MS-OXMSG] property streams)
+ *
+ * Reads the OLE compound file container, then maps the MAPI property streams
+ * (subject, sender, bodies, transport headers, recipients, attachments) onto the
+ * format-neutral ExtractedMessage used by raw-email-parser.ts.
+ *
+ * Only what Email IR needs is read — RTF-only bodies and named properties are ignored.
+ */
+
+import { decodeCharset, parseAddressList, parseHeaderBlock, type ExtractedMessage } from './raw-email-parser';
+
+// ─── [MS-CFB] Constants ───
+
+export const CFB_SIGNATURE = [0xd0, 0xcf, 0x11, 0xe0, 0xa1, 0xb1, 0x1a, 0xe1];
+
+const END_OF_CHAIN = 0xfffffffe;
+const FREE_SECTOR = 0xffffffff;
+const NO_STREAM = 0xffffffff;
+const HEADER_DIFAT_ENTRIES = 109;
+const DIRECTORY_ENTRY_SIZE = 128;
+
+const ENTRY_TYPE_STORAGE = 1;
+const ENTRY_TYPE_STREAM = 2;
+const ENTRY_TYPE_ROOT = 5;
+
+// ─── [MS-OXMSG] / [MS-OXPROPS] Property IDs ───
+
+const PROP = {
+  SUBJECT: '0037',
+  SENT_REPRESENTING_NAME: '0042',
+  SENT_REPRESENTING_EMAIL: '0065',
+  TRANSPORT_HEADERS: '007D',
+  SENDER_NAME: '0C1A',
+  SENDER_EMAIL: '0C1F',
+  SENDER_SMTP_ADDRESS: '5D01',
+  BODY: '1000',
+  HTML: '1013',
+  RECIPIENT_DISPLAY_NAME: '3001',
+  RECIPIENT_EMAIL: '3003',
+  RECIPIENT_SMTP_ADDRESS: '39FE',
+  ATTACH_DATA: '3701',
+  ATTACH_FILENAME: '3704',
+  ATTACH_LONG_FILENAME: '3707',
+  ATTACH_MIME_TAG: '370E',
+} as const;
+
+/** PidTagRecipientType (0x0C15) values */
+const RECIPIENT_TYPE = { TO: 1, CC: 2, BCC: 3 } as const;
+const PROP_TAG_RECIPIENT_TYPE = 0x0c15;
+
+const PROPERTY_STREAM_NAME = '__properties_version1.0';
+const RECIPIENT_PREFIX = '__recip_version1.0_';
+const ATTACHMENT_PREFIX = '__attach_version1.0_';
+/** Recipient/attachment property streams start with an 8-byte header */
+const SUB_OBJECT_PROPERTY_HEADER_SIZE = 8;
+const PROPERTY_ENTRY_SIZE = 16;
+
+// ─── Compound File Reader ───
+
+interface CfbEntry {
+  name: string;
+  type: number;
+  left: number;
+  right: number;
+  child: number;
+  startSector: number;
+  size: number;
+}
+
+/** In-memory tree node: storages map to child nodes, streams carry their bytes */
+export interface CfbNode {
+  name: string;
+  isStorage: boolean;
+  content?: Uint8Array;
+  children: Map<string, CfbNode>;
+}
+
+export function isCompoundFile(bytes: Uint8Array): boolean {
+  return bytes.length >= 512 && CFB_SIGNATURE.every((b, i) => bytes[i] === b);
+}
+
+/**
+ * Parse an [MS-CFB] compound file into a storage/stream tree.
+ * Throws on a bad signature or corrupted sector chains.
+ */
+export function readCompoundFile(bytes: Uint8Array): CfbNode {
+  if (!isCompoundFile(bytes)) {
+    throw new Error('Not an OLE compound file (bad signature)');
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const sectorSize = 1 << view.getUint16(0x1e, true);
+  const miniSectorSize = 1 << view.getUint16(0x20, true);
+  const firstDirectorySector = view.getUint32(0x30, true);
+  const miniStreamCutoff = view.getUint32(0x38, true);
+  const firstMiniFatSector = view.getUint32(0x3c, true);
+  let nextDifatSector = view.getUint32(0x44, true);
+  const difatSectorCount = view.getUint32(0x48, true);
+  const maxSectors = Math.ceil(bytes.length / sectorSize);
+
+  const sectorOffset = (sector: number) => (sector + 1) * sectorSize;
+
+  // DIFAT: 109 entries in the header, the rest chained through DIFAT sectors
+  const fatSectors: number[] = [];
+  for (let i = 0; i < HEADER_DIFAT_ENTRIES; i++) {
+    const sector = view.getUint32(0x4c + i * 4, true);
+    if (sector !== FREE_SECTOR) fatSectors.push(sector);
+  }
+  for (let i = 0; i < difatSectorCount && nextDifatSector < END_OF_CHAIN; i++) {
+    const base = sectorOffset(nextDifatSector);
+    const entriesPerSector = sectorSize / 4 - 1;
+    for (let j = 0; j < entriesPerSector; j++) {
+      const sector = view.getUint32(base + j * 4, true);
+      if (sector !== FREE_SECTOR) fatSectors.push(sector);
+    }
+    nextDifatSector = view.getUint32(base + entriesPerSector * 4, true);
+  }
+
+  const fat: number[] = [];
+  for (const sector of fatSectors) {
+    const base = sectorOffset(sector);
+    for (let j = 0; j < sectorSize / 4 && base + j * 4 + 4 <= bytes.length; j++) {
+      fat.push(view.getUint32(base + j * 4, true));
+    }
+  }
+
+  const readChain = (startSector: number, table: number[], limit: number): number[] => {
+    const chain: number[] = [];
+    let sector = startSector;
+    while (sector < END_OF_CHAIN) {
+      if (chain.length > limit || sector >= table.length) {
+        throw new Error('Corrupted compound file: sector chain out of range');
+      }
+      chain.push(sector);
+      sector = table[sector];
+    }
+    return chain;
+  };
+
+  const readStream = (startSector: number, size: number): Uint8Array => {
+    const out = new Uint8Array(size);
+    let written = 0;
+    for (const sector of readChain(startSector, fat, maxSectors)) {
+      const base = sectorOffset(sector);
+      const take = Math.min(sectorSize, size - written, bytes.length - base);
+      if (take <= 0) break;
+      out.set(bytes.subarray(base, base + take), written);
+      written += take;
+    }
+    return out;
+  };
+
+  // Directory entries
+  const directoryChain = readChain(firstDirectorySector, fat, maxSectors);
+  const directoryBytes = readStream(firstDirectorySector, directoryChain.length * sectorSize);
+  const directoryView = new DataView(directoryBytes.buffer);
+  const entries: CfbEntry[] = [];
+  for (let offset = 0; offset + DIRECTORY_ENTRY_SIZE <= directoryBytes.length; offset += DIRECTORY_ENTRY_SIZE) {
+    const nameLength = directoryView.getUint16(offset + 0x40, true);
+    const nameBytes = directoryBytes.subarray(offset, offset + Math.max(0, Math.min(64, nameLength) - 2));
+    entries.push({
+      name: new TextDecoder('utf-16le').decode(nameBytes),
+      type: directoryView.getUint8(offset + 0x42),
+      left: directoryView.getUint32(offset + 0x44, true),
+      right: directoryView.getUint32(offset + 0x48, true),
+      child: directoryView.getUint32(offset + 0x4c, true),
+      startSector: directoryView.getUint32(offset + 0x74, true),
+      size: directoryView.getUint32(offset + 0x78, true),
+    });
+  }
+
+  const root = entries[0];
+  if (!root || root.type !== ENTRY_TYPE_ROOT) {
+    throw new Error('Corrupted compound file: missing root entry');
+  }
+
+  // Mini stream (small streams live inside the root entry's stream)
+  const miniStream = root.size > 0 ? readStream(root.startSector, root.size) : new Uint8Array(0);
+  const miniFat: number[] = [];
+  if (firstMiniFatSector < END_OF_CHAIN) {
+    const miniFatChain = readChain(firstMiniFatSector, fat, maxSectors);
+    const miniFatBytes = readStream(firstMiniFatSector, miniFatChain.length * sectorSize);
+    const miniFatView = new DataView(miniFatBytes.buffer);
+    for (let j = 0; j + 4 <= miniFatBytes.length; j += 4) miniFat.push(miniFatView.getUint32(j, true));
+  }
+
+  const readMiniStream = (startSector: number, size: number): Uint8Array => {
+    const out = new Uint8Array(size);
+    let written = 0;
+    for (const sector of readChain(startSector, miniFat, miniFat.length)) {
+      const base = sector * miniSectorSize;
+      const take = Math.min(miniSectorSize, size - written, miniStream.length - base);
+      if (take <= 0) break;
+      out.set(miniStream.subarray(base, base + take), written);
+      written += take;
+    }
+    return out;
+  };
+
+  const visited = new Set<number>();
+  const buildNode = (index: number): CfbNode => {
+    const entry = entries[index];
+    const node: CfbNode = { name: entry.name, isStorage: entry.type !== ENTRY_TYPE_STREAM, children: new Map() };
+
+    if (entry.type === ENTRY_TYPE_STREAM) {
+      node.content =
+        entry.size < miniStreamCutoff
+          ? readMiniStream(entry.startSector, entry.size)
+          : readStream(entry.startSector, entry.size);
+      return node;
+    }
+
+    // Children are stored as a red-black tree of siblings below `child`
+    const stack = entry.child !== NO_STREAM ? [entry.child] : [];
+    while (stack.length > 0) {
+      const childIndex = stack.pop() as number;
+      if (childIndex >= entries.length || visited.has(childIndex)) continue;
+      visited.add(childIndex);
+      const child = entries[childIndex];
+      if (child.left !== NO_STREAM) stack.push(child.left);
+      if (child.right !== NO_STREAM) stack.push(child.right);
+      if (child.type === ENTRY_TYPE_STREAM || child.type === ENTRY_TYPE_STORAGE) {
+        node.children.set(child.name, buildNode(childIndex));
+      }
+    }
+    return node;
+  };
+
+  visited.add(0);
+  return buildNode(0);
+}
+
+// ─── MAPI Property Helpers ───
+
+/** Read a string/binary property stream (`__substg1.0_{id}{type}`) from a storage node */
+function readProperty(node: CfbNode, propId: string): Uint8Array | undefined {
+  for (const type of ['001F', '001E', '0102']) {
+    const stream = node.children.get(`__substg1.0_${propId}${type}`);
+    if (stream?.content) return stream.content;
+  }
+  return undefined;
+}
+
+function readStringProperty(node: CfbNode, propId: string): string | undefined {
+  const unicode = node.children.get(`__substg1.0_${propId}001F`)?.content;
+  if (unicode) return new TextDecoder('utf-16le').decode(unicode).replace(/\0+$/, '');
+  const ansi = node.children.get(`__substg1.0_${propId}001E`)?.content;
+  if (ansi) return decodeCharset(ansi, 'windows-1252').replace(/\0+$/, '');
+  const binary = node.children.get(`__substg1.0_${propId}0102`)?.content;
+  if (binary) return decodeCharset(binary, 'utf-8').replace(/\0+$/, '');
+  return undefined;
+}
+
+/** Read a fixed-length 32-bit property value from a sub-object's `__properties_version1.0` stream */
+function readFixedProperty(node: CfbNode, propTag: number): number | undefined {
+  const stream = node.children.get(PROPERTY_STREAM_NAME)?.content;
+  if (!stream) return undefined;
+  const view = new DataView(stream.buffer, stream.byteOffset, stream.byteLength);
+  for (
+    let offset = SUB_OBJECT_PROPERTY_HEADER_SIZE;
+    offset + PROPERTY_ENTRY_SIZE <= stream.length;
+    offset += PROPERTY_ENTRY_SIZE
+  ) {
+    if (view.getUint16(offset + 2, true) === propTag) return view.getUint32(offset + 8, true);
+  }
+  return undefined;
+}
+
+function sortedChildren(node: CfbNode, prefix: string): CfbNode[] {
+  return Array.from(node.children.values())
+    .filter(child => child.isStorage && child.name.startsWith(prefix))
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
+
+// ─── Message Mapping ───
+
+/**
+ * Parse an Outlook .msg file into the format-neutral ExtractedMessage.
+ * Transport headers (PidTagTransportMessageHeaders) are preserved so the
+ * Received chain and Authentication-Results can be analyzed like an .eml.
+ */
+export function extractMsgMessage(bytes: Uint8Array): ExtractedMessage {
+  const root = readCompoundFile(bytes);
+
+  const transportHeaders = readStringProperty(root, PROP.TRANSPORT_HEADERS);
+  const headers = transportHeaders ? parseHeaderBlock(transportHeaders) : [];
+  const headerFrom = parseAddressList(headers.find(h => h.key.toLowerCase() === 'from')?.value)[0];
+
+  const senderAddress =
+    readStringProperty(root, PROP.SENDER_SMTP_ADDRESS) ||
+    readStringProperty(root, PROP.SENT_REPRESENTING_EMAIL) ||
+    readStringProperty(root, PROP.SENDER_EMAIL);
+  const senderName =
+    readStringProperty(root, PROP.SENDER_NAME) || readStringProperty(root, PROP.SENT_REPRESENTING_NAME);
+
+  // Exchange-internal senders carry an X.500 DN instead of an SMTP address — prefer the transport header then
+  const address = senderAddress?.includes('@') ? senderAddress : headerFrom?.address;
+
+  const message: ExtractedMessage = {
+    headers,
+    from: address
+      ? { address, ...(senderName || headerFrom?.name ? { name: senderName || headerFrom?.name } : {}) }
+      : undefined,
+    subject: readStringProperty(root, PROP.SUBJECT),
+    to: [],
+    cc: [],
+    bcc: [],
+    textBody: readStringProperty(root, PROP.BODY),
+    attachments: [],
+  };
+
+  const html = readProperty(root, PROP.HTML);
+  if (html) {
+    const isUnicode = root.children.has(`__substg1.0_${PROP.HTML}001F`);
+    message.htmlBody = isUnicode
+      ? new TextDecoder('utf-16le').decode(html).replace(/\0+$/, '')
+      : decodeCharset(html, 'utf-8').replace(/\0+$/, '');
+  }
+
+  for (const recipient of sortedChildren(root, RECIPIENT_PREFIX)) {
+    const recipientAddress =
+      readStringProperty(recipient, PROP.RECIPIENT_SMTP_ADDRESS) || readStringProperty(recipient, PROP.RECIPIENT_EMAIL);
+    if (!recipientAddress) continue;
+    const type = readFixedProperty(recipient, PROP_TAG_RECIPIENT_TYPE);
+    if (type === RECIPIENT_TYPE.CC) message.cc.push(recipientAddress);
+    else if (type === RECIPIENT_TYPE.BCC) message.bcc.push(recipientAddress);
+    else message.to.push(recipientAddress);
+  }
+
+  for (const attachment of sortedChildren(root, ATTACHMENT_PREFIX)) {
+    const name =
+      readStringProperty(attachment, PROP.ATTACH_LONG_FILENAME) ||
+      readStringProperty(attachment, PROP.ATTACH_FILENAME) ||
+      readStringProperty(attachment, PROP.RECIPIENT_DISPLAY_NAME) ||
+      'unnamed-attachment';
+    const contentType = readStringProperty(attachment, PROP.ATTACH_MIME_TAG);
+    // Embedded messages (PT_OBJECT) are storages, not binary streams — listed without hashes
+    const content = attachment.children.get(`__substg1.0_${PROP.ATTACH_DATA}0102`)?.content;
+    message.attachments.push({ name, ...(contentType ? { contentType } : {}), ...(content ? { content } : {}) });
+  }
+
+  return message;
+}
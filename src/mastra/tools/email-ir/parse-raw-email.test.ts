@@ -0,0 +1,122 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { parseRawEmailTool, parseRawEmailInputSchema, parseRawEmail, detectRawEmailFormat } from './parse-raw-email';
+import { CFB_SIGNATURE } from './msg-parser';
+
+vi.mock('./logger-setup', () => ({
+  createLogContext: vi.fn(() => ({})),
+  loggerFetch: { info: vi.fn(), warn: vi.fn(), error: vi.fn() },
+  logStepStart: vi.fn(),
+  logStepComplete: vi.fn(),
+  logStepError: vi.fn(),
+}));
+
+vi.mock('../../utils/core/error-utils', () => ({
+  normalizeError: vi.fn((e: unknown) => ({ message: e instanceof Error ? e.message : 'Unknown' })),
+  logErrorInfo: vi.fn(),
+}));
+
+vi.mock('../../services/error-service', () => ({
+  errorService: {
+    validation: vi.fn(() => ({ code: 'ERR_VAL_001' })),
+  },
+}));
+
+const toBase64 = (text: string) => btoa(String.fromCharCode(...new TextEncoder().encode(text)));
+
+const sampleEml = [
+  'Received: from smtp.attacker.io (smtp.attacker.io [198.51.100.20]) by mx.corp.com; Wed, 5 Mar 2025 09:00:00 +0000',
+  'From: Security Team <security@attacker.io>',
+  'To: user@corp.com',
+  'Subject: Verify your account',
+  'Content-Type: text/html; charset=utf-8',
+  '',
+  '<a href="https://attacker.io/verify">Verify</a>',
+].join('\r\n');
+
+describe('parseRawEmailTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should have correct ID', () => {
+    expect(parseRawEmailTool.id).toBe('email-ir-parse-raw-email-tool');
+  });
+
+  it('should mention supported formats in description', () => {
+    expect(parseRawEmailTool.description).toContain('.eml');
+    expect(parseRawEmailTool.description).toContain('.msg');
+  });
+
+  describe('input schema', () => {
+    it('accepts rawEmail with optional format and fileName', () => {
+      expect(parseRawEmailInputSchema.safeParse({ rawEmail: 'abc' }).success).toBe(true);
+      expect(parseRawEmailInputSchema.safeParse({ rawEmail: 'abc', format: 'msg', fileName: 'x.msg' }).success).toBe(
+        true
+      );
+    });
+
+    it('rejects empty rawEmail and unknown formats', () => {
+      expect(parseRawEmailInputSchema.safeParse({ rawEmail: '' }).success).toBe(false);
+      expect(parseRawEmailInputSchema.safeParse({ rawEmail: 'abc', format: 'pst' }).success).toBe(false);
+    });
+  });
+
+  describe('detectRawEmailFormat', () => {
+    const cfbBytes = new Uint8Array(512);
+    cfbBytes.set(CFB_SIGNATURE);
+
+    it('prefers the explicit format', () => {
+      expect(detectRawEmailFormat(cfbBytes, 'eml', 'x.msg')).toBe('eml');
+    });
+
+    it('falls back to file extension', () => {
+      expect(detectRawEmailFormat(new Uint8Array(10), undefined, 'Suspicious.MSG')).toBe('msg');
+    });
+
+    it('sniffs CFB magic bytes when nothing else is known', () => {
+      expect(detectRawEmailFormat(cfbBytes)).toBe('msg');
+      expect(detectRawEmailFormat(new TextEncoder().encode('From: a@b.com'))).toBe('eml');
+    });
+  });
+
+  describe('parseRawEmail', () => {
+    it('parses a base64 .eml upload into email data', async () => {
+      const data = await parseRawEmail({ rawEmail: toBase64(sampleEml) });
+
+      expect(data.from).toBe('security@attacker.io');
+      expect(data.subject).toBe('Verify your account');
+      expect(data.senderIp).toBe('198.51.100.20');
+      expect(data.urls).toEqual([{ url: 'https://attacker.io/verify' }]);
+    });
+
+    it('accepts data-URL prefixed uploads', async () => {
+      const data = await parseRawEmail({ rawEmail: `data:message/rfc822;base64,${toBase64(sampleEml)}` });
+      expect(data.subject).toBe('Verify your account');
+    });
+
+    it('rejects non-base64 content', async () => {
+      await expect(parseRawEmail({ rawEmail: 'From: a@b.com\nSubject: x' })).rejects.toThrow('base64');
+    });
+
+    it('rejects a corrupt .msg upload', async () => {
+      await expect(parseRawEmail({ rawEmail: toBase64('not a compound file'), format: 'msg' })).rejects.toThrow(
+        'compound file'
+      );
+    });
+  });
+
+  describe('execute', () => {
+    it('returns parsed email data', async () => {
+      const result = (await parseRawEmailTool.execute!({ rawEmail: toBase64(sampleEml), fileName: 'x.eml' }, {})) as {
+        from: string;
+      };
+      expect(result.from).toBe('security@attacker.io');
+    });
+
+    it('throws with validation error code on parse failure', async () => {
+      await expect(parseRawEmailTool.execute!({ rawEmail: '!!!' }, {})).rejects.toMatchObject({
+        code: 'ERR_VAL_001',
+      });
+    });
+  });
+});
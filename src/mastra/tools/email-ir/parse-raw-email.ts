@@ -0,0 +1,97 @@
+/**
+ * email-ir-parse-raw-email-tool
+ *
+ * EU AI Act (Art. 9) Tool Risk Metadata:
+ * - riskLevel: limited
+ * - rationale: Email IR analysis; parses uploaded email files (no AI involved)
+ * @see docs/AI_COMPLIANCE_INVENTORY.md
+ */
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { EmailIREmailDataSchema, protectedDomainsSchema, type EmailIREmailData } from '../../types/email-ir';
+import { createLogContext, loggerFetch, logStepStart, logStepComplete, logStepError } from './logger-setup';
+import { extractEmlMessage, toEmailIRData } from './raw-email-parser';
+import { extractMsgMessage, isCompoundFile } from './msg-parser';
+import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
+import { errorService } from '../../services/error-service';
+
+/** ~1 MB body limit minus base64 overhead (4/3) and JSON envelope */
+const MAX_RAW_EMAIL_BASE64_CHARS = 1_300_000;
+
+export const RAW_EMAIL_FORMATS = ['eml', 'msg'] as const;
+export type RawEmailFormat = (typeof RAW_EMAIL_FORMATS)[number];
+
+export const parseRawEmailInputSchema = z.object({
+  rawEmail: z.string().trim().min(1).max(MAX_RAW_EMAIL_BASE64_CHARS).describe('Base64-encoded .eml or .msg file'),
+  format: z.enum(RAW_EMAIL_FORMATS).optional().describe('File format; detected from fileName/content when omitted'),
+  fileName: z.string().trim().max(255).optional(),
+  protectedDomains: protectedDomainsSchema.optional(),
+});
+
+export type ParseRawEmailInput = z.infer<typeof parseRawEmailInputSchema>;
+
+/** Decode base64 upload; throws on invalid alphabet so bad uploads fail fast with a clear message */
+function decodeUpload(rawEmail: string): Uint8Array {
+  const clean = rawEmail.replace(/^data:[^,]*,/, '').replace(/\s+/g, '');
+  if (!/^[A-Za-z0-9+/_-]*={0,2}$/.test(clean)) {
+    throw new Error('rawEmail must be base64-encoded');
+  }
+  const binary = atob(clean.replace(/-/g, '+').replace(/_/g, '/'));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+/** Explicit format wins, then file extension, then CFB magic bytes */
+export function detectRawEmailFormat(bytes: Uint8Array, format?: RawEmailFormat, fileName?: string): RawEmailFormat {
+  if (format) return format;
+  const extension = fileName?.toLowerCase().split('.').pop();
+  if (extension === 'msg' || extension === 'eml') return extension;
+  return isCompoundFile(bytes) ? 'msg' : 'eml';
+}
+
+/** Parse an uploaded raw email into EmailIREmailData (shared by the tool and the workflow step) */
+export async function parseRawEmail(input: ParseRawEmailInput): Promise<EmailIREmailData> {
+  const bytes = decodeUpload(input.rawEmail);
+  if (bytes.length === 0) {
+    throw new Error('rawEmail is empty after decoding');
+  }
+  const format = detectRawEmailFormat(bytes, input.format, input.fileName);
+  const message = format === 'msg' ? extractMsgMessage(bytes) : extractEmlMessage(bytes);
+  const emailData = await toEmailIRData(message);
+  return input.protectedDomains ? { ...emailData, protectedDomains: input.protectedDomains } : emailData;
+}
+
+export const parseRawEmailTool = createTool({
+  id: 'email-ir-parse-raw-email-tool',
+  description: 'Parses an uploaded raw .eml (RFC 5322) or Outlook .msg file into email data for IR analysis',
+  inputSchema: parseRawEmailInputSchema,
+  outputSchema: EmailIREmailDataSchema,
+  execute: async inputData => {
+    const ctx = createLogContext(inputData.fileName || 'raw-upload', 'parse-raw-email');
+
+    try {
+      logStepStart(loggerFetch, ctx, { format: inputData.format, encoded_size: inputData.rawEmail.length });
+
+      const emailData = await parseRawEmail(inputData);
+
+      logStepComplete(loggerFetch, ctx, {
+        status: 'success',
+        header_count: emailData.headers?.length ?? 0,
+        url_count: emailData.urls?.length ?? 0,
+        attachment_count: emailData.attachments?.length ?? 0,
+        sender_ip_resolved: !!emailData.senderIp,
+      });
+
+      return emailData;
+    } catch (error) {
+      const err = normalizeError(error);
+      logStepError(loggerFetch, ctx, err);
+      const errorInfo = errorService.validation(err.message, { step: 'parse-raw-email', stack: err.stack });
+      logErrorInfo(loggerFetch, 'error', 'Parse raw email failed', errorInfo);
+      const e = new Error(err.message);
+      (e as Error & { code?: string }).code = errorInfo.code;
+      throw e;
+    }
+  },
+});
@@ -0,0 +1,209 @@
+import { describe, it, expect } from 'vitest';
+import {
+  decodeMimeWords,
+  extractEmlMessage,
+  extractReceivedFromIps,
+  extractUrls,
+  isPrivateIp,
+  parseAddressList,
+  parseEmlToEmailData,
+  parseHeaderBlock,
+  resolveSenderIp,
+} from './raw-email-parser';
+
+const CRLF = '\r\n';
+
+const multipartEmail = [
+  'Received: from mx.internal.corp (mx.internal.corp [10.0.0.5]) by mailbox.corp.com with SMTP; Tue, 14 Jan 2025 10:15:02 +0000',
+  'Received: from mail.evil-sender.com (mail.evil-sender.com [203.0.113.45])',
+  '\tby mx.internal.corp with ESMTPS id abc123; Tue, 14 Jan 2025 10:15:00 +0000',
+  'Received: from [192.168.1.20] (unknown [198.51.100.7]) by mail.evil-sender.com; Tue, 14 Jan 2025 10:14:58 +0000',
+  'Authentication-Results: mx.internal.corp; spf=fail smtp.mailfrom=evil-sender.com; dkim=none; dmarc=fail',
+  'From: "IT =?UTF-8?B?RGVzayDinJM=?=" <it-desk@evil-sender.com>',
+  'To: Alice <alice@corp.com>, "Bob, Jr." <bob@corp.com>',
+  'Cc: carol@corp.com',
+  'Subject: =?UTF-8?Q?Password_expires_=E2=80=93_action?=',
+  ' =?UTF-8?Q?_required?=',
+  'Date: Tue, 14 Jan 2025 10:14:55 +0000',
+  'MIME-Version: 1.0',
+  'Content-Type: multipart/mixed; boundary="outer"',
+  '',
+  'This is a multi-part message in MIME format.',
+  '--outer',
+  'Content-Type: multipart/alternative; boundary="inner"',
+  '',
+  '--inner',
+  'Content-Type: text/plain; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  'Reset now: https://evil-sender.com/reset?u=alice&t=1.',
+  'Caf=C3=A9 =',
+  'menu',
+  '--inner',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: base64',
+  '',
+  btoa('<p>Click <a href="https://evil-sender.com/reset?u=alice&amp;t=1">here</a></p>'),
+  '--inner--',
+  '--outer',
+  'Content-Type: application/pdf; name="invoice.pdf"',
+  'Content-Disposition: attachment; filename="invoice.pdf"',
+  'Content-Transfer-Encoding: base64',
+  '',
+  btoa('abc'),
+  '--outer',
+  'Content-Type: application/octet-stream',
+  "Content-Disposition: attachment; filename*=utf-8''r%C3%A9sum%C3%A9.docm",
+  'Content-Transfer-Encoding: base64',
+  '',
+  btoa('macro'),
+  '--outer--',
+  '',
+].join(CRLF);
+
+describe('raw-email-parser', () => {
+  describe('decodeMimeWords', () => {
+    it('decodes base64 and quoted-printable encoded-words', () => {
+      expect(decodeMimeWords('=?UTF-8?B?SGVsbG8=?=')).toBe('Hello');
+      expect(decodeMimeWords('=?iso-8859-1?Q?Caf=E9_Noir?=')).toBe('Café Noir');
+    });
+
+    it('drops whitespace between adjacent encoded-words', () => {
+      expect(decodeMimeWords('=?UTF-8?Q?Hello?= =?UTF-8?Q?_World?=')).toBe('Hello World');
+    });
+
+    it('leaves plain text untouched', () => {
+      expect(decodeMimeWords('Plain subject')).toBe('Plain subject');
+    });
+  });
+
+  describe('parseHeaderBlock', () => {
+    it('unfolds continuation lines and preserves header order', () => {
+      const headers = parseHeaderBlock('Received: from a\r\n\tby b\r\nSubject: Hi\r\nReceived: from c');
+      expect(headers).toEqual([
+        { key: 'Received', value: 'from a by b' },
+        { key: 'Subject', value: 'Hi' },
+        { key: 'Received', value: 'from c' },
+      ]);
+    });
+  });
+
+  describe('parseAddressList', () => {
+    it('splits on commas outside quotes and angle brackets', () => {
+      expect(parseAddressList('Alice <alice@corp.com>, "Bob, Jr." <bob@corp.com>, carol@corp.com')).toEqual([
+        { name: 'Alice', address: 'alice@corp.com' },
+        { name: 'Bob, Jr.', address: 'bob@corp.com' },
+        { address: 'carol@corp.com' },
+      ]);
+    });
+
+    it('returns empty array for missing header', () => {
+      expect(parseAddressList(undefined)).toEqual([]);
+    });
+  });
+
+  describe('network helpers', () => {
+    it('classifies private and public addresses', () => {
+      expect(isPrivateIp('10.1.2.3')).toBe(true);
+      expect(isPrivateIp('172.20.0.1')).toBe(true);
+      expect(isPrivateIp('192.168.0.1')).toBe(true);
+      expect(isPrivateIp('100.64.0.1')).toBe(true);
+      expect(isPrivateIp('fe80::1')).toBe(true);
+      expect(isPrivateIp('203.0.113.45')).toBe(false);
+      expect(isPrivateIp('2001:db8::1')).toBe(false);
+    });
+
+    it('only reads IPs from the Received "from" clause', () => {
+      expect(extractReceivedFromIps('from host (host [203.0.113.1]) by relay [198.51.100.1]')).toEqual(['203.0.113.1']);
+      expect(extractReceivedFromIps('by relay [198.51.100.1]')).toEqual([]);
+      expect(extractReceivedFromIps('from host ([IPv6:2001:db8::5]) by relay')).toEqual(['2001:db8::5']);
+    });
+
+    it('resolves sender IP as the first public hop walking the chain top-down', () => {
+      const headers = parseHeaderBlock(multipartEmail.split(CRLF + CRLF)[0]);
+      expect(resolveSenderIp(headers)).toBe('203.0.113.45');
+    });
+
+    it('falls back to X-Originating-IP when the chain is private only', () => {
+      expect(
+        resolveSenderIp([
+          { key: 'Received', value: 'from internal ([10.0.0.1]) by mx' },
+          { key: 'X-Originating-IP', value: '[198.51.100.9]' },
+        ])
+      ).toBe('198.51.100.9');
+    });
+  });
+
+  describe('extractUrls', () => {
+    it('extracts and de-duplicates href and free-text URLs', () => {
+      const urls = extractUrls(
+        '<a href="https://a.example.com/x?y=1&amp;z=2">x</a> see https://b.example.com/path.',
+        'Also https://a.example.com/x?y=1&z=2'
+      );
+      expect(urls).toEqual(['https://a.example.com/x?y=1&z=2', 'https://b.example.com/path']);
+    });
+
+    it('ignores non-http schemes', () => {
+      expect(extractUrls('<a href="mailto:x@y.com">mail</a><a href="javascript:void(0)">js</a>')).toEqual([]);
+    });
+  });
+
+  describe('extractEmlMessage', () => {
+    it('walks nested multipart bodies and collects attachments', () => {
+      const message = extractEmlMessage(multipartEmail);
+
+      expect(message.from).toEqual({ name: 'IT Desk ✓', address: 'it-desk@evil-sender.com' });
+      expect(message.subject).toBe('Password expires – action required');
+      expect(message.to).toEqual(['alice@corp.com', 'bob@corp.com']);
+      expect(message.cc).toEqual(['carol@corp.com']);
+      expect(message.textBody).toContain('Café menu');
+      expect(message.htmlBody).toContain('href="https://evil-sender.com/reset?u=alice&amp;t=1"');
+      expect(message.attachments.map(a => a.name)).toEqual(['invoice.pdf', 'résumé.docm']);
+      expect(message.attachments[0].contentType).toBe('application/pdf');
+    });
+
+    it('treats a single-part message body as text', () => {
+      const message = extractEmlMessage('From: a@b.com\r\nSubject: Hi\r\n\r\nHello there https://x.example.com');
+      expect(message.textBody).toBe('Hello there https://x.example.com');
+      expect(message.attachments).toEqual([]);
+    });
+
+    it('accepts raw bytes with 8-bit UTF-8 headers', () => {
+      const bytes = new TextEncoder().encode('From: a@b.com\r\nSubject: Ödeme talimatı\r\n\r\nBody');
+      expect(extractEmlMessage(bytes).subject).toBe('Ödeme talimatı');
+    });
+  });
+
+  describe('parseEmlToEmailData', () => {
+    it('maps a parsed message onto EmailIREmailData with hashes, URLs and IPs', async () => {
+      const data = await parseEmlToEmailData(multipartEmail);
+
+      expect(data.from).toBe('it-desk@evil-sender.com');
+      expect(data.senderName).toBe('IT Desk ✓');
+      expect(data.senderIp).toBe('203.0.113.45');
+      expect(data.ips).toEqual([{ ip: '203.0.113.45' }, { ip: '198.51.100.7' }]);
+      expect(data.urls).toEqual([{ url: 'https://evil-sender.com/reset?u=alice&t=1' }]);
+      expect(data.receivedDate).toBe('2025-01-14T10:15:02.000Z');
+      expect(data.headers?.find(h => h.key === 'Authentication-Results')?.value).toContain('spf=fail');
+      expect(data.attachments?.[0]).toEqual({
+        name: 'invoice.pdf',
+        contentType: 'application/pdf',
+        md5: '900150983cd24fb0d6963f7d28e17f72',
+        sha512:
+          'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f',
+      });
+    });
+
+    it('uses the plain-text body as htmlBody when no HTML part exists', async () => {
+      const data = await parseEmlToEmailData('From: a@b.com\r\nSubject: Hi\r\n\r\nPlain only');
+      expect(data.htmlBody).toBe('Plain only');
+      expect(data.textBody).toBe('Plain only');
+    });
+
+    it('falls back to a placeholder sender when From is missing', async () => {
+      const data = await parseEmlToEmailData('Subject: No sender\r\n\r\nBody');
+      expect(data.from).toBe('unknown@unavailable.local');
+      expect(data.subject).toBe('No sender');
+    });
+  });
+});
@@ -0,0 +1,497 @@
+/**
+ * Raw Email Parser (RFC 5322 / MIME)
+ *
+ * Converts an uploaded .eml message into EmailIREmailData so mail from quarantines
+ * outside the platform can run through the same emailIRWorkflow steps as records
+ * fetched from the Keepnet /notified-emails/:id API.
+ *
+ * The Outlook .msg reader (msg-parser.ts) produces the same ExtractedMessage shape,
+ * so URL extraction, Received-chain IP resolution and attachment hashing live here once.
+ */
+
+import type { EmailIREmailData } from '../../types/email-ir';
+import { md5Hex, sha512Hex } from '../../utils/core/hash-utils';
+
+// ─── Limits ───
+
+/** Nested multipart depth guard (malformed or hostile MIME trees) */
+const MAX_MIME_DEPTH = 10;
+/** Attachments beyond this count are ignored */
+const MAX_ATTACHMENTS = 50;
+/** URLs beyond this count are ignored (matches API-side extraction cap) */
+const MAX_URLS = 100;
+
+// ─── Types ───
+
+export interface ParsedHeader {
+  key: string;
+  value: string;
+}
+
+export interface EmailAddress {
+  name?: string;
+  address: string;
+}
+
+export interface ExtractedAttachment {
+  name: string;
+  contentType?: string;
+  /** Raw attachment bytes; omitted when the container does not carry them (e.g. embedded .msg objects) */
+  content?: Uint8Array;
+}
+
+/** Format-neutral message extracted from .eml or .msg before mapping to EmailIREmailData */
+export interface ExtractedMessage {
+  headers: ParsedHeader[];
+  from?: EmailAddress;
+  subject?: string;
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  htmlBody?: string;
+  textBody?: string;
+  attachments: ExtractedAttachment[];
+}
+
+interface HeaderValueWithParams {
+  value: string;
+  params: Record<string, string>;
+}
+
+// ─── Byte/String Helpers ───
+
+/** Bytes → binary string (one char per byte) so MIME structure can be parsed without corrupting 8bit data */
+export function bytesToBinaryString(bytes: Uint8Array): string {
+  let out = '';
+  const chunk = 0x8000;
+  for (let i = 0; i < bytes.length; i += chunk) {
+    out += String.fromCharCode(...bytes.subarray(i, i + chunk));
+  }
+  return out;
+}
+
+function binaryStringToBytes(binary: string): Uint8Array {
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i) & 0xff;
+  }
+  return bytes;
+}
+
+/** Decode bytes using a MIME charset label, falling back to UTF-8 for unknown labels */
+export function decodeCharset(bytes: Uint8Array, charset?: string): string {
+  const label = (charset || 'utf-8').trim().toLowerCase();
+  try {
+    return new TextDecoder(label).decode(bytes);
+  } catch {
+    return new TextDecoder('utf-8').decode(bytes);
+  }
+}
+
+function decodeBase64(text: string): Uint8Array {
+  const clean = text.replace(/[^A-Za-z0-9+/]/g, '');
+  const padded = clean + '='.repeat((4 - (clean.length % 4)) % 4);
+  try {
+    return binaryStringToBytes(atob(padded));
+  } catch {
+    return new Uint8Array(0);
+  }
+}
+
+function decodeQuotedPrintable(text: string): Uint8Array {
+  const unfolded = text.replace(/=\r?\n/g, '');
+  const bytes: number[] = [];
+  for (let i = 0; i < unfolded.length; i++) {
+    const ch = unfolded[i];
+    if (ch === '=' && /^[0-9A-Fa-f]{2}$/.test(unfolded.slice(i + 1, i + 3))) {
+      bytes.push(parseInt(unfolded.slice(i + 1, i + 3), 16));
+      i += 2;
+    } else {
+      bytes.push(unfolded.charCodeAt(i) & 0xff);
+    }
+  }
+  return new Uint8Array(bytes);
+}
+
+function decodeTransferEncoding(body: string, encoding: string | undefined): Uint8Array {
+  switch ((encoding || '').trim().toLowerCase()) {
+    case 'base64':
+      return decodeBase64(body);
+    case 'quoted-printable':
+      return decodeQuotedPrintable(body);
+    default:
+      return binaryStringToBytes(body);
+  }
+}
+
+// ─── Header Parsing ───
+
+/**
+ * Decode RFC 2047 encoded-words (=?charset?B|Q?text?=).
+ * Whitespace between adjacent encoded-words is dropped per RFC 2047 §6.2.
+ */
+export function decodeMimeWords(value: string): string {
+  const encodedWord = /=\?([^?]+)\?([bBqQ])\?([^?]*)\?=/g;
+  const joined = value.replace(/(=\?[^?]+\?[bBqQ]\?[^?]*\?=)\s+(?==\?[^?]+\?[bBqQ]\?[^?]*\?=)/g, '$1');
+
+  return joined.replace(encodedWord, (_match, charset: string, encoding: string, text: string) => {
+    const cleanCharset = charset.split('*')[0]; // RFC 2231 language suffix
+    const bytes = encoding.toUpperCase() === 'B' ? decodeBase64(text) : decodeQuotedPrintable(text.replace(/_/g, ' '));
+    return decodeCharset(bytes, cleanCharset);
+  });
+}
+
+/**
+ * Parse an RFC 5322 header block into ordered key/value pairs.
+ * Folded lines (leading whitespace) are unfolded; encoded-words are decoded.
+ */
+export function parseHeaderBlock(block: string): ParsedHeader[] {
+  const headers: ParsedHeader[] = [];
+  const lines = block.split(/\r?\n/);
+
+  for (const line of lines) {
+    if (/^[ \t]/.test(line) && headers.length > 0) {
+      headers[headers.length - 1].value += ' ' + line.trim();
+      continue;
+    }
+    const colon = line.indexOf(':');
+    if (colon <= 0) continue;
+    headers.push({ key: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() });
+  }
+
+  return headers.map(h => ({ key: h.key, value: decodeMimeWords(decodeRawHeaderBytes(h.value)) }));
+}
+
+/** RFC 6532: raw 8-bit header bytes (binary string) are UTF-8 */
+function decodeRawHeaderBytes(value: string): string {
+  if (!/[\x80-\xff]/.test(value) || /[^\x00-\xff]/.test(value)) return value;
+  return decodeCharset(binaryStringToBytes(value), 'utf-8');
+}
+
+function getHeader(headers: ParsedHeader[], name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return headers.find(h => h.key.toLowerCase() === lower)?.value;
+}
+
+function getAllHeaders(headers: ParsedHeader[], name: string): string[] {
+  const lower = name.toLowerCase();
+  return headers.filter(h => h.key.toLowerCase() === lower).map(h => h.value);
+}
+
+/** Parse "type/subtype; key=value; key*=utf-8''value" style header values */
+function parseHeaderParams(raw: string | undefined): HeaderValueWithParams {
+  if (!raw) return { value: '', params: {} };
+
+  const segments: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  for (const ch of raw) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (ch === ';' && !inQuotes) {
+      segments.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  segments.push(current);
+
+  const params: Record<string, string> = {};
+  for (const segment of segments.slice(1)) {
+    const eq = segment.indexOf('=');
+    if (eq <= 0) continue;
+    const key = segment.slice(0, eq).trim().toLowerCase();
+    let val = segment.slice(eq + 1).trim();
+    if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1);
+
+    // RFC 2231 extended value: charset'lang'percent-encoded
+    if (key.endsWith('*')) {
+      const match = val.match(/^([^']*)'[^']*'(.*)$/);
+      const baseKey = key.replace(/\*(\d+\*?)?$/, '');
+      if (match) {
+        const percentDecoded = match[2].replace(/%([0-9A-Fa-f]{2})/g, (_m, hex: string) =>
+          String.fromCharCode(parseInt(hex, 16))
+        );
+        params[baseKey] = decodeCharset(binaryStringToBytes(percentDecoded), match[1] || 'utf-8');
+      } else {
+        params[baseKey] = (params[baseKey] || '') + val;
+      }
+      continue;
+    }
+    params[key] = val;
+  }
+
+  return { value: segments[0].trim().toLowerCase(), params };
+}
+
+/** Split an address list on commas outside quotes/angle brackets */
+export function parseAddressList(raw: string | undefined): EmailAddress[] {
+  if (!raw) return [];
+
+  const entries: string[] = [];
+  let current = '';
+  let inQuotes = false;
+  let angleDepth = 0;
+  for (const ch of raw) {
+    if (ch === '"') inQuotes = !inQuotes;
+    if (!inQuotes && ch === '<') angleDepth++;
+    if (!inQuotes && ch === '>') angleDepth = Math.max(0, angleDepth - 1);
+    if ((ch === ',' || ch === ';') && !inQuotes && angleDepth === 0) {
+      entries.push(current);
+      current = '';
+    } else {
+      current += ch;
+    }
+  }
+  entries.push(current);
+
+  const addresses: EmailAddress[] = [];
+  for (const entry of entries) {
+    const trimmed = entry.trim();
+    if (!trimmed) continue;
+    const angle = trimmed.match(/^(.*)<([^>]+)>\s*$/);
+    if (angle) {
+      const name = angle[1].trim().replace(/^"|"$/g, '').trim();
+      addresses.push({ address: angle[2].trim(), ...(name ? { name } : {}) });
+    } else if (trimmed.includes('@')) {
+      addresses.push({ address: trimmed.replace(/^"|"$/g, '') });
+    }
+  }
+  return addresses;
+}
+
+// ─── Network Helpers ───
+
+const IPV4_PATTERN = /\b((?:25[0-5]|2[0-4]\d|1?\d?\d)(?:\.(?:25[0-5]|2[0-4]\d|1?\d?\d)){3})\b/g;
+const BRACKETED_IPV6_PATTERN = /\[(?:IPv6:)?([0-9a-fA-F]*:[0-9a-fA-F:.]+)\]/g;
+
+/** True for loopback, RFC 1918, link-local, CGNAT and IPv6 ULA/link-local addresses */
+export function isPrivateIp(ip: string): boolean {
+  if (ip.includes(':')) {
+    const lower = ip.toLowerCase();
+    return lower === '::1' || lower.startsWith('fc') || lower.startsWith('fd') || lower.startsWith('fe80');
+  }
+  const [a, b] = ip.split('.').map(Number);
+  return (
+    a === 0 ||
+    a === 10 ||
+    a === 127 ||
+    (a === 100 && b >= 64 && b <= 127) ||
+    (a === 169 && b === 254) ||
+    (a === 172 && b >= 16 && b <= 31) ||
+    (a === 192 && b === 168)
+  );
+}
+
+/** IPs mentioned in the "from" clause of a Received header (the connecting host) */
+export function extractReceivedFromIps(received: string): string[] {
+  const fromClause = received.split(/\s(?:by|with|id|for)\s/i)[0];
+  if (!/^\s*from\s/i.test(fromClause)) return [];
+
+  const ips: string[] = [];
+  for (const match of fromClause.matchAll(BRACKETED_IPV6_PATTERN)) ips.push(match[1]);
+  for (const match of fromClause.matchAll(IPV4_PATTERN)) ips.push(match[1]);
+  return ips;
+}
+
+/**
+ * Resolve the sender IP from the Received chain.
+ *
+ * Received headers are prepended by each hop, so walking top-down the first public IP in a
+ * "from" clause is the host that handed the message to the recipient's infrastructure — the
+ * most trustworthy hop (lower headers can be forged by the sender). Falls back to
+ * X-Originating-IP style headers when the chain only contains private relays.
+ */
+export function resolveSenderIp(headers: ParsedHeader[]): string | undefined {
+  for (const received of getAllHeaders(headers, 'received')) {
+    const publicIp = extractReceivedFromIps(received).find(ip => !isPrivateIp(ip));
+    if (publicIp) return publicIp;
+  }
+
+  for (const name of ['x-originating-ip', 'x-sender-ip', 'x-forwarded-for']) {
+    const value = getHeader(headers, name);
+    const ip = value?.match(IPV4_PATTERN)?.[0];
+    if (ip && !isPrivateIp(ip)) return ip;
+  }
+  return undefined;
+}
+
+function collectPublicIps(headers: ParsedHeader[], senderIp: string | undefined): string[] {
+  const ips = new Set<string>();
+  if (senderIp) ips.add(senderIp);
+  for (const received of getAllHeaders(headers, 'received')) {
+    for (const ip of extractReceivedFromIps(received)) {
+      if (!isPrivateIp(ip)) ips.add(ip);
+    }
+  }
+  return Array.from(ips);
+}
+
+/** Date the message reached the final hop (top Received header), falling back to the Date header */
+function resolveReceivedDate(headers: ParsedHeader[]): string | undefined {
+  const topReceived = getAllHeaders(headers, 'received')[0];
+  const candidates = [topReceived?.split(';').pop(), getHeader(headers, 'date')];
+  for (const candidate of candidates) {
+    if (!candidate) continue;
+    const parsed = new Date(candidate.trim());
+    if (!Number.isNaN(parsed.getTime())) return parsed.toISOString();
+  }
+  return undefined;
+}
+
+// ─── URL Extraction ───
+
+function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&amp;/gi, '&')
+    .replace(/&quot;/gi, '"')
+    .replace(/&#39;/g, "'")
+    .replace(/&lt;/gi, '<')
+    .replace(/&gt;/gi, '>');
+}
+
+/** Extract distinct http(s) URLs from anchor hrefs and free text, in order of appearance */
+export function extractUrls(htmlBody?: string, textBody?: string): string[] {
+  const urls = new Set<string>();
+  const add = (candidate: string) => {
+    const cleaned = decodeHtmlEntities(candidate.trim()).replace(/[.,;:!?)\]}'"]+$/, '');
+    if (/^https?:\/\/[^\s/]+/i.test(cleaned) && urls.size < MAX_URLS) urls.add(cleaned);
+  };
+
+  if (htmlBody) {
+    for (const match of htmlBody.matchAll(/href\s*=\s*["']?([^"'\s>]+)/gi)) add(match[1]);
+  }
+  for (const source of [htmlBody, textBody]) {
+    if (!source) continue;
+    for (const match of source.matchAll(/https?:\/\/[^\s"'<>]+/gi)) add(match[0]);
+  }
+  return Array.from(urls);
+}
+
+// ─── MIME Walking ───
+
+function splitHeadersAndBody(binary: string): { headerBlock: string; body: string } {
+  const match = binary.match(/\r?\n\r?\n/);
+  if (!match || match.index === undefined) return { headerBlock: binary, body: '' };
+  return {
+    headerBlock: binary.slice(0, match.index),
+    body: binary.slice(match.index + match[0].length),
+  };
+}
+
+function splitMultipart(body: string, boundary: string): string[] {
+  const escaped = boundary.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const delimiter = new RegExp(`(?:^|\\r?\\n)--${escaped}(--)?[ \\t]*(?:\\r?\\n|$)`, 'g');
+
+  const parts: string[] = [];
+  let lastIndex: number | null = null;
+  for (const match of body.matchAll(delimiter)) {
+    if (lastIndex !== null && match.index !== undefined) {
+      parts.push(body.slice(lastIndex, match.index));
+    }
+    if (match[1]) break; // closing delimiter
+    lastIndex = (match.index ?? 0) + match[0].length;
+  }
+  return parts;
+}
+
+function walkMimePart(binary: string, message: ExtractedMessage, depth: number): void {
+  if (depth > MAX_MIME_DEPTH) return;
+
+  const { headerBlock, body } = splitHeadersAndBody(binary);
+  const headers = parseHeaderBlock(headerBlock);
+  const contentType = parseHeaderParams(getHeader(headers, 'content-type') || 'text/plain');
+  const disposition = parseHeaderParams(getHeader(headers, 'content-disposition'));
+
+  if (contentType.value.startsWith('multipart/') && contentType.params.boundary) {
+    for (const child of splitMultipart(body, contentType.params.boundary)) {
+      walkMimePart(child, message, depth + 1);
+    }
+    return;
+  }
+
+  const bytes = decodeTransferEncoding(body, getHeader(headers, 'content-transfer-encoding'));
+  const filename = disposition.params.filename || contentType.params.name;
+  const isTextBody =
+    (contentType.value === 'text/plain' || contentType.value === 'text/html') && disposition.value !== 'attachment';
+
+  if (isTextBody) {
+    const text = decodeCharset(bytes, contentType.params.charset);
+    if (contentType.value === 'text/html' && message.htmlBody === undefined) message.htmlBody = text;
+    else if (contentType.value === 'text/plain' && message.textBody === undefined) message.textBody = text;
+    return;
+  }
+
+  if (message.attachments.length >= MAX_ATTACHMENTS) return;
+  const defaultName = contentType.value === 'message/rfc822' ? 'attached-message.eml' : 'unnamed-attachment';
+  message.attachments.push({
+    name: filename ? decodeMimeWords(filename) : defaultName,
+    contentType: contentType.value || undefined,
+    content: bytes,
+  });
+}
+
+/** Parse a raw RFC 5322 message (string or bytes) into the format-neutral ExtractedMessage */
+export function extractEmlMessage(raw: string | Uint8Array): ExtractedMessage {
+  const binary =
+    typeof raw === 'string' ? bytesToBinaryString(new TextEncoder().encode(raw)) : bytesToBinaryString(raw);
+  const { headerBlock } = splitHeadersAndBody(binary);
+  const headers = parseHeaderBlock(headerBlock);
+
+  const message: ExtractedMessage = {
+    headers,
+    from: parseAddressList(getHeader(headers, 'from'))[0],
+    subject: getHeader(headers, 'subject'),
+    to: parseAddressList(getHeader(headers, 'to')).map(a => a.address),
+    cc: parseAddressList(getHeader(headers, 'cc')).map(a => a.address),
+    bcc: parseAddressList(getHeader(headers, 'bcc')).map(a => a.address),
+    attachments: [],
+  };
+
+  walkMimePart(binary, message, 0);
+  return message;
+}
+
+// ─── EmailIREmailData Mapping ───
+
+/**
+ * Map an extracted message onto EmailIREmailData.
+ * Computes URL list, sender IP + public IP list from Received headers and
+ * SHA-512/MD5 attachment hashes (the same fields the Keepnet API returns).
+ */
+export async function toEmailIRData(message: ExtractedMessage): Promise<EmailIREmailData> {
+  const senderIp = resolveSenderIp(message.headers);
+  const ips = collectPublicIps(message.headers, senderIp);
+  const urls = extractUrls(message.htmlBody, message.textBody);
+
+  const attachments = await Promise.all(
+    message.attachments.map(async attachment => ({
+      name: attachment.name,
+      ...(attachment.contentType ? { contentType: attachment.contentType } : {}),
+      ...(attachment.content ? { sha512: await sha512Hex(attachment.content), md5: md5Hex(attachment.content) } : {}),
+    }))
+  );
+
+  return {
+    from: message.from?.address || 'unknown@unavailable.local',
+    senderName: message.from?.name,
+    subject: message.subject ?? '',
+    // Downstream tools read htmlBody; plain-text-only messages are passed through as-is
+    htmlBody: message.htmlBody ?? message.textBody,
+    textBody: message.textBody,
+    senderIp,
+    to: message.to,
+    cc: message.cc,
+    bcc: message.bcc,
+    urls: urls.map(url => ({ url })),
+    attachments,
+    ips: ips.map(ip => ({ ip })),
+    headers: message.headers,
+    receivedDate: resolveReceivedDate(message.headers),
+  };
+}
+
+/** Parse a raw .eml message straight into EmailIREmailData */
+export async function parseEmlToEmailData(raw: string | Uint8Array): Promise<EmailIREmailData> {
+  return toEmailIRData(extractEmlMessage(raw));
+}
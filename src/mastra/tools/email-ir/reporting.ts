@@ -14,6 +14,7 @@ import { createLogContext, loggerReporting, logStepStart, logStepComplete, logSt
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../../services/llm-cost-service';
 import { withRetry } from '../../utils/core/resilience-utils';
 
 export const reportingTool = createTool({
@@ -157,6 +158,8 @@ This report format is designed for:
 - Legal/HR escalation documentation
 `;
 
+      await assertLlmBudget('email-ir-reporting');
+
       const result = await withRetry(
         () =>
           emailIRAnalyst.generate(prompt, {
@@ -16,6 +16,7 @@ import { createLogContext, loggerRiskAssessment, logStepStart, logStepComplete,
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../../services/llm-cost-service';
 import { withRetry } from '../../utils/core/resilience-utils';
 
 export const riskAssessmentOutputSchema = z.object({
@@ -187,6 +188,8 @@ Provide clear SOC-ready justification.
 Self-Check: Verify risk_level matches the Decision Rules above for the given triage_category. If your risk_level contradicts the rules (e.g., "Low" for a Phishing triage), correct it before returning.
 `;
 
+      await assertLlmBudget('email-ir-risk-assessment');
+
       const result = await withRetry(
         () =>
           emailIRAnalyst.generate(prompt, {
@@ -0,0 +1,131 @@
+import { describe, it, expect } from 'vitest';
+import { buildMispEvent, buildStixBundle, type ThreatExportInput } from './threat-intel-export';
+
+const sha512 = 'A'.repeat(128);
+
+const baseInput = (overrides: Partial<ThreatExportInput> = {}): ThreatExportInput => ({
+  email: {
+    from: 'PayPal Support <service@paypa1.com>',
+    senderName: 'PayPal Support',
+    subject: "Your account is suspended — verify it's you",
+    to: ['alice@acme.com'],
+    receivedDate: '2025-01-14T10:15:00Z',
+    urls: [{ url: "https://paypa1.com/login?next='x'" }, { url: 'https://cdn.example.com/logo.png' }],
+    attachments: [{ name: 'invoice.html', sha512, md5: 'd41d8cd98f00b204e9800998ecf8427e', contentType: 'text/html' }],
+    ips: [{ ip: '203.0.113.45' }, { ip: '2001:db8::1' }],
+  },
+  report: {
+    executive_summary: {
+      email_category: 'Phishing',
+      verdict: 'High-Risk Phishing',
+      risk_level: 'High',
+      confidence: 0.9,
+      evidence_strength: 'Strong',
+      confidence_basis: null,
+      status: 'Analysis Complete',
+      why_this_matters: null,
+    },
+    agent_determination: 'Credential harvesting impersonating PayPal.',
+    risk_indicators: { observed: [], not_observed: [] },
+    evidence_flow: [],
+    actions_recommended: { p1_immediate: [], p2_follow_up: [], p3_hardening: [] },
+    confidence_limitations: 'High confidence.',
+  },
+  triage: { category: 'Phishing', reason: 'Credential request', confidence: 0.92 },
+  runId: 'run-123',
+  now: new Date('2025-01-15T00:00:00Z'),
+  ...overrides,
+});
+
+const byType = (objects: Array<{ type: string }>, type: string) => objects.filter(o => o.type === type) as any[];
+
+describe('threat-intel-export', () => {
+  describe('buildStixBundle', () => {
+    it('emits observables for sender, recipients, message, URLs, files and IPs', async () => {
+      const { type, objects } = await buildStixBundle(baseInput());
+
+      expect(type).toBe('bundle');
+      expect(byType(objects, 'email-addr').map(o => o.value)).toEqual(['service@paypa1.com', 'alice@acme.com']);
+      expect(byType(objects, 'url')).toHaveLength(2);
+      expect(byType(objects, 'ipv4-addr')[0].value).toBe('203.0.113.45');
+      expect(byType(objects, 'ipv6-addr')[0].value).toBe('2001:db8::1');
+      expect(byType(objects, 'file')[0].hashes).toEqual({
+        MD5: 'd41d8cd98f00b204e9800998ecf8427e',
+        'SHA-512': sha512.toLowerCase(),
+      });
+
+      const [message] = byType(objects, 'email-message');
+      expect(message.from_ref).toBe(byType(objects, 'email-addr')[0].id);
+      expect(message.date).toBe('2025-01-14T10:15:00.000Z');
+    });
+
+    it('uses deterministic UUIDv5 ids for observables', async () => {
+      const first = await buildStixBundle(baseInput());
+      const second = await buildStixBundle(baseInput());
+      expect(byType(first.objects, 'url').map(o => o.id)).toEqual(byType(second.objects, 'url').map(o => o.id));
+      expect(byType(first.objects, 'url')[0].id).toMatch(/^url--[0-9a-f]{8}-[0-9a-f]{4}-5[0-9a-f]{3}-[89ab]/);
+    });
+
+    it('links indicators, observed-data and the report for threat categories', async () => {
+      const { objects } = await buildStixBundle(baseInput());
+      const indicators = byType(objects, 'indicator');
+      const [observed] = byType(objects, 'observed-data');
+      const [report] = byType(objects, 'report');
+
+      expect(indicators.map(i => i.pattern)).toEqual([
+        "[email-addr:value = 'service@paypa1.com']",
+        "[url:value = 'https://paypa1.com/login?next=\\'x\\'']",
+        "[url:value = 'https://cdn.example.com/logo.png']",
+        `[file:hashes.'SHA-512' = '${sha512.toLowerCase()}']`,
+        "[ipv4-addr:value = '203.0.113.45']",
+        "[ipv6-addr:value = '2001:db8::1']",
+      ]);
+      expect(byType(objects, 'relationship').every(r => r.target_ref === observed.id)).toBe(true);
+      expect(observed.object_refs).toHaveLength(8);
+      expect(report).toMatchObject({
+        labels: ['Phishing', 'risk:high'],
+        confidence: 92,
+        report_types: ['threat-report'],
+        external_references: [{ source_name: 'agentic-ally-email-ir', external_id: 'run-123' }],
+      });
+      expect(report.object_refs).toContain(observed.id);
+    });
+
+    it('only emits indicators for platform-flagged items on non-threat verdicts', async () => {
+      const input = baseInput({ triage: { category: 'Marketing', reason: 'Newsletter', confidence: 0.8 } });
+      input.email.urls = [{ url: 'https://shop.example.com' }, { url: 'https://bad.example.net', result: 'Malicious' }];
+
+      const { objects } = await buildStixBundle(input);
+
+      expect(byType(objects, 'indicator').map(i => i.pattern)).toEqual(["[url:value = 'https://bad.example.net']"]);
+    });
+  });
+
+  describe('buildMispEvent', () => {
+    it('maps observables to MISP attributes and file objects', () => {
+      const { Event } = buildMispEvent(baseInput());
+
+      expect(Event).toMatchObject({
+        info: "High-Risk Phishing: Your account is suspended — verify it's you",
+        date: '2025-01-14',
+        threat_level_id: '1',
+        Tag: [{ name: 'tlp:amber' }, { name: 'email-ir:category="Phishing"' }, { name: 'email-ir:run-id="run-123"' }],
+      });
+      expect(Event.Attribute.map(a => [a.type, a.value, a.to_ids])).toEqual([
+        ['email-subject', "Your account is suspended — verify it's you", false],
+        ['email-src', 'service@paypa1.com', true],
+        ['email-dst', 'alice@acme.com', false],
+        ['url', "https://paypa1.com/login?next='x'", true],
+        ['url', 'https://cdn.example.com/logo.png', true],
+        ['ip-src', '203.0.113.45', true],
+        ['ip-src', '2001:db8::1', true],
+      ]);
+      expect(Event.Object[0].Attribute.map(a => a.type)).toEqual(['filename', 'sha512', 'md5', 'mime-type']);
+    });
+
+    it('does not mark observables for IDS on benign verdicts', () => {
+      const { Event } = buildMispEvent(baseInput({ triage: { category: 'Benign', reason: 'Clean', confidence: 0.9 } }));
+      expect(Event.Attribute.some(a => a.to_ids)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,341 @@
+/**
+ * Threat-Intel Export (STIX 2.1 / MISP)
+ *
+ * Converts a finished Email IR analysis into formats threat intel platforms ingest:
+ * - STIX 2.1 bundle: email-message / email-addr / url / file / ipv4-addr observables,
+ *   an observed-data SDO, indicators (threat verdicts or platform-flagged items) and a
+ *   report SDO carrying the triage category.
+ * - MISP event JSON: the same observables as attributes and file objects.
+ *
+ * Deterministic: observables come from `original_email`, never from LLM output.
+ * Observable ids are UUIDv5 per the STIX 2.1 spec so re-exports deduplicate downstream.
+ */
+
+import { z } from 'zod';
+import { uuidV5 } from '../../utils/core/hash-utils';
+import type { EmailIREmailData } from '../../types/email-ir';
+import type { EmailIRCanvasSchema, EMAIL_IR_EMAIL_CATEGORIES } from '../../schemas/email-ir';
+
+type EmailIRCanvas = z.infer<typeof EmailIRCanvasSchema>;
+type EmailCategory = (typeof EMAIL_IR_EMAIL_CATEGORIES)[number];
+
+export const THREAT_EXPORT_FORMATS = ['stix', 'misp'] as const;
+export type ThreatExportFormat = (typeof THREAT_EXPORT_FORMATS)[number];
+
+export interface ThreatExportInput {
+  email: EmailIREmailData;
+  report: EmailIRCanvas;
+  triage: { category: EmailCategory; reason: string; confidence: number };
+  runId: string;
+  /** Export timestamp (defaults to now) */
+  now?: Date;
+}
+
+type StixObject = { type: string; id: string } & Record<string, unknown>;
+
+export interface StixBundle {
+  type: 'bundle';
+  id: string;
+  objects: StixObject[];
+}
+
+interface MispAttribute {
+  uuid: string;
+  type: string;
+  category: string;
+  value: string;
+  to_ids: boolean;
+  comment?: string;
+}
+
+export interface MispEvent {
+  Event: {
+    uuid: string;
+    info: string;
+    date: string;
+    timestamp: string;
+    threat_level_id: '1' | '2' | '3' | '4';
+    analysis: '2';
+    distribution: '0';
+    Tag: Array<{ name: string }>;
+    Attribute: MispAttribute[];
+    Object: Array<{ uuid: string; name: string; meta_category: string; Attribute: MispAttribute[] }>;
+  };
+}
+
+// ─── Shared ───
+
+/** Categories whose observables are exported as indicators (to_ids in MISP) */
+const INDICATOR_CATEGORIES: readonly EmailCategory[] = [
+  'Phishing',
+  'CEO Fraud',
+  'Malware',
+  'Sextortion',
+  'Other Suspicious',
+];
+
+/** Platform per-item verdicts that make an observable an indicator regardless of category */
+const FLAGGED_ITEM_RESULT = /malicious|phish|suspicious|malware/i;
+
+/** STIX 2.1 namespace for deterministic SCO ids (spec §2.9) */
+const STIX_SCO_NAMESPACE = '00abedb4-aa42-466c-9c01-fed23315a9b7';
+/** Predefined TLP:AMBER marking definition (STIX 2.1 §7.2.1.4) */
+const TLP_AMBER_MARKING = 'marking-definition--f88d31f6-486f-44da-b317-01333bde0b82';
+const PRODUCER_IDENTITY = {
+  type: 'identity',
+  spec_version: '2.1',
+  id: 'identity--5a1f0c9e-7d3b-5c4a-9e2f-6b8d1a0c3e74',
+  created: '2025-01-01T00:00:00.000Z',
+  modified: '2025-01-01T00:00:00.000Z',
+  name: 'Agentic Ally Email IR',
+  identity_class: 'system',
+} as const;
+
+function isIndicatorCategory(category: EmailCategory): boolean {
+  return INDICATOR_CATEGORIES.includes(category);
+}
+
+function isFlagged(result: string | undefined): boolean {
+  return !!result && FLAGGED_ITEM_RESULT.test(result);
+}
+
+function extractAddress(value: string | undefined): string | undefined {
+  const match = (value || '').match(/[^\s<>"]+@[^\s<>"]+/);
+  return match ? match[0].toLowerCase() : undefined;
+}
+
+/** Sorted-key JSON, close enough to RFC 8785 for the flat contributing properties we hash */
+function canonicalJson(value: unknown): string {
+  if (Array.isArray(value)) return `[${value.map(canonicalJson).join(',')}]`;
+  if (value && typeof value === 'object') {
+    const entries = Object.entries(value as Record<string, unknown>)
+      .filter(([, v]) => v !== undefined)
+      .sort(([a], [b]) => (a < b ? -1 : 1));
+    return `{${entries.map(([k, v]) => `${JSON.stringify(k)}:${canonicalJson(v)}`).join(',')}}`;
+  }
+  return JSON.stringify(value);
+}
+
+async function scoId(type: string, contributing: Record<string, unknown>): Promise<string> {
+  return `${type}--${await uuidV5(canonicalJson(contributing), STIX_SCO_NAMESPACE)}`;
+}
+
+function escapePattern(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/'/g, "\\'");
+}
+
+function ipType(ip: string): 'ipv4-addr' | 'ipv6-addr' {
+  return ip.includes(':') ? 'ipv6-addr' : 'ipv4-addr';
+}
+
+function fileHashes(attachment: { sha512?: string; md5?: string }): Record<string, string> | undefined {
+  const hashes: Record<string, string> = {};
+  if (attachment.md5) hashes.MD5 = attachment.md5.toLowerCase();
+  if (attachment.sha512) hashes['SHA-512'] = attachment.sha512.toLowerCase();
+  return Object.keys(hashes).length > 0 ? hashes : undefined;
+}
+
+function observedAt(input: ThreatExportInput): string {
+  const candidate = input.email.receivedDate || input.email.analysisDate;
+  const parsed = candidate ? new Date(candidate) : undefined;
+  return parsed && !Number.isNaN(parsed.getTime()) ? parsed.toISOString() : (input.now ?? new Date()).toISOString();
+}
+
+// ─── STIX 2.1 ───
+
+export async function buildStixBundle(input: ThreatExportInput): Promise<StixBundle> {
+  const { email, report, triage } = input;
+  const now = (input.now ?? new Date()).toISOString();
+  const firstObserved = observedAt(input);
+  const threat = isIndicatorCategory(triage.category);
+  const common = {
+    spec_version: '2.1',
+    created: now,
+    modified: now,
+    created_by_ref: PRODUCER_IDENTITY.id,
+    object_marking_refs: [TLP_AMBER_MARKING],
+  };
+
+  const observables: StixObject[] = [];
+  const indicators: StixObject[] = [];
+  const seen = new Set<string>();
+
+  const addObservable = (object: StixObject) => {
+    if (seen.has(object.id)) return;
+    seen.add(object.id);
+    observables.push({ spec_version: '2.1', ...object });
+  };
+  const addIndicator = (name: string, pattern: string) => {
+    indicators.push({
+      type: 'indicator',
+      id: `indicator--${crypto.randomUUID()}`,
+      ...common,
+      name,
+      pattern,
+      pattern_type: 'stix',
+      valid_from: firstObserved,
+      indicator_types: ['malicious-activity'],
+      labels: [triage.category],
+    });
+  };
+
+  // Sender / recipients
+  const sender = extractAddress(email.from);
+  const senderId = sender ? await scoId('email-addr', { value: sender }) : undefined;
+  if (sender && senderId) {
+    addObservable({ type: 'email-addr', id: senderId, value: sender, display_name: email.senderName });
+    if (threat) addIndicator(`Sender ${sender}`, `[email-addr:value = '${escapePattern(sender)}']`);
+  }
+  const toRefs: string[] = [];
+  for (const recipient of email.to || []) {
+    const address = extractAddress(recipient);
+    if (!address) continue;
+    const id = await scoId('email-addr', { value: address });
+    addObservable({ type: 'email-addr', id, value: address });
+    toRefs.push(id);
+  }
+
+  const messageId = await scoId('email-message', { from_ref: senderId, subject: email.subject });
+  addObservable({
+    type: 'email-message',
+    id: messageId,
+    is_multipart: (email.attachments?.length ?? 0) > 0,
+    date: email.receivedDate ? firstObserved : undefined,
+    from_ref: senderId,
+    to_refs: toRefs.length > 0 ? toRefs : undefined,
+    subject: email.subject,
+  });
+
+  for (const { url, result } of email.urls || []) {
+    addObservable({ type: 'url', id: await scoId('url', { value: url }), value: url });
+    if (threat || isFlagged(result)) addIndicator(`URL ${url}`, `[url:value = '${escapePattern(url)}']`);
+  }
+
+  for (const attachment of email.attachments || []) {
+    const hashes = fileHashes(attachment);
+    addObservable({
+      type: 'file',
+      id: await scoId('file', { hashes, name: hashes ? undefined : attachment.name }),
+      name: attachment.name,
+      hashes,
+      mime_type: attachment.contentType,
+    });
+    if (hashes && (threat || isFlagged(attachment.result))) {
+      const [algorithm, value] = hashes['SHA-512'] ? ['SHA-512', hashes['SHA-512']] : ['MD5', hashes.MD5];
+      addIndicator(`Attachment ${attachment.name}`, `[file:hashes.'${algorithm}' = '${value}']`);
+    }
+  }
+
+  for (const { ip, result } of email.ips || []) {
+    const type = ipType(ip);
+    addObservable({ type, id: await scoId(type, { value: ip }), value: ip });
+    if (threat || isFlagged(result)) addIndicator(`IP ${ip}`, `[${type}:value = '${escapePattern(ip)}']`);
+  }
+
+  // SCO fields left undefined are dropped by JSON serialization
+  const observedData: StixObject = {
+    type: 'observed-data',
+    id: `observed-data--${crypto.randomUUID()}`,
+    ...common,
+    first_observed: firstObserved,
+    last_observed: firstObserved,
+    number_observed: 1,
+    object_refs: observables.map(object => object.id),
+  };
+
+  const relationships: StixObject[] = indicators.map(indicator => ({
+    type: 'relationship',
+    id: `relationship--${crypto.randomUUID()}`,
+    ...common,
+    relationship_type: 'based-on',
+    source_ref: indicator.id,
+    target_ref: observedData.id,
+  }));
+
+  const reportObject: StixObject = {
+    type: 'report',
+    id: `report--${crypto.randomUUID()}`,
+    ...common,
+    name: `${report.executive_summary.verdict} — ${email.subject}`,
+    description: report.agent_determination,
+    report_types: ['threat-report'],
+    published: now,
+    labels: [triage.category, `risk:${report.executive_summary.risk_level.toLowerCase()}`],
+    confidence: Math.round(triage.confidence * 100),
+    object_refs: [observedData.id, ...indicators.map(indicator => indicator.id), ...observables.map(o => o.id)],
+    external_references: [{ source_name: 'agentic-ally-email-ir', external_id: input.runId }],
+  };
+
+  return {
+    type: 'bundle',
+    id: `bundle--${crypto.randomUUID()}`,
+    objects: [PRODUCER_IDENTITY, reportObject, observedData, ...indicators, ...relationships, ...observables],
+  };
+}
+
+// ─── MISP ───
+
+const MISP_THREAT_LEVEL: Record<EmailIRCanvas['executive_summary']['risk_level'], '1' | '2' | '3'> = {
+  Critical: '1',
+  High: '1',
+  Medium: '2',
+  Low: '3',
+};
+
+export function buildMispEvent(input: ThreatExportInput): MispEvent {
+  const { email, report, triage } = input;
+  const now = input.now ?? new Date();
+  const threat = isIndicatorCategory(triage.category);
+  const attribute = (type: string, category: string, value: string, toIds: boolean, comment?: string) => ({
+    uuid: crypto.randomUUID(),
+    type,
+    category,
+    value,
+    to_ids: toIds,
+    ...(comment ? { comment } : {}),
+  });
+
+  const attributes: MispAttribute[] = [attribute('email-subject', 'Payload delivery', email.subject, false)];
+  const sender = extractAddress(email.from);
+  if (sender) attributes.push(attribute('email-src', 'Payload delivery', sender, threat));
+  for (const recipient of email.to || []) {
+    const address = extractAddress(recipient);
+    if (address) attributes.push(attribute('email-dst', 'Payload delivery', address, false));
+  }
+  for (const { url, result } of email.urls || []) {
+    attributes.push(attribute('url', 'Network activity', url, threat || isFlagged(result), result));
+  }
+  for (const { ip, result } of email.ips || []) {
+    attributes.push(attribute('ip-src', 'Network activity', ip, threat || isFlagged(result), result));
+  }
+
+  const objects = (email.attachments || []).map(attachment => {
+    const toIds = threat || isFlagged(attachment.result);
+    const fileAttributes = [attribute('filename', 'Payload delivery', attachment.name, false)];
+    if (attachment.sha512) fileAttributes.push(attribute('sha512', 'Payload delivery', attachment.sha512, toIds));
+    if (attachment.md5) fileAttributes.push(attribute('md5', 'Payload delivery', attachment.md5, toIds));
+    if (attachment.contentType) {
+      fileAttributes.push(attribute('mime-type', 'Payload delivery', attachment.contentType, false));
+    }
+    return { uuid: crypto.randomUUID(), name: 'file', meta_category: 'file', Attribute: fileAttributes };
+  });
+
+  return {
+    Event: {
+      uuid: crypto.randomUUID(),
+      info: `${report.executive_summary.verdict}: ${email.subject}`,
+      date: observedAt(input).slice(0, 10),
+      timestamp: String(Math.floor(now.getTime() / 1000)),
+      threat_level_id: MISP_THREAT_LEVEL[report.executive_summary.risk_level] ?? '4',
+      analysis: '2',
+      distribution: '0',
+      Tag: [
+        { name: 'tlp:amber' },
+        { name: `email-ir:category="${triage.category}"` },
+        { name: `email-ir:run-id="${input.runId}"` },
+      ],
+      Attribute: attributes,
+      Object: objects,
+    },
+  };
+}
@@ -17,6 +17,7 @@ import { createLogContext, loggerTriage, logStepStart, logStepComplete, logStepE
 import { normalizeError, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
 import { trackAgentCost } from '../../utils/core/tracked-generate';
+import { assertLlmBudget } from '../../services/llm-cost-service';
 import { withRetry } from '../../utils/core/resilience-utils';
 import { sanitizeEmailBody } from './email-body-sanitizer';
 import { EMAIL_IR_EMAIL_CATEGORIES } from '../../schemas/email-ir';
@@ -223,6 +224,8 @@ This classification will be used for:
 Accuracy is critical. When uncertain, prefer **Other Suspicious** over misclassification.
 `;
 
+      await assertLlmBudget('email-ir-triage');
+
       const result = await withRetry(
         () =>
           emailIRAnalyst.generate(prompt, {
@@ -8,24 +8,14 @@
  */
 import { createTool, ToolExecutionContext } from '@mastra/core/tools';
 import { getModelWithOverride } from '../../model-providers';
-import { SceneType, getSceneTypeOrDefault } from '../../types/scene-types';
-import { rewriteScene1Intro } from '../scenes/rewriters/scene1-intro-rewriter';
-import { rewriteScene2Goal } from '../scenes/rewriters/scene2-goal-rewriter';
-import { rewriteScene3Video } from '../scenes/rewriters/scene3-video-rewriter';
-import { rewriteScene4Actionable } from '../scenes/rewriters/scene4-actionable-rewriter';
-import { rewriteScene4Vishing } from '../scenes/rewriters/scene4-vishing-rewriter';
-import { rewriteScene4Smishing } from '../scenes/rewriters/scene4-smishing-rewriter';
-import { rewriteScene5Quiz } from '../scenes/rewriters/scene5-quiz-rewriter';
-import { rewriteScene6Survey } from '../scenes/rewriters/scene6-survey-rewriter';
-import { rewriteScene7Nudge } from '../scenes/rewriters/scene7-nudge-rewriter';
-import { rewriteScene8Summary } from '../scenes/rewriters/scene8-summary-rewriter';
+import { getSceneTypeOrDefault } from '../../types/scene-types';
+import { getSceneRewriter } from '../scenes/rewriters/scene-rewriter-map';
 import { rewriteAppTexts } from '../scenes/rewriters/app-texts-rewriter';
 import { getLogger } from '../../utils/core/logger';
 import { errorService } from '../../services/error-service';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
 import { withRetry } from '../../utils/core/resilience-utils';
 import { runPostRewriteQC } from '../../utils/localization/post-rewrite-qc';
-import type { RewriteContext } from '../scenes/rewriters/scene-rewriter-base';
 import type { AppContent } from '../../types/microlearning';
 import {
   TranslateJsonInputSchema,
@@ -38,32 +28,8 @@ interface SceneMetadataEntry {
   metadata?: { scene_type?: string };
 }
 
-// eslint-disable-next-line @typescript-eslint/no-explicit-any -- scene data is dynamic JSON (z.any()); each rewriter has its own typed signature (Scene1..8Metadata)
-type RewriterFunction = (scene: any, context: RewriteContext) => Promise<any>;
-
 const logger = getLogger('TranslateLanguageJsonTool');
 
-/* =========================================================
- * Scene Type Detection & Mapping
- * =======================================================*/
-function getSceneRewriter(sceneType: SceneType): RewriterFunction {
-  const rewriterMap: Record<SceneType, RewriterFunction> = {
-    [SceneType.INTRO]: rewriteScene1Intro,
-    [SceneType.GOAL]: rewriteScene2Goal,
-    [SceneType.SCENARIO]: rewriteScene3Video, // scenario is the video scene
-    [SceneType.ACTIONABLE_CONTENT]: rewriteScene4Actionable,
-    [SceneType.CODE_REVIEW]: rewriteScene4Actionable, // Use same rewriter as actionable
-    [SceneType.VISHING_SIMULATION]: rewriteScene4Vishing, // Use vishing-specific rewriter
-    [SceneType.SMISHING_SIMULATION]: rewriteScene4Smishing, // Use smishing-specific rewriter
-    [SceneType.QUIZ]: rewriteScene5Quiz,
-    [SceneType.SURVEY]: rewriteScene6Survey,
-    [SceneType.NUDGE]: rewriteScene7Nudge,
-    [SceneType.SUMMARY]: rewriteScene8Summary,
-  };
-
-  return rewriterMap[sceneType];
-}
-
 /* =========================================================
  * Scene-by-Scene Rewrite Tool
  * =======================================================*/
@@ -5,6 +5,7 @@ import {
   smishingWorkflowExecutorTool,
   phishingEditorTool,
   smishingEditorTool,
+  microlearningVersionTool,
 } from './index';
 
 describe('orchestration/index exports', () => {
@@ -15,9 +16,10 @@ describe('orchestration/index exports', () => {
       smishingWorkflowExecutorTool,
       phishingEditorTool,
       smishingEditorTool,
+      microlearningVersionTool,
     ];
 
-    expect(tools).toHaveLength(5);
+    expect(tools).toHaveLength(6);
     tools.forEach(tool => expect(tool).toBeDefined());
   });
 
@@ -27,5 +29,6 @@ describe('orchestration/index exports', () => {
     expect((smishingWorkflowExecutorTool as any).id).toBeTruthy();
     expect((phishingEditorTool as any).id).toBeTruthy();
     expect((smishingEditorTool as any).id).toBeTruthy();
+    expect((microlearningVersionTool as any).id).toBeTruthy();
   });
 });
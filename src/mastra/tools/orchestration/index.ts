@@ -9,3 +9,4 @@ export { phishingWorkflowExecutorTool } from './phishing-workflow-executor-tool'
 export { smishingWorkflowExecutorTool } from './smishing-workflow-executor-tool';
 export { phishingEditorTool } from './phishing-editor-tool';
 export { smishingEditorTool } from './smishing-editor-tool';
+export { microlearningVersionTool } from './microlearning-version-tool';
@@ -0,0 +1,105 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { microlearningVersionTool } from './microlearning-version-tool';
+
+const mocks = vi.hoisted(() => ({
+  listVersions: vi.fn(),
+  diffVersions: vi.fn(),
+  rollback: vi.fn(),
+}));
+
+vi.mock('../../services/microlearning-version-service', () => ({
+  MicrolearningVersionService: vi.fn().mockImplementation(function () {
+    return {
+      listVersions: mocks.listVersions,
+      diffVersions: mocks.diffVersions,
+      rollback: mocks.rollback,
+    };
+  }),
+}));
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+    debug: vi.fn(),
+  }),
+}));
+
+type VersionToolInput = Parameters<NonNullable<typeof microlearningVersionTool.execute>>[0];
+
+const run = (input: VersionToolInput) => microlearningVersionTool.execute!(input, {});
+
+describe('microlearningVersionTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('has the expected id', () => {
+    expect(microlearningVersionTool.id).toBe('microlearning-versions');
+  });
+
+  it('lists versions', async () => {
+    mocks.listVersions.mockResolvedValue({ microlearningId: 'ml-1', currentVersion: 2, versions: [] });
+
+    const result = await run({ action: 'list', microlearningId: 'ml-1' });
+
+    expect(result).toEqual({
+      success: true,
+      action: 'list',
+      data: { microlearningId: 'ml-1', currentVersion: 2, versions: [] },
+    });
+  });
+
+  it('returns an error for an unknown microlearning', async () => {
+    mocks.listVersions.mockResolvedValue(null);
+
+    const result = await run({ action: 'list', microlearningId: 'missing' });
+
+    expect(result).toMatchObject({ success: false, error: 'Microlearning missing not found' });
+  });
+
+  it('diffs two versions and requires fromVersion', async () => {
+    mocks.diffVersions.mockResolvedValue({ from: 1, to: 2, totalChanges: 1 });
+
+    expect(await run({ action: 'diff', microlearningId: 'ml-1' })).toMatchObject({ success: false });
+    const result = await run({ action: 'diff', microlearningId: 'ml-1', fromVersion: 1, toVersion: 2 });
+
+    expect(mocks.diffVersions).toHaveBeenCalledWith('ml-1', 1, 2);
+    expect(result).toMatchObject({ success: true, data: { from: 1, to: 2 } });
+  });
+
+  it('rolls back to a target version', async () => {
+    mocks.rollback.mockResolvedValue({ status: 'rolled_back', version: 4, restoredFrom: 2 });
+
+    const result = await run({ action: 'rollback', microlearningId: 'ml-1', targetVersion: 2 });
+
+    expect(mocks.rollback).toHaveBeenCalledWith('ml-1', 2);
+    expect(result).toEqual({ success: true, action: 'rollback', data: { version: 4, restoredFrom: 2 } });
+  });
+
+  it('surfaces rollback failures', async () => {
+    mocks.rollback.mockResolvedValueOnce({ status: 'not_found' });
+    mocks.rollback.mockResolvedValueOnce({
+      status: 'failed',
+      error: 'Failed to write base content; rollback reverted',
+    });
+
+    expect(await run({ action: 'rollback', microlearningId: 'ml-1', targetVersion: 9 })).toMatchObject({
+      success: false,
+      error: 'Version 9 is not restorable (no snapshot)',
+    });
+    expect(await run({ action: 'rollback', microlearningId: 'ml-1', targetVersion: 1 })).toMatchObject({
+      success: false,
+      error: 'Failed to write base content; rollback reverted',
+    });
+  });
+
+  it('returns a tool error response when the service throws', async () => {
+    mocks.listVersions.mockRejectedValue(new Error('KV down'));
+
+    const result = await run({ action: 'list', microlearningId: 'ml-1' });
+
+    expect(result).toMatchObject({ success: false, error: expect.stringContaining('KV down') });
+  });
+});
@@ -0,0 +1,105 @@
+/**
+ * Microlearning Version Tool
+ *
+ * EU AI Act (Art. 9) Tool Risk Metadata:
+ * - riskLevel: limited
+ * - rationale: list/diff are read-only; rollback restores earlier training content
+ * @see docs/AI_COMPLIANCE_INVENTORY.md
+ *
+ * Lists the versions of a microlearning, shows a structured diff between two versions,
+ * and rolls back to an earlier version (base + languages + inboxes) as a new version.
+ * Backed by MicrolearningVersionService snapshots (ml:{id}:snapshot:{version}).
+ */
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+
+import { getLogger } from '../../utils/core/logger';
+import { errorService } from '../../services/error-service';
+import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
+import { MicrolearningVersionService } from '../../services/microlearning-version-service';
+
+const logger = getLogger('MicrolearningVersionTool');
+
+// ============================================
+// Schemas
+// ============================================
+
+const microlearningVersionInputSchema = z.object({
+  action: z
+    .enum(['list', 'diff', 'rollback'])
+    .describe('list = version history, diff = changes between two versions, rollback = restore a version'),
+  microlearningId: z.string().min(1).describe('ID of the microlearning'),
+  fromVersion: z.number().int().positive().optional().describe('diff: older version to compare from'),
+  toVersion: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('diff: newer version to compare to (omit to compare against the current content)'),
+  targetVersion: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe('rollback: version to restore (ONLY after the user explicitly confirmed it)'),
+});
+
+const microlearningVersionOutputSchema = z.object({
+  success: z.boolean(),
+  action: z.enum(['list', 'diff', 'rollback']).optional(),
+  data: z.record(z.string(), z.unknown()).optional(),
+  error: z.string().optional(),
+});
+
+// ============================================
+// Tool Definition
+// ============================================
+
+export const microlearningVersionTool = createTool({
+  id: 'microlearning-versions',
+  description:
+    'Version history for an existing microlearning: list versions, diff two versions (theme, scenes, languages, inbox content), or roll back to an earlier version. Rollback creates a new version and requires explicit user confirmation.',
+  inputSchema: microlearningVersionInputSchema,
+  outputSchema: microlearningVersionOutputSchema,
+  execute: async inputData => {
+    const { action, microlearningId, fromVersion, toVersion, targetVersion } = inputData;
+    const service = new MicrolearningVersionService();
+
+    try {
+      if (action === 'list') {
+        const list = await service.listVersions(microlearningId);
+        if (!list) return { success: false, action, error: `Microlearning ${microlearningId} not found` };
+        return { success: true, action, data: { ...list } };
+      }
+
+      if (action === 'diff') {
+        if (!fromVersion) return { success: false, action, error: 'fromVersion is required for diff' };
+        const diff = await service.diffVersions(microlearningId, fromVersion, toVersion);
+        if (!diff) {
+          return { success: false, action, error: 'No snapshot for the requested version(s); list versions first' };
+        }
+        return { success: true, action, data: { ...diff } };
+      }
+
+      if (!targetVersion) return { success: false, action, error: 'targetVersion is required for rollback' };
+      logger.info('Rolling back microlearning', { microlearningId, targetVersion });
+      const result = await service.rollback(microlearningId, targetVersion);
+      if (result.status === 'not_found') {
+        return { success: false, action, error: `Version ${targetVersion} is not restorable (no snapshot)` };
+      }
+      if (result.status === 'failed') return { success: false, action, error: result.error };
+      return { success: true, action, data: { version: result.version, restoredFrom: result.restoredFrom } };
+    } catch (error) {
+      const err = normalizeError(error);
+      const errorInfo = errorService.internal(err.message, {
+        microlearningId,
+        action,
+        step: 'microlearning-versions',
+        stack: err.stack,
+      });
+      logErrorInfo(logger, 'error', 'Microlearning version tool failed', errorInfo);
+      return createToolErrorResponse(errorInfo);
+    }
+  },
+});
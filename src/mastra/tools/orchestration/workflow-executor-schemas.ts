@@ -7,6 +7,7 @@
 
 import { z } from 'zod';
 import { PROMPT_ANALYSIS, MODEL_PROVIDERS } from '../../constants';
+import { updatesSchema } from '../../schemas/update-microlearning-schemas';
 
 export const workflowExecutorSchema = z
   .object({
@@ -85,7 +86,8 @@ export const workflowExecutorSchema = z
     // Update microlearning parameters
     updates: z
       .object({
-        theme: z.record(z.any()).describe('Theme updates (fontFamily, colors, logo)'),
+        theme: z.record(z.any()).optional().describe('Theme updates (fontFamily, colors, logo)'),
+        sceneEdits: updatesSchema.shape.sceneEdits,
       })
       .optional()
       .describe('Updates for update-microlearning workflow'),
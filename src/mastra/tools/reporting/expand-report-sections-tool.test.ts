@@ -13,9 +13,10 @@ vi.mock('../../utils/core/tracked-generate', () => ({
 
 // Mock KVService
 const kvPutMock = vi.fn().mockResolvedValue(true);
+const kvGetMock = vi.fn();
 vi.mock('../../services/kv-service', () => ({
   KVService: class MockKVService {
-    get = vi.fn();
+    get = kvGetMock;
     put = kvPutMock;
   },
 }));
@@ -192,4 +193,82 @@ describe('expand-report-sections-tool', () => {
       expect(data.failedSections).toEqual(['c1']);
     });
   });
+
+  describe('execute — data-bound sections', () => {
+    const dataset = {
+      id: 'phishing-by-month',
+      source: 'phishing',
+      title: 'Phishing results by month',
+      period: { from: '2026-01-01', to: '2026-02-28' },
+      columns: [
+        { key: 'month', label: 'Month', type: 'text' },
+        { key: 'clickRate', label: 'Click rate', type: 'percent' },
+      ],
+      rows: [
+        { month: '2026-01', clickRate: 20 },
+        { month: '2026-02', clickRate: 15.5 },
+      ],
+    };
+    const dataOutline = buildOutline([
+      { type: 'chart', id: 'trend', title: 'Trend', weight: 0.75, brief: 'Click rate by month', chartType: 'line', datasetId: 'phishing-by-month' },
+    ]);
+    const chartJson = (dataSource?: Record<string, unknown>) =>
+      JSON.stringify({
+        type: 'chart',
+        id: 'trend',
+        title: 'Trend',
+        chartConfig: { type: 'line', data: { labels: ['Jan', 'Feb'], datasets: [{ label: 'Clicks', data: [25, 10] }] } },
+        ...(dataSource && { dataSource }),
+      });
+
+    it('overwrites model numbers with dataset values and sends datasets to the LLM', async () => {
+      kvGetMock.mockResolvedValueOnce([dataset]);
+      mockGenerateText.mockResolvedValueOnce({
+        text: chartJson({ datasetId: 'phishing-by-month', labelColumn: 'month', valueColumns: ['clickRate'] }),
+        usage: {},
+      });
+
+      const result = await expandReportSectionsTool.execute!(
+        { outline: dataOutline, dataRef: 'temp:report-data:abc' } as any,
+        {} as any
+      ) as Record<string, unknown>;
+
+      expect(result.success).toBe(true);
+      const userMsg = mockGenerateText.mock.calls[0][1].messages[1].content as string;
+      expect(userMsg).toContain('DATASET "phishing-by-month"');
+      expect(userMsg).toContain('DATA BINDING (required)');
+      const stored = kvPutMock.mock.calls[0][1] as { sections: Array<Record<string, any>> };
+      expect(stored.sections[0].chartConfig.data).toEqual({
+        labels: ['2026-01', '2026-02'],
+        datasets: [{ label: 'Clicks', data: [20, 15.5] }],
+      });
+    });
+
+    it('uses a placeholder when the section never references a dataset', async () => {
+      kvGetMock.mockResolvedValueOnce([dataset]);
+      mockGenerateText.mockResolvedValueOnce({ text: chartJson(), usage: {} });
+      mockGenerateText.mockResolvedValueOnce({ text: chartJson(), usage: {} });
+
+      const result = await expandReportSectionsTool.execute!(
+        { outline: dataOutline, dataRef: 'temp:report-data:abc' } as any,
+        {} as any
+      ) as Record<string, unknown>;
+
+      expect(result.success).toBe(true);
+      expect((result.data as Record<string, unknown>).failedSections).toEqual(['trend']);
+    });
+
+    it('returns error when the dataRef has expired', async () => {
+      kvGetMock.mockResolvedValueOnce(null);
+
+      const result = await expandReportSectionsTool.execute!(
+        { outline: dataOutline, dataRef: 'temp:report-data:gone' } as any,
+        {} as any
+      ) as Record<string, unknown>;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('fetchReportData');
+      expect(mockGenerateText).not.toHaveBeenCalled();
+    });
+  });
 });
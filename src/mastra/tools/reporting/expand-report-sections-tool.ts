@@ -20,10 +20,16 @@ import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../uti
 import { errorService } from '../../services/error-service';
 import { cleanResponse } from '../../utils/content-processors/json-cleaner';
 import { ReportSectionSchema } from '../../schemas/report-schema';
-import type { OutlineSection, ReportSection } from '../../schemas/report-schema';
+import type { OutlineSection, ReportDataset, ReportSection } from '../../schemas/report-schema';
 import { KVService } from '../../services/kv-service';
 import { KV_NAMESPACES } from '../../constants';
 import { autoCorrectSection } from './report-section-utils';
+import {
+  DATA_BOUND_SECTION_TYPES,
+  bindSectionToDatasets,
+  formatDatasetsForPrompt,
+  loadReportDatasets,
+} from './report-data-utils';
 
 const logger = getLogger('ExpandReportSectionsTool');
 
@@ -49,6 +55,7 @@ const inputSchema = z.object({
         weight: z.number(),
         brief: z.string(),
         chartType: z.string().optional(),
+        datasetId: z.string().optional(),
       })
     ),
   }),
@@ -56,6 +63,8 @@ const inputSchema = z.object({
   sourceDocument: z.string().optional(),
   /** Web research summary to ground sections in real facts. Passed to each section's LLM call. */
   researchContext: z.string().optional(),
+  /** dataRef from fetchReportData — kpi_dashboard/chart/table values are bound to these datasets */
+  dataRef: z.string().optional(),
 });
 
 const outputSchema = z.object({
@@ -182,6 +191,7 @@ If the section type is "executive_summary", keep it concise — MAX 250 words re
 - If a specific fact is unknown, use general terms ("established in the mid-2010s") or omit it. NEVER fabricate precise data.
 - For timeline sections: include ONLY events explicitly supported by available data. Fewer verified items is better than many fabricated ones.
 - General industry knowledge is acceptable. Company-specific claims MUST be grounded in provided data or research data.
+- When COMPANY DATASETS are provided, company metrics (rates, counts, campaign names) MUST match the dataset rows exactly. Never estimate or round differently.
 
 ## Output
 Respond with ONLY valid JSON matching the section schema. No text outside JSON.`;
@@ -190,7 +200,8 @@ function buildExpansionUserPrompt(
   section: OutlineSection,
   reportContext: string,
   sourceDocument?: string,
-  researchContext?: string
+  researchContext?: string,
+  datasets?: ReportDataset[]
 ): string {
   const schemaHint = getSchemaHintForType(section.type);
   const sourceHint = sourceDocument
@@ -199,6 +210,9 @@ function buildExpansionUserPrompt(
   const researchHint = researchContext
     ? `\n\nRESEARCH DATA (use ONLY these facts for specific claims — do NOT fabricate data outside this):\n${researchContext}`
     : '';
+  const dataHint = datasets?.length
+    ? `\n\nCOMPANY DATASETS (real platform results — every number in this section MUST come from these rows):\n${formatDatasetsForPrompt(datasets)}${getDataBindingHint(section.type)}`
+    : '';
 
   return `REPORT CONTEXT (maintain consistency):
 ${reportContext}
@@ -210,11 +224,13 @@ SECTION TO EXPAND:
 - Weight: ${section.weight}
 - Brief: ${section.brief}
 ${section.chartType ? `- Chart Type: ${section.chartType}` : ''}
+${section.datasetId ? `- Dataset: ${section.datasetId}` : ''}
 
 Output MUST be valid JSON matching this structure:
 ${schemaHint}
 ${sourceHint}
 ${researchHint}
+${dataHint}
 
 FINAL SELF-CHECK (before output):
 1. Chart: does labels.length === each dataset's data.length?
@@ -241,6 +257,16 @@ function getSchemaHintForType(type: string): string {
   return hints[type] || hints.content;
 }
 
+/** Extra fields data-bound sections must carry — values are re-derived from the referenced rows */
+function getDataBindingHint(type: string): string {
+  const hints: Record<string, string> = {
+    kpi_dashboard: `Each KPI MUST include "source": { "datasetId": "...", "column": "<column key>", "row": 0 }. Add "compareRow": <row index> only to show change between two rows (delta and trend are computed from it).`,
+    chart: `The section MUST include "dataSource": { "datasetId": "...", "labelColumn": "<text column key>", "valueColumns": ["<numeric column key>"] }. One chartConfig dataset per value column, in the same order.`,
+    table: `The section MUST include "dataSource": { "datasetId": "...", "columns": ["<column key>", ...] }. One table column per key, in the same order; rows follow the dataset row order.`,
+  };
+  return hints[type] ? `\n\nDATA BINDING (required):\n${hints[type]}` : '';
+}
+
 /** Keepnet brand color palette for all charts */
 const REPORT_COLOR_PALETTE = {
   primary: ['#0B326F', '#1E4A8A', '#2D5F9E'], // Navy Blue (Keepnet primary)
@@ -296,14 +322,15 @@ async function expandSingleSection(
   section: OutlineSection,
   reportContext: string,
   sourceDocument?: string,
-  researchContext?: string
+  researchContext?: string,
+  datasets?: ReportDataset[]
 ): Promise<ExpansionResult> {
   const startTime = Date.now();
   const { text, usage } = await trackedGenerateText(`report-expand-${section.type}`, {
     model: getSharedModel(),
     messages: [
       { role: 'system', content: EXPANSION_SYSTEM_PROMPT },
-      { role: 'user', content: buildExpansionUserPrompt(section, reportContext, sourceDocument, researchContext) },
+      { role: 'user', content: buildExpansionUserPrompt(section, reportContext, sourceDocument, researchContext, datasets) },
     ],
     // temperature omitted — GPT-5.1 reasoning model doesn't support it
   });
@@ -334,7 +361,17 @@ async function expandSingleSection(
     throw new Error(`Validation failed for section ${section.id}: ${issues}`);
   }
 
-  return { section: validation.data, inputTokens, outputTokens, durationMs };
+  // Data-bound sections: overwrite model numbers with the dataset values (throws on bad references → retry)
+  let expanded: ReportSection = validation.data;
+  if (datasets?.length && DATA_BOUND_SECTION_TYPES.has(expanded.type)) {
+    try {
+      expanded = bindSectionToDatasets(expanded, datasets);
+    } catch (err) {
+      throw new Error(`Data binding failed for section ${section.id}: ${(err as Error).message}`);
+    }
+  }
+
+  return { section: expanded, inputTokens, outputTokens, durationMs };
 }
 
 // ============================================
@@ -362,7 +399,7 @@ export const expandReportSectionsTool = createTool({
   inputSchema,
   outputSchema,
   execute: async (input, _ctx?: ToolExecutionContext) => {
-    const { outline, sourceDocument, researchContext } = input;
+    const { outline, sourceDocument, researchContext, dataRef } = input;
     const reportContext = buildReportContext(outline.meta);
     const sections = outline.sections as OutlineSection[];
 
@@ -370,15 +407,29 @@ export const expandReportSectionsTool = createTool({
       sectionCount: sections.length,
       pageTarget: outline.meta.pageTarget,
       types: sections.map(s => s.type),
+      hasDataRef: !!dataRef,
     });
 
     try {
+      let datasets: ReportDataset[] | undefined;
+      if (dataRef) {
+        const loaded = await loadReportDatasets(new KVService(KV_NAMESPACES.MICROLEARNING), dataRef);
+        if (!loaded) {
+          const errorInfo = errorService.notFound('Report data not found or expired. Call fetchReportData again.', {
+            dataRef,
+          });
+          logErrorInfo(logger, 'warn', 'Report data not found', errorInfo);
+          return createToolErrorResponse(errorInfo);
+        }
+        datasets = loaded;
+      }
+
       // For enhance mode: chunk source document so each section gets its relevant portion
       // Cover and exec_summary get the full doc (they need overview), others get proportional chunks
       const sourceChunks = chunkSourceForSections(sourceDocument, sections);
 
       // Build expansion tasks
-      const tasks = sections.map((section, i) => () => expandSingleSection(section, reportContext, sourceChunks[i], researchContext));
+      const tasks = sections.map((section, i) => () => expandSingleSection(section, reportContext, sourceChunks[i], researchContext, datasets));
 
       // Run in batches of 3 with retry
       const CONCURRENCY = 3;
@@ -414,7 +465,7 @@ export const expandReportSectionsTool = createTool({
           });
 
           try {
-            const retried = await expandSingleSection(section, reportContext, sourceChunks[i], researchContext);
+            const retried = await expandSingleSection(section, reportContext, sourceChunks[i], researchContext, datasets);
             expandedSections.push(retried.section);
             totalInputTokens += retried.inputTokens;
             totalOutputTokens += retried.outputTokens;
@@ -0,0 +1,94 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { ReportDataset } from '../../schemas/report-schema';
+
+const getRequestContextMock = vi.fn();
+vi.mock(import('../../utils/core/request-storage'), async importOriginal => ({
+  ...(await importOriginal()),
+  getRequestContext: () => getRequestContextMock(),
+}));
+
+const fetchReportDatasetsMock = vi.fn();
+vi.mock('../../services/report-data-service', () => ({
+  fetchReportDatasets: (...args: unknown[]) => fetchReportDatasetsMock(...args),
+}));
+
+const kvPutMock = vi.fn().mockResolvedValue(true);
+vi.mock('../../services/kv-service', () => ({
+  KVService: class MockKVService {
+    put = kvPutMock;
+  },
+}));
+
+const { fetchReportDataTool } = await import('./fetch-report-data-tool');
+
+const dataset: ReportDataset = {
+  id: 'phishing-summary',
+  source: 'phishing',
+  title: 'Phishing results summary',
+  period: { from: '2026-01-01', to: '2026-03-31' },
+  columns: [{ key: 'clickRate', label: 'Click rate', type: 'percent' }],
+  rows: [{ clickRate: 12.5 }],
+};
+
+const run = (input: Record<string, unknown>) =>
+  fetchReportDataTool.execute!(input as never, {} as never) as Promise<Record<string, unknown>>;
+
+describe('fetch-report-data-tool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    getRequestContextMock.mockReturnValue({ token: 'token', companyId: 'company-1', baseApiUrl: 'https://api.test' });
+  });
+
+  it('has correct tool id', () => {
+    expect(fetchReportDataTool.id).toBe('fetch_report_data');
+  });
+
+  it('stores datasets in temp KV and returns a dataRef with a summary', async () => {
+    fetchReportDatasetsMock.mockResolvedValueOnce({ datasets: [dataset], failedSources: ['smishing'] });
+
+    const result = await run({ from: '2026-01-01', to: '2026-03-31', sources: ['phishing', 'smishing'] });
+
+    expect(result.success).toBe(true);
+    const data = result.data as Record<string, unknown>;
+    expect(data.dataRef).toMatch(/^temp:report-data:/);
+    expect(data.datasets).toEqual([
+      {
+        id: 'phishing-summary',
+        source: 'phishing',
+        title: 'Phishing results summary',
+        columns: ['clickRate'],
+        rowCount: 1,
+      },
+    ]);
+    expect(data.failedSources).toEqual(['smishing']);
+    expect(fetchReportDatasetsMock).toHaveBeenCalledWith(
+      expect.objectContaining({ companyId: 'company-1', baseApiUrl: 'https://api.test', from: '2026-01-01' }),
+      ['phishing', 'smishing']
+    );
+    expect(kvPutMock).toHaveBeenCalledWith(data.dataRef, [dataset], expect.objectContaining({ ttlSeconds: 1800 }));
+  });
+
+  it('rejects inverted and overlong periods', async () => {
+    expect((await run({ from: '2026-03-01', to: '2026-01-01' })).success).toBe(false);
+    expect((await run({ from: '2024-01-01', to: '2026-01-01' })).success).toBe(false);
+    expect(fetchReportDatasetsMock).not.toHaveBeenCalled();
+  });
+
+  it('requires a token and company context', async () => {
+    getRequestContextMock.mockReturnValueOnce({ companyId: 'company-1' });
+    expect((await run({ from: '2026-01-01', to: '2026-01-31' })).success).toBe(false);
+
+    getRequestContextMock.mockReturnValueOnce({ token: 'token' });
+    expect((await run({ from: '2026-01-01', to: '2026-01-31' })).success).toBe(false);
+    expect(fetchReportDatasetsMock).not.toHaveBeenCalled();
+  });
+
+  it('fails when every source failed', async () => {
+    fetchReportDatasetsMock.mockResolvedValueOnce({ datasets: [], failedSources: ['phishing'] });
+
+    const result = await run({ from: '2026-01-01', to: '2026-01-31', sources: ['phishing'] });
+
+    expect(result.success).toBe(false);
+    expect(kvPutMock).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * fetch-report-data-tool
+ *
+ * Pulls the company's phishing, smishing and training results for a date range from the
+ * platform API (services/report-data-service) and stores them as typed datasets in temp KV.
+ * Returns a dataRef for generateReportOutline / expandReportSections plus a dataset summary,
+ * so kpi_dashboard / chart / table sections are built from real numbers.
+ *
+ * EU AI Act (Art. 9) Tool Risk Metadata:
+ * - riskLevel: minimal
+ * - rationale: Read-only aggregate campaign results via platform API; no per-user data
+ * @see docs/AI_COMPLIANCE_INVENTORY.md
+ * @see docs/REPORT_AGENT_DESIGN.md
+ */
+
+import { createTool, ToolExecutionContext } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getRequestContext } from '../../utils/core/request-storage';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
+import { errorService } from '../../services/error-service';
+import { KVService } from '../../services/kv-service';
+import { fetchReportDatasets } from '../../services/report-data-service';
+import { API_ENDPOINTS, ERROR_MESSAGES, KV_NAMESPACES, REPORT_DATA } from '../../constants';
+import { buildReportDataRef } from './report-data-utils';
+
+const logger = getLogger('FetchReportDataTool');
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected YYYY-MM-DD');
+
+const inputSchema = z.object({
+  from: isoDate.describe('Period start (YYYY-MM-DD, inclusive)'),
+  to: isoDate.describe('Period end (YYYY-MM-DD, inclusive)'),
+  sources: z
+    .array(z.enum(REPORT_DATA.SOURCES))
+    .min(1)
+    .default([...REPORT_DATA.SOURCES])
+    .describe('Result sources to pull: phishing, smishing, training (default: all)'),
+});
+
+const outputSchema = z.object({
+  success: z.boolean(),
+  data: z
+    .object({
+      dataRef: z
+        .string()
+        .describe('Temp KV key of the datasets. Pass to generateReportOutline and expandReportSections.'),
+      period: z.object({ from: z.string(), to: z.string() }),
+      datasets: z.array(
+        z.object({
+          id: z.string(),
+          source: z.string(),
+          title: z.string(),
+          columns: z.array(z.string()),
+          rowCount: z.number(),
+        })
+      ),
+      failedSources: z.array(z.string()).optional(),
+    })
+    .optional(),
+  error: z.string().optional(),
+});
+
+export const fetchReportDataTool = createTool({
+  id: 'fetch_report_data',
+  description:
+    "Fetch the company's real phishing, smishing and training results for a date range as datasets. Returns a dataRef to pass to the outline and expand tools so KPI, chart and table sections use platform numbers.",
+  inputSchema,
+  outputSchema,
+  execute: async (input, _ctx?: ToolExecutionContext) => {
+    const { from, to } = input;
+    const sources = input.sources ?? [...REPORT_DATA.SOURCES];
+
+    const fromTime = Date.parse(`${from}T00:00:00Z`);
+    const toTime = Date.parse(`${to}T00:00:00Z`);
+    if (Number.isNaN(fromTime) || Number.isNaN(toTime) || fromTime > toTime) {
+      return createToolErrorResponse(
+        errorService.validation('Invalid period: from must be a valid date on or before to')
+      );
+    }
+    if ((toTime - fromTime) / DAY_MS > REPORT_DATA.MAX_RANGE_DAYS) {
+      return createToolErrorResponse(
+        errorService.validation(`Period too long: max ${REPORT_DATA.MAX_RANGE_DAYS} days`)
+      );
+    }
+
+    const { token, companyId, baseApiUrl } = getRequestContext();
+    if (!token) {
+      return createToolErrorResponse(errorService.auth(ERROR_MESSAGES.AUTH.TOKEN_MISSING));
+    }
+    if (!companyId) {
+      return createToolErrorResponse(errorService.validation('No company context available for report data'));
+    }
+
+    logger.info('Fetching report data', { from, to, sources });
+
+    try {
+      const { datasets, failedSources } = await fetchReportDatasets(
+        { token, companyId, baseApiUrl: baseApiUrl || API_ENDPOINTS.DEFAULT_BASE_API_URL, from, to },
+        sources
+      );
+
+      if (datasets.length === 0) {
+        const errorInfo = errorService.external(`Report data could not be fetched for: ${failedSources.join(', ')}`);
+        logErrorInfo(logger, 'error', 'All report data sources failed', errorInfo);
+        return createToolErrorResponse(errorInfo);
+      }
+
+      const dataRef = buildReportDataRef();
+      const kvService = new KVService(KV_NAMESPACES.MICROLEARNING);
+      const stored = await kvService.put(dataRef, datasets, { ttlSeconds: REPORT_DATA.TEMP_KV_TTL_SECONDS });
+      if (!stored) {
+        const errorInfo = errorService.external('Failed to store report data. Try again.');
+        logErrorInfo(logger, 'error', 'Report data KV store failed', errorInfo);
+        return createToolErrorResponse(errorInfo);
+      }
+
+      logger.info('Report data stored in temp KV', { dataRef, datasetCount: datasets.length, failedSources });
+
+      return {
+        success: true,
+        data: {
+          dataRef,
+          period: { from, to },
+          datasets: datasets.map(d => ({
+            id: d.id,
+            source: d.source,
+            title: d.title,
+            columns: d.columns.map(c => c.key),
+            rowCount: d.rows.length,
+          })),
+          ...(failedSources.length > 0 && { failedSources }),
+        },
+      };
+    } catch (err) {
+      const normalized = normalizeError(err);
+      const errorInfo = errorService.external(`Report data fetch failed: ${normalized.message}`);
+      logErrorInfo(logger, 'error', 'Report data fetch failed', errorInfo);
+      return createToolErrorResponse(errorInfo);
+    }
+  },
+});
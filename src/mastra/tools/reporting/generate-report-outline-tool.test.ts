@@ -11,6 +11,14 @@ vi.mock('../../utils/core/tracked-generate', () => ({
   trackedGenerateText: (...args: unknown[]) => mockGenerateText(...args),
 }));
 
+// Mock KVService (dataRef lookups)
+const kvGetMock = vi.fn();
+vi.mock('../../services/kv-service', () => ({
+  KVService: class MockKVService {
+    get = kvGetMock;
+  },
+}));
+
 const { generateReportOutlineTool } = await import('./generate-report-outline-tool');
 
 const validOutlineJson = JSON.stringify({
@@ -173,4 +181,66 @@ describe('generate-report-outline-tool', () => {
       expect(userMsg.content).toContain('long document');
     });
   });
+
+  describe('execute — company datasets', () => {
+    const datasets = [
+      {
+        id: 'phishing-summary',
+        source: 'phishing',
+        title: 'Phishing results summary',
+        period: { from: '2026-01-01', to: '2026-03-31' },
+        columns: [{ key: 'clickRate', label: 'Click rate', type: 'percent' }],
+        rows: [{ clickRate: 12.5 }],
+      },
+    ];
+    const outlineWithDatasets = (kpiDatasetId?: string, chartDatasetId?: string) => {
+      const outline = JSON.parse(validOutlineJson);
+      outline.sections[2].datasetId = kpiDatasetId;
+      outline.sections[3].datasetId = chartDatasetId;
+      return JSON.stringify(outline);
+    };
+
+    it('lists datasets in the prompt and accepts sections that reference them', async () => {
+      kvGetMock.mockResolvedValueOnce(datasets);
+      mockGenerateText.mockResolvedValueOnce({
+        text: outlineWithDatasets('phishing-summary', 'phishing-summary'),
+        usage: {},
+      });
+
+      const result = await generateReportOutlineTool.execute!(
+        { topic: 'Q1 phishing', pageTarget: 5, language: 'en', mode: 'generate', dataRef: 'temp:report-data:abc' },
+        {} as any
+      ) as Record<string, unknown>;
+
+      expect(result.success).toBe(true);
+      const userMsg = mockGenerateText.mock.calls.at(-1)![1].messages[1].content as string;
+      expect(userMsg).toContain('DATASET "phishing-summary"');
+    });
+
+    it('rejects data sections without a known datasetId', async () => {
+      kvGetMock.mockResolvedValueOnce(datasets);
+      mockGenerateText.mockResolvedValueOnce({ text: outlineWithDatasets('phishing-summary', 'made-up'), usage: {} });
+
+      const result = await generateReportOutlineTool.execute!(
+        { topic: 'Q1 phishing', pageTarget: 5, language: 'en', mode: 'generate', dataRef: 'temp:report-data:abc' },
+        {} as any
+      ) as Record<string, unknown>;
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('attack-trends: datasetId must be one of phishing-summary');
+    });
+
+    it('returns error when the dataRef has expired', async () => {
+      kvGetMock.mockResolvedValueOnce(null);
+      mockGenerateText.mockClear();
+
+      const result = await generateReportOutlineTool.execute!(
+        { topic: 'Q1 phishing', pageTarget: 5, language: 'en', mode: 'generate', dataRef: 'temp:report-data:gone' },
+        {} as any
+      ) as Record<string, unknown>;
+
+      expect(result.success).toBe(false);
+      expect(mockGenerateText).not.toHaveBeenCalled();
+    });
+  });
 });
@@ -20,7 +20,10 @@ import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../uti
 import { errorService } from '../../services/error-service';
 import { cleanResponse } from '../../utils/content-processors/json-cleaner';
 import { ReportOutlineSchema, normalizeOutlineWeights } from '../../schemas/report-schema';
-import type { ReportOutline } from '../../schemas/report-schema';
+import type { ReportDataset, ReportOutline } from '../../schemas/report-schema';
+import { KVService } from '../../services/kv-service';
+import { KV_NAMESPACES } from '../../constants';
+import { DATA_BOUND_SECTION_TYPES, formatDatasetsForPrompt, loadReportDatasets } from './report-data-utils';
 
 const logger = getLogger('GenerateReportOutlineTool');
 
@@ -37,6 +40,10 @@ const inputSchema = z.object({
     .string()
     .optional()
     .describe('Web research results to ground the outline in real facts. Pass snippets + full page content from webResearch tool.'),
+  dataRef: z
+    .string()
+    .optional()
+    .describe('dataRef from fetchReportData — real company results that kpi_dashboard, chart and table sections must be built from'),
 });
 
 const outputSchema = z.object({
@@ -93,7 +100,7 @@ Do NOT use the same structure for every topic. A football club report should fee
 - timeline: 0.5-0.75
 - comparison: 0.75`;
 
-const OUTLINE_USER_PROMPT = (topic: string, pageTarget: number, language: string, mode: string, sourceDocument?: string, researchContext?: string) => {
+const OUTLINE_USER_PROMPT = (topic: string, pageTarget: number, language: string, mode: string, sourceDocument?: string, researchContext?: string, datasets?: ReportDataset[]) => {
   // For outline, send first 4000 chars as summary — full doc goes to expansion tool
   const docSummary = sourceDocument ? sourceDocument.slice(0, 4000) : '';
 
@@ -104,6 +111,7 @@ const OUTLINE_USER_PROMPT = (topic: string, pageTarget: number, language: string
 - Mode: ${mode}
 
 ${researchContext ? `RESEARCH DATA (use these facts for accurate briefs — do NOT invent data outside this):\n${researchContext}\n\nCRITICAL: Base section briefs on REAL facts from this research. Each brief must reference specific data points, dates, or facts found above. If the research doesn't cover a sub-topic, note "general knowledge" in the brief.\n` : ''}
+${datasets?.length ? `COMPANY DATASETS (real platform results — the ONLY allowed source for KPI, chart and table numbers):\n${formatDatasetsForPrompt(datasets)}\n\nCRITICAL: Every kpi_dashboard, chart and table section MUST set "datasetId" to one of the dataset ids above, and its brief must name the columns to use. Do NOT plan KPI, chart or table sections for data that is not in these datasets; use content sections for context instead.\n` : ''}
 ${mode === 'enhance' && docSummary ? `Source document (first 4000 chars):\n${docSummary}\n\nBase the outline on the source document's content. Map source sections to appropriate report section types. Preserve all data, metrics, and facts from the source.` : ''}
 
 Respond with ONLY valid JSON matching this structure:
@@ -152,14 +160,34 @@ export const generateReportOutlineTool = createTool({
   inputSchema,
   outputSchema,
   execute: async (input, _ctx?: ToolExecutionContext) => {
-    const { topic, sourceDocument, researchContext } = input;
+    const { topic, sourceDocument, researchContext, dataRef } = input;
     const pageTarget = input.pageTarget ?? 5;
     const language = input.language ?? 'en';
     const mode = input.mode ?? 'generate';
 
-    logger.info('Generating report outline', { topic, pageTarget, language, mode, hasResearchContext: !!researchContext });
+    logger.info('Generating report outline', {
+      topic,
+      pageTarget,
+      language,
+      mode,
+      hasResearchContext: !!researchContext,
+      hasDataRef: !!dataRef,
+    });
 
     try {
+      let datasets: ReportDataset[] | undefined;
+      if (dataRef) {
+        const loaded = await loadReportDatasets(new KVService(KV_NAMESPACES.MICROLEARNING), dataRef);
+        if (!loaded) {
+          const errorInfo = errorService.notFound('Report data not found or expired. Call fetchReportData again.', {
+            dataRef,
+          });
+          logErrorInfo(logger, 'warn', 'Report data not found', errorInfo);
+          return createToolErrorResponse(errorInfo);
+        }
+        datasets = loaded;
+      }
+
       const model = getDefaultAgentModel();
 
       const startTime = Date.now();
@@ -167,7 +195,7 @@ export const generateReportOutlineTool = createTool({
         model,
         messages: [
           { role: 'system', content: OUTLINE_SYSTEM_PROMPT },
-          { role: 'user', content: OUTLINE_USER_PROMPT(topic, pageTarget, language, mode, sourceDocument, researchContext) },
+          { role: 'user', content: OUTLINE_USER_PROMPT(topic, pageTarget, language, mode, sourceDocument, researchContext, datasets) },
         ],
         // temperature omitted — GPT-5.1 reasoning model doesn't support it
       });
@@ -209,6 +237,19 @@ export const generateReportOutlineTool = createTool({
       }
 
       const outline: ReportOutline = validation.data;
+
+      // Data-bound sections must point at a fetched dataset — expansion binds their values to it
+      if (datasets) {
+        const datasetIds = new Set(datasets.map(d => d.id));
+        const unbound = outline.sections.filter(
+          s => DATA_BOUND_SECTION_TYPES.has(s.type) && (!s.datasetId || !datasetIds.has(s.datasetId))
+        );
+        if (unbound.length > 0) {
+          const issues = unbound.map(s => `${s.id}: datasetId must be one of ${[...datasetIds].join(', ')}`).join('; ');
+          logger.warn('Outline dataset references invalid', { issues });
+          return { success: false, error: `Outline validation failed: ${issues}` };
+        }
+      }
       const normalizedWeightSum = outline.sections.reduce((sum, s) => sum + s.weight, 0);
 
       logger.info('Report outline generated successfully', {
@@ -7,3 +7,4 @@ export { generateReportOutlineTool } from './generate-report-outline-tool';
 export { expandReportSectionsTool } from './expand-report-sections-tool';
 export { validateAndStoreReportTool } from './validate-and-store-report-tool';
 export { editReportSectionTool } from './edit-report-section-tool';
+export { fetchReportDataTool } from './fetch-report-data-tool';
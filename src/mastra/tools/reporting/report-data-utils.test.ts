@@ -0,0 +1,177 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { ReportDataset, ReportSection } from '../../schemas/report-schema';
+import {
+  bindSectionToDatasets,
+  buildReportDataRef,
+  formatDatasetValue,
+  formatDatasetsForPrompt,
+  loadReportDatasets,
+} from './report-data-utils';
+import type { KVService } from '../../services/kv-service';
+
+const period = { from: '2026-01-01', to: '2026-03-31' };
+
+const summary: ReportDataset = {
+  id: 'phishing-summary',
+  source: 'phishing',
+  title: 'Phishing results summary',
+  period,
+  columns: [
+    { key: 'campaigns', label: 'Campaigns', type: 'number' },
+    { key: 'clickRate', label: 'Click rate', type: 'percent' },
+  ],
+  rows: [{ campaigns: 4, clickRate: 12.5 }],
+};
+
+const byMonth: ReportDataset = {
+  id: 'phishing-by-month',
+  source: 'phishing',
+  title: 'Phishing results by month',
+  period,
+  columns: [
+    { key: 'month', label: 'Month', type: 'text' },
+    { key: 'clickRate', label: 'Click rate', type: 'percent' },
+    { key: 'reportRate', label: 'Report rate', type: 'percent' },
+  ],
+  rows: [
+    { month: '2026-01', clickRate: 20, reportRate: 30 },
+    { month: '2026-02', clickRate: 15.5, reportRate: 42 },
+  ],
+};
+
+const datasets = [summary, byMonth];
+
+describe('report-data-utils', () => {
+  describe('formatDatasetValue', () => {
+    it('formats percent, number and text cells', () => {
+      expect(formatDatasetValue(12.34, 'percent')).toBe('12.3%');
+      expect(formatDatasetValue(1234, 'number')).toBe('1234');
+      expect(formatDatasetValue('2026-01', 'text')).toBe('2026-01');
+      expect(formatDatasetValue(undefined, 'number')).toBe('');
+    });
+  });
+
+  describe('formatDatasetsForPrompt', () => {
+    it('lists ids, column keys and indexed rows', () => {
+      const prompt = formatDatasetsForPrompt(datasets);
+      expect(prompt).toContain('DATASET "phishing-summary"');
+      expect(prompt).toContain('clickRate (percent: Click rate)');
+      expect(prompt).toContain('[1] month=2026-02; clickRate=15.5%; reportRate=42%');
+    });
+  });
+
+  describe('loadReportDatasets', () => {
+    it('returns parsed datasets for a report-data ref', async () => {
+      const kv = { get: vi.fn().mockResolvedValue(datasets) } as unknown as KVService;
+      const ref = buildReportDataRef();
+      expect(ref.startsWith('temp:report-data:')).toBe(true);
+      expect(await loadReportDatasets(kv, ref)).toEqual(datasets);
+    });
+
+    it('rejects foreign keys and corrupt entries', async () => {
+      const kv = { get: vi.fn().mockResolvedValue({ nope: true }) } as unknown as KVService;
+      expect(await loadReportDatasets(kv, 'report:abc:v1')).toBeNull();
+      expect(kv.get).not.toHaveBeenCalled();
+      expect(await loadReportDatasets(kv, 'temp:report-data:x')).toBeNull();
+    });
+  });
+
+  describe('bindSectionToDatasets', () => {
+    it('overwrites KPI values with the dataset cell and derives delta from compareRow', () => {
+      const section: ReportSection = {
+        type: 'kpi_dashboard',
+        id: 'kpis',
+        title: 'KPIs',
+        weight: 0.5,
+        kpis: [
+          {
+            label: 'Click rate',
+            value: '9%',
+            trend: 'up',
+            delta: '+40%',
+            source: { datasetId: 'phishing-summary', column: 'clickRate', row: 0 },
+          },
+          {
+            label: 'Report rate',
+            value: '42%',
+            trend: 'down',
+            source: { datasetId: 'phishing-by-month', column: 'reportRate', row: 1, compareRow: 0 },
+          },
+        ],
+      };
+
+      const bound = bindSectionToDatasets(section, datasets);
+      if (bound.type !== 'kpi_dashboard') throw new Error('type changed');
+      expect(bound.kpis[0]).toMatchObject({ value: '12.5%', trend: 'neutral' });
+      expect(bound.kpis[0].delta).toBeUndefined();
+      expect(bound.kpis[1]).toMatchObject({ value: '42%', trend: 'up', delta: '+12 pp' });
+    });
+
+    it('rebuilds chart data from the dataset, keeping localized series labels', () => {
+      const section: ReportSection = {
+        type: 'chart',
+        id: 'trend',
+        title: 'Trend',
+        weight: 0.75,
+        chartConfig: {
+          type: 'line',
+          data: {
+            labels: ['Ocak', 'Şubat'],
+            datasets: [{ label: 'Tıklama oranı', data: [21, 15], borderColor: '#0B326F' }],
+          },
+        },
+        dataSource: { datasetId: 'phishing-by-month', labelColumn: 'month', valueColumns: ['clickRate'] },
+      };
+
+      const bound = bindSectionToDatasets(section, datasets);
+      if (bound.type !== 'chart') throw new Error('type changed');
+      expect(bound.chartConfig.data.labels).toEqual(['2026-01', '2026-02']);
+      expect(bound.chartConfig.data.datasets).toEqual([
+        { label: 'Tıklama oranı', data: [20, 15.5], borderColor: '#0B326F' },
+      ]);
+    });
+
+    it('rebuilds table rows and falls back to column labels when headers do not line up', () => {
+      const section: ReportSection = {
+        type: 'table',
+        id: 'months',
+        title: 'Months',
+        weight: 0.5,
+        columns: ['Month'],
+        rows: [['Jan', '99%']],
+        dataSource: { datasetId: 'phishing-by-month', columns: ['month', 'clickRate'] },
+      };
+
+      const bound = bindSectionToDatasets(section, datasets);
+      if (bound.type !== 'table') throw new Error('type changed');
+      expect(bound.columns).toEqual(['Month', 'Click rate']);
+      expect(bound.rows).toEqual([
+        ['2026-01', '20%'],
+        ['2026-02', '15.5%'],
+      ]);
+    });
+
+    it('throws on missing or unknown references', () => {
+      const unbound: ReportSection = {
+        type: 'table',
+        id: 't',
+        title: 'T',
+        weight: 0.5,
+        columns: ['A'],
+        rows: [['1']],
+      };
+      expect(() => bindSectionToDatasets(unbound, datasets)).toThrow(/no dataSource/);
+      expect(() =>
+        bindSectionToDatasets({ ...unbound, dataSource: { datasetId: 'nope', columns: ['a'] } }, datasets)
+      ).toThrow(/unknown dataset "nope"/);
+      expect(() =>
+        bindSectionToDatasets({ ...unbound, dataSource: { datasetId: 'phishing-summary', columns: ['x'] } }, datasets)
+      ).toThrow(/unknown column "x"/);
+    });
+
+    it('leaves other section types untouched', () => {
+      const section: ReportSection = { type: 'content', id: 'c', title: 'C', weight: 0.5, content: 'Text' };
+      expect(bindSectionToDatasets(section, datasets)).toBe(section);
+    });
+  });
+});
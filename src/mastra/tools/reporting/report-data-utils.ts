@@ -0,0 +1,235 @@
+/**
+ * Report data binding — keeps data-bound sections honest.
+ *
+ * kpi_dashboard / chart / table sections built from fetched datasets carry a reference
+ * (kpi.source, dataSource) to a dataset id and column keys. After the LLM writes the section,
+ * every number is re-derived from the dataset rows; anything the model changed is logged as
+ * report_data_mismatch and overwritten with the source value.
+ *
+ * Used by: generate-report-outline-tool, expand-report-sections-tool
+ */
+
+import { KVService } from '../../services/kv-service';
+import { REPORT_DATA } from '../../constants';
+import { ReportDatasetSchema } from '../../schemas/report-schema';
+import type {
+  ChartSection,
+  KpiDashboardSection,
+  ReportDataset,
+  ReportDatasetColumn,
+  ReportSection,
+  TableSection,
+} from '../../schemas/report-schema';
+import { getLogger } from '../../utils/core/logger';
+
+const logger = getLogger('ReportDataUtils');
+
+/** Section types whose content must come from a dataset when datasets are available */
+export const DATA_BOUND_SECTION_TYPES = new Set(['kpi_dashboard', 'chart', 'table']);
+
+// ============================================
+// Temp KV (fetch → outline → expand)
+// ============================================
+
+export function buildReportDataRef(): string {
+  return `${REPORT_DATA.TEMP_KV_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+}
+
+/** Load datasets stored by fetch-report-data-tool. null = unknown/expired ref or corrupt entry. */
+export async function loadReportDatasets(kvService: KVService, dataRef: string): Promise<ReportDataset[] | null> {
+  if (!dataRef.startsWith(REPORT_DATA.TEMP_KV_PREFIX)) return null;
+  const stored = await kvService.get(dataRef);
+  const parsed = ReportDatasetSchema.array().safeParse(stored);
+  return parsed.success ? parsed.data : null;
+}
+
+// ============================================
+// Formatting
+// ============================================
+
+/** Display form of a dataset cell: percent → "12.3%", number → "1234" (no thousands separators) */
+export function formatDatasetValue(value: string | number | undefined, type: ReportDatasetColumn['type']): string {
+  if (value === undefined) return '';
+  if (type === 'text') return String(value);
+  const num = Number(value);
+  if (!Number.isFinite(num)) return String(value);
+  const rounded = Math.round(num * 10) / 10;
+  return type === 'percent' ? `${rounded}%` : String(rounded);
+}
+
+/** Compact listing for outline/expansion prompts — ids, column keys and all rows */
+export function formatDatasetsForPrompt(datasets: ReportDataset[]): string {
+  return datasets
+    .map(dataset => {
+      const columns = dataset.columns.map(c => `${c.key} (${c.type}: ${c.label})`).join(', ');
+      const rows = dataset.rows
+        .map(
+          (row, i) =>
+            `  [${i}] ${dataset.columns.map(c => `${c.key}=${formatDatasetValue(row[c.key], c.type)}`).join('; ')}`
+        )
+        .join('\n');
+      return `DATASET "${dataset.id}" (${dataset.source}, ${dataset.period.from} → ${dataset.period.to}): ${dataset.title}
+Columns: ${columns}
+Rows:
+${rows || '  (no rows)'}`;
+    })
+    .join('\n\n');
+}
+
+// ============================================
+// Binding
+// ============================================
+
+export interface DataMismatch {
+  field: string;
+  expected: string;
+  actual: string;
+}
+
+function getDataset(datasets: ReportDataset[], datasetId: string): ReportDataset {
+  const dataset = datasets.find(d => d.id === datasetId);
+  if (!dataset) throw new Error(`unknown dataset "${datasetId}"`);
+  return dataset;
+}
+
+function getColumn(dataset: ReportDataset, key: string): ReportDatasetColumn {
+  const column = dataset.columns.find(c => c.key === key);
+  if (!column) throw new Error(`unknown column "${key}" in dataset "${dataset.id}"`);
+  return column;
+}
+
+function getRow(dataset: ReportDataset, index: number): Record<string, string | number> {
+  const row = dataset.rows[index];
+  if (!row) throw new Error(`row ${index} out of range in dataset "${dataset.id}" (${dataset.rows.length} rows)`);
+  return row;
+}
+
+function sameValue(a: string, b: string): boolean {
+  return a.replace(/\s+/g, '') === b.replace(/\s+/g, '');
+}
+
+/** delta between two rows: percent → percentage points, number → absolute */
+function buildDelta(current: number, previous: number, type: ReportDatasetColumn['type']) {
+  const diff = Math.round((current - previous) * 10) / 10;
+  const sign = diff > 0 ? '+' : '';
+  return {
+    delta: type === 'percent' ? `${sign}${diff} pp` : `${sign}${diff}`,
+    trend: diff > 0 ? ('up' as const) : diff < 0 ? ('down' as const) : ('stable' as const),
+  };
+}
+
+function bindKpis(
+  section: KpiDashboardSection,
+  datasets: ReportDataset[],
+  mismatches: DataMismatch[]
+): KpiDashboardSection {
+  const kpis = section.kpis.map((kpi, i) => {
+    if (!kpi.source) throw new Error(`kpis[${i}] has no source — every KPI must reference a dataset cell`);
+    const dataset = getDataset(datasets, kpi.source.datasetId);
+    const column = getColumn(dataset, kpi.source.column);
+    const current = getRow(dataset, kpi.source.row)[column.key];
+    const value = formatDatasetValue(current, column.type);
+    if (!sameValue(kpi.value, value)) {
+      mismatches.push({ field: `kpis[${i}].value`, expected: value, actual: kpi.value });
+    }
+
+    // delta/trend are only kept when they can be derived from the data
+    const bound = { label: kpi.label, value, source: kpi.source };
+    if (kpi.source.compareRow === undefined || column.type === 'text') {
+      return { ...bound, trend: 'neutral' as const };
+    }
+    const previous = getRow(dataset, kpi.source.compareRow)[column.key];
+    return { ...bound, ...buildDelta(Number(current), Number(previous), column.type) };
+  });
+  return { ...section, kpis };
+}
+
+function bindChart(section: ChartSection, datasets: ReportDataset[], mismatches: DataMismatch[]): ChartSection {
+  if (!section.dataSource) throw new Error('chart has no dataSource — charts must reference a dataset');
+  const dataset = getDataset(datasets, section.dataSource.datasetId);
+  const labelColumn = getColumn(dataset, section.dataSource.labelColumn);
+  const valueColumns = section.dataSource.valueColumns.map(key => getColumn(dataset, key));
+  if (dataset.rows.length === 0) throw new Error(`dataset "${dataset.id}" has no rows to chart`);
+
+  const labels = dataset.rows.map(row => formatDatasetValue(row[labelColumn.key], labelColumn.type));
+  const current = section.chartConfig.data;
+  if (current.labels.join('|') !== labels.join('|')) {
+    mismatches.push({
+      field: 'chartConfig.data.labels',
+      expected: labels.join(', '),
+      actual: current.labels.join(', '),
+    });
+  }
+
+  // Keep the model's (localized) series labels and colors when the series line up with the columns
+  const keepSeriesStyle = current.datasets.length === valueColumns.length;
+  const chartDatasets = valueColumns.map((column, i) => {
+    const data = dataset.rows.map(row => Number(row[column.key]) || 0);
+    const llmSeries = keepSeriesStyle ? current.datasets[i] : undefined;
+    if (llmSeries && llmSeries.data.join('|') !== data.join('|')) {
+      mismatches.push({
+        field: `chartConfig.data.datasets[${i}].data`,
+        expected: data.join(', '),
+        actual: llmSeries.data.join(', '),
+      });
+    }
+    return { ...(llmSeries ?? {}), label: llmSeries?.label || column.label, data };
+  });
+
+  return { ...section, chartConfig: { ...section.chartConfig, data: { labels, datasets: chartDatasets } } };
+}
+
+function bindTable(section: TableSection, datasets: ReportDataset[], mismatches: DataMismatch[]): TableSection {
+  if (!section.dataSource) throw new Error('table has no dataSource — tables must reference a dataset');
+  const dataset = getDataset(datasets, section.dataSource.datasetId);
+  const columns = section.dataSource.columns.map(key => getColumn(dataset, key));
+  if (dataset.rows.length === 0) throw new Error(`dataset "${dataset.id}" has no rows for a table`);
+
+  const rows = dataset.rows
+    .slice(0, REPORT_DATA.MAX_CAMPAIGN_ROWS)
+    .map(row => columns.map(column => formatDatasetValue(row[column.key], column.type)));
+  rows.forEach((row, r) => {
+    const llmRow = section.rows[r] ?? [];
+    row.forEach((cell, c) => {
+      const actual = llmRow[c] ?? '';
+      if (!sameValue(actual, cell)) mismatches.push({ field: `rows[${r}][${c}]`, expected: cell, actual });
+    });
+  });
+
+  // Localized headers survive when they line up with the bound columns
+  const headers = section.columns.length === columns.length ? section.columns : columns.map(c => c.label);
+  return { ...section, columns: headers, rows };
+}
+
+/**
+ * Re-derive a data-bound section's values from its datasets.
+ * Throws when a reference is missing or points at an unknown dataset/column/row, so the caller's
+ * retry → placeholder path handles it. Other section types are returned unchanged.
+ */
+export function bindSectionToDatasets(section: ReportSection, datasets: ReportDataset[]): ReportSection {
+  const mismatches: DataMismatch[] = [];
+  let bound: ReportSection;
+  switch (section.type) {
+    case 'kpi_dashboard':
+      bound = bindKpis(section, datasets, mismatches);
+      break;
+    case 'chart':
+      bound = bindChart(section, datasets, mismatches);
+      break;
+    case 'table':
+      bound = bindTable(section, datasets, mismatches);
+      break;
+    default:
+      return section;
+  }
+
+  if (mismatches.length > 0) {
+    logger.warn('report_data_mismatch', {
+      sectionId: section.id,
+      type: section.type,
+      corrected: mismatches.length,
+      sample: mismatches.slice(0, 5),
+    });
+  }
+  return bound;
+}
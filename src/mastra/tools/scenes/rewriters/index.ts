@@ -13,3 +13,4 @@ export { rewriteScene5Quiz } from './scene5-quiz-rewriter';
 export { rewriteScene6Survey } from './scene6-survey-rewriter';
 export { rewriteScene7Nudge } from './scene7-nudge-rewriter';
 export { rewriteScene8Summary } from './scene8-summary-rewriter';
+export { getSceneRewriter, editScene } from './scene-rewriter-map';
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
-import { rewriteSceneWithBase, RewriteContext } from './scene-rewriter-base';
+import { rewriteSceneWithBase, editSceneWithBase, RewriteContext } from './scene-rewriter-base';
 import { generateText } from 'ai';
 
 vi.mock('ai', () => ({
@@ -381,4 +381,24 @@ describe('Scene Rewriter Base', () => {
       expect(Object.keys(result1).sort()).toEqual(Object.keys(result2).sort());
     });
   });
+
+  describe('editSceneWithBase', () => {
+    const editContext = { language: 'en', topic: 'Phishing Prevention', model: mockModel, department: 'IT' };
+
+    it('should send the current scene and the instruction in the same language', async () => {
+      const result = await editSceneWithBase(baseScene, 'quiz', 'Make question 3 harder', editContext);
+
+      const call = (generateText as any).mock.calls[0][0];
+      const [system, user] = call.messages;
+      expect(system.content).toContain('en');
+      expect(user.content).toContain('Make question 3 harder');
+      expect(user.content).toContain('Welcome to training');
+      expect(result).toEqual(expect.objectContaining({ title: 'Localized Title' }));
+    });
+
+    it('should propagate errors from AI generation', async () => {
+      (generateText as any).mockRejectedValue(new Error('AI Overload'));
+      await expect(editSceneWithBase(baseScene, 'quiz', 'Shorten it', editContext)).rejects.toThrow('AI Overload');
+    });
+  });
 });
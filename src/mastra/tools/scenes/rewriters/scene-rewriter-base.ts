@@ -23,11 +23,18 @@ export interface RewriteContext {
   department?: string;
 }
 
+export interface SceneEditContext {
+  language: string;
+  topic: string;
+  model: LanguageModel;
+  department?: string;
+}
+
 /**
  * Scene type definitions with their specific instructions
  * Each scene type has a unique prompt instruction
  */
-type SceneType =
+export type SceneType =
   | 'intro'
   | 'goal'
   | 'video'
@@ -316,3 +323,91 @@ export async function rewriteSceneWithBase<T>(scene: T, sceneType: SceneType, co
     throw error;
   }
 }
+
+/**
+ * Build the system prompt for a targeted content edit (same language in and out)
+ */
+function buildEditSystemPrompt(sceneType: SceneType, language: string, topic: string, department: string | undefined): string {
+  const config = SCENE_CONFIGS[sceneType];
+
+  return `You are a cybersecurity instructional designer editing ONE scene of an existing microlearning.
+
+=== TASK ===
+
+Apply the editor's instruction to the scene JSON and return the full, edited scene.
+- Change ONLY what the instruction asks for. Every other field stays exactly as it is.
+- Write all new or changed text in ${language}, matching the tone and length of the surrounding content.
+- Context: ${topic} for ${department || 'General'} employees.
+- Scene Type: ${config.displayName} - ${config.typeInstruction}
+
+=== STRUCTURE RULES (CRITICAL) ===
+
+- Output the complete scene with the same keys; do NOT drop fields or add new top-level fields.
+- Keep "scene_type", "points", "duration_seconds", "hasAchievementNotification", "icon" and "iconName" values unchanged.
+- Quiz: every question keeps its "id" and "type"; multiple_choice has 2-6 options with exactly one "isCorrect": true; true_false keeps "statement", "correctAnswer" and both option labels.
+- Resources / links: use ONLY URLs given in the instruction or already in the scene. NEVER invent URLs. "type" is one of URL, PDF, DOC, VIDEO.
+- Keep lists within their current size limits unless the instruction asks to add or remove items.
+
+=== OUTPUT FORMAT (STRICT) ===
+
+- Output only valid JSON (the scene object).
+- No conversational filler, explanations or comments.`;
+}
+
+/**
+ * Apply a natural-language edit to a single scene, in the scene's own language.
+ * Used by the update-microlearning workflow; the edited scene is then localized into the
+ * other languages with the regular rewriters.
+ *
+ * @param scene The current scene content
+ * @param sceneType The type of scene (quiz, summary, ...)
+ * @param instruction What to change
+ * @param context Language, topic and model for the edit
+ * @returns The edited scene
+ */
+export async function editSceneWithBase<T>(
+  scene: T,
+  sceneType: SceneType,
+  instruction: string,
+  context: SceneEditContext
+): Promise<T> {
+  const config = SCENE_CONFIGS[sceneType];
+  const logger = getLogger(`EditScene${config.displayName.replace(/\s+/g, '')}`);
+  const { language, topic, model, department } = context;
+
+  const userPrompt = `Topic: ${topic}
+
+=== CURRENT SCENE (${language}) ===
+
+${JSON.stringify(scene, null, 2)}
+
+=== EDIT INSTRUCTION ===
+
+${instruction}
+
+Output the full edited scene (JSON only):`;
+
+  try {
+    const response = await trackedGenerateText('scene-editor', {
+      model,
+      messages: [
+        { role: 'system', content: buildEditSystemPrompt(sceneType, language, topic, department) },
+        { role: 'user', content: userPrompt },
+      ],
+      ...SCENE_REWRITE_PARAMS,
+      headers: reasoningHeaders(),
+    });
+
+    const cleanKey = sceneType === 'app-texts' ? 'app-texts' : `scene${config.sceneNumber}-${sceneType}-edit`;
+    return JSON.parse(cleanResponse(response.text, cleanKey)) as T;
+  } catch (error) {
+    const err = normalizeError(error);
+    const sceneLabel = config.sceneNumber ? `Scene ${config.sceneNumber} (${config.displayName})` : config.displayName;
+    const errorInfo = errorService.aiModel(`${sceneLabel} edit failed: ${err.message}`, {
+      sceneType,
+      stack: err.stack,
+    });
+    logErrorInfo(logger, 'error', `${sceneLabel} edit failed`, errorInfo);
+    throw error;
+  }
+}
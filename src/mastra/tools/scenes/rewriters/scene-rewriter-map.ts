@@ -0,0 +1,58 @@
+/**
+ * Scene type → rewriter mapping, shared by translate-language-json-tool (full-language
+ * localization) and scene edits in the update-microlearning workflow.
+ */
+
+import { SceneType } from '../../../types/scene-types';
+import {
+  editSceneWithBase,
+  type RewriteContext,
+  type SceneEditContext,
+  type SceneType as RewriterSceneType,
+} from './scene-rewriter-base';
+import { rewriteScene1Intro } from './scene1-intro-rewriter';
+import { rewriteScene2Goal } from './scene2-goal-rewriter';
+import { rewriteScene3Video } from './scene3-video-rewriter';
+import { rewriteScene4Actionable } from './scene4-actionable-rewriter';
+import { rewriteScene4Vishing } from './scene4-vishing-rewriter';
+import { rewriteScene4Smishing } from './scene4-smishing-rewriter';
+import { rewriteScene5Quiz } from './scene5-quiz-rewriter';
+import { rewriteScene6Survey } from './scene6-survey-rewriter';
+import { rewriteScene7Nudge } from './scene7-nudge-rewriter';
+import { rewriteScene8Summary } from './scene8-summary-rewriter';
+
+/** Scene data is dynamic JSON; the rewriter returns content of the same shape it was given */
+export type RewriterFunction = <T>(scene: T, context: RewriteContext) => Promise<T>;
+
+/** Each rewriter has its own typed signature (Scene1..8Metadata); the map picks it by scene type */
+function bySceneType<S>(rewrite: (scene: S, context: RewriteContext) => Promise<S>): RewriterFunction {
+  return rewrite as RewriterFunction;
+}
+
+const SCENE_REWRITERS: Record<SceneType, { rewrite: RewriterFunction; rewriterType: RewriterSceneType }> = {
+  [SceneType.INTRO]: { rewrite: bySceneType(rewriteScene1Intro), rewriterType: 'intro' },
+  [SceneType.GOAL]: { rewrite: bySceneType(rewriteScene2Goal), rewriterType: 'goal' },
+  [SceneType.SCENARIO]: { rewrite: bySceneType(rewriteScene3Video), rewriterType: 'video' }, // scenario is the video scene
+  [SceneType.ACTIONABLE_CONTENT]: { rewrite: bySceneType(rewriteScene4Actionable), rewriterType: 'actionable' },
+  [SceneType.CODE_REVIEW]: { rewrite: bySceneType(rewriteScene4Actionable), rewriterType: 'actionable' }, // Same rewriter as actionable
+  [SceneType.VISHING_SIMULATION]: { rewrite: bySceneType(rewriteScene4Vishing), rewriterType: 'vishing' },
+  [SceneType.SMISHING_SIMULATION]: { rewrite: bySceneType(rewriteScene4Smishing), rewriterType: 'smishing' },
+  [SceneType.QUIZ]: { rewrite: bySceneType(rewriteScene5Quiz), rewriterType: 'quiz' },
+  [SceneType.SURVEY]: { rewrite: bySceneType(rewriteScene6Survey), rewriterType: 'survey' },
+  [SceneType.NUDGE]: { rewrite: bySceneType(rewriteScene7Nudge), rewriterType: 'nudge' },
+  [SceneType.SUMMARY]: { rewrite: bySceneType(rewriteScene8Summary), rewriterType: 'summary' },
+};
+
+export function getSceneRewriter(sceneType: SceneType): RewriterFunction {
+  return SCENE_REWRITERS[sceneType].rewrite;
+}
+
+/** Apply an edit instruction to one scene, using the prompt config of its rewriter */
+export function editScene<T>(
+  scene: T,
+  sceneType: SceneType,
+  instruction: string,
+  context: SceneEditContext
+): Promise<T> {
+  return editSceneWithBase(scene, SCENE_REWRITERS[sceneType].rewriterType, instruction, context);
+}
@@ -15,11 +15,14 @@ import { KVService } from '../../services/kv-service';
 import { getRequestContext } from '../../utils/core/request-storage';
 import { getLogger } from '../../utils/core/logger';
 import { withRetry } from '../../utils/core/resilience-utils';
-import { callWorkerAPI, type AgenticActivitiesPayload, type WorkerSendResponse } from '../../utils/core/worker-api-client';
-import { maskSensitiveField } from '../../utils/core/security-utils';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
-import { ERROR_MESSAGES, KV_NAMESPACES, MAX_GROUP_ASSIGN_USERS, getWorkerUrls } from '../../constants';
+import { ERROR_MESSAGES, KV_NAMESPACES, MAX_GROUP_ASSIGN_USERS } from '../../constants';
 import { errorService } from '../../services/error-service';
+import {
+  getSecurityPlatformAdapter,
+  type ActivityAssignment,
+  type PlatformContext,
+} from '../../services/security-platform';
 import { validateToolResult } from '../../utils/tool-result-validation';
 import { extractCompanyIdFromTokenExport } from '../../utils/core/policy-fetcher';
 import { formatToolSummary } from '../../utils/core/tool-summary-formatter';
@@ -151,32 +154,21 @@ export const assignSmishingTool = createTool({
       scenarioResourceId: resourceId,
       contentCategory: contentCategory || '',
       ...(explanationJson && { explanationJson }),
-      apiUrl: baseApiUrl,
-      accessToken: token,
-      companyId: effectiveCompanyId,
       smishingId: resourceId,
       languageId,
       name,
     };
 
-    const callAssignApi = (p: AgenticActivitiesPayload) =>
-      withRetry(
-        () =>
-          callWorkerAPI<WorkerSendResponse>({
-            env,
-            serviceBinding: env?.SMISHING_CRUD_WORKER,
-            publicUrl: getWorkerUrls(baseApiUrl).SMISHING_WORKER_SEND,
-            endpoint: 'https://worker/send',
-            payload: p,
-            token,
-            errorPrefix: 'Assign API failed',
-            operationName: `Assign smishing to user ${p.targetUserResourceId}`,
-            baseApiUrl,
-          }),
-        `Assign smishing to user ${p.targetUserResourceId}`
-      );
+    const platformCtx: PlatformContext = { token, companyId: effectiveCompanyId, baseApiUrl, env };
 
     try {
+      const platform = getSecurityPlatformAdapter(effectiveCompanyId);
+      const callAssignApi = (p: ActivityAssignment) =>
+        withRetry(
+          () => platform.assignSimulation(platformCtx, p),
+          `Assign smishing to user ${p.targetUserResourceId}`
+        );
+
       // ─── Group Assignment: fan-out to individual users ───
       if (targetGroupResourceId) {
         const { threadId: groupContextBatchId } = getRequestContext();
@@ -184,6 +176,7 @@ export const assignSmishingTool = createTool({
           token,
           groupResourceId: targetGroupResourceId,
           baseApiUrl,
+          fetchMembers: groupId => platform.listGroupMembers(platformCtx, groupId),
           buildPayload: (userResourceId: string) => ({
             ...commonPayloadFields,
             batchResourceId: groupContextBatchId || generateBatchId(),
@@ -262,14 +255,13 @@ export const assignSmishingTool = createTool({
 
       // ─── User Assignment: single API call (unchanged) ───
       const { threadId: contextBatchId } = getRequestContext();
-      const payload: AgenticActivitiesPayload = {
+      const payload: ActivityAssignment = {
         ...commonPayloadFields,
         batchResourceId: contextBatchId || generateBatchId(),
         targetUserResourceId,
       };
 
-      const maskedPayload = maskSensitiveField(payload, 'accessToken');
-      logger.info('Assign smishing payload prepared', { payload: maskedPayload });
+      logger.info('Assign smishing payload prepared', { payload, platform: platform.name });
 
       const result = await callAssignApi(payload);
 
@@ -1,8 +1,13 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { assignTrainingTool } from './assign-training-tool';
 import { requestStorage } from '../../utils/core/request-storage';
 import * as workerApiClient from '../../utils/core/worker-api-client';
 import { KVService } from '../../services/kv-service';
+import {
+  MemoryPlatformAdapter,
+  getSecurityPlatformAdapter,
+  resetMemoryPlatformAdapter,
+} from '../../services/security-platform';
 import '../../../../src/__tests__/setup';
 
 const { mockLogger } = vi.hoisted(() => ({
@@ -378,6 +383,47 @@ describe('assignTrainingTool', () => {
     });
   });
 
+  describe('Security Platform', () => {
+    afterEach(() => {
+      delete process.env.SECURITY_PLATFORM_BY_COMPANY;
+      resetMemoryPlatformAdapter();
+    });
+
+    it("assigns through the company's configured platform", async () => {
+      const mockCallWorkerAPI = vi.spyOn(workerApiClient, 'callWorkerAPI');
+      process.env.SECURITY_PLATFORM_BY_COMPANY = JSON.stringify({ [mockCompanyId]: 'memory' });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = (await assignTrainingTool.execute!(
+        { resourceId: 'resource-123', sendTrainingLanguageId: 'lang-456', targetUserResourceId: 'user-789' },
+        {}
+      )) as any;
+
+      expect(result.success).toBe(true);
+      expect(mockCallWorkerAPI).not.toHaveBeenCalled();
+      const platform = getSecurityPlatformAdapter(mockCompanyId) as MemoryPlatformAdapter;
+      expect(platform.assignments).toEqual([
+        expect.objectContaining({
+          kind: 'training',
+          companyId: mockCompanyId,
+          assignment: expect.objectContaining({ trainingResourceId: 'resource-123', targetUserResourceId: 'user-789' }),
+        }),
+      ]);
+    });
+
+    it('fails the assignment when the platform setting is unknown', async () => {
+      process.env.SECURITY_PLATFORM_BY_COMPANY = JSON.stringify({ [mockCompanyId]: 'ironscales' });
+
+      // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
+      const result = (await assignTrainingTool.execute!(
+        { resourceId: 'resource-123', sendTrainingLanguageId: 'lang-456', targetUserResourceId: 'user-789' },
+        {}
+      )) as any;
+
+      expect(result.success).toBe(false);
+    });
+  });
+
   describe('Output Schema Validation', () => {
     it('should return valid output schema structure', async () => {
       vi.spyOn(workerApiClient, 'callWorkerAPI').mockResolvedValue({});
@@ -14,11 +14,14 @@ import { generateBatchId } from '../../utils/core/short-id';
 import { getRequestContext } from '../../utils/core/request-storage';
 import { getLogger } from '../../utils/core/logger';
 import { withRetry } from '../../utils/core/resilience-utils';
-import { callWorkerAPI, type AgenticActivitiesPayload, type WorkerSendResponse } from '../../utils/core/worker-api-client';
-import { maskSensitiveField } from '../../utils/core/security-utils';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
-import { ERROR_MESSAGES, KV_NAMESPACES, MAX_GROUP_ASSIGN_USERS, getWorkerUrls } from '../../constants';
+import { ERROR_MESSAGES, KV_NAMESPACES, MAX_GROUP_ASSIGN_USERS } from '../../constants';
 import { errorService } from '../../services/error-service';
+import {
+  getSecurityPlatformAdapter,
+  type ActivityAssignment,
+  type PlatformContext,
+} from '../../services/security-platform';
 import { validateToolResult } from '../../utils/tool-result-validation';
 import { extractCompanyIdFromTokenExport } from '../../utils/core/policy-fetcher';
 import { formatToolSummary } from '../../utils/core/tool-summary-formatter';
@@ -156,31 +159,20 @@ export const assignTrainingTool = createTool({
       trainingResourceId: resourceId,
       contentCategory: contentCategory || '',
       ...(explanationJson && { explanationJson }),
-      apiUrl: baseApiUrl,
-      accessToken: token,
-      companyId: effectiveCompanyId,
       trainingId: resourceId,
       languageId: sendTrainingLanguageId,
     };
 
-    const callAssignApi = (p: AgenticActivitiesPayload) =>
-      withRetry(
-        () =>
-          callWorkerAPI<WorkerSendResponse>({
-            env,
-            serviceBinding: env?.CRUD_WORKER,
-            publicUrl: getWorkerUrls(baseApiUrl).TRAINING_WORKER_SEND,
-            endpoint: 'https://worker/send',
-            payload: p,
-            token,
-            errorPrefix: 'Assign API failed',
-            operationName: `Assign training to user ${p.targetUserResourceId}`,
-            baseApiUrl,
-          }),
-        `Assign training to user ${p.targetUserResourceId}`
-      );
+    const platformCtx: PlatformContext = { token, companyId: effectiveCompanyId, baseApiUrl, env };
 
     try {
+      const platform = getSecurityPlatformAdapter(effectiveCompanyId);
+      const callAssignApi = (p: ActivityAssignment) =>
+        withRetry(
+          () => platform.assignTraining(platformCtx, p),
+          `Assign training to user ${p.targetUserResourceId}`
+        );
+
       // ─── Group Assignment: fan-out to individual users ───
       if (targetGroupResourceId) {
         const { threadId: groupContextBatchId } = getRequestContext();
@@ -188,6 +180,7 @@ export const assignTrainingTool = createTool({
           token,
           groupResourceId: targetGroupResourceId,
           baseApiUrl,
+          fetchMembers: groupId => platform.listGroupMembers(platformCtx, groupId),
           buildPayload: (userResourceId: string) => ({
             ...commonPayloadFields,
             batchResourceId: groupContextBatchId || generateBatchId(),
@@ -267,14 +260,13 @@ export const assignTrainingTool = createTool({
       // Use platform-provided batchResourceId (from requestContext.threadId) if available,
       // so batch-autonomous and reject → regenerate flows stay in the same batch.
       const { threadId: contextBatchId } = getRequestContext();
-      const payload: AgenticActivitiesPayload = {
+      const payload: ActivityAssignment = {
         ...commonPayloadFields,
         batchResourceId: contextBatchId || generateBatchId(),
         targetUserResourceId,
       };
 
-      const maskedPayload = maskSensitiveField(payload, 'accessToken');
-      logger.debug('Assign payload prepared', { payload: maskedPayload });
+      logger.debug('Assign payload prepared', { payload, platform: platform.name });
 
       const result = await callAssignApi(payload);
 
@@ -9,24 +9,16 @@
 import { createTool, ToolExecutionContext } from '@mastra/core/tools';
 import { z } from 'zod';
 import { errorService } from '../../services/error-service';
-import { ERROR_MESSAGES, TIMEOUT_VALUES } from '../../constants';
+import { getSecurityPlatformAdapter, type PlatformGroup } from '../../services/security-platform';
+import { ERROR_MESSAGES } from '../../constants';
 import { getLogger } from '../../utils/core/logger';
 import { getRequestContext } from '../../utils/core/request-storage';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
 import { validateToolResult } from '../../utils/tool-result-validation';
-import { withRetry, withTimeout } from '../../utils/core/resilience-utils';
 import { isSafeId } from '../../utils/core/id-utils';
 import { formatToolSummary } from '../../utils/core/tool-summary-formatter';
 
-interface GroupSearchDeps {
-  token: string;
-  companyId?: string;
-  baseApiUrl?: string;
-  logger: ReturnType<typeof getLogger>;
-}
-
 const MIN_GROUP_NAME_LENGTH = 3;
-const GROUP_LOOKUP_TIMEOUT_MS = TIMEOUT_VALUES.GROUP_LOOKUP_TIMEOUT_MS;
 
 const getTargetGroupInfoOutputSchema = z.object({
   success: z.boolean(),
@@ -42,160 +34,9 @@ const getTargetGroupInfoOutputSchema = z.object({
   error: z.string().optional(),
 });
 
-const GROUP_ID_FIELDS = ['targetGroupResourceId', 'groupId', 'id', 'resourceId', 'groupResourceId'] as const;
-const GROUP_NAME_FIELDS = ['groupName', 'name', 'title'] as const;
-const GROUP_DEPARTMENT_FIELDS = ['departmentName', 'department', 'dept'] as const;
-const GROUP_MEMBER_COUNT_FIELDS = ['memberCount', 'size', 'members', 'userCount'] as const;
-
-function extractStringField(record: Record<string, unknown>, fields: readonly string[]): string | undefined {
-  for (const field of fields) {
-    const value = record[field];
-    if (typeof value === 'string' && value.trim()) {
-      return value.trim();
-    }
-  }
-  return undefined;
-}
-
-function extractGroupId(record: Record<string, unknown>): string | undefined {
-  for (const field of GROUP_ID_FIELDS) {
-    const value = record[field];
-    if (value !== undefined && value !== null) {
-      const normalized = String(value).trim();
-      if (normalized) {
-        return normalized;
-      }
-    }
-  }
-  return undefined;
-}
-
-function extractGroupName(record: Record<string, unknown>): string | undefined {
-  return extractStringField(record, GROUP_NAME_FIELDS);
-}
-
-function extractGroupDepartment(record: Record<string, unknown>): string | undefined {
-  return extractStringField(record, GROUP_DEPARTMENT_FIELDS);
-}
-
-function extractMemberCount(record: Record<string, unknown>): number | undefined {
-  for (const field of GROUP_MEMBER_COUNT_FIELDS) {
-    const value = record[field];
-    if (typeof value === 'number') {
-      return value;
-    }
-    if (typeof value === 'string') {
-      const parsed = Number(value);
-      if (!Number.isNaN(parsed)) {
-        return parsed;
-      }
-    }
-  }
-  return undefined;
-}
-
-const GROUP_SEARCH_PAYLOAD_TEMPLATE = {
-  pageNumber: 1,
-  pageSize: 10,
-  orderBy: 'CreateTime',
-  ascending: false,
-  filter: {
-    Condition: 'AND',
-    SearchInputTextValue: '',
-    FilterGroups: [
-      {
-        Condition: 'AND',
-        FilterItems: [],
-        FilterGroups: [],
-      },
-      {
-        Condition: 'OR',
-        FilterItems: [],
-        FilterGroups: [],
-      },
-    ],
-  },
-  systemGeneratedGroups: true,
-} as const;
-
-function createGroupSearchPayload(groupName: string) {
-  const payload = JSON.parse(JSON.stringify(GROUP_SEARCH_PAYLOAD_TEMPLATE));
-  const filterItems = [
-    { FieldName: 'Name', Operator: 'Contains', Value: groupName },
-    { FieldName: 'Priority', Operator: 'Contains', Value: groupName },
-  ];
-  payload.filter.FilterGroups[1].FilterItems = filterItems;
-  return payload;
-}
-
-async function fetchGroupsWithFilters(deps: GroupSearchDeps, groupName: string): Promise<Record<string, unknown>[]> {
-  const { token, companyId, baseApiUrl, logger } = deps;
-  const headers: Record<string, string> = {
-    'Content-Type': 'application/json',
-    Authorization: `Bearer ${token}`,
-  };
-  if (companyId) {
-    headers['x-ir-company-id'] = companyId;
-  }
-
-  const payload = createGroupSearchPayload(groupName);
-
-  // Build search URL dynamically from baseApiUrl (defaults to test environment)
-  const groupSearchUrl = `${baseApiUrl || 'https://test-api.devkeepnet.com'}/api/target-groups/search`;
-
-  const response = await withRetry(
-    () =>
-      withTimeout(
-        fetch(groupSearchUrl, {
-          method: 'POST',
-          headers,
-          body: JSON.stringify(payload),
-        }),
-        GROUP_LOOKUP_TIMEOUT_MS
-      ),
-    `Target group search: "${groupName}"`
-  );
-
-  if (!response.ok) {
-    const errorInfo = errorService.external(ERROR_MESSAGES.GROUP_INFO.FETCH_FAILED, {
-      service: 'group-search',
-      status: response.status,
-    });
-    logErrorInfo(logger, 'error', 'Group search API failed', errorInfo);
-    throw new Error(errorInfo.message);
-  }
-
-  let result: unknown;
-  try {
-    result = await response.json();
-  } catch (error) {
-    const err = normalizeError(error);
-    const errorInfo = errorService.external(err.message, {
-      step: 'group-search-json-parse',
-      stack: err.stack,
-    });
-    logErrorInfo(logger, 'warn', 'Group search response JSON parse failed', errorInfo);
-    return [];
-  }
-
-  const r = result as Record<string, unknown> | undefined;
-  const data = (r?.data as Record<string, unknown> | undefined) ?? undefined;
-
-  const candidates = [data?.results, data?.items, r?.results, r?.items];
-
-  for (const c of candidates) {
-    if (Array.isArray(c)) return c as Record<string, unknown>[];
-  }
-
-  return [];
-}
-
-function pickBestGroup(groups: Record<string, unknown>[], normalizedGroupName: string) {
+function pickBestGroup(groups: PlatformGroup[], normalizedGroupName: string) {
   const normalizedSearch = normalizedGroupName.toLowerCase();
-  const exactMatch = groups.find(group => {
-    const candidateName = extractGroupName(group);
-    return typeof candidateName === 'string' && candidateName.toLowerCase() === normalizedSearch;
-  });
+  const exactMatch = groups.find(group => group.name?.toLowerCase() === normalizedSearch);
   return exactMatch || groups[0];
 }
 
@@ -311,7 +152,8 @@ export const getTargetGroupInfoTool = createTool({
     }
 
     try {
-      const trySearch = async (name: string) => fetchGroupsWithFilters({ token, companyId, baseApiUrl, logger }, name);
+      const platform = getSecurityPlatformAdapter(companyId);
+      const trySearch = async (name: string) => platform.searchGroups({ token, companyId, baseApiUrl }, name);
 
       // Level 1: full search string
       let groups = await trySearch(normalizedGroupName);
@@ -341,7 +183,7 @@ export const getTargetGroupInfoTool = createTool({
       }
 
       const selectedGroup = pickBestGroup(groups, normalizedGroupName);
-      const resolvedId = extractGroupId(selectedGroup);
+      const resolvedId = selectedGroup.resourceId;
       if (!resolvedId) {
         const errorInfo = errorService.notFound('Group record missing ID after search', {
           resourceType: 'group',
@@ -353,9 +195,9 @@ export const getTargetGroupInfoTool = createTool({
 
       const groupInfo = {
         targetGroupResourceId: resolvedId,
-        groupName: extractGroupName(selectedGroup) || normalizedGroupName,
-        departmentName: extractGroupDepartment(selectedGroup) || providedDepartment?.trim(),
-        memberCount: extractMemberCount(selectedGroup),
+        groupName: selectedGroup.name || normalizedGroupName,
+        departmentName: selectedGroup.department || providedDepartment?.trim(),
+        memberCount: selectedGroup.memberCount,
       };
 
       logger.info('Group metadata resolved via search', { groupInfo });
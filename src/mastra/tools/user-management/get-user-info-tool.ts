@@ -30,13 +30,12 @@ import { getModelWithOverride, reasoningHeaders } from '../../model-providers';
 import { cleanResponse } from '../../utils/content-processors/json-cleaner';
 import { getLogger } from '../../utils/core/logger';
 import { errorService } from '../../services/error-service';
+import { getSecurityPlatformAdapter, SecurityPlatformError, type PlatformContext } from '../../services/security-platform';
 import { validateBCP47LanguageCode, DEFAULT_LANGUAGE } from '../../utils/language/language-utils';
 import { getDepartmentFallbackForLanguage } from '../../utils/language/department-fallback';
 import { ANALYSIS_REFERENCES, ALLOWED_ENUMS_TEXT } from './behavior-analyst-constants';
 import {
   AnalysisSchema,
-  GET_ALL_PAYLOAD,
-  TIMELINE_PAYLOAD,
   getUserInfoOutputSchema,
   PlatformUser,
   ApiActivity,
@@ -46,10 +45,10 @@ import {
   enrichActivities,
   formatEnrichedActivitiesForPrompt,
   type EnrichedActivity,
+  type RawActivity,
 } from './activity-enrichment-utils';
 import { getCampaignMetadata } from '../../services/campaign-metadata-service';
 import { extractResourceIdsFromTimeline, enrichActivitiesWithMetadata } from '../../utils/campaign-metadata-helpers';
-import { findUserByEmail, findUserById, findUserByNameWithFallbacks } from './utils/user-search-utils';
 import {
   applyNoActivityMicrolearningGuardrails,
   applyNoActivityNudgeGuardrails,
@@ -143,7 +142,8 @@ export const getUserInfoTool = createTool({
       let lastName: string | undefined = undefined;
       let fullName: string = '';
 
-      const searchDeps = { token, companyId, baseApiUrl, logger };
+      const platform = getSecurityPlatformAdapter(companyId);
+      const platformCtx: PlatformContext = { token, companyId, baseApiUrl, env };
 
       // STEP 0: Determine user lookup path
       if (inputTargetUserResourceId) {
@@ -153,7 +153,7 @@ export const getUserInfoTool = createTool({
         });
         userId = inputTargetUserResourceId;
         try {
-          user = await findUserById(searchDeps, GET_ALL_PAYLOAD, inputTargetUserResourceId);
+          user = await platform.findUser(platformCtx, { by: 'id', id: inputTargetUserResourceId });
         } catch (err) {
           const errorInfo = errorService.external('User fetch by targetUserResourceId failed', {
             error: normalizeError(err).message,
@@ -181,7 +181,7 @@ export const getUserInfoTool = createTool({
           const maskedEmail = email.replace(/^[^@]+/, '[REDACTED]');
           logger.info('Searching for user by email', { email, maskedEmail });
           try {
-            user = await findUserByEmail(searchDeps, GET_ALL_PAYLOAD, email);
+            user = await platform.findUser(platformCtx, { by: 'email', email });
           } catch (err) {
             // Helper already logs; return structured error
             const errorInfo = errorService.external('User search by email failed', {
@@ -242,7 +242,7 @@ export const getUserInfoTool = createTool({
           logger.info('Searching for user by name', { fullName: '[REDACTED]', firstName: '[REDACTED]', lastName: '[REDACTED]' });
 
           try {
-            user = await findUserByNameWithFallbacks(searchDeps, GET_ALL_PAYLOAD, firstName, lastName, fullName);
+            user = await platform.findUser(platformCtx, { by: 'name', firstName, lastName, fullName });
           } catch (err) {
             const errorMsg = normalizeError(err).message;
             // If the error message is specific (like "Simulated company not found"), start with that.
@@ -279,36 +279,19 @@ export const getUserInfoTool = createTool({
       const resolvedUserId = userId;
 
       // --- STEP 2: Get Timeline ---
-      const timelinePayload = JSON.parse(JSON.stringify(TIMELINE_PAYLOAD));
-      timelinePayload.targetUserResourceId = resolvedUserId;
-      timelinePayload.pagination.ascending = false;
-
       logger.info('Fetching timeline for user', { userId: resolvedUserId });
-      const timelineHeaders: Record<string, string> = {
-        'Content-Type': 'application/json',
-        Authorization: `Bearer ${token}`,
-      };
-      if (companyId) {
-        timelineHeaders['x-ir-company-id'] = companyId;
+      let results: ApiActivity[] | undefined;
+      try {
+        results = await platform.getUserActivities(platformCtx, resolvedUserId);
+      } catch (error) {
+        // Platform rejected the request: continue without history (network errors still fail the tool)
+        if (!(error instanceof SecurityPlatformError)) throw error;
+        logger.warn('Timeline API request failed', { status: error.status, error: error.message });
       }
 
-      // Build timeline URL dynamically from baseApiUrl (defaults to test environment)
-      const timelineUrl = `${baseApiUrl || 'https://test-api.devkeepnet.com'}/api/leaderboard/get-user-timeline`;
-
-      const timelineResponse = await withRetry(
-        async () => fetch(timelineUrl, {
-          method: 'POST',
-          headers: timelineHeaders,
-          body: JSON.stringify(timelinePayload),
-        }),
-        'get-user-timeline'
-      );
-
-      let recentActivities = [];
+      let recentActivities: Array<Record<string, unknown>> = [];
       let enrichedActivities: EnrichedActivity[] = [];
-      if (timelineResponse.ok) {
-        const timelineData = await timelineResponse.json();
-        const results = timelineData?.data?.results || [];
+      if (results) {
         recentActivities = results
           .map((r: ApiActivity) => ({
             actionType: r.ActionType,
@@ -321,7 +304,7 @@ export const getUserInfoTool = createTool({
           .slice(0, 10);
 
         // Enrich activities with semantic context
-        enrichedActivities = enrichActivities(results.slice(0, 10));
+        enrichedActivities = enrichActivities(results.slice(0, 10) as RawActivity[]);
 
         // Active Learning: fetch campaign metadata for activities that have resourceId (Product API must return it)
         try {
@@ -339,12 +322,6 @@ export const getUserInfoTool = createTool({
         }
 
         logger.info('Timeline activities retrieved and enriched', { count: results.length });
-      } else {
-        const errorText = await timelineResponse.text();
-        logger.warn('Timeline API request failed', {
-          status: timelineResponse.status,
-          errorBody: errorText.substring(0, 1000),
-        });
       }
 
       // Normalize preferred language to BCP-47 (default en-gb)
@@ -13,12 +13,11 @@ import { getRequestContext } from '../../utils/core/request-storage';
 import { toolEventBus } from '../../utils/core/tool-event-bus';
 import { getLogger } from '../../utils/core/logger';
 import { withRetry } from '../../utils/core/resilience-utils';
-import { callWorkerAPI } from '../../utils/core/worker-api-client';
-import { maskSensitiveField } from '../../utils/core/security-utils';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
 import { KVService } from '../../services/kv-service';
-import { ERROR_MESSAGES, KV_NAMESPACES, getWorkerUrls } from '../../constants';
+import { ERROR_MESSAGES, KV_NAMESPACES } from '../../constants';
 import { errorService } from '../../services/error-service';
+import { getSecurityPlatformAdapter } from '../../services/security-platform';
 import { validateToolResult } from '../../utils/tool-result-validation';
 import { extractCompanyIdFromTokenExport } from '../../utils/core/policy-fetcher';
 import { formatToolSummary } from '../../utils/core/tool-summary-formatter';
@@ -28,19 +27,6 @@ import { trySaveCampaignMetadataAfterUpload } from '../../services/campaign-meta
 import { getExplainabilityReasoning } from '../../types/explainability';
 import { normalizeReasoningToEnglish } from '../../utils/core/reasoning-normalizer';
 
-interface UploadPhishingWorkerResult {
-  success?: boolean;
-  templateResourceId?: string;
-  templateId?: number;
-  landingPageResourceId?: string;
-  landingPageId?: number;
-  scenarioResourceId?: string;
-  scenarioId?: number;
-  languageId?: string;
-  resourceId?: string; // fallback older worker response
-  message?: string;
-}
-
 // Output schema defined separately to avoid circular reference
 const uploadPhishingOutputSchema = z.object({
   success: z.boolean(),
@@ -157,38 +143,21 @@ export const uploadPhishingTool = createTool({
           : undefined,
       };
 
-      // 3. Upload to Worker
-      const payload = {
-        accessToken: token, // Sensitive!
-        companyId: effectiveCompanyId,
-        url: baseApiUrl, // Dynamic URL from header or environment
-        phishingData: phishingPayload,
-      };
-
-      // Secure Logging (Mask token)
-      const maskedPayload = maskSensitiveField(payload, 'accessToken');
-      const masked = maskedPayload as { phishingData?: { email?: { template?: unknown }; landingPage?: unknown } };
+      // 3. Upload to the company's security platform
       logger.debug('Upload payload prepared (redacted)', {
-        payload: summarizeForLog(maskedPayload),
-        phishingData: summarizeForLog(masked.phishingData),
-        emailTemplate: summarizeForLog(masked.phishingData?.email?.template),
-        landingPage: summarizeForLog(masked.phishingData?.landingPage),
+        phishingData: summarizeForLog(phishingPayload),
+        emailTemplate: summarizeForLog(phishingPayload.email?.template),
+        landingPage: summarizeForLog(phishingPayload.landingPage),
       });
 
       // Wrap API call with retry (exponential backoff: 1s, 2s, 4s)
-      const result = await withRetry<UploadPhishingWorkerResult>(
+      const platform = getSecurityPlatformAdapter(effectiveCompanyId);
+      const result = await withRetry(
         () =>
-          callWorkerAPI({
-            env,
-            serviceBinding: env?.PHISHING_CRUD_WORKER,
-            publicUrl: getWorkerUrls(baseApiUrl).PHISHING_WORKER_URL,
-            endpoint: 'https://worker/submit',
-            payload,
-            token,
-            errorPrefix: 'Worker failed',
-            operationName: `Upload phishing content ${phishingId}`,
-            baseApiUrl,
-          }) as Promise<UploadPhishingWorkerResult>,
+          platform.uploadSimulation(
+            { token, companyId: effectiveCompanyId, baseApiUrl, env },
+            { channel: 'phishing', contentId: phishingId, content: phishingPayload }
+          ),
         `Upload phishing content ${phishingId}`
       );
 
@@ -206,7 +175,14 @@ export const uploadPhishingTool = createTool({
       const resourceIdForAssignment = scenarioResourceId || templateResourceId;
 
       // Active Learning: save campaign metadata for UserInfoAgent correlation (non-blocking)
-      await trySaveCampaignMetadataAfterUpload(env, phishingData, resourceIdForAssignment);
+      await trySaveCampaignMetadataAfterUpload(
+        env,
+        phishingData,
+        resourceIdForAssignment,
+        'phishing',
+        effectiveCompanyId,
+        phishingId
+      );
 
       // Store explainability reasoning in event bus for assign tool to read (same request lifecycle)
       // Normalize to English for manager/auditor consumption (EU AI Act Art. 13)
@@ -13,12 +13,11 @@ import { getRequestContext } from '../../utils/core/request-storage';
 import { toolEventBus } from '../../utils/core/tool-event-bus';
 import { getLogger } from '../../utils/core/logger';
 import { withRetry } from '../../utils/core/resilience-utils';
-import { callWorkerAPI } from '../../utils/core/worker-api-client';
-import { maskSensitiveField } from '../../utils/core/security-utils';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
 import { KVService } from '../../services/kv-service';
-import { ERROR_MESSAGES, KV_NAMESPACES, getWorkerUrls } from '../../constants';
+import { ERROR_MESSAGES, KV_NAMESPACES } from '../../constants';
 import { errorService } from '../../services/error-service';
+import { getSecurityPlatformAdapter } from '../../services/security-platform';
 import { validateToolResult } from '../../utils/tool-result-validation';
 import { extractCompanyIdFromTokenExport } from '../../utils/core/policy-fetcher';
 import { formatToolSummary } from '../../utils/core/tool-summary-formatter';
@@ -28,19 +27,6 @@ import { trySaveCampaignMetadataAfterUpload } from '../../services/campaign-meta
 import { getExplainabilityReasoning } from '../../types/explainability';
 import { normalizeReasoningToEnglish } from '../../utils/core/reasoning-normalizer';
 
-interface UploadSmishingWorkerResult {
-  success?: boolean;
-  templateResourceId?: string;
-  templateId?: number;
-  landingPageResourceId?: string;
-  landingPageId?: number;
-  scenarioResourceId?: string;
-  scenarioId?: number;
-  languageId?: string;
-  resourceId?: string;
-  message?: string;
-}
-
 const uploadSmishingOutputSchema = z.object({
   success: z.boolean(),
   data: z
@@ -138,35 +124,19 @@ export const uploadSmishingTool = createTool({
         landingPage: landingContent ? { ...landingContent } : undefined,
       };
 
-      const payload = {
-        accessToken: token,
-        companyId: effectiveCompanyId,
-        url: baseApiUrl,
-        smishingData: payloadData,
-      };
-
-      const maskedPayload = maskSensitiveField(payload, 'accessToken');
-      const masked = maskedPayload as { smishingData?: { sms?: { messages?: unknown }; landingPage?: unknown } };
       logger.debug('Upload payload prepared (redacted)', {
-        payload: summarizeForLog(maskedPayload),
-        smishingData: summarizeForLog(masked.smishingData),
-        smsMessages: summarizeForLog(masked.smishingData?.sms?.messages),
-        landingPage: summarizeForLog(masked.smishingData?.landingPage),
+        smishingData: summarizeForLog(payloadData),
+        smsMessages: summarizeForLog(payloadData.sms?.messages),
+        landingPage: summarizeForLog(payloadData.landingPage),
       });
 
-      const result = await withRetry<UploadSmishingWorkerResult>(
+      const platform = getSecurityPlatformAdapter(effectiveCompanyId);
+      const result = await withRetry(
         () =>
-          callWorkerAPI({
-            env,
-            serviceBinding: env?.SMISHING_CRUD_WORKER,
-            publicUrl: getWorkerUrls(baseApiUrl).SMISHING_WORKER_URL,
-            endpoint: 'https://worker/submit',
-            payload,
-            token,
-            errorPrefix: 'Worker failed',
-            operationName: `Upload smishing content ${smishingId}`,
-            baseApiUrl,
-          }) as Promise<UploadSmishingWorkerResult>,
+          platform.uploadSimulation(
+            { token, companyId: effectiveCompanyId, baseApiUrl, env },
+            { channel: 'smishing', contentId: smishingId, content: payloadData }
+          ),
         `Upload smishing content ${smishingId}`
       );
 
@@ -177,7 +147,14 @@ export const uploadSmishingTool = createTool({
       const resourceIdForAssignment = scenarioResourceId || templateResourceId;
 
       // Active Learning: save campaign metadata for UserInfoAgent tactic enrichment (non-blocking)
-      await trySaveCampaignMetadataAfterUpload(env, smishingData, resourceIdForAssignment, 'smishing');
+      await trySaveCampaignMetadataAfterUpload(
+        env,
+        smishingData,
+        resourceIdForAssignment,
+        'smishing',
+        effectiveCompanyId,
+        smishingId
+      );
 
       // Store explainability reasoning in event bus for assign tool to read
       // Normalize to English for manager/auditor consumption (EU AI Act Art. 13)
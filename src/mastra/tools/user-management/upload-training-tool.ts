@@ -13,13 +13,12 @@ import { getRequestContext } from '../../utils/core/request-storage';
 import { toolEventBus } from '../../utils/core/tool-event-bus';
 import { getLogger } from '../../utils/core/logger';
 import { withRetry } from '../../utils/core/resilience-utils';
-import { callWorkerAPI, type ServiceBinding } from '../../utils/core/worker-api-client';
-import { maskSensitiveField } from '../../utils/core/security-utils';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
 import { KVService } from '../../services/kv-service';
-import { ERROR_MESSAGES, API_ENDPOINTS, getWorkerUrls, TIMEOUT_VALUES } from '../../constants';
+import { ERROR_MESSAGES, API_ENDPOINTS, TIMEOUT_VALUES } from '../../constants';
 import { normalizeDepartmentName } from '../../utils/language/language-utils';
 import { errorService } from '../../services/error-service';
+import { getSecurityPlatformAdapter } from '../../services/security-platform';
 import { validateToolResult } from '../../utils/tool-result-validation';
 import { waitForKVConsistency, buildExpectedKVKeys } from '../../utils/kv-consistency';
 import { MicrolearningService } from '../../services/microlearning-service';
@@ -79,13 +78,6 @@ export const uploadTrainingTool = createTool({
 
     try {
       const safeEnv: Record<string, unknown> = env ?? {};
-      const toServiceBinding = (value: unknown): ServiceBinding | undefined => {
-        if (!value || typeof value !== 'object') return undefined;
-        if (!('fetch' in value)) return undefined;
-        return typeof (value as { fetch?: unknown }).fetch === 'function' ? (value as ServiceBinding) : undefined;
-      };
-
-      const serviceBinding = toServiceBinding(safeEnv.CRUD_WORKER);
 
       // 1. Wait for KV consistency (handles eventual consistency)
       // Build expected keys - we only need base key for upload
@@ -172,36 +164,21 @@ export const uploadTrainingTool = createTool({
         inboxUrl,
         level,
       };
-      // 3. Upload to Worker (includes inboxUrl for department-specific inbox assignment)
-      const payload = {
-        accessToken: token, // Sensitive!
-        companyId: effectiveCompanyId,
-        url: baseApiUrl, // Dynamic URL from header or environment
-        baseUrl: API_ENDPOINTS.MICROLEARNING_API_URL + microlearningId,
-        trainingData,
-      };
-
-      // Secure Logging (Mask token)
-      const maskedPayload = maskSensitiveField(payload, 'accessToken');
-      logger.debug('Upload payload prepared (redacted)', {
-        payload: summarizeForLog(maskedPayload),
-        trainingData: summarizeForLog(maskedPayload.trainingData),
-      });
+      // 3. Upload to the company's security platform (includes inboxUrl for department-specific inbox assignment)
+      logger.debug('Upload payload prepared (redacted)', { trainingData: summarizeForLog(trainingData) });
 
       // Wrap API call with retry (exponential backoff: 1s, 2s, 4s)
+      const platform = getSecurityPlatformAdapter(effectiveCompanyId);
       const result = await withRetry(
         () =>
-          callWorkerAPI({
-            env: safeEnv,
-            serviceBinding,
-            publicUrl: getWorkerUrls(baseApiUrl).TRAINING_WORKER_URL,
-            endpoint: 'https://worker/submit',
-            payload,
-            token,
-            errorPrefix: 'Worker failed',
-            operationName: `Upload training content ${microlearningId}`,
-            baseApiUrl,
-          }),
+          platform.uploadTraining(
+            { token, companyId: effectiveCompanyId, baseApiUrl, env: safeEnv },
+            {
+              contentId: microlearningId,
+              contentUrl: API_ENDPOINTS.MICROLEARNING_API_URL + microlearningId,
+              training: trainingData,
+            }
+          ),
         `Upload training content ${microlearningId}`
       );
 
@@ -211,7 +188,9 @@ export const uploadTrainingTool = createTool({
       if (result.resourceId) {
         await trySaveCampaignMetadataFromInput(
           safeEnv,
-          buildMetadataFromMicrolearningBase(microlearningData, result.resourceId)
+          buildMetadataFromMicrolearningBase(microlearningData, result.resourceId),
+          effectiveCompanyId,
+          microlearningId
         );
 
         // Store explainability reasoning in event bus for assign tool to read
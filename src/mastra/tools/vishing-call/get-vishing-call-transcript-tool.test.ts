@@ -0,0 +1,93 @@
+/**
+ * Unit tests for get-vishing-call-transcript-tool
+ */
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { getVishingCallTranscriptTool } from './get-vishing-call-transcript-tool';
+import { VoiceProviderError } from '../../services/voice-simulation';
+
+const mockGetConversationTranscript = vi.fn();
+const mockGetConfigurationError = vi.fn();
+vi.mock('../../services/voice-simulation', async importOriginal => ({
+  ...(await importOriginal<typeof import('../../services/voice-simulation')>()),
+  getVoiceSimulationProvider: () => ({
+    name: 'vapi',
+    getConfigurationError: mockGetConfigurationError,
+    getConversationTranscript: mockGetConversationTranscript,
+  }),
+}));
+
+const mockGenerateSummary = vi.fn();
+vi.mock('./vishing-conversations-summary-tool', () => ({
+  generateVishingConversationsSummary: (...args: unknown[]) => mockGenerateSummary(...args),
+}));
+
+vi.mock('../../utils/core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const MESSAGES = [
+  { role: 'agent', text: 'Hi, IT support here.', timestamp: 0 },
+  { role: 'user', text: 'I will call the help desk back.', timestamp: 6 },
+];
+const SUMMARY = { timeline: [], disclosedInfo: [], outcome: 'refused' };
+
+async function run(conversationId = 'call-1') {
+  return (await getVishingCallTranscriptTool.execute!({ conversationId }, {})) as any;
+}
+
+describe('getVishingCallTranscriptTool', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockGetConfigurationError.mockReturnValue(null);
+    mockGenerateSummary.mockResolvedValue({ summary: SUMMARY, nextSteps: [], statusCard: {} });
+  });
+
+  it('returns the transcript with a debrief once the call has ended', async () => {
+    mockGetConversationTranscript.mockResolvedValue({
+      conversationId: 'call-1',
+      status: 'done',
+      messages: MESSAGES,
+      durationSecs: 30,
+    });
+
+    const result = await run();
+
+    expect(mockGetConversationTranscript).toHaveBeenCalledWith('call-1');
+    expect(mockGenerateSummary).toHaveBeenCalledWith(MESSAGES);
+    expect(result).toEqual({
+      success: true,
+      status: 'done',
+      messages: MESSAGES,
+      durationSecs: 30,
+      summary: SUMMARY,
+      nextSteps: [],
+    });
+  });
+
+  it('only reports the status while the call is still running', async () => {
+    mockGetConversationTranscript.mockResolvedValue({ conversationId: 'call-1', status: 'in-progress', messages: [] });
+
+    expect(await run()).toEqual({ success: true, status: 'in-progress' });
+    expect(mockGenerateSummary).not.toHaveBeenCalled();
+  });
+
+  it('returns the configuration error without calling the provider', async () => {
+    mockGetConfigurationError.mockReturnValue('Vapi API key is not configured.');
+
+    expect(await run()).toEqual({ success: false, error: 'Vapi API key is not configured.' });
+    expect(mockGetConversationTranscript).not.toHaveBeenCalled();
+  });
+
+  it('reports unknown calls and provider failures', async () => {
+    mockGetConversationTranscript.mockRejectedValueOnce(new VoiceProviderError('missing', 'api_error', 404));
+    expect(await run('call-x')).toEqual({ success: false, error: 'Call call-x was not found.' });
+
+    mockGetConversationTranscript.mockRejectedValueOnce(new Error('socket hang up'));
+    expect((await run()).error).toBe('Failed to get call transcript: socket hang up');
+  });
+});
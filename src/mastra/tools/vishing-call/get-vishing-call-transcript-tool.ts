@@ -0,0 +1,94 @@
+/**
+ * Get Vishing Call Transcript Tool
+ *
+ * Fetches the transcript of a call placed by initiateVishingCall from the configured
+ * voice provider (services/voice-simulation). Once the call has ended, the transcript
+ * is turned into the same debrief as /vishing/conversations/summary (timeline,
+ * disclosed info, outcome, next steps). Works for every provider — the frontend only
+ * polls ElevenLabs directly, so other providers depend on this tool for the outcome.
+ */
+
+import { createTool } from '@mastra/core/tools';
+import { z } from 'zod';
+import { getLogger } from '../../utils/core/logger';
+import { normalizeError } from '../../utils/core/error-utils';
+import { getVoiceSimulationProvider, VoiceProviderError } from '../../services/voice-simulation';
+import { VishingConversationsSummarySchema } from '../../schemas/vishing-conversations-summary';
+import { generateVishingConversationsSummary } from './vishing-conversations-summary-tool';
+
+const logger = getLogger('GetVishingCallTranscriptTool');
+
+// ============================================
+// Schemas
+// ============================================
+
+const getVishingCallTranscriptInputSchema = z.object({
+  conversationId: z.string().trim().min(1).describe('The conversationId returned by initiateVishingCall'),
+});
+
+const getVishingCallTranscriptOutputSchema = z.object({
+  success: z.boolean(),
+  status: z.enum(['initiated', 'in-progress', 'processing', 'done', 'failed']).optional(),
+  messages: z
+    .array(z.object({ role: z.enum(['agent', 'user']), text: z.string(), timestamp: z.number().optional() }))
+    .optional(),
+  durationSecs: z.number().optional(),
+  summary: VishingConversationsSummarySchema.optional(),
+  nextSteps: z.array(z.object({ title: z.string(), description: z.string() })).optional(),
+  error: z.string().optional(),
+});
+
+// ============================================
+// Tool Definition
+// ============================================
+
+export const getVishingCallTranscriptTool = createTool({
+  id: 'get-vishing-call-transcript',
+  description:
+    'Get the transcript and outcome of a vishing simulation call started with initiateVishingCall. Returns the call status; once the call has ended, also the transcript, a debrief summary (outcome, disclosed information) and recommended next steps.',
+  inputSchema: getVishingCallTranscriptInputSchema,
+  outputSchema: getVishingCallTranscriptOutputSchema,
+  execute: async inputData => {
+    const { conversationId } = inputData;
+
+    try {
+      const provider = getVoiceSimulationProvider();
+
+      const configError = provider.getConfigurationError();
+      if (configError) {
+        logger.error('voice_provider_not_configured', { provider: provider.name });
+        return { success: false, error: configError };
+      }
+
+      const transcript = await provider.getConversationTranscript(conversationId);
+      logger.info('vishing_call_transcript_fetched', {
+        provider: provider.name,
+        conversationId,
+        status: transcript.status,
+        messageCount: transcript.messages.length,
+      });
+
+      if (transcript.status !== 'done') {
+        return { success: true, status: transcript.status };
+      }
+
+      const { summary, nextSteps } = await generateVishingConversationsSummary(transcript.messages);
+      return {
+        success: true,
+        status: transcript.status,
+        messages: transcript.messages,
+        durationSecs: transcript.durationSecs,
+        summary,
+        nextSteps,
+      };
+    } catch (error) {
+      if (error instanceof VoiceProviderError && error.status === 404) {
+        return { success: false, error: `Call ${conversationId} was not found.` };
+      }
+
+      const err = normalizeError(error);
+      logger.error('vishing_call_transcript_error', { conversationId, error: err.message });
+      return { success: false, error: `Failed to get call transcript: ${err.message}` };
+    }
+  },
+});
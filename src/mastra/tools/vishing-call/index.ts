@@ -1,7 +1,8 @@
 /**
  * Vishing Call Tools Barrel Exports
- * Tools for outbound vishing (voice phishing) simulation calls via ElevenLabs.
+ * Tools for outbound vishing (voice phishing) simulation calls via the configured voice provider.
  */
 
 export { listPhoneNumbersTool } from './list-phone-numbers-tool';
 export { initiateVishingCallTool } from './initiate-vishing-call-tool';
+export { getVishingCallTranscriptTool } from './get-vishing-call-transcript-tool';
@@ -3,6 +3,7 @@
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { initiateVishingCallTool } from './initiate-vishing-call-tool';
+import { deriveLiveToolToken } from '../../services/voice-simulation';
 
 const expectedUrl = 'https://api.elevenlabs.io/v1/convai/twilio/outbound-call';
 
@@ -98,6 +99,25 @@ describe('initiateVishingCallTool', () => {
     expect(body.agent_id).toBeDefined();
   });
 
+  it('should register the live monitor tool when the webhook URL and secret are set', async () => {
+    process.env.VISHING_LIVE_WEBHOOK_URL = 'https://agent.example.com/vishing/conversations/live';
+    process.env.VISHING_WEBHOOK_SECRET = 'whsec_test';
+    (global.fetch as ReturnType<typeof vi.fn>) = vi.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({ conversation_id: 'c1', callSid: 's1' }),
+    });
+
+    await initiateVishingCallTool.execute!(validContext, {});
+
+    const body = JSON.parse((global.fetch as ReturnType<typeof vi.fn>).mock.calls[0][1].body);
+    const { prompt } = body.conversation_initiation_client_data.conversation_config_override.agent;
+    expect(prompt.prompt).toContain('report_learner_turn');
+    expect(prompt.tools[0].api_schema).toMatchObject({
+      url: 'https://agent.example.com/vishing/conversations/live',
+      request_headers: { 'X-VISHING-TOOL-TOKEN': await deriveLiveToolToken('whsec_test') },
+    });
+  });
+
   it('should return user-friendly error for 422 status', async () => {
     (global.fetch as ReturnType<typeof vi.fn>) = vi.fn().mockResolvedValue({
       ok: false,
@@ -7,26 +7,28 @@
  * - humanOversight: Chat confirmation before execution
  * @see docs/AI_COMPLIANCE_INVENTORY.md
  *
- * Triggers an outbound phone call via ElevenLabs Twilio integration.
- * The tool dynamically overrides the agent's system prompt and first message
- * using `conversation_initiation_client_data` to create scenario-specific
- * vishing simulations on-the-fly.
+ * Triggers an outbound phone call via the configured voice provider
+ * (services/voice-simulation, default ElevenLabs + Twilio). The provider overrides
+ * the voice agent's system prompt and first message per call to create
+ * scenario-specific vishing simulations on-the-fly, and registers the live monitor
+ * tool (when configured) so the agent reveals the simulation as soon as a real secret
+ * is spoken.
  *
  * UI Integration:
  * - Sends `::ui:vishing_call_started::{payload}::/ui:vishing_call_started::` signal
  *   for the frontend to show a "call in progress" UI.
- *
- * API: POST https://api.elevenlabs.io/v1/convai/twilio/outbound-call
  */
 
 import { createTool, ToolExecutionContext } from '@mastra/core/tools';
 import { z } from 'zod';
-import { ELEVENLABS } from '../../constants';
-
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError } from '../../utils/core/error-utils';
-import { withRetry } from '../../utils/core/resilience-utils';
 import { withHeartbeat } from '../../utils/core/sse-heartbeat';
+import {
+  getVoiceSimulationProvider,
+  resolveLiveMonitorConfig,
+  VoiceProviderError,
+} from '../../services/voice-simulation';
 
 const logger = getLogger('InitiateVishingCallTool');
 
@@ -108,8 +110,8 @@ async function emitCallStartedSignal(
 // Architecture:
 // 1. Backend sends ::ui:vishing_call_started:: with { conversationId, callSid }
 //    while the stream is still open (works reliably).
-// 2. Frontend uses the conversationId to poll ElevenLabs for call status:
-//    GET https://api.elevenlabs.io/v1/convai/conversations/{conversationId}
+// 2. Frontend uses the conversationId to poll the provider for call status
+//    (ElevenLabs: GET /v1/convai/conversations/{conversationId}).
 //    Status values: "initiated" → "in-progress" → "done" | "failed"
 // 3. Frontend stops "Calling..." spinner when status != "initiated"
 // ============================================
@@ -121,28 +123,27 @@ async function emitCallStartedSignal(
 export const initiateVishingCallTool = createTool({
   id: 'initiate-vishing-call',
   description:
-    'Initiate an outbound vishing (voice phishing) simulation call via ElevenLabs. Calls the specified phone number using a dynamically configured AI voice agent with custom prompt and opening message. Streams call status and transcript to the frontend.',
+    'Initiate an outbound vishing (voice phishing) simulation call. Calls the specified phone number using a dynamically configured AI voice agent with custom prompt and opening message. Streams call status and transcript to the frontend.',
   inputSchema: initiateVishingCallInputSchema,
   outputSchema: initiateVishingCallOutputSchema,
   execute: async (inputData, ctx?: ToolExecutionContext) => {
     const startTime = Date.now();
     const writer = ctx?.writer;
 
+    let timeoutMs = 0;
+
     try {
-      const apiKey = process.env.ELEVENLABS_API_KEY;
-      if (!apiKey) {
-        logger.error('elevenlabs_api_key_missing');
-        return {
-          success: false,
-          error: 'ElevenLabs API key is not configured. Please set ELEVENLABS_API_KEY environment variable.',
-        };
+      const provider = getVoiceSimulationProvider();
+      timeoutMs = provider.timeoutMs;
+
+      const configError = provider.getConfigurationError();
+      if (configError) {
+        logger.error('voice_provider_not_configured', { provider: provider.name });
+        return { success: false, error: configError };
       }
 
       const { agentPhoneNumberId, toNumber, prompt, firstMessage } = inputData;
 
-      // Always use environment/default agent ID — not exposed to LLM
-      const effectiveAgentId = ELEVENLABS.DEFAULT_AGENT_ID;
-
       // Validate phone number format (basic E.164 check)
       const e164Regex = /^\+[1-9]\d{1,14}$/;
       if (!e164Regex.test(toNumber)) {
@@ -153,81 +154,24 @@ export const initiateVishingCallTool = createTool({
         };
       }
 
-      const url = `${ELEVENLABS.API_BASE_URL}${ELEVENLABS.ENDPOINTS.OUTBOUND_CALL}`;
-
-      const requestBody = {
-        agent_id: effectiveAgentId,
-        agent_phone_number_id: agentPhoneNumberId,
-        to_number: toNumber,
-        conversation_initiation_client_data: {
-          conversation_config_override: {
-            agent: {
-              prompt: {
-                prompt: prompt,
-              },
-              first_message: firstMessage,
-            },
-          },
-        },
-      };
-
       logger.info('initiate_vishing_call_request', {
-        agentId: effectiveAgentId,
+        provider: provider.name,
         agentPhoneNumberId,
         toNumber: toNumber.substring(0, 6) + '***',
         promptLength: prompt.length,
         firstMessageLength: firstMessage.length,
       });
 
-      const response = await withHeartbeat(writer, () =>
-        withRetry(async () => {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), ELEVENLABS.API_TIMEOUT_MS);
-
-          try {
-            const res = await fetch(url, {
-              method: 'POST',
-              headers: {
-                'Content-Type': 'application/json',
-                'xi-api-key': apiKey,
-              },
-              body: JSON.stringify(requestBody),
-              signal: controller.signal,
-            });
-
-            return res;
-          } finally {
-            clearTimeout(timeoutId);
-          }
-        }, 'initiate_vishing_call_request'),
-      );
-
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => 'Unable to read error body');
-        logger.error('initiate_vishing_call_api_error', {
-          status: response.status,
-          statusText: response.statusText,
-          body: errorBody.substring(0, 500),
-        });
-
-        // Provide user-friendly error messages for common cases
-        if (response.status === 422) {
-          logger.error('initiate_vishing_call_422_detail', { body: errorBody.substring(0, 500) });
-          return {
-            success: false,
-            error: 'Call setup failed: The phone number or agent configuration may be invalid. Please check the number format and try again.',
-          };
-        }
-
-        return {
-          success: false,
-          error: `ElevenLabs API returned ${response.status}: ${response.statusText}`,
-        };
+      // Without the live monitor the agent cannot be told to reveal early after a disclosure
+      const liveMonitor = (await resolveLiveMonitorConfig()) ?? undefined;
+      if (!liveMonitor) {
+        logger.warn('vishing_live_monitor_not_configured', { provider: provider.name });
       }
 
-      const data = await response.json();
-      const conversationId = data.conversation_id ?? '';
-      const callSid = data.callSid ?? '';
+      // Agent ID comes from provider configuration — not exposed to the LLM
+      const { conversationId, callSid } = await withHeartbeat(writer, () =>
+        provider.startOutboundCall({ agentPhoneNumberId, toNumber, prompt, firstMessage, liveMonitor })
+      );
 
       logger.info('initiate_vishing_call_success', {
         conversationId,
@@ -244,7 +188,7 @@ export const initiateVishingCallTool = createTool({
 
       // NOTE: Call status tracking is handled by the frontend.
       // The frontend uses conversationId from the ::ui:vishing_call_started:: signal
-      // to poll ElevenLabs API for call status (initiated → done/failed).
+      // to poll the provider for call status (initiated → done/failed).
       // See architecture note at top of file.
 
       return {
@@ -254,15 +198,31 @@ export const initiateVishingCallTool = createTool({
         callSid: callSid || undefined,
       };
     } catch (error) {
+      if (error instanceof VoiceProviderError && error.status) {
+        logger.error('initiate_vishing_call_api_error', {
+          status: error.status,
+          statusText: error.statusText,
+          body: error.body,
+        });
+
+        // Provide user-friendly error messages for common cases
+        if (error.status === 422) {
+          return {
+            success: false,
+            error: 'Call setup failed: The phone number or agent configuration may be invalid. Please check the number format and try again.',
+          };
+        }
+
+        return { success: false, error: error.message };
+      }
+
       const err = normalizeError(error);
 
       if (err.name === 'AbortError') {
-        logger.error('initiate_vishing_call_timeout', {
-          timeoutMs: ELEVENLABS.API_TIMEOUT_MS,
-        });
+        logger.error('initiate_vishing_call_timeout', { timeoutMs });
         return {
           success: false,
-          error: `Request timed out after ${ELEVENLABS.API_TIMEOUT_MS}ms. The ElevenLabs API may be experiencing high load.`,
+          error: `Request timed out after ${timeoutMs}ms. The voice provider API may be experiencing high load.`,
         };
       }
 
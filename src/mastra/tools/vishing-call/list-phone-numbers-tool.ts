@@ -1,20 +1,18 @@
 /**
  * List Phone Numbers Tool
  *
- * Retrieves available outbound phone numbers from ElevenLabs Conversational AI.
- * These numbers are pre-configured in ElevenLabs via Twilio integration and
- * can be used as caller IDs for outbound vishing calls.
- *
- * API: GET https://api.elevenlabs.io/v1/convai/phone-numbers
+ * Retrieves available outbound phone numbers from the configured voice provider
+ * (services/voice-simulation, default ElevenLabs). These numbers are pre-configured
+ * on the provider side (e.g. ElevenLabs via Twilio) and can be used as caller IDs
+ * for outbound vishing calls.
  */
 
 import { createTool } from '@mastra/core/tools';
 import { z } from 'zod';
-import { ELEVENLABS } from '../../constants';
 import { getLogger } from '../../utils/core/logger';
 import { normalizeError, createToolErrorResponse, logErrorInfo } from '../../utils/core/error-utils';
 import { errorService } from '../../services/error-service';
-import { withRetry } from '../../utils/core/resilience-utils';
+import { getVoiceSimulationProvider, VoiceProviderError } from '../../services/voice-simulation';
 
 const logger = getLogger('ListPhoneNumbersTool');
 
@@ -47,63 +45,28 @@ const listPhoneNumbersOutputSchema = z.object({
 export const listPhoneNumbersTool = createTool({
   id: 'list-phone-numbers',
   description:
-    'List available outbound phone numbers from ElevenLabs. Returns phone numbers that can be used as caller ID for vishing (voice phishing) simulation calls.',
+    'List available outbound phone numbers from the voice provider. Returns phone numbers that can be used as caller ID for vishing (voice phishing) simulation calls.',
   inputSchema: listPhoneNumbersInputSchema,
   outputSchema: listPhoneNumbersOutputSchema,
   execute: async (_inputData) => {
     const startTime = Date.now();
 
+    let timeoutMs = 0;
+
     try {
-      const apiKey = process.env.ELEVENLABS_API_KEY;
-      if (!apiKey) {
-        const errorInfo = errorService.auth('ElevenLabs API key is not configured. Please set ELEVENLABS_API_KEY environment variable.');
-        logErrorInfo(logger, 'error', 'elevenlabs_api_key_missing', errorInfo);
-        return createToolErrorResponse(errorInfo);
-      }
+      const provider = getVoiceSimulationProvider();
+      timeoutMs = provider.timeoutMs;
 
-      const url = `${ELEVENLABS.API_BASE_URL}${ELEVENLABS.ENDPOINTS.LIST_PHONE_NUMBERS}`;
-
-      logger.info('list_phone_numbers_request', { url });
-
-      const response = await withRetry(
-        async () => {
-          const controller = new AbortController();
-          const timeoutId = setTimeout(() => controller.abort(), ELEVENLABS.API_TIMEOUT_MS);
-          try {
-            const res = await fetch(url, {
-              method: 'GET',
-              headers: {
-                'Content-Type': 'application/json',
-                'xi-api-key': apiKey,
-              },
-              signal: controller.signal,
-            });
-            if (!res.ok && res.status >= 500) {
-              const text = await res.text().catch(() => '');
-              throw new Error(`ElevenLabs API error ${res.status}: ${text.substring(0, 200)}`);
-            }
-            return res;
-          } finally {
-            clearTimeout(timeoutId);
-          }
-        },
-        'list-phone-numbers'
-      );
-
-      if (!response.ok) {
-        const errorBody = await response.text().catch(() => 'Unable to read error body');
-        const errorInfo = errorService.external(`ElevenLabs API returned ${response.status}: ${response.statusText}`, {
-          status: response.status,
-          body: errorBody.substring(0, 500),
-        });
-        logErrorInfo(logger, 'error', 'list_phone_numbers_api_error', errorInfo);
+      const configError = provider.getConfigurationError();
+      if (configError) {
+        const errorInfo = errorService.auth(configError);
+        logErrorInfo(logger, 'error', 'voice_provider_not_configured', errorInfo);
         return createToolErrorResponse(errorInfo);
       }
 
-      const data = await response.json();
+      logger.info('list_phone_numbers_request', { provider: provider.name });
 
-      // ElevenLabs returns an array directly
-      const phoneNumbers = Array.isArray(data) ? data : (data?.phone_numbers ?? []);
+      const phoneNumbers = await provider.listPhoneNumbers();
 
       logger.info('list_phone_numbers_success', {
         count: phoneNumbers.length,
@@ -112,21 +75,28 @@ export const listPhoneNumbersTool = createTool({
 
       return {
         success: true,
-        phoneNumbers: phoneNumbers.map((pn: Record<string, unknown>) => ({
-          phone_number: String(pn.phone_number ?? ''),
-          phone_number_id: String(pn.phone_number_id ?? ''),
-          label: String(pn.label ?? 'Unlabeled'),
-          provider: pn.provider === 'sip_trunk' ? ('sip_trunk' as const) : ('twilio' as const),
+        phoneNumbers: phoneNumbers.map(pn => ({
+          phone_number: pn.phoneNumber,
+          phone_number_id: pn.phoneNumberId,
+          label: pn.label,
+          provider: pn.provider,
         })),
         count: phoneNumbers.length,
       };
     } catch (error) {
+      if (error instanceof VoiceProviderError && error.status) {
+        const errorInfo = errorService.external(error.message, {
+          status: error.status,
+          body: error.body,
+        });
+        logErrorInfo(logger, 'error', 'list_phone_numbers_api_error', errorInfo);
+        return createToolErrorResponse(errorInfo);
+      }
+
       const err = normalizeError(error);
 
       if (err.name === 'AbortError') {
-        const errorInfo = errorService.timeout(`Request timed out after ${ELEVENLABS.API_TIMEOUT_MS}ms`, {
-          timeoutMs: ELEVENLABS.API_TIMEOUT_MS,
-        });
+        const errorInfo = errorService.timeout(`Request timed out after ${timeoutMs}ms`, { timeoutMs });
         logErrorInfo(logger, 'error', 'list_phone_numbers_timeout', errorInfo);
         return createToolErrorResponse(errorInfo);
       }
@@ -2,12 +2,21 @@
  * Integration test: Vishing flow (getUserInfo → listPhoneNumbers → initiateVishingCall)
  *
  * Verifies the tools work together when resolving a user by email and initiating a call.
- * Mocks external APIs (platform user search, ElevenLabs).
+ * Mocks external APIs (platform user search, ElevenLabs, the summary LLM call); the last case uses the mock voice provider.
  */
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
 import { requestStorage } from '../../utils/core/request-storage';
 import { getUserInfoTool } from '../user-management/get-user-info-tool';
-import { listPhoneNumbersTool, initiateVishingCallTool } from './index';
+import { listPhoneNumbersTool, initiateVishingCallTool, getVishingCallTranscriptTool } from './index';
+import { resetMockVoiceProvider } from '../../services/voice-simulation';
+
+vi.mock('./vishing-conversations-summary-tool', () => ({
+  generateVishingConversationsSummary: vi.fn(async () => ({
+    summary: { timeline: [], disclosedInfo: [], outcome: 'refused' },
+    nextSteps: [],
+    statusCard: { variant: 'success', title: 'No Data Disclosed', description: '' },
+  })),
+}));
 
 const mockBaseApiUrl = 'https://api.test';
 
@@ -137,4 +146,39 @@ describe('Vishing Flow Integration', () => {
     expect(callResult.success).toBe(false);
     expect(callResult.error).toBeDefined();
   });
+
+  it('should run list → call → transcript against the mock voice provider without external calls', async () => {
+    process.env.VOICE_PROVIDER = 'mock';
+    delete process.env.ELEVENLABS_API_KEY;
+    resetMockVoiceProvider();
+    global.fetch = vi.fn();
+
+    try {
+      const listResult = await listPhoneNumbersTool.execute!({} as any, {}) as any;
+      expect(listResult.success).toBe(true);
+      const agentPhoneNumberId = listResult.phoneNumbers?.[0]?.phone_number_id;
+
+      const callResult = await initiateVishingCallTool.execute!({
+        agentPhoneNumberId,
+        toNumber: '+905551234567',
+        prompt: 'You are IT support.',
+        firstMessage: 'Hi, this is IT support calling about your account.',
+      } as any, {}) as any;
+      expect(callResult).toMatchObject({ success: true, conversationId: 'mock-conv-1' });
+
+      const transcript = await getVishingCallTranscriptTool.execute!(
+        { conversationId: callResult.conversationId },
+        {}
+      ) as any;
+      expect(transcript).toMatchObject({ success: true, status: 'done', summary: { outcome: 'refused' } });
+      expect(transcript.messages[0]).toEqual({
+        role: 'agent',
+        text: 'Hi, this is IT support calling about your account.',
+        timestamp: 0,
+      });
+      expect(global.fetch).not.toHaveBeenCalled();
+    } finally {
+      delete process.env.VOICE_PROVIDER;
+    }
+  });
 });
@@ -147,6 +147,11 @@ export interface SmishingChatRequestBody {
   messages?: SmishingChatMessage[];
   modelProvider?: string;
   model?: string;
+  /** Set to record the conversation outcome (GET /smishing/outcomes); see POST /smishing/chat/sessions */
+  sessionToken?: string;
+  /** Set by the channel transports only; /smishing/chat takes both from the session token */
+  sessionId?: string;
+  userId?: string;
 }
 
 export interface SmishingChatInitResponse {
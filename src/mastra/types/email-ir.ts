@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+/** Extra domains to protect from lookalikes (company domains, partner brands) */
+export const protectedDomainsSchema = z.array(z.string().trim().min(1).max(253)).max(50);
+
 export const EmailIREmailDataSchema = z
   .object({
     // Top-level result from API (e.g., "Simulation", "Malicious", "Clean")
@@ -7,6 +10,7 @@ export const EmailIREmailDataSchema = z
 
     // Core Identifiers
     htmlBody: z.string().optional(),
+    textBody: z.string().optional(), // Plain-text part (raw .eml/.msg uploads)
     from: z.string(),
     subject: z.string(),
     folderName: z.string().optional(),
@@ -68,6 +72,9 @@ export const EmailIREmailDataSchema = z
 
     analysisDate: z.string().optional(),
     receivedDate: z.string().optional(),
+
+    // Lookalike detection targets supplied with the analysis request
+    protectedDomains: protectedDomainsSchema.optional(),
   })
   .passthrough(); // Allow extra fields
 
@@ -20,6 +20,7 @@ import { Agent } from '@mastra/core/agent';
 import { ChatRequestBody } from '../types/api-types';
 import { resolveLogLevel, STRUCTURED_LOG_FORMATTERS } from './core/logger';
 import { resolveOpenAIEndUserId } from './core/tracked-generate';
+import { assertLlmBudget } from '../services/llm-cost-service';
 
 const logger = new PinoLogger({
   name: 'ChatOrchestration',
@@ -122,6 +123,7 @@ export const routeToAgent = async (mastra: Mastra, orchestratorInput: string) =>
  * @param threadId - Thread ID for session memory
  * @param agentName - Agent name for logging
  * @returns Raw Mastra stream (route uses toAISdkStream + createUIMessageStreamResponse)
+ * @throws LlmBudgetExceededError if the company is over its hard LLM budget
  * @throws Error if stream creation fails
  */
 export const createAgentStream = async (
@@ -130,6 +132,8 @@ export const createAgentStream = async (
   threadId: string,
   agentName: string
 ) => {
+  await assertLlmBudget(`${agentName}-stream`);
+
   const endUserId = resolveOpenAIEndUserId();
   const stream = await agent.stream(finalPrompt, {
     memory: {
@@ -147,6 +147,19 @@ describe('cost-tracker', () => {
       expect(cost.total).toBe(0.75);
     });
 
+    it('should return the breakdown with the normalized model for ledger persistence', () => {
+      const usage = { promptTokens: 1000000, completionTokens: 1000000, cachedTokens: 0 };
+      const breakdown = trackCost('test', 'gpt-4o-mini-2024-07-18', usage);
+
+      expect(breakdown).toEqual({
+        model: 'gpt-4o-mini',
+        inputTokens: 1000000,
+        outputTokens: 1000000,
+        cachedTokens: 0,
+        costUsd: 0.75,
+      });
+    });
+
     it('should calculate correct cost for Cloudflare Workers AI', () => {
       const usage = { promptTokens: 1000000, completionTokens: 1000000 };
       trackCost('test', '@cf/openai/gpt-oss-120b', usage);
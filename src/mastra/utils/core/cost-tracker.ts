@@ -45,6 +45,15 @@ interface Usage {
   cachedTokens?: number; // Optional: OpenAI prompt caching support
 }
 
+/** Computed cost of a single LLM call — persisted to the D1 ledger by tracked-generate */
+export interface LlmCostBreakdown {
+  model: string; // Normalized model ID (pricing key)
+  inputTokens: number;
+  outputTokens: number;
+  cachedTokens: number;
+  costUsd: number;
+}
+
 /**
  * Normalize model ID to match PRICING keys
  * Handles versioned model names (e.g., "gpt-4o-2024-10-01" -> "gpt-4o")
@@ -70,7 +79,7 @@ function normalizeModelId(modelId: string): string {
 }
 
 /**
- * Calculate and log LLM cost
+ * Calculate and log LLM cost. Returns the computed breakdown so callers can persist it.
  *
  * Usage:
  * ```typescript
@@ -80,7 +89,7 @@ function normalizeModelId(modelId: string): string {
  * }
  * ```
  */
-export function trackCost(operation: string, model: string, usage: Usage): void {
+export function trackCost(operation: string, model: string, usage: Usage): LlmCostBreakdown {
   // Normalize model ID (handle versioned model names like "gpt-4o-2024-10-01" -> "gpt-4o")
   const normalizedModel = normalizeModelId(model);
 
@@ -127,4 +136,12 @@ export function trackCost(operation: string, model: string, usage: Usage): void
     },
     timestamp: new Date().toISOString(),
   });
+
+  return {
+    model: normalizedModel,
+    inputTokens: promptTokens,
+    outputTokens: completionTokens,
+    cachedTokens,
+    costUsd: totalCost,
+  };
 }
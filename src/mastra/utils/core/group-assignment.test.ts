@@ -47,6 +47,15 @@ describe('fanOutGroupAssignment', () => {
     expect(result).toEqual({ totalUsers: 0, succeeded: 0, failed: 0, failedUsers: [] });
   });
 
+  it('uses the caller-provided member source instead of the platform API', async () => {
+    const fetchMembers = vi.fn().mockResolvedValue([makeMember('u-1'), makeMember('u-2')]);
+    const result = await fanOutGroupAssignment(makeOpts({ fetchMembers }));
+
+    expect(fetchMembers).toHaveBeenCalledWith('grp-1');
+    expect(mockFetchGroupMembers).not.toHaveBeenCalled();
+    expect(result.succeeded).toBe(2);
+  });
+
   it('processes a single user successfully', async () => {
     mockFetchGroupMembers.mockResolvedValue([makeMember('u-1')]);
     const callApi = vi.fn().mockResolvedValue({});
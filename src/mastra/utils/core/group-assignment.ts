@@ -11,7 +11,7 @@
 
 import { z } from 'zod';
 import { getLogger } from './logger';
-import { fetchGroupMembers } from './group-members';
+import { fetchGroupMembers, type GroupMember } from './group-members';
 import { resolveBaseApiUrl } from './url-validator';
 import { MAX_GROUP_ASSIGN_USERS } from '../../constants';
 import type { AgenticActivitiesPayload, WorkerSendResponse } from './worker-api-client';
@@ -50,20 +50,23 @@ export interface FanOutGroupAssignmentOptions {
   concurrency?: number;
   /** Max users allowed. Defaults to MAX_GROUP_ASSIGN_USERS from constants.ts. */
   maxUsers?: number;
+  /** Active members of the group. Defaults to the platform API via fetchGroupMembers(). */
+  fetchMembers?: (groupResourceId: string) => Promise<GroupMember[]>;
 }
 
 /**
  * Fan-out a group assignment to individual per-user API calls.
  *
- * 1. Fetches all active members via fetchGroupMembers()
+ * 1. Fetches all active members via fetchMembers (default: fetchGroupMembers())
  * 2. Processes in chunks of `concurrency` using Promise.allSettled
  * 3. Returns aggregated result with partial failure details
  */
 export async function fanOutGroupAssignment(opts: FanOutGroupAssignmentOptions): Promise<FanOutResult> {
   const { token, groupResourceId, buildPayload, callApi, concurrency = DEFAULT_CONCURRENCY, maxUsers = MAX_GROUP_ASSIGN_USERS } = opts;
-  const resolvedApiUrl = resolveBaseApiUrl(opts.baseApiUrl);
 
-  const members = await fetchGroupMembers(token, groupResourceId, resolvedApiUrl);
+  const members = opts.fetchMembers
+    ? await opts.fetchMembers(groupResourceId)
+    : await fetchGroupMembers(token, groupResourceId, resolveBaseApiUrl(opts.baseApiUrl));
 
   if (members.length === 0) {
     logger.warn('fan_out_empty_group', { groupResourceId });
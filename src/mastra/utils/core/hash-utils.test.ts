@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { hmacSha256Hex, md5Hex, sha256Hex, sha512Hex, timingSafeEqual, uuidV5 } from './hash-utils';
+
+const encode = (text: string) => new TextEncoder().encode(text);
+
+describe('hash-utils', () => {
+  describe('md5Hex', () => {
+    it('matches RFC 1321 test vectors', () => {
+      expect(md5Hex(encode(''))).toBe('d41d8cd98f00b204e9800998ecf8427e');
+      expect(md5Hex(encode('abc'))).toBe('900150983cd24fb0d6963f7d28e17f72');
+      expect(md5Hex(encode('message digest'))).toBe('f96b697d7cb7938d525a2f31aaf161d0');
+      expect(md5Hex(encode('12345678901234567890123456789012345678901234567890123456789012345678901234567890'))).toBe(
+        '57edf4a22be3c955ac49da2e2107b67a'
+      );
+    });
+
+    it('handles inputs that straddle the 56-byte padding boundary', () => {
+      expect(md5Hex(encode('a'.repeat(55)))).toBe('ef1772b6dff9a122358552954ad0df65');
+      expect(md5Hex(encode('a'.repeat(56)))).toBe('3b0c8ac703f828b04c6c197006d17218');
+      expect(md5Hex(encode('a'.repeat(64)))).toBe('014842d480b571495a4a0363793f7367');
+    });
+
+    it('hashes binary content byte-for-byte', () => {
+      expect(md5Hex(new Uint8Array([0x00, 0xff, 0x80]))).toHaveLength(32);
+      expect(md5Hex(new Uint8Array([0x00, 0xff, 0x80]))).not.toBe(md5Hex(new Uint8Array([0x00, 0xff, 0x81])));
+    });
+  });
+
+  describe('sha256Hex', () => {
+    it('matches the FIPS 180-2 "abc" vector', async () => {
+      expect(await sha256Hex(encode('abc'))).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    });
+  });
+
+  describe('sha512Hex', () => {
+    it('matches the FIPS 180-2 "abc" vector', async () => {
+      expect(await sha512Hex(encode('abc'))).toBe(
+        'ddaf35a193617abacc417349ae20413112e6fa4e89a97ea20a9eeee64b55d39a2192992a274fc1a836ba3c23a3feebbd454d4423643ce80e2a9ac94fa54ca49f'
+      );
+    });
+  });
+
+  describe('hmacSha256Hex', () => {
+    it('matches the RFC 4231 test case 2 vector', async () => {
+      expect(await hmacSha256Hex('Jefe', 'what do ya want for nothing?')).toBe(
+        '5bdcc146bf60754e6a042426089575c75a003f089d2739839dec58b964ec3843'
+      );
+    });
+  });
+
+  describe('timingSafeEqual', () => {
+    it('compares strings without short-circuiting on length-equal input', () => {
+      expect(timingSafeEqual('abc123', 'abc123')).toBe(true);
+      expect(timingSafeEqual('abc123', 'abc124')).toBe(false);
+      expect(timingSafeEqual('abc', 'abc123')).toBe(false);
+    });
+  });
+
+  describe('uuidV5', () => {
+    it('matches the RFC 4122 DNS-namespace vector', async () => {
+      expect(await uuidV5('python.org', '6ba7b810-9dad-11d1-80b4-00c04fd430c8')).toBe(
+        '886313e1-3b8a-5372-9b90-0c9aee199e5d'
+      );
+    });
+  });
+});
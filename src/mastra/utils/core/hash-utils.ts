@@ -0,0 +1,141 @@
+/**
+ * Content hashing helpers for file/attachment fingerprints.
+ *
+ * SHA digests use the Web Crypto API (Cloudflare Workers + Node 18+).
+ * Web Crypto has no MD5, so a small RFC 1321 implementation is included —
+ * threat-intel feeds and sandbox reports still key attachments by MD5.
+ */
+
+function toHex(bytes: Uint8Array): string {
+  return Array.from(bytes)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+/** SHA-256 hex digest of raw bytes. */
+export async function sha256Hex(data: Uint8Array): Promise<string> {
+  const buffer = await crypto.subtle.digest('SHA-256', data as Uint8Array<ArrayBuffer>);
+  return toHex(new Uint8Array(buffer));
+}
+
+/** SHA-512 hex digest of raw bytes. */
+export async function sha512Hex(data: Uint8Array): Promise<string> {
+  const buffer = await crypto.subtle.digest('SHA-512', data as Uint8Array<ArrayBuffer>);
+  return toHex(new Uint8Array(buffer));
+}
+
+/** HMAC-SHA256 hex digest (webhook signatures). */
+export async function hmacSha256Hex(secret: string, message: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, [
+    'sign',
+  ]);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(message));
+  return toHex(new Uint8Array(signature));
+}
+
+/** Constant-time string comparison (for signatures/tokens of equal expected length). */
+export function timingSafeEqual(a: string, b: string): boolean {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) {
+    diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * Name-based UUID v5 (RFC 4122 §4.3, SHA-1).
+ * STIX 2.1 derives Cyber Observable ids this way so the same observable always gets the same id.
+ */
+export async function uuidV5(name: string, namespace: string): Promise<string> {
+  const namespaceHex = namespace.replace(/-/g, '');
+  const namespaceBytes = new Uint8Array(16);
+  for (let i = 0; i < 16; i++) {
+    namespaceBytes[i] = parseInt(namespaceHex.slice(i * 2, i * 2 + 2), 16);
+  }
+  const nameBytes = new TextEncoder().encode(name);
+  const input = new Uint8Array(namespaceBytes.length + nameBytes.length);
+  input.set(namespaceBytes);
+  input.set(nameBytes, namespaceBytes.length);
+
+  const bytes = new Uint8Array(await crypto.subtle.digest('SHA-1', input)).slice(0, 16);
+  bytes[6] = (bytes[6] & 0x0f) | 0x50;
+  bytes[8] = (bytes[8] & 0x3f) | 0x80;
+  const hex = toHex(bytes);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-${hex.slice(12, 16)}-${hex.slice(16, 20)}-${hex.slice(20)}`;
+}
+
+// Per-round shift amounts and sine-derived constants (RFC 1321 §3.4)
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14, 20, 4,
+  11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+];
+const MD5_K = Array.from({ length: 64 }, (_, i) => Math.floor(Math.abs(Math.sin(i + 1)) * 0x100000000) >>> 0);
+
+/** MD5 hex digest of raw bytes (synchronous, pure JS). */
+export function md5Hex(data: Uint8Array): string {
+  const bitLength = data.length * 8;
+  const paddedLength = (((data.length + 8) >>> 6) + 1) << 6;
+  const buffer = new Uint8Array(paddedLength);
+  buffer.set(data);
+  buffer[data.length] = 0x80;
+
+  const view = new DataView(buffer.buffer);
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true);
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true);
+
+  let a0 = 0x67452301;
+  let b0 = 0xefcdab89;
+  let c0 = 0x98badcfe;
+  let d0 = 0x10325476;
+
+  const words = new Uint32Array(16);
+  for (let offset = 0; offset < paddedLength; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(offset + i * 4, true);
+    }
+
+    let a = a0;
+    let b = b0;
+    let c = c0;
+    let d = d0;
+
+    for (let i = 0; i < 64; i++) {
+      let f: number;
+      let g: number;
+      if (i < 16) {
+        f = (b & c) | (~b & d);
+        g = i;
+      } else if (i < 32) {
+        f = (d & b) | (~d & c);
+        g = (5 * i + 1) % 16;
+      } else if (i < 48) {
+        f = b ^ c ^ d;
+        g = (3 * i + 5) % 16;
+      } else {
+        f = c ^ (b | ~d);
+        g = (7 * i) % 16;
+      }
+
+      const temp = d;
+      d = c;
+      c = b;
+      const sum = (a + f + MD5_K[i] + words[g]) >>> 0;
+      b = (b + ((sum << MD5_SHIFTS[i]) | (sum >>> (32 - MD5_SHIFTS[i])))) >>> 0;
+      a = temp;
+    }
+
+    a0 = (a0 + a) >>> 0;
+    b0 = (b0 + b) >>> 0;
+    c0 = (c0 + c) >>> 0;
+    d0 = (d0 + d) >>> 0;
+  }
+
+  const out = new DataView(new ArrayBuffer(16));
+  out.setUint32(0, a0, true);
+  out.setUint32(4, b0, true);
+  out.setUint32(8, c0, true);
+  out.setUint32(12, d0, true);
+  return toHex(new Uint8Array(out.buffer));
+}
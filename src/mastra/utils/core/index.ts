@@ -29,7 +29,8 @@ export { streamReasoning, streamReasoningUpdates, streamDirectReasoning } from '
 
 // Policy utilities
 export { getPolicySummary, clearPolicyCache, getPolicyCacheStats } from './policy-cache';
-export { getPolicyContext } from './policy-fetcher';
+export { getPolicyContext, fetchPolicyDocuments } from './policy-fetcher';
+export type { PolicyDocument, PolicyFetchResult } from './policy-fetcher';
 
 // Cost tracking
 export { trackCost } from './cost-tracker';
@@ -1219,6 +1219,23 @@ describe('policy-cache', () => {
       expect(() => clearPolicyCache()).not.toThrow();
     });
 
+    it('should clear only the given company when a companyId is passed', async () => {
+      vi.mocked(getPolicyContext).mockResolvedValue('Policy');
+      vi.mocked(trackedGenerateText).mockResolvedValue({ text: 'Summary' } as any);
+      vi.mocked(getModelWithOverride).mockReturnValue({} as any);
+
+      for (const companyId of ['company-1', 'company-2']) {
+        vi.mocked(getRequestContext).mockReturnValue({ companyId, token: undefined });
+        await getPolicySummary();
+      }
+
+      clearPolicyCache('company-1');
+
+      expect(getPolicyCacheStats().cached).toBe(true);
+      vi.mocked(getRequestContext).mockReturnValue({ companyId: 'company-1', token: undefined });
+      expect(getPolicyCacheStats().cached).toBe(false);
+    });
+
     it('should clear only specific company cache', async () => {
       const policy = 'Policy';
 
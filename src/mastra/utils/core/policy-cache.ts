@@ -178,9 +178,15 @@ CRITICAL:
 }
 
 /**
- * Clear policy cache (useful for testing or manual refresh)
+ * Clear policy cache (useful for testing or manual refresh).
+ * With a companyId, only that company's summary is dropped (e.g. after its policies changed).
  */
-export function clearPolicyCache(): void {
+export function clearPolicyCache(companyId?: string): void {
+  if (companyId) {
+    policyCache.delete(`company-policy-summary:${companyId}`);
+    logger.info('Policy cache cleared', { companyId });
+    return;
+  }
   policyCache.clear();
   logger.info('Policy cache cleared');
 }
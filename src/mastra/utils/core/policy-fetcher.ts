@@ -42,6 +42,115 @@ function extractCompanyIdFromToken(token: string): string | undefined {
   }
 }
 
+/** One readable company policy file */
+export interface PolicyDocument {
+  /** Stable file key (blobUrl) */
+  key: string;
+  name: string;
+  text: string;
+}
+
+export interface PolicyFetchResult {
+  documents: PolicyDocument[];
+  /** Keys of listed policies that could not be read this time */
+  failedKeys: string[];
+}
+
+/**
+ * Fetch every policy file of a company.
+ * Returns null when the policy list cannot be fetched (as opposed to "no policies"),
+ * so callers can keep what they already have.
+ */
+export async function fetchPolicyDocuments(companyId: string): Promise<PolicyFetchResult | null> {
+  logger.info('Fetching company policies', { companyId });
+
+  // 1. List all policies
+  const apiBaseUrl = API_ENDPOINTS.AGENTIC_AI_CHAT_URL;
+  const listResponse = await withRetry(
+    () =>
+      fetch(`${apiBaseUrl}/api/files`, {
+        headers: {
+          'X-COMPANY-ID': companyId,
+        },
+      }),
+    'policy-list-fetch',
+    { maxAttempts: 1 }
+  );
+
+  if (!listResponse.ok) {
+    // 404 is expected if no policies exist yet
+    if (listResponse.status === 404) {
+      logger.info('No policies found for company (404)', { companyId });
+      return { documents: [], failedKeys: [] };
+    }
+    logger.warn('Failed to list policies', { status: listResponse.status });
+    return null;
+  }
+
+  const policies = (await listResponse.json()) as PolicyFile[];
+
+  if (!Array.isArray(policies) || policies.length === 0) {
+    logger.info('No policies found for company', { companyId });
+    return { documents: [], failedKeys: [] };
+  }
+
+  // IMPORTANT: Do not log full policy objects or content (sensitive).
+  logger.info('Found policies', {
+    companyId,
+    count: policies.length,
+    policyNames: policies.map(p => p?.name).filter(Boolean),
+  });
+  // 2. Read each policy content in parallel
+  const policyContents = await Promise.all(
+    policies.map(async (policy): Promise<PolicyDocument | null> => {
+      try {
+        // Remove "policies/{companyId}/" prefix from blobUrl
+        const cleanBlobUrl = policy.blobUrl.replace(/^policies\/[^\/]+\//, '');
+        const policyUrl = `/api/policies/policies/${encodeURIComponent(cleanBlobUrl)}`;
+        const fullUrl = policyUrl.startsWith('http') ? policyUrl : `${apiBaseUrl}${policyUrl}`;
+        const response = await withRetry(
+          () =>
+            fetch(fullUrl, {
+              headers: {
+                'X-COMPANY-ID': companyId,
+              },
+            }),
+          'policy-read-fetch',
+          { maxAttempts: 1 }
+        );
+
+        if (!response.ok) {
+          logger.info('Failed to read policy (skipping)', { policyName: policy.name, status: response.status });
+          return null;
+        }
+
+        const policyData = (await response.json()) as PolicyContent;
+        logger.info('Policy data received', {
+          policyName: policy.name,
+          policyId: policyData.policyId,
+          textLength: policyData.text?.length || 0,
+        });
+
+        return { key: policy.blobUrl, name: policy.name, text: policyData.text ?? '' };
+      } catch (error) {
+        const err = normalizeError(error);
+        const errorInfo = errorService.external(err.message, {
+          step: 'read-policy',
+          policyName: policy.name,
+          stack: err.stack,
+        });
+        logErrorInfo(logger, 'warn', 'Error reading policy', errorInfo);
+        return null;
+      }
+    })
+  );
+
+  return {
+    documents: policyContents.filter((p): p is PolicyDocument => p !== null),
+    failedKeys: policies.filter((_, i) => policyContents[i] === null).map(p => p.blobUrl),
+  };
+}
+
 /**
  * Fetch and prepare company policies as context string
  * Automatically extracts companyId from JWT token
@@ -59,98 +168,14 @@ export async function getPolicyContext(): Promise<string> {
       return '';
     }
 
-    logger.info('Fetching company policies', { companyId });
-
-    // 1. List all policies
-    const apiBaseUrl = API_ENDPOINTS.AGENTIC_AI_CHAT_URL;
-    const listResponse = await withRetry(
-      () =>
-        fetch(`${apiBaseUrl}/api/files`, {
-          headers: {
-            'X-COMPANY-ID': companyId,
-          },
-        }),
-      'policy-list-fetch',
-      { maxAttempts: 1 }
-    );
-
-    if (!listResponse.ok) {
-      // 404 is expected if no policies exist yet
-      if (listResponse.status === 404) {
-        logger.info('No policies found for company (404)', { companyId });
-        return '';
-      }
-      logger.warn('Failed to list policies', { status: listResponse.status });
-      return '';
-    }
-
-    const policies = (await listResponse.json()) as PolicyFile[];
-
-    if (!Array.isArray(policies) || policies.length === 0) {
-      logger.info('No policies found for company', { companyId });
-      return '';
-    }
-
-    // IMPORTANT: Do not log full policy objects or content (sensitive).
-    logger.info('Found policies', {
-      companyId,
-      count: policies.length,
-      policyNames: policies.map(p => p?.name).filter(Boolean),
-    });
-    // 2. Read each policy content in parallel
-    const policyContents = await Promise.all(
-      policies.map(async policy => {
-        try {
-          // Remove "policies/{companyId}/" prefix from blobUrl
-          const cleanBlobUrl = policy.blobUrl.replace(/^policies\/[^\/]+\//, '');
-          const policyUrl = `/api/policies/policies/${encodeURIComponent(cleanBlobUrl)}`;
-          const fullUrl = policyUrl.startsWith('http') ? policyUrl : `${apiBaseUrl}${policyUrl}`;
-          const response = await withRetry(
-            () =>
-              fetch(fullUrl, {
-                headers: {
-                  'X-COMPANY-ID': companyId,
-                },
-              }),
-            'policy-read-fetch',
-            { maxAttempts: 1 }
-          );
-
-          if (!response.ok) {
-            logger.info('Failed to read policy (skipping)', { policyName: policy.name, status: response.status });
-            return null;
-          }
-
-          const policyData = (await response.json()) as PolicyContent;
-          logger.info('Policy data received', {
-            policyName: policy.name,
-            policyId: policyData.policyId,
-            textLength: policyData.text?.length || 0,
-          });
-
-          const content = policyData.text;
-          return `**Policy: ${policy.name}**\n${content}`;
-        } catch (error) {
-          const err = normalizeError(error);
-          const errorInfo = errorService.external(err.message, {
-            step: 'read-policy',
-            policyName: policy.name,
-            stack: err.stack,
-          });
-          logErrorInfo(logger, 'warn', 'Error reading policy', errorInfo);
-          return null;
-        }
-      })
-    );
-
-    // 3. Filter out failures and join
-    const validPolicies = policyContents.filter(p => p !== null);
-
-    if (validPolicies.length === 0) {
-      logger.info('No valid policies could be read');
+    const fetched = await fetchPolicyDocuments(companyId);
+    if (!fetched || fetched.documents.length === 0) {
+      if (fetched && fetched.failedKeys.length > 0) logger.info('No valid policies could be read');
       return '';
     }
 
+    // 3. Join readable policies
+    const validPolicies = fetched.documents.map(doc => `**Policy: ${doc.name}**\n${doc.text}`);
     const context = validPolicies.join('\n\n---\n\n');
     logger.info('Policy context prepared', { totalPolicies: validPolicies.length, contextLength: context.length });
 
@@ -8,6 +8,9 @@ export interface RequestContext {
   env?: Record<string, unknown>; // Cloudflare bindings (KV, D1, Service Bindings, etc.)
   baseApiUrl?: string; // Platform API URL for upload/assign operations
   threadId?: string; // Chat/autonomous session ID — used as batchResourceId in assign payloads
+  agentName?: string; // Agent handling the request — LLM cost ledger attribution
+  workflowName?: string; // Workflow/feature scope (e.g. 'autonomous') — LLM cost ledger attribution
+  waitUntil?: (promise: Promise<unknown>) => void; // Workers ExecutionContext.waitUntil — keeps background writes alive after the response
   /** Reserved for toolEventBus internal storage — do not access directly */
   __toolEventBus?: Map<string, unknown>;
 }
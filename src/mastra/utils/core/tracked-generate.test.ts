@@ -2,6 +2,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest';
 
 const mockGenerateText = vi.hoisted(() => vi.fn());
 const mockTrackCost = vi.hoisted(() => vi.fn());
+const mockAssertLlmBudget = vi.hoisted(() => vi.fn());
+const mockRecordLlmUsage = vi.hoisted(() => vi.fn());
 
 vi.mock('ai', () => ({
   generateText: (...args: unknown[]) => mockGenerateText(...args),
@@ -11,6 +13,11 @@ vi.mock('./cost-tracker', () => ({
   trackCost: (...args: unknown[]) => mockTrackCost(...args),
 }));
 
+vi.mock('../../services/llm-cost-service', () => ({
+  assertLlmBudget: (...args: unknown[]) => mockAssertLlmBudget(...args),
+  recordLlmUsage: (...args: unknown[]) => mockRecordLlmUsage(...args),
+}));
+
 import { trackedGenerateText, trackAgentCost } from './tracked-generate';
 import { requestStorage } from './request-storage';
 
@@ -24,6 +31,7 @@ function fakeJwt(payload: Record<string, unknown>): string {
 describe('tracked-generate', () => {
   beforeEach(() => {
     vi.clearAllMocks();
+    mockAssertLlmBudget.mockResolvedValue(undefined);
   });
 
   it('delegates to generateText and records cost when usage is present', async () => {
@@ -158,6 +166,29 @@ describe('tracked-generate', () => {
     expect(passedParams.providerOptions.openai.reasoningEffort).toBe('medium');
   });
 
+  it('records the computed cost in the ledger', async () => {
+    const breakdown = { model: 'gpt-4o-mini', inputTokens: 10, outputTokens: 5, cachedTokens: 0, costUsd: 0.00001 };
+    mockTrackCost.mockReturnValue(breakdown);
+    mockGenerateText.mockResolvedValue({ text: 'ok', usage: { promptTokens: 10, completionTokens: 5 } });
+    const model = { modelId: 'gpt-4o-mini' } as Parameters<typeof trackedGenerateText>[1]['model'];
+
+    await trackedGenerateText('ledger-op', { model, messages: [{ role: 'user', content: 'x' }] });
+
+    expect(mockRecordLlmUsage).toHaveBeenCalledWith('ledger-op', breakdown);
+  });
+
+  it('does not call the model when the budget guard throws', async () => {
+    mockAssertLlmBudget.mockRejectedValue(new Error('LLM budget exceeded'));
+    const model = { modelId: 'gpt-4o-mini' } as Parameters<typeof trackedGenerateText>[1]['model'];
+
+    await expect(
+      trackedGenerateText('blocked-op', { model, messages: [{ role: 'user', content: 'x' }] })
+    ).rejects.toThrow('LLM budget exceeded');
+
+    expect(mockAssertLlmBudget).toHaveBeenCalledWith('blocked-op');
+    expect(mockGenerateText).not.toHaveBeenCalled();
+  });
+
   it('does not call trackCost when usage is missing', async () => {
     mockGenerateText.mockResolvedValue({ text: 'no-usage' });
     const model = { modelId: 'gpt-4o-mini' } as Parameters<typeof trackedGenerateText>[1]['model'];
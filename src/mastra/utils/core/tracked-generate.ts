@@ -2,7 +2,8 @@
  * Tracked LLM Generation Wrapper
  *
  * Drop-in replacement for `generateText` from 'ai' that automatically
- * tracks token usage and cost via cost-tracker.
+ * tracks token usage and cost via cost-tracker, records it in the per-company
+ * D1 ledger and blocks the call when the company is over its hard budget.
  *
  * Usage:
  * ```typescript
@@ -20,6 +21,7 @@ import { generateText } from 'ai';
 import { trackCost } from './cost-tracker';
 import { getLogger } from './logger';
 import { requestStorage } from './request-storage';
+import { assertLlmBudget, recordLlmUsage } from '../../services/llm-cost-service';
 
 const logger = getLogger('TrackedGenerate');
 
@@ -86,6 +88,7 @@ function resolveEndUserId(): string | undefined {
  * @param operation - Short label for this LLM call (e.g., 'header-analysis', 'report-outline')
  * @param params - Same parameters as generateText from 'ai'
  * @returns Same result as generateText — preserves full type inference
+ * @throws LlmBudgetExceededError if the company in request context is over its hard budget
  */
 export async function trackedGenerateText(
   operation: string,
@@ -108,12 +111,14 @@ export async function trackedGenerateText(
     };
   }
 
+  await assertLlmBudget(operation);
+
   const result = await generateText(params);
 
   try {
     const modelId = resolveModelId(params.model);
     if (result.usage) {
-      trackCost(operation, modelId, result.usage);
+      recordLlmUsage(operation, trackCost(operation, modelId, result.usage));
     }
   } catch (err) {
     // Fire-and-forget — tracking failure must never break the LLM call
@@ -124,8 +129,9 @@ export async function trackedGenerateText(
 }
 
 /**
- * Track cost for agent.generate() calls.
- * Call after result is received — fire-and-forget, never throws.
+ * Track cost for agent.generate() calls (console log + D1 ledger).
+ * Call after result is received — never throws. Budget is not checked here: every
+ * agent call site runs assertLlmBudget() itself before invoking the agent.
  *
  * @param operation - Short label (e.g., 'email-ir-triage')
  * @param result - The generate result (must have .usage)
@@ -135,7 +141,7 @@ export function trackAgentCost(operation: string, result: { usage?: Record<strin
   try {
     const modelId = resolveModelId(model);
     if (result.usage) {
-      trackCost(operation, modelId, result.usage);
+      recordLlmUsage(operation, trackCost(operation, modelId, result.usage));
     }
   } catch (err) {
     logger.debug('Agent cost tracking failed', { operation, error: (err as Error).message });
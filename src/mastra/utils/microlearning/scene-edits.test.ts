@@ -0,0 +1,158 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { applySceneEdits, validateSceneContent } from './scene-edits';
+
+const mocks = vi.hoisted(() => ({
+  editScene: vi.fn(),
+  rewrite: vi.fn(),
+}));
+
+vi.mock('../../tools/scenes/rewriters/scene-rewriter-map', () => ({
+  editScene: mocks.editScene,
+  getSceneRewriter: vi.fn(() => mocks.rewrite),
+}));
+
+vi.mock('../core/resilience-utils', () => ({
+  withRetry: vi.fn((fn: () => Promise<unknown>) => fn()),
+}));
+
+vi.mock('../core/logger', () => ({
+  getLogger: () => ({
+    info: vi.fn(),
+    debug: vi.fn(),
+    warn: vi.fn(),
+    error: vi.fn(),
+  }),
+}));
+
+const question = (id: string, title: string) => ({
+  id,
+  type: 'multiple_choice',
+  title,
+  explanation: 'Because.',
+  options: [
+    { id: 'a', text: 'Report it', isCorrect: true },
+    { id: 'b', text: 'Ignore it', isCorrect: false },
+  ],
+});
+
+const QUIZ_SCENE = {
+  iconName: 'brain',
+  title: 'Quiz',
+  key_message: ['Spot the signs'],
+  scene_type: 'quiz',
+  points: 20,
+  duration_seconds: 120,
+  hasAchievementNotification: true,
+  scientific_basis: 'Active Recall: testing strengthens memory',
+  icon: { sceneIconName: 'brain' },
+  questions: { totalCount: 1, maxAttempts: 2, list: [question('q1', 'What do you do?')] },
+  quizCompletionCallToActionText: 'Continue',
+  ariaTexts: {},
+};
+
+const BASE = {
+  microlearning_metadata: { title: 'Phishing Awareness', language: 'en-gb' },
+  scenes: Array.from({ length: 8 }, (_, i) => ({
+    scene_id: String(i + 1),
+    metadata: { scene_type: i === 4 ? 'quiz' : 'intro' },
+  })),
+};
+
+const model = { modelId: 'test-model' } as never;
+
+describe('scene-edits', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('applySceneEdits', () => {
+    it('edits the source language and localizes the edited scene into other languages', async () => {
+      mocks.editScene.mockResolvedValue({
+        ...QUIZ_SCENE,
+        points: 99, // protected: restored from the original
+        questions: { ...QUIZ_SCENE.questions, list: [question('q1', 'Harder question'), question('q2', 'New one')] },
+      });
+      mocks.rewrite.mockImplementation(async (scene: typeof QUIZ_SCENE) => ({ ...scene, title: 'Sınav' }));
+
+      const result = await applySceneEdits({
+        base: BASE,
+        languages: { 'en-gb': { '5': QUIZ_SCENE, app: {} }, 'tr-tr': { '5': { ...QUIZ_SCENE, title: 'Sınav' } } },
+        sourceLanguage: 'en-gb',
+        edits: [{ sceneNumber: 5, instruction: 'Make question 1 harder' }],
+        model,
+        department: 'IT',
+      });
+
+      expect(mocks.editScene).toHaveBeenCalledWith(QUIZ_SCENE, 'quiz', 'Make question 1 harder', {
+        language: 'en-gb',
+        topic: 'Phishing Awareness',
+        model,
+        department: 'IT',
+      });
+      const edited = result.updatedLanguages['en-gb']['5'] as typeof QUIZ_SCENE;
+      expect(edited.points).toBe(20);
+      expect(edited.questions.totalCount).toBe(2);
+      expect(result.updatedLanguages['en-gb'].app).toEqual({});
+
+      expect(mocks.rewrite).toHaveBeenCalledWith(
+        edited,
+        expect.objectContaining({ sourceLanguage: 'en-gb', targetLanguage: 'tr-tr' })
+      );
+      expect((result.updatedLanguages['tr-tr']['5'] as typeof QUIZ_SCENE).questions.list[0].title).toBe(
+        'Harder question'
+      );
+      expect(result.changes).toEqual({
+        'scenes.5': { instruction: 'Make question 1 harder', languages: ['en-gb', 'tr-tr'] },
+      });
+    });
+
+    it('combines several edits of the same scene into one call', async () => {
+      mocks.editScene.mockResolvedValue(QUIZ_SCENE);
+
+      await applySceneEdits({
+        base: BASE,
+        languages: { 'en-gb': { '5': QUIZ_SCENE } },
+        sourceLanguage: 'en-gb',
+        edits: [
+          { sceneNumber: 5, instruction: 'Make question 1 harder' },
+          { sceneNumber: 5, instruction: 'Shorten the explanations' },
+        ],
+        model,
+      });
+
+      expect(mocks.editScene).toHaveBeenCalledTimes(1);
+      expect(mocks.editScene.mock.calls[0][2]).toBe('Make question 1 harder\nShorten the explanations');
+    });
+
+    it('rejects an edit that breaks the scene schema', async () => {
+      mocks.editScene.mockResolvedValue({ ...QUIZ_SCENE, questions: { ...QUIZ_SCENE.questions, list: [] } });
+
+      await expect(
+        applySceneEdits({
+          base: BASE,
+          languages: { 'en-gb': { '5': QUIZ_SCENE } },
+          sourceLanguage: 'en-gb',
+          edits: [{ sceneNumber: 5, instruction: 'Remove all questions' }],
+          model,
+        })
+      ).rejects.toThrow('Scene 5 (en-gb) failed validation');
+    });
+
+    it('fails when the source language or scene content is missing', async () => {
+      const params = { base: BASE, sourceLanguage: 'en-gb', edits: [{ sceneNumber: 5, instruction: 'x' }], model };
+
+      await expect(applySceneEdits({ ...params, languages: {} })).rejects.toThrow('Source language content');
+      await expect(applySceneEdits({ ...params, languages: { 'en-gb': {} } })).rejects.toThrow(
+        'Scene 5 has no content in en-gb'
+      );
+      expect(mocks.editScene).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateSceneContent', () => {
+    it('accepts a valid scene and ignores unknown scene ids', () => {
+      expect(() => validateSceneContent('5', QUIZ_SCENE, 'en-gb')).not.toThrow();
+      expect(() => validateSceneContent('99', {}, 'en-gb')).not.toThrow();
+    });
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * Scene edits for the update-microlearning workflow.
+ *
+ * Each edited scene is changed once, in the microlearning's source language (editScene),
+ * then localized into every other language with that scene's regular rewriter — so all
+ * languages carry the same edit. Every result is validated against LanguageContentSchema;
+ * any failure rejects the whole update so languages never drift apart.
+ */
+
+import { LanguageContentSchema } from '../../schemas/microlearning-schema';
+import type { SceneEdit } from '../../schemas/update-microlearning-schemas';
+import { getSceneRewriter, editScene } from '../../tools/scenes/rewriters/scene-rewriter-map';
+import { getSceneTypeOrDefault, type SceneType } from '../../types/scene-types';
+import type { LanguageModel } from '../../types/language-model';
+import { MICROLEARNING_SCENE_EDITS } from '../../constants';
+import { withRetry } from '../core/resilience-utils';
+import { getLogger } from '../core/logger';
+
+const logger = getLogger('SceneEdits');
+
+type SceneContent = Record<string, unknown>;
+type LanguageContent = Record<string, unknown>;
+
+interface BaseScene {
+  scene_id: string;
+  metadata?: { scene_type?: string };
+}
+
+export interface SceneEditParams {
+  base: {
+    scenes?: BaseScene[];
+    microlearning_metadata?: { title?: string; language?: string };
+  };
+  languages: Record<string, LanguageContent>; // ml:{id}:lang:{lang} content by language
+  sourceLanguage: string;
+  edits: SceneEdit[];
+  model: LanguageModel;
+  department?: string;
+}
+
+export interface SceneEditResult {
+  updatedLanguages: Record<string, LanguageContent>;
+  changes: Record<string, unknown>; // e.g. 'scenes.5' → { instruction, languages }
+}
+
+/** Throws with the first schema issues when a scene does not match its LanguageContentSchema entry */
+export function validateSceneContent(sceneId: string, content: unknown, language: string): void {
+  const schema = LanguageContentSchema.shape[sceneId as keyof typeof LanguageContentSchema.shape];
+  if (!schema) return;
+
+  const result = schema.safeParse(content);
+  if (!result.success) {
+    const issues = result.error.issues
+      .slice(0, 3)
+      .map(issue => `${issue.path.join('.') || '(scene)'}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Scene ${sceneId} (${language}) failed validation: ${issues}`);
+  }
+}
+
+/** Restore fields that must match the base scene metadata; keep quiz totalCount in sync */
+function normalizeEditedScene(original: SceneContent, edited: SceneContent): SceneContent {
+  const result: SceneContent = { ...edited };
+  for (const field of MICROLEARNING_SCENE_EDITS.PROTECTED_FIELDS) {
+    if (field in original) result[field] = original[field];
+  }
+  const questions = result.questions as { totalCount?: number; list?: unknown[] } | undefined;
+  if (questions && Array.isArray(questions.list)) {
+    result.questions = { ...questions, totalCount: questions.list.length };
+  }
+  return result;
+}
+
+export async function applySceneEdits(params: SceneEditParams): Promise<SceneEditResult> {
+  const { base, languages, sourceLanguage, edits, model, department } = params;
+  const source = languages[sourceLanguage];
+  if (!source) {
+    throw new Error(`Source language content (${sourceLanguage}) not found`);
+  }
+
+  const topic = base.microlearning_metadata?.title || 'Cybersecurity training';
+  const targetLanguages = Object.keys(languages).filter(lang => lang !== sourceLanguage);
+
+  // Several edits for the same scene become one instruction (one LLM call per scene)
+  const instructionsByScene = new Map<number, string[]>();
+  for (const edit of edits) {
+    instructionsByScene.set(edit.sceneNumber, [...(instructionsByScene.get(edit.sceneNumber) ?? []), edit.instruction]);
+  }
+
+  const updatedLanguages: Record<string, LanguageContent> = Object.fromEntries(
+    Object.entries(languages).map(([lang, content]) => [lang, { ...content }])
+  );
+  const changes: Record<string, unknown> = {};
+
+  for (const [sceneNumber, instructions] of instructionsByScene) {
+    const sceneMeta = base.scenes?.[sceneNumber - 1];
+    if (!sceneMeta) {
+      throw new Error(`Scene ${sceneNumber} does not exist in this microlearning`);
+    }
+    const sceneId = sceneMeta.scene_id;
+    const sceneType: SceneType = getSceneTypeOrDefault(sceneMeta.metadata?.scene_type);
+    const original = source[sceneId] as SceneContent | undefined;
+    if (!original) {
+      throw new Error(`Scene ${sceneNumber} has no content in ${sourceLanguage}`);
+    }
+
+    const instruction = instructions.join('\n');
+    logger.info('Editing scene', { sceneNumber, sceneId, sceneType, targetLanguages });
+
+    const edited = normalizeEditedScene(
+      original,
+      await withRetry(
+        () => editScene(original, sceneType, instruction, { language: sourceLanguage, topic, model, department }),
+        `Scene ${sceneNumber} edit (${sceneType})`
+      )
+    );
+    validateSceneContent(sceneId, edited, sourceLanguage);
+    updatedLanguages[sourceLanguage][sceneId] = edited;
+
+    const rewrite = getSceneRewriter(sceneType);
+    const localized = await Promise.all(
+      targetLanguages.map(async targetLanguage => {
+        const current = (languages[targetLanguage][sceneId] ?? edited) as SceneContent;
+        const content = normalizeEditedScene(
+          current,
+          await withRetry(
+            () => rewrite(edited, { sourceLanguage, targetLanguage, topic, model, department }),
+            `Scene ${sceneNumber} localization (${targetLanguage})`
+          )
+        );
+        validateSceneContent(sceneId, content, targetLanguage);
+        return [targetLanguage, content] as const;
+      })
+    );
+    for (const [targetLanguage, content] of localized) {
+      updatedLanguages[targetLanguage][sceneId] = content;
+    }
+
+    changes[`scenes.${sceneNumber}`] = { instruction, languages: [sourceLanguage, ...targetLanguages] };
+  }
+
+  return { updatedLanguages, changes };
+}
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import { diffContent, previewValue } from './version-diff';
+import { MICROLEARNING_VERSIONS } from '../../constants';
+
+describe('version-diff', () => {
+  describe('diffContent', () => {
+    it('reports nested changes with dot / index paths', () => {
+      const before = { theme: { colors: { background: '#fff' } }, scenes: [{ title: 'Intro' }, { title: 'Quiz' }] };
+      const after = {
+        theme: { colors: { background: '#000' } },
+        scenes: [{ title: 'Intro' }, { title: 'Final quiz' }],
+      };
+
+      const { changes, truncated } = diffContent(before, after);
+
+      expect(truncated).toBe(false);
+      expect(changes).toEqual([
+        { path: 'theme.colors.background', type: 'changed', before: '#fff', after: '#000' },
+        { path: 'scenes[1].title', type: 'changed', before: 'Quiz', after: 'Final quiz' },
+      ]);
+    });
+
+    it('reports an added or removed subtree once', () => {
+      const { changes } = diffContent({ a: { b: 1, c: 2 }, list: [1] }, { d: { e: 1 }, list: [1, 2] });
+
+      expect(changes).toEqual([
+        { path: 'a', type: 'removed', before: { b: 1, c: 2 } },
+        { path: 'list[1]', type: 'added', after: 2 },
+        { path: 'd', type: 'added', after: { e: 1 } },
+      ]);
+    });
+
+    it('skips ignored paths and identical content', () => {
+      const { changes } = diffContent(
+        { version: 1, updated_at: 'x', title: 'Same' },
+        { version: 2, updated_at: 'y', title: 'Same' },
+        { ignorePaths: ['version', 'updated_at'] }
+      );
+
+      expect(changes).toEqual([]);
+    });
+
+    it('caps the number of changes and flags truncation', () => {
+      const before = { a: 1, b: 1, c: 1 };
+      const after = { a: 2, b: 2, c: 2 };
+
+      const { changes, truncated } = diffContent(before, after, { maxChanges: 2 });
+
+      expect(changes).toHaveLength(2);
+      expect(truncated).toBe(true);
+    });
+
+    it('treats a type change as a single changed value', () => {
+      const { changes } = diffContent({ x: [1, 2] }, { x: 'text' });
+
+      expect(changes).toEqual([{ path: 'x', type: 'changed', before: [1, 2], after: 'text' }]);
+    });
+  });
+
+  describe('previewValue', () => {
+    it('truncates long strings and large objects', () => {
+      const max = MICROLEARNING_VERSIONS.DIFF_VALUE_MAX_CHARS;
+
+      expect(previewValue('a'.repeat(max + 10))).toBe(`${'a'.repeat(max)}…`);
+      expect(typeof previewValue({ text: 'b'.repeat(max) })).toBe('string');
+      expect(previewValue({ short: true })).toEqual({ short: true });
+      expect(previewValue(42)).toBe(42);
+    });
+  });
+});
@@ -0,0 +1,85 @@
+/**
+ * Structured JSON diff between two microlearning versions.
+ *
+ * Paths use dot / index notation (`theme.colors.background`, `scenes[3].title`). Arrays
+ * are compared by index; an added or removed subtree is reported once at its root.
+ * Values are truncated so a diff stays readable in chat and small in API responses.
+ */
+
+import { MICROLEARNING_VERSIONS } from '../../constants';
+
+export type ContentChangeType = 'added' | 'removed' | 'changed';
+
+export interface ContentChange {
+  path: string;
+  type: ContentChangeType;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface DiffOptions {
+  ignorePaths?: readonly string[];
+  maxChanges?: number;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function joinPath(parent: string, key: string | number): string {
+  if (typeof key === 'number') return `${parent}[${key}]`;
+  return parent ? `${parent}.${key}` : key;
+}
+
+/** Strings over the limit are cut; objects and arrays are shown as truncated JSON */
+export function previewValue(value: unknown, maxChars: number = MICROLEARNING_VERSIONS.DIFF_VALUE_MAX_CHARS): unknown {
+  if (typeof value === 'string') return value.length > maxChars ? `${value.slice(0, maxChars)}…` : value;
+  if (typeof value !== 'object' || value === null) return value;
+  const json = JSON.stringify(value);
+  return json.length > maxChars ? `${json.slice(0, maxChars)}…` : value;
+}
+
+/**
+ * Changes from `before` to `after`, in document order. Stops collecting at maxChanges;
+ * `truncated` tells the caller there were more.
+ */
+export function diffContent(
+  before: unknown,
+  after: unknown,
+  options: DiffOptions = {}
+): { changes: ContentChange[]; truncated: boolean } {
+  const ignore = new Set(options.ignorePaths ?? []);
+  const maxChanges = options.maxChanges ?? MICROLEARNING_VERSIONS.DIFF_MAX_CHANGES;
+  const changes: ContentChange[] = [];
+  let truncated = false;
+
+  const push = (change: ContentChange) => {
+    if (changes.length >= maxChanges) {
+      truncated = true;
+      return;
+    }
+    changes.push(change);
+  };
+
+  const walk = (a: unknown, b: unknown, path: string) => {
+    if (truncated || ignore.has(path)) return;
+
+    if (a === undefined && b !== undefined) return push({ path, type: 'added', after: previewValue(b) });
+    if (a !== undefined && b === undefined) return push({ path, type: 'removed', before: previewValue(a) });
+
+    if (isPlainObject(a) && isPlainObject(b)) {
+      for (const key of new Set([...Object.keys(a), ...Object.keys(b)])) walk(a[key], b[key], joinPath(path, key));
+      return;
+    }
+    if (Array.isArray(a) && Array.isArray(b)) {
+      for (let i = 0; i < Math.max(a.length, b.length); i++) walk(a[i], b[i], joinPath(path, i));
+      return;
+    }
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      push({ path: path || '(root)', type: 'changed', before: previewValue(a), after: previewValue(b) });
+    }
+  };
+
+  walk(before, after, '');
+  return { changes, truncated };
+}
@@ -65,7 +65,7 @@ function normalizeBrandSignal(value: string): string {
     .trim();
 }
 
-function cleanResolvedDomain(value?: string): string | undefined {
+export function cleanResolvedDomain(value?: string): string | undefined {
   if (!value) {
     return undefined;
   }
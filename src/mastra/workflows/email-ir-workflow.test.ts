@@ -1,7 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import {
   emailIRWorkflow,
+  emailIRRawWorkflow,
   fetchStep,
+  parseRawStep,
   multiAnalysisStep,
   triageStep,
   featureExtractionStep,
@@ -11,6 +13,7 @@ import {
 
 const mocks = vi.hoisted(() => ({
   fetchExecute: vi.fn(),
+  parseRawExecute: vi.fn(),
   headerExecute: vi.fn(),
   behavioralExecute: vi.fn(),
   intentExecute: vi.fn(),
@@ -30,6 +33,16 @@ vi.mock('../tools/email-ir/fetch-email', async importOriginal => {
   };
 });
 
+vi.mock('../tools/email-ir/parse-raw-email', async importOriginal => {
+  const actual = await importOriginal<typeof import('../tools/email-ir/parse-raw-email')>();
+  return {
+    ...actual,
+    parseRawEmailTool: {
+      execute: mocks.parseRawExecute,
+    },
+  };
+});
+
 vi.mock('../tools/email-ir/header-analysis', async importOriginal => {
   const actual = await importOriginal<typeof import('../tools/email-ir/header-analysis')>();
   return {
@@ -295,6 +308,7 @@ describe('EmailIRWorkflow', () => {
     vi.clearAllMocks();
 
     mocks.fetchExecute.mockResolvedValue(baseEmail);
+    mocks.parseRawExecute.mockResolvedValue(baseEmail);
     mocks.headerExecute.mockResolvedValue(headerAnalysis);
     mocks.behavioralExecute.mockResolvedValue(behavioralAnalysis);
     mocks.intentExecute.mockResolvedValue(intentAnalysis);
@@ -425,4 +439,23 @@ describe('EmailIRWorkflow', () => {
     mocks.intentExecute.mockRejectedValueOnce(new Error('intent crashed'));
     await expect((multiAnalysisStep as any).execute({ inputData: baseEmail })).rejects.toThrow('All three parallel analyses failed');
   });
+
+  it('raw workflow parses the upload instead of fetching and reaches the report', async () => {
+    const run = await emailIRRawWorkflow.createRun();
+    const result = await run.start({
+      inputData: { rawEmail: 'RnJvbTogYUBiLmNvbQ==', fileName: 'sample.eml' },
+    });
+
+    expect(result.status).toBe('success');
+    expect(mocks.parseRawExecute).toHaveBeenCalledTimes(1);
+    expect(mocks.fetchExecute).not.toHaveBeenCalled();
+    expect(mocks.reportExecute).toHaveBeenCalledTimes(1);
+  });
+
+  it('parseRawStep propagates parse failures (no synthetic fallback for bad uploads)', async () => {
+    mocks.parseRawExecute.mockRejectedValueOnce(new Error('rawEmail must be base64-encoded'));
+    await expect((parseRawStep as any).execute({ inputData: { rawEmail: '!!!' } })).rejects.toThrow(
+      'rawEmail must be base64-encoded'
+    );
+  });
 });
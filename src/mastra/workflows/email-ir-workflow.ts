@@ -2,6 +2,7 @@ import { createWorkflow, createStep } from '@mastra/core/workflows';
 import { z } from 'zod';
 import { EmailIREmailDataSchema } from '../types/email-ir';
 import { fetchEmailTool, fetchEmailInputSchema } from '../tools/email-ir/fetch-email';
+import { parseRawEmailTool, parseRawEmailInputSchema } from '../tools/email-ir/parse-raw-email';
 import { headerAnalysisTool, headerAnalysisOutputSchema } from '../tools/email-ir/header-analysis';
 import {
   bodyBehavioralAnalysisTool,
@@ -58,6 +59,18 @@ export const fetchStep = createStep({
   },
 });
 
+// Raw upload mode: parse a .eml/.msg file instead of fetching from the Keepnet API.
+// No degraded fallback here — an unparseable upload is a client error, not a transient failure.
+export const parseRawStep = createStep({
+  id: 'email-ir-parse-raw-step',
+  inputSchema: parseRawEmailInputSchema,
+  outputSchema: EmailIREmailDataSchema,
+  execute: async ({ inputData }) => {
+    if (!parseRawEmailTool.execute) throw new Error('Parse raw email tool is not executable');
+    return (await parseRawEmailTool.execute(inputData, {})) as z.output<typeof EmailIREmailDataSchema>;
+  },
+});
+
 // Parallel Analyses: Run header, behavioral, and intent analyses on the fetched email.
 // Uses Promise.allSettled so a single analysis failure doesn't kill the entire pipeline.
 export const multiAnalysisStep = createStep({
@@ -120,6 +133,7 @@ export const multiAnalysisStep = createStep({
         header_summary: headerResult?.header_summary ?? 'Header analysis unavailable due to processing error',
         security_awareness_detected: headerResult?.security_awareness_detected ?? false,
         list_unsubscribe_present: headerResult?.list_unsubscribe_present ?? false,
+        lookalike_domains: headerResult?.lookalike_domains ?? [],
       },
       behavioral_analysis: {
         urgency_level: behavioralResult?.urgency_level ?? 'insufficient_data',
@@ -234,3 +248,32 @@ export const emailIRWorkflow = createWorkflow({
   .then(riskAssessmentStep)
   .then(reportingStep)
   .commit();
+
+// Same pipeline for uploaded .eml/.msg files (step 1 = parse instead of fetch)
+export const emailIRRawWorkflow = createWorkflow({
+  id: 'email-ir-raw-workflow',
+  description: 'Email Incident Response Analyst Workflow for uploaded raw .eml/.msg files',
+  inputSchema: parseRawEmailInputSchema,
+  outputSchema: EmailIRCanvasSchema,
+})
+  .then(parseRawStep)
+  .then(multiAnalysisStep)
+  .then(triageStep)
+  .then(featureExtractionStep)
+  .then(riskAssessmentStep)
+  .then(reportingStep)
+  .commit();
+
+// Pipeline for email data already in hand (bulk analysis fetches and clusters first)
+export const emailIRDataWorkflow = createWorkflow({
+  id: 'email-ir-data-workflow',
+  description: 'Email Incident Response Analyst Workflow for pre-fetched email data',
+  inputSchema: EmailIREmailDataSchema,
+  outputSchema: EmailIRCanvasSchema,
+})
+  .then(multiAnalysisStep)
+  .then(triageStep)
+  .then(featureExtractionStep)
+  .then(riskAssessmentStep)
+  .then(reportingStep)
+  .commit();
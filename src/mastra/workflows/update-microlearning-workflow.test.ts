@@ -5,6 +5,9 @@ import { updateMicrolearningWorkflow } from './update-microlearning-workflow';
 const mocks = vi.hoisted(() => ({
   kvGet: vi.fn(),
   kvPut: vi.fn(),
+  captureSnapshot: vi.fn(),
+  recordVersion: vi.fn(),
+  applySceneEdits: vi.fn(),
   getWhitelabelingConfig: vi.fn(),
   resolveLogoAndBrand: vi.fn(),
   normalizeThemeBackgroundClass: vi.fn(),
@@ -26,6 +29,15 @@ vi.mock('../services/kv-service', () => ({
   }),
 }));
 
+vi.mock('../services/microlearning-version-service', () => ({
+  MicrolearningVersionService: vi.fn().mockImplementation(function () {
+    return {
+      captureSnapshot: mocks.captureSnapshot,
+      recordVersion: mocks.recordVersion,
+    };
+  }),
+}));
+
 vi.mock('../services/product-service', () => ({
   ProductService: vi.fn().mockImplementation(function () {
     return {
@@ -46,6 +58,10 @@ vi.mock('../utils/microlearning/logo-utils', () => ({
   handleLogoHallucination: mocks.handleLogoHallucination,
 }));
 
+vi.mock('../utils/microlearning/scene-edits', () => ({
+  applySceneEdits: mocks.applySceneEdits,
+}));
+
 vi.mock('../utils/kv-consistency', () => ({
   waitForKVConsistency: vi.fn().mockResolvedValue(true),
   buildExpectedKVKeys: vi.fn().mockReturnValue([]),
@@ -75,6 +91,8 @@ describe('UpdateMicrolearningWorkflow', () => {
       microlearning_metadata: { language: 'en' },
     });
     mocks.kvPut.mockResolvedValue(true);
+    mocks.captureSnapshot.mockResolvedValue({ version: 1, languages: { en: {} }, inboxes: {} });
+    mocks.recordVersion.mockResolvedValue({ version: 2 });
     mocks.getWhitelabelingConfig.mockResolvedValue({
       mainLogoUrl: 'https://whitelabel.com/logo.png',
     });
@@ -97,7 +115,8 @@ describe('UpdateMicrolearningWorkflow', () => {
     const workflowResult = await run.start({ inputData: input });
 
     expect(mocks.kvGet).toHaveBeenCalledWith('ml:ml-123:base');
-    expect(mocks.kvPut).toHaveBeenCalledTimes(2); // Base + History
+    expect(mocks.kvPut).toHaveBeenCalledTimes(1); // Base (snapshots + history via MicrolearningVersionService)
+    expect(mocks.captureSnapshot).toHaveBeenCalledWith('ml-123');
 
     expect(workflowResult.status).toBe('success');
 
@@ -365,11 +384,108 @@ describe('UpdateMicrolearningWorkflow', () => {
 
     await run.start({ inputData: input });
 
-    const historyPutCall = mocks.kvPut.mock.calls.find(c => c?.[0]?.includes(':history:'));
-    expect(historyPutCall).toBeDefined();
-    expect(historyPutCall?.[1]).toMatchObject({
-      action: 'updated',
-      version: 2,
+    expect(mocks.recordVersion).toHaveBeenCalledWith(
+      'ml-history-test',
+      expect.objectContaining({
+        action: 'updated',
+        version: 2,
+        changes: expect.objectContaining({ 'theme.colors': expect.anything() }),
+        languages: { en: {} },
+      })
+    );
+  });
+
+  it('should still save when the previous version snapshot fails', async () => {
+    mocks.captureSnapshot.mockResolvedValue(null);
+    const run = await updateMicrolearningWorkflow.createRun();
+
+    const workflowResult = await run.start({
+      inputData: { microlearningId: 'ml-no-snapshot', updates: { theme: { colors: { background: 'blue' } } } } as any,
+    });
+
+    expect(workflowResult.status).toBe('success');
+    expect(mocks.loggerWarn).toHaveBeenCalledWith('Previous version snapshot not saved', expect.any(Object));
+    expect(mocks.recordVersion.mock.calls[0][1]).not.toHaveProperty('languages');
+  });
+  describe('scene edits', () => {
+    const SCENE_EDIT_BASE = {
+      version: 1,
+      theme: {},
+      microlearning_metadata: { language: 'en-GB', language_availability: ['en-gb', 'tr-TR'] },
+      scenes: [],
+    };
+
+    beforeEach(() => {
+      mocks.kvGet.mockImplementation(async (key: string) => {
+        if (key.endsWith(':base')) return SCENE_EDIT_BASE;
+        if (key.endsWith(':lang:en-gb')) return { '5': { title: 'Quiz' } };
+        if (key.endsWith(':lang:tr-tr')) return { '5': { title: 'Sınav' } };
+        return null;
+      });
+      mocks.captureSnapshot.mockResolvedValue({
+        version: 1,
+        languages: { 'en-gb': { '5': { title: 'Quiz' } }, 'tr-tr': { '5': { title: 'Sınav' } } },
+        inboxes: {},
+      });
+      mocks.applySceneEdits.mockResolvedValue({
+        updatedLanguages: { 'en-gb': { '5': { title: 'Hard quiz' } }, 'tr-tr': { '5': { title: 'Zor sınav' } } },
+        changes: { 'scenes.5': { instruction: 'Make question 3 harder', languages: ['en-gb', 'tr-tr'] } },
+      });
+    });
+
+    const runSceneEdit = async () => {
+      const run = await updateMicrolearningWorkflow.createRun();
+      return run.start({
+        inputData: {
+          microlearningId: 'ml-scenes',
+          updates: { sceneEdits: [{ sceneNumber: 5, instruction: 'Make question 3 harder' }] },
+        } as any,
+      });
+    };
+
+    it('edits scenes in every available language and saves them before the base', async () => {
+      const workflowResult = await runSceneEdit();
+
+      expect(workflowResult.status).toBe('success');
+      expect(mocks.applySceneEdits).toHaveBeenCalledWith(
+        expect.objectContaining({
+          sourceLanguage: 'en-gb',
+          languages: { 'en-gb': { '5': { title: 'Quiz' } }, 'tr-tr': { '5': { title: 'Sınav' } } },
+          edits: [{ sceneNumber: 5, instruction: 'Make question 3 harder' }],
+        })
+      );
+      expect(mocks.kvPut.mock.calls.map(c => c[0])).toEqual([
+        'ml:ml-scenes:lang:en-gb',
+        'ml:ml-scenes:lang:tr-tr',
+        'ml:ml-scenes:base',
+      ]);
+      expect(mocks.recordVersion).toHaveBeenCalledWith(
+        'ml-scenes',
+        expect.objectContaining({
+          changes: expect.objectContaining({ 'scenes.5': expect.anything() }),
+          languages: { 'en-gb': { '5': { title: 'Hard quiz' } }, 'tr-tr': { '5': { title: 'Zor sınav' } } },
+        })
+      );
+    });
+
+    it('restores already written languages when the base save fails', async () => {
+      mocks.kvPut.mockImplementation(async (key: string) => !key.endsWith(':base'));
+
+      const workflowResult = await runSceneEdit();
+
+      expect((workflowResult as any).result.success).toBe(false);
+      expect(mocks.kvPut).toHaveBeenCalledWith('ml:ml-scenes:lang:en-gb', { '5': { title: 'Quiz' } });
+      expect(mocks.kvPut).toHaveBeenCalledWith('ml:ml-scenes:lang:tr-tr', { '5': { title: 'Sınav' } });
+      expect(mocks.recordVersion).not.toHaveBeenCalled();
+    });
+
+    it('fails without saving when a scene edit is rejected', async () => {
+      mocks.applySceneEdits.mockRejectedValue(new Error('Scene 5 (en-gb) failed validation: questions.list'));
+
+      const workflowResult = await runSceneEdit();
+
+      expect(workflowResult.status).toBe('failed');
+      expect(mocks.kvPut).not.toHaveBeenCalled();
     });
   });
 });
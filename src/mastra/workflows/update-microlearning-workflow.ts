@@ -1,5 +1,6 @@
 import { createStep, createWorkflow } from '@mastra/core/workflows';
 import { KVService } from '../services/kv-service';
+import { MicrolearningVersionService } from '../services/microlearning-version-service';
 import { getLogger } from '../utils/core/logger';
 import { normalizeDepartmentName } from '../utils/language/language-utils';
 import { normalizeError, logErrorInfo } from '../utils/core/error-utils';
@@ -23,6 +24,7 @@ import {
 } from '../schemas/update-microlearning-schemas';
 import { handleLogoHallucination } from '../utils/microlearning/logo-utils';
 import { deepMerge } from '../utils/object-utils';
+import { applySceneEdits } from '../utils/microlearning/scene-edits';
 
 const logger = getLogger('UpdateMicrolearningWorkflow');
 
@@ -64,6 +66,27 @@ const loadMicrolearningStep = createStep({
 
     const currentVersion = currentContent.version || 1;
 
+    // Scene edits rewrite language content: load every available language
+    let languageContents: Record<string, unknown> | undefined;
+    if (updates.sceneEdits?.length) {
+      const metadata = currentContent.microlearning_metadata || {};
+      const languages: string[] = [
+        ...new Set<string>(
+          [...(metadata.language_availability || []), metadata.language || 'en'].map((l: string) => l.toLowerCase())
+        ),
+      ];
+      const loaded = await Promise.all(
+        languages.map(async lang => {
+          const content = await withRetry(
+            () => kvService.get(`ml:${microlearningId}:lang:${lang}`),
+            `KV load (microlearning language ${microlearningId}/${lang})`
+          );
+          return [lang, content] as const;
+        })
+      );
+      languageContents = Object.fromEntries(loaded.filter(([, content]) => content));
+    }
+
     await emitUMStep(writer, _wfRunId, 0, 'completed', 'Loading training', `Loaded v${currentVersion}`);
 
     logger.info('Microlearning loaded', {
@@ -71,6 +94,8 @@ const loadMicrolearningStep = createStep({
       department,
       currentVersion,
       hasThemeUpdates: !!updates.theme,
+      sceneEdits: updates.sceneEdits?.length ?? 0,
+      languages: languageContents ? Object.keys(languageContents) : undefined,
     });
 
     return {
@@ -78,6 +103,7 @@ const loadMicrolearningStep = createStep({
       department,
       currentContent,
       currentVersion,
+      languageContents,
       updates,
       model,
       modelProvider,
@@ -85,10 +111,10 @@ const loadMicrolearningStep = createStep({
   },
 });
 
-// Step 2: Merge theme updates with deep merge
+// Step 2: Merge theme updates with deep merge, apply scene edits
 const mergeUpdatesStep = createStep({
   id: 'merge-updates',
-  description: 'Merge theme updates with current content',
+  description: 'Merge theme updates and apply scene edits to current content',
   inputSchema: mergeUpdatesInputSchema,
   outputSchema: mergeUpdatesOutputSchema,
   execute: async ({ inputData, requestContext }) => {
@@ -97,6 +123,7 @@ const mergeUpdatesStep = createStep({
       department,
       currentContent,
       currentVersion,
+      languageContents,
       updates: rawUpdates,
       model,
       modelProvider,
@@ -228,6 +255,29 @@ const mergeUpdatesStep = createStep({
       }
     }
 
+    // Apply scene edits - source language first, then localized into every other language
+    let updatedLanguages: Record<string, unknown> | undefined;
+    if (updates.sceneEdits?.length) {
+      await emitUMStep(
+        writer,
+        _wfRunId,
+        1,
+        'running',
+        'Applying updates',
+        `Editing ${updates.sceneEdits.length} scene(s) in ${Object.keys(languageContents || {}).length} language(s)...`
+      );
+      const sceneEditResult = await applySceneEdits({
+        base: updatedContent,
+        languages: (languageContents || {}) as Record<string, Record<string, unknown>>,
+        sourceLanguage: (updatedContent.microlearning_metadata?.language || 'en').toLowerCase(),
+        edits: updates.sceneEdits,
+        model: getModelWithOverride(modelProvider, model),
+        department,
+      });
+      updatedLanguages = sceneEditResult.updatedLanguages;
+      Object.assign(changes, sceneEditResult.changes);
+    }
+
     // Update version and timestamp
     updatedContent.version = newVersion;
     updatedContent.updated_at = new Date().toISOString();
@@ -247,6 +297,7 @@ const mergeUpdatesStep = createStep({
       updatedContent,
       newVersion,
       changes,
+      updatedLanguages,
     };
   },
 });
@@ -258,8 +309,9 @@ const saveUpdatesStep = createStep({
   inputSchema: saveUpdatesInputSchema,
   outputSchema: updateOutputSchema,
   execute: async ({ inputData, requestContext }) => {
-    const { microlearningId, department, updatedContent, newVersion, changes } = inputData;
+    const { microlearningId, department, updatedContent, newVersion, changes, updatedLanguages } = inputData;
     const kvService = new KVService();
+    const versionService = new MicrolearningVersionService(kvService);
     const writer = requestContext?.get('writer') as StreamWriter | undefined;
     const _wfRunId = (requestContext?.get('_wfRunId') as string) || '';
     await emitUMStep(writer, _wfRunId, 2, 'running', 'Saving to storage', 'Persisting changes to KV...');
@@ -271,11 +323,43 @@ const saveUpdatesStep = createStep({
         newVersion,
       });
 
+      // Snapshot the previous version (base + languages + inboxes) so it stays restorable.
+      // Best-effort: a missing snapshot must not block the update.
+      const previousSnapshot = await versionService.captureSnapshot(microlearningId);
+      if (!previousSnapshot) {
+        logger.warn('Previous version snapshot not saved', { microlearningId, version: newVersion - 1 });
+      }
+
+      // Save edited language content before the base, so the new version never points at old scenes.
+      // On failure, put back what was already written (from the snapshot) and keep the old base.
+      const writtenLanguages: string[] = [];
+      const revertLanguages = async () => {
+        for (const written of writtenLanguages) {
+          const previous = previousSnapshot?.languages[written];
+          if (previous) await kvService.put(`ml:${microlearningId}:lang:${written}`, previous);
+        }
+      };
+      for (const [lang, content] of Object.entries(updatedLanguages || {})) {
+        const langSaved = await kvService.put(`ml:${microlearningId}:lang:${lang}`, content);
+        if (!langSaved) {
+          await revertLanguages();
+          const errorInfo = errorService.external('Failed to save edited language content to KV', {
+            microlearningId,
+            language: lang,
+            step: 'save-language-content',
+          });
+          logErrorInfo(logger, 'error', 'KV save failed', errorInfo);
+          throw new Error(errorInfo.message);
+        }
+        writtenLanguages.push(lang);
+      }
+
       // Save updated base content
       const baseKey = `ml:${microlearningId}:base`;
       const saved = await kvService.put(baseKey, updatedContent);
 
       if (!saved) {
+        await revertLanguages();
         const errorInfo = errorService.external('Failed to save updated microlearning to KV', {
           microlearningId,
           step: 'save-updated-content',
@@ -284,16 +368,17 @@ const saveUpdatesStep = createStep({
         throw new Error(errorInfo.message);
       }
 
-      // Save version history entry
-      const historyKey = `ml:${microlearningId}:history:${newVersion}`;
-      const historyEntry = {
-        action: 'updated',
+      // Save version history entry + full snapshot of the new version
+      await versionService.recordVersion(microlearningId, {
         version: newVersion,
-        timestamp: new Date().toISOString(),
+        action: 'updated',
+        base: updatedContent,
         changes,
-      };
-
-      await kvService.put(historyKey, historyEntry);
+        ...(previousSnapshot && {
+          languages: { ...previousSnapshot.languages, ...(updatedLanguages as typeof previousSnapshot.languages) },
+          inboxes: previousSnapshot.inboxes,
+        }),
+      });
 
       // Build training URL
       const language = updatedContent.microlearning_metadata?.language || 'en';
@@ -350,7 +435,7 @@ const saveUpdatesStep = createStep({
 // Create Update Microlearning Workflow
 const updateMicrolearningWorkflow = createWorkflow({
   id: 'update-microlearning-workflow',
-  description: 'Update existing microlearning metadata and theme with version control',
+  description: 'Update existing microlearning theme and scene content with version control',
   inputSchema: updateStepInputSchema,
   outputSchema: updateOutputSchema,
 })